@@ -3,16 +3,68 @@
  * @description Adapter wrapping a LocalMode LanguageModel as an AI SDK LanguageModelV3
  */
 
-import type { LanguageModel } from '@localmode/core';
+import { withToolCalling } from '@localmode/core';
+import type { DoGenerateOptions, LanguageModel, ToolCall } from '@localmode/core';
 import type {
   LanguageModelV3,
   LanguageModelV3CallOptions,
+  LanguageModelV3Content,
   LanguageModelV3GenerateResult,
   LanguageModelV3StreamResult,
   LanguageModelV3StreamPart,
   LanguageModelV3Usage,
 } from '@ai-sdk/provider';
-import { mapFinishReason, convertPrompt } from './utils.js';
+import { mapFinishReason, convertPrompt, convertTools } from './utils.js';
+
+/**
+ * Build LocalMode generation options from AI SDK call options.
+ */
+function toLocalModeOptions(options: LanguageModelV3CallOptions): DoGenerateOptions {
+  const { systemPrompt, messages, prompt } = convertPrompt(options.prompt);
+  const { tools, toolChoice } = convertTools(options.tools, options.toolChoice);
+
+  return {
+    prompt,
+    systemPrompt,
+    messages: messages.length > 0 ? messages : undefined,
+    maxTokens: options.maxOutputTokens,
+    temperature: options.temperature,
+    topP: options.topP,
+    stopSequences: options.stopSequences,
+    tools,
+    toolChoice,
+    responseFormat:
+      options.responseFormat?.type === 'json'
+        ? { type: 'json', schema: options.responseFormat.schema as Record<string, unknown> | undefined }
+        : undefined,
+    abortSignal: options.abortSignal,
+  };
+}
+
+/**
+ * Convert a LocalMode tool call to an AI SDK tool call (input as a JSON string).
+ */
+function toV3ToolCall(call: ToolCall) {
+  return {
+    type: 'tool-call' as const,
+    toolCallId: call.toolCallId,
+    toolName: call.toolName,
+    input: JSON.stringify(call.args),
+  };
+}
+
+/**
+ * Stream parts for a complete tool call: input start, one input delta, input end, and the call.
+ */
+function toolCallParts(call: ToolCall): LanguageModelV3StreamPart[] {
+  const toolCall = toV3ToolCall(call);
+  return [
+    { type: 'tool-input-start', id: call.toolCallId, toolName: call.toolName },
+    { type: 'tool-input-delta', id: call.toolCallId, delta: toolCall.input },
+    { type: 'tool-input-end', id: call.toolCallId },
+    toolCall,
+  ];
+}
 
 /**
  * Wraps a `@localmode/core` LanguageModel as an AI SDK LanguageModelV3.
@@ -20,6 +72,12 @@ import { mapFinishReason, convertPrompt } from './utils.js';
  * Use this to make local language models (e.g. via `@localmode/webllm`)
  * work with AI SDK functions like `generateText()` and `streamText()`.
  *
+ * AI SDK function tools are forwarded to the model and its tool calls are
+ * returned as `tool-call` content. Models without native tool support use
+ * the prompt-based emulation from `withToolCalling()`. A JSON response
+ * format is forwarded as `responseFormat`, which constrains decoding on
+ * models that support it.
+ *
  * @example
  * ```ts
  * import { webllm } from '@localmode/webllm';
@@ -44,7 +102,7 @@ export class LocalModeLanguageModel implements LanguageModelV3 {
    * @param model - A LocalMode LanguageModel instance to wrap
    */
   constructor(model: LanguageModel) {
-    this.model = model;
+    this.model = withToolCalling(model);
     this.modelId = model.modelId;
   }
 
@@ -55,18 +113,7 @@ export class LocalModeLanguageModel implements LanguageModelV3 {
    * @returns AI SDK generation result
    */
   async doGenerate(options: LanguageModelV3CallOptions): Promise<LanguageModelV3GenerateResult> {
-    const { systemPrompt, messages, prompt } = convertPrompt(options.prompt);
-
-    const result = await this.model.doGenerate({
-      prompt,
-      systemPrompt,
-      messages: messages.length > 0 ? messages : undefined,
-      maxTokens: options.maxOutputTokens,
-      temperature: options.temperature,
-      topP: options.topP,
-      stopSequences: options.stopSequences,
-      abortSignal: options.abortSignal,
-    });
+    const result = await this.model.doGenerate(toLocalModeOptions(options));
 
     const usage: LanguageModelV3Usage = {
       inputTokens: {
@@ -82,8 +129,16 @@ export class LocalModeLanguageModel implements LanguageModelV3 {
       },
     };
 
+    const content: LanguageModelV3Content[] = [];
+    if (result.text || !result.toolCalls?.length) {
+      content.push({ type: 'text', text: result.text });
+    }
+    for (const call of result.toolCalls ?? []) {
+      content.push(toV3ToolCall(call));
+    }
+
     return {
-      content: [{ type: 'text' as const, text: result.text }],
+      content,
       finishReason: mapFinishReason(result.finishReason),
       usage,
       warnings: [],
@@ -99,20 +154,11 @@ export class LocalModeLanguageModel implements LanguageModelV3 {
    * @returns AI SDK stream result
    */
   async doStream(options: LanguageModelV3CallOptions): Promise<LanguageModelV3StreamResult> {
-    const { systemPrompt, messages, prompt } = convertPrompt(options.prompt);
+    const request = toLocalModeOptions(options);
     const textId = 'text-0';
 
     if (this.model.doStream) {
-      const iterable = this.model.doStream({
-        prompt,
-        systemPrompt,
-        messages: messages.length > 0 ? messages : undefined,
-        maxTokens: options.maxOutputTokens,
-        temperature: options.temperature,
-        topP: options.topP,
-        stopSequences: options.stopSequences,
-        abortSignal: options.abortSignal,
-      });
+      const iterable = this.model.doStream(request);
 
       const stream = new ReadableStream<LanguageModelV3StreamPart>({
         async start(controller) {
@@ -122,6 +168,7 @@ export class LocalModeLanguageModel implements LanguageModelV3 {
           try {
             let lastUsage: LanguageModelV3Usage | undefined;
             let lastFinishReason: ReturnType<typeof mapFinishReason> | undefined;
+            const toolCalls: ToolCall[] = [];
 
             for await (const chunk of iterable) {
               if (options.abortSignal?.aborted) {
@@ -156,10 +203,20 @@ export class LocalModeLanguageModel implements LanguageModelV3 {
               if (chunk.finishReason) {
                 lastFinishReason = mapFinishReason(chunk.finishReason);
               }
+
+              if (chunk.toolCalls) {
+                toolCalls.push(...chunk.toolCalls);
+              }
             }
 
             controller.enqueue({ type: 'text-end', id: textId });
 
+            for (const call of toolCalls) {
+              for (const part of toolCallParts(call)) {
+                controller.enqueue(part);
+              }
+            }
+
             controller.enqueue({
               type: 'finish',
               usage: lastUsage ?? {
@@ -181,16 +238,7 @@ export class LocalModeLanguageModel implements LanguageModelV3 {
     }
 
     // Fallback: doGenerate and emit as single text chunk
-    const result = await this.model.doGenerate({
-      prompt,
-      systemPrompt,
-      messages: messages.length > 0 ? messages : undefined,
-      maxTokens: options.maxOutputTokens,
-      temperature: options.temperature,
-      topP: options.topP,
-      stopSequences: options.stopSequences,
-      abortSignal: options.abortSignal,
-    });
+    const result = await this.model.doGenerate(request);
 
     const usage: LanguageModelV3Usage = {
       inputTokens: {
@@ -212,6 +260,11 @@ export class LocalModeLanguageModel implements LanguageModelV3 {
         controller.enqueue({ type: 'text-start', id: textId });
         controller.enqueue({ type: 'text-delta', id: textId, delta: result.text });
         controller.enqueue({ type: 'text-end', id: textId });
+        for (const call of result.toolCalls ?? []) {
+          for (const part of toolCallParts(call)) {
+            controller.enqueue(part);
+          }
+        }
         controller.enqueue({
           type: 'finish',
           usage,
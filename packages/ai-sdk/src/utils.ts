@@ -3,10 +3,18 @@
  * @description Utility functions for mapping between LocalMode and AI SDK types
  */
 
-import type { FinishReason, ChatMessage } from '@localmode/core';
 import type {
+  FinishReason,
+  ChatMessage,
+  LanguageModelTool,
+  ToolCall,
+  ToolChoice,
+} from '@localmode/core';
+import type {
+  LanguageModelV3CallOptions,
   LanguageModelV3FinishReason,
   LanguageModelV3Prompt,
+  LanguageModelV3ToolResultOutput,
 } from '@ai-sdk/provider';
 
 /**
@@ -20,6 +28,7 @@ export function mapFinishReason(reason: FinishReason): LanguageModelV3FinishReas
     stop: 'stop',
     length: 'length',
     content_filter: 'content-filter',
+    tool_calls: 'tool-calls',
     error: 'error',
   };
 
@@ -29,10 +38,81 @@ export function mapFinishReason(reason: FinishReason): LanguageModelV3FinishReas
   };
 }
 
+/**
+ * Convert AI SDK function tools and tool choice to LocalMode tools.
+ *
+ * Provider-defined tools are skipped; they only run on the provider's own
+ * servers.
+ *
+ * @param tools - AI SDK tools from the call options
+ * @param toolChoice - AI SDK tool choice from the call options
+ * @returns Object with tools and toolChoice (both undefined when no function tools are given)
+ */
+export function convertTools(
+  tools: LanguageModelV3CallOptions['tools'],
+  toolChoice: LanguageModelV3CallOptions['toolChoice']
+): { tools?: LanguageModelTool[]; toolChoice?: ToolChoice } {
+  const functionTools: LanguageModelTool[] = (tools ?? [])
+    .filter((tool) => tool.type === 'function')
+    .map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema as Record<string, unknown>,
+    }));
+
+  if (functionTools.length === 0) {
+    return {};
+  }
+
+  return {
+    tools: functionTools,
+    toolChoice: toolChoice?.type === 'tool' ? { type: 'tool', toolName: toolChoice.toolName } : toolChoice?.type,
+  };
+}
+
+/**
+ * Render an AI SDK tool result output as text for a `tool` message.
+ */
+function toolResultText(output: LanguageModelV3ToolResultOutput): string {
+  switch (output.type) {
+    case 'text':
+    case 'error-text':
+      return output.value;
+    case 'json':
+    case 'error-json':
+      return JSON.stringify(output.value);
+    case 'execution-denied':
+      return output.reason ? `Tool execution denied: ${output.reason}` : 'Tool execution denied';
+    case 'content':
+      return output.value
+        .filter((part): part is { type: 'text'; text: string } => part.type === 'text')
+        .map((part) => part.text)
+        .join('\n');
+  }
+}
+
+/**
+ * Parse AI SDK tool call input (a JSON string or an object) into arguments.
+ */
+function toolCallArgs(input: unknown): Record<string, unknown> {
+  if (typeof input === 'string') {
+    try {
+      const parsed: unknown = JSON.parse(input);
+      return typeof parsed === 'object' && parsed !== null ? (parsed as Record<string, unknown>) : {};
+    } catch {
+      return {};
+    }
+  }
+  return typeof input === 'object' && input !== null ? (input as Record<string, unknown>) : {};
+}
+
 /**
  * Convert an AI SDK LanguageModelV3Prompt to LocalMode DoGenerateOptions fields.
  *
- * Extracts system prompt, user/assistant messages, and builds a simple prompt string.
+ * Extracts system prompt, user/assistant/tool messages, and builds a simple prompt string.
+ * Assistant tool calls become `toolCalls` and each tool result becomes a `tool` message.
+ * The prompt string is empty when the conversation ends with tool results, so the model
+ * continues from them.
  *
  * @param prompt - AI SDK prompt messages
  * @returns Object with systemPrompt, messages, and prompt string
@@ -55,15 +135,36 @@ export function convertPrompt(prompt: LanguageModelV3Prompt) {
       const textParts = message.content
         .filter((part): part is { type: 'text'; text: string } => part.type === 'text')
         .map((part) => part.text);
-      if (textParts.length > 0) {
+      const toolCalls: ToolCall[] = message.content
+        .filter((part) => part.type === 'tool-call' && !part.providerExecuted)
+        .map((part) => {
+          const call = part as { toolCallId: string; toolName: string; input: unknown };
+          return { toolCallId: call.toolCallId, toolName: call.toolName, args: toolCallArgs(call.input) };
+        });
+      if (toolCalls.length > 0) {
+        messages.push({ role: 'assistant', content: textParts.join('\n'), toolCalls });
+      } else if (textParts.length > 0) {
         messages.push({ role: 'assistant', content: textParts.join('\n') });
       }
+    } else if (message.role === 'tool') {
+      for (const part of message.content) {
+        if (part.type === 'tool-result') {
+          messages.push({
+            role: 'tool',
+            content: toolResultText(part.output),
+            toolCallId: part.toolCallId,
+            toolName: part.toolName,
+          });
+        }
+      }
     }
   }
 
-  // Build a simple prompt string from the last user message
+  // Build a simple prompt string from the last user message, unless the
+  // conversation continues from tool results
+  const lastMessage = messages[messages.length - 1];
   const lastUserMessage = messages.filter((m) => m.role === 'user').pop();
-  const content = lastUserMessage?.content ?? '';
+  const content = lastMessage?.role === 'tool' ? '' : (lastUserMessage?.content ?? '');
   const promptText = typeof content === 'string' ? content : content.filter((p) => p.type === 'text').map((p) => (p as { type: 'text'; text: string }).text).join('\n');
 
   return { systemPrompt, messages, prompt: promptText };
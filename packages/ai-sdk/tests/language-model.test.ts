@@ -238,4 +238,88 @@ describe('LocalModeLanguageModel', () => {
       await expect(model.doGenerate({ prompt: makePrompt('Hi') })).rejects.toThrow('Model crashed');
     });
   });
+
+  describe('responseFormat', () => {
+    it('forwards a JSON response format with its schema', async () => {
+      const mockModel = createMockLanguageModel();
+      const model = new LocalModeLanguageModel(mockModel);
+      const schema = { type: 'object' as const, properties: { name: { type: 'string' as const } } };
+
+      await model.doGenerate({ prompt: makePrompt('Name?'), responseFormat: { type: 'json', schema } });
+
+      expect(mockModel.doGenerate).toHaveBeenCalledWith(
+        expect.objectContaining({ responseFormat: { type: 'json', schema } })
+      );
+    });
+
+    it('does not forward a text response format', async () => {
+      const mockModel = createMockLanguageModel();
+      const model = new LocalModeLanguageModel(mockModel);
+
+      await model.doGenerate({ prompt: makePrompt('Hi'), responseFormat: { type: 'text' } });
+
+      const callArgs = (mockModel.doGenerate as ReturnType<typeof vi.fn>).mock.calls[0][0];
+      expect(callArgs.responseFormat).toBeUndefined();
+    });
+  });
+
+  describe('tools', () => {
+    const tools = [
+      {
+        type: 'function' as const,
+        name: 'get_weather',
+        description: 'Get the weather',
+        inputSchema: { type: 'object' as const, properties: { city: { type: 'string' as const } } },
+      },
+    ];
+
+    it('forwards tools to models with native support and returns tool-call content', async () => {
+      const mock = createMockLanguageModel({
+        supportsTools: true,
+        doGenerate: vi.fn().mockResolvedValue({
+          text: '',
+          finishReason: 'tool_calls',
+          usage: { inputTokens: 5, outputTokens: 10, totalTokens: 15, durationMs: 100 },
+          toolCalls: [{ toolCallId: 'call_1', toolName: 'get_weather', args: { city: 'Paris' } }],
+        }),
+      });
+      const model = new LocalModeLanguageModel(mock);
+
+      const result = await model.doGenerate({
+        prompt: makePrompt('Weather in Paris?'),
+        tools,
+        toolChoice: { type: 'required' },
+      });
+
+      expect(mock.doGenerate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tools: [{ name: 'get_weather', description: 'Get the weather', parameters: tools[0].inputSchema }],
+          toolChoice: 'required',
+        })
+      );
+      expect(result.content).toEqual([
+        { type: 'tool-call', toolCallId: 'call_1', toolName: 'get_weather', input: '{"city":"Paris"}' },
+      ]);
+      expect(result.finishReason).toEqual({ unified: 'tool-calls', raw: 'tool_calls' });
+    });
+
+    it('emulates tool calling for other models', async () => {
+      const mock = createMockLanguageModel({
+        doGenerate: vi.fn().mockResolvedValue({
+          text: '{"tool_calls": [{"name": "get_weather", "arguments": {"city": "Oslo"}}]}',
+          finishReason: 'stop',
+          usage: { inputTokens: 5, outputTokens: 10, totalTokens: 15, durationMs: 100 },
+        }),
+      });
+      const model = new LocalModeLanguageModel(mock);
+
+      const result = await model.doGenerate({ prompt: makePrompt('Weather in Oslo?'), tools });
+
+      const callArgs = (mock.doGenerate as ReturnType<typeof vi.fn>).mock.calls[0][0];
+      expect(callArgs.systemPrompt).toContain('get_weather');
+      expect(result.content).toEqual([
+        expect.objectContaining({ type: 'tool-call', toolName: 'get_weather', input: '{"city":"Oslo"}' }),
+      ]);
+    });
+  });
 });
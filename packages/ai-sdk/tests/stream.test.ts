@@ -272,6 +272,61 @@ describe('LocalModeLanguageModel doStream', () => {
     });
   });
 
+  describe('tool calls', () => {
+    const tools = [
+      {
+        type: 'function' as const,
+        name: 'get_weather',
+        inputSchema: { type: 'object' as const, properties: { city: { type: 'string' as const } } },
+      },
+    ];
+    const toolCall = { toolCallId: 'call_1', toolName: 'get_weather', args: { city: 'Paris' } };
+
+    it('emits tool input and tool-call parts from the final chunk', async () => {
+      const mockModel: LanguageModel = {
+        modelId: 'test', provider: 'test', contextLength: 4096, supportsTools: true,
+        doGenerate: vi.fn(),
+        async *doStream() {
+          yield {
+            text: '', done: true, finishReason: 'tool_calls', toolCalls: [toolCall],
+            usage: { inputTokens: 3, outputTokens: 5, totalTokens: 8, durationMs: 50 },
+          };
+        },
+      };
+
+      const model = new LocalModeLanguageModel(mockModel);
+      const { stream } = await model.doStream({ prompt: makePrompt('Weather?'), tools });
+      const parts = await collectStreamParts(stream);
+
+      expect(parts.map((p) => p.type)).toEqual([
+        'stream-start', 'text-start', 'text-end',
+        'tool-input-start', 'tool-input-delta', 'tool-input-end', 'tool-call', 'finish',
+      ]);
+      expect(parts.find((p) => p.type === 'tool-call')).toEqual({
+        type: 'tool-call', toolCallId: 'call_1', toolName: 'get_weather', input: '{"city":"Paris"}',
+      });
+      const finish = parts.find((p) => p.type === 'finish') as any;
+      expect(finish.finishReason).toEqual({ unified: 'tool-calls', raw: 'tool_calls' });
+    });
+
+    it('emits tool calls in the doGenerate fallback', async () => {
+      const mockModel: LanguageModel = {
+        modelId: 'test', provider: 'test', contextLength: 4096, supportsTools: true,
+        doGenerate: vi.fn().mockResolvedValue({
+          text: '', finishReason: 'tool_calls', toolCalls: [toolCall],
+          usage: { inputTokens: 1, outputTokens: 2, totalTokens: 3, durationMs: 10 },
+        }),
+      };
+
+      const model = new LocalModeLanguageModel(mockModel);
+      const { stream } = await model.doStream({ prompt: makePrompt('Weather?'), tools });
+      const parts = await collectStreamParts(stream);
+
+      const call = parts.find((p) => p.type === 'tool-call');
+      expect(call).toMatchObject({ toolCallId: 'call_1', input: '{"city":"Paris"}' });
+    });
+  });
+
   describe('abort signal', () => {
     it('cuts stream short when aborted', async () => {
       const controller = new AbortController();
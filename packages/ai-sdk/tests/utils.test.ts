@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { mapFinishReason, convertPrompt } from '../src/utils.js';
+import { mapFinishReason, convertPrompt, convertTools } from '../src/utils.js';
 
 describe('mapFinishReason', () => {
   it('maps "stop" to { unified: "stop", raw: "stop" }', () => {
@@ -14,6 +14,10 @@ describe('mapFinishReason', () => {
     expect(mapFinishReason('content_filter')).toEqual({ unified: 'content-filter', raw: 'content_filter' });
   });
 
+  it('maps "tool_calls" to { unified: "tool-calls", raw: "tool_calls" }', () => {
+    expect(mapFinishReason('tool_calls')).toEqual({ unified: 'tool-calls', raw: 'tool_calls' });
+  });
+
   it('maps "error" to { unified: "error", raw: "error" }', () => {
     expect(mapFinishReason('error')).toEqual({ unified: 'error', raw: 'error' });
   });
@@ -91,12 +95,47 @@ describe('convertPrompt', () => {
     expect(result.messages).toHaveLength(0);
   });
 
-  it('ignores tool role messages', () => {
+  it('converts tool calls and tool results', () => {
     const result = convertPrompt([
-      { role: 'user', content: [{ type: 'text', text: 'Hello' }] },
-      { role: 'tool', content: [{ type: 'tool-result', toolCallId: 'x', toolName: 'y', output: {} }] } as any,
+      { role: 'user', content: [{ type: 'text', text: 'Weather in Paris?' }] },
+      {
+        role: 'assistant',
+        content: [{ type: 'tool-call', toolCallId: 'call_1', toolName: 'get_weather', input: { city: 'Paris' } }],
+      },
+      {
+        role: 'tool',
+        content: [
+          { type: 'tool-result', toolCallId: 'call_1', toolName: 'get_weather', output: { type: 'json', value: { tempC: 18 } } },
+        ],
+      },
+    ]);
+    expect(result.messages).toHaveLength(3);
+    expect(result.messages[1]).toEqual({
+      role: 'assistant',
+      content: '',
+      toolCalls: [{ toolCallId: 'call_1', toolName: 'get_weather', args: { city: 'Paris' } }],
+    });
+    expect(result.messages[2]).toEqual({
+      role: 'tool',
+      content: '{"tempC":18}',
+      toolCallId: 'call_1',
+      toolName: 'get_weather',
+    });
+    expect(result.prompt).toBe('');
+  });
+
+  it('renders text, error and denied tool results as text', () => {
+    const result = convertPrompt([
+      {
+        role: 'tool',
+        content: [
+          { type: 'tool-result', toolCallId: 'a', toolName: 't', output: { type: 'text', value: 'done' } },
+          { type: 'tool-result', toolCallId: 'b', toolName: 't', output: { type: 'error-text', value: 'failed' } },
+          { type: 'tool-result', toolCallId: 'c', toolName: 't', output: { type: 'execution-denied', reason: 'no' } },
+        ],
+      },
     ]);
-    expect(result.messages).toHaveLength(1);
+    expect(result.messages.map((m) => m.content)).toEqual(['done', 'failed', 'Tool execution denied: no']);
   });
 
   it('builds prompt string from last user message', () => {
@@ -135,3 +174,30 @@ describe('convertPrompt', () => {
     expect(result.prompt).toBe('How are you?');
   });
 });
+
+describe('convertTools', () => {
+  const inputSchema = { type: 'object' as const, properties: { city: { type: 'string' as const } } };
+
+  it('converts function tools and the tool choice', () => {
+    const result = convertTools(
+      [{ type: 'function', name: 'get_weather', description: 'Get the weather', inputSchema }],
+      { type: 'tool', toolName: 'get_weather' }
+    );
+    expect(result.tools).toEqual([{ name: 'get_weather', description: 'Get the weather', parameters: inputSchema }]);
+    expect(result.toolChoice).toEqual({ type: 'tool', toolName: 'get_weather' });
+  });
+
+  it('maps auto, none and required tool choices to strings', () => {
+    const tools = [{ type: 'function' as const, name: 'a', inputSchema }];
+    expect(convertTools(tools, { type: 'auto' }).toolChoice).toBe('auto');
+    expect(convertTools(tools, { type: 'none' }).toolChoice).toBe('none');
+    expect(convertTools(tools, { type: 'required' }).toolChoice).toBe('required');
+  });
+
+  it('returns no tools when there are no function tools', () => {
+    expect(convertTools(undefined, { type: 'auto' })).toEqual({});
+    expect(
+      convertTools([{ type: 'provider', id: 'openai.web_search', name: 'web_search', args: {} }], undefined)
+    ).toEqual({});
+  });
+});
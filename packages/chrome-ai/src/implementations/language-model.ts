@@ -9,6 +9,7 @@
 
 import {
   GenerationError,
+  createToolCallId,
   type ChatMessage,
   type ContentPart,
   type DoGenerateOptions,
@@ -17,12 +18,16 @@ import {
   type FinishReason,
   type GenerationUsage,
   type LanguageModel,
+  type LanguageModelTool,
   type StreamChunk,
+  type ToolCall,
+  type ToolChoice,
 } from '@localmode/core';
 import type {
   AILanguageModel,
   AILanguageModelCreateOptions,
   AILanguageModelFactory,
+  AILanguageModelPromptOptions,
   ChromeAILanguageModelSettings,
 } from '../types.js';
 import { estimateTokens } from '../utils.js';
@@ -35,6 +40,12 @@ interface ChromeAIProviderOptions {
   monitor?: (m: EventTarget) => void;
 }
 
+/** Instructions appended to the system prompt when tools are passed */
+const TOOL_INSTRUCTIONS =
+  'You can call tools. To call a tool, reply with {"tool": "<tool_name>", "arguments": {<arguments>}}. ' +
+  'To reply to the user instead, reply with {"answer": "<your reply>"}. ' +
+  'Tool results are returned in the next message.';
+
 /** Internal cache key payload used to dedupe sessions across calls */
 interface SessionKeyPayload {
   systemPrompt?: string;
@@ -50,6 +61,11 @@ interface SessionKeyPayload {
  * text generation with `doGenerate()` and streaming `doStream()`. Supports the
  * model-warmup protocol via `warmUp()` / `isReady()`.
  *
+ * Tools are supported through the Prompt API's `responseConstraint`: the
+ * reply is constrained to a JSON Schema that allows a call to one of the
+ * tools (or, unless a tool is required, a text answer). Without tools,
+ * `responseFormat` is passed as the `responseConstraint`.
+ *
  * Multimodal `ImagePart` content is rejected with `GenerationError`
  * (`code: 'chrome-ai-multimodal-not-supported'`) — Chrome's multimodal Prompt
  * input is behind an origin trial and out of scope for this implementation.
@@ -92,6 +108,8 @@ export class ChromeAILanguageModel implements LanguageModel {
   readonly provider = 'chrome-ai';
   readonly contextLength: number;
   readonly supportsVision = false;
+  readonly supportsTools = true;
+  readonly supportsStructuredOutput = true;
 
   private session: AILanguageModel | null = null;
   private sessionPromise: Promise<AILanguageModel> | null = null;
@@ -176,6 +194,112 @@ export class ChromeAILanguageModel implements LanguageModel {
       .join('');
   }
 
+  /**
+   * Render tool calls and tool results as text messages in the JSON reply
+   * format, since `initialPrompts` has no tool roles.
+   * @internal
+   */
+  private renderToolMessages(messages: ChatMessage[] | undefined): ChatMessage[] | undefined {
+    return messages?.map((msg): ChatMessage => {
+      if (msg.role === 'tool') {
+        const name = msg.toolName ?? msg.toolCallId ?? 'tool';
+        return { role: 'user', content: `Tool result (${name}): ${this.flattenContent(msg.content)}` };
+      }
+      if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+        const [call] = msg.toolCalls;
+        return { role: 'assistant', content: JSON.stringify({ tool: call.toolName, arguments: call.args }) };
+      }
+      return msg;
+    });
+  }
+
+  /**
+   * Tools the reply may call: none when `toolChoice` is 'none', only the
+   * named tool for a named choice.
+   * @internal
+   */
+  private activeTools(tools: LanguageModelTool[] | undefined, toolChoice: ToolChoice | undefined) {
+    if (!tools || tools.length === 0 || toolChoice === 'none') return undefined;
+    if (typeof toolChoice === 'object') {
+      return tools.filter((tool) => tool.name === toolChoice.toolName);
+    }
+    return tools;
+  }
+
+  /**
+   * Build the `responseConstraint` schema: one branch per tool, plus a text
+   * answer unless a tool call is required.
+   * @internal
+   */
+  private buildToolConstraint(tools: LanguageModelTool[], toolChoice: ToolChoice | undefined): Record<string, unknown> {
+    const branches: Record<string, unknown>[] = tools.map((tool) => ({
+      type: 'object',
+      ...(tool.description ? { description: tool.description } : {}),
+      properties: { tool: { const: tool.name }, arguments: tool.parameters },
+      required: ['tool', 'arguments'],
+    }));
+    if (toolChoice === undefined || toolChoice === 'auto') {
+      branches.push({
+        type: 'object',
+        properties: { answer: { type: 'string' } },
+        required: ['answer'],
+      });
+    }
+    return { anyOf: branches };
+  }
+
+  /**
+   * Parse a constrained reply into answer text or a tool call.
+   * @internal
+   */
+  private parseToolReply(raw: string): { text: string; toolCalls?: ToolCall[] } {
+    let reply: { tool?: unknown; arguments?: unknown; answer?: unknown };
+    try {
+      reply = JSON.parse(raw) as typeof reply;
+    } catch {
+      return { text: raw };
+    }
+    if (typeof reply.tool === 'string') {
+      const args = typeof reply.arguments === 'object' && reply.arguments !== null
+        ? reply.arguments as Record<string, unknown>
+        : {};
+      return { text: '', toolCalls: [{ toolCallId: createToolCallId(), toolName: reply.tool, args }] };
+    }
+    return { text: typeof reply.answer === 'string' ? reply.answer : raw };
+  }
+
+  /**
+   * Resolve the session history and prompt input. Tool messages become
+   * text; without a `prompt`, the last message is the input.
+   * @internal
+   */
+  private prepareInput(options: DoGenerateOptions | DoStreamOptions) {
+    let messages = this.renderToolMessages(options.messages);
+    let input = options.prompt;
+    if (!input && messages && messages.length > 0) {
+      input = this.flattenContent(messages[messages.length - 1].content);
+      messages = messages.slice(0, -1);
+    }
+
+    const tools = this.activeTools(options.tools, options.toolChoice);
+    let systemPrompt = options.systemPrompt ?? this.settings.systemPrompt;
+    if (tools) {
+      systemPrompt = systemPrompt ? `${systemPrompt}\n\n${TOOL_INSTRUCTIONS}` : TOOL_INSTRUCTIONS;
+    }
+
+    return {
+      messages,
+      input,
+      systemPrompt,
+      tools,
+      responseConstraint: tools
+        ? this.buildToolConstraint(tools, options.toolChoice)
+        : options.responseFormat?.type === 'json'
+          ? (options.responseFormat.schema ?? {})
+          : undefined,
+    };
+  }
+
   /**
    * Build `initialPrompts` from `systemPrompt` + history `messages` for
    * `LanguageModel.create()`.
@@ -191,7 +315,7 @@ export class ChromeAILanguageModel implements LanguageModel {
     }
     if (messages && messages.length > 0) {
       for (const msg of messages) {
-        out.push({ role: msg.role, content: this.flattenContent(msg.content) });
+        out.push({ role: msg.role === 'tool' ? 'user' : msg.role, content: this.flattenContent(msg.content) });
       }
     }
     return out.length > 0 ? out : undefined;
@@ -486,11 +610,13 @@ export class ChromeAILanguageModel implements LanguageModel {
    * Generate a single completion using Chrome's Prompt API.
    *
    * @param options - Generation options. Supports `prompt`, `systemPrompt`,
-   *   `messages`, `temperature`, `topK` (via `providerOptions.chromeAI`),
-   *   `stopSequences` (post-processed client-side), `abortSignal`, and
+   *   `messages`, `tools`, `toolChoice`, `temperature`, `topK` (via
+   *   `providerOptions.chromeAI`), `stopSequences` (post-processed
+   *   client-side), `abortSignal`, and
    *   `providerOptions.chromeAI.{ allowDownload, monitor, warnOnUnsupported }`.
-   * @returns `Promise<DoGenerateResult>` with `text`, `finishReason`, and `usage`
-   *   (input/output/total tokens, durationMs).
+   * @returns `Promise<DoGenerateResult>` with `text`, `finishReason`, `usage`
+   *   (input/output/total tokens, durationMs), and `toolCalls` when the reply
+   *   is a tool call.
    *
    * @throws {GenerationError} with `code` set to one of:
    *   `chrome-ai-not-supported`, `chrome-ai-model-not-available`,
@@ -505,15 +631,16 @@ export class ChromeAILanguageModel implements LanguageModel {
    * ```
    */
   async doGenerate(options: DoGenerateOptions): Promise<DoGenerateResult> {
-    const { prompt, systemPrompt, messages, stopSequences, abortSignal } = options;
+    const { stopSequences, abortSignal } = options;
 
     abortSignal?.throwIfAborted();
-    this.assertNoImageParts(messages);
+    this.assertNoImageParts(options.messages);
 
     const { chromeOpts, temperature, topK } = this.parseInvariants(options);
+    const { messages, input: prompt, systemPrompt, tools, responseConstraint } = this.prepareInput(options);
 
     const session = await this.loadSession({
-      systemPrompt: systemPrompt ?? this.settings.systemPrompt,
+      systemPrompt,
       messages,
       temperature,
       topK,
@@ -529,17 +656,19 @@ export class ChromeAILanguageModel implements LanguageModel {
 
     let rawText: string;
     try {
-      rawText = await session.prompt(prompt, abortSignal ? { signal: abortSignal } : undefined);
+      rawText = await session.prompt(prompt, this.promptOptions(abortSignal, responseConstraint));
     } catch (err) {
       throw this.mapError(err);
     }
 
     const durationMs = performance.now() - startTime;
 
-    const { text } = this.applyStopSequences(rawText, stopSequences);
+    const reply = tools ? this.parseToolReply(rawText) : { text: rawText };
+    const { text } = this.applyStopSequences(reply.text, stopSequences);
     // Chrome's Prompt API doesn't expose token-limit truncation — finishReason
-    // is always 'stop' (either stop-sequence match or natural end-of-generation).
-    const finishReason: FinishReason = 'stop';
+    // is 'stop' (either stop-sequence match or natural end-of-generation)
+    // unless the reply is a tool call.
+    const finishReason: FinishReason = reply.toolCalls ? 'tool_calls' : 'stop';
 
     const inputUsageAfter = session.inputUsage ?? null;
     const inputTokens =
@@ -555,7 +684,22 @@ export class ChromeAILanguageModel implements LanguageModel {
       durationMs,
     };
 
-    return { text, finishReason, usage };
+    return { text, finishReason, usage, ...(reply.toolCalls ? { toolCalls: reply.toolCalls } : {}) };
+  }
+
+  /**
+   * Per-call options for `prompt()` / `promptStreaming()`.
+   * @internal
+   */
+  private promptOptions(
+    abortSignal: AbortSignal | undefined,
+    responseConstraint: Record<string, unknown> | undefined,
+  ): AILanguageModelPromptOptions | undefined {
+    if (!abortSignal && !responseConstraint) return undefined;
+    return {
+      ...(abortSignal ? { signal: abortSignal } : {}),
+      ...(responseConstraint ? { responseConstraint } : {}),
+    };
   }
 
   /**
@@ -567,6 +711,9 @@ export class ChromeAILanguageModel implements LanguageModel {
    * in the accumulated text, iteration ends early with `finishReason: 'stop'`
    * and the stop sequence is excluded from the cumulative text.
    *
+   * With tools, the constrained JSON reply is buffered and yielded as answer
+   * text or a final chunk carrying `toolCalls`.
+   *
    * @param options - Same as {@link doGenerate}.
    * @returns Async iterable of `StreamChunk`.
    *
@@ -580,15 +727,16 @@ export class ChromeAILanguageModel implements LanguageModel {
    * ```
    */
   async *doStream(options: DoStreamOptions): AsyncIterable<StreamChunk> {
-    const { prompt, systemPrompt, messages, stopSequences, abortSignal } = options;
+    const { stopSequences, abortSignal } = options;
 
     abortSignal?.throwIfAborted();
-    this.assertNoImageParts(messages);
+    this.assertNoImageParts(options.messages);
 
     const { chromeOpts, temperature, topK } = this.parseInvariants(options);
+    const { messages, input: prompt, systemPrompt, tools, responseConstraint } = this.prepareInput(options);
 
     const session = await this.loadSession({
-      systemPrompt: systemPrompt ?? this.settings.systemPrompt,
+      systemPrompt,
       messages,
       temperature,
       topK,
@@ -604,12 +752,13 @@ export class ChromeAILanguageModel implements LanguageModel {
 
     let stream: ReadableStream<string>;
     try {
-      stream = session.promptStreaming(prompt, abortSignal ? { signal: abortSignal } : undefined);
+      stream = session.promptStreaming(prompt, this.promptOptions(abortSignal, responseConstraint));
     } catch (err) {
       throw this.mapError(err);
     }
 
     let accumulated = '';
+    let toolCalls: ToolCall[] | undefined;
 
     try {
       // Browser ReadableStreams are async-iterable in modern Chrome but the
@@ -617,6 +766,12 @@ export class ChromeAILanguageModel implements LanguageModel {
       for await (const chunk of stream as unknown as AsyncIterable<string>) {
         abortSignal?.throwIfAborted();
 
+        // The tool reply is JSON — buffer it until the stream ends
+        if (tools) {
+          accumulated += chunk;
+          continue;
+        }
+
         // Apply stop-sequence detection on the cumulative text. Compute the
         // delta to yield and check whether the new content tripped a stop seq.
         const next = accumulated + chunk;
@@ -637,6 +792,15 @@ export class ChromeAILanguageModel implements LanguageModel {
       throw this.mapError(err);
     }
 
+    if (tools) {
+      const reply = this.parseToolReply(accumulated);
+      accumulated = this.applyStopSequences(reply.text, stopSequences).text;
+      toolCalls = reply.toolCalls;
+      if (accumulated) {
+        yield { text: accumulated, done: false };
+      }
+    }
+
     const durationMs = performance.now() - startTime;
     const inputUsageAfter = session.inputUsage ?? null;
     const inputTokens =
@@ -645,7 +809,7 @@ export class ChromeAILanguageModel implements LanguageModel {
         : estimateTokens(prompt) + (systemPrompt ? estimateTokens(systemPrompt) : 0);
     const outputTokens = estimateTokens(accumulated);
 
-    const finishReason: FinishReason = 'stop';
+    const finishReason: FinishReason = toolCalls ? 'tool_calls' : 'stop';
     const usage: GenerationUsage = {
       inputTokens,
       outputTokens,
@@ -653,7 +817,7 @@ export class ChromeAILanguageModel implements LanguageModel {
       durationMs,
     };
 
-    yield { text: '', done: true, finishReason, usage };
+    yield { text: '', done: true, finishReason, usage, ...(toolCalls ? { toolCalls } : {}) };
   }
 
   /**
@@ -115,6 +115,8 @@ export interface AILanguageModelCreateOptions {
 export interface AILanguageModelPromptOptions {
   /** AbortSignal for cancellation of the in-flight prompt */
   signal?: AbortSignal;
+  /** JSON Schema (or RegExp) the response must match */
+  responseConstraint?: Record<string, unknown> | RegExp;
 }
 
 /** Chrome AI Prompt API session (Gemini Nano) */
@@ -468,3 +468,112 @@ describe('ChromeAILanguageModel', () => {
     expect(result.text).toBeTypeOf('string');
   });
 });
+
+describe('ChromeAILanguageModel tool calling', () => {
+  const weatherTool = {
+    name: 'get_weather',
+    description: 'Get the weather',
+    parameters: { type: 'object', properties: { city: { type: 'string' } } },
+  };
+
+  it('constrains the reply to a tool call or an answer', async () => {
+    const { session, factory } = setupMockSession({ promptResult: '{"answer":"Hi!"}' });
+    const model = new ChromeAILanguageModel();
+    const result = await model.doGenerate({ prompt: 'Hello', tools: [weatherTool] });
+
+    expect(model.supportsTools).toBe(true);
+    expect(result.text).toBe('Hi!');
+    expect(result.toolCalls).toBeUndefined();
+    const options = session.prompt.mock.calls[0]![1] as { responseConstraint: { anyOf: unknown[] } };
+    expect(options.responseConstraint.anyOf).toEqual([
+      expect.objectContaining({
+        description: 'Get the weather',
+        properties: { tool: { const: 'get_weather' }, arguments: weatherTool.parameters },
+      }),
+      expect.objectContaining({ properties: { answer: { type: 'string' } } }),
+    ]);
+    const createOptions = factory.create.mock.calls[0]![0] as AILanguageModelCreateOptions;
+    expect(createOptions.initialPrompts?.[0]?.content).toContain('{"tool": "<tool_name>"');
+  });
+
+  it('leaves out the answer branch when a tool call is required', async () => {
+    const { session } = setupMockSession({ promptResult: '{"tool":"get_weather","arguments":{}}' });
+    const model = new ChromeAILanguageModel();
+    await model.doGenerate({ prompt: 'Hello', tools: [weatherTool], toolChoice: 'required' });
+
+    const options = session.prompt.mock.calls[0]![1] as { responseConstraint: { anyOf: unknown[] } };
+    expect(options.responseConstraint.anyOf).toHaveLength(1);
+  });
+
+  it('returns a tool call reply as toolCalls', async () => {
+    setupMockSession({ promptResult: '{"tool":"get_weather","arguments":{"city":"Paris"}}' });
+    const model = new ChromeAILanguageModel();
+    const result = await model.doGenerate({ prompt: 'Weather in Paris?', tools: [weatherTool] });
+
+    expect(result.text).toBe('');
+    expect(result.finishReason).toBe('tool_calls');
+    expect(result.toolCalls).toEqual([
+      { toolCallId: expect.stringMatching(/^call_/), toolName: 'get_weather', args: { city: 'Paris' } },
+    ]);
+  });
+
+  it('sends tool results as text and uses the last message as input', async () => {
+    const { factory, session } = setupMockSession({ promptResult: '{"answer":"18°C"}' });
+    const model = new ChromeAILanguageModel();
+    await model.doGenerate({
+      prompt: '',
+      tools: [weatherTool],
+      messages: [
+        { role: 'user', content: 'Weather in Paris?' },
+        { role: 'assistant', content: '', toolCalls: [{ toolCallId: 'call_1', toolName: 'get_weather', args: { city: 'Paris' } }] },
+        { role: 'tool', content: '18°C', toolCallId: 'call_1', toolName: 'get_weather' },
+      ],
+    });
+
+    const createOptions = factory.create.mock.calls[0]![0] as AILanguageModelCreateOptions;
+    expect(createOptions.initialPrompts?.slice(1)).toEqual([
+      { role: 'user', content: 'Weather in Paris?' },
+      { role: 'assistant', content: '{"tool":"get_weather","arguments":{"city":"Paris"}}' },
+    ]);
+    expect(session.prompt.mock.calls[0]![0]).toBe('Tool result (get_weather): 18°C');
+  });
+
+  it('doStream buffers the reply and yields tool calls on the final chunk', async () => {
+    setupMockSession({ streamingResult: ['{"tool":"get_', 'weather","arguments":{"city":"Oslo"}}'] });
+    const model = new ChromeAILanguageModel();
+    const chunks = [];
+    for await (const chunk of model.doStream({ prompt: 'Weather in Oslo?', tools: [weatherTool] })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ done: true, finishReason: 'tool_calls' });
+    expect(chunks[0]!.toolCalls?.[0]).toMatchObject({ toolName: 'get_weather', args: { city: 'Oslo' } });
+  });
+});
+
+describe('ChromeAILanguageModel structured output', () => {
+  const schema = { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] };
+
+  it('passes responseFormat as the responseConstraint', async () => {
+    const { session } = setupMockSession({ promptResult: '{"name":"Ada"}' });
+    const model = new ChromeAILanguageModel();
+    const result = await model.doGenerate({ prompt: 'Name?', responseFormat: { type: 'json', schema } });
+
+    expect(model.supportsStructuredOutput).toBe(true);
+    expect(result.text).toBe('{"name":"Ada"}');
+    expect(session.prompt.mock.calls[0]![1]).toEqual({ responseConstraint: schema });
+  });
+
+  it('passes responseFormat as the responseConstraint when streaming', async () => {
+    const { session } = setupMockSession({ streamingResult: ['{"name":', '"Ada"}'] });
+    const model = new ChromeAILanguageModel();
+    let text = '';
+    for await (const chunk of model.doStream({ prompt: 'Name?', responseFormat: { type: 'json', schema } })) {
+      text += chunk.text;
+    }
+
+    expect(text).toBe('{"name":"Ada"}');
+    expect(session.promptStreaming.mock.calls[0]![1]).toEqual({ responseConstraint: schema });
+  });
+});
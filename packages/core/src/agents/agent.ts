@@ -13,9 +13,12 @@ import type {
   RunAgentOptions,
   Agent,
   AgentResult,
+  AgentStreamEvent,
+  AgentCheckpoint,
+  AgentResumeOptions,
 } from './types.js';
 import { createToolRegistry } from './tools.js';
-import { executeReActLoop } from './loops.js';
+import { executeReActLoop, streamReActLoop } from './loops.js';
 
 // ═══════════════════════════════════════════════════════════════
 // AGENT FACTORY
@@ -29,7 +32,7 @@ import { executeReActLoop } from './loops.js';
  * is independent unless memory is configured.
  *
  * @param config - Agent configuration
- * @returns An Agent instance with a run() method
+ * @returns An Agent instance with run(), stream() and resume() methods
  *
  * @throws {Error} If no tools are provided or model is missing
  *
@@ -55,6 +58,13 @@ import { executeReActLoop } from './loops.js';
  * console.log(result.steps.length, 'steps taken');
  * ```
  *
+ * @example Streaming
+ * ```ts
+ * for await (const event of agent.stream({ prompt: 'Research quantum computing' })) {
+ *   if (event.type === 'text-delta') appendToTranscript(event.text);
+ * }
+ * ```
+ *
  * @see {@link runAgent} for one-shot execution
  */
 export function createAgent(config: AgentConfig): Agent {
@@ -73,64 +83,96 @@ export function createAgent(config: AgentConfig): Agent {
     maxSteps = 10,
     maxDurationMs,
     maxRetries = 3,
+    maxParallelTools = 1,
     temperature = 0,
     memory,
     onStep: configOnStep,
+    checkpointStore,
   } = config;
 
   const toolRegistry = createToolRegistry(tools);
 
-  return {
-    async run(options: AgentRunOptions): Promise<AgentResult> {
-      const {
-        prompt,
-        abortSignal,
-        onStep: runOnStep,
-        context,
-      } = options;
+  /** Build the loop configuration for one run */
+  function loopConfig(options: AgentRunOptions) {
+    const {
+      prompt,
+      abortSignal,
+      onStep: runOnStep,
+      context,
+    } = options;
 
+    return {
+      model,
+      toolRegistry,
+      prompt,
+      systemPrompt,
+      context,
+      maxSteps,
+      maxDurationMs,
+      maxRetries,
+      maxParallelTools,
+      temperature,
+      memory,
+      abortSignal,
       // Per-run onStep overrides config-level onStep
-      const onStep = runOnStep ?? configOnStep;
+      onStep: runOnStep ?? configOnStep,
+    };
+  }
 
-      const result = await executeReActLoop({
-        model,
-        toolRegistry,
-        prompt,
-        systemPrompt,
-        context,
-        maxSteps,
-        maxDurationMs,
-        maxRetries,
-        temperature,
-        memory,
-        abortSignal,
-        onStep,
+  /** Save a paused run to the checkpoint store, and a finished one to memory */
+  async function complete(prompt: string, result: AgentResult): Promise<void> {
+    if (checkpointStore && result.checkpoint) {
+      await checkpointStore.save(result.checkpoint);
+    }
+
+    if (!memory || result.finishReason !== 'finish' || !result.result) return;
+
+    try {
+      await memory.add({
+        id: `user-${Date.now()}`,
+        role: 'user',
+        content: prompt,
+        timestamp: Date.now(),
       });
+      await memory.add({
+        id: `agent-${Date.now()}`,
+        role: 'agent',
+        content: result.result,
+        timestamp: Date.now(),
+        metadata: {
+          finishReason: result.finishReason,
+          stepCount: result.steps.length,
+        },
+      });
+    } catch {
+      // Memory storage is best-effort; do not fail the agent run
+    }
+  }
 
-      // Store result in memory if configured and agent finished successfully
-      if (memory && result.finishReason === 'finish' && result.result) {
-        try {
-          await memory.add({
-            id: `user-${Date.now()}`,
-            role: 'user',
-            content: prompt,
-            timestamp: Date.now(),
-          });
-          await memory.add({
-            id: `agent-${Date.now()}`,
-            role: 'agent',
-            content: result.result,
-            timestamp: Date.now(),
-            metadata: {
-              finishReason: result.finishReason,
-              stepCount: result.steps.length,
-            },
-          });
-        } catch {
-          // Memory storage is best-effort; do not fail the agent run
-        }
-      }
+  return {
+    async run(options: AgentRunOptions): Promise<AgentResult> {
+      const result = await executeReActLoop(loopConfig(options));
+      await complete(options.prompt, result);
+      return result;
+    },
+
+    async *stream(options: AgentRunOptions): AsyncIterable<AgentStreamEvent> {
+      const result = yield* streamReActLoop({ ...loopConfig(options), stream: true });
+      await complete(options.prompt, result);
+      yield { type: 'finish', result };
+    },
+
+    async resume(checkpoint: AgentCheckpoint, options: AgentResumeOptions): Promise<AgentResult> {
+      const { approved, editedArgs, reason, abortSignal, onStep } = options;
+
+      // Remove the checkpoint first so the tool call cannot run twice
+      await checkpointStore?.delete(checkpoint.id);
 
+      const result = await executeReActLoop({
+        ...loopConfig({ prompt: checkpoint.prompt, context: checkpoint.context, abortSignal, onStep }),
+        resume: { checkpoint, approved, editedArgs, reason },
+      });
+      await complete(checkpoint.prompt, result);
       return result;
     },
   };
@@ -0,0 +1,106 @@
+/**
+ * Agent Checkpoint Store
+ *
+ * Persists paused agent runs (awaiting tool approval) so they survive a
+ * page reload. Checkpoints are stored as documents in their own collection
+ * of a StorageAdapter — a dedicated IndexedDB database by default.
+ *
+ * @packageDocumentation
+ */
+
+import type { AgentCheckpoint, AgentCheckpointStore, AgentCheckpointStoreConfig } from './types.js';
+import type { StorageAdapter } from '../storage/types.js';
+import type { Collection, StoredDocument } from '../types.js';
+import { IndexedDBStorage } from '../storage/indexeddb.js';
+
+/** Prefix for the checkpoint collection and document IDs */
+const COLLECTION_PREFIX = 'agent_checkpoints:';
+
+/**
+ * Create a persistent store for paused agent runs.
+ *
+ * Pass it to `createAgent({ checkpointStore })` to save checkpoints
+ * automatically, or save and load them yourself.
+ *
+ * @param config - Store configuration
+ * @returns An AgentCheckpointStore instance
+ *
+ * @example
+ * ```ts
+ * import { createAgent, createAgentCheckpointStore } from '@localmode/core';
+ *
+ * const checkpointStore = await createAgentCheckpointStore({ name: 'assistant' });
+ * const agent = createAgent({ model, tools: [deleteRecordsTool], checkpointStore });
+ *
+ * // After a page reload: resume the paused runs
+ * for (const checkpoint of await checkpointStore.list()) {
+ *   const approved = await askUser(checkpoint.pendingToolCall);
+ *   await agent.resume(checkpoint, { approved });
+ * }
+ * ```
+ */
+export async function createAgentCheckpointStore(
+  config: AgentCheckpointStoreConfig = {}
+): Promise<AgentCheckpointStore> {
+  const { name = 'default' } = config;
+
+  // Track whether we own the storage so close() only closes what we opened
+  let storage: StorageAdapter;
+  let ownsStorage = false;
+  if (config.storage) {
+    storage = config.storage;
+  } else {
+    storage = new IndexedDBStorage(`agent_checkpoints_${name}`) as unknown as StorageAdapter;
+    ownsStorage = true;
+    await storage.open();
+  }
+
+  const collection: Collection = {
+    id: `${COLLECTION_PREFIX}${name}`,
+    name: `__agent_checkpoints_${name}`,
+    dimensions: 0,
+    createdAt: Date.now(),
+  };
+  if (!(await storage.getCollection(collection.id))) {
+    await storage.createCollection(collection);
+  }
+
+  /** Document ID for a checkpoint, prefixed to avoid collisions with VectorDB documents */
+  const documentId = (id: string) => `${COLLECTION_PREFIX}${name}:${id}`;
+
+  return {
+    async save(checkpoint: AgentCheckpoint): Promise<void> {
+      const doc: StoredDocument = {
+        id: documentId(checkpoint.id),
+        collectionId: collection.id,
+        metadata: { checkpoint },
+        createdAt: checkpoint.createdAt,
+        updatedAt: Date.now(),
+      };
+      await storage.addDocument(doc);
+    },
+
+    async load(id: string): Promise<AgentCheckpoint | null> {
+      const doc = await storage.getDocument(documentId(id));
+      return (doc?.metadata?.checkpoint as AgentCheckpoint | undefined) ?? null;
+    },
+
+    async list(): Promise<AgentCheckpoint[]> {
+      const docs = await storage.getAllDocuments(collection.id);
+      return docs
+        .map((doc) => doc.metadata?.checkpoint as AgentCheckpoint | undefined)
+        .filter((checkpoint): checkpoint is AgentCheckpoint => checkpoint !== undefined)
+        .sort((a, b) => a.createdAt - b.createdAt);
+    },
+
+    async delete(id: string): Promise<void> {
+      await storage.deleteDocument(documentId(id));
+    },
+
+    async close(): Promise<void> {
+      if (ownsStorage) {
+        await storage.close();
+      }
+    },
+  };
+}
@@ -17,6 +17,9 @@ export { createToolRegistry } from './tools.js';
 // Agent memory
 export { createAgentMemory } from './memory.js';
 
+// Agent checkpoints
+export { createAgentCheckpointStore } from './checkpoints.js';
+
 // Types
 export type {
   // Tool types
@@ -29,8 +32,24 @@ export type {
   AgentRunOptions,
   RunAgentOptions,
   AgentStep,
+  AgentStepToolCall,
   AgentResult,
   AgentFinishReason,
+  // Stream event types
+  AgentStreamEvent,
+  AgentTextDeltaEvent,
+  AgentToolCallStartEvent,
+  AgentToolArgsDeltaEvent,
+  AgentToolResultEvent,
+  AgentStepFinishEvent,
+  AgentFinishEvent,
+  // Approval & checkpoint types
+  PendingToolCall,
+  BatchedToolCall,
+  AgentCheckpoint,
+  AgentResumeOptions,
+  AgentCheckpointStore,
+  AgentCheckpointStoreConfig,
   // Memory types
   AgentMemory,
   AgentMemoryConfig,
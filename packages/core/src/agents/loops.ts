@@ -2,27 +2,56 @@
  * ReAct Loop Implementation
  *
  * Orchestrates the generate-execute-observe cycle for agent execution.
- * Uses generateObject() with a discriminated union schema to let the
- * model select tool calls or signal task completion.
+ * Models with native tool support get the tools through generateText()
+ * and the steps as tool messages; other models use generateObject() with
+ * a discriminated union schema to select tool calls or signal completion.
+ * Streamed runs always use tool messages through streamText().
  *
  * @packageDocumentation
  */
 
-import type { LanguageModel, GenerationUsage, ObjectSchema } from '../generation/types.js';
-import type { AgentStep, AgentResult, AgentMemory, ToolRegistry } from './types.js';
+import type {
+  LanguageModel,
+  GenerationUsage,
+  ObjectSchema,
+  ChatMessage,
+  LanguageModelTool,
+  ToolCall,
+} from '../generation/types.js';
+import type {
+  AgentStep,
+  AgentStepToolCall,
+  AgentResult,
+  AgentMemory,
+  AgentStreamEvent,
+  AgentCheckpoint,
+  AgentResumeOptions,
+  BatchedToolCall,
+  PendingToolCall,
+  ToolRegistry,
+} from './types.js';
 import { generateObject } from '../generation/generate-object.js';
+import { generateText } from '../generation/generate-text.js';
+import { streamText } from '../generation/stream-text.js';
 
 // ═══════════════════════════════════════════════════════════════
 // ACTION SCHEMA (discriminated union for model output)
 // ═══════════════════════════════════════════════════════════════
 
 /**
- * Action type the model can output — either a tool call or a finish signal.
+ * Action type the model can output — tool calls or a finish signal.
  */
-interface ToolCallAction {
-  type: 'tool_call';
+interface ActionToolCall {
   tool: string;
   args: Record<string, unknown>;
+  /** Tool call ID (native tool calling only) */
+  toolCallId?: string;
+}
+
+/** One or more tool calls; the JSON `tool_call` and `tool_calls` actions both parse to this */
+interface ToolCallAction {
+  type: 'tool_call';
+  calls: ActionToolCall[];
 }
 
 interface FinishAction {
@@ -32,12 +61,48 @@ interface FinishAction {
 
 type AgentAction = ToolCallAction | FinishAction;
 
+/**
+ * Parse one `{ tool, args }` call of a JSON action.
+ */
+function parseActionToolCall(value: unknown, action: string): ActionToolCall {
+  const obj = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  if (typeof obj.tool !== 'string' || !obj.tool) {
+    throw new Error(`${action} action requires a non-empty "tool" string`);
+  }
+  const args = (typeof obj.args === 'object' && obj.args !== null)
+    ? obj.args as Record<string, unknown>
+    : {};
+  return { tool: obj.tool, args };
+}
+
 /**
  * Build a Zod-compatible ObjectSchema for the agent action without
  * importing Zod (core is zero-dependency). We define a manual parse
- * function and JSON Schema representation.
+ * function and JSON Schema representation. The `tool_calls` variant is
+ * only offered when a step may run several tools.
  */
-function createActionSchema(): ObjectSchema<AgentAction> {
+function createActionSchema(parallel = false): ObjectSchema<AgentAction> {
+  const toolCallsVariant = {
+    type: 'object',
+    properties: {
+      type: { type: 'string', const: 'tool_calls' },
+      calls: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            tool: { type: 'string', description: 'Name of the tool to call' },
+            args: { type: 'object', description: 'Arguments for the tool' },
+          },
+          required: ['tool', 'args'],
+        },
+        description: 'Independent tool calls to run at the same time',
+      },
+    },
+    required: ['type', 'calls'],
+  };
+
   const schema = {
     parse: (value: unknown): AgentAction => {
       if (typeof value !== 'object' || value === null) {
@@ -47,13 +112,14 @@ function createActionSchema(): ObjectSchema<AgentAction> {
       const obj = value as Record<string, unknown>;
 
       if (obj.type === 'tool_call') {
-        if (typeof obj.tool !== 'string' || !obj.tool) {
-          throw new Error('tool_call action requires a non-empty "tool" string');
+        return { type: 'tool_call', calls: [parseActionToolCall(obj, 'tool_call')] };
+      }
+
+      if (obj.type === 'tool_calls') {
+        if (!Array.isArray(obj.calls) || obj.calls.length === 0) {
+          throw new Error('tool_calls action requires a non-empty "calls" array');
         }
-        const args = (typeof obj.args === 'object' && obj.args !== null)
-          ? obj.args as Record<string, unknown>
-          : {};
-        return { type: 'tool_call', tool: obj.tool, args };
+        return { type: 'tool_call', calls: obj.calls.map((call) => parseActionToolCall(call, 'tool_calls')) };
       }
 
       if (obj.type === 'finish') {
@@ -64,7 +130,7 @@ function createActionSchema(): ObjectSchema<AgentAction> {
       }
 
       throw new Error(
-        `Invalid action type: "${String(obj.type)}". Must be "tool_call" or "finish".`
+        `Invalid action type: "${String(obj.type)}". Must be ${parallel ? '"tool_call", "tool_calls"' : '"tool_call"'} or "finish".`
       );
     },
 
@@ -79,6 +145,7 @@ function createActionSchema(): ObjectSchema<AgentAction> {
           },
           required: ['type', 'tool', 'args'],
         },
+        ...(parallel ? [toolCallsVariant] : []),
         {
           type: 'object',
           properties: {
@@ -101,12 +168,22 @@ function createActionSchema(): ObjectSchema<AgentAction> {
 // PROMPT CONSTRUCTION
 // ═══════════════════════════════════════════════════════════════
 
+/**
+ * The rule on how many tools to call per step.
+ */
+function toolCountRule(maxParallelTools: number): string {
+  return maxParallelTools > 1
+    ? `- Call ONE tool at a time, or up to ${maxParallelTools} independent tools at once when their arguments do not depend on each other's results`
+    : '- Call ONE tool at a time';
+}
+
 /**
  * Build the agent system prompt with tool descriptions and instructions.
  */
 export function buildAgentPrompt(
   toolRegistry: ToolRegistry,
   systemPrompt?: string,
+  maxParallelTools = 1,
 ): string {
   const parts: string[] = [];
 
@@ -131,10 +208,13 @@ export function buildAgentPrompt(
   parts.push(
     '',
     'To call a tool, output: {"type": "tool_call", "tool": "<tool_name>", "args": {<arguments>}}',
+    ...(maxParallelTools > 1
+      ? ['To call several tools at once, output: {"type": "tool_calls", "calls": [{"tool": "<tool_name>", "args": {<arguments>}}, ...]}']
+      : []),
     'When you have gathered enough information to answer, output: {"type": "finish", "result": "<your_final_answer>"}',
     '',
     'Rules:',
-    '- Call ONE tool at a time',
+    toolCountRule(maxParallelTools),
     '- Analyze each observation before deciding the next action',
     '- Do not repeat the same tool call with identical arguments',
     '- Provide a clear, comprehensive final answer',
@@ -143,6 +223,31 @@ export function buildAgentPrompt(
   return parts.join('\n');
 }
 
+/**
+ * Build the agent system prompt for models with native tool calling.
+ * The tools themselves are passed to the model as `tools`.
+ */
+function buildToolCallingPrompt(systemPrompt?: string, maxParallelTools = 1): string {
+  const parts: string[] = [];
+
+  if (systemPrompt) {
+    parts.push(systemPrompt);
+  }
+
+  parts.push(
+    'You are an AI agent that solves tasks by using available tools step by step.',
+    'Follow the ReAct pattern: Reason about the task, call a tool, observe the result, and repeat until you can provide a final answer.',
+    '',
+    'Rules:',
+    toolCountRule(maxParallelTools),
+    '- Analyze each observation before deciding the next action',
+    '- Do not repeat the same tool call with identical arguments',
+    '- When you have gathered enough information, reply with a clear, comprehensive final answer instead of calling a tool',
+  );
+
+  return parts.join('\n');
+}
+
 /**
  * Build the user-facing prompt with task, context, memory, and step history.
  */
@@ -178,17 +283,69 @@ function buildUserPrompt(
   return parts.join('\n');
 }
 
+/**
+ * The tool calls of a step: its `toolCalls`, or the single call it describes.
+ */
+function stepToolCalls(step: AgentStep): AgentStepToolCall[] {
+  if (step.toolCalls) return step.toolCalls;
+  if (step.type !== 'tool_call' || !step.toolName) return [];
+  return [{
+    toolName: step.toolName,
+    toolArgs: step.toolArgs ?? {},
+    toolCallId: step.toolCallId,
+    observation: step.observation ?? 'No result',
+  }];
+}
+
 /**
  * Format a completed step as a structured log entry for conversation history.
+ * A step with several tool calls lists each call with its observation.
  */
 function formatStepForHistory(step: AgentStep): string {
   if (step.type === 'tool_call') {
+    if (step.toolCalls && step.toolCalls.length > 1) {
+      const calls = step.toolCalls.map((call, i) =>
+        `[${i + 1}] Called tool "${call.toolName}" with ${JSON.stringify(call.toolArgs)}\nObservation: ${call.observation}`
+      );
+      return `Step ${step.index}: Called ${calls.length} tools at once\n${calls.join('\n')}`;
+    }
     const argsStr = JSON.stringify(step.toolArgs ?? {});
     return `Step ${step.index}: Called tool "${step.toolName}" with ${argsStr}\nObservation: ${step.observation ?? 'No result'}`;
   }
   return `Step ${step.index}: Finished with result: ${step.result ?? ''}`;
 }
 
+/**
+ * Select the most recent steps that fit within the estimated token budget.
+ *
+ * @returns The kept steps and the number of earlier steps dropped
+ */
+function selectRecentSteps(
+  steps: AgentStep[],
+  contextLength: number,
+  reservedTokens: number,
+): { recent: AgentStep[]; truncated: number } {
+  const availableTokens = Math.floor(contextLength * 0.8) - reservedTokens;
+  if (availableTokens <= 0) return { recent: [], truncated: steps.length };
+
+  // Keep steps from most recent backwards
+  let estimatedTokens = 0;
+  let first = steps.length;
+
+  for (let i = steps.length - 1; i >= 0; i--) {
+    const stepTokens = Math.ceil(formatStepForHistory(steps[i]).length / 4); // ~4 chars per token
+
+    if (estimatedTokens + stepTokens > availableTokens) {
+      break;
+    }
+
+    first = i;
+    estimatedTokens += stepTokens;
+  }
+
+  return { recent: steps.slice(first), truncated: first };
+}
+
 /**
  * Truncate step history when it exceeds context window limits.
  * Keeps the most recent steps that fit within the estimated budget.
@@ -205,30 +362,275 @@ export function truncateHistory(
 ): string {
   if (steps.length === 0) return '';
 
-  const availableTokens = Math.floor(contextLength * 0.8) - reservedTokens;
-  if (availableTokens <= 0) return '';
+  const { recent, truncated } = selectRecentSteps(steps, contextLength, reservedTokens);
+  if (recent.length === 0) return '';
 
-  // Build history from most recent steps backwards
-  const formattedSteps: string[] = [];
-  let estimatedTokens = 0;
+  const formattedSteps = recent.map(formatStepForHistory);
 
-  for (let i = steps.length - 1; i >= 0; i--) {
-    const formatted = formatStepForHistory(steps[i]);
-    const stepTokens = Math.ceil(formatted.length / 4); // ~4 chars per token
+  if (truncated > 0) {
+    return `[${truncated} earlier steps truncated]\n\n${formattedSteps.join('\n\n')}`;
+  }
 
-    if (estimatedTokens + stepTokens > availableTokens) {
-      break;
+  return formattedSteps.join('\n\n');
+}
+
+/**
+ * Tool call ID for calls the model gave none: `step_<index>`, suffixed for
+ * later calls of the step.
+ */
+function fallbackToolCallId(stepIndex: number, callIndex: number): string {
+  return callIndex === 0 ? `step_${stepIndex}` : `step_${stepIndex}_${callIndex}`;
+}
+
+/**
+ * Build the conversation for native tool calling: the task, then each
+ * recent step as an assistant tool call and its tool result.
+ */
+function buildToolMessages(
+  task: string,
+  steps: AgentStep[],
+  contextLength: number,
+  reservedTokens: number,
+  context?: string,
+  memoryContext?: string,
+  deduplicationHint?: string,
+): ChatMessage[] {
+  const parts: string[] = [];
+
+  if (memoryContext) {
+    parts.push('Relevant past context:', memoryContext, '');
+  }
+
+  if (context) {
+    parts.push('Additional context:', context, '');
+  }
+
+  parts.push(`Task: ${task}`);
+
+  const { recent, truncated } = selectRecentSteps(steps, contextLength, reservedTokens);
+  if (truncated > 0) {
+    parts.push('', `[${truncated} earlier steps truncated]`);
+  }
+
+  const messages: ChatMessage[] = [{ role: 'user', content: parts.join('\n') }];
+
+  for (const step of recent) {
+    const calls = stepToolCalls(step).map((call, i) => ({
+      ...call,
+      toolCallId: call.toolCallId ?? fallbackToolCallId(step.index, i),
+    }));
+    if (calls.length === 0) continue;
+
+    messages.push({
+      role: 'assistant',
+      content: '',
+      toolCalls: calls.map((call) => ({ toolCallId: call.toolCallId, toolName: call.toolName, args: call.toolArgs })),
+    });
+    for (const call of calls) {
+      messages.push({ role: 'tool', content: call.observation, toolCallId: call.toolCallId, toolName: call.toolName });
     }
+  }
 
-    formattedSteps.unshift(formatted);
-    estimatedTokens += stepTokens;
+  if (deduplicationHint) {
+    messages.push({ role: 'user', content: deduplicationHint });
   }
 
-  if (formattedSteps.length < steps.length) {
-    return `[${steps.length - formattedSteps.length} earlier steps truncated]\n\n${formattedSteps.join('\n\n')}`;
+  return messages;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TOOL EXECUTION
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Run a tool and stringify its result. Tool errors become observations
+ * so the model can adapt.
+ */
+async function runTool(
+  toolRegistry: ToolRegistry,
+  name: string,
+  args: Record<string, unknown>,
+  stepIndex: number,
+  abortSignal?: AbortSignal,
+): Promise<string> {
+  try {
+    const toolResult = await toolRegistry.execute(name, args, {
+      abortSignal: abortSignal ?? new AbortController().signal,
+      stepIndex,
+    });
+
+    return typeof toolResult === 'string' ? toolResult : JSON.stringify(toolResult);
+  } catch (error) {
+    return `Error: ${error instanceof Error ? error.message : String(error)}`;
   }
+}
 
-  return formattedSteps.join('\n\n');
+/**
+ * Run a step's tool calls, at most `maxParallelTools` at a time, and yield
+ * their results in call order. Rejected calls are not run; their rejection
+ * is the observation. Calls not yet started when `abortSignal` fires are
+ * skipped and the abort error is thrown.
+ *
+ * @returns The calls with their observations, in call order
+ */
+async function* executeToolCalls(
+  toolRegistry: ToolRegistry,
+  stepIndex: number,
+  calls: Array<ActionToolCall & { rejection?: string }>,
+  maxParallelTools: number,
+  abortSignal?: AbortSignal,
+): AsyncGenerator<AgentStreamEvent, AgentStepToolCall[]> {
+  const observations = new Array<string>(calls.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < calls.length) {
+      abortSignal?.throwIfAborted();
+      const i = next++;
+      const call = calls[i];
+      observations[i] = call.rejection
+        ?? await runTool(toolRegistry, call.tool, call.args, stepIndex, abortSignal);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(maxParallelTools, calls.length) }, worker));
+
+  const results = calls.map((call, i): AgentStepToolCall => ({
+    toolName: call.tool,
+    toolArgs: call.args,
+    toolCallId: call.toolCallId,
+    observation: observations[i],
+  }));
+
+  for (const [i, result] of results.entries()) {
+    yield {
+      type: 'tool-result',
+      stepIndex,
+      toolCallId: result.toolCallId ?? fallbackToolCallId(stepIndex, i),
+      toolName: result.toolName,
+      args: result.toolArgs,
+      observation: result.observation,
+    };
+  }
+
+  return results;
+}
+
+/**
+ * Build the step for a step's tool calls. The step's own fields describe
+ * the first call; several calls are also listed in `toolCalls`.
+ */
+function createToolStep(
+  index: number,
+  calls: AgentStepToolCall[],
+  durationMs: number,
+  usage?: GenerationUsage,
+): AgentStep {
+  const [first] = calls;
+  return {
+    index,
+    type: 'tool_call',
+    toolName: first.toolName,
+    toolArgs: first.toolArgs,
+    toolCallId: first.toolCallId,
+    observation: first.observation,
+    ...(calls.length > 1 ? { toolCalls: calls } : {}),
+    durationMs,
+    usage,
+  };
+}
+
+/**
+ * Loop detection key for a step's tool calls. Order-insensitive, so a
+ * batch repeating the same calls in another order counts as a repeat.
+ */
+function toolCallsKey(calls: ActionToolCall[]): string {
+  return calls
+    .map((call) => `${call.tool}:${JSON.stringify(call.args)}`)
+    .sort()
+    .join('|');
+}
+
+/**
+ * Observation for a tool call the user rejected.
+ */
+function rejectionMessage(reason?: string): string {
+  return `Tool call rejected by the user.${reason ? ` Reason: ${reason}` : ''}`;
+}
+
+let checkpointCounter = 0;
+
+/**
+ * Create a checkpoint ID, unique within the page.
+ */
+function createCheckpointId(): string {
+  checkpointCounter = (checkpointCounter + 1) % Number.MAX_SAFE_INTEGER;
+  return `ckpt_${Date.now().toString(36)}${checkpointCounter.toString(36)}`;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// STREAMED STEPS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Turn a model reply into an action: its tool calls, or the text as the
+ * final answer.
+ */
+function toAction(text: string, toolCalls: ToolCall[]): AgentAction {
+  return toolCalls.length > 0
+    ? {
+        type: 'tool_call',
+        calls: toolCalls.map((call) => ({ tool: call.toolName, args: call.args, toolCallId: call.toolCallId })),
+      }
+    : { type: 'finish', result: text.trim() };
+}
+
+/**
+ * Get one step's action through streamText(), yielding its text and tool
+ * calls as they arrive. Models without `doStream` go through generateText()
+ * and their text is yielded in one piece.
+ *
+ * @returns The action, its usage, and the IDs of the tool calls already
+ *   announced with `tool-call-start`
+ */
+async function* streamAction(
+  model: LanguageModel,
+  stepIndex: number,
+  options: {
+    systemPrompt: string;
+    messages: ChatMessage[];
+    tools: LanguageModelTool[];
+    temperature: number;
+    abortSignal?: AbortSignal;
+  },
+): AsyncGenerator<AgentStreamEvent, { action: AgentAction; usage: GenerationUsage; started: Set<string> }> {
+  const started = new Set<string>();
+  if (!model.doStream) {
+    const result = await generateText({ model, prompt: '', ...options });
+    if (result.text) {
+      yield { type: 'text-delta', stepIndex, text: result.text };
+    }
+    return { action: toAction(result.text, result.toolCalls), usage: result.usage, started };
+  }
+
+  const result = await streamText({ model, prompt: '', ...options });
+  for await (const chunk of result.stream) {
+    if (chunk.text) {
+      yield { type: 'text-delta', stepIndex, text: chunk.text };
+    }
+    for (const { toolCallId, toolName, argsTextDelta } of chunk.toolCallDeltas ?? []) {
+      if (!started.has(toolCallId)) {
+        started.add(toolCallId);
+        yield { type: 'tool-call-start', stepIndex, toolCallId, toolName };
+      }
+      if (argsTextDelta) {
+        yield { type: 'tool-args-delta', stepIndex, toolCallId, argsTextDelta };
+      }
+    }
+  }
+
+  const [text, toolCalls, usage] = await Promise.all([result.text, result.toolCalls, result.usage]);
+  return { action: toAction(text, toolCalls), usage, started };
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -246,23 +648,31 @@ interface ReActLoopConfig {
   maxDurationMs?: number;
   maxRetries: number;
   temperature: number;
+  /** Tool calls of one step run at the same time (default: 1) */
+  maxParallelTools?: number;
   memory?: AgentMemory;
   abortSignal?: AbortSignal;
   onStep?: (step: AgentStep) => void;
+  /** Stream each step through streamText() (always uses tool messages) */
+  stream?: boolean;
+  /** Continue a paused run: the checkpoint and the user's decision */
+  resume?: { checkpoint: AgentCheckpoint } & Pick<AgentResumeOptions, 'approved' | 'editedArgs' | 'reason'>;
 }
 
 /**
- * Execute the ReAct loop: generate -> execute -> observe -> repeat.
+ * Run the ReAct loop, yielding events as each step progresses.
  *
- * This is the core agent loop that:
- * 1. Builds a prompt with tool descriptions and conversation history
- * 2. Calls generateObject() to get the model's action (tool_call or finish)
- * 3. Validates and executes tool calls, or returns on finish
- * 4. Enforces safety guards: maxSteps, maxDurationMs, loop detection
+ * Yields text, tool call, tool result and step-finish events, and returns
+ * the final result (the caller emits the `finish` event). With `stream`,
+ * each step streams through streamText() with the tools and text deltas
+ * arrive as they are generated; models without native tool support get
+ * the tools emulated by streamText().
  *
  * @internal Not exported from the public API
  */
-export async function executeReActLoop(config: ReActLoopConfig): Promise<AgentResult> {
+export async function* streamReActLoop(
+  config: ReActLoopConfig,
+): AsyncGenerator<AgentStreamEvent, AgentResult> {
   const {
     model,
     toolRegistry,
@@ -276,19 +686,32 @@ export async function executeReActLoop(config: ReActLoopConfig): Promise<AgentRe
     memory,
     abortSignal,
     onStep,
+    stream = false,
+    resume,
   } = config;
 
-  const startTime = Date.now();
-  const steps: AgentStep[] = [];
-  const actionSchema = createActionSchema();
-  const agentSystemPrompt = buildAgentPrompt(toolRegistry, systemPrompt);
+  const maxParallelTools = Math.max(1, Math.floor(config.maxParallelTools ?? 1));
+
+  // A resumed run keeps its elapsed time, but not the time spent waiting
+  const startTime = Date.now() - (resume?.checkpoint.elapsedMs ?? 0);
+  const steps: AgentStep[] = resume ? [...resume.checkpoint.steps] : [];
+  const toolMessages = stream || model.supportsTools === true;
+  const actionSchema = createActionSchema(maxParallelTools > 1);
+  const agentSystemPrompt = toolMessages
+    ? buildToolCallingPrompt(systemPrompt, maxParallelTools)
+    : buildAgentPrompt(toolRegistry, systemPrompt, maxParallelTools);
+  const tools = toolRegistry.descriptions();
 
   // Estimate reserved tokens for system prompt and tools
-  const reservedTokens = Math.ceil(agentSystemPrompt.length / 4) + Math.ceil(prompt.length / 4) + 200;
+  const reservedTokens =
+    Math.ceil(agentSystemPrompt.length / 4) +
+    Math.ceil(prompt.length / 4) +
+    (toolMessages ? Math.ceil(JSON.stringify(tools).length / 4) : 0) +
+    200;
 
   // Retrieve memory context if available
-  let memoryContext: string | undefined;
-  if (memory) {
+  let memoryContext = resume?.checkpoint.memoryContext;
+  if (memory && !resume) {
     try {
       const memories = await memory.retrieve(prompt, { maxResults: 5, minSimilarity: 0.7 });
       if (memories.length > 0) {
@@ -302,17 +725,91 @@ export async function executeReActLoop(config: ReActLoopConfig): Promise<AgentRe
   }
 
   // Loop detection state
-  let lastToolCall: string | null = null;
-  let consecutiveDuplicates = 0;
-
-  const totalUsage: GenerationUsage = {
-    inputTokens: 0,
-    outputTokens: 0,
-    totalTokens: 0,
-    durationMs: 0,
-  };
+  let lastToolCall: string | null = resume?.checkpoint.lastToolCall ?? null;
+  let consecutiveDuplicates = resume?.checkpoint.consecutiveDuplicates ?? 0;
+
+  const totalUsage: GenerationUsage = resume
+    ? { ...resume.checkpoint.totalUsage }
+    : {
+        inputTokens: 0,
+        outputTokens: 0,
+        totalTokens: 0,
+        durationMs: 0,
+      };
+
+  /** Pause the run before a tool call that needs approval */
+  const pause = (pendingToolCall: PendingToolCall): AgentResult => ({
+    result: '',
+    steps,
+    finishReason: 'awaiting_approval',
+    totalDurationMs: Date.now() - startTime,
+    totalUsage,
+    checkpoint: {
+      id: createCheckpointId(),
+      prompt,
+      context,
+      steps: [...steps],
+      pendingToolCall,
+      totalUsage: { ...totalUsage },
+      elapsedMs: Date.now() - startTime,
+      memoryContext,
+      lastToolCall,
+      consecutiveDuplicates,
+      createdAt: Date.now(),
+    },
+  });
+
+  // Finish the step that paused for approval: record the decision, ask about
+  // the next undecided call of a batch, or run the calls
+  if (resume) {
+    const { pendingToolCall: pending } = resume.checkpoint;
+    const resumeStart = Date.now();
+    const pendingIndex = pending.batchIndex ?? 0;
+    const batch: BatchedToolCall[] = (pending.batch ?? [
+      { toolName: pending.toolName, args: pending.args, toolCallId: pending.toolCallId, needsApproval: true },
+    ]).map((call, i) =>
+      i === pendingIndex
+        ? {
+            ...call,
+            args: resume.approved ? resume.editedArgs ?? call.args : call.args,
+            approval: { approved: resume.approved, reason: resume.reason },
+          }
+        : call
+    );
+
+    const next = batch.findIndex((call) => call.needsApproval && !call.approval);
+    if (next >= 0) {
+      return pause({
+        ...pending,
+        toolName: batch[next].toolName,
+        args: batch[next].args,
+        toolCallId: batch[next].toolCallId,
+        durationMs: pending.durationMs + (Date.now() - resumeStart),
+        batch,
+        batchIndex: next,
+      });
+    }
 
-  for (let stepIndex = 0; stepIndex < maxSteps; stepIndex++) {
+    const results = yield* executeToolCalls(
+      toolRegistry,
+      pending.stepIndex,
+      batch.map((call) => ({
+        tool: call.toolName,
+        args: call.args,
+        toolCallId: call.toolCallId,
+        rejection: call.approval?.approved === false ? rejectionMessage(call.approval.reason) : undefined,
+      })),
+      maxParallelTools,
+      abortSignal,
+    );
+
+    const step = createToolStep(pending.stepIndex, results, pending.durationMs + (Date.now() - resumeStart), pending.usage);
+    steps.push(step);
+    onStep?.(step);
+    yield { type: 'step-finish', step };
+  }
+
+  for (let stepIndex = steps.length; stepIndex < maxSteps; stepIndex++) {
     // Check abort signal
     abortSignal?.throwIfAborted();
 
@@ -329,39 +826,70 @@ export async function executeReActLoop(config: ReActLoopConfig): Promise<AgentRe
 
     const stepStart = Date.now();
 
-    // Build conversation history
-    const history = truncateHistory(steps, model.contextLength, reservedTokens);
-
     // Build deduplication hint if needed
     let deduplicationHint: string | undefined;
     if (consecutiveDuplicates >= 1) {
       deduplicationHint = 'IMPORTANT: You already called the same tool with identical arguments. Try a different approach, use different arguments, or finish with your current knowledge.';
     }
 
-    // Build user prompt
-    const userPrompt = buildUserPrompt(prompt, history, context, memoryContext, deduplicationHint);
-
-    // Call generateObject with action schema
     let action: AgentAction;
     let stepUsage: GenerationUsage | undefined;
+    // Tool calls whose start and arguments were streamed
+    let streamed = new Set<string>();
 
     try {
-      const result = await generateObject<AgentAction>({
-        model,
-        schema: actionSchema,
-        prompt: userPrompt,
-        systemPrompt: agentSystemPrompt,
-        maxRetries,
-        temperature,
-        abortSignal,
-      });
+      if (toolMessages) {
+        // Tool calling: the tool calls are the action, text is the answer
+        const messages = buildToolMessages(
+          prompt, steps, model.contextLength, reservedTokens, context, memoryContext, deduplicationHint,
+        );
+
+        if (stream) {
+          ({ action, usage: stepUsage, started: streamed } = yield* streamAction(model, stepIndex, {
+            systemPrompt: agentSystemPrompt,
+            messages,
+            tools,
+            temperature,
+            abortSignal,
+          }));
+        } else {
+          const result = await generateText({
+            model,
+            prompt: '',
+            systemPrompt: agentSystemPrompt,
+            messages,
+            tools,
+            maxRetries,
+            temperature,
+            abortSignal,
+          });
+
+          action = toAction(result.text, result.toolCalls);
+          stepUsage = result.usage;
+        }
+      } else {
+        // Build conversation history and user prompt
+        const history = truncateHistory(steps, model.contextLength, reservedTokens);
+        const userPrompt = buildUserPrompt(prompt, history, context, memoryContext, deduplicationHint);
+
+        const result = await generateObject<AgentAction>({
+          model,
+          schema: actionSchema,
+          prompt: userPrompt,
+          systemPrompt: agentSystemPrompt,
+          maxRetries,
+          temperature,
+          abortSignal,
+        });
+
+        action = result.object;
+        stepUsage = result.usage;
+      }
 
-      action = result.object;
-      stepUsage = result.usage;
-      totalUsage.inputTokens += result.usage.inputTokens;
-      totalUsage.outputTokens += result.usage.outputTokens;
-      totalUsage.totalTokens += result.usage.totalTokens;
-      totalUsage.durationMs += result.usage.durationMs;
+      totalUsage.inputTokens += stepUsage.inputTokens;
+      totalUsage.outputTokens += stepUsage.outputTokens;
+      totalUsage.totalTokens += stepUsage.totalTokens;
+      totalUsage.durationMs += stepUsage.durationMs;
     } catch (error) {
       // Re-throw abort errors
       if (abortSignal?.aborted) {
@@ -391,6 +919,7 @@ export async function executeReActLoop(config: ReActLoopConfig): Promise<AgentRe
       };
       steps.push(step);
       onStep?.(step);
+      yield { type: 'step-finish', step };
 
       return {
         result: action.result,
@@ -402,24 +931,36 @@ export async function executeReActLoop(config: ReActLoopConfig): Promise<AgentRe
     }
 
     // Handle tool_call action
-    const toolCallKey = `${action.tool}:${JSON.stringify(action.args)}`;
+    const { calls } = action;
+    for (const [i, call] of calls.entries()) {
+      const toolCallId = call.toolCallId ?? fallbackToolCallId(stepIndex, i);
+      // Calls that were not streamed are announced whole
+      if (streamed.has(toolCallId)) continue;
+      yield { type: 'tool-call-start', stepIndex, toolCallId, toolName: call.tool };
+      yield { type: 'tool-args-delta', stepIndex, toolCallId, argsTextDelta: JSON.stringify(call.args) };
+    }
+
+    const toolCallKey = toolCallsKey(calls);
 
     // Loop detection
     if (toolCallKey === lastToolCall) {
       consecutiveDuplicates++;
       if (consecutiveDuplicates >= 2) {
         // Terminate with loop_detected
-        const step: AgentStep = {
-          index: stepIndex,
-          type: 'tool_call',
-          toolName: action.tool,
-          toolArgs: action.args,
-          observation: 'Loop detected: repeated identical tool call. Agent terminated.',
-          durationMs: Date.now() - stepStart,
-          usage: stepUsage,
-        };
+        const step = createToolStep(
+          stepIndex,
+          calls.map((call) => ({
+            toolName: call.tool,
+            toolArgs: call.args,
+            toolCallId: call.toolCallId,
+            observation: 'Loop detected: repeated identical tool call. Agent terminated.',
+          })),
+          Date.now() - stepStart,
+          stepUsage,
+        );
         steps.push(step);
         onStep?.(step);
+        yield { type: 'step-finish', step };
 
         return {
           result: '',
@@ -434,34 +975,42 @@ export async function executeReActLoop(config: ReActLoopConfig): Promise<AgentRe
     }
     lastToolCall = toolCallKey;
 
-    // Execute the tool
-    let observation: string;
-    try {
-      const toolResult = await toolRegistry.execute(action.tool, action.args, {
-        abortSignal: abortSignal ?? new AbortController().signal,
+    // Pause for user approval before running any call of the step
+    const executionContext = { abortSignal: abortSignal ?? new AbortController().signal, stepIndex };
+    const needsApproval = await Promise.all(
+      calls.map((call) => toolRegistry.needsApproval(call.tool, call.args, executionContext)),
+    );
+    const pendingIndex = needsApproval.indexOf(true);
+    if (pendingIndex >= 0) {
+      const pendingCall = calls[pendingIndex];
+      return pause({
         stepIndex,
+        toolName: pendingCall.tool,
+        args: pendingCall.args,
+        toolCallId: pendingCall.toolCallId,
+        durationMs: Date.now() - stepStart,
+        usage: stepUsage,
+        ...(calls.length > 1
+          ? {
+              batch: calls.map((call, i) => ({
+                toolName: call.tool,
+                args: call.args,
+                toolCallId: call.toolCallId,
+                needsApproval: needsApproval[i],
+              })),
+              batchIndex: pendingIndex,
+            }
+          : {}),
       });
-
-      // Stringify the tool result
-      observation = typeof toolResult === 'string'
-        ? toolResult
-        : JSON.stringify(toolResult);
-    } catch (error) {
-      // Tool errors become observations — the model can adapt
-      observation = `Error: ${error instanceof Error ? error.message : String(error)}`;
     }
 
-    const step: AgentStep = {
-      index: stepIndex,
-      type: 'tool_call',
-      toolName: action.tool,
-      toolArgs: action.args,
-      observation,
-      durationMs: Date.now() - stepStart,
-      usage: stepUsage,
-    };
+    // Execute the tools
+    const results = yield* executeToolCalls(toolRegistry, stepIndex, calls, maxParallelTools, abortSignal);
+
+    const step = createToolStep(stepIndex, results, Date.now() - stepStart, stepUsage);
     steps.push(step);
     onStep?.(step);
+    yield { type: 'step-finish', step };
   }
 
   // Max steps reached without finishing
@@ -473,3 +1022,27 @@ export async function executeReActLoop(config: ReActLoopConfig): Promise<AgentRe
     totalUsage,
   };
 }
+
+/**
+ * Execute the ReAct loop: generate -> execute -> observe -> repeat.
+ *
+ * This is the core agent loop that:
+ * 1. Builds a prompt with tool descriptions and conversation history
+ * 2. Gets the model's action (tool calls or finish): native tool calls or
+ *    a text answer from generateText() when the model supports tools, a
+ *    JSON action from generateObject() otherwise
+ * 3. Validates and executes tool calls, up to `maxParallelTools` at a
+ *    time, or returns on finish; tools that need approval pause the run
+ *    with a checkpoint
+ * 4. Enforces safety guards: maxSteps, maxDurationMs, loop detection
+ *
+ * @internal Not exported from the public API
+ */
+export async function executeReActLoop(config: ReActLoopConfig): Promise<AgentResult> {
+  const loop = streamReActLoop(config);
+  let next = await loop.next();
+  while (!next.done) {
+    next = await loop.next();
+  }
+  return next.value;
+}
@@ -118,6 +118,22 @@ export function createToolRegistry(tools: ToolDefinition[]): ToolRegistry {
       // Execute the tool with validated args
       return tool.execute(validatedArgs, context);
     },
+
+    async needsApproval(name: string, args: unknown, context: ToolExecutionContext): Promise<boolean> {
+      const tool = toolMap.get(name);
+      if (!tool?.needsApproval) return false;
+      if (typeof tool.needsApproval === 'boolean') return tool.needsApproval;
+
+      // Invalid arguments fail on execution, which needs no approval
+      let validatedArgs: unknown;
+      try {
+        validatedArgs = tool.parameters.parse(args);
+      } catch {
+        return false;
+      }
+
+      return tool.needsApproval(validatedArgs, context);
+    },
   };
 }
 
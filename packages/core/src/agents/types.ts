@@ -10,6 +10,7 @@
 
 import type { LanguageModel, GenerationUsage, ObjectSchema } from '../generation/types.js';
 import type { EmbeddingModel } from '../embeddings/types.js';
+import type { StorageAdapter } from '../storage/types.js';
 
 // ═══════════════════════════════════════════════════════════════
 // TOOL TYPES
@@ -63,6 +64,14 @@ export interface ToolDefinition<TParams = unknown, TResult = unknown> {
 
   /** Async function that executes the tool */
   execute: (params: TParams, context: ToolExecutionContext) => Promise<TResult>;
+
+  /**
+   * Require user approval before the tool runs. When the model calls the
+   * tool, the run pauses with `finishReason: 'awaiting_approval'` and a
+   * checkpoint to pass to `agent.resume()`. A predicate receives the
+   * validated arguments and decides per call (default: false).
+   */
+  needsApproval?: boolean | ((params: TParams, context: ToolExecutionContext) => boolean | Promise<boolean>);
 }
 
 /**
@@ -86,12 +95,32 @@ export interface ToolRegistry {
 
   /** Validate and execute a tool call */
   execute(name: string, args: unknown, context: ToolExecutionContext): Promise<unknown>;
+
+  /** Whether a tool call needs user approval (false for unknown tools or invalid arguments) */
+  needsApproval(name: string, args: unknown, context: ToolExecutionContext): Promise<boolean>;
 }
 
 // ═══════════════════════════════════════════════════════════════
 // AGENT STEP & RESULT
 // ═══════════════════════════════════════════════════════════════
 
+/**
+ * One tool call of a step and its result.
+ */
+export interface AgentStepToolCall {
+  /** Tool that was called */
+  toolName: string;
+
+  /** Arguments passed to the tool */
+  toolArgs: Record<string, unknown>;
+
+  /** ID of the model's tool call (native tool calling only) */
+  toolCallId?: string;
+
+  /** Stringified result from tool execution (or error message) */
+  observation: string;
+}
+
 /**
  * Captures one iteration of the ReAct loop.
  */
@@ -108,9 +137,19 @@ export interface AgentStep {
   /** Arguments passed to the tool */
   toolArgs?: Record<string, unknown>;
 
+  /** ID of the model's tool call (native tool calling only) */
+  toolCallId?: string;
+
   /** Stringified result from tool execution (or error message) */
   observation?: string;
 
+  /**
+   * All tool calls of a step that made several, in the order the model
+   * made them. `toolName`, `toolArgs`, `toolCallId` and `observation`
+   * describe the first.
+   */
+  toolCalls?: AgentStepToolCall[];
+
   /** Final answer text (when type is 'finish') */
   result?: string;
 
@@ -129,6 +168,7 @@ export type AgentFinishReason =
   | 'max_steps'
   | 'timeout'
   | 'loop_detected'
+  | 'awaiting_approval'
   | 'aborted'
   | 'error';
 
@@ -150,8 +190,273 @@ export interface AgentResult {
 
   /** Accumulated token usage across all steps */
   totalUsage: GenerationUsage;
+
+  /** State to resume from (when finishReason is 'awaiting_approval') */
+  checkpoint?: AgentCheckpoint;
 }
 
+// ═══════════════════════════════════════════════════════════════
+// TOOL APPROVAL & CHECKPOINTS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * A tool call from a step that made several, as stored in a checkpoint.
+ */
+export interface BatchedToolCall {
+  /** Tool the model called */
+  toolName: string;
+
+  /** Arguments to run the tool with */
+  args: Record<string, unknown>;
+
+  /** ID of the model's tool call (native tool calling only) */
+  toolCallId?: string;
+
+  /** Whether the call needs user approval */
+  needsApproval: boolean;
+
+  /** The user's decision, once made */
+  approval?: { approved: boolean; reason?: string };
+}
+
+/**
+ * A tool call waiting for user approval.
+ */
+export interface PendingToolCall {
+  /** Step the call belongs to */
+  stepIndex: number;
+
+  /** Tool the model called */
+  toolName: string;
+
+  /** Arguments the model passed */
+  args: Record<string, unknown>;
+
+  /** ID of the model's tool call (native tool calling only) */
+  toolCallId?: string;
+
+  /** Time spent on the step before pausing, in milliseconds */
+  durationMs: number;
+
+  /** Token usage from the model call */
+  usage?: GenerationUsage;
+
+  /**
+   * All calls of the step, when the model made several. The step runs once
+   * every call that needs approval has a decision; until then each resume
+   * pauses again on the next undecided call.
+   */
+  batch?: BatchedToolCall[];
+
+  /** Position of this call in `batch` */
+  batchIndex?: number;
+}
+
+/**
+ * A paused agent run. Plain JSON, so it can be stored (see
+ * `createAgentCheckpointStore()`) and resumed after a page reload.
+ *
+ * @example
+ * ```ts
+ * const result = await agent.run({ prompt: 'Delete the stale records' });
+ *
+ * if (result.finishReason === 'awaiting_approval') {
+ *   const { toolName, args } = result.checkpoint!.pendingToolCall;
+ *   const approved = confirm(`Run ${toolName} with ${JSON.stringify(args)}?`);
+ *   const final = await agent.resume(result.checkpoint!, { approved });
+ * }
+ * ```
+ */
+export interface AgentCheckpoint {
+  /** Unique checkpoint identifier */
+  id: string;
+
+  /** The user's task/question */
+  prompt: string;
+
+  /** Additional context from the run options */
+  context?: string;
+
+  /** Steps completed before the pause */
+  steps: AgentStep[];
+
+  /** The tool call waiting for approval */
+  pendingToolCall: PendingToolCall;
+
+  /** Token usage before the pause */
+  totalUsage: GenerationUsage;
+
+  /** Run time before the pause in milliseconds (counts toward maxDurationMs) */
+  elapsedMs: number;
+
+  /** Memory context retrieved at the start of the run */
+  memoryContext?: string;
+
+  /** Loop detection state: the last tool call and how often it repeated */
+  lastToolCall: string | null;
+  consecutiveDuplicates: number;
+
+  /** When the run paused (Date.now()) */
+  createdAt: number;
+}
+
+/**
+ * The user's decision on a pending tool call, plus run options for the
+ * resumed run.
+ */
+export interface AgentResumeOptions {
+  /** Whether the tool call may run */
+  approved: boolean;
+
+  /** Arguments to run the tool with instead of the model's (approved calls only) */
+  editedArgs?: Record<string, unknown>;
+
+  /** Reason for a rejection, shown to the model */
+  reason?: string;
+
+  /** AbortSignal for cancellation */
+  abortSignal?: AbortSignal;
+
+  /** Per-run step callback (overrides config-level onStep) */
+  onStep?: (step: AgentStep) => void;
+}
+
+/**
+ * Persistent store for paused agent runs.
+ */
+export interface AgentCheckpointStore {
+  /** Store a checkpoint, replacing one with the same ID */
+  save(checkpoint: AgentCheckpoint): Promise<void>;
+
+  /** Get a checkpoint by ID. Returns `null` if not found. */
+  load(id: string): Promise<AgentCheckpoint | null>;
+
+  /** All stored checkpoints, oldest first */
+  list(): Promise<AgentCheckpoint[]>;
+
+  /** Remove a checkpoint */
+  delete(id: string): Promise<void>;
+
+  /** Release resources (closes storage this store opened) */
+  close(): Promise<void>;
+}
+
+/**
+ * Configuration for creating an AgentCheckpointStore instance.
+ */
+export interface AgentCheckpointStoreConfig {
+  /** Store name, used for the IndexedDB database (`agent_checkpoints_{name}`) when `storage` is omitted (default: 'default') */
+  name?: string;
+
+  /** Optional storage adapter (default: a dedicated IndexedDBStorage) */
+  storage?: StorageAdapter;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// AGENT STREAM EVENTS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Text from the model as it is generated: reasoning before a tool call,
+ * or the final answer.
+ */
+export interface AgentTextDeltaEvent {
+  type: 'text-delta';
+
+  /** Step the text belongs to */
+  stepIndex: number;
+
+  /** Text delta */
+  text: string;
+}
+
+/**
+ * The model started a tool call.
+ */
+export interface AgentToolCallStartEvent {
+  type: 'tool-call-start';
+
+  /** Step the call belongs to */
+  stepIndex: number;
+
+  /** ID of the tool call (`step_<index>` when the model gives none) */
+  toolCallId: string;
+
+  /** Tool being called */
+  toolName: string;
+}
+
+/**
+ * A piece of a tool call's JSON arguments, sent as the model generates
+ * them. Providers that do not stream tool calls report them when they are
+ * complete, so their arguments arrive in one delta.
+ */
+export interface AgentToolArgsDeltaEvent {
+  type: 'tool-args-delta';
+
+  /** Step the call belongs to */
+  stepIndex: number;
+
+  /** ID of the tool call */
+  toolCallId: string;
+
+  /** JSON text to append to the arguments */
+  argsTextDelta: string;
+}
+
+/**
+ * A tool finished executing.
+ */
+export interface AgentToolResultEvent {
+  type: 'tool-result';
+
+  /** Step the call belongs to */
+  stepIndex: number;
+
+  /** ID of the tool call */
+  toolCallId: string;
+
+  /** Tool that was called */
+  toolName: string;
+
+  /** Arguments passed to the tool */
+  args: Record<string, unknown>;
+
+  /** Stringified result from tool execution (or error message) */
+  observation: string;
+}
+
+/**
+ * A step completed. Carries the same step passed to `onStep`.
+ */
+export interface AgentStepFinishEvent {
+  type: 'step-finish';
+
+  /** The completed step */
+  step: AgentStep;
+}
+
+/**
+ * The run ended. Always the last event.
+ */
+export interface AgentFinishEvent {
+  type: 'finish';
+
+  /** The result `run()` would return */
+  result: AgentResult;
+}
+
+/**
+ * Event yielded by `agent.stream()`.
+ */
+export type AgentStreamEvent =
+  | AgentTextDeltaEvent
+  | AgentToolCallStartEvent
+  | AgentToolArgsDeltaEvent
+  | AgentToolResultEvent
+  | AgentStepFinishEvent
+  | AgentFinishEvent;
+
 // ═══════════════════════════════════════════════════════════════
 // AGENT MEMORY
 // ═══════════════════════════════════════════════════════════════
@@ -276,6 +581,12 @@ export interface AgentConfig {
   /** Max retries per generateObject() call within a step (default: 3) */
   maxRetries?: number;
 
+  /**
+   * Tool calls run at the same time when a step makes several (default: 1).
+   * Above 1, the agent prompt also invites the model to batch independent calls.
+   */
+  maxParallelTools?: number;
+
   /** Sampling temperature for tool selection (default: 0) */
   temperature?: number;
 
@@ -284,6 +595,12 @@ export interface AgentConfig {
 
   /** Callback invoked after each completed step */
   onStep?: (step: AgentStep) => void;
+
+  /**
+   * Store that paused runs are saved to automatically. A checkpoint is
+   * removed from it when the run is resumed.
+   */
+  checkpointStore?: AgentCheckpointStore;
 }
 
 /**
@@ -325,4 +642,27 @@ export interface RunAgentOptions extends AgentConfig, AgentRunOptions {}
 export interface Agent {
   /** Execute the agent with a prompt */
   run(options: AgentRunOptions): Promise<AgentResult>;
+
+  /**
+   * Execute the agent with a prompt, yielding text, tool call and step
+   * events as they happen. Each step streams through `streamText()`.
+   * Aborting `abortSignal` ends the stream with an abort error.
+   *
+   * @example
+   * ```ts
+   * for await (const event of agent.stream({ prompt: 'Research quantum computing' })) {
+   *   if (event.type === 'text-delta') process.stdout.write(event.text);
+   *   if (event.type === 'tool-result') console.log(event.toolName, event.observation);
+   *   if (event.type === 'finish') console.log(event.result.finishReason);
+   * }
+   * ```
+   */
+  stream(options: AgentRunOptions): AsyncIterable<AgentStreamEvent>;
+
+  /**
+   * Continue a run paused for tool approval. An approved call runs (with
+   * `editedArgs` when given); a rejected call is reported to the model as
+   * an observation. The loop then carries on from the next step.
+   */
+  resume(checkpoint: AgentCheckpoint, options: AgentResumeOptions): Promise<AgentResult>;
 }
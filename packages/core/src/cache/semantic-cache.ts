@@ -16,6 +16,7 @@ import type {
   DoGenerateResult,
   StreamChunk,
   LanguageModel,
+  LanguageModelTool,
 } from '../generation/types.js';
 import { createVectorDB } from '../db.js';
 import type { VectorDB } from '../types.js';
@@ -553,9 +554,15 @@ export function semanticCacheMiddleware(cache: SemanticCache): LanguageModelMidd
     wrapGenerate: async (options: {
       doGenerate: () => Promise<DoGenerateResult>;
       prompt: string;
+      tools?: LanguageModelTool[];
       model: LanguageModel;
     }): Promise<DoGenerateResult> => {
-      const { doGenerate, prompt, model } = options;
+      const { doGenerate, prompt, tools, model } = options;
+
+      // Tool calls depend on the tools and conversation, not just the prompt
+      if (tools && tools.length > 0) {
+        return doGenerate();
+      }
 
       // Lookup in cache
       const lookupResult = await cache.lookup({
@@ -595,9 +602,14 @@ export function semanticCacheMiddleware(cache: SemanticCache): LanguageModelMidd
     wrapStream: (options: {
       doStream: () => AsyncIterable<StreamChunk>;
       prompt: string;
+      tools?: LanguageModelTool[];
       model: LanguageModel;
     }): AsyncIterable<StreamChunk> => {
-      const { doStream, prompt, model } = options;
+      const { doStream, prompt, tools, model } = options;
+
+      if (tools && tools.length > 0) {
+        return doStream();
+      }
 
       async function* cachedStream(): AsyncIterable<StreamChunk> {
         // Lookup in cache
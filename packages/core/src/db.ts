@@ -5,47 +5,296 @@
 import type {
   VectorDB,
   VectorDBConfig,
+  VectorDBTransaction,
+  TransactionOptions,
+  VectorDBSnapshotView,
+  SnapshotInfo,
+  DocumentChange,
+  ChangesOptions,
+  ChangesResult,
+  WatchOptions,
   Document,
+  DocumentInput,
   SearchOptions,
   SearchResult,
+  FusedSearchOptions,
+  FusedSearchResult,
+  SparseVector,
+  SparseSearchOptions,
+  KeywordSearchOptions,
+  MultiVectorSearchOptions,
+  MultiVectorSearchResult,
   AddManyOptions,
   ExportOptions,
+  ExportStreamOptions,
   ImportOptions,
   RecalibrateOptions,
+  CountOptions,
+  FindOptions,
+  FindResult,
+  FindDocument,
   DBStats,
   TypedFilterQuery,
   StoredDocument,
   Collection,
+  HNSWOptions,
+  VectorIndex,
+  VectorIndexType,
 } from './types.js';
 import type { ObjectSchema } from './generation/types.js';
 import { DEFAULT_CONFIG } from './types.js';
 import { HNSWIndex } from './hnsw/index.js';
+import { GraphLog } from './hnsw/stored-graph.js';
+import { FlatIndex } from './ivf/flat-index.js';
+import { IVFIndex } from './ivf/ivf-index.js';
+import { clearIVFEntries, type StoredIVFState } from './ivf/stored-partitions.js';
+import { getDistanceFunction, distanceToScore, type DistanceFunction } from './hnsw/distance.js';
+import {
+  subVectorId,
+  parentIdOf,
+  multiVectorCollectionId,
+  meanVector,
+  scoreMultiVector,
+} from './hnsw/multi-vector.js';
+import {
+  resolveVectorSpaces,
+  namedVectorId,
+  docIdOfNamedVector,
+  namedVectorCollectionId,
+} from './hnsw/named-vectors.js';
+import { SparseIndex, validateSparseVector } from './sparse/sparse-index.js';
+import {
+  sparseVectorId,
+  docIdOfSparseVector,
+  sparseCollectionId,
+  encodeSparseVector,
+  decodeSparseVector,
+} from './sparse/stored-vectors.js';
+import { reciprocalRankFusion } from './rag/hybrid.js';
+import { BM25 } from './rag/bm25.js';
+import {
+  keywordEntryId,
+  docIdOfKeywordEntry,
+  keywordCollectionId,
+  keywordIndexFingerprint,
+  sameKeywordIndex,
+  type KeywordIndexFingerprint,
+} from './rag/stored-keywords.js';
 import { createStorage, type Storage } from './storage/index.js';
+import {
+  snapshotCollectionId,
+  snapshotVersionId,
+  serializeSnapshotDocument,
+  deserializeSnapshotDocument,
+  versionsAt,
+  type SnapshotDocument,
+  type SnapshotVersion,
+} from './snapshots/stored-versions.js';
 import type { StorageAdapter } from './storage/types.js';
-import { matchesFilter } from './query/filter.js';
+import { matchesFilter, filterKey } from './query/filter.js';
+import { planFilter, executePlan } from './query/planner.js';
+import {
+  toSortKeys,
+  sortDocuments,
+  compareDocuments,
+  encodeCursor,
+  decodeCursor,
+  isAfterCursor,
+  scanInSortOrder,
+  sortSegmentOf,
+  SORT_SEGMENTS,
+} from './query/find.js';
+import type { SortKey, CursorPosition } from './query/find.js';
+import { extractIndexEntries } from './storage/metadata-index.js';
+import type { IndexableValue } from './storage/metadata-index.js';
+import {
+  encodeExportFrame,
+  readExportStream,
+  type ExportedCollection,
+  type ExportedDocument,
+} from './storage/export-stream.js';
 import { LockManager } from './sync/locks.js';
 import { Broadcaster } from './sync/broadcast.js';
+import { ChangeLog } from './sync/change-log.js';
 import type { QuantizationConfig, ScalarCalibrationData, PQCodebook } from './quantization/types.js';
 import { calibrate, scalarQuantize, scalarDequantize } from './quantization/scalar.js';
 import { trainPQ, pqQuantize, pqDequantize } from './quantization/pq.js';
+import { binaryQuantize, binaryDequantize, binaryCodeLength } from './quantization/binary.js';
+import {
+  originalVectorId,
+  docIdOfOriginalVector,
+  originalVectorCollectionId,
+} from './quantization/stored-originals.js';
 import type { CompressionConfig } from './storage/compression.js';
 import type { EmbeddingModel, ModelFingerprint } from './embeddings/types.js';
 import { globalEventBus } from './events/index.js';
+import { InvalidOptionsError, ParseError, ValidationError } from './errors/index.js';
+
+/**
+ * A non-primary named vector space and its index.
+ */
+interface NamedSpace {
+  dimensions: number;
+  indexOptions: HNSWOptions | undefined;
+  index: HNSWIndex;
+}
+
+/**
+ * A document as it was before a transaction first wrote it.
+ */
+type DocumentSnapshot<TMetadata extends Record<string, unknown>> =
+  | { id: string; document: null }
+  | { id: string; document: Document<TMetadata>; stored: StoredDocument; vector: Float32Array | Uint8Array };
+
+/**
+ * The documents written since a snapshot, as they were at the snapshot.
+ * Snapshot views read these and the live collection for everything else.
+ */
+interface SnapshotOverlay<TMetadata extends Record<string, unknown>> {
+  /** IDs of the documents written since the snapshot */
+  changed: Set<string>;
+  /** Memory-backed database holding the changed documents that existed at the snapshot */
+  db: VectorDBImpl<TMetadata>;
+}
+
+/**
+ * Timestamps to keep when a document is written back as it was.
+ */
+interface DocumentTimestamps {
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Read and check the page size and offset of `find()` options.
+ *
+ * @throws {InvalidOptionsError} If either is not a non-negative integer.
+ */
+function findPage(options: { limit?: number; offset?: number } | undefined): { limit: number; offset: number } {
+  const limit = options?.limit ?? 50;
+  const offset = options?.offset ?? 0;
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new InvalidOptionsError('limit', limit, 'a non-negative integer');
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new InvalidOptionsError('offset', offset, 'a non-negative integer');
+  }
+  return { limit, offset };
+}
+
+/**
+ * Merge two rankings that are each sorted by descending score.
+ */
+function mergeByScore<T extends { score: number }>(a: T[], b: T[], k: number): T[] {
+  return [...a, ...b].sort((x, y) => y.score - x.score).slice(0, k);
+}
+
+/**
+ * Loose document shape used while resolving vectors for writes.
+ */
+interface VectorInput {
+  id: string;
+  vector?: Float32Array;
+  vectors?: Float32Array[];
+  namedVectors?: Record<string, Float32Array>;
+}
+
+/**
+ * Documents per batch of `exportStream()`.
+ */
+const DEFAULT_EXPORT_BATCH_SIZE = 500;
+
+/**
+ * Filters whose matching document IDs are kept between queries.
+ */
+const FILTER_CACHE_SIZE = 16;
+
+/**
+ * Documents read by a lazily filtered search before the filter's selectivity
+ * is judged.
+ */
+const LAZY_FILTER_SAMPLE_SIZE = 128;
+
+/**
+ * Share of read documents that must match for a filtered graph search to
+ * keep evaluating the filter lazily instead of resolving every match.
+ */
+const LAZY_FILTER_MIN_SELECTIVITY = 0.05;
+
+/**
+ * A collection that imported documents are written to.
+ */
+interface ImportTarget {
+  collection: Collection;
+  isCurrentCollection: boolean;
+  useQuantization: boolean;
+  useCompression: boolean;
+  indexedFields: string[];
+  /** Whether exported keyword tokens fit the collection's keyword index */
+  keywordTokensMatch: boolean;
+}
+
+/**
+ * Convert the vectors of an exported document to arrays for JSON.
+ */
+function toJSONDocument(doc: ExportedDocument<Float32Array>): ExportedDocument {
+  const { vector, vectors, namedVectors, ...rest } = doc;
+  const json: ExportedDocument = rest;
+  if (vector) json.vector = Array.from(vector);
+  if (vectors) json.vectors = vectors.map((v) => Array.from(v));
+  if (namedVectors) {
+    json.namedVectors = Object.fromEntries(Object.entries(namedVectors).map(([name, v]) => [name, Array.from(v)]));
+  }
+  return json;
+}
 
 /**
  * Internal VectorDB implementation.
  */
 export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<string, unknown>> implements VectorDB<TMetadata> {
   private storage: Storage | StorageAdapter;
-  private index: HNSWIndex | null = null;
+  /** Index of the primary vector space */
+  private index: VectorIndex | null = null;
+  /** Kind of index used for the primary vector space */
+  private indexType: VectorIndexType;
+  /** Index over the vectors owned by multi-vector documents */
+  private multiIndex: HNSWIndex | null = null;
+  /** Number of vectors owned by each multi-vector document */
+  private vectorCounts = new Map<string, number>();
+  /** Snapshot and delta logs of the HNSW graphs, by the ID they are saved under */
+  private graphLogs = new Map<string, GraphLog>();
+  /** Change logs of the collections written to, by collection ID */
+  private changeLogs = new Map<string, ChangeLog>();
+  /** IDs matched by recent filters, by filter key, with the change log version they were read at */
+  private filterCache = new Map<string, { ids: Set<string>; version: string }>();
+  /** Whether every document has an indexed value for a sort field, by field, with the change log version */
+  private sortFieldsIndexed = new Map<string, { indexed: boolean; version: string }>();
   private collectionId: string;
   private collectionName: string;
   private dimensions: number;
+  /** HNSW options of the primary vector space */
+  private indexOptions: HNSWOptions | undefined;
+  /** Name of the primary vector space when named spaces are configured */
+  private primarySpace: string | undefined;
+  /** Non-primary named vector spaces */
+  private spaces = new Map<string, NamedSpace>();
+  /** Inverted index over the documents' sparse vectors */
+  private sparseIndex = new SparseIndex();
+  /** BM25 index over the keyword field (null when disabled) */
+  private keywordIndex: BM25 | null = null;
+  /** Field and tokenizer settings of the keyword index */
+  private keywordFingerprint: KeywordIndexFingerprint | undefined;
   private config: VectorDBConfig<TMetadata>;
   private initialized = false;
   private lockManager: LockManager | null = null;
   private broadcaster: Broadcaster | null = null;
   private schema: ObjectSchema<TMetadata> | undefined;
+  /** Metadata fields with secondary indexes (empty if unsupported by the storage) */
+  private indexedFields: string[] = [];
+  /** Sequence number of the newest snapshot (0 when there is none) */
+  private latestSnapshot = 0;
+  /** Documents whose state at the newest snapshot is already preserved */
+  private preserved = new Set<string>();
 
   /** Quantization config (if enabled) */
   private quantizationConfig: QuantizationConfig | undefined;
@@ -53,6 +302,10 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
   private calibration: ScalarCalibrationData | null = null;
   /** Trained codebook for product quantization */
   private pqCodebook: PQCodebook | null = null;
+  /** Whether main vectors are stored as packed sign bits */
+  private binaryQuantized = false;
+  /** Metric binary search candidates are rescored with */
+  private rescoreMetric: DistanceFunction = 'cosine';
   /** Embedding model reference for drift detection */
   private model: EmbeddingModel | undefined;
 
@@ -69,11 +322,41 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
     existingStorage?: Storage | StorageAdapter,
   ) {
     this.config = config;
-    this.dimensions = config.dimensions;
+
+    const spaces = resolveVectorSpaces(config.dimensions);
+    this.dimensions = spaces[0].dimensions;
+    this.indexOptions = { ...config.indexOptions, ...spaces[0].indexOptions };
+    if (typeof config.dimensions !== 'number') {
+      this.primarySpace = spaces[0].name;
+      for (const space of spaces.slice(1)) {
+        const indexOptions = { ...config.indexOptions, ...space.indexOptions };
+        this.spaces.set(space.name, {
+          dimensions: space.dimensions,
+          indexOptions,
+          index: new HNSWIndex(space.dimensions, indexOptions),
+        });
+      }
+    }
+    this.indexType = config.index ?? 'hnsw';
+    if (!['hnsw', 'ivf', 'flat'].includes(this.indexType)) {
+      throw new InvalidOptionsError('index', config.index, "'hnsw', 'ivf' or 'flat'");
+    }
     this.collectionName = collectionName;
     this.collectionId = collectionName; // Use name as ID for simplicity
     this.schema = config.schema;
+    if (config.keywordIndex !== false) {
+      const { field = '_text', ...bm25Options } =
+        typeof config.keywordIndex === 'object' ? config.keywordIndex : {};
+      this.keywordIndex = new BM25(bm25Options);
+      this.keywordFingerprint = keywordIndexFingerprint(field, bm25Options);
+    }
     this.quantizationConfig = config.quantization;
+    if (config.quantization?.type === 'binary') {
+      // The index searches the sign bits; the configured metric rescores them
+      this.binaryQuantized = true;
+      this.rescoreMetric = this.indexOptions?.distanceFunction ?? 'cosine';
+      this.indexOptions = { ...this.indexOptions, distanceFunction: 'hamming' };
+    }
     this.model = config.model;
 
     // Storage compression config (independent of quantization)
@@ -128,6 +411,14 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
         };
       }
 
+      collection.keywordIndex = this.keywordFingerprint;
+      if (this.binaryQuantized) {
+        collection.binaryQuantization = true;
+      }
+      if (this.indexType !== 'hnsw') {
+        collection.indexType = this.indexType;
+      }
+
       await this.storage.createCollection(collection);
     } else {
       this.collectionId = collection.id;
@@ -139,6 +430,8 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
       }
     }
 
+    this.latestSnapshot = Math.max(0, ...(collection.snapshots ?? []).map((s) => s.sequence));
+
     // Restore calibration data from collection if present
     if (collection.calibration) {
       this.calibration = collection.calibration;
@@ -149,6 +442,14 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
       this.pqCodebook = collection.pqCodebook;
     }
 
+    // Binary codes stay readable after binary quantization is turned off
+    if (collection.binaryQuantization) {
+      this.binaryQuantized = true;
+    } else if (this.binaryQuantized) {
+      collection.binaryQuantization = true;
+      await this.storage.updateCollection(collection);
+    }
+
     // Restore storage compression calibration from collection if present
     if (collection.compressionCalibration) {
       this.compressionCalibration = collection.compressionCalibration;
@@ -200,210 +501,802 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
       }
     }
 
-    // Load or create index
-    const savedIndex = await this.storage.loadIndex(this.collectionId);
+    await this.syncMetadataIndexes(collection);
+
+    await this.loadPrimaryIndex(collection);
+    await this.loadMultiVectorIndex();
+    await this.loadNamedVectorIndexes();
+    await this.loadSparseIndex();
+    await this.loadKeywordIndex(collection);
+
+    this.initialized = true;
+  }
+
+  /**
+   * Load or create the primary space's index.
+   *
+   * Entries of a previously used index type are dropped first: an old HNSW
+   * graph or IVF partitions would miss the writes made while another index
+   * type was kept up to date.
+   */
+  private async loadPrimaryIndex(collection: Collection): Promise<void> {
+    if ((collection.indexType ?? 'hnsw') !== this.indexType) {
+      if (!collection.indexType) {
+        await this.graphLog(this.collectionId).clear();
+      }
+      collection.indexType = this.indexType === 'hnsw' ? undefined : this.indexType;
+      await this.storage.updateCollection(collection);
+    }
+    if (this.indexType !== 'ivf' && collection.ivf) {
+      await clearIVFEntries(this.storage, this.collectionId, collection.ivf.centroids.length);
+      collection.ivf = undefined;
+      await this.storage.updateCollection(collection);
+    }
+
+    if (this.indexType === 'ivf') {
+      const index = this.createPrimaryIndex() as IVFIndex;
+      this.index = index;
+      // Partitions live in storage; vectors are only read when they must be re-partitioned
+      if (!(await index.open(collection.ivf))) {
+        for (const [id, vector] of await this.loadAllVectorsForIndex()) {
+          await index.add(id, vector);
+        }
+      }
+      collection.ivf = index.getState();
+      return;
+    }
+
     const vectors = await this.loadAllVectorsForIndex();
+    const savedIndex =
+      this.indexType === 'hnsw' ? await this.graphLog(this.collectionId).load(vectors, this.indexOptions) : null;
 
     if (savedIndex) {
-      this.index = HNSWIndex.deserialize(savedIndex, vectors, this.config.indexOptions);
+      this.index = savedIndex;
     } else {
-      this.index = new HNSWIndex(this.dimensions, this.config.indexOptions);
+      this.index = this.createPrimaryIndex();
       // Add any existing vectors to the index
       for (const [id, vector] of vectors) {
-        this.index.add(id, vector);
+        await this.index.add(id, vector);
       }
     }
-
-    this.initialized = true;
   }
 
   /**
-   * Load all vectors from storage, decompressing/dequantizing as necessary.
-   * Returns Float32Array vectors for the HNSW index (which always uses Float32).
+   * Create an empty index of the configured type for the primary space.
+   * All index types compare vectors with `indexOptions.distanceFunction`.
    */
-  private async loadAllVectorsForIndex(): Promise<Map<string, Float32Array>> {
-    const raw = await this.storage.getAllVectors(this.collectionId);
-
-    // Decompress/dequantize any Uint8Array vectors for the HNSW index
-    const result = new Map<string, Float32Array>();
-    for (const [id, stored] of raw) {
-      result.set(id, this.decompressFromStorage(stored));
+  private createPrimaryIndex(): VectorIndex {
+    const distanceFunction = this.indexOptions?.distanceFunction ?? 'cosine';
+    switch (this.indexType) {
+      case 'ivf':
+        return new IVFIndex(this.dimensions, this.config.ivfOptions ?? {}, distanceFunction, {
+          storage: this.storage,
+          collectionId: this.collectionId,
+          saveState: (state) => this.saveIVFState(state),
+        });
+      case 'flat':
+        return new FlatIndex(this.dimensions, distanceFunction);
+      default:
+        return new HNSWIndex(this.dimensions, this.indexOptions);
     }
-    return result;
   }
 
   /**
-   * Ensure the database is initialized.
+   * Empty the primary space's index after its vectors were removed from storage.
    */
-  private ensureInitialized(): void {
-    if (!this.initialized) {
-      throw new Error('Database not initialized. Call initialize() or use createVectorDB().');
+  private async resetPrimaryIndex(): Promise<void> {
+    if (this.index instanceof IVFIndex) {
+      await this.index.clear();
+      return;
     }
+    // Destroy GPU on old index before creating new one
+    this.index?.destroyGPU?.();
+    this.index = this.createPrimaryIndex();
   }
 
   /**
-   * Save the index to storage.
+   * Persist the trained state of the IVF index to the collection record.
    */
-  private async saveIndex(): Promise<void> {
-    if (!this.index) return;
-    const serialized = this.index.serialize();
-    await this.storage.saveIndex(this.collectionId, serialized);
+  private async saveIVFState(state: StoredIVFState): Promise<void> {
+    const collection = await this.storage.getCollectionByName(this.collectionName);
+    if (!collection) return;
+
+    collection.ivf = state;
+    await this.storage.updateCollection(collection);
   }
 
   /**
-   * Persist calibration data (scalar) or codebook (PQ) to the collection record.
+   * Load the documents' sparse vectors into the inverted index.
    */
-  private async saveCalibration(): Promise<void> {
-    const collection = await this.storage.getCollectionByName(this.collectionName);
-    if (!collection) return;
+  private async loadSparseIndex(): Promise<void> {
+    const stored = await this.storage.getAllVectors(sparseCollectionId(this.collectionId));
+    this.sparseIndex.clear();
+    for (const [id, packed] of stored) {
+      this.sparseIndex.add(docIdOfSparseVector(id), decodeSparseVector(packed));
+    }
+  }
 
-    if (this.calibration) {
-      collection.calibration = this.calibration;
+  /**
+   * Load the stored keyword entries into the BM25 index, or rebuild them from
+   * the documents' text when the field or tokenizer settings changed.
+   */
+  private async loadKeywordIndex(collection: Collection): Promise<void> {
+    const keywordId = keywordCollectionId(this.collectionId);
+
+    if (!this.keywordIndex) {
+      // Drop entries that would go stale while the index is disabled
+      if (collection.keywordIndex) {
+        await this.storage.clearCollection(keywordId);
+        collection.keywordIndex = undefined;
+        await this.storage.updateCollection(collection);
+      }
+      return;
     }
 
-    if (this.pqCodebook) {
-      collection.pqCodebook = this.pqCodebook;
+    this.keywordIndex.clear();
+
+    if (sameKeywordIndex(collection.keywordIndex, this.keywordFingerprint)) {
+      for (const entry of await this.storage.getAllDocuments(keywordId)) {
+        const tokens = entry.metadata?.tokens;
+        if (Array.isArray(tokens)) {
+          this.keywordIndex.addTokens(docIdOfKeywordEntry(entry.id), tokens as string[]);
+        }
+      }
+      return;
     }
 
+    // Backfill entries for documents written before the change
+    await this.storage.clearCollection(keywordId);
+    for (const doc of await this.storage.getAllDocuments(this.collectionId)) {
+      await this.writeKeywordEntry(doc.id, doc.metadata);
+    }
+
+    collection.keywordIndex = this.keywordFingerprint;
     await this.storage.updateCollection(collection);
   }
 
   /**
-   * Perform initial calibration from the first batch of vectors.
-   * Called when quantization is enabled and no calibration/codebook exists yet.
-   *
-   * For scalar quantization, computes per-dimension min/max.
-   * For product quantization, trains a PQ codebook via k-means clustering.
+   * Load the vectors and indexes of the non-primary named vector spaces.
    */
-  private calibrateFromVectors(vectors: Float32Array[]): void {
-    if (!this.quantizationConfig) return;
-
-    const maxSamples = this.quantizationConfig.calibrationSamples ?? 1000;
+  private async loadNamedVectorIndexes(): Promise<void> {
+    for (const [name, space] of this.spaces) {
+      const spaceId = namedVectorCollectionId(this.collectionId, name);
+      const raw = await this.storage.getAllVectors(spaceId);
+
+      // Indexes are keyed by document ID
+      const vectors = new Map<string, Float32Array>();
+      for (const [id, stored] of raw) {
+        vectors.set(docIdOfNamedVector(id), stored instanceof Float32Array ? stored : new Float32Array(stored));
+      }
 
-    // Sample vectors if there are too many
-    let sampled = vectors;
-    if (maxSamples > 0 && vectors.length > maxSamples) {
-      sampled = [];
-      const step = vectors.length / maxSamples;
-      for (let i = 0; i < maxSamples; i++) {
-        sampled.push(vectors[Math.floor(i * step)]);
+      const savedIndex = await this.graphLog(spaceId).load(vectors, space.indexOptions);
+      if (savedIndex) {
+        space.index = savedIndex;
+      } else {
+        space.index = new HNSWIndex(space.dimensions, space.indexOptions);
+        for (const [id, vector] of vectors) {
+          space.index.add(id, vector);
+        }
       }
     }
+  }
 
-    if (this.quantizationConfig.type === 'pq') {
-      // Train PQ codebook
-      this.pqCodebook = trainPQ(sampled, {
-        subvectors: this.quantizationConfig.subvectors,
-        centroids: this.quantizationConfig.centroids,
-        maxIterations: this.quantizationConfig.maxIterations,
-        calibrationSamples: 0, // Already sampled above
-      });
+  /**
+   * Load the vectors of multi-vector documents and their index.
+   */
+  private async loadMultiVectorIndex(): Promise<void> {
+    const multiId = multiVectorCollectionId(this.collectionId);
+    const raw = await this.storage.getAllVectors(multiId);
+
+    const vectors = new Map<string, Float32Array>();
+    this.vectorCounts.clear();
+    for (const [id, stored] of raw) {
+      vectors.set(id, this.decompressFromStorage(stored));
+      const parentId = parentIdOf(id);
+      this.vectorCounts.set(parentId, (this.vectorCounts.get(parentId) ?? 0) + 1);
+    }
+
+    const savedIndex = await this.graphLog(multiId).load(vectors, this.indexOptions);
+    if (savedIndex) {
+      this.multiIndex = savedIndex;
     } else {
-      // Scalar calibration
-      this.calibration = calibrate(sampled);
+      this.multiIndex = new HNSWIndex(this.dimensions, this.indexOptions);
+      for (const [id, vector] of vectors) {
+        this.multiIndex.add(id, vector);
+      }
     }
   }
 
   /**
-   * Quantize a vector for storage if quantization is enabled.
-   * Returns the vector as-is if quantization is not enabled or not yet calibrated/trained.
+   * Load all vectors from storage, decompressing/dequantizing as necessary.
+   * Returns Float32Array vectors for the HNSW index (which always uses Float32).
    */
-  private quantizeForStorage(vector: Float32Array): Float32Array | Uint8Array {
-    if (!this.quantizationConfig) {
-      return vector;
-    }
+  private async loadAllVectorsForIndex(): Promise<Map<string, Float32Array>> {
+    const raw = await this.storage.getAllVectors(this.collectionId);
 
-    if (this.quantizationConfig.type === 'pq' && this.pqCodebook) {
-      return pqQuantize(vector, this.pqCodebook);
+    // Decompress/dequantize any Uint8Array vectors for the HNSW index
+    const result = new Map<string, Float32Array>();
+    for (const [id, stored] of raw) {
+      result.set(id, this.decompressFromStorage(stored));
     }
+    return result;
+  }
 
-    if (this.quantizationConfig.type === 'scalar' && this.calibration) {
-      return scalarQuantize(vector, this.calibration);
+  /**
+   * Resolve the indexed metadata fields and rebuild index entries when they changed.
+   */
+  private async syncMetadataIndexes(collection: Collection): Promise<void> {
+    if (!this.storage.queryIndex || !this.storage.putIndexEntries) return;
+
+    const fields = this.config.indexes
+      ? [...new Set(this.config.indexes)]
+      : (collection.indexedFields ?? []);
+    this.indexedFields = fields;
+
+    const stored = collection.indexedFields ?? [];
+    if (fields.length === stored.length && fields.every((f) => stored.includes(f))) return;
+
+    // Backfill (or drop) entries for documents written before the change
+    const docs = await this.storage.getAllDocuments(this.collectionId);
+    for (const doc of docs) {
+      await this.storage.putIndexEntries(
+        this.collectionId,
+        doc.id,
+        extractIndexEntries(doc.metadata, fields)
+      );
     }
 
-    return vector;
+    collection.indexedFields = fields.length > 0 ? fields : undefined;
+    await this.storage.updateCollection(collection);
   }
 
   /**
-   * Compress a Float32Array vector for storage if compression is enabled.
-   * Returns the vector unchanged if compression is disabled or the vector is already Uint8Array.
+   * Write secondary index entries for a document's metadata.
    */
-  private compressForStorage(vector: Float32Array | Uint8Array): Float32Array | Uint8Array {
-    // Skip compression if not enabled
-    if (!this.compressionConfig) {
-      return vector;
-    }
+  private async indexMetadata(id: string, metadata: Record<string, unknown> | undefined): Promise<void> {
+    if (this.indexedFields.length === 0) return;
+    await this.storage.putIndexEntries?.(
+      this.collectionId,
+      id,
+      extractIndexEntries(metadata, this.indexedFields)
+    );
+  }
 
-    // Skip if already Uint8Array (e.g., from quantization)
-    if (vector instanceof Uint8Array) {
-      return vector;
-    }
+  /**
+   * Remove secondary index entries for a document.
+   */
+  private async unindexMetadata(id: string): Promise<void> {
+    if (this.indexedFields.length === 0) return;
+    await this.storage.deleteIndexEntries?.(id);
+  }
 
-    // Skip if no compression calibration yet
-    if (!this.compressionCalibration) {
-      return vector;
+  /**
+   * Look up candidate IDs for a filter in storage: by the adapter's own filter
+   * evaluation where it has one, else in the secondary indexes.
+   *
+   * @returns The candidates and whether they answer the filter exactly,
+   *   or `null` if storage cannot answer any part of the filter.
+   */
+  private async lookupIndexed(
+    filter: TypedFilterQuery<TMetadata>
+  ): Promise<{ ids: Set<string>; exact: boolean } | null> {
+    const storage = this.storage;
+    // The built-in adapters do not evaluate filters themselves
+    const queried =
+      'queryDocuments' in storage
+        ? await storage.queryDocuments?.(this.collectionId, filter as TypedFilterQuery)
+        : null;
+    if (queried) {
+      return { ids: new Set(queried.ids), exact: queried.exact };
     }
 
-    return scalarQuantize(vector, this.compressionCalibration);
+    const { plan, exact } = planFilter(filter as TypedFilterQuery, new Set(this.indexedFields));
+    if (!plan || !storage.queryIndex) return null;
+
+    const ids = await executePlan(plan, (query) => storage.queryIndex!(this.collectionId, query));
+    return { ids, exact };
   }
 
   /**
-   * Decompress a stored vector if compression is enabled.
-   * Returns a Float32Array regardless of whether the vector was compressed.
+   * Resolve a filter to the IDs of matching documents in this collection.
+   *
+   * Conditions on indexed fields are answered from the secondary index. Any
+   * remaining conditions are evaluated on those candidates only; without a
+   * usable index every document in the collection is scanned. Results that
+   * needed document reads are reused until a document is written.
    */
-  private decompressFromStorage(stored: Float32Array | Uint8Array): Float32Array {
-    if (stored instanceof Float32Array) {
-      return stored;
+  private async findMatchingIds(
+    filter: TypedFilterQuery<TMetadata>,
+    indexed?: { ids: Set<string>; exact: boolean } | null
+  ): Promise<Set<string>> {
+    if (indexed === undefined) indexed = await this.lookupIndexed(filter);
+    if (indexed?.exact) {
+      return indexed.ids;
     }
 
-    // Check for storage compression first (separate from quantization)
-    if (this.compressionConfig && this.compressionCalibration) {
-      return scalarDequantize(stored, this.compressionCalibration);
+    // Evaluating the filter reads documents, so its result is kept until a
+    // document of the collection is written
+    const { ids: cached, version } = await this.cachedMatchingIds(filter);
+    if (cached) {
+      return cached;
     }
 
-    // Fall back to quantization decompression
-    if (this.pqCodebook) {
-      return pqDequantize(stored, this.pqCodebook);
+    const docs = await this.findMatchingDocuments(filter, indexed);
+    const ids = new Set(docs.map((doc) => doc.id));
+    this.filterCache.set(filterKey(filter as TypedFilterQuery), { ids, version });
+    if (this.filterCache.size > FILTER_CACHE_SIZE) {
+      // Least recently used first
+      this.filterCache.delete(this.filterCache.keys().next().value!);
     }
+    return ids;
+  }
 
-    if (this.calibration) {
-      return scalarDequantize(stored, this.calibration);
+  /**
+   * Look up the IDs a filter matched when it was last resolved, if no document
+   * of the collection has been written since.
+   *
+   * @returns The cached IDs or `null`, and the collection's current version.
+   */
+  private async cachedMatchingIds(
+    filter: TypedFilterQuery<TMetadata>
+  ): Promise<{ ids: Set<string> | null; version: string }> {
+    const key = filterKey(filter as TypedFilterQuery);
+    const version = await this.changeLog().version();
+    const cached = this.filterCache.get(key);
+    this.filterCache.delete(key);
+    if (cached?.version !== version) {
+      return { ids: null, version };
     }
-
-    // Last resort: reinterpret as Float32Array
-    return new Float32Array(stored);
+    this.filterCache.set(key, cached);
+    return { ids: cached.ids, version };
   }
 
   /**
-   * Persist storage compression calibration data to the collection record.
+   * Search a vector index for the nearest documents that match a filter.
+   *
+   * A filter answered by the secondary index, or resolved since the last
+   * write, is applied as an allow-list. Otherwise an HNSW graph asks about the
+   * nodes it visits and the documents are read on demand: unread documents
+   * count as matches, and the search is repeated after reading them until
+   * every result is a known match. Once enough documents are read to show
+   * that the filter matches few of them, the traversal would visit most of
+   * the graph, so every match is resolved up front and searched by scan.
    */
-  private async saveCompressionCalibration(): Promise<void> {
-    const collection = await this.storage.getCollectionByName(this.collectionName);
-    if (!collection) return;
-
-    if (this.compressionCalibration) {
-      collection.compressionCalibration = this.compressionCalibration;
+  private async searchFiltered(
+    index: VectorIndex,
+    vector: Float32Array,
+    k: number,
+    filter: TypedFilterQuery<TMetadata>
+  ): Promise<Array<{ id: string; score: number }>> {
+    const indexed = await this.lookupIndexed(filter);
+    const known = indexed?.exact
+      ? indexed.ids
+      : !(index instanceof HNSWIndex)
+        ? await this.findMatchingIds(filter, indexed)
+        : (await this.cachedMatchingIds(filter)).ids;
+    if (known) {
+      return known.size === 0 ? [] : index.search(vector, k, { filter: known });
     }
 
-    if (this.deltaCalibration) {
-      collection.deltaCalibration = this.deltaCalibration;
-    }
+    const verdicts = new Map<string, boolean>();
+    const unread = new Set<string>();
+    let matched = 0;
+    const accept = (id: string): boolean => {
+      if (indexed && !indexed.ids.has(id)) return false;
+      const verdict = verdicts.get(id);
+      if (verdict !== undefined) return verdict;
+      unread.add(id);
+      return true;
+    };
 
-    if (this.compressionConfig) {
-      collection.compression = { type: this.compressionConfig.type };
-    }
+    for (;;) {
+      const results = await index.search(vector, k, { filter: accept });
+      if (unread.size === 0) {
+        return results;
+      }
 
-    await this.storage.updateCollection(collection);
+      for (const id of unread) {
+        const doc = await this.storage.getDocument(id);
+        const matches = doc !== null && matchesFilter(doc.metadata, filter);
+        verdicts.set(id, matches);
+        if (matches) matched++;
+      }
+      unread.clear();
+
+      if (
+        verdicts.size >= LAZY_FILTER_SAMPLE_SIZE &&
+        matched / verdicts.size <= LAZY_FILTER_MIN_SELECTIVITY
+      ) {
+        const matching = await this.findMatchingIds(filter, indexed);
+        return matching.size === 0 ? [] : index.search(vector, k, { filter: matching });
+      }
+    }
   }
 
   /**
-   * Perform initial compression calibration from the first batch of vectors.
-   * Called when storage compression is enabled and no compression calibration exists yet.
+   * Resolve a filter to the matching stored documents in this collection.
    */
-  private calibrateCompressionFromVectors(vectors: Float32Array[]): void {
-    if (!this.compressionConfig) return;
+  private async findMatchingDocuments(
+    filter: TypedFilterQuery<TMetadata> | undefined,
+    indexed?: { ids: Set<string>; exact: boolean } | null
+  ): Promise<StoredDocument[]> {
+    if (!filter || Object.keys(filter).length === 0) {
+      return this.storage.getAllDocuments(this.collectionId);
+    }
 
-    const maxSamples = this.compressionConfig.calibrationSamples ?? 1000;
+    const candidates = indexed === undefined ? await this.lookupIndexed(filter) : indexed;
+    if (candidates) {
+      const docs: StoredDocument[] = [];
+      for (const id of candidates.ids) {
+        const doc = await this.storage.getDocument(id);
+        if (doc && (candidates.exact || matchesFilter(doc.metadata, filter))) {
+          docs.push(doc);
+        }
+      }
+      return docs;
+    }
+
+    return (await this.storage.getAllDocuments(this.collectionId)).filter((doc) =>
+      matchesFilter(doc.metadata, filter)
+    );
+  }
+
+  /**
+   * Ensure the database is initialized.
+   */
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      throw new Error('Database not initialized. Call initialize() or use createVectorDB().');
+    }
+  }
+
+  /**
+   * Get the snapshot and delta log of the HNSW graph saved under an ID.
+   */
+  private graphLog(indexId: string): GraphLog {
+    let log = this.graphLogs.get(indexId);
+    if (!log) {
+      log = new GraphLog(this.storage, indexId);
+      this.graphLogs.set(indexId, log);
+    }
+    return log;
+  }
+
+  /**
+   * Get the change log of a collection (this one by default).
+   */
+  private changeLog(collectionId = this.collectionId): ChangeLog {
+    let log = this.changeLogs.get(collectionId);
+    if (!log) {
+      log = new ChangeLog(this.storage, collectionId, this.lockManager);
+      this.changeLogs.set(collectionId, log);
+    }
+    return log;
+  }
+
+  /**
+   * Save the changed nodes of every HNSW graph to storage (for advanced usage like reindexing).
+   */
+  async saveIndex(): Promise<void> {
+    if (!this.index) return;
+    // Flat indexes keep no graph and IVF partitions are written as they change
+    if (this.index instanceof HNSWIndex) {
+      await this.graphLog(this.collectionId).save(this.index);
+    }
+
+    if (this.multiIndex) {
+      await this.graphLog(multiVectorCollectionId(this.collectionId)).save(this.multiIndex);
+    }
+
+    for (const [name, space] of this.spaces) {
+      await this.graphLog(namedVectorCollectionId(this.collectionId, name)).save(space.index);
+    }
+  }
+
+  /**
+   * Validate a document's `vectors` and `namedVectors` and resolve its main vector:
+   * `vector`, else the primary space's named vector, else the mean of `vectors`.
+   */
+  private resolveVectors(doc: VectorInput): {
+    vector: Float32Array | undefined;
+    vectors: Float32Array[] | undefined;
+    named: Array<[string, Float32Array]> | undefined;
+  } {
+    const named = doc.namedVectors ? this.resolveNamedVectors(doc.id, doc.namedVectors) : undefined;
+    const primary = doc.vector ?? (this.primarySpace ? doc.namedVectors?.[this.primarySpace] : undefined);
+
+    const vectors = doc.vectors;
+    if (vectors !== undefined) {
+      if (!Array.isArray(vectors) || vectors.length === 0) {
+        throw new Error(`Document "${doc.id}" must have at least one vector in vectors`);
+      }
+      for (const vector of vectors) {
+        if (!(vector instanceof Float32Array)) {
+          throw new Error(`All vectors of document "${doc.id}" must be Float32Array`);
+        }
+        if (vector.length !== this.dimensions) {
+          throw new Error(
+            `Vector dimension mismatch: expected ${this.dimensions}, got ${vector.length}`
+          );
+        }
+      }
+    }
+
+    return { vector: primary ?? (vectors ? meanVector(vectors) : undefined), vectors, named };
+  }
+
+  /**
+   * Validate named vectors against the configured spaces.
+   *
+   * @returns The vectors of non-primary spaces.
+   */
+  private resolveNamedVectors(
+    id: string,
+    namedVectors: Record<string, Float32Array>
+  ): Array<[string, Float32Array]> {
+    if (!this.primarySpace) {
+      throw new ValidationError(
+        `Document "${id}" has namedVectors but the database has no named vector spaces`,
+        'Create the database with named dimensions, e.g. dimensions: { text: 384, image: 512 }.'
+      );
+    }
+
+    const named: Array<[string, Float32Array]> = [];
+    for (const [name, vector] of Object.entries(namedVectors)) {
+      if (name === this.primarySpace) continue;
+
+      const space = this.spaces.get(name);
+      if (!space) {
+        throw new ValidationError(
+          `Unknown vector space "${name}" in document "${id}"`,
+          `Known spaces: ${[this.primarySpace, ...this.spaces.keys()].join(', ')}.`
+        );
+      }
+      if (!(vector instanceof Float32Array) || vector.length !== space.dimensions) {
+        throw new Error(
+          `Vector dimension mismatch in space "${name}": expected ${space.dimensions}, got ${vector?.length}`
+        );
+      }
+      named.push([name, vector]);
+    }
+    return named;
+  }
+
+  /**
+   * Store vectors in non-primary named spaces and add them to the space indexes.
+   */
+  private async writeNamedVectors(id: string, named: Array<[string, Float32Array]>): Promise<void> {
+    for (const [name, vector] of named) {
+      const space = this.spaces.get(name)!;
+      await this.storage.addVector({
+        id: namedVectorId(id, name),
+        collectionId: namedVectorCollectionId(this.collectionId, name),
+        vector,
+      });
+      space.index.add(id, vector);
+    }
+  }
+
+  /**
+   * Remove a document's vectors from the non-primary named spaces.
+   *
+   * @param keep - Spaces to leave untouched.
+   */
+  private async removeNamedVectors(id: string, keep?: ReadonlySet<string>): Promise<void> {
+    for (const [name, space] of this.spaces) {
+      if (keep?.has(name) || !space.index.has(id)) continue;
+      await this.storage.deleteVector(namedVectorId(id, name));
+      space.index.delete(id);
+    }
+  }
+
+  /**
+   * Replace a document's sparse vector in storage and the inverted index.
+   * Passing `undefined` removes it.
+   */
+  private async writeSparseVector(id: string, vector: SparseVector | undefined): Promise<void> {
+    await this.removeSparseVector(id);
+    if (!vector) return;
+
+    await this.storage.addVector({
+      id: sparseVectorId(id),
+      collectionId: sparseCollectionId(this.collectionId),
+      vector: encodeSparseVector(vector),
+    });
+    this.sparseIndex.add(id, vector);
+  }
+
+  /**
+   * Remove a document's sparse vector, if any.
+   */
+  private async removeSparseVector(id: string): Promise<void> {
+    if (!this.sparseIndex.delete(id)) return;
+    await this.storage.deleteVector(sparseVectorId(id));
+  }
+
+  /**
+   * Replace a document's keyword entry from its metadata. Documents without
+   * text in the keyword field are removed from the index.
+   *
+   * @param tokens - Tokens stored earlier (e.g. from an export), used instead
+   *   of tokenizing the text again
+   */
+  private async writeKeywordEntry(
+    id: string,
+    metadata: Record<string, unknown> | undefined,
+    tokens?: string[]
+  ): Promise<void> {
+    if (!this.keywordIndex) return;
+
+    const text = metadata?.[this.keywordFingerprint!.field];
+    if (typeof text !== 'string') {
+      await this.removeKeywordEntry(id);
+      return;
+    }
+
+    if (tokens) {
+      this.keywordIndex.addTokens(id, tokens);
+    } else {
+      this.keywordIndex.add(id, text);
+    }
+
+    const now = Date.now();
+    await this.storage.addDocument({
+      id: keywordEntryId(id),
+      collectionId: keywordCollectionId(this.collectionId),
+      metadata: { tokens: this.keywordIndex.getTokens(id) },
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Remove a document's keyword entry, if any.
+   */
+  private async removeKeywordEntry(id: string): Promise<void> {
+    if (!this.keywordIndex?.has(id)) return;
+    this.keywordIndex.remove(id);
+    await this.storage.deleteDocument(keywordEntryId(id));
+  }
+
+  /**
+   * Resolve the vector space a search runs in.
+   *
+   * @returns The space name, or `undefined` for the primary space.
+   */
+  private getSearchSpace(using: string | undefined): {
+    name: string | undefined;
+    index: VectorIndex;
+    dimensions: number;
+  } {
+    if (using === undefined || using === this.primarySpace) {
+      return { name: undefined, index: this.index!, dimensions: this.dimensions };
+    }
+
+    const space = this.spaces.get(using);
+    if (!space) {
+      throw new ValidationError(
+        `Unknown vector space "${using}"`,
+        this.primarySpace
+          ? `Known spaces: ${[this.primarySpace, ...this.spaces.keys()].join(', ')}.`
+          : 'Create the database with named dimensions to search several vector spaces.'
+      );
+    }
+    return { name: using, index: space.index, dimensions: space.dimensions };
+  }
+
+  /**
+   * Main vectors of a batch of documents, for calibration.
+   */
+  private mainVectorsOf(docs: DocumentInput<TMetadata>[]): Float32Array[] {
+    const vectors: Float32Array[] = [];
+    for (const doc of docs) {
+      const primary = doc.vector ?? (this.primarySpace ? doc.namedVectors?.[this.primarySpace] : undefined);
+      if (primary) {
+        vectors.push(primary);
+      } else if (doc.vectors && doc.vectors.length > 0) {
+        vectors.push(meanVector(doc.vectors));
+      }
+    }
+    return vectors;
+  }
+
+  /**
+   * Replace the vectors owned by a document in storage and the multi-vector index.
+   */
+  private async writeSubVectors(
+    id: string,
+    vectors: Float32Array[] | undefined,
+    collectionId = this.collectionId
+  ): Promise<void> {
+    await this.removeSubVectors(id);
+    if (!vectors) return;
+
+    const multiId = multiVectorCollectionId(collectionId);
+    for (let i = 0; i < vectors.length; i++) {
+      let storageVector: Float32Array | Uint8Array = this.quantizeForStorage(vectors[i]);
+      storageVector = this.compressForStorage(storageVector);
+      await this.storage.addVector({
+        id: subVectorId(id, i),
+        collectionId: multiId,
+        vector: storageVector,
+      });
+      this.multiIndex!.add(subVectorId(id, i), vectors[i]);
+    }
+
+    this.vectorCounts.set(id, vectors.length);
+  }
+
+  /**
+   * Remove the vectors owned by a document, if any.
+   */
+  private async removeSubVectors(id: string): Promise<void> {
+    const count = this.vectorCounts.get(id);
+    if (!count) return;
+
+    for (let i = 0; i < count; i++) {
+      await this.storage.deleteVector(subVectorId(id, i));
+      this.multiIndex!.delete(subVectorId(id, i));
+    }
+
+    this.vectorCounts.delete(id);
+  }
+
+  /**
+   * Read the vectors owned by a document from the multi-vector index.
+   */
+  private getSubVectors(id: string): Float32Array[] {
+    const count = this.vectorCounts.get(id) ?? 0;
+    const vectors: Float32Array[] = [];
+    for (let i = 0; i < count; i++) {
+      const vector = this.multiIndex!.getVector(subVectorId(id, i));
+      if (vector) vectors.push(vector);
+    }
+    return vectors;
+  }
+
+  /**
+   * Persist calibration data (scalar) or codebook (PQ) to the collection record.
+   */
+  private async saveCalibration(): Promise<void> {
+    const collection = await this.storage.getCollectionByName(this.collectionName);
+    if (!collection) return;
+
+    if (this.calibration) {
+      collection.calibration = this.calibration;
+    }
+
+    if (this.pqCodebook) {
+      collection.pqCodebook = this.pqCodebook;
+    }
+
+    await this.storage.updateCollection(collection);
+  }
+
+  /**
+   * Whether quantization is enabled but has no calibration or codebook yet.
+   * Binary quantization needs neither.
+   */
+  private needsCalibration(): boolean {
+    return (
+      this.quantizationConfig !== undefined &&
+      this.quantizationConfig.type !== 'binary' &&
+      !this.calibration &&
+      !this.pqCodebook
+    );
+  }
+
+  /**
+   * Perform initial calibration from the first batch of vectors.
+   * Called when quantization is enabled and no calibration/codebook exists yet.
+   *
+   * For scalar quantization, computes per-dimension min/max.
+   * For product quantization, trains a PQ codebook via k-means clustering.
+   */
+  private calibrateFromVectors(vectors: Float32Array[]): void {
+    if (!this.quantizationConfig || this.quantizationConfig.type === 'binary') return;
+
+    const maxSamples = this.quantizationConfig.calibrationSamples ?? 1000;
 
     // Sample vectors if there are too many
     let sampled = vectors;
@@ -415,100 +1308,955 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
       }
     }
 
-    this.compressionCalibration = calibrate(sampled);
+    if (this.quantizationConfig.type === 'pq') {
+      // Train PQ codebook
+      this.pqCodebook = trainPQ(sampled, {
+        subvectors: this.quantizationConfig.subvectors,
+        centroids: this.quantizationConfig.centroids,
+        maxIterations: this.quantizationConfig.maxIterations,
+        calibrationSamples: 0, // Already sampled above
+      });
+    } else {
+      // Scalar calibration
+      this.calibration = calibrate(sampled);
+    }
+  }
+
+  /**
+   * Quantize a vector for storage if quantization is enabled.
+   * Returns the vector as-is if quantization is not enabled or not yet calibrated/trained.
+   */
+  private quantizeForStorage(vector: Float32Array): Float32Array | Uint8Array {
+    if (!this.quantizationConfig) {
+      return vector;
+    }
+
+    if (this.quantizationConfig.type === 'pq' && this.pqCodebook) {
+      return pqQuantize(vector, this.pqCodebook);
+    }
+
+    if (this.quantizationConfig.type === 'scalar' && this.calibration) {
+      return scalarQuantize(vector, this.calibration);
+    }
+
+    if (this.quantizationConfig.type === 'binary') {
+      return binaryQuantize(vector);
+    }
+
+    return vector;
+  }
+
+  /**
+   * Whether search results are rescored with full-precision vectors, which
+   * are then kept next to the binary codes.
+   */
+  private get rescoring(): boolean {
+    return this.quantizationConfig?.type === 'binary' && this.quantizationConfig.rescore === true;
+  }
+
+  /**
+   * Store a document's full-precision vector for rescoring, if enabled.
+   */
+  private async writeOriginalVector(id: string, vector: Float32Array): Promise<void> {
+    if (!this.rescoring) return;
+    await this.storage.addVector({
+      id: originalVectorId(id),
+      collectionId: originalVectorCollectionId(this.collectionId),
+      vector,
+    });
+  }
+
+  /**
+   * Remove a document's full-precision vector, if any.
+   */
+  private async removeOriginalVector(id: string): Promise<void> {
+    if (!this.binaryQuantized) return;
+    await this.storage.deleteVector(originalVectorId(id));
+  }
+
+  /**
+   * Read a document's main vector as Float32. With rescoring enabled, the
+   * full-precision vector is returned instead of the binary code.
+   */
+  private async loadVector(id: string): Promise<Float32Array | undefined> {
+    if (this.rescoring) {
+      const original = await this.storage.getVector(originalVectorId(id));
+      if (original instanceof Float32Array) return original;
+    }
+    const stored = await this.storage.getVector(id);
+    return stored ? this.decompressFromStorage(stored) : undefined;
+  }
+
+  /**
+   * Re-rank binary search candidates by their full-precision vectors.
+   * Candidates without a stored vector keep their Hamming score.
+   */
+  private async rescoreResults(
+    query: Float32Array,
+    candidates: Array<{ id: string; score: number }>,
+    k: number
+  ): Promise<Array<{ id: string; score: number }>> {
+    const distanceFn = getDistanceFunction(this.rescoreMetric);
+    const rescored: Array<{ id: string; score: number }> = [];
+
+    for (const candidate of candidates) {
+      const original = await this.storage.getVector(originalVectorId(candidate.id));
+      rescored.push(
+        original instanceof Float32Array
+          ? {
+              id: candidate.id,
+              score: distanceToScore(distanceFn(query, original), this.rescoreMetric),
+            }
+          : candidate
+      );
+    }
+
+    return rescored.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  /**
+   * Compress a Float32Array vector for storage if compression is enabled.
+   * Returns the vector unchanged if compression is disabled or the vector is already Uint8Array.
+   */
+  private compressForStorage(vector: Float32Array | Uint8Array): Float32Array | Uint8Array {
+    // Skip compression if not enabled
+    if (!this.compressionConfig) {
+      return vector;
+    }
+
+    // Skip if already Uint8Array (e.g., from quantization)
+    if (vector instanceof Uint8Array) {
+      return vector;
+    }
+
+    // Skip if no compression calibration yet
+    if (!this.compressionCalibration) {
+      return vector;
+    }
+
+    return scalarQuantize(vector, this.compressionCalibration);
+  }
+
+  /**
+   * Decompress a stored vector if compression is enabled.
+   * Returns a Float32Array regardless of whether the vector was compressed.
+   */
+  private decompressFromStorage(stored: Float32Array | Uint8Array): Float32Array {
+    if (stored instanceof Float32Array) {
+      return stored;
+    }
+
+    // Binary codes are never compressed further
+    if (this.binaryQuantized && stored.length === binaryCodeLength(this.dimensions)) {
+      return binaryDequantize(stored, this.dimensions);
+    }
+
+    // Check for storage compression next (separate from quantization)
+    if (this.compressionConfig && this.compressionCalibration) {
+      return scalarDequantize(stored, this.compressionCalibration);
+    }
+
+    // Fall back to quantization decompression
+    if (this.pqCodebook) {
+      return pqDequantize(stored, this.pqCodebook);
+    }
+
+    if (this.calibration) {
+      return scalarDequantize(stored, this.calibration);
+    }
+
+    // Last resort: reinterpret as Float32Array
+    return new Float32Array(stored);
+  }
+
+  /**
+   * Persist storage compression calibration data to the collection record.
+   */
+  private async saveCompressionCalibration(): Promise<void> {
+    const collection = await this.storage.getCollectionByName(this.collectionName);
+    if (!collection) return;
+
+    if (this.compressionCalibration) {
+      collection.compressionCalibration = this.compressionCalibration;
+    }
+
+    if (this.deltaCalibration) {
+      collection.deltaCalibration = this.deltaCalibration;
+    }
+
+    if (this.compressionConfig) {
+      collection.compression = { type: this.compressionConfig.type };
+    }
+
+    await this.storage.updateCollection(collection);
+  }
+
+  /**
+   * Perform initial compression calibration from the first batch of vectors.
+   * Called when storage compression is enabled and no compression calibration exists yet.
+   */
+  private calibrateCompressionFromVectors(vectors: Float32Array[]): void {
+    if (!this.compressionConfig) return;
+
+    const maxSamples = this.compressionConfig.calibrationSamples ?? 1000;
+
+    // Sample vectors if there are too many
+    let sampled = vectors;
+    if (maxSamples > 0 && vectors.length > maxSamples) {
+      sampled = [];
+      const step = vectors.length / maxSamples;
+      for (let i = 0; i < maxSamples; i++) {
+        sampled.push(vectors[Math.floor(i * step)]);
+      }
+    }
+
+    this.compressionCalibration = calibrate(sampled);
+
+    // For delta-sq8, we compute delta calibration from the batch
+    if (this.compressionConfig.type === 'delta-sq8' && sampled.length > 1) {
+      const dimensions = sampled[0].length;
+      const deltas: Float32Array[] = [];
+      for (let i = 1; i < sampled.length; i++) {
+        const delta = new Float32Array(dimensions);
+        for (let d = 0; d < dimensions; d++) {
+          delta[d] = sampled[i][d] - sampled[i - 1][d];
+        }
+        deltas.push(delta);
+      }
+      this.deltaCalibration = calibrate(deltas);
+    }
+  }
+
+  /**
+   * Validate and write a document, its vectors and index entries, without
+   * locking, saving the index or notifying other tabs.
+   *
+   * @param timestamps - Timestamps to store instead of the current time
+   */
+  private async putDocument(doc: DocumentInput<TMetadata>, timestamps?: DocumentTimestamps): Promise<void> {
+    if (!doc.id) {
+      throw new Error('Document must have an id');
+    }
+
+    const { vector, vectors, named = [] } = this.resolveVectors(doc);
+
+    if (!vector || !(vector instanceof Float32Array)) {
+      throw new Error('Document must have a Float32Array vector');
+    }
+
+    if (doc.sparseVector !== undefined) {
+      validateSparseVector(doc.sparseVector, `Sparse vector of document "${doc.id}"`);
+    }
+
+    if (vector.length !== this.dimensions) {
+      throw new Error(
+        `Vector dimension mismatch: expected ${this.dimensions}, got ${vector.length}`
+      );
+    }
+
+    // Validate metadata against schema if provided
+    if (this.schema && doc.metadata !== undefined) {
+      try {
+        this.schema.parse(doc.metadata);
+      } catch (err) {
+        throw new Error(
+          `Metadata validation failed for document "${doc.id}": ${err instanceof Error ? err.message : String(err)}`
+        );
+      }
+    }
+
+    const existing = await this.storage.getDocument(doc.id);
+    await this.preserveForSnapshot(doc.id);
+    const now = Date.now();
+
+    // Calibrate/train on first add if quantization is enabled and not yet calibrated
+    if (this.needsCalibration()) {
+      this.calibrateFromVectors([vector]);
+      await this.saveCalibration();
+    }
+
+    // Calibrate storage compression on first add if enabled and not yet calibrated
+    if (this.compressionConfig && !this.compressionCalibration) {
+      this.calibrateCompressionFromVectors([vector]);
+      await this.saveCompressionCalibration();
+    }
+
+    // Store document metadata (cast to storage layer's untyped format)
+    const storedDoc: StoredDocument = {
+      id: doc.id,
+      collectionId: this.collectionId,
+      metadata: doc.metadata as Record<string, unknown> | undefined,
+      createdAt: timestamps?.createdAt ?? now,
+      updatedAt: timestamps?.updatedAt ?? now,
+    };
+    await this.storage.addDocument(storedDoc);
+    await this.indexMetadata(doc.id, storedDoc.metadata);
+
+    // Store vector (quantized if enabled, then compressed if enabled)
+    let storageVector: Float32Array | Uint8Array = this.quantizeForStorage(vector);
+    storageVector = this.compressForStorage(storageVector);
+    await this.storage.addVector({
+      id: doc.id,
+      collectionId: this.collectionId,
+      vector: storageVector,
+    });
+    await this.writeOriginalVector(doc.id, vector);
+
+    // Add to HNSW index with original Float32Array
+    await this.index!.add(doc.id, vector);
+    await this.writeSubVectors(doc.id, vectors);
+    await this.removeNamedVectors(doc.id, new Set(named.map(([name]) => name)));
+    await this.writeNamedVectors(doc.id, named);
+    await this.writeSparseVector(doc.id, doc.sparseVector);
+    await this.writeKeywordEntry(doc.id, storedDoc.metadata);
+    this.changeLog().record(doc.id, existing?.collectionId === this.collectionId ? 'update' : 'add');
+  }
+
+  /**
+   * Apply updates to a stored document without locking, saving the index or
+   * notifying other tabs.
+   */
+  private async patchDocument(id: string, updates: Partial<Omit<Document<TMetadata>, 'id'>>): Promise<void> {
+    const existingDoc = await this.storage.getDocument(id);
+    if (!existingDoc || existingDoc.collectionId !== this.collectionId) {
+      throw new Error(`Document not found: ${id}`);
+    }
+
+    await this.preserveForSnapshot(id);
+    const now = Date.now();
+
+    // Update metadata
+    if (updates.metadata !== undefined) {
+      await this.storage.addDocument({
+        ...existingDoc,
+        metadata: updates.metadata as Record<string, unknown> | undefined,
+        updatedAt: now,
+      });
+      await this.indexMetadata(id, updates.metadata as Record<string, unknown> | undefined);
+      await this.writeKeywordEntry(id, updates.metadata as Record<string, unknown> | undefined);
+    }
+
+    // Replace owned vectors (the main vector is re-pooled unless given)
+    // and merge named vectors into the existing spaces
+    let vector = updates.vector;
+    if (updates.vectors !== undefined || updates.namedVectors !== undefined) {
+      const resolved = this.resolveVectors({
+        id,
+        vector,
+        vectors: updates.vectors,
+        namedVectors: updates.namedVectors,
+      });
+      vector = resolved.vector;
+      if (updates.vectors !== undefined) {
+        await this.writeSubVectors(id, resolved.vectors);
+      }
+      if (resolved.named) {
+        await this.writeNamedVectors(id, resolved.named);
+      }
+    }
+
+    if (updates.sparseVector !== undefined) {
+      validateSparseVector(updates.sparseVector, `Sparse vector of document "${id}"`);
+      await this.writeSparseVector(id, updates.sparseVector);
+    }
+
+    // Update vector
+    if (vector !== undefined) {
+      if (vector.length !== this.dimensions) {
+        throw new Error(
+          `Vector dimension mismatch: expected ${this.dimensions}, got ${vector.length}`
+        );
+      }
+
+      // Store quantized and/or compressed if enabled
+      let storageVector: Float32Array | Uint8Array = this.quantizeForStorage(vector);
+      storageVector = this.compressForStorage(storageVector);
+      await this.storage.addVector({
+        id,
+        collectionId: this.collectionId,
+        vector: storageVector,
+      });
+      await this.writeOriginalVector(id, vector);
+
+      // Update HNSW index with original Float32Array
+      await this.index!.add(id, vector);
+    }
+    this.changeLog().record(id, 'update');
+  }
+
+  /**
+   * Delete a document, its vectors and index entries without locking, saving
+   * the index or notifying other tabs.
+   */
+  private async removeDocument(id: string): Promise<void> {
+    const existing = await this.storage.getDocument(id);
+    await this.preserveForSnapshot(id);
+    await this.storage.deleteDocument(id);
+    await this.storage.deleteVector(id);
+    await this.unindexMetadata(id);
+    await this.removeSubVectors(id);
+    await this.removeNamedVectors(id);
+    await this.removeSparseVector(id);
+    await this.removeKeywordEntry(id);
+    await this.removeOriginalVector(id);
+    await this.index!.delete(id);
+    if (existing?.collectionId === this.collectionId) {
+      this.changeLog().record(id, 'delete');
+    }
+  }
+
+  /**
+   * Capture a document as stored, so a transaction can restore it.
+   */
+  private async snapshotDocument(id: string): Promise<DocumentSnapshot<TMetadata>> {
+    const document = await this.get(id);
+    const stored = document ? await this.storage.getDocument(id) : null;
+    const vector = document ? await this.storage.getVector(id) : null;
+    if (!document || !stored || !vector) {
+      return { id, document: null };
+    }
+    return { id, document, stored, vector };
+  }
+
+  /**
+   * Put a document back the way it was captured by `snapshotDocument()`.
+   */
+  private async restoreDocument(snapshot: DocumentSnapshot<TMetadata>): Promise<void> {
+    await this.removeDocument(snapshot.id);
+    if (!snapshot.document) return;
+
+    await this.putDocument(snapshot.document);
+    // Keep the original timestamps and the vector as it was encoded
+    await this.storage.addDocument(snapshot.stored);
+    await this.storage.addVector({ id: snapshot.id, collectionId: this.collectionId, vector: snapshot.vector });
+  }
+
+  /**
+   * Before the first write to a document since the newest snapshot, store its
+   * current state as that snapshot's version of it (copy-on-write).
+   */
+  private async preserveForSnapshot(id: string): Promise<void> {
+    if (this.latestSnapshot === 0 || this.preserved.has(id)) return;
+
+    const versionId = snapshotVersionId(id, this.latestSnapshot);
+    if (!(await this.storage.getDocument(versionId))) {
+      const document = await this.get(id);
+      const stored = document ? await this.storage.getDocument(id) : null;
+      const version: SnapshotVersion = {
+        docId: id,
+        sequence: this.latestSnapshot,
+        document: document && stored ? serializeSnapshotDocument(document, stored) : null,
+      };
+      const now = Date.now();
+      await this.storage.addDocument({
+        id: versionId,
+        collectionId: snapshotCollectionId(this.collectionId),
+        metadata: version as unknown as Record<string, unknown>,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+    this.preserved.add(id);
+  }
+
+  /**
+   * Find a snapshot of this collection by label.
+   *
+   * @throws {ValidationError} If there is no such snapshot.
+   */
+  private async findSnapshot(label: string): Promise<{ collection: Collection; snapshot: SnapshotInfo }> {
+    const collection = (await this.storage.getCollection(this.collectionId))!;
+    const snapshot = collection.snapshots?.find((s) => s.label === label);
+    if (!snapshot) {
+      const labels = (collection.snapshots ?? []).map((s) => s.label);
+      throw new ValidationError(
+        `Snapshot "${label}" not found`,
+        labels.length > 0 ? `Known snapshots: ${labels.join(', ')}.` : 'Take one with db.snapshot(label) first.'
+      );
+    }
+    return { collection, snapshot };
+  }
+
+  /**
+   * State at a snapshot of every document changed since it was taken.
+   */
+  private async changedSince(snapshot: SnapshotInfo): Promise<Map<string, SnapshotDocument | null>> {
+    return versionsAt(await this.storage.getAllDocuments(snapshotCollectionId(this.collectionId)), snapshot.sequence);
+  }
+
+  /**
+   * Load the documents written since a snapshot, as they were at the
+   * snapshot, into a memory-backed database. The work is proportional to the
+   * number of changed documents, not to the size of the collection.
+   */
+  private async openSnapshotOverlay(label: string): Promise<SnapshotOverlay<TMetadata>> {
+    const { snapshot } = await this.findSnapshot(label);
+    const changed = await this.changedSince(snapshot);
+
+    const db = new VectorDBImpl<TMetadata>({ ...this.config, storage: 'memory' }, this.collectionName);
+    await db.initialize();
+    for (const doc of changed.values()) {
+      if (!doc) continue;
+      await db.putDocument(deserializeSnapshotDocument(doc) as Document<TMetadata>, doc);
+    }
+    return { changed: new Set(changed.keys()), db };
+  }
+
+  // ============================================
+  // Public API
+  // ============================================
+
+  async add(doc: DocumentInput<TMetadata>): Promise<void> {
+    this.ensureInitialized();
+
+    const operation = async (): Promise<void> => {
+      await this.putDocument(doc);
+
+      // Save index periodically (could optimize with batching)
+      await this.saveIndex();
+      await this.changeLog().flush();
+
+      // Notify other tabs
+      this.broadcaster?.notifyDocumentAdded(this.collectionId, doc.id);
+    };
+
+    // Use write lock if available
+    if (this.lockManager) {
+      await this.lockManager.withWriteLock(this.collectionId, operation);
+    } else {
+      await operation();
+    }
+  }
+
+  async addMany(docs: DocumentInput<TMetadata>[], options?: AddManyOptions): Promise<void> {
+    this.ensureInitialized();
+
+    const operation = async (): Promise<void> => {
+      const batchSize = options?.batchSize ?? 100;
+      const total = docs.length;
+      let completed = 0;
+
+      // Calibrate/train from the first batch if quantization is enabled and not yet calibrated
+      if (this.needsCalibration() && docs.length > 0) {
+        const vectors = this.mainVectorsOf(docs);
+        if (vectors.length > 0) {
+          this.calibrateFromVectors(vectors);
+          await this.saveCalibration();
+        }
+      }
+
+      // Calibrate storage compression from the first batch if enabled and not yet calibrated
+      if (this.compressionConfig && !this.compressionCalibration && docs.length > 0) {
+        const vectors = this.mainVectorsOf(docs);
+        if (vectors.length > 0) {
+          this.calibrateCompressionFromVectors(vectors);
+          await this.saveCompressionCalibration();
+        }
+      }
+
+      for (let i = 0; i < docs.length; i += batchSize) {
+        const batch = docs.slice(i, i + batchSize);
+
+        for (const doc of batch) {
+          await this.putDocument(doc);
+        }
+
+        completed += batch.length;
+        options?.onProgress?.(completed, total);
+      }
+
+      // Save index after all additions
+      await this.saveIndex();
+      await this.changeLog().flush();
+
+      // Notify other tabs
+      this.broadcaster?.notifyDocumentsAdded(this.collectionId, docs.map((doc) => doc.id));
+    };
+
+    if (this.lockManager) {
+      await this.lockManager.withWriteLock(this.collectionId, operation);
+    } else {
+      await operation();
+    }
+  }
+
+  async search(vector: Float32Array, options?: SearchOptions<TMetadata>): Promise<SearchResult<TMetadata>[]> {
+    this.ensureInitialized();
+
+    const space = this.getSearchSpace(options?.using);
+    if (vector.length !== space.dimensions) {
+      throw new Error(
+        `Query vector dimension mismatch: expected ${space.dimensions}, got ${vector.length}`
+      );
+    }
+
+    const k = options?.k ?? 10;
+    const threshold = options?.threshold;
+    const filter = options?.filter;
+    const includeVectors = options?.includeVectors ?? false;
+
+    // Binary search over-fetches candidates for the full-precision rescoring pass
+    const rescore = !space.name && this.rescoring;
+    const oversample =
+      this.quantizationConfig?.type === 'binary' ? (this.quantizationConfig.oversample ?? 4) : 1;
+    const fetch = rescore ? k * oversample : k;
+
+    // The index applies the filter during traversal, so it returns exactly k
+    // matches when they exist
+    let rawResults =
+      filter && Object.keys(filter).length > 0
+        ? await this.searchFiltered(space.index, vector, fetch, filter)
+        : await space.index.search(vector, fetch);
+    if (rescore) {
+      rawResults = await this.rescoreResults(vector, rawResults, k);
+    }
+
+    const results: SearchResult<TMetadata>[] = [];
+
+    for (const result of rawResults) {
+      // Apply threshold
+      if (threshold !== undefined && result.score < threshold) {
+        continue;
+      }
+
+      // Get document metadata
+      const doc = await this.storage.getDocument(result.id);
+      if (!doc) continue;
+
+      const searchResult: SearchResult<TMetadata> = {
+        id: result.id,
+        score: result.score,
+        metadata: doc.metadata as TMetadata | undefined,
+      };
+
+      if (includeVectors) {
+        if (space.name) {
+          // Named spaces are stored uncompressed
+          const stored = await this.storage.getVector(namedVectorId(result.id, space.name));
+          if (stored) {
+            searchResult.vector = stored instanceof Float32Array ? stored : new Float32Array(stored);
+          }
+        } else {
+          // Return decompressed/dequantized vector
+          const stored = await this.loadVector(result.id);
+          if (stored) {
+            searchResult.vector = stored;
+          }
+        }
+      }
+
+      results.push(searchResult);
+    }
+
+    return results;
+  }
+
+  async searchFused(
+    queries: Record<string, Float32Array>,
+    options?: FusedSearchOptions<TMetadata>
+  ): Promise<FusedSearchResult<TMetadata>[]> {
+    this.ensureInitialized();
+    return this.fuseRankings(queries, options, (vector, searchOptions) => this.search(vector, searchOptions));
+  }
+
+  /**
+   * Rank each space separately with `search`, then fuse the rankings.
+   */
+  private async fuseRankings(
+    queries: Record<string, Float32Array>,
+    options: FusedSearchOptions<TMetadata> | undefined,
+    search: (vector: Float32Array, options: SearchOptions<TMetadata>) => Promise<SearchResult<TMetadata>[]>
+  ): Promise<FusedSearchResult<TMetadata>[]> {
+    const names = Object.keys(queries);
+    if (names.length === 0) {
+      throw new ValidationError(
+        'searchFused() needs at least one query vector',
+        'Pass query vectors keyed by space name, e.g. { text: textQuery, image: imageQuery }.'
+      );
+    }
+
+    const k = options?.k ?? 10;
+    const candidates = options?.candidates ?? k * 2;
+
+    const rankings: SearchResult<TMetadata>[][] = [];
+    for (const name of names) {
+      rankings.push(
+        await search(queries[name], {
+          k: candidates,
+          filter: options?.filter,
+          threshold: options?.threshold,
+          using: name,
+        })
+      );
+    }
+
+    const spaceScores = rankings.map((ranking) => new Map(ranking.map((r) => [r.id, r.score])));
+
+    return reciprocalRankFusion(rankings, options?.rrfK)
+      .slice(0, k)
+      .map((result) => {
+        const scores: Record<string, number> = {};
+        names.forEach((name, i) => {
+          const score = spaceScores[i].get(result.id);
+          if (score !== undefined) scores[name] = score;
+        });
+        return { id: result.id, score: result.score, metadata: result.metadata, scores };
+      });
+  }
+
+  async searchSparse(
+    query: SparseVector,
+    options?: SparseSearchOptions<TMetadata>
+  ): Promise<SearchResult<TMetadata>[]> {
+    this.ensureInitialized();
+    validateSparseVector(query, 'Sparse query vector');
+
+    const k = options?.k ?? 10;
+    const threshold = options?.threshold;
+    const filter = options?.filter;
+
+    let matching: Set<string> | null = null;
+    if (filter && Object.keys(filter).length > 0) {
+      matching = await this.findMatchingIds(filter);
+      if (matching.size === 0) {
+        return [];
+      }
+    }
+
+    const rawResults = this.sparseIndex.search(query, k, matching ? { filter: matching } : undefined);
+
+    const results: SearchResult<TMetadata>[] = [];
+    for (const result of rawResults) {
+      if (threshold !== undefined && result.score < threshold) continue;
+
+      const doc = await this.storage.getDocument(result.id);
+      if (!doc) continue;
+
+      results.push({
+        id: result.id,
+        score: result.score,
+        metadata: doc.metadata as TMetadata | undefined,
+      });
+    }
+
+    return results;
+  }
+
+  async searchKeyword(
+    query: string,
+    options?: KeywordSearchOptions<TMetadata>
+  ): Promise<SearchResult<TMetadata>[]> {
+    this.ensureInitialized();
+    return this.keywordSearch(query, options);
+  }
+
+  /**
+   * Search the keyword index. With an overlay, the changed documents are
+   * scored as they were at its snapshot, in the corpus statistics too.
+   */
+  private async keywordSearch(
+    query: string,
+    options: KeywordSearchOptions<TMetadata> | undefined,
+    overlay?: SnapshotOverlay<TMetadata>
+  ): Promise<SearchResult<TMetadata>[]> {
+    if (!this.keywordIndex) {
+      throw new ValidationError(
+        'The keyword index is disabled for this database',
+        'Remove `keywordIndex: false` from the createVectorDB() config to enable searchKeyword().'
+      );
+    }
+
+    const k = options?.k ?? 10;
+    const threshold = options?.threshold;
+    const filter = options?.filter;
+
+    let matching: Set<string> | null = null;
+    if (filter && Object.keys(filter).length > 0) {
+      matching = await this.findMatchingIds(filter);
+      if (overlay) {
+        matching = new Set([...matching].filter((id) => !overlay.changed.has(id)));
+        for (const id of await overlay.db.findMatchingIds(filter)) matching.add(id);
+      }
+      if (matching.size === 0) {
+        return [];
+      }
+    }
+
+    const rawResults = this.keywordIndex.search(query, k, {
+      filter: matching ?? undefined,
+      overlay: overlay && { exclude: overlay.changed, index: overlay.db.keywordIndex! },
+    });
+
+    const results: SearchResult<TMetadata>[] = [];
+    for (const result of rawResults) {
+      if (threshold !== undefined && result.score < threshold) continue;
+
+      const storage = overlay?.changed.has(result.id) ? overlay.db.storage : this.storage;
+      const doc = await storage.getDocument(result.id);
+      if (!doc) continue;
+
+      results.push({
+        id: result.id,
+        score: result.score,
+        metadata: doc.metadata as TMetadata | undefined,
+      });
+    }
+
+    return results;
+  }
+
+  async searchMultiVector(
+    query: Float32Array | Float32Array[],
+    options?: MultiVectorSearchOptions<TMetadata>
+  ): Promise<MultiVectorSearchResult<TMetadata>[]> {
+    this.ensureInitialized();
+
+    const queries = Array.isArray(query) ? query : [query];
+    const mode = options?.mode ?? (queries.length > 1 ? 'maxsim' : 'max');
+    const k = options?.k ?? 10;
+    const candidates = options?.candidates ?? k * 4;
+    const threshold = options?.threshold;
+    const filter = options?.filter;
+
+    if (mode !== 'max' && mode !== 'mean' && mode !== 'maxsim') {
+      throw new InvalidOptionsError('mode', mode, "'max', 'mean' or 'maxsim'");
+    }
+    if (queries.length === 0) {
+      throw new ValidationError(
+        'searchMultiVector() needs at least one query vector',
+        'Pass a Float32Array or a non-empty array of Float32Array.'
+      );
+    }
+    if (mode !== 'maxsim' && queries.length > 1) {
+      throw new ValidationError(
+        `Mode '${mode}' scores a single query vector, got ${queries.length}`,
+        "Use mode: 'maxsim' to score several query vectors."
+      );
+    }
+    for (const q of queries) {
+      if (q.length !== this.dimensions) {
+        throw new Error(
+          `Query vector dimension mismatch: expected ${this.dimensions}, got ${q.length}`
+        );
+      }
+    }
+
+    let matching: Set<string> | null = null;
+    if (filter && Object.keys(filter).length > 0) {
+      matching = await this.findMatchingIds(filter);
+      if (matching.size === 0) {
+        return [];
+      }
+    }
+    const accept = matching ? (id: string) => matching.has(parentIdOf(id)) : undefined;
+
+    // Collect candidate documents from each query vector's nearest document vectors
+    const parentIds = new Set<string>();
+    for (const q of queries) {
+      const groups = await this.multiIndex!.searchGroups(q, candidates, {
+        groupOf: parentIdOf,
+        filter: accept,
+      });
+      for (const group of groups) {
+        parentIds.add(group.group);
+      }
+    }
+
+    // Rescore candidates exactly against all of their vectors
+    const similarity = (a: Float32Array, b: Float32Array) => this.multiIndex!.similarity(a, b);
+    const scored: Array<{ id: string; score: number; matchedVector?: number }> = [];
+    for (const id of parentIds) {
+      const docVectors = this.getSubVectors(id);
+      if (docVectors.length === 0) continue;
+      scored.push({ id, ...scoreMultiVector(queries, docVectors, mode, similarity) });
+    }
+    scored.sort((a, b) => b.score - a.score);
 
-    // For delta-sq8, we compute delta calibration from the batch
-    if (this.compressionConfig.type === 'delta-sq8' && sampled.length > 1) {
-      const dimensions = sampled[0].length;
-      const deltas: Float32Array[] = [];
-      for (let i = 1; i < sampled.length; i++) {
-        const delta = new Float32Array(dimensions);
-        for (let d = 0; d < dimensions; d++) {
-          delta[d] = sampled[i][d] - sampled[i - 1][d];
-        }
-        deltas.push(delta);
+    const results: MultiVectorSearchResult<TMetadata>[] = [];
+    for (const candidate of scored) {
+      if (results.length >= k) break;
+      if (threshold !== undefined && candidate.score < threshold) continue;
+
+      const doc = await this.storage.getDocument(candidate.id);
+      if (!doc) continue;
+
+      const result: MultiVectorSearchResult<TMetadata> = {
+        id: candidate.id,
+        score: candidate.score,
+        metadata: doc.metadata as TMetadata | undefined,
+      };
+      if (candidate.matchedVector !== undefined) {
+        result.matchedVector = candidate.matchedVector;
       }
-      this.deltaCalibration = calibrate(deltas);
+      results.push(result);
     }
-  }
 
-  // ============================================
-  // Public API
-  // ============================================
+    return results;
+  }
 
-  async add(doc: Document<TMetadata>): Promise<void> {
+  async get(id: string): Promise<(Document<TMetadata> & { metadata?: TMetadata }) | null> {
     this.ensureInitialized();
 
-    if (!doc.id) {
-      throw new Error('Document must have an id');
+    const doc = await this.storage.getDocument(id);
+    if (!doc || doc.collectionId !== this.collectionId) {
+      return null;
     }
 
-    if (!doc.vector || !(doc.vector instanceof Float32Array)) {
-      throw new Error('Document must have a Float32Array vector');
+    // Decompress / dequantize as needed
+    const vector = await this.loadVector(id);
+    if (!vector) {
+      return null;
     }
 
-    if (doc.vector.length !== this.dimensions) {
-      throw new Error(
-        `Vector dimension mismatch: expected ${this.dimensions}, got ${doc.vector.length}`
-      );
-    }
+    const result: Document<TMetadata> = {
+      id: doc.id,
+      vector,
+      metadata: doc.metadata as TMetadata | undefined,
+    };
 
-    // Validate metadata against schema if provided
-    if (this.schema && doc.metadata !== undefined) {
-      try {
-        this.schema.parse(doc.metadata);
-      } catch (err) {
-        throw new Error(
-          `Metadata validation failed for document "${doc.id}": ${err instanceof Error ? err.message : String(err)}`
-        );
+    const count = this.vectorCounts.get(id);
+    if (count) {
+      const vectors: Float32Array[] = [];
+      for (let i = 0; i < count; i++) {
+        const storedSub = await this.storage.getVector(subVectorId(id, i));
+        if (storedSub) vectors.push(this.decompressFromStorage(storedSub));
       }
+      result.vectors = vectors;
     }
 
-    const operation = async (): Promise<void> => {
-      const now = Date.now();
-
-      // Calibrate/train on first add if quantization is enabled and not yet calibrated
-      if (this.quantizationConfig && !this.calibration && !this.pqCodebook) {
-        this.calibrateFromVectors([doc.vector]);
-        await this.saveCalibration();
-      }
-
-      // Calibrate storage compression on first add if enabled and not yet calibrated
-      if (this.compressionConfig && !this.compressionCalibration) {
-        this.calibrateCompressionFromVectors([doc.vector]);
-        await this.saveCompressionCalibration();
+    if (this.primarySpace) {
+      const namedVectors: Record<string, Float32Array> = { [this.primarySpace]: vector };
+      for (const [name, space] of this.spaces) {
+        if (!space.index.has(id)) continue;
+        const storedNamed = await this.storage.getVector(namedVectorId(id, name));
+        if (storedNamed) {
+          namedVectors[name] =
+            storedNamed instanceof Float32Array ? storedNamed : new Float32Array(storedNamed);
+        }
       }
+      result.namedVectors = namedVectors;
+    }
 
-      // Store document metadata (cast to storage layer's untyped format)
-      const storedDoc: StoredDocument = {
-        id: doc.id,
-        collectionId: this.collectionId,
-        metadata: doc.metadata as Record<string, unknown> | undefined,
-        createdAt: now,
-        updatedAt: now,
-      };
-      await this.storage.addDocument(storedDoc);
+    const sparseVector = this.sparseIndex.get(id);
+    if (sparseVector) {
+      result.sparseVector = sparseVector;
+    }
 
-      // Store vector (quantized if enabled, then compressed if enabled)
-      let storageVector: Float32Array | Uint8Array = this.quantizeForStorage(doc.vector);
-      storageVector = this.compressForStorage(storageVector);
-      await this.storage.addVector({
-        id: doc.id,
-        collectionId: this.collectionId,
-        vector: storageVector,
-      });
+    return result;
+  }
 
-      // Add to HNSW index with original Float32Array
-      this.index!.add(doc.id, doc.vector);
+  async update(id: string, updates: Partial<Omit<Document<TMetadata>, 'id'>>): Promise<void> {
+    this.ensureInitialized();
 
-      // Save index periodically (could optimize with batching)
+    const operation = async (): Promise<void> => {
+      await this.patchDocument(id, updates);
       await this.saveIndex();
+      await this.changeLog().flush();
 
       // Notify other tabs
-      this.broadcaster?.notifyDocumentAdded(this.collectionId, doc.id);
+      this.broadcaster?.notifyDocumentUpdated(this.collectionId, id);
     };
 
-    // Use write lock if available
     if (this.lockManager) {
       await this.lockManager.withWriteLock(this.collectionId, operation);
     } else {
@@ -516,215 +2264,251 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
     }
   }
 
-  async addMany(docs: Document<TMetadata>[], options?: AddManyOptions): Promise<void> {
+  async delete(id: string): Promise<void> {
     this.ensureInitialized();
 
-    const batchSize = options?.batchSize ?? 100;
-    const total = docs.length;
-    let completed = 0;
+    const operation = async (): Promise<void> => {
+      await this.removeDocument(id);
+      await this.saveIndex();
+      await this.changeLog().flush();
 
-    // Calibrate/train from the first batch if quantization is enabled and not yet calibrated
-    if (this.quantizationConfig && !this.calibration && !this.pqCodebook && docs.length > 0) {
-      const vectors = docs.map((d) => d.vector);
-      this.calibrateFromVectors(vectors);
-      await this.saveCalibration();
-    }
+      // Notify other tabs
+      this.broadcaster?.notifyDocumentDeleted(this.collectionId, id);
+    };
 
-    // Calibrate storage compression from the first batch if enabled and not yet calibrated
-    if (this.compressionConfig && !this.compressionCalibration && docs.length > 0) {
-      const vectors = docs.map((d) => d.vector);
-      this.calibrateCompressionFromVectors(vectors);
-      await this.saveCompressionCalibration();
+    if (this.lockManager) {
+      await this.lockManager.withWriteLock(this.collectionId, operation);
+    } else {
+      await operation();
     }
+  }
 
-    for (let i = 0; i < docs.length; i += batchSize) {
-      const batch = docs.slice(i, i + batchSize);
-
-      for (const doc of batch) {
-        if (!doc.id) {
-          throw new Error('All documents must have an id');
-        }
-
-        if (!doc.vector || !(doc.vector instanceof Float32Array)) {
-          throw new Error('All documents must have a Float32Array vector');
-        }
-
-        if (doc.vector.length !== this.dimensions) {
-          throw new Error(
-            `Vector dimension mismatch: expected ${this.dimensions}, got ${doc.vector.length}`
-          );
-        }
-
-        // Validate metadata against schema if provided
-        if (this.schema && doc.metadata !== undefined) {
-          try {
-            this.schema.parse(doc.metadata);
-          } catch (err) {
-            throw new Error(
-              `Metadata validation failed for document "${doc.id}": ${err instanceof Error ? err.message : String(err)}`
-            );
-          }
-        }
-
-        const now = Date.now();
+  async deleteMany(ids: string[]): Promise<void> {
+    this.ensureInitialized();
 
-        // Store document metadata (cast to storage layer's untyped format)
-        await this.storage.addDocument({
-          id: doc.id,
-          collectionId: this.collectionId,
-          metadata: doc.metadata as Record<string, unknown> | undefined,
-          createdAt: now,
-          updatedAt: now,
-        });
+    const operation = async (): Promise<void> => {
+      for (const id of ids) {
+        await this.removeDocument(id);
+      }
 
-        // Store vector (quantized if enabled, then compressed if enabled)
-        let storageVector: Float32Array | Uint8Array = this.quantizeForStorage(doc.vector);
-        storageVector = this.compressForStorage(storageVector);
-        await this.storage.addVector({
-          id: doc.id,
-          collectionId: this.collectionId,
-          vector: storageVector,
-        });
+      await this.saveIndex();
+      await this.changeLog().flush();
 
-        // Add to HNSW index with original Float32Array
-        this.index!.add(doc.id, doc.vector);
-      }
+      // Notify other tabs
+      this.broadcaster?.notifyDocumentsDeleted(this.collectionId, ids);
+    };
 
-      completed += batch.length;
-      options?.onProgress?.(completed, total);
+    if (this.lockManager) {
+      await this.lockManager.withWriteLock(this.collectionId, operation);
+    } else {
+      await operation();
     }
-
-    // Save index after all additions
-    await this.saveIndex();
   }
 
-  async search(vector: Float32Array, options?: SearchOptions<TMetadata>): Promise<SearchResult<TMetadata>[]> {
+  async deleteWhere(filter: TypedFilterQuery<TMetadata>): Promise<number> {
     this.ensureInitialized();
 
-    if (vector.length !== this.dimensions) {
-      throw new Error(
-        `Query vector dimension mismatch: expected ${this.dimensions}, got ${vector.length}`
-      );
-    }
-
-    const k = options?.k ?? 10;
-    const threshold = options?.threshold;
-    const filter = options?.filter;
-    const includeVectors = options?.includeVectors ?? false;
+    const operation = async (): Promise<number> => {
+      const ids = await this.findMatchingIds(filter);
 
-    // If we have a filter, we need to search more candidates and filter
-    const searchK = filter ? k * 10 : k;
-    const rawResults = await this.index!.search(vector, searchK);
+      for (const id of ids) {
+        await this.removeDocument(id);
+      }
 
-    const results: SearchResult<TMetadata>[] = [];
+      if (ids.size > 0) {
+        await this.saveIndex();
+        await this.changeLog().flush();
 
-    for (const result of rawResults) {
-      // Apply threshold
-      if (threshold !== undefined && result.score < threshold) {
-        continue;
+        // Notify other tabs
+        this.broadcaster?.notifyDocumentsDeleted(this.collectionId, [...ids]);
       }
 
-      // Get document metadata
-      const doc = await this.storage.getDocument(result.id);
-      if (!doc) continue;
+      return ids.size;
+    };
 
-      // Apply filter
-      if (filter && !matchesFilter(doc.metadata, filter)) {
-        continue;
-      }
+    if (this.lockManager) {
+      return this.lockManager.withWriteLock(this.collectionId, operation);
+    }
+    return operation();
+  }
 
-      const searchResult: SearchResult<TMetadata> = {
-        id: result.id,
-        score: result.score,
-        metadata: doc.metadata as TMetadata | undefined,
+  async transaction<T>(
+    callback: (tx: VectorDBTransaction<TMetadata>) => Promise<T>,
+    options?: TransactionOptions
+  ): Promise<T> {
+    this.ensureInitialized();
+
+    return this.runTransaction(
+      (write) =>
+        callback({
+          add: async (doc) => {
+            if (!doc.id) {
+              throw new Error('Document must have an id');
+            }
+            await write(doc.id, () => this.putDocument(doc));
+          },
+          update: (id, updates) => write(id, () => this.patchDocument(id, updates)),
+          delete: (id) => write(id, () => this.removeDocument(id)),
+          get: (id) => this.get(id),
+        }),
+      options
+    );
+  }
+
+  /**
+   * Run writes under the write lock as one transaction. Each write goes
+   * through `write(id, apply)`, which captures the document before its first
+   * write so that a failure puts every written document back.
+   */
+  private async runTransaction<T>(
+    callback: (write: (id: string, apply: () => Promise<void>) => Promise<void>) => Promise<T>,
+    options?: TransactionOptions
+  ): Promise<T> {
+    const operation = async (): Promise<T> => {
+      // Documents as they were before their first write, in write order
+      const snapshots = new Map<string, DocumentSnapshot<TMetadata>>();
+      let finished = false;
+      let failure: unknown;
+
+      const write = async (id: string, apply: () => Promise<void>): Promise<void> => {
+        if (finished) {
+          throw new Error('Transaction has already finished');
+        }
+        if (!snapshots.has(id)) {
+          snapshots.set(id, await this.snapshotDocument(id));
+        }
+        try {
+          await apply();
+        } catch (error) {
+          // A partly applied write cannot be committed, even if the callback catches the error
+          failure ??= error;
+          throw error;
+        }
       };
 
-      if (includeVectors) {
-        // Return decompressed/dequantized vector
-        const stored = await this.storage.getVector(result.id);
-        if (stored) {
-          searchResult.vector = this.decompressFromStorage(stored);
+      let result: T;
+      try {
+        result = await callback(write);
+        if (failure !== undefined) throw failure;
+      } catch (error) {
+        finished = true;
+        for (const snapshot of [...snapshots.values()].reverse()) {
+          await this.restoreDocument(snapshot);
         }
+        await this.saveIndex();
+        // Nothing changed
+        this.changeLog().discard();
+        throw error;
       }
+      finished = true;
 
-      results.push(searchResult);
+      await this.saveIndex();
+      await this.changeLog().flush(options?.origin);
 
-      // Stop if we have enough results
-      if (results.length >= k) {
-        break;
+      // Notify other tabs once for the whole transaction
+      if (snapshots.size > 0) {
+        this.broadcaster?.notifyTransactionCommitted(this.collectionId, [...snapshots.keys()]);
       }
-    }
+      return result;
+    };
 
-    return results;
+    if (this.lockManager) {
+      return this.lockManager.withWriteLock(this.collectionId, operation);
+    }
+    return operation();
   }
 
-  async get(id: string): Promise<(Document<TMetadata> & { metadata?: TMetadata }) | null> {
+  async snapshot(label: string): Promise<SnapshotInfo> {
     this.ensureInitialized();
 
-    const doc = await this.storage.getDocument(id);
-    if (!doc || doc.collectionId !== this.collectionId) {
-      return null;
-    }
-
-    const stored = await this.storage.getVector(id);
-    if (!stored) {
-      return null;
-    }
+    const operation = async (): Promise<SnapshotInfo> => {
+      const collection = (await this.storage.getCollection(this.collectionId))!;
+      const snapshots = collection.snapshots ?? [];
+      if (snapshots.some((s) => s.label === label)) {
+        throw new ValidationError(
+          `Snapshot "${label}" already exists`,
+          'Use a different label, or delete the existing snapshot with db.deleteSnapshot() first.'
+        );
+      }
 
-    // Decompress / dequantize as needed
-    const vector = this.decompressFromStorage(stored);
+      // Nothing is copied now; documents are preserved when they are next written
+      const snapshot: SnapshotInfo = {
+        label,
+        sequence: Math.max(0, ...snapshots.map((s) => s.sequence)) + 1,
+        createdAt: Date.now(),
+        documentCount: await this.storage.countDocuments(this.collectionId),
+      };
+      collection.snapshots = [...snapshots, snapshot];
+      await this.storage.updateCollection(collection);
 
-    return {
-      id: doc.id,
-      vector,
-      metadata: doc.metadata as TMetadata | undefined,
+      this.latestSnapshot = snapshot.sequence;
+      this.preserved.clear();
+      return snapshot;
     };
+
+    if (this.lockManager) {
+      return this.lockManager.withWriteLock(this.collectionId, operation);
+    }
+    return operation();
   }
 
-  async update(id: string, updates: Partial<Omit<Document<TMetadata>, 'id'>>): Promise<void> {
+  async listSnapshots(): Promise<SnapshotInfo[]> {
     this.ensureInitialized();
 
-    const operation = async (): Promise<void> => {
-      const existingDoc = await this.storage.getDocument(id);
-      if (!existingDoc || existingDoc.collectionId !== this.collectionId) {
-        throw new Error(`Document not found: ${id}`);
-      }
+    const collection = await this.storage.getCollection(this.collectionId);
+    return collection?.snapshots ?? [];
+  }
 
-      const now = Date.now();
+  async restoreSnapshot(label: string): Promise<void> {
+    this.ensureInitialized();
 
-      // Update metadata
-      if (updates.metadata !== undefined) {
-        await this.storage.addDocument({
-          ...existingDoc,
-          metadata: updates.metadata as Record<string, unknown> | undefined,
-          updatedAt: now,
+    // Only documents written since the snapshot differ from it. They are read
+    // under the write lock, so no write can land between reading and reverting.
+    await this.runTransaction(async (write) => {
+      const { snapshot } = await this.findSnapshot(label);
+      for (const [id, doc] of await this.changedSince(snapshot)) {
+        await write(id, async () => {
+          await this.removeDocument(id);
+          if (!doc) return;
+          // Keep the timestamps the document had
+          await this.putDocument(deserializeSnapshotDocument(doc) as Document<TMetadata>, doc);
         });
       }
+    });
+  }
 
-      // Update vector
-      if (updates.vector !== undefined) {
-        if (updates.vector.length !== this.dimensions) {
-          throw new Error(
-            `Vector dimension mismatch: expected ${this.dimensions}, got ${updates.vector.length}`
-          );
+  async deleteSnapshot(label: string): Promise<void> {
+    this.ensureInitialized();
+
+    const operation = async (): Promise<void> => {
+      const { collection, snapshot } = await this.findSnapshot(label);
+      const remaining = (collection.snapshots ?? []).filter((s) => s !== snapshot);
+
+      // The next older snapshot reads this snapshot's versions of the documents
+      // that have none of their own, so those versions move to it
+      const older = remaining.filter((s) => s.sequence < snapshot.sequence).pop();
+      const versionsId = snapshotCollectionId(this.collectionId);
+      for (const record of await this.storage.getAllDocuments(versionsId)) {
+        const version = record.metadata as unknown as SnapshotVersion;
+        if (version.sequence !== snapshot.sequence) continue;
+
+        await this.storage.deleteDocument(record.id);
+        if (older && !(await this.storage.getDocument(snapshotVersionId(version.docId, older.sequence)))) {
+          await this.storage.addDocument({
+            ...record,
+            id: snapshotVersionId(version.docId, older.sequence),
+            metadata: { ...version, sequence: older.sequence } as unknown as Record<string, unknown>,
+          });
         }
+      }
 
-        // Store quantized and/or compressed if enabled
-        let storageVector: Float32Array | Uint8Array = this.quantizeForStorage(updates.vector);
-        storageVector = this.compressForStorage(storageVector);
-        await this.storage.addVector({
-          id,
-          collectionId: this.collectionId,
-          vector: storageVector,
-        });
+      collection.snapshots = remaining;
+      await this.storage.updateCollection(collection);
 
-        // Update HNSW index with original Float32Array
-        this.index!.add(id, updates.vector);
-        await this.saveIndex();
+      if (snapshot.sequence === this.latestSnapshot) {
+        this.latestSnapshot = Math.max(0, ...remaining.map((s) => s.sequence));
+        this.preserved.clear();
       }
-
-      // Notify other tabs
-      this.broadcaster?.notifyDocumentUpdated(this.collectionId, id);
     };
 
     if (this.lockManager) {
@@ -734,58 +2518,279 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
     }
   }
 
-  async delete(id: string): Promise<void> {
+  at(snapshot: string | SnapshotInfo): VectorDBSnapshotView<TMetadata> {
+    this.ensureInitialized();
+
+    const label = typeof snapshot === 'string' ? snapshot : snapshot.label;
+    // Reads go to the live collection, except for the documents written since
+    // the snapshot, which are read from an overlay of their stored versions.
+    // The overlay is rebuilt when the collection is written.
+    let current: { version: string; overlay: Promise<SnapshotOverlay<TMetadata>> } | null = null;
+    const open = async (): Promise<SnapshotOverlay<TMetadata>> => {
+      const version = await this.changeLog().version();
+      if (current?.version !== version) {
+        current = { version, overlay: this.openSnapshotOverlay(label) };
+      }
+      return current.overlay;
+    };
+
+    const search: VectorDBSnapshotView<TMetadata>['search'] = async (vector, options) => {
+      const { changed, db } = await open();
+      const k = options?.k ?? 10;
+      const live = await this.search(vector, { ...options, k: k + changed.size });
+      return mergeByScore(
+        live.filter((r) => !changed.has(r.id)),
+        await db.search(vector, options),
+        k
+      );
+    };
+
+    return {
+      search,
+      searchFused: async (queries, options) => this.fuseRankings(queries, options, search),
+      searchSparse: async (query, options) => {
+        const { changed, db } = await open();
+        const k = options?.k ?? 10;
+        const live = await this.searchSparse(query, { ...options, k: k + changed.size });
+        return mergeByScore(
+          live.filter((r) => !changed.has(r.id)),
+          await db.searchSparse(query, options),
+          k
+        );
+      },
+      searchKeyword: async (query, options) => this.keywordSearch(query, options, await open()),
+      searchMultiVector: async (query, options) => {
+        const { changed, db } = await open();
+        const k = options?.k ?? 10;
+        const live = await this.searchMultiVector(query, {
+          ...options,
+          k: k + changed.size,
+          candidates: (options?.candidates ?? k * 4) + changed.size,
+        });
+        return mergeByScore(
+          live.filter((r) => !changed.has(r.id)),
+          await db.searchMultiVector(query, options),
+          k
+        );
+      },
+      get: async (id) => {
+        const { changed, db } = await open();
+        return changed.has(id) ? db.get(id) : this.get(id);
+      },
+      count: async (options) => {
+        const { changed, db } = await open();
+        const filter = options?.filter;
+        const matching = filter && Object.keys(filter).length > 0 ? await this.findMatchingIds(filter) : null;
+
+        let count = matching ? matching.size : await this.storage.countDocuments(this.collectionId);
+        for (const id of changed) {
+          const live = matching
+            ? matching.has(id)
+            : (await this.storage.getDocument(id))?.collectionId === this.collectionId;
+          if (live) count--;
+        }
+        return count + (await db.count(options));
+      },
+      find: async (options) => {
+        const { changed, db } = await open();
+        const { limit, offset } = findPage(options);
+        const keys = toSortKeys(options?.sort);
+
+        // The first `wanted` documents of each side, merged in sort order
+        const wanted = offset + limit + 1;
+        const live = await this.find({ ...options, offset: 0, limit: wanted + changed.size });
+        const overlaid = await db.find({ ...options, offset: 0, limit: wanted });
+        const asStored = (doc: FindDocument<TMetadata>): StoredDocument => ({
+          ...doc,
+          collectionId: this.collectionId,
+        });
+        const docs = [...live.documents.filter((doc) => !changed.has(doc.id)), ...overlaid.documents]
+          .sort((a, b) => compareDocuments(asStored(a), asStored(b), keys))
+          .slice(0, wanted);
+
+        const page = docs.slice(offset, offset + limit);
+        const hasMore = offset + limit < docs.length;
+        return {
+          documents: page,
+          nextCursor: hasMore && page.length > 0 ? encodeCursor(asStored(page[page.length - 1]), keys) : null,
+        };
+      },
+      close: async () => {
+        const overlay = current?.overlay;
+        current = null;
+        if (overlay) await (await overlay).db.close();
+      },
+    };
+  }
+
+  async changes(options?: ChangesOptions): Promise<ChangesResult> {
+    this.ensureInitialized();
+
+    const since = options?.since ?? 0;
+    const limit = options?.limit ?? Infinity;
+    if (!Number.isInteger(since) || since < 0) {
+      throw new InvalidOptionsError('since', since, 'a non-negative integer');
+    }
+    if (limit !== Infinity && (!Number.isInteger(limit) || limit < 1)) {
+      throw new InvalidOptionsError('limit', limit, 'a positive integer');
+    }
+
+    return this.changeLog().read(since, limit);
+  }
+
+  async *watch(options?: WatchOptions): AsyncIterableIterator<DocumentChange> {
     this.ensureInitialized();
 
-    const operation = async (): Promise<void> => {
-      await this.storage.deleteDocument(id);
-      await this.storage.deleteVector(id);
-      this.index!.delete(id);
-      await this.saveIndex();
-
-      // Notify other tabs
-      this.broadcaster?.notifyDocumentDeleted(this.collectionId, id);
+    const abortSignal = options?.abortSignal;
+    let since = options?.since ?? (await this.changeLog().head());
+    // Set when changes may have been written since the log was last read
+    let stale = true;
+    let wake: (() => void) | null = null;
+    const notify = (): void => {
+      stale = true;
+      wake?.();
     };
 
-    if (this.lockManager) {
-      await this.lockManager.withWriteLock(this.collectionId, operation);
-    } else {
-      await operation();
+    const unsubscribe = this.changeLog().subscribe(notify);
+    // Changes written by other tabs
+    const unsubscribeBroadcast = this.broadcaster?.on('*', (message) => {
+      if (message.collectionId === this.collectionId) notify();
+    });
+    abortSignal?.addEventListener('abort', notify);
+
+    try {
+      while (!abortSignal?.aborted) {
+        if (!stale) {
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+          });
+          wake = null;
+          continue;
+        }
+
+        stale = false;
+        const { changes } = await this.changes({ since });
+        for (const change of changes) {
+          if (abortSignal?.aborted) return;
+          since = change.sequence;
+          yield change;
+        }
+      }
+    } finally {
+      unsubscribe();
+      unsubscribeBroadcast?.();
+      abortSignal?.removeEventListener('abort', notify);
     }
   }
 
-  async deleteMany(ids: string[]): Promise<void> {
+  async count(options?: CountOptions<TMetadata>): Promise<number> {
     this.ensureInitialized();
 
-    for (const id of ids) {
-      await this.storage.deleteDocument(id);
-      await this.storage.deleteVector(id);
-      this.index!.delete(id);
+    const filter = options?.filter;
+    if (!filter || Object.keys(filter).length === 0) {
+      return this.storage.countDocuments(this.collectionId);
     }
 
-    await this.saveIndex();
+    return (await this.findMatchingIds(filter)).size;
   }
 
-  async deleteWhere(filter: TypedFilterQuery<TMetadata>): Promise<number> {
+  async find(options?: FindOptions<TMetadata>): Promise<FindResult<TMetadata>> {
     this.ensureInitialized();
 
-    const docs = await this.storage.getAllDocuments(this.collectionId);
-    let deleted = 0;
+    const { limit, offset } = findPage(options);
+    const keys = toSortKeys(options?.sort);
+    const position = options?.cursor ? decodeCursor(options.cursor, keys) : null;
 
-    for (const doc of docs) {
-      if (matchesFilter(doc.metadata, filter)) {
-        await this.storage.deleteDocument(doc.id);
-        await this.storage.deleteVector(doc.id);
-        this.index!.delete(doc.id);
-        deleted++;
+    // One more document than the page tells whether there are more
+    let docs = await this.findInIndexOrder(options?.filter, keys, position, offset + limit + 1);
+    if (!docs) {
+      docs = sortDocuments(await this.findMatchingDocuments(options?.filter), keys);
+      if (position) {
+        docs = docs.filter((doc) => isAfterCursor(doc, position, keys));
       }
     }
 
-    if (deleted > 0) {
-      await this.saveIndex();
+    const page = docs.slice(offset, offset + limit);
+    const hasMore = offset + limit < docs.length;
+
+    const documents: FindDocument<TMetadata>[] = [];
+    for (const doc of page) {
+      const found: FindDocument<TMetadata> = {
+        id: doc.id,
+        metadata: doc.metadata as TMetadata | undefined,
+        createdAt: doc.createdAt,
+        updatedAt: doc.updatedAt,
+      };
+
+      if (options?.includeVectors) {
+        const stored = await this.loadVector(doc.id);
+        if (stored) {
+          found.vector = stored;
+        }
+      }
+
+      documents.push(found);
+    }
+
+    return {
+      documents,
+      nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1], keys) : null,
+    };
+  }
+
+  /**
+   * Read the first `count` matching documents after a cursor position in the
+   * order of the secondary index, instead of sorting every matching document.
+   *
+   * @returns The documents in sort order, or `null` if the index cannot give
+   *   the order: the sort is not on one indexed field, the storage cannot
+   *   scan its index, or not every document has an indexed value for the field.
+   */
+  private async findInIndexOrder(
+    filter: TypedFilterQuery<TMetadata> | undefined,
+    keys: SortKey[],
+    position: CursorPosition | null,
+    count: number
+  ): Promise<StoredDocument[] | null> {
+    const storage = this.storage;
+    if (keys.length !== 1 || !this.indexedFields.includes(keys[0].field) || !storage.scanIndex) {
+      return null;
+    }
+    const [{ field, direction }] = keys;
+    if (position && sortSegmentOf(position.values[0], direction) === -1) return null;
+    if (!(await this.isSortFieldIndexed(field))) return null;
+
+    const matching = filter && Object.keys(filter).length > 0 ? await this.findMatchingIds(filter) : null;
+    const scan = storage.scanIndex.bind(storage, this.collectionId);
+    const start = position ? { value: position.values[0] as IndexableValue, id: position.id } : undefined;
+
+    const docs: StoredDocument[] = [];
+    for await (const id of scanInSortOrder(scan, field, direction, start)) {
+      if (matching && !matching.has(id)) continue;
+      const doc = await storage.getDocument(id);
+      if (!doc) continue;
+      docs.push(doc);
+      if (docs.length === count) break;
     }
+    return docs;
+  }
 
-    return deleted;
+  /**
+   * Whether every document in the collection has an indexed value for a
+   * field, so the index alone gives their sort order.
+   */
+  private async isSortFieldIndexed(field: string): Promise<boolean> {
+    const version = await this.changeLog().version();
+    const cached = this.sortFieldsIndexed.get(field);
+    if (cached?.version === version) return cached.indexed;
+
+    let entries = 0;
+    for (const segment of SORT_SEGMENTS) {
+      entries += (await this.storage.scanIndex!(this.collectionId, { field, ...segment })).length;
+    }
+    const indexed = entries === (await this.storage.countDocuments(this.collectionId));
+    this.sortFieldsIndexed.set(field, { indexed, version });
+    return indexed;
   }
 
   collection(name: string): VectorDB<TMetadata> {
@@ -798,6 +2803,26 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
       get: (target, prop: string | symbol) => {
         const targetAny = target as unknown as Record<string | symbol, unknown>;
         const value = targetAny[prop];
+        if (prop === 'at') {
+          // Views are returned synchronously; their reads wait for initialization
+          return (snapshot: string | SnapshotInfo) => {
+            const ready = collectionDb.initialize().then(() => collectionDb.at(snapshot));
+            return new Proxy({} as VectorDBSnapshotView<TMetadata>, {
+              get: (_, method: string) => async (...args: unknown[]) => {
+                const view = (await ready) as unknown as Record<string, (...a: unknown[]) => unknown>;
+                return view[method](...args);
+              },
+            });
+          };
+        }
+        if (prop === 'watch') {
+          // Iterators are returned synchronously; they wait for initialization
+          return (options?: WatchOptions) =>
+            (async function* () {
+              await collectionDb.initialize();
+              yield* collectionDb.watch(options);
+            })();
+        }
         if (typeof value === 'function' && prop !== 'collection') {
           return async (...args: unknown[]) => {
             await collectionDb.initialize();
@@ -833,10 +2858,28 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
     this.ensureInitialized();
 
     const operation = async (): Promise<void> => {
+      for (const doc of await this.storage.getAllDocuments(this.collectionId)) {
+        await this.preserveForSnapshot(doc.id);
+        this.changeLog().record(doc.id, 'delete');
+      }
       await this.storage.clearCollection(this.collectionId);
-      // Destroy GPU on old index before creating new one
-      this.index?.destroyGPU();
-      this.index = new HNSWIndex(this.dimensions, this.config.indexOptions);
+      await this.storage.clearCollection(multiVectorCollectionId(this.collectionId));
+      await this.resetPrimaryIndex();
+      this.multiIndex?.destroyGPU();
+      this.multiIndex = new HNSWIndex(this.dimensions, this.indexOptions);
+      this.vectorCounts.clear();
+      await this.storage.clearCollection(sparseCollectionId(this.collectionId));
+      this.sparseIndex.clear();
+      await this.storage.clearCollection(keywordCollectionId(this.collectionId));
+      this.keywordIndex?.clear();
+      if (this.binaryQuantized) {
+        await this.storage.clearCollection(originalVectorCollectionId(this.collectionId));
+      }
+      for (const [name, space] of this.spaces) {
+        await this.storage.clearCollection(namedVectorCollectionId(this.collectionId, name));
+        space.index.destroyGPU();
+        space.index = new HNSWIndex(space.dimensions, space.indexOptions);
+      }
       this.calibration = null;
       this.pqCodebook = null;
       this.compressionCalibration = null;
@@ -852,6 +2895,7 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
         collection.compression = undefined;
         await this.storage.updateCollection(collection);
       }
+      await this.changeLog().flush();
 
       // Notify other tabs
       this.broadcaster?.notifyCollectionCleared(this.collectionId);
@@ -868,7 +2912,11 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
     if (this.index) {
       await this.saveIndex();
       // Clean up GPU resources if initialized
-      this.index.destroyGPU();
+      this.index.destroyGPU?.();
+      this.multiIndex?.destroyGPU();
+      for (const space of this.spaces.values()) {
+        space.index.destroyGPU();
+      }
     }
     await this.storage.close();
 
@@ -898,6 +2946,11 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
       );
     }
 
+    // Binary codes depend on each vector alone; there is nothing to recalibrate
+    if (this.quantizationConfig.type === 'binary') {
+      return;
+    }
+
     const abortSignal = options?.abortSignal;
     const onProgress = options?.onProgress;
 
@@ -909,7 +2962,8 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
 
     const docs = await this.storage.getAllDocuments(this.collectionId);
     for (const doc of docs) {
-      const vector = this.index!.getVector(doc.id);
+      // IVF partitions hold codes only; read those vectors from storage
+      const vector = this.index!.getVector(doc.id) ?? (await this.loadVector(doc.id));
       if (vector) {
         allVectors.push(vector);
         allIds.push(doc.id);
@@ -945,6 +2999,22 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
 
       onProgress?.(i + 1, total);
     }
+
+    // Re-quantize the vectors owned by multi-vector documents
+    const multiId = multiVectorCollectionId(this.collectionId);
+    for (const [id, count] of this.vectorCounts) {
+      abortSignal?.throwIfAborted();
+
+      for (let i = 0; i < count; i++) {
+        const vector = this.multiIndex!.getVector(subVectorId(id, i));
+        if (!vector) continue;
+        await this.storage.addVector({
+          id: subVectorId(id, i),
+          collectionId: multiId,
+          vector: this.quantizeForStorage(vector),
+        });
+      }
+    }
   }
 
   /**
@@ -969,12 +3039,50 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
   }
 
   /**
-   * Get the HNSW index (for advanced usage like reindexing).
+   * Get the primary space's index (for advanced usage like reindexing).
    */
-  getIndex(): HNSWIndex | null {
+  getIndex(): VectorIndex | null {
     return this.index;
   }
 
+  /**
+   * Estimate recall@k of search against exact search over the full-precision
+   * vectors, using evenly spaced stored documents as queries (used by
+   * `getCompressionStats()`). Needs binary quantization with rescoring, which
+   * keeps the full-precision vectors; returns `undefined` otherwise.
+   */
+  async estimateRecall(samples: number, k: number): Promise<number | undefined> {
+    this.ensureInitialized();
+    if (!this.rescoring) return undefined;
+
+    const originals: Array<[string, Float32Array]> = [];
+    const stored = await this.storage.getAllVectors(originalVectorCollectionId(this.collectionId));
+    for (const [id, vector] of stored) {
+      if (vector instanceof Float32Array) originals.push([docIdOfOriginalVector(id), vector]);
+    }
+    if (originals.length === 0 || samples <= 0) return undefined;
+
+    const distanceFn = getDistanceFunction(this.rescoreMetric);
+    const count = Math.min(samples, originals.length);
+    const step = originals.length / count;
+    let found = 0;
+    let expected = 0;
+
+    for (let i = 0; i < count; i++) {
+      const query = originals[Math.floor(i * step)][1];
+      const exact = originals
+        .map(([id, vector]) => ({ id, distance: distanceFn(query, vector) }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, k);
+      const results = new Set((await this.search(query, { k })).map((r) => r.id));
+
+      found += exact.filter((e) => results.has(e.id)).length;
+      expected += exact.length;
+    }
+
+    return found / expected;
+  }
+
   /**
    * Get the database name from config.
    */
@@ -1000,70 +3108,22 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
     this.ensureInitialized();
 
     const format = options?.format ?? 'json';
-    const collections = options?.collections;
-    const includeVectors = options?.includeVectors ?? true;
-
     const exportData: {
       version: number;
-      collections: Array<{
-        name: string;
-        dimensions: number;
-        documents: Array<{
-          id: string;
-          metadata?: Record<string, unknown>;
-          vector?: number[];
-        }>;
-      }>;
+      collections: Array<ExportedCollection & { documents: ExportedDocument[] }>;
     } = {
       version: 1,
       collections: [],
     };
 
-    const allCollections = await this.storage.getAllCollections();
-    const targetCollections = collections
-      ? allCollections.filter((c) => collections.includes(c.name))
-      : allCollections;
-
-    for (const col of targetCollections) {
-      const docs = await this.storage.getAllDocuments(col.id);
-      const colData: (typeof exportData.collections)[0] = {
-        name: col.name,
-        dimensions: col.dimensions,
-        documents: [],
-      };
-
-      for (const doc of docs) {
-        const docData: (typeof colData.documents)[0] = {
-          id: doc.id,
-          metadata: doc.metadata,
-        };
-
-        if (includeVectors) {
-          const stored = await this.storage.getVector(doc.id);
-          if (stored) {
-            // Decompress/dequantize for export to ensure portability (Float32 output)
-            if (col.id === this.collectionId) {
-              // Current collection — use instance helpers for decompression
-              docData.vector = Array.from(this.decompressFromStorage(stored));
-            } else if (col.pqCodebook && stored instanceof Uint8Array) {
-              const dequantized = pqDequantize(stored, col.pqCodebook);
-              docData.vector = Array.from(dequantized);
-            } else if (col.compressionCalibration && stored instanceof Uint8Array) {
-              const decompressed = scalarDequantize(stored, col.compressionCalibration);
-              docData.vector = Array.from(decompressed);
-            } else if (col.calibration && stored instanceof Uint8Array) {
-              const dequantized = scalarDequantize(stored, col.calibration);
-              docData.vector = Array.from(dequantized);
-            } else {
-              docData.vector = Array.from(stored);
-            }
-          }
-        }
-
-        colData.documents.push(docData);
+    for await (const entry of this.readExport(options?.collections, options?.includeVectors ?? true, Infinity)) {
+      if (entry.type === 'collection') {
+        exportData.collections.push({ ...entry.collection, documents: [] });
+      } else {
+        exportData.collections[exportData.collections.length - 1].documents.push(
+          ...entry.documents.map(toJSONDocument)
+        );
       }
-
-      exportData.collections.push(colData);
     }
 
     if (format === 'json') {
@@ -1075,32 +3135,58 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
     }
   }
 
+  exportStream(options?: ExportStreamOptions): ReadableStream<Uint8Array> {
+    this.ensureInitialized();
+
+    const batchSize = options?.batchSize ?? DEFAULT_EXPORT_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new InvalidOptionsError('batchSize', batchSize, 'a positive integer');
+    }
+
+    const entries = this.readExport(options?.collections, options?.includeVectors ?? true, batchSize);
+    let exported = 0;
+
+    return new ReadableStream<Uint8Array>({
+      start: async (controller) => {
+        let documents = 0;
+        for (const col of await this.exportTargets(options?.collections)) {
+          documents += await this.storage.countDocuments(col.id);
+        }
+        controller.enqueue(encodeExportFrame({ type: 'header', documents }));
+      },
+      // One batch per pull, so a slow reader holds back the export
+      pull: async (controller) => {
+        const next = await entries.next();
+        if (next.done) {
+          controller.enqueue(encodeExportFrame({ type: 'end', documents: exported }));
+          controller.close();
+          return;
+        }
+        const entry = next.value;
+        if (entry.type === 'batch') {
+          exported += entry.documents.length;
+          controller.enqueue(encodeExportFrame(entry));
+        } else {
+          controller.enqueue(encodeExportFrame({ type: 'collection', collection: entry.collection, documents: entry.count }));
+        }
+      },
+      cancel: async () => {
+        await entries.return(undefined);
+      },
+    });
+  }
+
   async import(data: Blob, options?: ImportOptions): Promise<void> {
     this.ensureInitialized();
 
-    const mode = options?.mode ?? 'merge';
     const text = await data.text();
     const importData = JSON.parse(text) as {
       version: number;
-      collections: Array<{
-        name: string;
-        dimensions: number;
-        documents: Array<{
-          id: string;
-          metadata?: Record<string, unknown>;
-          vector?: number[];
-        }>;
-      }>;
+      collections: Array<ExportedCollection & { documents: ExportedDocument[] }>;
     };
 
-    if (mode === 'replace') {
-      await this.storage.clear();
-      this.index?.destroyGPU();
-      this.index = new HNSWIndex(this.dimensions, this.config.indexOptions);
-      this.calibration = null;
-      this.pqCodebook = null;
-      this.compressionCalibration = null;
-      this.deltaCalibration = null;
+    if (options?.mode === 'replace') {
+      await this.clearForImport();
     }
 
     let completed = 0;
@@ -1110,85 +3196,450 @@ export class VectorDBImpl<TMetadata extends Record<string, unknown> = Record<str
     }
 
     for (const colData of importData.collections) {
-      // Create collection if it doesn't exist
-      let collection: Collection | null = await this.storage.getCollectionByName(colData.name);
-      if (!collection) {
-        collection = {
-          id: colData.name,
-          name: colData.name,
-          dimensions: colData.dimensions,
-          createdAt: Date.now(),
-        };
-        await this.storage.createCollection(collection);
+      const target = await this.prepareImport(colData);
+      await this.calibrateImport(target, colData.documents);
+
+      for (const docData of colData.documents) {
+        await this.importDocument(target, docData);
+        completed++;
+        options?.onProgress?.(completed, total);
       }
+    }
+
+    await this.finishImport();
+  }
 
-      // Determine if this collection uses quantization or compression
-      const isCurrentCollection = collection.id === this.collectionId;
-      const useQuantization = isCurrentCollection && !!this.quantizationConfig;
-      const useCompression = isCurrentCollection && !!this.compressionConfig;
+  async importStream(stream: ReadableStream<Uint8Array>, options?: ImportOptions): Promise<void> {
+    this.ensureInitialized();
 
-      // If quantization is enabled and we have vectors to import, calibrate/train first
-      if (useQuantization && !this.calibration && !this.pqCodebook) {
-        const importVectors = colData.documents
-          .filter((d) => d.vector)
-          .map((d) => new Float32Array(d.vector!));
-        if (importVectors.length > 0) {
-          this.calibrateFromVectors(importVectors);
-          await this.saveCalibration();
-        }
+    let completed = 0;
+    let total = 0;
+    let target: ImportTarget | null = null;
+
+    for await (const frame of readExportStream(stream)) {
+      switch (frame.type) {
+        case 'header':
+          total = frame.documents;
+          if (options?.mode === 'replace') {
+            await this.clearForImport();
+          }
+          break;
+        case 'collection':
+          target = await this.prepareImport(frame.collection);
+          break;
+        case 'batch':
+          if (!target) {
+            throw new ParseError('Export stream has a batch outside a collection.', {
+              hint: 'Pass a stream written by exportStream().',
+            });
+          }
+          // Calibrated from the first batch that has vectors
+          await this.calibrateImport(target, frame.documents);
+          for (const docData of frame.documents) {
+            await this.importDocument(target, docData);
+            completed++;
+            options?.onProgress?.(completed, Math.max(total, completed));
+          }
+          break;
       }
+    }
 
-      // If compression is enabled and we have vectors to import, calibrate first
-      if (useCompression && !this.compressionCalibration) {
-        const importVectors = colData.documents
-          .filter((d) => d.vector)
-          .map((d) => new Float32Array(d.vector!));
-        if (importVectors.length > 0) {
-          this.calibrateCompressionFromVectors(importVectors);
-          await this.saveCompressionCalibration();
-        }
+    await this.finishImport();
+  }
+
+  // ============================================================================
+  // Export & Import Helpers
+  // ============================================================================
+
+  /**
+   * Collections included in an export.
+   */
+  private async exportTargets(names: string[] | undefined): Promise<Collection[]> {
+    const allCollections = await this.storage.getAllCollections();
+    return names ? allCollections.filter((c) => names.includes(c.name)) : allCollections;
+  }
+
+  /**
+   * Read the collections of an export and their documents in batches,
+   * with vectors decompressed/dequantized to float32.
+   */
+  private async *readExport(
+    names: string[] | undefined,
+    includeVectors: boolean,
+    batchSize: number
+  ): AsyncGenerator<
+    | { type: 'collection'; collection: ExportedCollection; count: number }
+    | { type: 'batch'; documents: ExportedDocument<Float32Array>[] }
+  > {
+    for (const col of await this.exportTargets(names)) {
+      const collection: ExportedCollection = {
+        name: col.name,
+        dimensions: col.dimensions,
+      };
+      if (col.keywordIndex) {
+        collection.keywordIndex = col.keywordIndex;
       }
+      yield { type: 'collection', collection, count: await this.storage.countDocuments(col.id) };
+
+      // Decompress/dequantize for export to ensure portability (Float32 output)
+      const decode = (stored: Float32Array | Uint8Array): Float32Array => {
+        if (col.id === this.collectionId) {
+          // Current collection — use instance helpers for decompression
+          return this.decompressFromStorage(stored);
+        } else if (col.binaryQuantization && stored instanceof Uint8Array) {
+          return binaryDequantize(stored, col.dimensions);
+        } else if (col.pqCodebook && stored instanceof Uint8Array) {
+          return pqDequantize(stored, col.pqCodebook);
+        } else if (col.compressionCalibration && stored instanceof Uint8Array) {
+          return scalarDequantize(stored, col.compressionCalibration);
+        } else if (col.calibration && stored instanceof Uint8Array) {
+          return scalarDequantize(stored, col.calibration);
+        }
+        return Float32Array.from(stored);
+      };
 
-      // Import documents
-      for (const docData of colData.documents) {
-        if (docData.vector) {
-          const vector = new Float32Array(docData.vector);
-          const now = Date.now();
+      // Keyword tokens and every vector are looked up by ID, one batch at a time
+      for await (const docs of this.readDocumentPages(col.id, batchSize)) {
+        const batch: ExportedDocument<Float32Array>[] = [];
 
-          await this.storage.addDocument({
-            id: docData.id,
-            collectionId: collection.id,
-            metadata: docData.metadata,
-            createdAt: now,
-            updatedAt: now,
-          });
+        for (const doc of docs) {
+          const docData: ExportedDocument<Float32Array> = {
+            id: doc.id,
+            metadata: doc.metadata,
+          };
 
-          // Store quantized and/or compressed if this is the current collection
-          let storageVector: Float32Array | Uint8Array = useQuantization
-            ? this.quantizeForStorage(vector)
-            : vector;
-          if (useCompression) {
-            storageVector = this.compressForStorage(storageVector);
+          if (col.keywordIndex) {
+            const tokens = (await this.storage.getDocument(keywordEntryId(doc.id)))?.metadata?.tokens;
+            if (Array.isArray(tokens)) {
+              docData.keywordTokens = tokens as string[];
+            }
           }
 
-          await this.storage.addVector({
-            id: docData.id,
-            collectionId: collection.id,
-            vector: storageVector,
-          });
+          if (includeVectors) {
+            // Full-precision vectors kept for rescoring binary codes
+            const original = col.binaryQuantization
+              ? await this.storage.getVector(originalVectorId(doc.id))
+              : null;
+            if (original instanceof Float32Array) {
+              docData.vector = original;
+            } else {
+              const stored = await this.storage.getVector(doc.id);
+              if (stored) {
+                docData.vector = decode(stored);
+              }
+            }
+
+            const owned = await this.readSubVectors(col.id, doc.id);
+            if (owned.length > 0) {
+              docData.vectors = owned.map(decode);
+            }
+
+            // Vectors of non-primary named spaces
+            const named: Record<string, Float32Array> = {};
+            for (const name of this.spaces.keys()) {
+              const vector = await this.storage.getVector(namedVectorId(doc.id, name));
+              if (vector) {
+                named[name] = Float32Array.from(vector);
+              }
+            }
+            if (Object.keys(named).length > 0) {
+              docData.namedVectors = named;
+            }
 
-          // Add to index if this is the current collection
-          if (isCurrentCollection) {
-            this.index!.add(docData.id, vector);
+            const sparse = await this.storage.getVector(sparseVectorId(doc.id));
+            if (sparse) {
+              const { indices, values } = decodeSparseVector(sparse);
+              docData.sparseVector = { indices: Array.from(indices), values: Array.from(values) };
+            }
           }
+
+          batch.push(docData);
         }
 
-        completed++;
-        options?.onProgress?.(completed, total);
+        yield { type: 'batch', documents: batch };
+      }
+    }
+  }
+
+  /**
+   * Read the documents of a collection in pages of `size`, through the
+   * adapter's `getDocumentPage()` where it has one. An unbounded size reads
+   * the collection whole, in storage order.
+   */
+  private async *readDocumentPages(collectionId: string, size: number): AsyncGenerator<StoredDocument[]> {
+    if (!this.storage.getDocumentPage || !Number.isFinite(size)) {
+      const docs = await this.storage.getAllDocuments(collectionId);
+      for (let start = 0; start < docs.length; start += size) {
+        yield docs.slice(start, start + size);
+      }
+      return;
+    }
+
+    let after: string | null = null;
+    for (;;) {
+      const page: StoredDocument[] = await this.storage.getDocumentPage(collectionId, after, size);
+      if (page.length > 0) {
+        yield page;
+      }
+      if (page.length < size) return;
+      after = page[page.length - 1].id;
+    }
+  }
+
+  /**
+   * Read the stored vectors of a multi-vector document, in order. Counts are
+   * only kept for the current collection; elsewhere they are read until the
+   * first missing index.
+   */
+  private async readSubVectors(collectionId: string, docId: string): Promise<Array<Float32Array | Uint8Array>> {
+    const count = collectionId === this.collectionId ? (this.vectorCounts.get(docId) ?? 0) : Infinity;
+    const vectors: Array<Float32Array | Uint8Array> = [];
+    for (let i = 0; i < count; i++) {
+      const vector = await this.storage.getVector(subVectorId(docId, i));
+      if (!vector) break;
+      vectors.push(vector);
+    }
+    return vectors;
+  }
+
+  /**
+   * Delete every document before a replacing import. Change logs keep their
+   * sequence numbers.
+   */
+  private async clearForImport(): Promise<void> {
+    for (const col of await this.storage.getAllCollections()) {
+      const changes = this.changeLog(col.id);
+      await changes.head();
+      for (const doc of await this.storage.getAllDocuments(col.id)) {
+        changes.record(doc.id, 'delete');
+      }
+    }
+
+    // Clears every collection, snapshots included
+    await this.storage.clear();
+    this.latestSnapshot = 0;
+    this.preserved.clear();
+    await this.resetPrimaryIndex();
+    this.multiIndex?.destroyGPU();
+    this.multiIndex = new HNSWIndex(this.dimensions, this.indexOptions);
+    this.vectorCounts.clear();
+    this.sparseIndex.clear();
+    this.keywordIndex?.clear();
+    for (const space of this.spaces.values()) {
+      space.index.destroyGPU();
+      space.index = new HNSWIndex(space.dimensions, space.indexOptions);
+    }
+    this.calibration = null;
+    this.pqCodebook = null;
+    this.compressionCalibration = null;
+    this.deltaCalibration = null;
+  }
+
+  /**
+   * Find or create the collection an imported collection goes into.
+   */
+  private async prepareImport(colData: ExportedCollection): Promise<ImportTarget> {
+    // Create collection if it doesn't exist
+    let collection: Collection | null = await this.storage.getCollectionByName(colData.name);
+    if (!collection) {
+      collection = {
+        id: colData.name,
+        name: colData.name,
+        dimensions: colData.dimensions,
+        createdAt: Date.now(),
+      };
+      if (colData.name === this.collectionName && this.indexedFields.length > 0) {
+        collection.indexedFields = this.indexedFields;
+      }
+      collection.keywordIndex =
+        colData.name === this.collectionName ? this.keywordFingerprint : colData.keywordIndex;
+      if (colData.name === this.collectionName && this.binaryQuantized) {
+        collection.binaryQuantization = true;
+      }
+      if (colData.name === this.collectionName && this.indexType !== 'hnsw') {
+        collection.indexType = this.indexType;
+        if (this.index instanceof IVFIndex) {
+          collection.ivf = this.index.getState();
+        }
+      }
+      await this.storage.createCollection(collection);
+    } else if (
+      collection.id !== this.collectionId &&
+      collection.keywordIndex &&
+      !sameKeywordIndex(collection.keywordIndex, colData.keywordIndex)
+    ) {
+      // Imported tokens don't fit this collection's index; rebuild it on the next open
+      collection.keywordIndex = undefined;
+      await this.storage.updateCollection(collection);
+    }
+
+    // Determine if this collection uses quantization or compression
+    const isCurrentCollection = collection.id === this.collectionId;
+    return {
+      collection,
+      isCurrentCollection,
+      useQuantization: isCurrentCollection && !!this.quantizationConfig,
+      useCompression: isCurrentCollection && !!this.compressionConfig,
+      indexedFields: isCurrentCollection ? this.indexedFields : (collection.indexedFields ?? []),
+      // Reuse exported tokens when they were produced with the same settings
+      keywordTokensMatch: sameKeywordIndex(
+        colData.keywordIndex,
+        isCurrentCollection ? this.keywordFingerprint : collection.keywordIndex
+      ),
+    };
+  }
+
+  /**
+   * Calibrate/train quantization and compression from imported vectors, if
+   * they are enabled and not calibrated yet.
+   */
+  private async calibrateImport(
+    target: ImportTarget,
+    documents: ExportedDocument<ArrayLike<number>>[]
+  ): Promise<void> {
+    const needsQuantization = target.useQuantization && this.needsCalibration();
+    const needsCompression = target.useCompression && !this.compressionCalibration;
+    if (!needsQuantization && !needsCompression) return;
+
+    const importVectors = documents.filter((d) => d.vector).map((d) => new Float32Array(d.vector!));
+    if (importVectors.length === 0) return;
+
+    if (needsQuantization) {
+      this.calibrateFromVectors(importVectors);
+      await this.saveCalibration();
+    }
+    if (needsCompression) {
+      this.calibrateCompressionFromVectors(importVectors);
+      await this.saveCompressionCalibration();
+    }
+  }
+
+  /**
+   * Write one imported document and its vectors.
+   */
+  private async importDocument(target: ImportTarget, docData: ExportedDocument<ArrayLike<number>>): Promise<void> {
+    const { collection, isCurrentCollection, useQuantization, useCompression, indexedFields } = target;
+    const vectors = docData.vectors?.length
+      ? docData.vectors.map((v) => new Float32Array(v))
+      : undefined;
+
+    const namedVectors = docData.namedVectors
+      ? Object.fromEntries(
+          Object.entries(docData.namedVectors).map(([name, v]) => [name, new Float32Array(v)])
+        )
+      : undefined;
+    const primary =
+      docData.vector ?? (this.primarySpace ? docData.namedVectors?.[this.primarySpace] : undefined);
+    const sparseVector = docData.sparseVector
+      ? {
+          indices: new Uint32Array(docData.sparseVector.indices),
+          values: new Float32Array(docData.sparseVector.values),
+        }
+      : undefined;
+
+    if (!primary && !vectors) return;
+
+    const vector = primary ? new Float32Array(primary) : meanVector(vectors!);
+    const now = Date.now();
+    const existing = await this.storage.getDocument(docData.id);
+    if (isCurrentCollection) {
+      await this.preserveForSnapshot(docData.id);
+    }
+    this.changeLog(collection.id).record(
+      docData.id,
+      existing?.collectionId === collection.id ? 'update' : 'add'
+    );
+
+    await this.storage.addDocument({
+      id: docData.id,
+      collectionId: collection.id,
+      metadata: docData.metadata,
+      createdAt: now,
+      updatedAt: now,
+    });
+    if (indexedFields.length > 0) {
+      await this.storage.putIndexEntries?.(
+        collection.id,
+        docData.id,
+        extractIndexEntries(docData.metadata, indexedFields)
+      );
+    }
+
+    // Store quantized and/or compressed if this is the current collection
+    let storageVector: Float32Array | Uint8Array = useQuantization
+      ? this.quantizeForStorage(vector)
+      : vector;
+    if (useCompression) {
+      storageVector = this.compressForStorage(storageVector);
+    }
+
+    await this.storage.addVector({
+      id: docData.id,
+      collectionId: collection.id,
+      vector: storageVector,
+    });
+
+    // Add to index if this is the current collection
+    if (isCurrentCollection) {
+      await this.writeOriginalVector(docData.id, vector);
+      await this.index!.add(docData.id, vector);
+      await this.writeSubVectors(docData.id, vectors);
+      if (namedVectors) {
+        await this.writeNamedVectors(
+          docData.id,
+          this.resolveNamedVectors(docData.id, namedVectors)
+        );
+      }
+      await this.writeSparseVector(docData.id, sparseVector);
+      await this.writeKeywordEntry(
+        docData.id,
+        docData.metadata,
+        target.keywordTokensMatch ? docData.keywordTokens : undefined
+      );
+    } else {
+      const multiId = multiVectorCollectionId(collection.id);
+      for (let i = 0; i < (vectors?.length ?? 0); i++) {
+        await this.storage.addVector({
+          id: subVectorId(docData.id, i),
+          collectionId: multiId,
+          vector: vectors![i],
+        });
+      }
+      for (const [name, namedVector] of Object.entries(namedVectors ?? {})) {
+        if (name === this.primarySpace) continue;
+        await this.storage.addVector({
+          id: namedVectorId(docData.id, name),
+          collectionId: namedVectorCollectionId(collection.id, name),
+          vector: namedVector,
+        });
+      }
+      if (sparseVector) {
+        await this.storage.addVector({
+          id: sparseVectorId(docData.id),
+          collectionId: sparseCollectionId(collection.id),
+          vector: encodeSparseVector(sparseVector),
+        });
+      }
+      if (target.keywordTokensMatch && docData.keywordTokens) {
+        await this.storage.addDocument({
+          id: keywordEntryId(docData.id),
+          collectionId: keywordCollectionId(collection.id),
+          metadata: { tokens: docData.keywordTokens },
+          createdAt: now,
+          updatedAt: now,
+        });
       }
     }
+  }
 
+  /**
+   * Persist the index and change logs after an import.
+   */
+  private async finishImport(): Promise<void> {
     await this.saveIndex();
+    for (const changes of this.changeLogs.values()) {
+      await changes.flush();
+    }
   }
 }
 
@@ -75,7 +75,7 @@ const DEFAULT_TEXT_FIELDS = ['_text', 'text', 'content', 'body', '__text', 'page
  * @param textField - Primary field to check (default: '_text')
  * @returns The text string, or null if no text field found
  */
-function defaultTextExtractor(
+export function defaultTextExtractor(
   metadata: Record<string, unknown>,
   textField?: string,
 ): string | null {
@@ -280,9 +280,9 @@ export async function reindexCollection(
       countDocuments: (collectionId: string) => Promise<number>;
       addVector: (vec: { id: string; collectionId: string; vector: Float32Array | Uint8Array }) => Promise<void>;
       updateCollection: (collection: Collection) => Promise<void>;
-      saveIndex: (collectionId: string, index: unknown) => Promise<void>;
     };
-    getIndex: () => { add: (id: string, vector: Float32Array) => void; serialize: () => unknown } | null;
+    getIndex: () => { add: (id: string, vector: Float32Array) => void | Promise<void> } | null;
+    saveIndex: () => Promise<void>;
     getLockManager: () => LockManager | null;
   };
 
@@ -425,7 +425,7 @@ export async function reindexCollection(
           });
 
           if (index) {
-            index.add(docId, newVector);
+            await index.add(docId, newVector);
           }
         }
 
@@ -476,11 +476,8 @@ export async function reindexCollection(
       ...indexProgress,
     });
 
-    // Save the HNSW index
-    const index = dbImpl.getIndex();
-    if (index) {
-      await storage.saveIndex(collectionId, index.serialize());
-    }
+    // Save the changed nodes of the HNSW index
+    await dbImpl.saveIndex();
 
     // Update the collection's model fingerprint
     if (collection) {
@@ -3,14 +3,15 @@
  *
  * Generate typed, validated JSON objects from language models.
  * Builds on top of generateText() with schema-aware prompting,
- * JSON extraction, validation, and retry with self-correction.
+ * constrained decoding where the model supports it, JSON extraction,
+ * validation, and retry with self-correction.
  *
  * @packageDocumentation
  */
 
-import type { GenerateObjectOptions, GenerateObjectResult } from './types.js';
-import { generateText } from './generate-text.js';
-import { buildStructuredPrompt, extractJSON } from './schema.js';
+import type { FinishReason, GenerateObjectOptions, GenerateObjectResult } from './types.js';
+import { generateText, resolveModel } from './generate-text.js';
+import { buildResponseFormat, buildStructuredPrompt, extractJSON } from './schema.js';
 
 /**
  * Generate a typed, validated JSON object using a language model.
@@ -19,6 +20,12 @@ import { buildStructuredPrompt, extractJSON } from './schema.js';
  * then extracts, parses, and validates the result. On validation failure,
  * retries with self-correction feedback (up to maxRetries attempts).
  *
+ * The schema is also passed as `responseFormat`. Models that report
+ * `supportsStructuredOutput` constrain decoding to it, so their output is
+ * valid on the first attempt and `maxRetries` defaults to 1 for them, unless
+ * the model reports through `enforcesResponseFormat()` that it cannot
+ * enforce every keyword of the schema.
+ *
  * @param options - Generation options including model, schema, and prompt
  * @returns Promise with the parsed object, raw text, usage, and metadata
  *
@@ -68,7 +75,7 @@ export async function generateObject<T>(
   options: GenerateObjectOptions<T>
 ): Promise<GenerateObjectResult<T>> {
   const {
-    model,
+    model: modelOrId,
     schema,
     prompt,
     systemPrompt,
@@ -77,19 +84,25 @@ export async function generateObject<T>(
     maxTokens = 1024,
     temperature = 0,
     topP,
-    maxRetries = 3,
     abortSignal,
     providerOptions,
   } = options;
 
   abortSignal?.throwIfAborted();
 
+  const model = resolveModel(modelOrId);
   const structuredSystemPrompt = buildStructuredPrompt(schema, mode, systemPrompt);
+  const responseFormat = buildResponseFormat(schema, mode);
+  // Constrained decoding is valid by construction, so retrying rarely helps,
+  // unless the model can only enforce part of the schema
+  const constrained =
+    model.supportsStructuredOutput && (model.enforcesResponseFormat?.(responseFormat) ?? true);
+  const maxRetries = options.maxRetries ?? (constrained ? 1 : 3);
 
   let lastError: Error | null = null;
   let totalUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0, durationMs: 0 };
   let lastResponse = { modelId: '', timestamp: new Date() };
-  let lastFinishReason: 'stop' | 'length' | 'content_filter' | 'error' = 'stop';
+  let lastFinishReason: FinishReason = 'stop';
   let lastRawText = '';
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
@@ -109,6 +122,7 @@ export async function generateObject<T>(
       maxTokens,
       temperature,
       topP,
+      responseFormat,
       maxRetries: 0,
       abortSignal,
       providerOptions,
@@ -12,6 +12,7 @@ import type {
   GenerateTextResult,
   LanguageModelFactory,
 } from './types.js';
+import { withToolCalling } from './tool-calling.js';
 
 // Global provider for string model ID resolution
 let globalLanguageModelProvider: LanguageModelFactory | null = null;
@@ -41,8 +42,10 @@ export function setGlobalLanguageModelProvider(provider: LanguageModelFactory |
 
 /**
  * Resolve a model from string ID or return the model object.
+ *
+ * @internal
  */
-function resolveModel(modelOrId: LanguageModel | string): LanguageModel {
+export function resolveModel(modelOrId: LanguageModel | string): LanguageModel {
   if (typeof modelOrId !== 'string') {
     return modelOrId;
   }
@@ -102,6 +105,28 @@ function resolveModel(modelOrId: LanguageModel | string): LanguageModel {
  * setTimeout(() => controller.abort(), 5000);
  * ```
  *
+ * @example With tools
+ * ```ts
+ * const { text, toolCalls } = await generateText({
+ *   model: webllm.languageModel('Hermes-3-Llama-3.1-8B-q4f16_1-MLC'),
+ *   prompt: 'What is the weather in Paris?',
+ *   tools: [
+ *     {
+ *       name: 'get_weather',
+ *       description: 'Get the current weather for a city',
+ *       parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+ *     },
+ *   ],
+ * });
+ *
+ * for (const call of toolCalls) {
+ *   console.log(call.toolName, call.args); // 'get_weather' { city: 'Paris' }
+ * }
+ * ```
+ *
+ * Models without native tool support (`supportsTools`) get the tools as
+ * prompt instructions, and their JSON reply is parsed into `toolCalls`.
+ *
  * @throws {Error} If no model is provided or generation fails
  */
 export async function generateText(options: GenerateTextOptions): Promise<GenerateTextResult> {
@@ -114,6 +139,9 @@ export async function generateText(options: GenerateTextOptions): Promise<Genera
     temperature = 0.7,
     topP = 1.0,
     stopSequences,
+    tools,
+    toolChoice,
+    responseFormat,
     abortSignal,
     maxRetries = 2,
     providerOptions,
@@ -122,8 +150,8 @@ export async function generateText(options: GenerateTextOptions): Promise<Genera
   // Check for cancellation before starting
   abortSignal?.throwIfAborted();
 
-  // Resolve the model
-  const model = resolveModel(modelOrId);
+  // Resolve the model, emulating tool calling when it has no native support
+  const model = withToolCalling(resolveModel(modelOrId));
 
   let lastError: Error | null = null;
 
@@ -143,19 +171,24 @@ export async function generateText(options: GenerateTextOptions): Promise<Genera
         temperature,
         topP,
         stopSequences,
+        tools,
+        toolChoice,
+        responseFormat,
         abortSignal,
         providerOptions,
       });
 
       const durationMs = performance.now() - startTime;
+      const toolCalls = result.toolCalls ?? [];
 
       return {
         text: result.text,
-        finishReason: result.finishReason,
+        finishReason: toolCalls.length > 0 ? 'tool_calls' : result.finishReason,
         usage: {
           ...result.usage,
           durationMs,
         },
+        toolCalls,
         response: {
           modelId: model.modelId,
           timestamp: new Date(),
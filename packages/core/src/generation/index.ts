@@ -14,7 +14,13 @@ export { generateText, setGlobalLanguageModelProvider } from './generate-text.js
 export { streamText } from './stream-text.js';
 export { generateObject } from './generate-object.js';
 export { streamObject } from './stream-object.js';
-export { jsonSchema, extractJSON, parsePartialJSON, buildStructuredPrompt } from './schema.js';
+export {
+  jsonSchema,
+  extractJSON,
+  parsePartialJSON,
+  buildStructuredPrompt,
+  buildResponseFormat,
+} from './schema.js';
 
 // ═══════════════════════════════════════════════════════════════
 // MIDDLEWARE
@@ -28,6 +34,12 @@ export { wrapLanguageModel, composeLanguageModelMiddleware } from './middleware.
 
 export { normalizeContent, getTextContent } from './content.js';
 
+// ═══════════════════════════════════════════════════════════════
+// TOOL CALLING
+// ═══════════════════════════════════════════════════════════════
+
+export { withToolCalling, createToolCallId, createToolCallDeltaParser } from './tool-calling.js';
+
 // ═══════════════════════════════════════════════════════════════
 // TYPES
 // ═══════════════════════════════════════════════════════════════
@@ -43,6 +55,14 @@ export type {
   GenerationResponse,
   FinishReason,
   ChatMessage,
+  // Tool calling types
+  LanguageModelTool,
+  ToolChoice,
+  ToolCall,
+  ToolCallDelta,
+  ToolCallDeltaParser,
+  // Response format
+  ResponseFormat,
   // Model interface
   LanguageModel,
   DoGenerateOptions,
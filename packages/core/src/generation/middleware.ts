@@ -49,7 +49,7 @@ import type {
  * @example Logging middleware
  * ```ts
  * const loggingMiddleware: LanguageModelMiddleware = {
- *   wrapGenerate: async ({ doGenerate, prompt, model }) => {
+ *   wrapGenerate: async ({ doGenerate, prompt, tools, model }) => {
  *     console.log(`Generating with ${model.modelId}: ${prompt.slice(0, 50)}`);
  *     const start = Date.now();
  *     const result = await doGenerate();
@@ -74,13 +74,25 @@ export function wrapLanguageModel(options: {
     provider: model.provider,
     contextLength: model.contextLength,
     supportsVision: model.supportsVision,
+    supportsTools: model.supportsTools,
+    supportsStructuredOutput: model.supportsStructuredOutput,
+    enforcesResponseFormat: model.enforcesResponseFormat?.bind(model),
 
     // Wrap doGenerate with middleware
     async doGenerate(generateOptions: DoGenerateOptions): Promise<DoGenerateResult> {
       let { prompt } = generateOptions;
       let { systemPrompt, messages } = generateOptions;
-      const { maxTokens, temperature, topP, stopSequences, abortSignal, providerOptions } =
-        generateOptions;
+      const {
+        maxTokens,
+        temperature,
+        topP,
+        stopSequences,
+        tools,
+        toolChoice,
+        responseFormat,
+        abortSignal,
+        providerOptions,
+      } = generateOptions;
 
       // Apply parameter transformation if provided
       if (middleware.transformParams) {
@@ -100,6 +112,9 @@ export function wrapLanguageModel(options: {
           temperature,
           topP,
           stopSequences,
+          tools,
+          toolChoice,
+          responseFormat,
           abortSignal,
           providerOptions,
         });
@@ -109,6 +124,7 @@ export function wrapLanguageModel(options: {
         return middleware.wrapGenerate({
           doGenerate,
           prompt,
+          tools,
           model,
         });
       }
@@ -122,8 +138,17 @@ export function wrapLanguageModel(options: {
     wrapped.doStream = function doStream(streamOptions: DoStreamOptions): AsyncIterable<StreamChunk> {
       let { prompt } = streamOptions;
       let { systemPrompt, messages } = streamOptions;
-      const { maxTokens, temperature, topP, stopSequences, abortSignal, providerOptions } =
-        streamOptions;
+      const {
+        maxTokens,
+        temperature,
+        topP,
+        stopSequences,
+        tools,
+        toolChoice,
+        responseFormat,
+        abortSignal,
+        providerOptions,
+      } = streamOptions;
 
       // We need to handle transformParams asynchronously within the async generator
       async function* streamWithMiddleware(): AsyncIterable<StreamChunk> {
@@ -146,6 +171,9 @@ export function wrapLanguageModel(options: {
               temperature,
               topP,
               stopSequences,
+              tools,
+              toolChoice,
+              responseFormat,
               abortSignal,
               providerOptions,
             });
@@ -163,6 +191,7 @@ export function wrapLanguageModel(options: {
           yield* middleware.wrapStream({
             doStream: doStreamFn,
             prompt,
+            tools,
             model,
           });
         } else {
@@ -224,7 +253,7 @@ export function composeLanguageModelMiddleware(
     },
 
     // Chain wrapGenerate: first middleware wraps outermost
-    wrapGenerate: async ({ doGenerate, prompt, model }) => {
+    wrapGenerate: async ({ doGenerate, prompt, tools, model }) => {
       // Build the chain from inside out
       let currentDoGenerate = doGenerate;
 
@@ -238,6 +267,7 @@ export function composeLanguageModelMiddleware(
             mw.wrapGenerate!({
               doGenerate: prevDoGenerate,
               prompt,
+              tools,
               model,
             });
         }
@@ -247,7 +277,7 @@ export function composeLanguageModelMiddleware(
     },
 
     // Chain wrapStream: first middleware wraps outermost
-    wrapStream: ({ doStream, prompt, model }) => {
+    wrapStream: ({ doStream, prompt, tools, model }) => {
       // Build the chain from inside out
       let currentDoStream = doStream;
 
@@ -261,6 +291,7 @@ export function composeLanguageModelMiddleware(
             mw.wrapStream!({
               doStream: prevDoStream,
               prompt,
+              tools,
               model,
             });
         }
@@ -7,7 +7,7 @@
  * @packageDocumentation
  */
 
-import type { ObjectSchema, ObjectOutputMode } from './types.js';
+import type { ObjectSchema, ObjectOutputMode, ResponseFormat } from './types.js';
 
 // ═══════════════════════════════════════════════════════════════
 // SCHEMA ADAPTER
@@ -234,6 +234,23 @@ export function buildStructuredPrompt(
   return parts.join('\n\n');
 }
 
+/**
+ * Build the response format that constrains decoding to the schema.
+ *
+ * In array mode, a schema that is not already an array schema describes
+ * the elements.
+ *
+ * @param schema - The ObjectSchema with jsonSchema property
+ * @param mode - Output mode (json, array, enum)
+ * @returns Response format for models with `supportsStructuredOutput`
+ */
+export function buildResponseFormat(schema: ObjectSchema<unknown>, mode: ObjectOutputMode): ResponseFormat {
+  if (mode === 'array' && schema.jsonSchema.type !== 'array') {
+    return { type: 'json', schema: { type: 'array', items: schema.jsonSchema } };
+  }
+  return { type: 'json', schema: schema.jsonSchema };
+}
+
 // ═══════════════════════════════════════════════════════════════
 // JSON EXTRACTION
 // ═══════════════════════════════════════════════════════════════
@@ -13,13 +13,14 @@ import type {
   DeepPartial,
 } from './types.js';
 import { streamText } from './stream-text.js';
-import { buildStructuredPrompt, extractJSON, parsePartialJSON } from './schema.js';
+import { buildResponseFormat, buildStructuredPrompt, extractJSON, parsePartialJSON } from './schema.js';
 
 /**
  * Stream a typed JSON object from a language model.
  *
  * Yields progressively more complete partial objects as tokens arrive.
- * The final object is validated against the schema on completion.
+ * The final object is validated against the schema on completion. Models
+ * that report `supportsStructuredOutput` constrain decoding to the schema.
  *
  * @param options - Stream options including model, schema, and prompt
  * @returns Object with partialObjectStream, object promise, rawText promise, usage promise
@@ -92,6 +93,7 @@ export async function streamObject<T>(
     maxTokens,
     temperature,
     topP,
+    responseFormat: buildResponseFormat(schema, mode),
     abortSignal,
     providerOptions,
   });
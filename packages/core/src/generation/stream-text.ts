@@ -13,7 +13,9 @@ import type {
   StreamChunk,
   GenerationUsage,
   LanguageModelFactory,
+  ToolCall,
 } from './types.js';
+import { withToolCalling } from './tool-calling.js';
 
 // Global provider for string model ID resolution
 let globalLanguageModelProvider: LanguageModelFactory | null = null;
@@ -87,6 +89,21 @@ function resolveModel(modelOrId: LanguageModel | string): LanguageModel {
  * });
  * ```
  *
+ * @example With tools
+ * ```ts
+ * const result = await streamText({
+ *   model: webllm.languageModel('Hermes-3-Llama-3.1-8B-q4f16_1-MLC'),
+ *   prompt: 'What is the weather in Paris?',
+ *   tools: [weatherTool],
+ * });
+ *
+ * for await (const chunk of result.stream) {
+ *   process.stdout.write(chunk.text);
+ * }
+ *
+ * const toolCalls = await result.toolCalls;
+ * ```
+ *
  * @throws {Error} If model doesn't support streaming or generation fails
  */
 export async function streamText(options: StreamTextOptions): Promise<StreamTextResult> {
@@ -99,6 +116,9 @@ export async function streamText(options: StreamTextOptions): Promise<StreamText
     temperature = 0.7,
     topP = 1.0,
     stopSequences,
+    tools,
+    toolChoice,
+    responseFormat,
     abortSignal,
     providerOptions,
     onChunk,
@@ -107,8 +127,8 @@ export async function streamText(options: StreamTextOptions): Promise<StreamText
   // Check for cancellation before starting
   abortSignal?.throwIfAborted();
 
-  // Resolve the model
-  const model = resolveModel(modelOrId);
+  // Resolve the model, emulating tool calling when it has no native support
+  const model = withToolCalling(resolveModel(modelOrId));
 
   // Check if model supports streaming
   if (!model.doStream) {
@@ -126,6 +146,9 @@ export async function streamText(options: StreamTextOptions): Promise<StreamText
     temperature,
     topP,
     stopSequences,
+    tools,
+    toolChoice,
+    responseFormat,
     abortSignal,
     providerOptions,
   };
@@ -135,10 +158,13 @@ export async function streamText(options: StreamTextOptions): Promise<StreamText
   // Track accumulated text and usage
   let accumulatedText = '';
   let finalUsage: GenerationUsage | null = null;
+  let finalToolCalls: ToolCall[] = [];
   let resolveText: (text: string) => void;
   let rejectText: (error: Error) => void;
   let resolveUsage: (usage: GenerationUsage) => void;
   let rejectUsage: (error: Error) => void;
+  let resolveToolCalls: (toolCalls: ToolCall[]) => void;
+  let rejectToolCalls: (error: Error) => void;
 
   const textPromise = new Promise<string>((resolve, reject) => {
     resolveText = resolve;
@@ -150,6 +176,11 @@ export async function streamText(options: StreamTextOptions): Promise<StreamText
     rejectUsage = reject;
   });
 
+  const toolCallsPromise = new Promise<ToolCall[]>((resolve, reject) => {
+    resolveToolCalls = resolve;
+    rejectToolCalls = reject;
+  });
+
   // Create wrapped stream that tracks state
   async function* wrappedStream(): AsyncIterable<StreamChunk> {
     try {
@@ -173,6 +204,10 @@ export async function streamText(options: StreamTextOptions): Promise<StreamText
           };
         }
 
+        if (chunk.done && chunk.toolCalls) {
+          finalToolCalls = chunk.toolCalls;
+        }
+
         yield chunk;
 
         if (chunk.done) {
@@ -182,6 +217,7 @@ export async function streamText(options: StreamTextOptions): Promise<StreamText
 
       // Resolve promises
       resolveText(accumulatedText);
+      resolveToolCalls(finalToolCalls);
       if (finalUsage) {
         resolveUsage(finalUsage);
       } else {
@@ -196,6 +232,7 @@ export async function streamText(options: StreamTextOptions): Promise<StreamText
     } catch (error) {
       rejectText(error as Error);
       rejectUsage(error as Error);
+      rejectToolCalls(error as Error);
       throw error;
     }
   }
@@ -204,6 +241,7 @@ export async function streamText(options: StreamTextOptions): Promise<StreamText
     stream: wrappedStream(),
     text: textPromise,
     usage: usagePromise,
+    toolCalls: toolCallsPromise,
     response: {
       modelId: model.modelId,
       timestamp: new Date(),
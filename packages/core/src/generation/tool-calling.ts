@@ -0,0 +1,506 @@
+/**
+ * Prompt-Based Tool Calling
+ *
+ * Emulates tool calling for language models without native support: the
+ * tools are described in the system prompt, tool messages are rendered as
+ * text, and a JSON tool-call reply is parsed back into `toolCalls`.
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  ChatMessage,
+  DoGenerateOptions,
+  DoGenerateResult,
+  DoStreamOptions,
+  LanguageModel,
+  LanguageModelTool,
+  StreamChunk,
+  ToolCall,
+  ToolCallDelta,
+  ToolCallDeltaParser,
+  ToolChoice,
+} from './types.js';
+import { extractJSON } from './schema.js';
+import { getTextContent } from './content.js';
+
+let toolCallCounter = 0;
+
+/**
+ * Create an ID for a tool call, unique within the page. Providers use this
+ * when the engine returns tool calls without IDs.
+ *
+ * @returns An ID like `call_m2x8k1a3`
+ */
+export function createToolCallId(): string {
+  toolCallCounter = (toolCallCounter + 1) % Number.MAX_SAFE_INTEGER;
+  return `call_${Date.now().toString(36)}${toolCallCounter.toString(36)}`;
+}
+
+/** Keys of a JSON tool call that hold the tool name */
+const NAME_KEYS = new Set(['name', 'tool']);
+
+/** Keys of a JSON tool call that hold the arguments */
+const ARGS_KEYS = new Set(['arguments', 'args']);
+
+/** A tool call found in a streamed reply */
+interface StreamedCall {
+  id?: string;
+  name?: string;
+  /** Argument text that can be sent as deltas */
+  args: string;
+  /** Length of `args` already sent */
+  sent: number;
+  /** Whether the call's first delta was sent */
+  started: boolean;
+}
+
+/** An open object or array of the streamed JSON */
+interface JSONFrame {
+  kind: 'object' | 'array';
+  /** A tool call, the array of tool calls, or anything else */
+  role: 'call' | 'calls' | 'other';
+  /** The call, for `role: 'call'` */
+  call?: StreamedCall;
+  /** Key of the current member, for objects */
+  key?: string;
+  /** Whether the next string is a key, for objects */
+  expectingKey: boolean;
+}
+
+/**
+ * Follow a JSON tool-call reply as it streams in: `{"tool_calls": [...]}`,
+ * a single `{"name", "arguments"}` object, or an array of them, after any
+ * `<think>` block or code fence. A call starts once its tool name is
+ * complete; its arguments are then sent as they arrive. Arguments given as
+ * a JSON string are sent in one piece when the string is complete.
+ *
+ * Providers whose engine generates tool calls as text use this to fill
+ * `StreamChunk.toolCallDeltas`, and give the final `toolCalls` the IDs in
+ * `toolCallIds`.
+ *
+ * @param toolNames - Tools the model may call; calls to others are skipped
+ * @returns A parser to push the streamed text to
+ *
+ * @example
+ * ```ts
+ * const parser = createToolCallDeltaParser(['search']);
+ * parser.push('{"tool_calls": [{"name": "search", "arguments": {"q"');
+ * // [{ toolCallId: 'call_…', toolName: 'search', argsTextDelta: '{"q"' }]
+ * ```
+ */
+export function createToolCallDeltaParser(toolNames?: Iterable<string>): ToolCallDeltaParser {
+  const known = toolNames ? new Set(toolNames) : null;
+  const toolCallIds: string[] = [];
+  const calls: StreamedCall[] = [];
+  const stack: JSONFrame[] = [];
+
+  // Text before the JSON
+  let prefix = '';
+  let inThink = false;
+  let started = false;
+  let finished = false;
+
+  // The string being read, with its quotes
+  let inString = false;
+  let escaped = false;
+  let stringText = '';
+
+  // Arguments being read: the call and the depth their value started at
+  let capture: { call: StreamedCall; depth: number; isString: boolean } | null = null;
+
+  const decode = (literal: string): string | undefined => {
+    try {
+      const value = JSON.parse(literal) as unknown;
+      return typeof value === 'string' ? value : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  /** Where a value starting now belongs: its frame and member key */
+  const valueStart = (char: string): void => {
+    const top = stack[stack.length - 1];
+    if (top?.role !== 'call' || top.kind !== 'object' || top.expectingKey || !ARGS_KEYS.has(top.key ?? '')) return;
+    if (char === '{' || char === '[' || char === '"') {
+      capture = { call: top.call!, depth: stack.length, isString: char === '"' };
+      top.call!.args = '';
+    }
+  };
+
+  const open = (char: '{' | '['): void => {
+    const parent = stack[stack.length - 1];
+    const kind = char === '{' ? 'object' : 'array';
+    let role: JSONFrame['role'] = 'other';
+    if (!parent) {
+      role = kind === 'object' ? 'call' : 'calls';
+    } else if (parent.role === 'calls' && kind === 'object') {
+      role = 'call';
+    } else if (parent.role === 'call' && parent.key === 'tool_calls' && kind === 'array' && !parent.expectingKey) {
+      role = 'calls';
+    }
+
+    const frame: JSONFrame = { kind, role, expectingKey: kind === 'object' };
+    if (role === 'call') {
+      frame.call = { args: '', sent: 0, started: false };
+      calls.push(frame.call);
+    }
+    stack.push(frame);
+  };
+
+  const stringEnd = (): void => {
+    const top = stack[stack.length - 1];
+    if (top?.kind !== 'object') return;
+    if (top.expectingKey) {
+      top.key = decode(stringText);
+      return;
+    }
+    const call = top.call;
+    if (top.role === 'call' && call && !call.name && NAME_KEYS.has(top.key ?? '')) {
+      const name = decode(stringText);
+      if (name && (!known || known.has(name))) {
+        call.name = name;
+        call.id = createToolCallId();
+        toolCallIds.push(call.id);
+      }
+    }
+  };
+
+  const read = (char: string): void => {
+    if (inString) {
+      stringText += char;
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        stringEnd();
+      }
+      return;
+    }
+
+    const top = stack[stack.length - 1];
+    switch (char) {
+      case '"':
+        valueStart(char);
+        inString = true;
+        stringText = char;
+        break;
+      case '{':
+      case '[':
+        valueStart(char);
+        open(char);
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        if (stack.length === 0) finished = true;
+        break;
+      case ':':
+        if (top?.kind === 'object') top.expectingKey = false;
+        break;
+      case ',':
+        if (top?.kind === 'object') {
+          top.expectingKey = true;
+          top.key = undefined;
+        }
+        break;
+    }
+  };
+
+  const push = (text: string): ToolCallDelta[] => {
+    for (const char of text) {
+      if (finished) break;
+
+      if (!started) {
+        prefix += char;
+        if (inThink) {
+          inThink = !prefix.endsWith('</think>');
+        } else if (prefix.endsWith('<think>')) {
+          inThink = true;
+        } else if (char === '{' || char === '[') {
+          started = true;
+          open(char);
+        }
+        continue;
+      }
+
+      const depth = stack.length;
+      const wasInString = inString;
+      read(char);
+
+      const current: { call: StreamedCall; depth: number; isString: boolean } | null = capture;
+      if (!current) continue;
+      if (current.isString) {
+        current.call.args += char;
+        // The string closed at the depth it opened at
+        if (wasInString && !inString && depth === current.depth) {
+          current.call.args = decode(current.call.args) ?? '';
+          capture = null;
+        }
+      } else {
+        current.call.args += char;
+        if (stack.length === current.depth && depth > current.depth) capture = null;
+      }
+    }
+
+    // Send the arguments read so far of every named call
+    const deltas: ToolCallDelta[] = [];
+    for (const call of calls) {
+      if (!call.id || !call.name) continue;
+      // Arguments given as a string are sent once the string is complete
+      const pending = capture?.call === call && capture.isString;
+      const argsTextDelta = pending ? '' : call.args.slice(call.sent);
+      if (call.started && !argsTextDelta) continue;
+
+      deltas.push({ toolCallId: call.id, toolName: call.name, argsTextDelta });
+      call.started = true;
+      if (!pending) call.sent = call.args.length;
+    }
+    return deltas;
+  };
+
+  return { push, toolCallIds };
+}
+
+/**
+ * Build the tool instructions appended to the system prompt.
+ */
+function buildToolInstructions(tools: LanguageModelTool[], toolChoice: ToolChoice): string {
+  const parts: string[] = ['You can call the following tools:'];
+
+  for (const tool of tools) {
+    parts.push(
+      `- ${tool.name}${tool.description ? `: ${tool.description}` : ''}`,
+      `  Parameters: ${JSON.stringify(tool.parameters)}`
+    );
+  }
+
+  parts.push(
+    '',
+    'To call tools, reply with only this JSON and nothing else:',
+    '{"tool_calls": [{"name": "<tool_name>", "arguments": {<arguments>}}]}',
+    'Tool results are returned in the next message.'
+  );
+
+  if (toolChoice === 'required') {
+    parts.push('You must call at least one tool.');
+  } else if (typeof toolChoice === 'object') {
+    parts.push(`You must call the tool "${toolChoice.toolName}".`);
+  } else {
+    parts.push('If no tool is needed, reply to the user in plain text.');
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Render tool calls and tool results as plain text messages.
+ */
+function renderToolMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((message): ChatMessage => {
+    if (message.role === 'tool') {
+      const name = message.toolName ?? message.toolCallId ?? 'tool';
+      return { role: 'user', content: `Tool result (${name}): ${getTextContent(message.content)}` };
+    }
+
+    if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+      const calls = JSON.stringify({
+        tool_calls: message.toolCalls.map((call) => ({ name: call.toolName, arguments: call.args })),
+      });
+      const text = getTextContent(message.content);
+      return { role: 'assistant', content: text ? `${text}\n${calls}` : calls };
+    }
+
+    return message;
+  });
+}
+
+/**
+ * Parse the tool calls in a model reply. Accepts `{"tool_calls": [...]}`,
+ * a single `{"name", "arguments"}` object, or an array of them. Calls to
+ * unknown tools are ignored.
+ *
+ * @param ids - IDs for the calls to known tools, in reply order, e.g. those
+ *   given while streaming; calls without one get a new ID
+ * @returns The tool calls, or `null` when the reply is not a tool call
+ */
+function parseToolCalls(text: string, tools: LanguageModelTool[], ids: readonly string[] = []): ToolCall[] | null {
+  if (!/[[{]/.test(text)) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = extractJSON(text);
+  } catch {
+    return null;
+  }
+
+  const record = parsed as Record<string, unknown> | null;
+  const candidates: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray(record?.tool_calls)
+      ? (record.tool_calls as unknown[])
+      : [parsed];
+
+  const names = new Set(tools.map((tool) => tool.name));
+  const calls: ToolCall[] = [];
+  let named = 0;
+
+  for (const candidate of candidates) {
+    if (typeof candidate !== 'object' || candidate === null) continue;
+    const call = candidate as Record<string, unknown>;
+    const name = call.name ?? call.tool;
+    if (typeof name !== 'string' || !names.has(name)) continue;
+    const toolCallId = ids[named++] ?? createToolCallId();
+
+    let args = call.arguments ?? call.args ?? {};
+    if (typeof args === 'string') {
+      try {
+        args = JSON.parse(args);
+      } catch {
+        continue;
+      }
+    }
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) continue;
+
+    calls.push({ toolCallId, toolName: name, args: args as Record<string, unknown> });
+  }
+
+  return calls.length > 0 ? calls : null;
+}
+
+/**
+ * Rewrite a request for a model without native tool support.
+ */
+function emulatedRequest<T extends DoGenerateOptions>(options: T): { request: T; tools: LanguageModelTool[] | null } {
+  const { tools, toolChoice = 'auto', ...rest } = options;
+  const messages = options.messages ? renderToolMessages(options.messages) : undefined;
+
+  if (!tools || tools.length === 0 || toolChoice === 'none') {
+    return { request: { ...rest, messages } as T, tools: null };
+  }
+
+  const instructions = buildToolInstructions(tools, toolChoice);
+  const systemPrompt = options.systemPrompt ? `${options.systemPrompt}\n\n${instructions}` : instructions;
+  return { request: { ...rest, systemPrompt, messages } as T, tools };
+}
+
+/**
+ * Whether streamed text may still turn out to be a JSON tool call.
+ */
+function mayBeToolCall(text: string): boolean {
+  const trimmed = text.replace(/<think>[\s\S]*?<\/think>/g, '').trimStart();
+  return trimmed === '' || trimmed.startsWith('<think>') || /^(\{|\[|```)/.test(trimmed);
+}
+
+/**
+ * Get a model that handles `tools`, `toolChoice` and tool messages.
+ *
+ * Returns the model itself when it supports tools natively. Otherwise
+ * returns a wrapper that describes the tools in the system prompt, renders
+ * tool calls and results in the conversation as text, and parses a JSON
+ * tool-call reply into `toolCalls`. `generateText()` and `streamText()`
+ * apply this automatically; use it when calling `doGenerate()` directly.
+ *
+ * When streaming, text that may be a tool call is held back until it is
+ * clear that it is not. A tool call streams as `toolCallDeltas` while it
+ * is generated, and arrives complete on the final chunk.
+ *
+ * @param model - The language model
+ * @returns A model with `supportsTools: true`
+ *
+ * @example
+ * ```ts
+ * import { withToolCalling } from '@localmode/core';
+ *
+ * const model = withToolCalling(transformers.languageModel('onnx-community/Qwen3-0.6B-ONNX'));
+ * const { toolCalls } = await model.doGenerate({
+ *   prompt: 'What is the weather in Paris?',
+ *   tools: [weatherTool],
+ * });
+ * ```
+ */
+export function withToolCalling(model: LanguageModel): LanguageModel {
+  if (model.supportsTools) return model;
+
+  const wrapped: LanguageModel = {
+    modelId: model.modelId,
+    provider: model.provider,
+    contextLength: model.contextLength,
+    supportsVision: model.supportsVision,
+    supportsTools: true,
+    supportsStructuredOutput: model.supportsStructuredOutput,
+    enforcesResponseFormat: model.enforcesResponseFormat?.bind(model),
+
+    async doGenerate(options: DoGenerateOptions): Promise<DoGenerateResult> {
+      const { request, tools } = emulatedRequest(options);
+      const result = await model.doGenerate(request);
+      const toolCalls = tools ? parseToolCalls(result.text, tools) : null;
+      if (!toolCalls) return result;
+      return { ...result, text: '', finishReason: 'tool_calls', toolCalls };
+    },
+  };
+
+  if (model.doStream) {
+    const doStream = model.doStream.bind(model);
+    wrapped.doStream = async function* (options: DoStreamOptions): AsyncIterable<StreamChunk> {
+      const { request, tools } = emulatedRequest(options);
+      if (!tools) {
+        yield* doStream(request);
+        return;
+      }
+
+      let buffered = '';
+      let holding = true;
+      const parser = createToolCallDeltaParser(tools.map((tool) => tool.name));
+
+      for await (const chunk of doStream(request)) {
+        let toolCallDeltas: ToolCallDelta[] = [];
+        if (holding) {
+          buffered += chunk.text;
+          holding = mayBeToolCall(buffered);
+          if (!holding) {
+            yield { ...chunk, text: buffered };
+            if (chunk.done) return;
+            continue;
+          }
+
+          toolCallDeltas = parser.push(chunk.text);
+          if (toolCallDeltas.length > 0 && !chunk.done) {
+            yield { text: '', done: false, toolCallDeltas };
+          }
+        } else if (!chunk.done) {
+          yield chunk;
+          continue;
+        }
+
+        if (chunk.done) {
+          const toolCalls = holding ? parseToolCalls(buffered, tools, parser.toolCallIds) : null;
+          if (toolCalls) {
+            yield {
+              ...chunk,
+              text: '',
+              finishReason: 'tool_calls',
+              toolCalls,
+              ...(toolCallDeltas.length > 0 ? { toolCallDeltas } : {}),
+            };
+          } else {
+            yield { ...chunk, text: holding ? buffered : chunk.text };
+          }
+          return;
+        }
+      }
+
+      // Stream ended without a final chunk
+      if (holding && buffered) {
+        const toolCalls = parseToolCalls(buffered, tools, parser.toolCallIds);
+        yield toolCalls
+          ? { text: '', done: true, finishReason: 'tool_calls', toolCalls }
+          : { text: buffered, done: true, finishReason: 'stop' };
+      }
+    };
+  }
+
+  return wrapped;
+}
@@ -136,13 +136,122 @@ export interface GenerationResponse {
 /**
  * Reason for generation completion.
  */
-export type FinishReason = 'stop' | 'length' | 'content_filter' | 'error';
+export type FinishReason = 'stop' | 'length' | 'content_filter' | 'tool_calls' | 'error';
+
+// ═══════════════════════════════════════════════════════════════
+// TOOL CALLING
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * A tool the model may call, described by a JSON Schema for its arguments.
+ *
+ * @example
+ * ```ts
+ * const weather: LanguageModelTool = {
+ *   name: 'get_weather',
+ *   description: 'Get the current weather for a city',
+ *   parameters: {
+ *     type: 'object',
+ *     properties: { city: { type: 'string' } },
+ *     required: ['city'],
+ *   },
+ * };
+ * ```
+ */
+export interface LanguageModelTool {
+  /** Tool name, unique within a request */
+  name: string;
+
+  /** What the tool does, shown to the model */
+  description?: string;
+
+  /** JSON Schema of the tool arguments */
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * Which tools the model may call.
+ *
+ * - `'auto'` — the model decides whether to call tools (default)
+ * - `'none'` — the model must not call tools
+ * - `'required'` — the model must call at least one tool
+ * - `{ type: 'tool', toolName }` — the model must call the named tool
+ */
+export type ToolChoice = 'auto' | 'none' | 'required' | { type: 'tool'; toolName: string };
+
+/**
+ * A tool call generated by the model.
+ */
+export interface ToolCall {
+  /** Identifier that the tool result message refers to */
+  toolCallId: string;
+
+  /** Name of the tool to call */
+  toolName: string;
+
+  /** Parsed arguments */
+  args: Record<string, unknown>;
+}
+
+/**
+ * A piece of a tool call, streamed as the model generates it.
+ */
+export interface ToolCallDelta {
+  /** ID of the tool call, the same as in the final chunk's `toolCalls` */
+  toolCallId: string;
+
+  /** Name of the tool to call */
+  toolName: string;
+
+  /** JSON text to append to the call's arguments */
+  argsTextDelta: string;
+}
+
+/**
+ * Reads a JSON tool-call reply as it streams in, created with
+ * `createToolCallDeltaParser()`.
+ */
+export interface ToolCallDeltaParser {
+  /** Read the next piece of the reply, returning the deltas it completes */
+  push(text: string): ToolCallDelta[];
+
+  /** IDs given to the calls found so far, in reply order */
+  readonly toolCallIds: readonly string[];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// RESPONSE FORMAT
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Format the model output must follow.
+ *
+ * Models with `supportsStructuredOutput` constrain decoding to it (for
+ * example with a GBNF grammar or a JSON Schema response format); other
+ * models ignore it.
+ *
+ * @example
+ * ```ts
+ * const format: ResponseFormat = {
+ *   type: 'json',
+ *   schema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+ * };
+ * ```
+ */
+export interface ResponseFormat {
+  /** Output JSON */
+  type: 'json';
+
+  /** JSON Schema the output must match (any JSON value when omitted) */
+  schema?: Record<string, unknown>;
+}
 
 /**
  * A single message in a conversation.
  *
  * Content can be a plain string (text-only) or an array of content parts
- * for multimodal messages (text + images).
+ * for multimodal messages (text + images). Assistant messages carry the
+ * tool calls the model made; each result goes back in a `tool` message.
  *
  * @example Text-only message
  * ```ts
@@ -159,13 +268,35 @@ export type FinishReason = 'stop' | 'length' | 'content_filter' | 'error';
  *   ],
  * };
  * ```
+ *
+ * @example Tool call and result
+ * ```ts
+ * const messages: ChatMessage[] = [
+ *   { role: 'user', content: 'Weather in Paris?' },
+ *   {
+ *     role: 'assistant',
+ *     content: '',
+ *     toolCalls: [{ toolCallId: 'call_1', toolName: 'get_weather', args: { city: 'Paris' } }],
+ *   },
+ *   { role: 'tool', content: '{"tempC":18}', toolCallId: 'call_1', toolName: 'get_weather' },
+ * ];
+ * ```
  */
 export interface ChatMessage {
   /** Role of the message sender */
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
 
   /** Message content — string for text-only, ContentPart[] for multimodal */
   content: string | ContentPart[];
+
+  /** Tool calls made by the model (assistant messages) */
+  toolCalls?: ToolCall[];
+
+  /** ID of the tool call this message answers (tool messages) */
+  toolCallId?: string;
+
+  /** Name of the tool that produced this result (tool messages) */
+  toolName?: string;
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -194,6 +325,29 @@ export interface LanguageModel {
    */
   readonly supportsVision?: boolean;
 
+  /**
+   * Whether this model handles `tools` natively (chat template or engine
+   * function calling). When falsy, `generateText()` and `streamText()`
+   * emulate tool calling with prompt instructions.
+   */
+  readonly supportsTools?: boolean;
+
+  /**
+   * Whether this model constrains decoding to `responseFormat`, so its
+   * output is always valid JSON matching the schema. `generateObject()`
+   * skips retries by default for such models.
+   */
+  readonly supportsStructuredOutput?: boolean;
+
+  /**
+   * Whether constraining decoding to `format` enforces every keyword of its
+   * schema. Models that constrain decoding but cannot enforce some keywords
+   * (such as `pattern` or numeric bounds) return `false`, and
+   * `generateObject()` keeps its retries for them. Assumed `true` when
+   * omitted.
+   */
+  enforcesResponseFormat?(format: ResponseFormat): boolean;
+
   /**
    * Generate text completion.
    *
@@ -236,6 +390,15 @@ export interface DoGenerateOptions {
   /** Stop sequences */
   stopSequences?: string[];
 
+  /** Tools the model may call */
+  tools?: LanguageModelTool[];
+
+  /** Which tools the model may call (default: 'auto') */
+  toolChoice?: ToolChoice;
+
+  /** Output format to constrain decoding to, when supported */
+  responseFormat?: ResponseFormat;
+
   /** AbortSignal for cancellation */
   abortSignal?: AbortSignal;
 
@@ -255,6 +418,9 @@ export interface DoGenerateResult {
 
   /** Usage information */
   usage: GenerationUsage;
+
+  /** Tool calls generated by the model */
+  toolCalls?: ToolCall[];
 }
 
 /**
@@ -277,6 +443,15 @@ export interface StreamChunk {
 
   /** Usage information (only on final chunk) */
   usage?: GenerationUsage;
+
+  /** Tool calls generated by the model (only on final chunk) */
+  toolCalls?: ToolCall[];
+
+  /**
+   * Pieces of tool calls as they are generated. The first delta of a call
+   * starts it; the final chunk's `toolCalls` holds the complete calls.
+   */
+  toolCallDeltas?: ToolCallDelta[];
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -320,6 +495,15 @@ export interface GenerateTextOptions {
   /** Stop sequences */
   stopSequences?: string[];
 
+  /** Tools the model may call; the calls are returned in `toolCalls` */
+  tools?: LanguageModelTool[];
+
+  /** Which tools the model may call (default: 'auto') */
+  toolChoice?: ToolChoice;
+
+  /** Output format to constrain decoding to (models with `supportsStructuredOutput`) */
+  responseFormat?: ResponseFormat;
+
   /** AbortSignal for cancellation */
   abortSignal?: AbortSignal;
 
@@ -343,6 +527,9 @@ export interface GenerateTextResult {
   /** Usage information */
   usage: GenerationUsage;
 
+  /** Tool calls generated by the model (empty when it answered in text) */
+  toolCalls: ToolCall[];
+
   /** Response metadata */
   response: GenerationResponse;
 }
@@ -392,6 +579,15 @@ export interface StreamTextOptions {
   /** Stop sequences */
   stopSequences?: string[];
 
+  /** Tools the model may call; the calls are returned in `toolCalls` */
+  tools?: LanguageModelTool[];
+
+  /** Which tools the model may call (default: 'auto') */
+  toolChoice?: ToolChoice;
+
+  /** Output format to constrain decoding to (models with `supportsStructuredOutput`) */
+  responseFormat?: ResponseFormat;
+
   /** AbortSignal for cancellation */
   abortSignal?: AbortSignal;
 
@@ -418,6 +614,9 @@ export interface StreamTextResult {
   /** Promise that resolves to usage when complete */
   usage: Promise<GenerationUsage>;
 
+  /** Promise that resolves to the tool calls when complete */
+  toolCalls: Promise<ToolCall[]>;
+
   /** Response metadata */
   response: GenerationResponse;
 }
@@ -453,7 +652,7 @@ export interface ObjectSchema<T = unknown> {
   /** Validate and parse raw value against the schema */
   parse: (value: unknown) => T;
 
-  /** JSON Schema representation (for prompt construction) */
+  /** JSON Schema representation (for prompt construction and constrained decoding) */
   jsonSchema: Record<string, unknown>;
 
   /** Human-readable description of the schema */
@@ -507,7 +706,10 @@ export interface GenerateObjectOptions<T> {
   /** Top-p sampling (default: 1.0) */
   topP?: number;
 
-  /** Maximum validation+retry attempts (default: 3) */
+  /**
+   * Maximum validation+retry attempts (default: 3, or 1 when the model
+   * `supportsStructuredOutput`)
+   */
   maxRetries?: number;
 
   /** AbortSignal for cancellation */
@@ -688,23 +890,25 @@ export interface LanguageModelMiddleware {
 
   /**
    * Wrap the generate call (for caching, logging, retry, etc.).
-   * Called with the doGenerate function, prompt, and model reference.
+   * Called with the doGenerate function, prompt, tools, and model reference.
    * The middleware controls whether the original model is called.
    */
   wrapGenerate?: (options: {
     doGenerate: () => Promise<DoGenerateResult>;
     prompt: string;
+    tools?: LanguageModelTool[];
     model: LanguageModel;
   }) => Promise<DoGenerateResult>;
 
   /**
    * Wrap the stream call (for caching, logging, retry, etc.).
-   * Called with the doStream function, prompt, and model reference.
+   * Called with the doStream function, prompt, tools, and model reference.
    * The middleware controls whether the original model's stream is used.
    */
   wrapStream?: (options: {
     doStream: () => AsyncIterable<StreamChunk>;
     prompt: string;
+    tools?: LanguageModelTool[];
     model: LanguageModel;
   }) => AsyncIterable<StreamChunk>;
 }
@@ -99,7 +99,53 @@ export function normalize(v: Float32Array): Float32Array {
   return result;
 }
 
-export type DistanceFunction = 'cosine' | 'euclidean' | 'dot';
+/** Number of set bits in each byte value. */
+const POPCOUNT = new Uint8Array(256);
+for (let i = 1; i < 256; i++) {
+  POPCOUNT[i] = (i & 1) + POPCOUNT[i >> 1];
+}
+
+/**
+ * Compute the Hamming distance between two packed binary codes: the number
+ * of bits that differ, counted a byte at a time with a popcount table.
+ */
+export function hammingDistance(a: Uint8Array, b: Uint8Array): number {
+  if (a.length !== b.length) {
+    throw new Error(`Binary code length mismatch: ${a.length} vs ${b.length}`);
+  }
+
+  let count = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    count += POPCOUNT[a[i] ^ b[i]];
+  }
+
+  return count;
+}
+
+/**
+ * Fraction of dimensions whose signs differ, the Hamming distance of the
+ * vectors' binary codes normalized to 0-1.
+ */
+function signHammingDistance(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector dimension mismatch: ${a.length} vs ${b.length}`);
+  }
+
+  let count = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] > 0 !== b[i] > 0) count++;
+  }
+
+  return a.length === 0 ? 0 : count / a.length;
+}
+
+/**
+ * Distance metric. `'hamming'` compares the sign bits of the vectors and
+ * reports the fraction of differing bits (0-1).
+ */
+export type DistanceFunction = 'cosine' | 'euclidean' | 'dot' | 'hamming';
 
 /**
  * Get the appropriate distance function.
@@ -116,6 +162,8 @@ export function getDistanceFunction(
     case 'dot':
       // For dot product, we negate since HNSW expects lower = better
       return (a, b) => -dotProduct(a, b);
+    case 'hamming':
+      return signHammingDistance;
     default:
       return cosineDistance;
   }
@@ -136,6 +184,9 @@ export function distanceToScore(distance: number, type: DistanceFunction): numbe
     case 'dot':
       // We negated for distance, so negate back
       return -distance;
+    case 'hamming':
+      // Fraction of matching bits
+      return 1 - distance;
     default:
       return 1 - distance;
   }
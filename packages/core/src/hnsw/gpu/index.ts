@@ -21,6 +21,7 @@ export {
   COSINE_DISTANCE_SHADER,
   EUCLIDEAN_DISTANCE_SHADER,
   DOT_PRODUCT_DISTANCE_SHADER,
+  HAMMING_DISTANCE_SHADER,
   getShaderSource,
 } from './shaders.js';
 
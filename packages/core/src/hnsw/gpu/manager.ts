@@ -12,9 +12,24 @@
 
 import { LocalModeError } from '../../errors/index.js';
 import type { DistanceFunction } from '../distance.js';
+import { binaryCodeLength, binaryQuantize } from '../../quantization/binary.js';
 import { getShaderSource } from './shaders.js';
 import { WORKGROUP_SIZE, type GPUBufferEntry, type GPUManagerOptions } from './types.js';
 
+/** Metrics a pipeline is compiled for. */
+const METRICS: DistanceFunction[] = ['cosine', 'euclidean', 'dot', 'hamming'];
+
+/**
+ * Pack a vector's sign bits into u32 words for the Hamming shader. Float32
+ * vectors are binarized first; Uint8Array vectors are already packed codes.
+ */
+function toBinaryWords(vector: Float32Array | Uint8Array, words: number): Uint32Array {
+  const code = vector instanceof Uint8Array ? vector : binaryQuantize(vector);
+  const packed = new Uint32Array(words);
+  new Uint8Array(packed.buffer).set(code);
+  return packed;
+}
+
 /**
  * Manages WebGPU device, pipeline cache, and buffer pool for GPU-accelerated
  * vector distance computation.
@@ -60,8 +75,8 @@ export class GPUDistanceManager {
   /**
    * Create a new GPUDistanceManager.
    *
-   * Requests a GPU adapter and device, compiles compute pipelines for all
-   * three distance metrics, and returns an initialized manager.
+   * Requests a GPU adapter and device, compiles compute pipelines for every
+   * distance metric, and returns an initialized manager.
    *
    * @param options - Optional configuration
    * @returns Initialized GPUDistanceManager
@@ -99,12 +114,11 @@ export class GPUDistanceManager {
 
     const device = await adapter.requestDevice();
 
-    // Compile pipelines for all three metrics
-    const metrics: DistanceFunction[] = ['cosine', 'euclidean', 'dot'];
+    // Compile pipelines for every metric
     const pipelines = new Map<DistanceFunction, GPUComputePipeline>();
     const bindGroupLayouts = new Map<DistanceFunction, GPUBindGroupLayout>();
 
-    for (const metric of metrics) {
+    for (const metric of METRICS) {
       const shaderCode = getShaderSource(metric);
       const shaderModule = device.createShaderModule({ code: shaderCode });
 
@@ -158,16 +172,22 @@ export class GPUDistanceManager {
    *
    * Automatically sub-batches if the candidate data exceeds GPU buffer size limits.
    *
+   * For `'hamming'`, vectors may be Float32Array (binarized before upload) or
+   * packed binary codes from `binaryQuantize()`.
+   *
    * @param query - The query vector
    * @param candidates - Array of candidate vectors
    * @param metric - Distance metric to use
+   * @param dimensions - Number of dimensions of packed binary codes. Defaults
+   *   to 8 per byte; other vectors use their length.
    * @returns Float32Array of distances, one per candidate
    * @throws {LocalModeError} With code 'GPU_DESTROYED' if the manager has been disposed
    */
   async computeDistances(
-    query: Float32Array,
-    candidates: Float32Array[],
+    query: Float32Array | Uint8Array,
+    candidates: Array<Float32Array | Uint8Array>,
     metric: DistanceFunction,
+    dimensions?: number,
   ): Promise<Float32Array> {
     if (this.disposed) {
       throw new LocalModeError(
@@ -186,17 +206,22 @@ export class GPUDistanceManager {
       return new Float32Array(0);
     }
 
-    const dimensions = query.length;
+    // Hamming reads packed sign bits; other metrics read Float32 values
+    const binary = metric === 'hamming';
+    const vectorDimensions =
+      dimensions ?? (query instanceof Uint8Array ? query.length * 8 : query.length);
+    const stride = binary ? Math.ceil(binaryCodeLength(vectorDimensions) / 4) : vectorDimensions;
+    const queryData = binary ? toBinaryWords(query, stride) : (query as Float32Array);
     const totalCandidates = candidates.length;
 
     // Check if sub-batching is needed
-    const bytesPerCandidate = dimensions * 4; // Float32 = 4 bytes
+    const bytesPerCandidate = stride * 4; // Float32 or u32 = 4 bytes
     const maxBufferSize = this.device.limits.maxStorageBufferBindingSize;
     const maxCandidatesPerBatch = Math.floor(maxBufferSize / bytesPerCandidate);
 
     if (maxCandidatesPerBatch < 1) {
       throw new LocalModeError(
-        `Vector dimensions (${dimensions}) too large for GPU buffer limits.`,
+        `Vector dimensions (${vectorDimensions}) too large for GPU buffer limits.`,
         'GPU_BUFFER_LIMIT',
         { hint: 'Reduce vector dimensions or use CPU distance functions.' },
       );
@@ -204,7 +229,7 @@ export class GPUDistanceManager {
 
     if (totalCandidates <= maxCandidatesPerBatch) {
       // Single dispatch
-      return this.dispatchBatch(query, candidates, metric, dimensions);
+      return this.dispatchBatch(queryData, candidates, metric, vectorDimensions, stride);
     }
 
     // Sub-batch: split candidates into chunks that fit within GPU limits
@@ -214,7 +239,13 @@ export class GPUDistanceManager {
     while (offset < totalCandidates) {
       const batchEnd = Math.min(offset + maxCandidatesPerBatch, totalCandidates);
       const batchCandidates = candidates.slice(offset, batchEnd);
-      const batchResults = await this.dispatchBatch(query, batchCandidates, metric, dimensions);
+      const batchResults = await this.dispatchBatch(
+        queryData,
+        batchCandidates,
+        metric,
+        vectorDimensions,
+        stride,
+      );
 
       allResults.set(batchResults, offset);
       offset = batchEnd;
@@ -228,19 +259,28 @@ export class GPUDistanceManager {
    * @internal
    */
   private async dispatchBatch(
-    query: Float32Array,
-    candidates: Float32Array[],
+    query: Float32Array | Uint32Array,
+    candidates: Array<Float32Array | Uint8Array>,
     metric: DistanceFunction,
     dimensions: number,
+    stride: number,
   ): Promise<Float32Array> {
     const candidateCount = candidates.length;
     const pipeline = this.pipelines.get(metric)!;
     const bindGroupLayout = this.bindGroupLayouts.get(metric)!;
 
-    // Pack candidate vectors into a contiguous Float32Array
-    const packedCandidates = new Float32Array(candidateCount * dimensions);
-    for (let i = 0; i < candidateCount; i++) {
-      packedCandidates.set(candidates[i], i * dimensions);
+    // Pack candidate vectors into a contiguous array, `stride` elements apart
+    let packedCandidates: Float32Array | Uint32Array;
+    if (metric === 'hamming') {
+      packedCandidates = new Uint32Array(candidateCount * stride);
+      for (let i = 0; i < candidateCount; i++) {
+        packedCandidates.set(toBinaryWords(candidates[i], stride), i * stride);
+      }
+    } else {
+      packedCandidates = new Float32Array(candidateCount * stride);
+      for (let i = 0; i < candidateCount; i++) {
+        packedCandidates.set(candidates[i] as Float32Array, i * stride);
+      }
     }
 
     // Create params buffer data (dimensions, candidate_count as u32)
@@ -353,8 +393,7 @@ export class GPUDistanceManager {
       this.device = device;
 
       // Re-compile pipelines
-      const metrics: DistanceFunction[] = ['cosine', 'euclidean', 'dot'];
-      for (const metric of metrics) {
+      for (const metric of METRICS) {
         const shaderCode = getShaderSource(metric);
         const shaderModule = device.createShaderModule({ code: shaderCode });
 
@@ -12,6 +12,9 @@
  * - @group(0) @binding(2): result distances (storage, read_write)
  * - @group(0) @binding(3): params uniform (dimensions, candidate_count)
  *
+ * The Hamming shader reads packed sign bits instead of f32 values: each vector
+ * is `ceil(dimensions / 32)` u32 words, and `dimensions` is the bit count.
+ *
  * @packageDocumentation
  */
 
@@ -135,10 +138,46 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
 }
 `;
 
+/**
+ * WGSL compute shader for Hamming distance over packed sign bits.
+ *
+ * Counts the differing bits with `countOneBits(a ^ b)` per u32 word and
+ * divides by the bit count, matching the CPU `'hamming'` distance (0-1).
+ */
+export const HAMMING_DISTANCE_SHADER = /* wgsl */ `
+struct Params {
+  dimensions: u32,
+  candidate_count: u32,
+}
+
+@group(0) @binding(0) var<storage, read> query: array<u32>;
+@group(0) @binding(1) var<storage, read> candidates: array<u32>;
+@group(0) @binding(2) var<storage, read_write> results: array<f32>;
+@group(0) @binding(3) var<uniform> params: Params;
+
+@compute @workgroup_size(256)
+fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
+  let idx = gid.x;
+  if (idx >= params.candidate_count) {
+    return;
+  }
+
+  let words = (params.dimensions + 31u) / 32u;
+  let offset = idx * words;
+  var count: u32 = 0u;
+
+  for (var i: u32 = 0u; i < words; i = i + 1u) {
+    count = count + countOneBits(query[i] ^ candidates[offset + i]);
+  }
+
+  results[idx] = f32(count) / f32(params.dimensions);
+}
+`;
+
 /**
  * Get the WGSL shader source string for a given distance metric.
  *
- * @param metric - The distance metric ('cosine', 'euclidean', or 'dot')
+ * @param metric - The distance metric ('cosine', 'euclidean', 'dot', or 'hamming')
  * @returns The WGSL shader source string
  *
  * @example
@@ -155,6 +194,8 @@ export function getShaderSource(metric: DistanceFunction): string {
       return EUCLIDEAN_DISTANCE_SHADER;
     case 'dot':
       return DOT_PRODUCT_DISTANCE_SHADER;
+    case 'hamming':
+      return HAMMING_DISTANCE_SHADER;
     default:
       return COSINE_DISTANCE_SHADER;
   }
@@ -0,0 +1,205 @@
+/**
+ * Compact binary encoding of HNSW graphs.
+ *
+ * A graph is encoded as a table of node IDs followed by 32-bit words: a
+ * header, then for each node its ID ordinal, level and, per level, the number
+ * of neighbors and their ordinals. Full snapshots list every node; deltas list
+ * only the nodes that changed plus the ordinals of deleted nodes, in the same
+ * layout.
+ *
+ * Decoding is lazy: node IDs and levels are read up front, connection lists
+ * are only turned into ID sets when a node is first visited.
+ */
+
+/** First word of every encoded graph. */
+const MAGIC = 0x484e5357; // 'HNSW'
+
+/** Version of the binary layout. */
+const VERSION = 1;
+
+/** Number of `Uint32` words before the node records. */
+const HEADER_WORDS = 6;
+
+/**
+ * A node as read or written by the encoder.
+ */
+export interface GraphNodeRecord {
+  id: string;
+  level: number;
+  connections: Map<number, Set<string>>;
+}
+
+/**
+ * The parts of an HNSW graph stored in a snapshot or delta.
+ */
+export interface GraphRecord {
+  dimensions: number;
+  m: number;
+  efConstruction: number;
+  maxLevel: number;
+  entryPointId: string | null;
+  /** Nodes to write (every node for snapshots, changed nodes for deltas) */
+  nodes: Iterable<GraphNodeRecord>;
+  /** IDs of deleted nodes (deltas only) */
+  deleted: string[];
+}
+
+/**
+ * A decoded node whose connections are read on first access.
+ */
+export interface DecodedGraphNode {
+  id: string;
+  level: number;
+  connections: () => Map<number, Set<string>>;
+}
+
+/**
+ * A decoded snapshot or delta.
+ */
+export interface DecodedGraph extends Omit<GraphRecord, 'nodes'> {
+  nodes: DecodedGraphNode[];
+}
+
+/**
+ * Encode a graph snapshot or delta.
+ *
+ * Layout: `[MAGIC, VERSION, wordCount, stringCount]`, the words, the byte
+ * offsets of the IDs (`stringCount + 1` words) and the UTF-8 ID bytes.
+ */
+export function encodeGraph(graph: GraphRecord): Uint8Array {
+  const ordinals = new Map<string, number>();
+  const strings: string[] = [];
+  const ordinal = (id: string): number => {
+    let n = ordinals.get(id);
+    if (n === undefined) {
+      n = strings.length;
+      ordinals.set(id, n);
+      strings.push(id);
+    }
+    return n;
+  };
+
+  const nodes = [...graph.nodes];
+  // Node IDs come first so snapshot ordinals follow node order
+  for (const node of nodes) ordinal(node.id);
+
+  const words: number[] = [
+    graph.dimensions,
+    graph.m,
+    graph.efConstruction,
+    graph.maxLevel,
+    graph.entryPointId === null ? 0 : ordinal(graph.entryPointId) + 1,
+    nodes.length,
+  ];
+  for (const node of nodes) {
+    words.push(ordinal(node.id), node.level);
+    for (let l = 0; l <= node.level; l++) {
+      const connections = node.connections.get(l);
+      words.push(connections?.size ?? 0);
+      for (const neighborId of connections ?? []) {
+        words.push(ordinal(neighborId));
+      }
+    }
+  }
+  words.push(graph.deleted.length);
+  for (const id of graph.deleted) {
+    words.push(ordinal(id));
+  }
+
+  const encoder = new TextEncoder();
+  const encoded = strings.map((s) => encoder.encode(s));
+  const stringBytes = encoded.reduce((sum, bytes) => sum + bytes.length, 0);
+
+  const wordBytes = (4 + words.length + strings.length + 1) * 4;
+  const buffer = new ArrayBuffer(wordBytes + stringBytes);
+  const header = new Uint32Array(buffer, 0, 4);
+  header.set([MAGIC, VERSION, words.length, strings.length]);
+  new Uint32Array(buffer, 16, words.length).set(words);
+
+  const offsets = new Uint32Array(buffer, 16 + words.length * 4, strings.length + 1);
+  const bytes = new Uint8Array(buffer, wordBytes);
+  let at = 0;
+  for (let i = 0; i < encoded.length; i++) {
+    offsets[i] = at;
+    bytes.set(encoded[i], at);
+    at += encoded[i].length;
+  }
+  offsets[encoded.length] = at;
+
+  return new Uint8Array(buffer);
+}
+
+/**
+ * Decode a graph written by {@link encodeGraph}.
+ *
+ * @throws {Error} If the data is not an encoded graph of a supported version.
+ */
+export function decodeGraph(data: Uint8Array): DecodedGraph {
+  // Typed array views need 4-byte alignment
+  const bytes = data.byteOffset % 4 === 0 ? data : data.slice();
+  const header = new Uint32Array(bytes.buffer, bytes.byteOffset, 4);
+  if (header[0] !== MAGIC || header[1] !== VERSION) {
+    throw new Error('Unsupported HNSW graph encoding');
+  }
+
+  const wordCount = header[2];
+  const stringCount = header[3];
+  const words = new Uint32Array(bytes.buffer, bytes.byteOffset + 16, wordCount);
+  const offsets = new Uint32Array(bytes.buffer, bytes.byteOffset + 16 + wordCount * 4, stringCount + 1);
+  const stringBase = bytes.byteOffset + (4 + wordCount + stringCount + 1) * 4;
+
+  const decoder = new TextDecoder();
+  const strings = new Array<string>(stringCount);
+  for (let i = 0; i < stringCount; i++) {
+    strings[i] = decoder.decode(new Uint8Array(bytes.buffer, stringBase + offsets[i], offsets[i + 1] - offsets[i]));
+  }
+
+  const nodeCount = words[5];
+  const nodes: DecodedGraphNode[] = new Array(nodeCount);
+  let at = HEADER_WORDS;
+  for (let n = 0; n < nodeCount; n++) {
+    const id = strings[words[at]];
+    const level = words[at + 1];
+    const start = at + 2;
+
+    // Skip the connection lists; they are read when the node is visited
+    at = start;
+    for (let l = 0; l <= level; l++) {
+      at += 1 + words[at];
+    }
+
+    nodes[n] = {
+      id,
+      level,
+      connections: () => {
+        const connections = new Map<number, Set<string>>();
+        let i = start;
+        for (let l = 0; l <= level; l++) {
+          const count = words[i++];
+          const set = new Set<string>();
+          for (let c = 0; c < count; c++) {
+            set.add(strings[words[i++]]);
+          }
+          connections.set(l, set);
+        }
+        return connections;
+      },
+    };
+  }
+
+  const deletedCount = words[at++];
+  const deleted: string[] = [];
+  for (let d = 0; d < deletedCount; d++) {
+    deleted.push(strings[words[at++]]);
+  }
+
+  return {
+    dimensions: words[0],
+    m: words[1],
+    efConstruction: words[2],
+    maxLevel: words[3],
+    entryPointId: words[4] === 0 ? null : strings[words[4] - 1],
+    nodes,
+    deleted,
+  };
+}
@@ -9,10 +9,30 @@
  * When GPU is enabled, batch distance computations in `searchLayer()` are offloaded
  * to GPU compute shaders for candidate sets exceeding the batch threshold. Falls back
  * to CPU distance functions for small sets or when WebGPU is unavailable.
+ *
+ * With the `'hamming'` distance function, vectors are kept as packed sign bits
+ * (see `binaryQuantize()`), using 1/32 of the memory of Float32 vectors.
+ *
+ * The index tracks which nodes changed since it was last serialized, so a
+ * write can persist a small binary delta (`serializeDelta()`) instead of the
+ * whole graph (`serializeBinary()`).
  */
 
-import type { HNSWOptions, SerializedHNSWIndex } from '../types.js';
-import { getDistanceFunction, distanceToScore, type DistanceFunction } from './distance.js';
+import type {
+  HNSWOptions,
+  HNSWSearchOptions,
+  HNSWGroupSearchOptions,
+  HNSWGroupResult,
+  SerializedHNSWIndex,
+} from '../types.js';
+import {
+  getDistanceFunction,
+  distanceToScore,
+  hammingDistance,
+  type DistanceFunction,
+} from './distance.js';
+import { binaryQuantize, binaryDequantize } from '../quantization/binary.js';
+import { encodeGraph, decodeGraph, type DecodedGraph, type GraphRecord } from './graph-format.js';
 import type { HNSWGPUOptions } from './gpu/types.js';
 import { DEFAULT_BATCH_THRESHOLD } from './gpu/types.js';
 import type { GPUDistanceManager } from './gpu/manager.js';
@@ -23,11 +43,20 @@ interface HNSWNode {
   connections: Map<number, Set<string>>; // level -> connected node IDs
 }
 
-interface SearchCandidate {
+/** A vector as held by the index: Float32 values, or packed sign bits for Hamming. */
+type IndexVector = Float32Array | Uint8Array;
+
+export interface SearchCandidate {
   id: string;
   distance: number;
 }
 
+/** Default selectivity below which filtered searches fall back to a brute-force scan. */
+const DEFAULT_BRUTE_FORCE_THRESHOLD = 0.05;
+
+/** Number of nodes sampled to estimate the selectivity of a predicate filter. */
+const SELECTIVITY_SAMPLE_SIZE = 128;
+
 /**
  * Priority queue for nearest neighbor search.
  * Min-heap implementation for efficient retrieval of closest elements.
@@ -98,7 +127,7 @@ class MinHeap {
 /**
  * Max-heap for maintaining the furthest k candidates.
  */
-class MaxHeap {
+export class MaxHeap {
   private heap: SearchCandidate[] = [];
 
   get size(): number {
@@ -167,16 +196,20 @@ class MaxHeap {
 
 export class HNSWIndex {
   private nodes: Map<string, HNSWNode> = new Map();
-  private vectors: Map<string, Float32Array> = new Map();
+  private vectors: Map<string, IndexVector> = new Map();
   private entryPointId: string | null = null;
   private maxLevel = 0;
+  /** Nodes added, deleted or reconnected since the last serialization */
+  private dirty = new Set<string>();
+  /** Whether the graph must be serialized in full (new, cleared or loaded from JSON) */
+  private snapshotNeeded = true;
 
   private readonly m: number; // Max connections per node
   private readonly mMax: number; // Max connections for layer 0
   private readonly efConstruction: number;
   private efSearch: number;
   private readonly distanceType: DistanceFunction;
-  private readonly distanceFn: (a: Float32Array, b: Float32Array) => number;
+  private readonly distanceFn: (a: IndexVector, b: IndexVector) => number;
 
   // GPU acceleration fields
   private readonly gpuOptions: HNSWGPUOptions | undefined;
@@ -191,7 +224,10 @@ export class HNSWIndex {
     this.efConstruction = options.efConstruction ?? 200;
     this.efSearch = options.efSearch ?? 50;
     this.distanceType = options.distanceFunction ?? 'cosine';
-    this.distanceFn = getDistanceFunction(this.distanceType);
+    this.distanceFn =
+      this.distanceType === 'hamming'
+        ? (a, b) => hammingDistance(a as Uint8Array, b as Uint8Array) / this.dimensions
+        : (getDistanceFunction(this.distanceType) as (a: IndexVector, b: IndexVector) => number);
 
     // GPU options
     this.gpuOptions = options.gpu;
@@ -205,6 +241,20 @@ export class HNSWIndex {
     return this.gpuOptions?.enabled === true;
   }
 
+  /**
+   * Whether the graph changed since it was last serialized.
+   */
+  get hasChanges(): boolean {
+    return this.snapshotNeeded || this.dirty.size > 0;
+  }
+
+  /**
+   * Whether the changes can only be saved with `serializeBinary()`.
+   */
+  get needsSnapshot(): boolean {
+    return this.snapshotNeeded;
+  }
+
   /**
    * Get the number of vectors in the index.
    */
@@ -260,10 +310,12 @@ export class HNSWIndex {
       throw new Error(`Vector dimension mismatch: expected ${this.dimensions}, got ${vector.length}`);
     }
 
+    const stored = this.encode(vector);
+
     // Check if already exists
     if (this.nodes.has(id)) {
       // Update existing vector
-      this.vectors.set(id, vector);
+      this.vectors.set(id, stored);
       return;
     }
 
@@ -280,7 +332,8 @@ export class HNSWIndex {
     }
 
     this.nodes.set(id, node);
-    this.vectors.set(id, vector);
+    this.vectors.set(id, stored);
+    this.dirty.add(id);
 
     // First node becomes entry point
     if (this.entryPointId === null) {
@@ -293,13 +346,13 @@ export class HNSWIndex {
 
     // Search from top layer to node's level + 1
     for (let l = this.maxLevel; l > level; l--) {
-      currNodeId = this.searchLayer(vector, currNodeId, 1, l)[0]?.id ?? currNodeId;
+      currNodeId = this.searchLayer(stored, currNodeId, 1, l)[0]?.id ?? currNodeId;
     }
 
     // Insert into layers level down to 0
     for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
-      const neighbors = this.searchLayer(vector, currNodeId, this.efConstruction, l);
-      const selectedNeighbors = this.selectNeighbors(vector, neighbors, l === 0 ? this.mMax : this.m);
+      const neighbors = this.searchLayer(stored, currNodeId, this.efConstruction, l);
+      const selectedNeighbors = this.selectNeighbors(stored, neighbors, l === 0 ? this.mMax : this.m);
 
       // Connect new node to selected neighbors
       const nodeConnections = node.connections.get(l)!;
@@ -314,6 +367,7 @@ export class HNSWIndex {
           neighborNode.connections.set(l, neighborConnections);
         }
         neighborConnections.add(id);
+        this.dirty.add(neighbor.id);
 
         // Prune if necessary
         const maxConnections = l === 0 ? this.mMax : this.m;
@@ -339,10 +393,15 @@ export class HNSWIndex {
    *
    * When GPU is not configured, returns results synchronously.
    * When GPU is configured, returns a Promise (GPU dispatch is async).
+   *
+   * With `options.filter`, only accepted nodes are returned. The filter is checked
+   * during layer-0 traversal, so the search keeps expanding until it has found
+   * `k` accepted nodes or exhausted the graph. Very selective filters (below
+   * `bruteForceThreshold`) skip the graph and scan the accepted vectors instead.
    */
-  search(query: Float32Array, k: number): Array<{ id: string; score: number }>;
-  search(query: Float32Array, k: number): Array<{ id: string; score: number }> | Promise<Array<{ id: string; score: number }>>;
-  search(query: Float32Array, k: number): Array<{ id: string; score: number }> | Promise<Array<{ id: string; score: number }>> {
+  search(query: Float32Array, k: number, options?: HNSWSearchOptions): Array<{ id: string; score: number }>;
+  search(query: Float32Array, k: number, options?: HNSWSearchOptions): Array<{ id: string; score: number }> | Promise<Array<{ id: string; score: number }>>;
+  search(query: Float32Array, k: number, options?: HNSWSearchOptions): Array<{ id: string; score: number }> | Promise<Array<{ id: string; score: number }>> {
     if (query.length !== this.dimensions) {
       throw new Error(`Query dimension mismatch: expected ${this.dimensions}, got ${query.length}`);
     }
@@ -351,9 +410,16 @@ export class HNSWIndex {
       return [];
     }
 
+    const encoded = this.encode(query);
+    const accept = toPredicate(options?.filter);
+
+    if (accept && this.shouldBruteForce(options!)) {
+      return this.toResults(this.bruteForceSearch(encoded, k, accept), k);
+    }
+
     // If GPU is enabled, delegate to async path
     if (this.gpuEnabled) {
-      return this.searchAsync(query, k);
+      return this.searchAsync(encoded, k, accept);
     }
 
     // Synchronous CPU path (existing behavior unchanged)
@@ -361,20 +427,23 @@ export class HNSWIndex {
 
     // Traverse from top layer to layer 1
     for (let l = this.maxLevel; l > 0; l--) {
-      const result = this.searchLayer(query, currNodeId, 1, l);
+      const result = this.searchLayer(encoded, currNodeId, 1, l);
       if (result.length > 0) {
         currNodeId = result[0].id;
       }
     }
 
     // Search layer 0 with efSearch candidates
-    const candidates = this.searchLayer(query, currNodeId, Math.max(k, this.efSearch), 0);
+    const ef = Math.max(k, this.efSearch);
+    let candidates = this.searchLayer(encoded, currNodeId, ef, 0, accept);
+
+    // The graph may be disconnected after deletes; guarantee k hits when they exist
+    if (accept && candidates.length < k) {
+      candidates = this.bruteForceSearch(encoded, k, accept);
+    }
 
     // Return top k results with scores
-    return candidates.slice(0, k).map((c) => ({
-      id: c.id,
-      score: distanceToScore(c.distance, this.distanceType),
-    }));
+    return this.toResults(candidates, k);
   }
 
   /**
@@ -382,7 +451,11 @@ export class HNSWIndex {
    * Initializes GPU on first call, then uses GPU-accelerated distance
    * computation for large neighbor sets.
    */
-  private async searchAsync(query: Float32Array, k: number): Promise<Array<{ id: string; score: number }>> {
+  private async searchAsync(
+    query: IndexVector,
+    k: number,
+    accept?: (id: string) => boolean,
+  ): Promise<Array<{ id: string; score: number }>> {
     // Lazy GPU initialization
     await this.initGPU();
 
@@ -401,29 +474,142 @@ export class HNSWIndex {
     let candidates: SearchCandidate[];
 
     if (this.gpuManager) {
-      candidates = await this.searchLayerGPU(query, currNodeId, ef, 0);
+      candidates = await this.searchLayerGPU(query, currNodeId, ef, 0, accept);
     } else {
       // GPU init failed — use CPU path
-      candidates = this.searchLayer(query, currNodeId, ef, 0);
+      candidates = this.searchLayer(query, currNodeId, ef, 0, accept);
+    }
+
+    if (accept && candidates.length < k) {
+      candidates = this.bruteForceSearch(query, k, accept);
     }
 
     // Return top k results with scores
+    return this.toResults(candidates, k);
+  }
+
+  /**
+   * Search for the k best groups of vectors, where several vectors belong to one
+   * group (e.g. the chunks of a multi-vector document). A group is ranked by its
+   * best-matching member.
+   *
+   * The underlying search is over-fetched and widened until k distinct groups
+   * are found or every vector has been considered.
+   */
+  async searchGroups(
+    query: Float32Array,
+    k: number,
+    options: HNSWGroupSearchOptions
+  ): Promise<HNSWGroupResult[]> {
+    const total = this.nodes.size;
+    let fetch = Math.min(k * 4, total);
+
+    for (;;) {
+      const results = await this.search(query, fetch, options);
+      const groups = new Map<string, HNSWGroupResult>();
+      for (const result of results) {
+        const group = options.groupOf(result.id);
+        // Results are sorted by score, so the first hit is the group's best
+        if (!groups.has(group)) {
+          groups.set(group, { group, id: result.id, score: result.score });
+        }
+      }
+
+      if (groups.size >= k || results.length < fetch || fetch >= total) {
+        return [...groups.values()].slice(0, k);
+      }
+      fetch = Math.min(fetch * 2, total);
+    }
+  }
+
+  /**
+   * Score two vectors with the index's distance metric (higher is more similar).
+   */
+  similarity(a: Float32Array, b: Float32Array): number {
+    return distanceToScore(this.distanceFn(this.encode(a), this.encode(b)), this.distanceType);
+  }
+
+  /**
+   * Convert a vector to the form the index holds.
+   */
+  private encode(vector: Float32Array): IndexVector {
+    return this.distanceType === 'hamming' ? binaryQuantize(vector) : vector;
+  }
+
+  /**
+   * Convert sorted candidates into scored results.
+   */
+  private toResults(candidates: SearchCandidate[], k: number): Array<{ id: string; score: number }> {
     return candidates.slice(0, k).map((c) => ({
       id: c.id,
       score: distanceToScore(c.distance, this.distanceType),
     }));
   }
 
+  /**
+   * Decide whether a filtered search should scan instead of traversing the graph.
+   * Allow-lists have an exact selectivity; predicates are estimated from a sample.
+   */
+  private shouldBruteForce(options: HNSWSearchOptions): boolean {
+    const filter = options.filter!;
+    const threshold = options.bruteForceThreshold ?? DEFAULT_BRUTE_FORCE_THRESHOLD;
+    const total = this.nodes.size;
+
+    if (typeof filter !== 'function') {
+      return filter.size <= Math.max(this.efSearch, threshold * total);
+    }
+
+    if (total <= this.efSearch) {
+      return true;
+    }
+
+    // Sample evenly across the insertion order
+    const step = Math.max(1, Math.floor(total / SELECTIVITY_SAMPLE_SIZE));
+    let sampled = 0;
+    let accepted = 0;
+    let i = 0;
+    for (const id of this.nodes.keys()) {
+      if (i++ % step !== 0) continue;
+      sampled++;
+      if (filter(id)) accepted++;
+      if (sampled >= SELECTIVITY_SAMPLE_SIZE) break;
+    }
+
+    return accepted / sampled <= threshold;
+  }
+
+  /**
+   * Exact k-NN over the accepted vectors.
+   */
+  private bruteForceSearch(query: IndexVector, k: number, accept: (id: string) => boolean): SearchCandidate[] {
+    const results = new MaxHeap();
+
+    for (const [id, vector] of this.vectors) {
+      if (!accept(id)) continue;
+
+      const distance = this.distanceFn(query, vector);
+      if (results.size < k || distance < results.peek()!.distance) {
+        results.push({ id, distance });
+        if (results.size > k) {
+          results.pop();
+        }
+      }
+    }
+
+    return results.toArray();
+  }
+
   /**
    * GPU-accelerated layer search. Same BFS expansion as `searchLayer()` but
    * collects unvisited neighbor vectors into batches and dispatches them to
    * the GPU when the batch exceeds the threshold.
    */
   private async searchLayerGPU(
-    query: Float32Array,
+    query: IndexVector,
     entryId: string,
     ef: number,
     level: number,
+    accept?: (id: string) => boolean,
   ): Promise<SearchCandidate[]> {
     const visited = new Set<string>([entryId]);
     const entryVector = this.vectors.get(entryId);
@@ -437,7 +623,9 @@ export class HNSWIndex {
     const results = new MaxHeap();
 
     candidates.push({ id: entryId, distance: entryDist });
-    results.push({ id: entryId, distance: entryDist });
+    if (!accept || accept(entryId)) {
+      results.push({ id: entryId, distance: entryDist });
+    }
 
     while (candidates.size > 0) {
       const current = candidates.pop()!;
@@ -455,7 +643,7 @@ export class HNSWIndex {
 
       // Collect unvisited neighbors
       const unvisitedIds: string[] = [];
-      const unvisitedVectors: Float32Array[] = [];
+      const unvisitedVectors: IndexVector[] = [];
 
       for (const neighborId of connections) {
         if (visited.has(neighborId)) continue;
@@ -475,7 +663,12 @@ export class HNSWIndex {
 
       if (unvisitedVectors.length >= this.batchThreshold && this.gpuManager) {
         try {
-          distances = await this.gpuManager.computeDistances(query, unvisitedVectors, this.distanceType);
+          distances = await this.gpuManager.computeDistances(
+            query,
+            unvisitedVectors,
+            this.distanceType,
+            this.dimensions
+          );
         } catch {
           // GPU failed — fall back to CPU for this batch
           this.gpuOptions?.onFallback?.('GPU compute failed, using CPU fallback');
@@ -498,6 +691,7 @@ export class HNSWIndex {
 
         if (results.size < ef || neighborDist < results.peek()!.distance) {
           candidates.push({ id: unvisitedIds[i], distance: neighborDist });
+          if (accept && !accept(unvisitedIds[i])) continue;
           results.push({ id: unvisitedIds[i], distance: neighborDist });
 
           if (results.size > ef) {
@@ -521,13 +715,14 @@ export class HNSWIndex {
     // Remove from vectors (effectively marks as deleted)
     this.vectors.delete(id);
     this.nodes.delete(id);
+    this.dirty.add(id);
 
     // Remove connections to this node from all neighbors
     for (const [level, connections] of node.connections) {
       for (const neighborId of connections) {
         const neighbor = this.nodes.get(neighborId);
-        if (neighbor) {
-          neighbor.connections.get(level)?.delete(id);
+        if (neighbor?.connections.get(level)?.delete(id)) {
+          this.dirty.add(neighborId);
         }
       }
     }
@@ -553,20 +748,29 @@ export class HNSWIndex {
   }
 
   /**
-   * Get a vector by ID.
+   * Get a vector by ID. Hamming indexes return the vector their sign bits
+   * encode (see `binaryDequantize()`).
    */
   getVector(id: string): Float32Array | undefined {
-    return this.vectors.get(id);
+    const vector = this.vectors.get(id);
+    if (vector instanceof Uint8Array) {
+      return binaryDequantize(vector, this.dimensions);
+    }
+    return vector;
   }
 
   /**
    * Search a single layer of the graph (CPU path).
+   *
+   * When `accept` is given, rejected nodes are still expanded as routing hops
+   * but never enter the result set.
    */
   private searchLayer(
-    query: Float32Array,
+    query: IndexVector,
     entryId: string,
     ef: number,
-    level: number
+    level: number,
+    accept?: (id: string) => boolean
   ): SearchCandidate[] {
     const visited = new Set<string>([entryId]);
     const entryVector = this.vectors.get(entryId);
@@ -580,7 +784,9 @@ export class HNSWIndex {
     const results = new MaxHeap();
 
     candidates.push({ id: entryId, distance: entryDist });
-    results.push({ id: entryId, distance: entryDist });
+    if (!accept || accept(entryId)) {
+      results.push({ id: entryId, distance: entryDist });
+    }
 
     while (candidates.size > 0) {
       const current = candidates.pop()!;
@@ -608,6 +814,7 @@ export class HNSWIndex {
         // Add to results if better than current worst or results not full
         if (results.size < ef || neighborDist < results.peek()!.distance) {
           candidates.push({ id: neighborId, distance: neighborDist });
+          if (accept && !accept(neighborId)) continue;
           results.push({ id: neighborId, distance: neighborDist });
 
           // Keep only ef best results
@@ -625,7 +832,7 @@ export class HNSWIndex {
    * Select the best neighbors using simple distance-based selection.
    */
   private selectNeighbors(
-    _query: Float32Array,
+    _query: IndexVector,
     candidates: SearchCandidate[],
     maxConnections: number
   ): SearchCandidate[] {
@@ -706,6 +913,69 @@ export class HNSWIndex {
     };
   }
 
+  /**
+   * Serialize the whole graph to the compact binary format and mark it saved.
+   */
+  serializeBinary(): Uint8Array {
+    this.dirty.clear();
+    this.snapshotNeeded = false;
+    return encodeGraph(this.graphRecord(this.nodes.values(), []));
+  }
+
+  /**
+   * Serialize the nodes changed since the last serialization and mark them saved.
+   *
+   * @returns The delta, or `null` when nothing changed.
+   * @throws {Error} If the graph must be saved in full (see `needsSnapshot`).
+   */
+  serializeDelta(): Uint8Array | null {
+    if (this.snapshotNeeded) {
+      throw new Error('HNSW index has no saved snapshot to apply a delta to; use serializeBinary()');
+    }
+    if (this.dirty.size === 0) return null;
+
+    const nodes: HNSWNode[] = [];
+    const deleted: string[] = [];
+    for (const id of this.dirty) {
+      const node = this.nodes.get(id);
+      if (node) {
+        nodes.push(node);
+      } else {
+        deleted.push(id);
+      }
+    }
+    this.dirty.clear();
+
+    return encodeGraph(this.graphRecord(nodes, deleted));
+  }
+
+  /**
+   * Load an index from a binary snapshot and the deltas written after it, in order.
+   * Connection lists are decoded when a node is first visited.
+   */
+  static deserializeBinary(
+    snapshot: Uint8Array,
+    deltas: Uint8Array[],
+    vectors: Map<string, Float32Array>,
+    options?: HNSWOptions
+  ): HNSWIndex {
+    const base = decodeGraph(snapshot);
+    const index = new HNSWIndex(base.dimensions, {
+      m: base.m,
+      efConstruction: base.efConstruction,
+      ...options,
+    });
+    index.setVectors(vectors);
+
+    index.applyGraph(base);
+    for (const delta of deltas) {
+      index.applyGraph(decodeGraph(delta));
+    }
+    index.snapshotNeeded = false;
+
+    return index;
+  }
+
   /**
    * Deserialize an index from a JSON object.
    */
@@ -722,7 +992,7 @@ export class HNSWIndex {
 
     index.entryPointId = data.entryPointId;
     index.maxLevel = data.maxLevel;
-    index.vectors = vectors;
+    index.setVectors(vectors);
 
     for (const nodeData of data.nodes) {
       const node: HNSWNode = {
@@ -749,5 +1019,66 @@ export class HNSWIndex {
     this.vectors.clear();
     this.entryPointId = null;
     this.maxLevel = 0;
+    this.dirty.clear();
+    this.snapshotNeeded = true;
+  }
+
+  /**
+   * Take over stored vectors, encoding them for Hamming indexes.
+   */
+  private setVectors(vectors: Map<string, Float32Array>): void {
+    if (this.distanceType === 'hamming') {
+      for (const [id, vector] of vectors) {
+        this.vectors.set(id, this.encode(vector));
+      }
+    } else {
+      this.vectors = vectors;
+    }
+  }
+
+  /**
+   * Describe the graph for the binary encoder.
+   */
+  private graphRecord(nodes: Iterable<HNSWNode>, deleted: string[]): GraphRecord {
+    return {
+      dimensions: this.dimensions,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      maxLevel: this.maxLevel,
+      entryPointId: this.entryPointId,
+      nodes,
+      deleted,
+    };
   }
+
+  /**
+   * Apply a decoded snapshot or delta. Nodes read their connections on first access.
+   */
+  private applyGraph(graph: DecodedGraph): void {
+    this.entryPointId = graph.entryPointId;
+    this.maxLevel = graph.maxLevel;
+
+    for (const { id, level, connections: load } of graph.nodes) {
+      let connections: Map<number, Set<string>> | undefined;
+      this.nodes.set(id, {
+        id,
+        level,
+        get connections() {
+          return (connections ??= load());
+        },
+      });
+    }
+    for (const id of graph.deleted) {
+      this.nodes.delete(id);
+    }
+  }
+}
+
+/**
+ * Normalize a search filter into a predicate.
+ */
+function toPredicate(filter: HNSWSearchOptions['filter']): ((id: string) => boolean) | undefined {
+  if (!filter) return undefined;
+  if (typeof filter === 'function') return filter;
+  return (id) => filter.has(id);
 }
@@ -0,0 +1,105 @@
+/**
+ * Helpers for multi-vector documents.
+ *
+ * The vectors owned by a document are stored as ordinary vector records with
+ * IDs derived from the document ID, under a companion collection ID so they
+ * never mix with the main per-document vectors. A separate HNSW index over
+ * those records finds candidate documents, which are then rescored exactly.
+ */
+
+import type { MultiVectorSearchMode } from '../types.js';
+
+/** Separates the document ID from the vector position in sub-vector IDs. */
+const SEPARATOR = '\u001f';
+
+/**
+ * Build the ID of the `index`-th vector of a document.
+ */
+export function subVectorId(docId: string, index: number): string {
+  return `${docId}${SEPARATOR}${index}`;
+}
+
+/**
+ * Split a sub-vector ID into the parent document ID and the vector position.
+ */
+export function parseSubVectorId(subId: string): { parentId: string; index: number } {
+  const at = subId.lastIndexOf(SEPARATOR);
+  if (at === -1) {
+    return { parentId: subId, index: 0 };
+  }
+  return { parentId: subId.slice(0, at), index: Number(subId.slice(at + 1)) };
+}
+
+/**
+ * Recover the parent document ID from a sub-vector ID.
+ */
+export function parentIdOf(subId: string): string {
+  return parseSubVectorId(subId).parentId;
+}
+
+/**
+ * Collection ID under which a collection's sub-vectors (and their index) are stored.
+ */
+export function multiVectorCollectionId(collectionId: string): string {
+  return `${collectionId}${SEPARATOR}multi-vector`;
+}
+
+/**
+ * Element-wise mean of a set of vectors, used as the pooled main vector.
+ */
+export function meanVector(vectors: Float32Array[]): Float32Array {
+  const result = new Float32Array(vectors[0].length);
+  for (const vector of vectors) {
+    for (let d = 0; d < result.length; d++) {
+      result[d] += vector[d];
+    }
+  }
+  for (let d = 0; d < result.length; d++) {
+    result[d] /= vectors.length;
+  }
+  return result;
+}
+
+/**
+ * Score a document's vectors against the query vectors.
+ *
+ * @param similarity - Pairwise score, higher is more similar.
+ */
+export function scoreMultiVector(
+  queries: Float32Array[],
+  docVectors: Float32Array[],
+  mode: MultiVectorSearchMode,
+  similarity: (a: Float32Array, b: Float32Array) => number
+): { score: number; matchedVector?: number } {
+  if (mode === 'maxsim') {
+    let score = 0;
+    for (const query of queries) {
+      let best = -Infinity;
+      for (const vector of docVectors) {
+        best = Math.max(best, similarity(query, vector));
+      }
+      score += best;
+    }
+    return { score };
+  }
+
+  const query = queries[0];
+  if (mode === 'mean') {
+    let sum = 0;
+    for (const vector of docVectors) {
+      sum += similarity(query, vector);
+    }
+    return { score: sum / docVectors.length };
+  }
+
+  let score = -Infinity;
+  let matchedVector = 0;
+  for (let i = 0; i < docVectors.length; i++) {
+    const s = similarity(query, docVectors[i]);
+    if (s > score) {
+      score = s;
+      matchedVector = i;
+    }
+  }
+  return { score, matchedVector };
+}
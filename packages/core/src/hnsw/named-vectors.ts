@@ -0,0 +1,78 @@
+/**
+ * Helpers for named vector spaces.
+ *
+ * A collection configured with `dimensions: { text: 384, image: 512 }` keeps
+ * one HNSW index per space. The first space is primary: its vectors are the
+ * documents' regular vectors. Vectors of the other spaces are stored under a
+ * companion collection ID per space, with IDs derived from the document ID.
+ */
+
+import type { HNSWOptions, NamedVectorSpaces } from '../types.js';
+import { ValidationError } from '../errors/index.js';
+
+/** Separates the document ID from the space name in stored vector IDs. */
+const SEPARATOR = '\u001f';
+
+/**
+ * A resolved named vector space.
+ */
+export interface VectorSpaceConfig {
+  name: string;
+  dimensions: number;
+  indexOptions?: HNSWOptions;
+}
+
+/**
+ * Normalize a `dimensions` config into a list of vector spaces, primary first.
+ *
+ * @throws {ValidationError} If no space is given or a dimension is not a positive integer.
+ */
+export function resolveVectorSpaces(dimensions: number | NamedVectorSpaces): VectorSpaceConfig[] {
+  if (typeof dimensions === 'number') {
+    return [{ name: 'default', dimensions }];
+  }
+
+  const spaces = Object.entries(dimensions).map(([name, config]) =>
+    typeof config === 'number'
+      ? { name, dimensions: config }
+      : { name, dimensions: config.dimensions, indexOptions: config.indexOptions }
+  );
+
+  if (spaces.length === 0) {
+    throw new ValidationError(
+      'Named vector dimensions must define at least one space',
+      'Pass e.g. dimensions: { text: 384, image: 512 }.'
+    );
+  }
+  for (const space of spaces) {
+    if (!Number.isInteger(space.dimensions) || space.dimensions <= 0) {
+      throw new ValidationError(
+        `Invalid dimensions for vector space "${space.name}": ${String(space.dimensions)}`,
+        'Each vector space needs a positive integer dimension.'
+      );
+    }
+  }
+  return spaces;
+}
+
+/**
+ * Build the stored vector ID of a document in a named space.
+ */
+export function namedVectorId(docId: string, space: string): string {
+  return `${docId}${SEPARATOR}vector:${space}`;
+}
+
+/**
+ * Recover the document ID from a stored named vector ID.
+ */
+export function docIdOfNamedVector(id: string): string {
+  const at = id.lastIndexOf(`${SEPARATOR}vector:`);
+  return at === -1 ? id : id.slice(0, at);
+}
+
+/**
+ * Collection ID under which a space's vectors (and its index) are stored.
+ */
+export function namedVectorCollectionId(collectionId: string, space: string): string {
+  return `${collectionId}${SEPARATOR}vector:${space}`;
+}
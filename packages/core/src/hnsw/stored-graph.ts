@@ -0,0 +1,218 @@
+/**
+ * Incremental storage of HNSW graphs.
+ *
+ * A graph is stored as binary records under a companion collection ID: a
+ * snapshot of every node, followed by a log of deltas that each hold only the
+ * nodes changed by one write. The records are ordinary vector records whose
+ * values each hold three bytes of the encoded graph as an integer, so every
+ * storage adapter keeps them exactly, even one that stores vectors as JSON
+ * numbers. Once the
+ * deltas add up to half the size of the snapshot, the log is compacted into a
+ * new snapshot.
+ *
+ * Snapshots carry a generation number. A new snapshot is written before the
+ * previous generation's records are deleted, so an interrupted compaction
+ * leaves a loadable graph and its leftovers are removed on the next load.
+ */
+
+import type { HNSWOptions } from '../types.js';
+import type { Storage } from '../storage/index.js';
+import type { StorageAdapter } from '../storage/types.js';
+import { HNSWIndex } from './index.js';
+
+/** Separates the index ID from the suffix in stored graph collection IDs. */
+const SEPARATOR = '\u001f';
+
+/**
+ * Collection ID under which the graph of an index is stored.
+ *
+ * @param indexId - ID the index was saved under with `saveIndex()`
+ */
+export function graphCollectionId(indexId: string): string {
+  return `${indexId}${SEPARATOR}graph`;
+}
+
+/**
+ * Pack bytes into a vector of 24-bit integers, which `Float32Array` holds
+ * exactly. The first two values hold the byte length.
+ */
+function packBytes(bytes: Uint8Array): Float32Array {
+  const packed = new Float32Array(2 + Math.ceil(bytes.length / 3));
+  packed[0] = bytes.length % 0x1000000;
+  packed[1] = Math.floor(bytes.length / 0x1000000);
+  for (let i = 0, j = 2; i < bytes.length; i += 3, j++) {
+    packed[j] = bytes[i] | ((bytes[i + 1] ?? 0) << 8) | ((bytes[i + 2] ?? 0) << 16);
+  }
+  return packed;
+}
+
+/**
+ * Unpack bytes packed by {@link packBytes}.
+ */
+function unpackBytes(packed: ArrayLike<number>): Uint8Array {
+  const bytes = new Uint8Array(packed[0] + packed[1] * 0x1000000);
+  for (let i = 0, j = 2; i < bytes.length; i += 3, j++) {
+    const value = packed[j];
+    // Writes past the end of a Uint8Array are ignored
+    bytes[i] = value & 0xff;
+    bytes[i + 1] = (value >> 8) & 0xff;
+    bytes[i + 2] = value >> 16;
+  }
+  return bytes;
+}
+
+/**
+ * Parse a stored graph record ID into its generation and delta sequence
+ * number (`undefined` for snapshots).
+ */
+function parseRecordId(id: string): { generation: number; sequence?: number } | null {
+  const match = /:(snapshot|delta):(\d+)(?::(\d+))?$/.exec(id);
+  if (!match) return null;
+  return match[1] === 'snapshot'
+    ? { generation: Number(match[2]) }
+    : { generation: Number(match[2]), sequence: Number(match[3]) };
+}
+
+/**
+ * The snapshot and delta log of one HNSW index.
+ *
+ * @example
+ * ```ts
+ * const log = new GraphLog(storage, 'docs');
+ * const index = (await log.load(vectors, options)) ?? new HNSWIndex(384, options);
+ *
+ * index.add('doc1', embedding);
+ * await log.save(index); // writes a delta holding the changed nodes
+ * ```
+ */
+export class GraphLog {
+  private generation = 0;
+  private nextSequence = 0;
+  /** IDs of the current generation's delta records */
+  private deltaIds: string[] = [];
+  private deltaBytes = 0;
+  private snapshotBytes = 0;
+  /** Whether a JSON index saved by an older version must be removed */
+  private legacy = false;
+
+  constructor(
+    private storage: Storage | StorageAdapter,
+    private indexId: string
+  ) {}
+
+  /**
+   * Load the newest snapshot and its deltas, or a JSON index saved with
+   * `saveIndex()` by an older version. Stale records are deleted.
+   *
+   * @returns The index, or `null` when nothing was saved.
+   */
+  async load(vectors: Map<string, Float32Array>, options?: HNSWOptions): Promise<HNSWIndex | null> {
+    const collectionId = graphCollectionId(this.indexId);
+    const records = await this.storage.getAllVectors(collectionId);
+
+    let newest = -1;
+    for (const id of records.keys()) {
+      const parsed = parseRecordId(id);
+      if (parsed && parsed.sequence === undefined && parsed.generation > newest) {
+        newest = parsed.generation;
+      }
+    }
+
+    if (newest === -1) {
+      const saved = await this.storage.loadIndex(this.indexId);
+      this.legacy = saved !== null;
+      return saved ? HNSWIndex.deserialize(saved, vectors, options) : null;
+    }
+
+    let snapshot: Uint8Array | undefined;
+    const deltas: Array<{ id: string; sequence: number; data: Uint8Array }> = [];
+    for (const [id, data] of records) {
+      const parsed = parseRecordId(id);
+      if (parsed?.generation !== newest) {
+        // Left over from an interrupted compaction
+        await this.storage.deleteVector(id);
+      } else if (parsed.sequence === undefined) {
+        snapshot = unpackBytes(data);
+      } else {
+        deltas.push({ id, sequence: parsed.sequence, data: unpackBytes(data) });
+      }
+    }
+    deltas.sort((a, b) => a.sequence - b.sequence);
+
+    this.generation = newest;
+    this.deltaIds = deltas.map((d) => d.id);
+    this.nextSequence = deltas.length > 0 ? deltas[deltas.length - 1].sequence + 1 : 0;
+    this.deltaBytes = deltas.reduce((sum, d) => sum + d.data.byteLength, 0);
+    this.snapshotBytes = snapshot!.byteLength;
+
+    return HNSWIndex.deserializeBinary(
+      snapshot!,
+      deltas.map((d) => d.data),
+      vectors,
+      options
+    );
+  }
+
+  /**
+   * Persist the changes of an index: a delta of the changed nodes, or a new
+   * snapshot when the index needs one or the log has grown too large.
+   */
+  async save(index: HNSWIndex): Promise<void> {
+    if (!index.hasChanges) return;
+    // An empty index with nothing stored has nothing to persist
+    if (index.size === 0 && this.snapshotBytes === 0 && !this.legacy) return;
+
+    if (index.needsSnapshot || this.deltaBytes > this.snapshotBytes / 2) {
+      await this.compact(index);
+      return;
+    }
+
+    const delta = packBytes(index.serializeDelta()!);
+    const id = `${graphCollectionId(this.indexId)}:delta:${this.generation}:${this.nextSequence++}`;
+    await this.storage.addVector({ id, collectionId: graphCollectionId(this.indexId), vector: delta });
+    this.deltaIds.push(id);
+    this.deltaBytes += delta.byteLength;
+  }
+
+  /**
+   * Replace the snapshot and delta log with a snapshot of the whole graph.
+   */
+  async compact(index: HNSWIndex): Promise<void> {
+    const collectionId = graphCollectionId(this.indexId);
+    const stale = [`${collectionId}:snapshot:${this.generation}`, ...this.deltaIds];
+
+    const snapshot = packBytes(index.serializeBinary());
+    this.generation++;
+    await this.storage.addVector({
+      id: `${collectionId}:snapshot:${this.generation}`,
+      collectionId,
+      vector: snapshot,
+    });
+
+    for (const id of stale) {
+      await this.storage.deleteVector(id);
+    }
+    if (this.legacy) {
+      await this.storage.deleteIndex(this.indexId);
+      this.legacy = false;
+    }
+
+    this.deltaIds = [];
+    this.nextSequence = 0;
+    this.deltaBytes = 0;
+    this.snapshotBytes = snapshot.byteLength;
+  }
+
+  /**
+   * Delete every stored record of the graph.
+   */
+  async clear(): Promise<void> {
+    await this.storage.clearCollection(graphCollectionId(this.indexId));
+    await this.storage.deleteIndex(this.indexId);
+    this.deltaIds = [];
+    this.nextSequence = 0;
+    this.deltaBytes = 0;
+    this.snapshotBytes = 0;
+    this.legacy = false;
+  }
+}
@@ -0,0 +1,288 @@
+/**
+ * Arrow IPC Messages
+ *
+ * Schema and message framing of the Arrow IPC format, shared by the Arrow
+ * parser and serializer and by the Parquet serializer, which embeds the
+ * Arrow schema in its footer.
+ *
+ * @packageDocumentation
+ */
+
+import { ParseError } from '../../errors/index.js';
+import { FlatTable, encodeFlatBuffer } from './flatbuffers.js';
+import type { FlatField, FlatTableFields } from './flatbuffers.js';
+
+/** Magic bytes at the start and end of an Arrow IPC file */
+export const ARROW_MAGIC = new TextEncoder().encode('ARROW1');
+
+/** Marker before the length of each message */
+const CONTINUATION = 0xffffffff;
+
+/** Metadata version written: V5 */
+const METADATA_VERSION = 4;
+
+/** Oldest metadata version read: V4 */
+const MIN_METADATA_VERSION = 3;
+
+/**
+ * Message header types.
+ */
+export const MessageHeader = {
+  Schema: 1,
+  DictionaryBatch: 2,
+  RecordBatch: 3,
+} as const;
+
+/**
+ * Data type IDs of the `Type` union.
+ */
+export const ArrowTypeId = {
+  Null: 1,
+  Int: 2,
+  FloatingPoint: 3,
+  Binary: 4,
+  Utf8: 5,
+  Bool: 6,
+  Decimal: 7,
+  Date: 8,
+  Time: 9,
+  Timestamp: 10,
+  Interval: 11,
+  List: 12,
+  Struct: 13,
+  Union: 14,
+  FixedSizeBinary: 15,
+  FixedSizeList: 16,
+  Map: 17,
+  Duration: 18,
+  LargeBinary: 19,
+  LargeUtf8: 20,
+  LargeList: 21,
+} as const;
+
+/**
+ * Floating point precisions.
+ */
+export const Precision = { Half: 0, Single: 1, Double: 2 } as const;
+
+/**
+ * A data type, with the parameters of its type table.
+ */
+export interface ArrowType {
+  id: number;
+  /** `Int` */
+  bitWidth?: number;
+  /** `Int` */
+  signed?: boolean;
+  /** `FloatingPoint` */
+  precision?: number;
+  /** `FixedSizeList` */
+  listSize?: number;
+  /** `FixedSizeBinary` */
+  byteWidth?: number;
+  /** `Date`, `Timestamp` */
+  unit?: number;
+}
+
+/**
+ * A field of a schema.
+ */
+export interface ArrowField {
+  name: string;
+  nullable: boolean;
+  type: ArrowType;
+  children: ArrowField[];
+  /** Set when the column holds indices into a dictionary */
+  dictionary?: { id: number; indexType: ArrowType };
+}
+
+/**
+ * A message of an IPC stream.
+ */
+export interface ArrowMessage {
+  headerType: number;
+  header: FlatTable;
+  body: Uint8Array;
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+function decodeType(typeId: number, table: FlatTable | null): ArrowType {
+  const type: ArrowType = { id: typeId };
+  if (!table) return type;
+  switch (typeId) {
+    case ArrowTypeId.Int:
+      type.bitWidth = table.int32(0);
+      type.signed = table.bool(1);
+      break;
+    case ArrowTypeId.FloatingPoint:
+      type.precision = table.int16(0);
+      break;
+    case ArrowTypeId.FixedSizeList:
+      type.listSize = table.int32(0);
+      break;
+    case ArrowTypeId.FixedSizeBinary:
+      type.byteWidth = table.int32(0);
+      break;
+    case ArrowTypeId.Date:
+      type.unit = table.int16(0, 1);
+      break;
+    case ArrowTypeId.Timestamp:
+      type.unit = table.int16(0);
+      break;
+  }
+  return type;
+}
+
+function decodeField(table: FlatTable): ArrowField {
+  const field: ArrowField = {
+    name: table.string(0) ?? '',
+    nullable: table.bool(1),
+    type: decodeType(table.uint8(2), table.table(3)),
+    children: table.tables(5).map(decodeField),
+  };
+  const dictionary = table.table(4);
+  if (dictionary) {
+    const indexType = dictionary.table(1);
+    field.dictionary = {
+      id: dictionary.int64(0),
+      indexType: indexType
+        ? { id: ArrowTypeId.Int, bitWidth: indexType.int32(0), signed: indexType.bool(1) }
+        : { id: ArrowTypeId.Int, bitWidth: 32, signed: true },
+    };
+  }
+  return field;
+}
+
+/**
+ * Decode the fields of a `Schema` table.
+ */
+export function decodeSchema(schema: FlatTable): ArrowField[] {
+  return schema.tables(1).map(decodeField);
+}
+
+function encodeType(type: ArrowType): FlatTableFields {
+  switch (type.id) {
+    case ArrowTypeId.Int:
+      return [
+        { type: 'int32', value: type.bitWidth ?? 32 },
+        { type: 'bool', value: type.signed ?? true },
+      ];
+    case ArrowTypeId.FloatingPoint:
+      return [{ type: 'int16', value: type.precision ?? Precision.Double }];
+    case ArrowTypeId.FixedSizeList:
+      return [{ type: 'int32', value: type.listSize ?? 0 }];
+    default:
+      return [];
+  }
+}
+
+function encodeField(field: ArrowField): FlatTableFields {
+  return [
+    { type: 'string', value: field.name },
+    { type: 'bool', value: field.nullable },
+    { type: 'uint8', value: field.type.id },
+    { type: 'table', value: encodeType(field.type) },
+    undefined,
+    { type: 'tables', value: field.children.map(encodeField) },
+  ];
+}
+
+/**
+ * Encode a `Schema` table.
+ */
+export function encodeSchema(fields: ArrowField[]): FlatTableFields {
+  return [
+    { type: 'int16', value: 0 }, // little-endian
+    { type: 'tables', value: fields.map(encodeField) },
+  ];
+}
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+/**
+ * Encode a message: continuation marker, metadata length, and the metadata
+ * padded to 8 bytes. The body, if any, follows it.
+ */
+export function encodeMessage(headerType: number, header: FlatTableFields, bodyLength = 0): Uint8Array {
+  const fields: FlatField[] = [
+    { type: 'int16', value: METADATA_VERSION },
+    { type: 'uint8', value: headerType },
+    { type: 'table', value: header },
+    { type: 'int64', value: bodyLength },
+  ];
+  const metadata = encodeFlatBuffer(fields);
+  const message = new Uint8Array(8 + metadata.byteLength);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, CONTINUATION, true);
+  view.setInt32(4, metadata.byteLength, true);
+  message.set(metadata, 8);
+  return message;
+}
+
+/**
+ * The end-of-stream marker.
+ */
+export function encodeEndOfStream(): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setUint32(0, CONTINUATION, true);
+  return bytes;
+}
+
+/**
+ * Read the messages of an IPC stream from `start` to `end`, stopping at the
+ * end-of-stream marker.
+ *
+ * @throws {ParseError} When a message is cut short or its version is too old
+ */
+export function* readMessages(bytes: Uint8Array, start: number, end: number): Generator<ArrowMessage> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let position = start;
+
+  while (position + 4 <= end) {
+    let length = view.getInt32(position, true);
+    position += 4;
+    // Streams written before Arrow 0.15 have no continuation marker
+    if (length === -1) {
+      if (position + 4 > end) break;
+      length = view.getInt32(position, true);
+      position += 4;
+    }
+    if (length === 0) return;
+
+    if (length < 0 || position + length > end) {
+      throw truncated();
+    }
+    const message = FlatTable.root(bytes.subarray(position, position + length));
+    position += length;
+
+    const version = message.int16(0);
+    if (version < MIN_METADATA_VERSION) {
+      throw new ParseError(`Arrow IPC metadata version ${version + 1} is not supported`, {
+        hint: 'Write the file with Arrow 1.0 or later.',
+        context: { format: 'arrow' },
+      });
+    }
+
+    const bodyLength = message.int64(3);
+    if (position + bodyLength > end) {
+      throw truncated();
+    }
+    const header = message.table(2);
+    if (header) {
+      yield { headerType: message.uint8(1), header, body: bytes.subarray(position, position + bodyLength) };
+    }
+    position += bodyLength;
+  }
+}
+
+function truncated(): ParseError {
+  return new ParseError('Arrow IPC data ends in the middle of a message', {
+    hint: 'The file is incomplete. Check that it was fully written and downloaded.',
+    context: { format: 'arrow' },
+  });
+}
@@ -0,0 +1,288 @@
+/**
+ * FlatBuffers
+ *
+ * Minimal FlatBuffers reader and writer for Arrow IPC metadata: tables,
+ * scalars, strings, and vectors of tables or structs. Unions are a `uint8`
+ * type field followed by a table field.
+ *
+ * @packageDocumentation
+ */
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * A table in a FlatBuffer. Fields are addressed by their index in the schema.
+ */
+export class FlatTable {
+  constructor(
+    readonly view: DataView,
+    readonly offset: number
+  ) {}
+
+  /**
+   * The root table of a buffer.
+   */
+  static root(bytes: Uint8Array): FlatTable {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return new FlatTable(view, view.getUint32(0, true));
+  }
+
+  /**
+   * Position of a field, or 0 if it is absent.
+   */
+  private field(index: number): number {
+    const vtable = this.offset - this.view.getInt32(this.offset, true);
+    const entry = 4 + index * 2;
+    if (entry >= this.view.getUint16(vtable, true)) return 0;
+    const at = this.view.getUint16(vtable + entry, true);
+    return at ? this.offset + at : 0;
+  }
+
+  uint8(index: number, fallback = 0): number {
+    const at = this.field(index);
+    return at ? this.view.getUint8(at) : fallback;
+  }
+
+  bool(index: number, fallback = false): boolean {
+    const at = this.field(index);
+    return at ? this.view.getUint8(at) !== 0 : fallback;
+  }
+
+  int16(index: number, fallback = 0): number {
+    const at = this.field(index);
+    return at ? this.view.getInt16(at, true) : fallback;
+  }
+
+  int32(index: number, fallback = 0): number {
+    const at = this.field(index);
+    return at ? this.view.getInt32(at, true) : fallback;
+  }
+
+  int64(index: number, fallback = 0): number {
+    const at = this.field(index);
+    return at ? Number(this.view.getBigInt64(at, true)) : fallback;
+  }
+
+  table(index: number): FlatTable | null {
+    const at = this.field(index);
+    return at ? new FlatTable(this.view, at + this.view.getUint32(at, true)) : null;
+  }
+
+  string(index: number): string | null {
+    const at = this.field(index);
+    if (!at) return null;
+    const start = at + this.view.getUint32(at, true);
+    const length = this.view.getUint32(start, true);
+    return decoder.decode(new Uint8Array(this.view.buffer, this.view.byteOffset + start + 4, length));
+  }
+
+  tables(index: number): FlatTable[] {
+    const vector = this.vector(index);
+    if (!vector) return [];
+    return Array.from({ length: vector.length }, (_, i) => {
+      const at = vector.start + i * 4;
+      return new FlatTable(this.view, at + this.view.getUint32(at, true));
+    });
+  }
+
+  /**
+   * Positions of the structs in a vector of `size`-byte structs, to read from `view`.
+   */
+  structs(index: number, size: number): number[] {
+    const vector = this.vector(index);
+    if (!vector) return [];
+    return Array.from({ length: vector.length }, (_, i) => vector.start + i * size);
+  }
+
+  private vector(index: number): { start: number; length: number } | null {
+    const at = this.field(index);
+    if (!at) return null;
+    const position = at + this.view.getUint32(at, true);
+    return { start: position + 4, length: this.view.getUint32(position, true) };
+  }
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/**
+ * A field of a table to write.
+ */
+export type FlatField =
+  | { type: 'bool'; value: boolean }
+  | { type: 'uint8' | 'int16' | 'int32' | 'int64'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'table'; value: FlatTableFields }
+  | { type: 'tables'; value: FlatTableFields[] }
+  /** Vector of structs (or scalars), already encoded, 8-byte aligned */
+  | { type: 'structs'; value: Uint8Array; count: number };
+
+/**
+ * Fields of a table to write, by index; absent fields are `undefined`.
+ */
+export type FlatTableFields = Array<FlatField | undefined>;
+
+const INLINE_SIZE: Record<FlatField['type'], number> = {
+  bool: 1,
+  uint8: 1,
+  int16: 2,
+  int32: 4,
+  int64: 8,
+  string: 4,
+  table: 4,
+  tables: 4,
+  structs: 4,
+};
+
+/**
+ * A growable byte buffer.
+ */
+class ByteBuffer {
+  bytes = new Uint8Array(256);
+  view = new DataView(this.bytes.buffer);
+  length = 0;
+
+  /** Append `size` zero bytes, returning their position. */
+  reserve(size: number): number {
+    if (this.length + size > this.bytes.byteLength) {
+      const bytes = new Uint8Array(Math.max(this.bytes.byteLength * 2, this.length + size));
+      bytes.set(this.bytes);
+      this.bytes = bytes;
+      this.view = new DataView(bytes.buffer);
+    }
+    const at = this.length;
+    this.length += size;
+    return at;
+  }
+
+  /** Pad until `length + offset` is a multiple of `alignment`. */
+  align(alignment: number, offset = 0): void {
+    const padding = (alignment - ((this.length + offset) % alignment)) % alignment;
+    this.reserve(padding);
+  }
+
+  /** Point the offset at `at` to `target`. */
+  link(at: number, target: number): void {
+    this.view.setUint32(at, target - at, true);
+  }
+}
+
+/**
+ * Encode a FlatBuffer with `root` as its root table.
+ *
+ * Objects are written front to back, each table before the objects it
+ * references, so every offset points forward as FlatBuffers requires.
+ */
+export function encodeFlatBuffer(root: FlatTableFields): Uint8Array {
+  const out = new ByteBuffer();
+  const at = out.reserve(4);
+  out.link(at, writeTable(out, root));
+  out.align(8);
+  return out.bytes.slice(0, out.length);
+}
+
+function writeTable(out: ByteBuffer, fields: FlatTableFields): number {
+  // Lay out the inline fields after the vtable offset, largest first
+  const order = fields
+    .map((field, index) => ({ field, index }))
+    .filter((entry): entry is { field: FlatField; index: number } => entry.field !== undefined)
+    .sort((a, b) => INLINE_SIZE[b.field.type] - INLINE_SIZE[a.field.type]);
+  const positions: number[] = [];
+  let size = 4;
+  for (const { field, index } of order) {
+    const fieldSize = INLINE_SIZE[field.type];
+    size += (fieldSize - (size % fieldSize)) % fieldSize;
+    positions[index] = size;
+    size += fieldSize;
+  }
+
+  out.align(2);
+  const vtable = out.reserve(4 + fields.length * 2);
+  out.view.setUint16(vtable, 4 + fields.length * 2, true);
+  out.view.setUint16(vtable + 2, size, true);
+  for (let i = 0; i < fields.length; i++) {
+    out.view.setUint16(vtable + 4 + i * 2, positions[i] ?? 0, true);
+  }
+
+  // Tables start 8-byte aligned, so inline fields are aligned absolutely
+  out.align(8);
+  const table = out.reserve(size);
+  out.view.setInt32(table, table - vtable, true);
+
+  for (const { field, index } of order) {
+    const at = table + positions[index];
+    switch (field.type) {
+      case 'bool':
+        out.view.setUint8(at, field.value ? 1 : 0);
+        break;
+      case 'uint8':
+        out.view.setUint8(at, field.value);
+        break;
+      case 'int16':
+        out.view.setInt16(at, field.value, true);
+        break;
+      case 'int32':
+        out.view.setInt32(at, field.value, true);
+        break;
+      case 'int64':
+        out.view.setBigInt64(at, BigInt(field.value), true);
+        break;
+    }
+  }
+
+  // Then the objects the table references
+  for (const { field, index } of order) {
+    const at = table + positions[index];
+    switch (field.type) {
+      case 'string':
+        out.link(at, writeString(out, field.value));
+        break;
+      case 'table':
+        out.link(at, writeTable(out, field.value));
+        break;
+      case 'tables':
+        out.link(at, writeTables(out, field.value));
+        break;
+      case 'structs':
+        out.link(at, writeStructs(out, field.value, field.count));
+        break;
+    }
+  }
+
+  return table;
+}
+
+function writeString(out: ByteBuffer, value: string): number {
+  const bytes = encoder.encode(value);
+  out.align(4);
+  // Length, bytes and a zero terminator
+  const at = out.reserve(4 + bytes.byteLength + 1);
+  out.view.setUint32(at, bytes.byteLength, true);
+  out.bytes.set(bytes, at + 4);
+  return at;
+}
+
+function writeTables(out: ByteBuffer, tables: FlatTableFields[]): number {
+  out.align(4);
+  const at = out.reserve(4 + tables.length * 4);
+  out.view.setUint32(at, tables.length, true);
+  tables.forEach((fields, i) => {
+    out.link(at + 4 + i * 4, writeTable(out, fields));
+  });
+  return at;
+}
+
+function writeStructs(out: ByteBuffer, bytes: Uint8Array, count: number): number {
+  // The elements after the length are 8-byte aligned
+  out.align(8, 4);
+  const at = out.reserve(4 + bytes.byteLength);
+  out.view.setUint32(at, count, true);
+  out.bytes.set(bytes, at + 4);
+  return at;
+}
@@ -0,0 +1,100 @@
+/**
+ * Parquet Format Constants
+ *
+ * Enum values of the Parquet Thrift definitions, shared by the Parquet
+ * parser and serializer.
+ *
+ * @packageDocumentation
+ */
+
+/** Magic bytes at the start and end of a Parquet file */
+export const PARQUET_MAGIC = new TextEncoder().encode('PAR1');
+
+/** Physical types */
+export const PhysicalType = {
+  Boolean: 0,
+  Int32: 1,
+  Int64: 2,
+  Int96: 3,
+  Float: 4,
+  Double: 5,
+  ByteArray: 6,
+  FixedLenByteArray: 7,
+} as const;
+
+/** Field repetition types */
+export const Repetition = {
+  Required: 0,
+  Optional: 1,
+  Repeated: 2,
+} as const;
+
+/** Converted types, the legacy logical type annotations */
+export const ConvertedType = {
+  UTF8: 0,
+  List: 3,
+  Enum: 4,
+  Decimal: 5,
+  Date: 6,
+  TimestampMillis: 9,
+  TimestampMicros: 10,
+  JSON: 19,
+} as const;
+
+/** Fields of the `LogicalType` union */
+export const LogicalType = {
+  String: 1,
+  List: 3,
+  Enum: 4,
+  Decimal: 5,
+  Date: 6,
+  Timestamp: 8,
+  JSON: 12,
+  UUID: 14,
+  Float16: 15,
+} as const;
+
+/** Page and level encodings */
+export const Encoding = {
+  Plain: 0,
+  PlainDictionary: 2,
+  RLE: 3,
+  BitPacked: 4,
+  DeltaBinaryPacked: 5,
+  DeltaLengthByteArray: 6,
+  DeltaByteArray: 7,
+  RLEDictionary: 8,
+  ByteStreamSplit: 9,
+} as const;
+
+/** Page types */
+export const PageType = {
+  DataPage: 0,
+  IndexPage: 1,
+  DictionaryPage: 2,
+  DataPageV2: 3,
+} as const;
+
+/** Compression codec names, by codec ID */
+export const CODEC_NAMES = ['UNCOMPRESSED', 'SNAPPY', 'GZIP', 'LZO', 'BROTLI', 'LZ4', 'ZSTD', 'LZ4_RAW'];
+
+/** Encoding names, by encoding ID */
+export const ENCODING_NAMES = [
+  'PLAIN',
+  'GROUP_VAR_INT',
+  'PLAIN_DICTIONARY',
+  'RLE',
+  'BIT_PACKED',
+  'DELTA_BINARY_PACKED',
+  'DELTA_LENGTH_BYTE_ARRAY',
+  'DELTA_BYTE_ARRAY',
+  'RLE_DICTIONARY',
+  'BYTE_STREAM_SPLIT',
+];
+
+/**
+ * Bits needed to store levels up to `max`.
+ */
+export function levelBitWidth(max: number): number {
+  return max === 0 ? 0 : 32 - Math.clz32(max);
+}
@@ -0,0 +1,91 @@
+/**
+ * RLE / Bit-Packing Hybrid
+ *
+ * The run-length and bit-packing hybrid encoding of Parquet repetition and
+ * definition levels, dictionary indices and booleans.
+ *
+ * @packageDocumentation
+ */
+
+import { ParseError } from '../../errors/index.js';
+
+/**
+ * Decode `count` values of `bitWidth` bits.
+ *
+ * @throws {ParseError} When the data ends before `count` values
+ */
+export function decodeHybrid(data: Uint8Array, bitWidth: number, count: number): Uint32Array {
+  const values = new Uint32Array(count);
+  const byteWidth = Math.ceil(bitWidth / 8);
+  let position = 0;
+  let filled = 0;
+
+  while (filled < count) {
+    if (position >= data.byteLength) {
+      throw new ParseError('Parquet page has fewer encoded values than its header says', {
+        hint: 'The file is incomplete or corrupted.',
+        context: { format: 'parquet' },
+      });
+    }
+
+    let header = 0;
+    for (let shift = 0; ; shift += 7) {
+      const byte = data[position++];
+      header += (byte & 0x7f) * 2 ** shift;
+      if ((byte & 0x80) === 0) break;
+    }
+
+    if (header % 2 === 1) {
+      // Bit-packed run of groups of 8 values, least significant bit first
+      const groups = (header - 1) / 2;
+      const end = Math.min(count, filled + groups * 8);
+      const scale = 2 ** bitWidth;
+      let buffer = 0;
+      let bits = 0;
+      let at = position;
+      while (filled < end) {
+        while (bits < bitWidth) {
+          buffer += (data[at++] ?? 0) * 2 ** bits;
+          bits += 8;
+        }
+        values[filled++] = buffer % scale;
+        buffer = Math.floor(buffer / scale);
+        bits -= bitWidth;
+      }
+      position += groups * bitWidth;
+    } else {
+      // Run of one repeated value
+      const run = header / 2;
+      let value = 0;
+      for (let i = 0; i < byteWidth; i++) value += data[position++] * 2 ** (8 * i);
+      values.fill(value, filled, Math.min(count, filled + run));
+      filled += run;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Encode values of `bitWidth` bits as runs of repeated values.
+ */
+export function encodeHybrid(values: ArrayLike<number>, bitWidth: number): Uint8Array {
+  const out: number[] = [];
+  const byteWidth = Math.ceil(bitWidth / 8);
+  let i = 0;
+  while (i < values.length) {
+    const value = values[i];
+    let run = 1;
+    while (i + run < values.length && values[i + run] === value) run++;
+
+    let header = run * 2;
+    while (header >= 0x80) {
+      out.push((header % 0x80) | 0x80);
+      header = Math.floor(header / 0x80);
+    }
+    out.push(header);
+    for (let b = 0; b < byteWidth; b++) out.push(Math.floor(value / 2 ** (8 * b)) & 0xff);
+    i += run;
+  }
+  return new Uint8Array(out);
+}
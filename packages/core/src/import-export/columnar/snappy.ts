@@ -0,0 +1,88 @@
+/**
+ * Snappy
+ *
+ * Decompressor for the raw Snappy format, the default compression of
+ * Parquet files written by pyarrow and Spark.
+ *
+ * @packageDocumentation
+ */
+
+import { ParseError } from '../../errors/index.js';
+
+function corrupted(): ParseError {
+  return new ParseError('Snappy-compressed Parquet page is corrupted', {
+    hint: 'The file is incomplete or corrupted.',
+    context: { format: 'parquet' },
+  });
+}
+
+/**
+ * Decompress a raw Snappy block.
+ *
+ * @param input - Compressed bytes: a varint length, then literals and copies
+ * @returns Decompressed bytes
+ * @throws {ParseError} When the block is corrupted
+ */
+export function snappyDecompress(input: Uint8Array): Uint8Array {
+  let position = 0;
+  let length = 0;
+  for (let shift = 0; ; shift += 7) {
+    if (position >= input.byteLength) throw corrupted();
+    const byte = input[position++];
+    length += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) break;
+  }
+
+  const output = new Uint8Array(length);
+  let written = 0;
+
+  while (position < input.byteLength) {
+    const tag = input[position++];
+    let size: number;
+    let offset: number;
+
+    switch (tag & 3) {
+      case 0: {
+        // Literal: the length is in the tag, or in the 1-4 bytes after it
+        size = tag >> 2;
+        if (size >= 60) {
+          const bytes = size - 59;
+          size = 0;
+          for (let i = 0; i < bytes; i++) size += input[position++] * 2 ** (8 * i);
+        }
+        size += 1;
+        if (position + size > input.byteLength || written + size > length) throw corrupted();
+        output.set(input.subarray(position, position + size), written);
+        position += size;
+        written += size;
+        continue;
+      }
+      case 1:
+        size = ((tag >> 2) & 7) + 4;
+        offset = ((tag >> 5) << 8) | input[position++];
+        break;
+      case 2:
+        size = (tag >> 2) + 1;
+        offset = input[position] | (input[position + 1] << 8);
+        position += 2;
+        break;
+      default:
+        size = (tag >> 2) + 1;
+        offset =
+          (input[position] | (input[position + 1] << 8) | (input[position + 2] << 16)) +
+          input[position + 3] * 2 ** 24;
+        position += 4;
+        break;
+    }
+
+    if (offset === 0 || offset > written || written + size > length) throw corrupted();
+    // Copies may overlap their own output, so go byte by byte
+    for (let i = 0; i < size; i++) {
+      output[written] = output[written - offset];
+      written++;
+    }
+  }
+
+  if (written !== length) throw corrupted();
+  return output;
+}
@@ -0,0 +1,217 @@
+/**
+ * Columnar Tables
+ *
+ * The in-memory shape shared by the Arrow and Parquet parsers and
+ * serializers: named columns of row values, converted from and to
+ * ImportRecord[].
+ *
+ * @packageDocumentation
+ */
+
+import { ValidationError } from '../../errors/index.js';
+import type { ImportRecord } from '../types.js';
+
+/** Column names that are auto-detected as vector columns */
+const VECTOR_COLUMN_NAMES = ['vector', 'embedding', 'values', 'dense_vector'];
+
+/** Column names that are auto-detected as ID columns */
+const ID_COLUMN_NAMES = ['id', '_id', 'uuid'];
+
+/** Column names that are auto-detected as text columns */
+const TEXT_COLUMN_NAMES = ['text', 'content', 'document', 'body'];
+
+/**
+ * A decoded column: one value per row, `null` for missing values. Lists of
+ * floats are `Float32Array`s (or `Float64Array`s for doubles).
+ */
+export interface DecodedColumn {
+  name: string;
+  values: unknown[];
+}
+
+/**
+ * Value type of a column to serialize.
+ */
+export type ColumnType = 'string' | 'boolean' | 'int64' | 'float64' | 'vector';
+
+/**
+ * A column to serialize, with its values converted to its type.
+ */
+export interface TypedColumn {
+  name: string;
+  type: ColumnType;
+  nullable: boolean;
+  /** `string`, `boolean`, `number`, `Float32Array` or `null` per row */
+  values: unknown[];
+  /** Length of every vector, for `vector` columns */
+  dimensions?: number;
+}
+
+/**
+ * Options shared by the Arrow and Parquet serializers.
+ */
+export interface TypedColumnOptions {
+  includeVectors?: boolean;
+  includeText?: boolean;
+  vectorFieldName?: string;
+}
+
+function isFloatArray(value: unknown): value is Float32Array | Float64Array {
+  return value instanceof Float32Array || value instanceof Float64Array;
+}
+
+/**
+ * Find a column by name (case-insensitive) from a list of candidates.
+ */
+function findColumn(columns: DecodedColumn[], candidates: string[]): DecodedColumn | undefined {
+  for (const candidate of candidates) {
+    const column = columns.find((c) => c.name.toLowerCase() === candidate);
+    if (column) return column;
+  }
+  return undefined;
+}
+
+/**
+ * Convert decoded columns to ImportRecord[].
+ *
+ * The vector column is the first list-of-floats column named like a vector
+ * column (`vector`, `embedding`, `values`, `dense_vector`), or else the first
+ * list-of-floats column. ID and text columns are detected by name as in the
+ * CSV parser; the remaining columns become metadata.
+ *
+ * @param columns - Decoded columns
+ * @param length - Number of rows
+ * @param format - Format name, used in generated IDs
+ */
+export function recordsFromColumns(columns: DecodedColumn[], length: number, format: string): ImportRecord[] {
+  const floatColumns = columns.filter((c) => c.values.some(isFloatArray));
+  const vectorColumn = findColumn(floatColumns, VECTOR_COLUMN_NAMES) ?? floatColumns[0];
+  const idColumn = findColumn(columns, ID_COLUMN_NAMES);
+  const textColumn = findColumn(columns, TEXT_COLUMN_NAMES);
+  const metadataColumns = columns.filter((c) => c !== vectorColumn && c !== idColumn && c !== textColumn);
+
+  const records: ImportRecord[] = [];
+  for (let row = 0; row < length; row++) {
+    const id = idColumn?.values[row];
+    const record: ImportRecord = { id: id != null ? String(id) : `${format}-row-${row}` };
+
+    const vector = vectorColumn?.values[row];
+    if (isFloatArray(vector)) {
+      record.vector = vector instanceof Float32Array ? vector : new Float32Array(vector);
+    }
+
+    const text = textColumn?.values[row];
+    if (typeof text === 'string' && text) {
+      record.text = text;
+    }
+
+    const metadata: Record<string, unknown> = {};
+    let hasMetadata = false;
+    for (const column of metadataColumns) {
+      const value = column.values[row];
+      if (value === null || value === undefined) continue;
+      metadata[column.name] = isFloatArray(value) ? Array.from(value) : value;
+      hasMetadata = true;
+    }
+    if (hasMetadata) {
+      record.metadata = metadata;
+    }
+
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Decide the type of a metadata column from its values: `boolean`, `int64`
+ * (all safe integers), `float64` or `string`. Mixed columns and objects are
+ * stored as strings, objects as JSON.
+ */
+function metadataColumn(name: string, values: unknown[]): TypedColumn {
+  const present = values.filter((v) => v !== null && v !== undefined);
+  let type: ColumnType = 'string';
+  if (present.length > 0 && present.every((v) => typeof v === 'boolean')) {
+    type = 'boolean';
+  } else if (present.length > 0 && present.every((v) => typeof v === 'number')) {
+    type = present.every((v) => Number.isSafeInteger(v)) ? 'int64' : 'float64';
+  }
+
+  return {
+    name,
+    type,
+    nullable: true,
+    values: values.map((v) => {
+      if (v === null || v === undefined) return null;
+      if (type !== 'string' || typeof v === 'string') return v;
+      return typeof v === 'object' ? JSON.stringify(v) : String(v);
+    }),
+  };
+}
+
+/**
+ * Convert ImportRecord[] to typed columns: `id`, then `text` and the vector
+ * column if any record has them, then one column per metadata key, sorted.
+ * Metadata keys that clash with these columns are skipped.
+ *
+ * @throws {ValidationError} When vectors have different lengths
+ */
+export function columnsFromRecords(records: ImportRecord[], options?: TypedColumnOptions): TypedColumn[] {
+  const includeVectors = options?.includeVectors ?? true;
+  const includeText = options?.includeText ?? true;
+  const vectorFieldName = options?.vectorFieldName ?? 'vector';
+
+  const columns: TypedColumn[] = [
+    { name: 'id', type: 'string', nullable: false, values: records.map((r) => r.id) },
+  ];
+
+  if (includeText && records.some((r) => r.text)) {
+    columns.push({ name: 'text', type: 'string', nullable: true, values: records.map((r) => r.text || null) });
+  }
+
+  if (includeVectors && records.some((r) => r.vector)) {
+    let dimensions: number | undefined;
+    for (const record of records) {
+      if (!record.vector) continue;
+      if (dimensions === undefined) {
+        dimensions = record.vector.length;
+      } else if (record.vector.length !== dimensions) {
+        throw new ValidationError(
+          `Record "${record.id}" has a vector of ${record.vector.length} dimensions; earlier records have ${dimensions}`,
+          'Arrow and Parquet exports store vectors in a fixed-size list column, so all vectors must have the same length.'
+        );
+      }
+    }
+    columns.push({
+      name: vectorFieldName,
+      type: 'vector',
+      nullable: true,
+      values: records.map((r) => r.vector ?? null),
+      dimensions,
+    });
+  }
+
+  const used = new Set(columns.map((c) => c.name));
+  const keys = new Set<string>();
+  for (const record of records) {
+    for (const key of Object.keys(record.metadata ?? {})) {
+      if (!used.has(key)) keys.add(key);
+    }
+  }
+  for (const key of Array.from(keys).sort()) {
+    columns.push(metadataColumn(key, records.map((r) => r.metadata?.[key])));
+  }
+
+  return columns;
+}
+
+/**
+ * Convert an IEEE 754 half-precision value to a number.
+ */
+export function halfToFloat(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
@@ -0,0 +1,269 @@
+/**
+ * Thrift Compact Protocol
+ *
+ * Reader and writer for the Thrift compact protocol, which encodes Parquet
+ * page headers and file metadata.
+ *
+ * @packageDocumentation
+ */
+
+import { ParseError } from '../../errors/index.js';
+
+/** Compact protocol type IDs */
+const CompactType = {
+  Stop: 0,
+  True: 1,
+  False: 2,
+  Byte: 3,
+  I16: 4,
+  I32: 5,
+  I64: 6,
+  Double: 7,
+  Binary: 8,
+  List: 9,
+  Set: 10,
+  Map: 11,
+  Struct: 12,
+} as const;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * A decoded struct: values by field ID. Integers are numbers, binaries are
+ * `Uint8Array`s, lists are arrays and structs are nested `ThriftStruct`s.
+ */
+export type ThriftStruct = Record<number, unknown>;
+
+/**
+ * Decode a binary field as UTF-8 text.
+ */
+export function thriftString(value: unknown): string {
+  return value instanceof Uint8Array ? decoder.decode(value) : '';
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Reads structs from a buffer, advancing `offset`.
+ */
+export class ThriftReader {
+  constructor(
+    private readonly bytes: Uint8Array,
+    public offset = 0
+  ) {}
+
+  private byte(): number {
+    if (this.offset >= this.bytes.byteLength) {
+      throw new ParseError('Parquet metadata ends unexpectedly', {
+        hint: 'The file is incomplete or corrupted.',
+        context: { format: 'parquet' },
+      });
+    }
+    return this.bytes[this.offset++];
+  }
+
+  private varint(): number {
+    let result = 0;
+    let shift = 0;
+    for (;;) {
+      const byte = this.byte();
+      result += (byte & 0x7f) * 2 ** shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += 7;
+    }
+  }
+
+  private zigzag(): number {
+    const value = this.varint();
+    // Decode without 32-bit overflow, so 64-bit values up to 2^53 survive
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  private value(type: number): unknown {
+    switch (type) {
+      case CompactType.True:
+        return true;
+      case CompactType.False:
+        return false;
+      case CompactType.Byte: {
+        const byte = this.byte();
+        return byte > 127 ? byte - 256 : byte;
+      }
+      case CompactType.I16:
+      case CompactType.I32:
+      case CompactType.I64:
+        return this.zigzag();
+      case CompactType.Double: {
+        const view = new DataView(this.bytes.buffer, this.bytes.byteOffset + this.offset, 8);
+        this.offset += 8;
+        return view.getFloat64(0, true);
+      }
+      case CompactType.Binary: {
+        const length = this.varint();
+        const start = this.offset;
+        this.offset += length;
+        return this.bytes.subarray(start, this.offset);
+      }
+      case CompactType.List:
+      case CompactType.Set: {
+        const header = this.byte();
+        const size = header >> 4 === 15 ? this.varint() : header >> 4;
+        const elementType = header & 0x0f;
+        const values: unknown[] = [];
+        for (let i = 0; i < size; i++) {
+          // Booleans in collections are one byte each
+          values.push(
+            elementType === CompactType.True || elementType === CompactType.False
+              ? this.byte() === CompactType.True
+              : this.value(elementType)
+          );
+        }
+        return values;
+      }
+      case CompactType.Map: {
+        const size = this.varint();
+        if (size > 0) {
+          const types = this.byte();
+          for (let i = 0; i < size; i++) {
+            this.value(types >> 4);
+            this.value(types & 0x0f);
+          }
+        }
+        // No Parquet metadata uses maps; they are skipped
+        return undefined;
+      }
+      case CompactType.Struct:
+        return this.readStruct();
+      default:
+        throw new ParseError(`Unknown Thrift type ${type} in Parquet metadata`, {
+          hint: 'The file is corrupted or not a Parquet file.',
+          context: { format: 'parquet' },
+        });
+    }
+  }
+
+  /**
+   * Read a struct.
+   */
+  readStruct(): ThriftStruct {
+    const struct: ThriftStruct = {};
+    let id = 0;
+    for (;;) {
+      const header = this.byte();
+      const type = header & 0x0f;
+      if (type === CompactType.Stop) return struct;
+      const delta = header >> 4;
+      id = delta ? id + delta : this.zigzag();
+      struct[id] = this.value(type);
+    }
+  }
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/**
+ * A value to write, tagged with its type.
+ */
+export type ThriftValue =
+  | { type: 'bool'; value: boolean }
+  | { type: 'i32' | 'i64'; value: number }
+  | { type: 'binary'; value: Uint8Array | string }
+  | { type: 'struct'; value: ThriftFields }
+  | { type: 'list'; elementType: 'i32' | 'binary' | 'struct'; value: ThriftValue[] };
+
+/**
+ * Fields of a struct to write, by field ID; absent fields are `undefined`.
+ */
+export type ThriftFields = Record<number, ThriftValue | undefined>;
+
+const WRITE_TYPE = {
+  bool: CompactType.True,
+  i32: CompactType.I32,
+  i64: CompactType.I64,
+  binary: CompactType.Binary,
+  struct: CompactType.Struct,
+  list: CompactType.List,
+} as const;
+
+/**
+ * Encode a struct.
+ */
+export function encodeThriftStruct(fields: ThriftFields): Uint8Array {
+  const out: number[] = [];
+  writeStruct(out, fields);
+  return new Uint8Array(out);
+}
+
+function writeVarint(out: number[], value: number): void {
+  while (value >= 0x80) {
+    out.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  out.push(value);
+}
+
+function writeZigzag(out: number[], value: number): void {
+  writeVarint(out, value >= 0 ? value * 2 : -value * 2 - 1);
+}
+
+function writeValue(out: number[], value: ThriftValue): void {
+  switch (value.type) {
+    case 'bool':
+      // Only inside collections; fields carry booleans in their header
+      out.push(value.value ? CompactType.True : CompactType.False);
+      break;
+    case 'i32':
+    case 'i64':
+      writeZigzag(out, value.value);
+      break;
+    case 'binary': {
+      const bytes = typeof value.value === 'string' ? encoder.encode(value.value) : value.value;
+      writeVarint(out, bytes.byteLength);
+      for (const byte of bytes) out.push(byte);
+      break;
+    }
+    case 'struct':
+      writeStruct(out, value.value);
+      break;
+    case 'list': {
+      const elementType = WRITE_TYPE[value.elementType];
+      if (value.value.length < 15) {
+        out.push((value.value.length << 4) | elementType);
+      } else {
+        out.push(0xf0 | elementType);
+        writeVarint(out, value.value.length);
+      }
+      for (const element of value.value) writeValue(out, element);
+      break;
+    }
+  }
+}
+
+function writeStruct(out: number[], fields: ThriftFields): void {
+  let last = 0;
+  const ids = Object.keys(fields)
+    .map(Number)
+    .filter((id) => fields[id] !== undefined)
+    .sort((a, b) => a - b);
+
+  for (const id of ids) {
+    const value = fields[id]!;
+    const type =
+      value.type === 'bool' ? (value.value ? CompactType.True : CompactType.False) : WRITE_TYPE[value.type];
+    const delta = id - last;
+    if (delta > 0 && delta <= 15) {
+      out.push((delta << 4) | type);
+    } else {
+      out.push(type);
+      writeZigzag(out, id);
+    }
+    last = id;
+    if (value.type !== 'bool') writeValue(out, value);
+  }
+  out.push(CompactType.Stop);
+}
@@ -0,0 +1,41 @@
+/**
+ * External Content
+ *
+ * Normalizes raw content to the text or bytes a parser expects.
+ *
+ * @packageDocumentation
+ */
+
+import { ParseError } from '../errors/index.js';
+import type { ExternalContent, ExternalFormat } from './types.js';
+
+const decoder = new TextDecoder();
+
+/**
+ * Formats whose content is binary.
+ */
+export function isBinaryFormat(format: ExternalFormat): format is 'parquet' | 'arrow' {
+  return format === 'parquet' || format === 'arrow';
+}
+
+/**
+ * Content as bytes, for the binary formats.
+ *
+ * @throws {ParseError} When the content is a string
+ */
+export function contentBytes(content: ExternalContent, format: ExternalFormat): Uint8Array {
+  if (typeof content === 'string') {
+    throw new ParseError(`${format === 'parquet' ? 'Parquet' : 'Arrow'} content must be binary, not a string`, {
+      hint: 'Read the file with file.arrayBuffer() instead of file.text(); decoding binary data as text corrupts it.',
+      context: { format },
+    });
+  }
+  return content instanceof Uint8Array ? content : new Uint8Array(content);
+}
+
+/**
+ * Content as text, for the text formats. Bytes are decoded as UTF-8.
+ */
+export function contentText(content: ExternalContent): string {
+  return typeof content === 'string' ? content : decoder.decode(content);
+}
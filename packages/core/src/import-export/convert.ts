@@ -10,7 +10,9 @@
 import { parseExternalFormat } from './import-from.js';
 import { serializeToCSV } from './serializers/csv.js';
 import { serializeToJSONL } from './serializers/jsonl.js';
-import type { ImportRecord, ConvertOptions } from './types.js';
+import { serializeToParquet } from './serializers/parquet.js';
+import { serializeToArrow } from './serializers/arrow.js';
+import type { ImportRecord, ConvertOptions, ExternalContent, ExternalFormat } from './types.js';
 
 /**
  * Serialize records to Pinecone JSON format.
@@ -80,9 +82,9 @@ function serializeToChroma(records: ImportRecord[]): string {
  * Parses the input content in the source format and serializes it
  * in the target format. Useful for offline data preparation.
  *
- * @param content - Raw content string in the source format
+ * @param content - Raw content in the source format (bytes for Parquet and Arrow)
  * @param options - Conversion options (source format auto-detected if omitted)
- * @returns Content string in the target format
+ * @returns Content in the target format: bytes for Parquet and Arrow, else a string
  *
  * @example
  * ```ts
@@ -93,9 +95,21 @@ function serializeToChroma(records: ImportRecord[]): string {
  *
  * // Convert ChromaDB JSON to JSONL (auto-detect source)
  * const jsonl = convertFormat(chromaJson, { to: 'jsonl' });
+ *
+ * // Convert JSONL to Parquet for a Python pipeline
+ * const parquet = convertFormat(jsonl, { to: 'parquet' }); // Uint8Array
  * ```
  */
-export function convertFormat(content: string, options: ConvertOptions): string {
+export function convertFormat(
+  content: ExternalContent,
+  options: ConvertOptions & { to: 'parquet' | 'arrow' }
+): Uint8Array;
+export function convertFormat(
+  content: ExternalContent,
+  options: ConvertOptions & { to: Exclude<ExternalFormat, 'parquet' | 'arrow'> }
+): string;
+export function convertFormat(content: ExternalContent, options: ConvertOptions): string | Uint8Array;
+export function convertFormat(content: ExternalContent, options: ConvertOptions): string | Uint8Array {
   const parseResult = parseExternalFormat(content, { format: options.from });
   const records = parseResult.records;
 
@@ -108,6 +122,10 @@ export function convertFormat(content: string, options: ConvertOptions): string
       return serializeToPinecone(records);
     case 'chroma':
       return serializeToChroma(records);
+    case 'parquet':
+      return serializeToParquet(records, options.parquetOptions);
+    case 'arrow':
+      return serializeToArrow(records, options.arrowOptions);
     default:
       throw new Error(`Unsupported target format: ${options.to}`);
   }
@@ -8,19 +8,24 @@
  */
 
 import { ParseError } from '../errors/index.js';
-import type { ExternalFormat } from './types.js';
+import { contentText } from './content.js';
+import { isArrowFile, isArrowStream } from './parsers/arrow.js';
+import { isParquet } from './parsers/parquet.js';
+import type { ExternalContent, ExternalFormat } from './types.js';
 
 /**
  * Detect the external format of vector data from its content.
  *
  * Detection order:
+ * 0. Bytes that start and end with `PAR1` -> Parquet; bytes that start with
+ *    `ARROW1` or an IPC continuation marker -> Arrow
  * 1. Try JSON parse — if `vectors` array with `values` fields -> Pinecone
  * 2. Try JSON parse — if `ids` and (`embeddings` or `documents`) -> ChromaDB
  * 3. If multiple lines where each non-empty line is valid JSON -> JSONL
  * 4. If first line has comma-separated values -> CSV
  * 5. Otherwise -> throw ParseError
  *
- * @param content - Raw content string to analyze
+ * @param content - Raw content to analyze (bytes for Parquet and Arrow)
  * @returns Detected format
  * @throws {ParseError} When format cannot be determined
  *
@@ -30,14 +35,27 @@ import type { ExternalFormat } from './types.js';
  *
  * const format = detectFormat(fileContent);
  * // 'pinecone' | 'chroma' | 'csv' | 'jsonl'
+ *
+ * const binaryFormat = detectFormat(new Uint8Array(await file.arrayBuffer()));
+ * // also 'parquet' | 'arrow'
  * ```
  */
-export function detectFormat(content: string): ExternalFormat {
-  const trimmed = content.trim();
+export function detectFormat(content: ExternalContent): ExternalFormat {
+  if (typeof content !== 'string') {
+    const bytes = content instanceof Uint8Array ? content : new Uint8Array(content);
+    if (isParquet(bytes)) return 'parquet';
+    if (isArrowFile(bytes) || isArrowStream(bytes)) return 'arrow';
+  } else if (content.startsWith('PAR1') || content.startsWith('ARROW1')) {
+    throw new ParseError('Binary Parquet or Arrow content was read as text', {
+      hint: 'Read the file with file.arrayBuffer() instead of file.text(); decoding binary data as text corrupts it.',
+    });
+  }
+
+  const trimmed = contentText(content).trim();
 
   if (!trimmed) {
     throw new ParseError('Content is empty', {
-      hint: 'Provide non-empty content in a supported format: Pinecone JSON, ChromaDB JSON, CSV, or JSONL.',
+      hint: 'Provide non-empty content in a supported format: Pinecone JSON, ChromaDB JSON, CSV, JSONL, Parquet, or Arrow.',
     });
   }
 
@@ -134,7 +152,7 @@ export function detectFormat(content: string): ExternalFormat {
   throw new ParseError(
     'Unable to detect format from content structure',
     {
-      hint: 'Supported formats: Pinecone JSON ({ vectors: [...] }), ChromaDB JSON ({ ids: [], embeddings: [] }), CSV (with header row), JSONL (one JSON object per line). Specify the format explicitly if auto-detection fails.',
+      hint: 'Supported formats: Pinecone JSON ({ vectors: [...] }), ChromaDB JSON ({ ids: [], embeddings: [] }), CSV (with header row), JSONL (one JSON object per line), Parquet and Arrow IPC (as bytes). Specify the format explicitly if auto-detection fails.',
     }
   );
 }
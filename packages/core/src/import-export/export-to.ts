@@ -1,14 +1,24 @@
 /**
  * Export Serializers
  *
- * Convert ImportRecord[] to CSV or JSONL strings for interoperability.
+ * Convert ImportRecord[] to CSV or JSONL strings or Parquet or Arrow files
+ * for interoperability, or batches of records to CSV or JSONL text streams.
  *
  * @packageDocumentation
  */
 
-import { serializeToCSV } from './serializers/csv.js';
-import { serializeToJSONL } from './serializers/jsonl.js';
-import type { ImportRecord, ExportToCSVOptions, ExportToJSONLOptions } from './types.js';
+import { serializeToCSV, serializeToCSVStream } from './serializers/csv.js';
+import { serializeToJSONL, serializeToJSONLStream } from './serializers/jsonl.js';
+import { serializeToParquet } from './serializers/parquet.js';
+import { serializeToArrow } from './serializers/arrow.js';
+import type {
+  ImportRecord,
+  ImportRecordBatches,
+  ExportToCSVOptions,
+  ExportToJSONLOptions,
+  ExportToParquetOptions,
+  ExportToArrowOptions,
+} from './types.js';
 
 /**
  * Export ImportRecord[] as a CSV string.
@@ -55,3 +65,109 @@ export function exportToCSV(records: ImportRecord[], options?: ExportToCSVOption
 export function exportToJSONL(records: ImportRecord[], options?: ExportToJSONLOptions): string {
   return serializeToJSONL(records, options);
 }
+
+/**
+ * Export ImportRecord[] as a Parquet file.
+ *
+ * Vectors go in a list-of-floats column that pyarrow, pandas and LanceDB
+ * read as `fixed_size_list<float>`; `id`, `text` and metadata fields become
+ * typed columns. The file is uncompressed.
+ *
+ * @param records - Records to export
+ * @param options - Parquet export options
+ * @returns Parquet file bytes
+ * @throws {ValidationError} When vectors have different lengths
+ *
+ * @example
+ * ```ts
+ * import { exportToParquet } from '@localmode/core';
+ *
+ * const parquet = exportToParquet(records, { vectorFieldName: 'embedding' });
+ * const blob = new Blob([parquet], { type: 'application/vnd.apache.parquet' });
+ * ```
+ */
+export function exportToParquet(records: ImportRecord[], options?: ExportToParquetOptions): Uint8Array {
+  return serializeToParquet(records, options);
+}
+
+/**
+ * Export ImportRecord[] as an Arrow IPC file.
+ *
+ * Vectors go in a `FixedSizeList<Float32>` column; `id`, `text` and
+ * metadata fields become typed columns. The file is also valid Feather v2.
+ *
+ * @param records - Records to export
+ * @param options - Arrow export options
+ * @returns Arrow IPC file bytes
+ * @throws {ValidationError} When vectors have different lengths
+ *
+ * @example
+ * ```ts
+ * import { exportToArrow } from '@localmode/core';
+ *
+ * const arrow = exportToArrow(records);
+ * const blob = new Blob([arrow], { type: 'application/vnd.apache.arrow.file' });
+ * ```
+ */
+export function exportToArrow(records: ImportRecord[], options?: ExportToArrowOptions): Uint8Array {
+  return serializeToArrow(records, options);
+}
+
+/**
+ * Export batches of ImportRecords as a CSV text stream.
+ *
+ * Streaming variant of {@link exportToCSV} for record sets too large to
+ * hold in memory: batches are read as the stream is pulled. The columns
+ * come from the first batch unless `metadataKeys` is given.
+ *
+ * @param batches - Batches of records to export
+ * @param options - CSV export options
+ * @returns Stream of CSV text
+ *
+ * @example
+ * ```ts
+ * import { exportToCSVStream } from '@localmode/core';
+ *
+ * const stream = exportToCSVStream(batches, { metadataKeys: ['category'] });
+ * await stream.pipeThrough(new TextEncoderStream()).pipeTo(writable);
+ * ```
+ */
+export function exportToCSVStream(
+  batches: ImportRecordBatches,
+  options?: ExportToCSVOptions
+): ReadableStream<string> {
+  return serializeToCSVStream(batches, options);
+}
+
+/**
+ * Export batches of ImportRecords as a JSONL text stream.
+ *
+ * Streaming variant of {@link exportToJSONL}; the concatenated stream
+ * equals `exportToJSONL()` of all records.
+ *
+ * @param batches - Batches of records to export
+ * @param options - JSONL export options
+ * @returns Stream of JSONL text
+ *
+ * @example
+ * ```ts
+ * import { exportToJSONLStream } from '@localmode/core';
+ *
+ * async function* pages() {
+ *   let cursor: string | undefined;
+ *   do {
+ *     const page = await db.find({ limit: 500, cursor, includeVectors: true });
+ *     yield page.documents;
+ *     cursor = page.nextCursor ?? undefined;
+ *   } while (cursor);
+ * }
+ *
+ * const stream = exportToJSONLStream(pages());
+ * ```
+ */
+export function exportToJSONLStream(
+  batches: ImportRecordBatches,
+  options?: ExportToJSONLOptions
+): ReadableStream<string> {
+  return serializeToJSONLStream(batches, options);
+}
@@ -11,12 +11,16 @@
  */
 
 import { ParseError, DimensionMismatchOnImportError } from '../errors/index.js';
+import { contentBytes, contentText } from './content.js';
 import { detectFormat } from './detect.js';
 import { parsePinecone } from './parsers/pinecone.js';
 import { parseChroma } from './parsers/chroma.js';
 import { parseCSVVectors } from './parsers/csv.js';
 import { parseJSONL } from './parsers/jsonl.js';
+import { parseParquet } from './parsers/parquet.js';
+import { parseArrow } from './parsers/arrow.js';
 import type {
+  ExternalContent,
   ExternalFormat,
   ImportRecord,
   ParseResult,
@@ -34,7 +38,7 @@ import type {
  * Useful for preview, validation, and format inspection before committing
  * to an import. Does not require a VectorDB instance.
  *
- * @param content - Raw content string to parse
+ * @param content - Raw content to parse (bytes for Parquet and Arrow)
  * @param options - Optional format specification (auto-detected if omitted)
  * @returns ParseResult with records, format, counts, and detected dimensions
  * @throws {ParseError} On malformed input or unrecognized format
@@ -48,10 +52,13 @@ import type {
  * console.log(result.totalRecords);     // 100
  * console.log(result.recordsWithVectors); // 80
  * console.log(result.dimensions);       // 384
+ *
+ * // Parquet and Arrow are read from bytes
+ * const parquet = parseExternalFormat(new Uint8Array(await file.arrayBuffer()));
  * ```
  */
 export function parseExternalFormat(
-  content: string,
+  content: ExternalContent,
   options?: { format?: ExternalFormat }
 ): ParseResult {
   const format = options?.format ?? detectFormat(content);
@@ -297,20 +304,24 @@ export async function importFrom(options: ImportFromOptions): Promise<ImportStat
 /**
  * Dispatch to the appropriate parser based on format.
  */
-function parseByFormat(content: string, format: ExternalFormat): ImportRecord[] {
+function parseByFormat(content: ExternalContent, format: ExternalFormat): ImportRecord[] {
   switch (format) {
     case 'pinecone':
-      return parsePinecone(content);
+      return parsePinecone(contentText(content));
     case 'chroma':
-      return parseChroma(content);
+      return parseChroma(contentText(content));
     case 'csv':
-      return parseCSVVectors(content);
+      return parseCSVVectors(contentText(content));
     case 'jsonl':
-      return parseJSONL(content);
+      return parseJSONL(contentText(content));
+    case 'parquet':
+      return parseParquet(contentBytes(content, format));
+    case 'arrow':
+      return parseArrow(contentBytes(content, format));
     default:
       throw new ParseError(
         `Unsupported format: ${format}`,
-        { hint: `Supported formats: pinecone, chroma, csv, jsonl.` }
+        { hint: `Supported formats: pinecone, chroma, csv, jsonl, parquet, arrow.` }
       );
   }
 }
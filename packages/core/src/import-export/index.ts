@@ -2,7 +2,7 @@
  * Vector Import/Export
  *
  * Parse, import, export, and convert vector data between formats.
- * Supports Pinecone JSON, ChromaDB JSON, CSV, and JSONL.
+ * Supports Pinecone JSON, ChromaDB JSON, CSV, JSONL, Parquet, and Arrow IPC.
  *
  * @packageDocumentation
  */
@@ -10,13 +10,17 @@
 // Types
 export type {
   ExternalFormat,
+  ExternalContent,
   ImportRecord,
+  ImportRecordBatches,
   ParseResult,
   ImportFromOptions,
   ImportProgress,
   ImportStats,
   ExportToCSVOptions,
   ExportToJSONLOptions,
+  ExportToParquetOptions,
+  ExportToArrowOptions,
   ConvertOptions,
   CSVParseOptions,
 } from './types.js';
@@ -29,12 +33,21 @@ export { parsePinecone } from './parsers/pinecone.js';
 export { parseChroma } from './parsers/chroma.js';
 export { parseCSVVectors } from './parsers/csv.js';
 export { parseJSONL } from './parsers/jsonl.js';
+export { parseParquet } from './parsers/parquet.js';
+export { parseArrow } from './parsers/arrow.js';
 
 // Orchestrator
 export { importFrom, parseExternalFormat } from './import-from.js';
 
 // Export serializers
-export { exportToCSV, exportToJSONL } from './export-to.js';
+export {
+  exportToCSV,
+  exportToJSONL,
+  exportToParquet,
+  exportToArrow,
+  exportToCSVStream,
+  exportToJSONLStream,
+} from './export-to.js';
 
 // Format conversion
 export { convertFormat } from './convert.js';
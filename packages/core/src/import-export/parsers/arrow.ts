@@ -0,0 +1,402 @@
+/**
+ * Apache Arrow IPC Parser
+ *
+ * Parses Arrow IPC files (`.arrow`, `.feather` v2) and streams into
+ * ImportRecord[]. A list-of-floats column (`FixedSizeList` or `List`)
+ * becomes the vector.
+ *
+ * @packageDocumentation
+ */
+
+import { ParseError } from '../../errors/index.js';
+import {
+  ARROW_MAGIC,
+  ArrowTypeId,
+  MessageHeader,
+  Precision,
+  decodeSchema,
+  readMessages,
+} from '../columnar/arrow-ipc.js';
+import { halfToFloat, recordsFromColumns } from '../columnar/table.js';
+import type { ArrowField, ArrowType } from '../columnar/arrow-ipc.js';
+import type { FlatTable } from '../columnar/flatbuffers.js';
+import type { ImportRecord } from '../types.js';
+
+/** Milliseconds per unit of `Timestamp`: seconds, milli-, micro-, nanoseconds */
+const TIMESTAMP_MS = [1000, 1, 1e-3, 1e-6];
+
+const MS_PER_DAY = 86_400_000;
+
+const decoder = new TextDecoder();
+
+/**
+ * Whether bytes start with the Arrow file magic.
+ */
+export function isArrowFile(bytes: Uint8Array): boolean {
+  return ARROW_MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Whether bytes start like an Arrow IPC stream: a continuation marker
+ * followed by a message length.
+ */
+export function isArrowStream(bytes: Uint8Array): boolean {
+  return bytes.length >= 8 && bytes[0] === 0xff && bytes[1] === 0xff && bytes[2] === 0xff && bytes[3] === 0xff;
+}
+
+/**
+ * Nodes and buffers of a record batch, consumed in field order.
+ */
+class BatchCursor {
+  private node = 0;
+  private buffer = 0;
+  private readonly nodes: number[];
+  private readonly buffers: number[];
+
+  constructor(
+    private readonly header: FlatTable,
+    private readonly body: Uint8Array
+  ) {
+    // FieldNode { length: long, null_count: long }, Buffer { offset: long, length: long }
+    this.nodes = header.structs(1, 16);
+    this.buffers = header.structs(2, 16);
+  }
+
+  nextNode(): { length: number; nullCount: number } {
+    const at = this.nodes[this.node++];
+    if (at === undefined) throw malformed('fewer field nodes than fields');
+    const view = this.header.view;
+    return { length: Number(view.getBigInt64(at, true)), nullCount: Number(view.getBigInt64(at + 8, true)) };
+  }
+
+  /**
+   * The next buffer, copied so typed arrays over it are aligned.
+   */
+  nextBuffer(): Uint8Array {
+    const at = this.buffers[this.buffer++];
+    if (at === undefined) throw malformed('fewer buffers than fields need');
+    const view = this.header.view;
+    const offset = Number(view.getBigInt64(at, true));
+    const length = Number(view.getBigInt64(at + 8, true));
+    if (offset + length > this.body.byteLength) throw malformed('a buffer outside the message body');
+    return this.body.slice(offset, offset + length);
+  }
+}
+
+function malformed(detail: string): ParseError {
+  return new ParseError(`Malformed Arrow record batch: ${detail}`, {
+    hint: 'The file may be corrupted. Try writing it again.',
+    context: { format: 'arrow' },
+  });
+}
+
+function unsupported(field: ArrowField, what: string): ParseError {
+  return new ParseError(`Arrow column "${field.name}" has an unsupported ${what}`, {
+    hint: 'Cast the column to a string, number, boolean or list of numbers, or drop it before exporting.',
+    context: { format: 'arrow', column: field.name },
+  });
+}
+
+/**
+ * Read `length` integers of the given width as numbers.
+ */
+function readInts(data: Uint8Array, length: number, type: ArrowType): ArrayLike<number | bigint> {
+  const buffer = data.buffer;
+  switch (type.bitWidth) {
+    case 8:
+      return type.signed ? new Int8Array(buffer, 0, length) : new Uint8Array(buffer, 0, length);
+    case 16:
+      return type.signed ? new Int16Array(buffer, 0, length) : new Uint16Array(buffer, 0, length);
+    case 32:
+      return type.signed ? new Int32Array(buffer, 0, length) : new Uint32Array(buffer, 0, length);
+    case 64:
+      return type.signed ? new BigInt64Array(buffer, 0, length) : new BigUint64Array(buffer, 0, length);
+    default:
+      throw malformed(`an integer width of ${type.bitWidth}`);
+  }
+}
+
+/**
+ * Read `length` floats as a typed array: half and single precision as
+ * `Float32Array`, double precision as `Float64Array`.
+ */
+function readFloats(data: Uint8Array, length: number, type: ArrowType): Float32Array | Float64Array {
+  switch (type.precision) {
+    case Precision.Half: {
+      const halves = new Uint16Array(data.buffer, 0, length);
+      return Float32Array.from(halves, halfToFloat);
+    }
+    case Precision.Single:
+      return new Float32Array(data.buffer, 0, length);
+    default:
+      return new Float64Array(data.buffer, 0, length);
+  }
+}
+
+/**
+ * Read `length` variable-length values with 32- or 64-bit offsets.
+ */
+function readBinary(offsets: Uint8Array, data: Uint8Array, length: number, large: boolean, utf8: boolean): unknown[] {
+  const ends = large ? new BigInt64Array(offsets.buffer, 0, length + 1) : new Int32Array(offsets.buffer, 0, length + 1);
+  const values: unknown[] = new Array(length);
+  for (let i = 0; i < length; i++) {
+    const bytes = data.subarray(Number(ends[i]), Number(ends[i + 1]));
+    values[i] = utf8 ? decoder.decode(bytes) : bytes.slice();
+  }
+  return values;
+}
+
+/**
+ * Whether a field is a list whose items are floats.
+ */
+function isFloatList(field: ArrowField): boolean {
+  const item = field.children[0];
+  return item !== undefined && !item.dictionary && item.type.id === ArrowTypeId.FloatingPoint;
+}
+
+/**
+ * Decode the next column of a record batch. Missing values are `null`.
+ */
+function decodeColumn(field: ArrowField, cursor: BatchCursor, dictionaries: Map<number, unknown[]>): unknown[] {
+  const { length, nullCount } = cursor.nextNode();
+  if (field.type.id === ArrowTypeId.Null) {
+    return new Array<unknown>(length).fill(null);
+  }
+
+  const validity = cursor.nextBuffer();
+  const valid = (i: number) => nullCount === 0 || validity.byteLength === 0 || ((validity[i >> 3] >> (i & 7)) & 1) === 1;
+  const rows = (value: (i: number) => unknown): unknown[] => {
+    const out: unknown[] = new Array(length);
+    for (let i = 0; i < length; i++) out[i] = valid(i) ? value(i) : null;
+    return out;
+  };
+
+  if (field.dictionary) {
+    const dictionary = dictionaries.get(field.dictionary.id);
+    if (!dictionary) throw malformed(`a column "${field.name}" that uses a missing dictionary`);
+    const indices = readInts(cursor.nextBuffer(), length, field.dictionary.indexType);
+    return rows((i) => dictionary[Number(indices[i])] ?? null);
+  }
+
+  const { type } = field;
+  switch (type.id) {
+    case ArrowTypeId.Int: {
+      const values = readInts(cursor.nextBuffer(), length, type);
+      return rows((i) => Number(values[i]));
+    }
+
+    case ArrowTypeId.FloatingPoint: {
+      const values = readFloats(cursor.nextBuffer(), length, type);
+      return rows((i) => values[i]);
+    }
+
+    case ArrowTypeId.Bool: {
+      const bits = cursor.nextBuffer();
+      return rows((i) => ((bits[i >> 3] >> (i & 7)) & 1) === 1);
+    }
+
+    case ArrowTypeId.Date: {
+      const data = cursor.nextBuffer();
+      if (type.unit === 0) {
+        const days = new Int32Array(data.buffer, 0, length);
+        return rows((i) => days[i] * MS_PER_DAY);
+      }
+      const ms = new BigInt64Array(data.buffer, 0, length);
+      return rows((i) => Number(ms[i]));
+    }
+
+    case ArrowTypeId.Timestamp: {
+      const scale = TIMESTAMP_MS[type.unit ?? 1];
+      const values = new BigInt64Array(cursor.nextBuffer().buffer, 0, length);
+      return rows((i) => Number(values[i]) * scale);
+    }
+
+    case ArrowTypeId.Utf8:
+    case ArrowTypeId.Binary:
+    case ArrowTypeId.LargeUtf8:
+    case ArrowTypeId.LargeBinary: {
+      const large = type.id === ArrowTypeId.LargeUtf8 || type.id === ArrowTypeId.LargeBinary;
+      const utf8 = type.id === ArrowTypeId.Utf8 || type.id === ArrowTypeId.LargeUtf8;
+      const offsets = cursor.nextBuffer();
+      const values = readBinary(offsets, cursor.nextBuffer(), length, large, utf8);
+      return rows((i) => values[i]);
+    }
+
+    case ArrowTypeId.FixedSizeBinary: {
+      const data = cursor.nextBuffer();
+      const width = type.byteWidth ?? 0;
+      return rows((i) => data.slice(i * width, (i + 1) * width));
+    }
+
+    case ArrowTypeId.List:
+    case ArrowTypeId.LargeList:
+    case ArrowTypeId.FixedSizeList: {
+      let start: (i: number) => number;
+      if (type.id === ArrowTypeId.FixedSizeList) {
+        const size = type.listSize ?? 0;
+        start = (i) => i * size;
+      } else {
+        const buffer = cursor.nextBuffer().buffer;
+        const offsets =
+          type.id === ArrowTypeId.LargeList
+            ? new BigInt64Array(buffer, 0, length + 1)
+            : new Int32Array(buffer, 0, length + 1);
+        start = (i) => Number(offsets[i]);
+      }
+
+      const item = field.children[0];
+      if (!item) throw malformed(`a list column "${field.name}" without an item field`);
+
+      if (isFloatList(field)) {
+        // Decode float items as one typed array; each row gets its own copy
+        // Missing items, such as those under null rows, become NaN
+        const { length: itemCount, nullCount: itemNulls } = cursor.nextNode();
+        const itemValidity = cursor.nextBuffer();
+        const floats = readFloats(cursor.nextBuffer(), itemCount, item.type);
+        if (itemNulls > 0 && itemValidity.byteLength > 0) {
+          for (let i = 0; i < itemCount; i++) {
+            if (((itemValidity[i >> 3] >> (i & 7)) & 1) === 0) floats[i] = NaN;
+          }
+        }
+        return rows((i) => floats.slice(start(i), start(i + 1)));
+      }
+      const items = decodeColumn(item, cursor, dictionaries);
+      return rows((i) => items.slice(start(i), start(i + 1)));
+    }
+
+    case ArrowTypeId.Struct: {
+      const children = field.children.map((child) => ({
+        name: child.name,
+        values: decodeColumn(child, cursor, dictionaries),
+      }));
+      return rows((i) => {
+        const object: Record<string, unknown> = {};
+        for (const child of children) object[child.name] = child.values[i];
+        return object;
+      });
+    }
+
+    default:
+      throw unsupported(field, `type (Arrow type ID ${type.id})`);
+  }
+}
+
+/**
+ * Decode the columns of a record batch.
+ */
+function decodeBatch(
+  batch: FlatTable,
+  body: Uint8Array,
+  fields: ArrowField[],
+  dictionaries: Map<number, unknown[]>
+): unknown[][] {
+  if (batch.table(3)) {
+    throw new ParseError('Compressed Arrow IPC data is not supported', {
+      hint: "Write the file without compression, e.g. pyarrow.feather.write_feather(table, path, compression='uncompressed').",
+      context: { format: 'arrow' },
+    });
+  }
+  const cursor = new BatchCursor(batch, body);
+  return fields.map((field) => decodeColumn(field, cursor, dictionaries));
+}
+
+/**
+ * Find the field that uses a dictionary, searching nested fields.
+ */
+function findDictionaryField(fields: ArrowField[], id: number): ArrowField | undefined {
+  for (const field of fields) {
+    if (field.dictionary?.id === id) return field;
+    const nested = findDictionaryField(field.children, id);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+/**
+ * Parse Arrow IPC data (file or stream format) into ImportRecord[].
+ *
+ * The vector column is a list of floats (`FixedSizeList<Float32>` as
+ * written by `exportToArrow()`, or any float list); the first such column
+ * named `vector`, `embedding`, `values` or `dense_vector` wins, else the
+ * first float list. ID (`id`, `_id`, `uuid`) and text (`text`, `content`,
+ * `document`, `body`) columns are detected by name; remaining columns become
+ * metadata. Dates and timestamps become epoch milliseconds.
+ *
+ * @param content - Arrow IPC bytes
+ * @returns Array of parsed ImportRecord objects
+ * @throws {ParseError} On malformed data, compressed bodies or unsupported column types
+ *
+ * @example
+ * ```ts
+ * import { parseArrow } from '@localmode/core';
+ *
+ * const records = parseArrow(new Uint8Array(await file.arrayBuffer()));
+ * // [{ id: 'v1', vector: Float32Array([0.1, 0.2]), metadata: { ... } }, ...]
+ * ```
+ */
+export function parseArrow(content: Uint8Array): ImportRecord[] {
+  let start = 0;
+  let end = content.byteLength;
+  if (isArrowFile(content)) {
+    // "ARROW1", padding, the stream, the footer, its length and "ARROW1"
+    start = 8;
+    if (content.byteLength >= 18) {
+      const footerLength = new DataView(content.buffer, content.byteOffset).getInt32(content.byteLength - 10, true);
+      end = Math.max(start, content.byteLength - 10 - footerLength);
+    }
+  } else if (!isArrowStream(content)) {
+    throw new ParseError('Content is not Arrow IPC data', {
+      hint: 'Provide an Arrow IPC file (starting with "ARROW1") or stream.',
+      context: { format: 'arrow' },
+    });
+  }
+
+  let fields: ArrowField[] | null = null;
+  let columns: unknown[][] = [];
+  let length = 0;
+  const dictionaries = new Map<number, unknown[]>();
+
+  for (const message of readMessages(content, start, end)) {
+    switch (message.headerType) {
+      case MessageHeader.Schema:
+        fields = decodeSchema(message.header);
+        columns = fields.map(() => []);
+        break;
+
+      case MessageHeader.DictionaryBatch: {
+        const id = message.header.int64(0);
+        const data = message.header.table(1);
+        const field = fields && findDictionaryField(fields, id);
+        if (!data || !field) throw malformed(`a dictionary batch for unknown dictionary ${id}`);
+        const valueField: ArrowField = { ...field, dictionary: undefined };
+        const [values] = decodeBatch(data, message.body, [valueField], dictionaries);
+        const existing = message.header.bool(2) ? (dictionaries.get(id) ?? []) : [];
+        dictionaries.set(id, existing.concat(values));
+        break;
+      }
+
+      case MessageHeader.RecordBatch: {
+        if (!fields) throw malformed('a record batch before the schema');
+        const batch = decodeBatch(message.header, message.body, fields, dictionaries);
+        batch.forEach((values, i) => {
+          for (const value of values) columns[i].push(value);
+        });
+        length += message.header.int64(0);
+        break;
+      }
+    }
+  }
+
+  if (!fields) {
+    throw new ParseError('Arrow IPC data has no schema', {
+      hint: 'The file is empty or incomplete.',
+      context: { format: 'arrow' },
+    });
+  }
+
+  return recordsFromColumns(
+    fields.map((field, i) => ({ name: field.name, values: columns[i] })),
+    length,
+    'arrow'
+  );
+}
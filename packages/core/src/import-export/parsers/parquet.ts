@@ -0,0 +1,554 @@
+/**
+ * Apache Parquet Parser
+ *
+ * Parses Parquet files into ImportRecord[]. A list-of-floats column becomes
+ * the vector. Reads uncompressed and Snappy-compressed files with plain,
+ * dictionary, RLE and byte-stream-split encodings, which covers the defaults
+ * of pyarrow, pandas, Spark and DuckDB.
+ *
+ * @packageDocumentation
+ */
+
+import { ParseError } from '../../errors/index.js';
+import {
+  CODEC_NAMES,
+  ConvertedType,
+  ENCODING_NAMES,
+  Encoding,
+  LogicalType,
+  PARQUET_MAGIC,
+  PageType,
+  PhysicalType,
+  Repetition,
+  levelBitWidth,
+} from '../columnar/parquet-format.js';
+import { decodeHybrid } from '../columnar/rle.js';
+import { snappyDecompress } from '../columnar/snappy.js';
+import { halfToFloat, recordsFromColumns } from '../columnar/table.js';
+import { ThriftReader, thriftString } from '../columnar/thrift.js';
+import type { ThriftStruct } from '../columnar/thrift.js';
+import type { ImportRecord } from '../types.js';
+
+const MS_PER_DAY = 86_400_000;
+
+/** Julian day of the Unix epoch, for INT96 timestamps */
+const JULIAN_EPOCH_DAY = 2_440_588;
+
+const decoder = new TextDecoder();
+
+/**
+ * A node of the schema tree.
+ */
+interface SchemaNode {
+  element: ThriftStruct;
+  children: SchemaNode[];
+}
+
+/**
+ * A leaf column, one per top-level column: a primitive or a list of primitives.
+ */
+interface Leaf {
+  /** Top-level column name */
+  name: string;
+  physicalType: number;
+  typeLength: number;
+  maxDefinition: number;
+  maxRepetition: number;
+  /** For lists: the definition level from which the list is not null */
+  listDefinition: number | null;
+  /** For lists: the definition level from which an item exists */
+  itemDefinition: number;
+  /** Typed array for rows of a list of floats */
+  floatArray: Float32ArrayConstructor | Float64ArrayConstructor | null;
+  /** Convert a decoded physical value to a JS value */
+  convert: (value: unknown) => unknown;
+}
+
+/**
+ * Whether bytes start and end with the Parquet magic.
+ */
+export function isParquet(bytes: Uint8Array): boolean {
+  const end = bytes.byteLength - 4;
+  return end >= 4 && PARQUET_MAGIC.every((byte, i) => bytes[i] === byte && bytes[end + i] === byte);
+}
+
+function unsupported(column: string, what: string, hint: string): ParseError {
+  return new ParseError(`Parquet column "${column}" uses an unsupported ${what}`, {
+    hint,
+    context: { format: 'parquet', column },
+  });
+}
+
+function truncated(): ParseError {
+  return new ParseError('Parquet data ends in the middle of a page', {
+    hint: 'The file is incomplete. Check that it was fully written and downloaded.',
+    context: { format: 'parquet' },
+  });
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * Build the converter from physical values to JS values of a leaf element.
+ */
+function leafConverter(element: ThriftStruct): (value: unknown) => unknown {
+  const physicalType = element[1] as number;
+  const converted = element[6] as number | undefined;
+  const logical = (element[10] ?? {}) as ThriftStruct;
+  const scale = 10 ** ((element[7] as number | undefined) ?? 0);
+  const isDecimal = converted === ConvertedType.Decimal || LogicalType.Decimal in logical;
+
+  switch (physicalType) {
+    case PhysicalType.Int32:
+      if (converted === ConvertedType.Date || LogicalType.Date in logical) {
+        return (days) => (days as number) * MS_PER_DAY;
+      }
+      return isDecimal ? (value) => (value as number) / scale : (value) => value;
+
+    case PhysicalType.Int64: {
+      let toMs: number | null = null;
+      if (converted === ConvertedType.TimestampMillis) toMs = 1;
+      if (converted === ConvertedType.TimestampMicros) toMs = 1e-3;
+      const timestamp = logical[LogicalType.Timestamp] as ThriftStruct | undefined;
+      if (timestamp) {
+        const unit = (timestamp[2] ?? {}) as ThriftStruct;
+        toMs = 1 in unit ? 1 : 2 in unit ? 1e-3 : 1e-6;
+      }
+      if (toMs !== null) {
+        const factor = toMs;
+        return (value) => Number(value) * factor;
+      }
+      return isDecimal ? (value) => Number(value) / scale : (value) => Number(value);
+    }
+
+    case PhysicalType.ByteArray: {
+      const isText =
+        converted === ConvertedType.UTF8 ||
+        converted === ConvertedType.Enum ||
+        converted === ConvertedType.JSON ||
+        LogicalType.String in logical ||
+        LogicalType.Enum in logical ||
+        LogicalType.JSON in logical;
+      return isText ? (value) => decoder.decode(value as Uint8Array) : (value) => value;
+    }
+
+    case PhysicalType.FixedLenByteArray:
+      if (LogicalType.Float16 in logical) {
+        return (value) => halfToFloat((value as Uint8Array)[0] | ((value as Uint8Array)[1] << 8));
+      }
+      if (LogicalType.UUID in logical) {
+        return (value) => {
+          const hex = Array.from(value as Uint8Array, (b) => b.toString(16).padStart(2, '0')).join('');
+          return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+        };
+      }
+      return (value) => value;
+
+    default:
+      return (value) => value;
+  }
+}
+
+/**
+ * Read the flattened schema into a tree and describe the leaf of each
+ * top-level column.
+ *
+ * @throws {ParseError} For structs, maps and nested lists
+ */
+function schemaLeaves(schema: ThriftStruct[]): Leaf[] {
+  let index = 1;
+  const readNode = (): SchemaNode => {
+    const element = schema[index++];
+    if (!element) throw new ParseError('Parquet schema is incomplete', { context: { format: 'parquet' } });
+    const children = Array.from({ length: (element[5] as number | undefined) ?? 0 }, readNode);
+    return { element, children };
+  };
+  const columns = Array.from({ length: (schema[0]?.[5] as number | undefined) ?? 0 }, readNode);
+
+  return columns.map((column) => {
+    const name = thriftString(column.element[4]);
+    const path: SchemaNode[] = [column];
+    while (path[path.length - 1].children.length > 0) {
+      const node = path[path.length - 1];
+      if (node.children.length > 1) {
+        throw unsupported(name, 'struct or map column', 'Flatten the column into top-level columns, or drop it before exporting.');
+      }
+      path.push(node.children[0]);
+    }
+
+    let definition = 0;
+    let repetition = 0;
+    let listDefinition: number | null = null;
+    let itemDefinition = 0;
+    for (const node of path) {
+      const type = (node.element[3] as number | undefined) ?? Repetition.Required;
+      if (type === Repetition.Repeated) {
+        if (repetition > 0) {
+          throw unsupported(name, 'nested list', 'Flatten the column into a list of numbers or strings.');
+        }
+        listDefinition = definition;
+        repetition++;
+        definition++;
+        itemDefinition = definition;
+      } else if (type === Repetition.Optional) {
+        definition++;
+      }
+    }
+    if (path.length > 1 && listDefinition === null) {
+      throw unsupported(name, 'struct column', 'Flatten the column into top-level columns, or drop it before exporting.');
+    }
+
+    const leaf = path[path.length - 1].element;
+    const physicalType = leaf[1] as number;
+    const isFloat16 = physicalType === PhysicalType.FixedLenByteArray && LogicalType.Float16 in ((leaf[10] ?? {}) as ThriftStruct);
+    let floatArray: Leaf['floatArray'] = null;
+    if (listDefinition !== null) {
+      if (physicalType === PhysicalType.Float || isFloat16) floatArray = Float32Array;
+      if (physicalType === PhysicalType.Double) floatArray = Float64Array;
+    }
+
+    return {
+      name,
+      physicalType,
+      typeLength: (leaf[2] as number | undefined) ?? 0,
+      maxDefinition: definition,
+      maxRepetition: repetition,
+      listDefinition,
+      itemDefinition,
+      floatArray,
+      convert: leafConverter(leaf),
+    };
+  });
+}
+
+// ============================================================================
+// Pages
+// ============================================================================
+
+function decompress(data: Uint8Array, codec: number, column: string): Uint8Array {
+  switch (codec) {
+    case 0:
+      return data;
+    case 1:
+      return snappyDecompress(data);
+    default:
+      throw unsupported(
+        column,
+        `compression codec (${CODEC_NAMES[codec] ?? codec})`,
+        "Write the file with Snappy compression or none, e.g. pyarrow.parquet.write_table(table, path, compression='snappy')."
+      );
+  }
+}
+
+/**
+ * Decode `count` plain-encoded values.
+ */
+function decodePlain(data: Uint8Array, leaf: Leaf, count: number): ArrayLike<unknown> {
+  const copy = (bytes: number) => {
+    if (data.byteLength < bytes) throw truncated();
+    return data.slice(0, bytes).buffer;
+  };
+
+  switch (leaf.physicalType) {
+    case PhysicalType.Boolean:
+      return Array.from({ length: count }, (_, i) => ((data[i >> 3] >> (i & 7)) & 1) === 1);
+    case PhysicalType.Int32:
+      return new Int32Array(copy(count * 4));
+    case PhysicalType.Int64:
+      return new BigInt64Array(copy(count * 8));
+    case PhysicalType.Int96: {
+      // Nanoseconds of the day, then the Julian day
+      const view = new DataView(copy(count * 12));
+      return Array.from({ length: count }, (_, i) => {
+        const nanos = Number(view.getBigInt64(i * 12, true));
+        const day = view.getInt32(i * 12 + 8, true);
+        return (day - JULIAN_EPOCH_DAY) * MS_PER_DAY + nanos / 1e6;
+      });
+    }
+    case PhysicalType.Float:
+      return new Float32Array(copy(count * 4));
+    case PhysicalType.Double:
+      return new Float64Array(copy(count * 8));
+    case PhysicalType.ByteArray: {
+      const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      const values: Uint8Array[] = new Array(count);
+      let position = 0;
+      for (let i = 0; i < count; i++) {
+        if (position + 4 > data.byteLength) throw truncated();
+        const length = view.getUint32(position, true);
+        position += 4;
+        values[i] = data.slice(position, position + length);
+        position += length;
+      }
+      return values;
+    }
+    case PhysicalType.FixedLenByteArray: {
+      const width = leaf.typeLength;
+      if (data.byteLength < count * width) throw truncated();
+      return Array.from({ length: count }, (_, i) => data.slice(i * width, (i + 1) * width));
+    }
+    default:
+      throw unsupported(leaf.name, `physical type (${leaf.physicalType})`, 'The file may be corrupted.');
+  }
+}
+
+/**
+ * Decode `count` values of a data page.
+ */
+function decodeValues(
+  data: Uint8Array,
+  encoding: number,
+  leaf: Leaf,
+  count: number,
+  dictionary: ArrayLike<unknown> | null
+): ArrayLike<unknown> {
+  switch (encoding) {
+    case Encoding.Plain:
+      return decodePlain(data, leaf, count);
+
+    case Encoding.PlainDictionary:
+    case Encoding.RLEDictionary: {
+      if (!dictionary) {
+        throw new ParseError(`Parquet column "${leaf.name}" has a dictionary-encoded page without a dictionary`, {
+          hint: 'The file is corrupted.',
+          context: { format: 'parquet', column: leaf.name },
+        });
+      }
+      if (count === 0) return [];
+      const indices = decodeHybrid(data.subarray(1), data[0], count);
+      return Array.from(indices, (i) => dictionary[i]);
+    }
+
+    case Encoding.RLE: {
+      // Booleans, after a 4-byte length
+      const length = new DataView(data.buffer, data.byteOffset).getUint32(0, true);
+      return Array.from(decodeHybrid(data.subarray(4, 4 + length), 1, count), (bit) => bit === 1);
+    }
+
+    case Encoding.ByteStreamSplit: {
+      // Byte k of every value, then byte k + 1, ...
+      const width =
+        leaf.physicalType === PhysicalType.FixedLenByteArray
+          ? leaf.typeLength
+          : leaf.physicalType === PhysicalType.Double || leaf.physicalType === PhysicalType.Int64
+            ? 8
+            : 4;
+      if (data.byteLength < count * width) throw truncated();
+      const joined = new Uint8Array(count * width);
+      for (let k = 0; k < width; k++) {
+        for (let i = 0; i < count; i++) joined[i * width + k] = data[k * count + i];
+      }
+      return decodePlain(joined, leaf, count);
+    }
+
+    default:
+      throw unsupported(
+        leaf.name,
+        `encoding (${ENCODING_NAMES[encoding] ?? encoding})`,
+        'Write the file with the default encodings, e.g. pyarrow.parquet.write_table(table, path) without column_encoding.'
+      );
+  }
+}
+
+/**
+ * Read the repetition or definition levels of a v1 data page at `position`.
+ */
+function readLevels(
+  data: Uint8Array,
+  position: number,
+  max: number,
+  count: number,
+  encoding: number,
+  column: string
+): [levels: Uint32Array, end: number] {
+  if (encoding !== Encoding.RLE) {
+    throw unsupported(column, `level encoding (${ENCODING_NAMES[encoding] ?? encoding})`, 'Write the file with a current Parquet writer.');
+  }
+  if (position + 4 > data.byteLength) throw truncated();
+  const length = new DataView(data.buffer, data.byteOffset).getUint32(position, true);
+  const start = position + 4;
+  return [decodeHybrid(data.subarray(start, start + length), levelBitWidth(max), count), start + length];
+}
+
+/**
+ * Assembles the rows of a leaf column from its levels and values, across
+ * pages and row groups.
+ */
+class ColumnBuilder {
+  readonly rows: unknown[] = [];
+  private items: unknown[] | null = null;
+
+  constructor(private readonly leaf: Leaf) {}
+
+  add(repetitions: Uint32Array | null, definitions: Uint32Array | null, values: ArrayLike<unknown>, count: number): void {
+    const { leaf } = this;
+    let next = 0;
+    for (let i = 0; i < count; i++) {
+      const definition = definitions ? definitions[i] : leaf.maxDefinition;
+
+      if (leaf.listDefinition === null) {
+        this.rows.push(definition === leaf.maxDefinition ? leaf.convert(values[next++]) : null);
+        continue;
+      }
+
+      if ((repetitions ? repetitions[i] : 0) === 0) {
+        if (definition < leaf.listDefinition) {
+          this.items = null;
+          this.rows.push(null);
+          continue;
+        }
+        this.items = [];
+        this.rows.push(this.items);
+      }
+      if (definition >= leaf.itemDefinition && this.items) {
+        this.items.push(definition === leaf.maxDefinition ? leaf.convert(values[next++]) : null);
+      }
+    }
+  }
+
+  finish(): unknown[] {
+    const { floatArray } = this.leaf;
+    if (!floatArray) return this.rows;
+    return this.rows.map((row) => (row ? floatArray.from((row as Array<number | null>).map((v) => v ?? NaN)) : null));
+  }
+}
+
+/**
+ * Read the pages of a column chunk into a column builder.
+ */
+function readColumnChunk(bytes: Uint8Array, chunk: ThriftStruct, leaf: Leaf, builder: ColumnBuilder): void {
+  const meta = chunk[3] as ThriftStruct | undefined;
+  if (!meta) {
+    throw unsupported(leaf.name, 'external column chunk', 'Write the table as a single Parquet file.');
+  }
+  const codec = meta[4] as number;
+  const total = meta[5] as number;
+  const dataOffset = meta[9] as number;
+  const dictionaryOffset = meta[11] as number | undefined;
+  let position = dictionaryOffset ? Math.min(dictionaryOffset, dataOffset) : dataOffset;
+  let dictionary: ArrayLike<unknown> | null = null;
+  let read = 0;
+
+  while (read < total) {
+    const reader = new ThriftReader(bytes, position);
+    const header = reader.readStruct();
+    const size = header[3] as number;
+    const page = bytes.subarray(reader.offset, reader.offset + size);
+    if (page.byteLength < size) throw truncated();
+    position = reader.offset + size;
+
+    switch (header[1]) {
+      case PageType.DictionaryPage: {
+        const dictionaryHeader = header[7] as ThriftStruct;
+        dictionary = decodePlain(decompress(page, codec, leaf.name), leaf, dictionaryHeader[1] as number);
+        break;
+      }
+
+      case PageType.DataPage: {
+        const pageHeader = header[5] as ThriftStruct;
+        const count = pageHeader[1] as number;
+        const data = decompress(page, codec, leaf.name);
+        let at = 0;
+        let repetitions: Uint32Array | null = null;
+        let definitions: Uint32Array | null = null;
+        if (leaf.maxRepetition > 0) {
+          [repetitions, at] = readLevels(data, at, leaf.maxRepetition, count, pageHeader[4] as number, leaf.name);
+        }
+        if (leaf.maxDefinition > 0) {
+          [definitions, at] = readLevels(data, at, leaf.maxDefinition, count, pageHeader[3] as number, leaf.name);
+        }
+        const present = definitions ? definitions.filter((d) => d === leaf.maxDefinition).length : count;
+        const values = decodeValues(data.subarray(at), pageHeader[2] as number, leaf, present, dictionary);
+        builder.add(repetitions, definitions, values, count);
+        read += count;
+        break;
+      }
+
+      case PageType.DataPageV2: {
+        const pageHeader = header[8] as ThriftStruct;
+        const count = pageHeader[1] as number;
+        const definitionLength = pageHeader[5] as number;
+        const repetitionLength = pageHeader[6] as number;
+        // Levels are never compressed in v2 pages and have no length prefix
+        const repetitions =
+          leaf.maxRepetition > 0
+            ? decodeHybrid(page.subarray(0, repetitionLength), levelBitWidth(leaf.maxRepetition), count)
+            : null;
+        const definitions =
+          leaf.maxDefinition > 0
+            ? decodeHybrid(
+                page.subarray(repetitionLength, repetitionLength + definitionLength),
+                levelBitWidth(leaf.maxDefinition),
+                count
+              )
+            : null;
+        let data = page.subarray(repetitionLength + definitionLength);
+        if (pageHeader[7] !== false) data = decompress(data, codec, leaf.name);
+        const present = definitions ? definitions.filter((d) => d === leaf.maxDefinition).length : count;
+        builder.add(repetitions, definitions, decodeValues(data, pageHeader[4] as number, leaf, present, dictionary), count);
+        read += count;
+        break;
+      }
+
+      default:
+        // Index pages carry no values
+        break;
+    }
+  }
+}
+
+/**
+ * Parse a Parquet file into ImportRecord[].
+ *
+ * The vector column is a list of floats (as written by `exportToParquet()`,
+ * pyarrow's `fixed_size_list` or `list` columns, or Spark arrays); the first
+ * such column named `vector`, `embedding`, `values` or `dense_vector` wins,
+ * else the first float list. ID (`id`, `_id`, `uuid`) and text (`text`,
+ * `content`, `document`, `body`) columns are detected by name; remaining
+ * columns become metadata. Dates and timestamps become epoch milliseconds.
+ *
+ * @param content - Parquet file bytes
+ * @returns Array of parsed ImportRecord objects
+ * @throws {ParseError} On malformed files, unsupported compression codecs or
+ * encodings, and struct, map or nested list columns
+ *
+ * @example
+ * ```ts
+ * import { parseParquet } from '@localmode/core';
+ *
+ * const records = parseParquet(new Uint8Array(await file.arrayBuffer()));
+ * // [{ id: 'v1', vector: Float32Array([0.1, 0.2]), metadata: { ... } }, ...]
+ * ```
+ */
+export function parseParquet(content: Uint8Array): ImportRecord[] {
+  if (!isParquet(content)) {
+    throw new ParseError('Content is not a Parquet file', {
+      hint: 'Parquet files start and end with "PAR1". Encrypted Parquet files are not supported.',
+      context: { format: 'parquet' },
+    });
+  }
+
+  const footerLength = new DataView(content.buffer, content.byteOffset).getUint32(content.byteLength - 8, true);
+  const footerStart = content.byteLength - 8 - footerLength;
+  if (footerStart < 4) throw truncated();
+  const metadata = new ThriftReader(content.subarray(0, content.byteLength - 8), footerStart).readStruct();
+
+  const leaves = schemaLeaves((metadata[2] ?? []) as ThriftStruct[]);
+  const builders = leaves.map((leaf) => new ColumnBuilder(leaf));
+
+  for (const rowGroup of (metadata[4] ?? []) as ThriftStruct[]) {
+    const chunks = (rowGroup[1] ?? []) as ThriftStruct[];
+    chunks.forEach((chunk, i) => {
+      const leaf = leaves[i];
+      if (leaf) readColumnChunk(content, chunk, leaf, builders[i]);
+    });
+  }
+
+  return recordsFromColumns(
+    leaves.map((leaf, i) => ({ name: leaf.name, values: builders[i].finish() })),
+    (metadata[3] as number | undefined) ?? 0,
+    'parquet'
+  );
+}
@@ -0,0 +1,220 @@
+/**
+ * Apache Arrow IPC Serializer
+ *
+ * Serializes ImportRecord[] to an Arrow IPC file with the vectors in a
+ * `FixedSizeList<Float32>` column.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  ARROW_MAGIC,
+  ArrowTypeId,
+  MessageHeader,
+  Precision,
+  encodeEndOfStream,
+  encodeMessage,
+  encodeSchema,
+} from '../columnar/arrow-ipc.js';
+import { encodeFlatBuffer } from '../columnar/flatbuffers.js';
+import { columnsFromRecords } from '../columnar/table.js';
+import type { ArrowField, ArrowType } from '../columnar/arrow-ipc.js';
+import type { TypedColumn } from '../columnar/table.js';
+import type { ImportRecord, ExportToArrowOptions } from '../types.js';
+
+const encoder = new TextEncoder();
+
+/**
+ * Arrow field of a typed column.
+ */
+export function arrowField(column: TypedColumn): ArrowField {
+  const field = (type: ArrowType, children: ArrowField[] = []): ArrowField => ({
+    name: column.name,
+    nullable: column.nullable,
+    type,
+    children,
+  });
+  switch (column.type) {
+    case 'string':
+      return field({ id: ArrowTypeId.Utf8 });
+    case 'boolean':
+      return field({ id: ArrowTypeId.Bool });
+    case 'int64':
+      return field({ id: ArrowTypeId.Int, bitWidth: 64, signed: true });
+    case 'float64':
+      return field({ id: ArrowTypeId.FloatingPoint, precision: Precision.Double });
+    case 'vector':
+      return field({ id: ArrowTypeId.FixedSizeList, listSize: column.dimensions ?? 0 }, [
+        { name: 'item', nullable: false, type: { id: ArrowTypeId.FloatingPoint, precision: Precision.Single }, children: [] },
+      ]);
+  }
+}
+
+/**
+ * Buffers and field nodes of a record batch body.
+ */
+class BodyBuilder {
+  readonly nodes: Array<[length: number, nullCount: number]> = [];
+  readonly buffers: Uint8Array[] = [];
+
+  /** Add a buffer; an empty one stands for an absent buffer. */
+  buffer(bytes: Uint8Array): void {
+    this.buffers.push(bytes);
+  }
+
+  /** Add the field node and validity buffer of a column. */
+  node(values: unknown[]): void {
+    const nullCount = values.filter((v) => v === null).length;
+    this.nodes.push([values.length, nullCount]);
+    this.buffer(nullCount > 0 ? bitmap(values, (v) => v !== null) : new Uint8Array(0));
+  }
+
+  /** Encode the body, each buffer padded to 8 bytes, with the metadata describing it. */
+  finish(): { body: Uint8Array; nodes: Uint8Array; buffers: Uint8Array } {
+    const padded = (length: number) => Math.ceil(length / 8) * 8;
+    const body = new Uint8Array(this.buffers.reduce((n, b) => n + padded(b.byteLength), 0));
+    const buffers = new DataView(new ArrayBuffer(this.buffers.length * 16));
+    let offset = 0;
+    this.buffers.forEach((bytes, i) => {
+      body.set(bytes, offset);
+      buffers.setBigInt64(i * 16, BigInt(offset), true);
+      buffers.setBigInt64(i * 16 + 8, BigInt(bytes.byteLength), true);
+      offset += padded(bytes.byteLength);
+    });
+
+    const nodes = new DataView(new ArrayBuffer(this.nodes.length * 16));
+    this.nodes.forEach(([length, nullCount], i) => {
+      nodes.setBigInt64(i * 16, BigInt(length), true);
+      nodes.setBigInt64(i * 16 + 8, BigInt(nullCount), true);
+    });
+
+    return { body, nodes: new Uint8Array(nodes.buffer), buffers: new Uint8Array(buffers.buffer) };
+  }
+}
+
+/**
+ * Pack a predicate over values into a bitmap, least significant bit first.
+ */
+function bitmap(values: unknown[], test: (value: unknown) => boolean): Uint8Array {
+  const bits = new Uint8Array(Math.ceil(values.length / 8));
+  values.forEach((value, i) => {
+    if (test(value)) bits[i >> 3] |= 1 << (i & 7);
+  });
+  return bits;
+}
+
+/**
+ * Add the buffers of a column to a record batch body.
+ */
+function addColumn(body: BodyBuilder, column: TypedColumn): void {
+  const { values } = column;
+  body.node(values);
+
+  switch (column.type) {
+    case 'string': {
+      const encoded = values.map((v) => (v === null ? new Uint8Array(0) : encoder.encode(v as string)));
+      const offsets = new Int32Array(values.length + 1);
+      encoded.forEach((bytes, i) => {
+        offsets[i + 1] = offsets[i] + bytes.byteLength;
+      });
+      const data = new Uint8Array(offsets[values.length]);
+      encoded.forEach((bytes, i) => data.set(bytes, offsets[i]));
+      body.buffer(new Uint8Array(offsets.buffer));
+      body.buffer(data);
+      break;
+    }
+    case 'boolean':
+      body.buffer(bitmap(values, (v) => v === true));
+      break;
+    case 'int64':
+      body.buffer(new Uint8Array(BigInt64Array.from(values, (v) => BigInt((v as number | null) ?? 0)).buffer));
+      break;
+    case 'float64':
+      body.buffer(new Uint8Array(Float64Array.from(values, (v) => (v as number | null) ?? 0).buffer));
+      break;
+    case 'vector': {
+      const dimensions = column.dimensions ?? 0;
+      const items = new Float32Array(values.length * dimensions);
+      values.forEach((v, i) => {
+        if (v) items.set(v as Float32Array, i * dimensions);
+      });
+      body.nodes.push([items.length, 0]);
+      body.buffer(new Uint8Array(0));
+      body.buffer(new Uint8Array(items.buffer));
+      break;
+    }
+  }
+}
+
+/**
+ * Serialize ImportRecord[] to an Arrow IPC file.
+ *
+ * Columns: `id` (utf8), `text` (utf8) when any record has text, the vector
+ * column (`FixedSizeList<Float32>`) when any record has a vector, then one
+ * column per metadata key, sorted. Metadata columns are bool, int64, float64
+ * or utf8 by their values; objects are stored as JSON strings.
+ *
+ * @param records - Records to serialize
+ * @param options - Arrow export options
+ * @returns Arrow IPC file bytes
+ * @throws {ValidationError} When vectors have different lengths
+ */
+export function serializeToArrow(records: ImportRecord[], options?: ExportToArrowOptions): Uint8Array {
+  const columns = columnsFromRecords(records, options);
+  const schema = encodeSchema(columns.map(arrowField));
+
+  const parts: Uint8Array[] = [];
+  let offset = 0;
+  const write = (bytes: Uint8Array) => {
+    parts.push(bytes);
+    offset += bytes.byteLength;
+  };
+
+  write(ARROW_MAGIC);
+  write(new Uint8Array(2));
+  write(encodeMessage(MessageHeader.Schema, schema));
+
+  // Block { offset: long, metaDataLength: int, bodyLength: long }
+  const blocks = new DataView(new ArrayBuffer(records.length > 0 ? 24 : 0));
+  if (records.length > 0) {
+    const body = new BodyBuilder();
+    for (const column of columns) addColumn(body, column);
+    const { body: bytes, nodes, buffers } = body.finish();
+
+    const message = encodeMessage(
+      MessageHeader.RecordBatch,
+      [
+        { type: 'int64', value: records.length },
+        { type: 'structs', value: nodes, count: nodes.byteLength / 16 },
+        { type: 'structs', value: buffers, count: buffers.byteLength / 16 },
+      ],
+      bytes.byteLength
+    );
+    blocks.setBigInt64(0, BigInt(offset), true);
+    blocks.setInt32(8, message.byteLength, true);
+    blocks.setBigInt64(16, BigInt(bytes.byteLength), true);
+    write(message);
+    write(bytes);
+  }
+  write(encodeEndOfStream());
+
+  const footer = encodeFlatBuffer([
+    { type: 'int16', value: 4 }, // metadata version V5
+    { type: 'table', value: schema },
+    { type: 'structs', value: new Uint8Array(0), count: 0 },
+    { type: 'structs', value: new Uint8Array(blocks.buffer), count: blocks.byteLength / 24 },
+  ]);
+  write(footer);
+  const footerLength = new Uint8Array(4);
+  new DataView(footerLength.buffer).setInt32(0, footer.byteLength, true);
+  write(footerLength);
+  write(ARROW_MAGIC);
+
+  const file = new Uint8Array(offset);
+  let at = 0;
+  for (const part of parts) {
+    file.set(part, at);
+    at += part.byteLength;
+  }
+  return file;
+}
@@ -6,7 +6,17 @@
  * @packageDocumentation
  */
 
-import type { ImportRecord, ExportToCSVOptions } from '../types.js';
+import { streamBatches } from './stream.js';
+import type { ImportRecord, ImportRecordBatches, ExportToCSVOptions } from '../types.js';
+
+/**
+ * Columns of a CSV export.
+ */
+interface CSVColumns {
+  hasText: boolean;
+  hasVectors: boolean;
+  metadataKeys: string[];
+}
 
 /**
  * Escape a CSV value per RFC 4180.
@@ -20,25 +30,20 @@ function escapeCSVValue(value: string, delimiter: string): string {
 }
 
 /**
- * Serialize ImportRecord[] to a CSV string.
- *
- * @param records - Records to serialize
- * @param options - CSV export options
- * @returns CSV string with header row and data rows
+ * Decide the columns from the records and options.
  */
-export function serializeToCSV(records: ImportRecord[], options?: ExportToCSVOptions): string {
-  const delimiter = options?.delimiter ?? ',';
+function csvColumns(records: ImportRecord[], options?: ExportToCSVOptions): CSVColumns {
   const includeVectors = options?.includeVectors ?? true;
   const includeText = options?.includeText ?? true;
 
-  if (records.length === 0) {
-    return '';
-  }
-
   // Determine if any records have vectors
   const hasVectors = includeVectors && records.some((r) => r.vector);
   const hasText = includeText && records.some((r) => r.text);
 
+  if (options?.metadataKeys) {
+    return { hasText, hasVectors, metadataKeys: options.metadataKeys };
+  }
+
   // Collect all metadata keys across all records
   const metadataKeys = new Set<string>();
   for (const record of records) {
@@ -48,44 +53,102 @@ export function serializeToCSV(records: ImportRecord[], options?: ExportToCSVOpt
       }
     }
   }
-  const sortedMetadataKeys = Array.from(metadataKeys).sort();
+  return { hasText, hasVectors, metadataKeys: Array.from(metadataKeys).sort() };
+}
 
-  // Build header
+/**
+ * Build the header row.
+ */
+function csvHeader(columns: CSVColumns, delimiter: string): string {
   const headerParts: string[] = ['id'];
-  if (hasText) headerParts.push('text');
-  if (hasVectors) headerParts.push('vector');
-  headerParts.push(...sortedMetadataKeys);
+  if (columns.hasText) headerParts.push('text');
+  if (columns.hasVectors) headerParts.push('vector');
+  headerParts.push(...columns.metadataKeys);
+  return headerParts.join(delimiter);
+}
 
-  const lines: string[] = [headerParts.join(delimiter)];
+/**
+ * Build the data row of one record.
+ */
+function csvRow(record: ImportRecord, columns: CSVColumns, delimiter: string): string {
+  const parts: string[] = [escapeCSVValue(record.id, delimiter)];
 
-  // Build data rows
-  for (const record of records) {
-    const parts: string[] = [escapeCSVValue(record.id, delimiter)];
+  if (columns.hasText) {
+    parts.push(escapeCSVValue(record.text ?? '', delimiter));
+  }
 
-    if (hasText) {
-      parts.push(escapeCSVValue(record.text ?? '', delimiter));
+  if (columns.hasVectors) {
+    if (record.vector) {
+      const vectorStr = `[${Array.from(record.vector).join(',')}]`;
+      parts.push(escapeCSVValue(vectorStr, delimiter));
+    } else {
+      parts.push('');
     }
+  }
 
-    if (hasVectors) {
-      if (record.vector) {
-        const vectorStr = `[${Array.from(record.vector).join(',')}]`;
-        parts.push(escapeCSVValue(vectorStr, delimiter));
-      } else {
-        parts.push('');
-      }
+  for (const key of columns.metadataKeys) {
+    const value = record.metadata?.[key];
+    if (value === undefined || value === null) {
+      parts.push('');
+    } else {
+      parts.push(escapeCSVValue(String(value), delimiter));
     }
+  }
 
-    for (const key of sortedMetadataKeys) {
-      const value = record.metadata?.[key];
-      if (value === undefined || value === null) {
-        parts.push('');
-      } else {
-        parts.push(escapeCSVValue(String(value), delimiter));
-      }
-    }
+  return parts.join(delimiter);
+}
+
+/**
+ * Serialize ImportRecord[] to a CSV string.
+ *
+ * @param records - Records to serialize
+ * @param options - CSV export options
+ * @returns CSV string with header row and data rows
+ */
+export function serializeToCSV(records: ImportRecord[], options?: ExportToCSVOptions): string {
+  const delimiter = options?.delimiter ?? ',';
+
+  if (records.length === 0) {
+    return '';
+  }
 
-    lines.push(parts.join(delimiter));
+  const columns = csvColumns(records, options);
+  const lines: string[] = [csvHeader(columns, delimiter)];
+  for (const record of records) {
+    lines.push(csvRow(record, columns, delimiter));
   }
 
   return lines.join('\n');
 }
+
+/**
+ * Serialize batches of ImportRecords to a CSV text stream.
+ *
+ * The columns are decided from the first non-empty batch, or from
+ * `options.metadataKeys`; metadata keys that first appear in later batches
+ * are not exported.
+ *
+ * @param batches - Batches of records to serialize
+ * @param options - CSV export options
+ * @returns Stream with the header and first batch's rows, then one chunk of rows per batch
+ */
+export function serializeToCSVStream(
+  batches: ImportRecordBatches,
+  options?: ExportToCSVOptions
+): ReadableStream<string> {
+  const delimiter = options?.delimiter ?? ',';
+  let columns: CSVColumns | null = null;
+
+  return streamBatches(batches, (records, first) => {
+    if (records.length === 0) return '';
+    const lines: string[] = [];
+    if (!columns) {
+      columns = csvColumns(records, options);
+      lines.push(csvHeader(columns, delimiter));
+    }
+    for (const record of records) {
+      lines.push(csvRow(record, columns, delimiter));
+    }
+    return (first ? '' : '\n') + lines.join('\n');
+  });
+}
@@ -6,48 +6,69 @@
  * @packageDocumentation
  */
 
-import type { ImportRecord, ExportToJSONLOptions } from '../types.js';
+import { streamBatches } from './stream.js';
+import type { ImportRecord, ImportRecordBatches, ExportToJSONLOptions } from '../types.js';
 
 /**
- * Serialize ImportRecord[] to a JSONL string.
- *
- * Each record becomes one JSON line with `id`, optional `text`,
- * optional vector (as number[]), and flattened metadata fields.
- *
- * @param records - Records to serialize
- * @param options - JSONL export options
- * @returns JSONL string with one JSON object per line
+ * Serialize one record to a JSON line (without the line break).
  */
-export function serializeToJSONL(records: ImportRecord[], options?: ExportToJSONLOptions): string {
+function serializeRecord(record: ImportRecord, options?: ExportToJSONLOptions): string {
   const includeVectors = options?.includeVectors ?? true;
   const includeText = options?.includeText ?? true;
   const vectorFieldName = options?.vectorFieldName ?? 'vector';
 
-  const lines: string[] = [];
+  const obj: Record<string, unknown> = { id: record.id };
 
-  for (const record of records) {
-    const obj: Record<string, unknown> = { id: record.id };
-
-    if (includeText && record.text) {
-      obj.text = record.text;
-    }
+  if (includeText && record.text) {
+    obj.text = record.text;
+  }
 
-    if (includeVectors && record.vector) {
-      obj[vectorFieldName] = Array.from(record.vector);
-    }
+  if (includeVectors && record.vector) {
+    obj[vectorFieldName] = Array.from(record.vector);
+  }
 
-    // Flatten metadata into the top-level object
-    if (record.metadata) {
-      for (const [key, value] of Object.entries(record.metadata)) {
-        // Don't overwrite existing fields
-        if (!(key in obj)) {
-          obj[key] = value;
-        }
+  // Flatten metadata into the top-level object
+  if (record.metadata) {
+    for (const [key, value] of Object.entries(record.metadata)) {
+      // Don't overwrite existing fields
+      if (!(key in obj)) {
+        obj[key] = value;
       }
     }
-
-    lines.push(JSON.stringify(obj));
   }
 
-  return lines.join('\n');
+  return JSON.stringify(obj);
+}
+
+/**
+ * Serialize ImportRecord[] to a JSONL string.
+ *
+ * Each record becomes one JSON line with `id`, optional `text`,
+ * optional vector (as number[]), and flattened metadata fields.
+ *
+ * @param records - Records to serialize
+ * @param options - JSONL export options
+ * @returns JSONL string with one JSON object per line
+ */
+export function serializeToJSONL(records: ImportRecord[], options?: ExportToJSONLOptions): string {
+  return records.map((record) => serializeRecord(record, options)).join('\n');
+}
+
+/**
+ * Serialize batches of ImportRecords to a JSONL text stream.
+ *
+ * The concatenated chunks equal `serializeToJSONL()` of all records.
+ *
+ * @param batches - Batches of records to serialize
+ * @param options - JSONL export options
+ * @returns Stream with one chunk of lines per batch
+ */
+export function serializeToJSONLStream(
+  batches: ImportRecordBatches,
+  options?: ExportToJSONLOptions
+): ReadableStream<string> {
+  return streamBatches(batches, (records, first) => {
+    if (records.length === 0) return '';
+    return (first ? '' : '\n') + serializeToJSONL(records, options);
+  });
 }
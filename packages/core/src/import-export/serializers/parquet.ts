@@ -0,0 +1,334 @@
+/**
+ * Apache Parquet Serializer
+ *
+ * Serializes ImportRecord[] to an uncompressed Parquet file with the
+ * vectors in a list-of-floats column. The Arrow schema is stored in the
+ * footer, so Arrow readers load the vectors as `fixed_size_list<float>`.
+ *
+ * @packageDocumentation
+ */
+
+import { MessageHeader, encodeMessage, encodeSchema } from '../columnar/arrow-ipc.js';
+import {
+  ConvertedType,
+  Encoding,
+  LogicalType,
+  PARQUET_MAGIC,
+  PageType,
+  PhysicalType,
+  Repetition,
+} from '../columnar/parquet-format.js';
+import { encodeHybrid } from '../columnar/rle.js';
+import { columnsFromRecords } from '../columnar/table.js';
+import { encodeThriftStruct } from '../columnar/thrift.js';
+import { arrowField } from './arrow.js';
+import type { TypedColumn } from '../columnar/table.js';
+import type { ThriftFields, ThriftValue } from '../columnar/thrift.js';
+import type { ImportRecord, ExportToParquetOptions } from '../types.js';
+
+const encoder = new TextEncoder();
+
+/**
+ * Levels and values of a column, ready to write as one data page.
+ */
+interface EncodedColumn {
+  path: string[];
+  physicalType: number;
+  /** Number of level entries */
+  count: number;
+  page: Uint8Array;
+}
+
+const PHYSICAL_TYPE: Record<TypedColumn['type'], number> = {
+  string: PhysicalType.ByteArray,
+  boolean: PhysicalType.Boolean,
+  int64: PhysicalType.Int64,
+  float64: PhysicalType.Double,
+  vector: PhysicalType.Float,
+};
+
+/**
+ * Schema elements of a column.
+ */
+function schemaElements(column: TypedColumn): ThriftValue[] {
+  const repetition = column.nullable ? Repetition.Optional : Repetition.Required;
+  const element = (fields: ThriftFields): ThriftValue => ({ type: 'struct', value: fields });
+
+  if (column.type === 'vector') {
+    // optional group <name> (LIST) { repeated group list { required float element; } }
+    return [
+      element({
+        3: { type: 'i32', value: repetition },
+        4: { type: 'binary', value: column.name },
+        5: { type: 'i32', value: 1 },
+        6: { type: 'i32', value: ConvertedType.List },
+        10: { type: 'struct', value: { [LogicalType.List]: { type: 'struct', value: {} } } },
+      }),
+      element({
+        3: { type: 'i32', value: Repetition.Repeated },
+        4: { type: 'binary', value: 'list' },
+        5: { type: 'i32', value: 1 },
+      }),
+      element({
+        1: { type: 'i32', value: PhysicalType.Float },
+        3: { type: 'i32', value: Repetition.Required },
+        4: { type: 'binary', value: 'element' },
+      }),
+    ];
+  }
+
+  const fields: ThriftFields = {
+    1: { type: 'i32', value: PHYSICAL_TYPE[column.type] },
+    3: { type: 'i32', value: repetition },
+    4: { type: 'binary', value: column.name },
+  };
+  if (column.type === 'string') {
+    fields[6] = { type: 'i32', value: ConvertedType.UTF8 };
+    fields[10] = { type: 'struct', value: { [LogicalType.String]: { type: 'struct', value: {} } } };
+  }
+  return [element(fields)];
+}
+
+/**
+ * Plain-encode the present values of a column.
+ */
+function plainValues(column: TypedColumn): Uint8Array {
+  const present = column.values.filter((v) => v !== null);
+  switch (column.type) {
+    case 'string': {
+      const encoded = present.map((v) => encoder.encode(v as string));
+      const bytes = new Uint8Array(encoded.reduce((n, b) => n + 4 + b.byteLength, 0));
+      const view = new DataView(bytes.buffer);
+      let offset = 0;
+      for (const value of encoded) {
+        view.setUint32(offset, value.byteLength, true);
+        bytes.set(value, offset + 4);
+        offset += 4 + value.byteLength;
+      }
+      return bytes;
+    }
+    case 'boolean': {
+      const bits = new Uint8Array(Math.ceil(present.length / 8));
+      present.forEach((v, i) => {
+        if (v) bits[i >> 3] |= 1 << (i & 7);
+      });
+      return bits;
+    }
+    case 'int64':
+      return new Uint8Array(BigInt64Array.from(present, (v) => BigInt(v as number)).buffer);
+    case 'float64':
+      return new Uint8Array(Float64Array.from(present as number[]).buffer);
+    case 'vector': {
+      const dimensions = column.dimensions ?? 0;
+      const floats = new Float32Array(present.length * dimensions);
+      present.forEach((v, i) => floats.set(v as Float32Array, i * dimensions));
+      return new Uint8Array(floats.buffer);
+    }
+  }
+}
+
+/**
+ * Levels with a 4-byte length prefix, as in v1 data pages.
+ */
+function levels(values: ArrayLike<number>, bitWidth: number): Uint8Array {
+  const encoded = encodeHybrid(values, bitWidth);
+  const bytes = new Uint8Array(4 + encoded.byteLength);
+  new DataView(bytes.buffer).setUint32(0, encoded.byteLength, true);
+  bytes.set(encoded, 4);
+  return bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Encode the levels and values of a column as a v1 data page body.
+ */
+function encodeColumn(column: TypedColumn): EncodedColumn {
+  const values = plainValues(column);
+
+  if (column.type === 'vector') {
+    // Definition 0: null row, 2: item; repetition 0 starts a row
+    const dimensions = column.dimensions ?? 0;
+    const repetitions: number[] = [];
+    const definitions: number[] = [];
+    for (const vector of column.values) {
+      if (vector === null) {
+        repetitions.push(0);
+        definitions.push(0);
+      } else if (dimensions === 0) {
+        repetitions.push(0);
+        definitions.push(1);
+      } else {
+        for (let i = 0; i < dimensions; i++) {
+          repetitions.push(i === 0 ? 0 : 1);
+          definitions.push(2);
+        }
+      }
+    }
+    return {
+      path: [column.name, 'list', 'element'],
+      physicalType: PhysicalType.Float,
+      count: definitions.length,
+      page: concat([levels(repetitions, 1), levels(definitions, 2), values]),
+    };
+  }
+
+  const parts = column.nullable
+    ? [levels(column.values.map((v) => (v === null ? 0 : 1)), 1), values]
+    : [values];
+  return {
+    path: [column.name],
+    physicalType: PHYSICAL_TYPE[column.type],
+    count: column.values.length,
+    page: concat(parts),
+  };
+}
+
+/**
+ * Base64-encode bytes.
+ */
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Serialize ImportRecord[] to a Parquet file.
+ *
+ * Columns: `id` (string), `text` (string) when any record has text, the
+ * vector column (list of floats, `fixed_size_list<float>` in the embedded
+ * Arrow schema) when any record has a vector, then one column per metadata
+ * key, sorted. Metadata columns are boolean, int64, double or string by
+ * their values; objects are stored as JSON strings. The file has one row
+ * group, one uncompressed plain-encoded page per column.
+ *
+ * @param records - Records to serialize
+ * @param options - Parquet export options
+ * @returns Parquet file bytes
+ * @throws {ValidationError} When vectors have different lengths
+ */
+export function serializeToParquet(records: ImportRecord[], options?: ExportToParquetOptions): Uint8Array {
+  const columns = columnsFromRecords(records, options);
+  const parts: Uint8Array[] = [PARQUET_MAGIC];
+  let offset = PARQUET_MAGIC.byteLength;
+  const chunks: ThriftValue[] = [];
+
+  if (records.length > 0) {
+    for (const column of columns) {
+      const encoded = encodeColumn(column);
+      const header = encodeThriftStruct({
+        1: { type: 'i32', value: PageType.DataPage },
+        2: { type: 'i32', value: encoded.page.byteLength },
+        3: { type: 'i32', value: encoded.page.byteLength },
+        5: {
+          type: 'struct',
+          value: {
+            1: { type: 'i32', value: encoded.count },
+            2: { type: 'i32', value: Encoding.Plain },
+            3: { type: 'i32', value: Encoding.RLE },
+            4: { type: 'i32', value: Encoding.RLE },
+          },
+        },
+      });
+      const size = header.byteLength + encoded.page.byteLength;
+
+      chunks.push({
+        type: 'struct',
+        value: {
+          2: { type: 'i64', value: offset },
+          3: {
+            type: 'struct',
+            value: {
+              1: { type: 'i32', value: encoded.physicalType },
+              2: {
+                type: 'list',
+                elementType: 'i32',
+                value: [
+                  { type: 'i32', value: Encoding.Plain },
+                  { type: 'i32', value: Encoding.RLE },
+                ],
+              },
+              3: {
+                type: 'list',
+                elementType: 'binary',
+                value: encoded.path.map((name): ThriftValue => ({ type: 'binary', value: name })),
+              },
+              4: { type: 'i32', value: 0 }, // uncompressed
+              5: { type: 'i64', value: encoded.count },
+              6: { type: 'i64', value: size },
+              7: { type: 'i64', value: size },
+              9: { type: 'i64', value: offset },
+            },
+          },
+        },
+      });
+      parts.push(header, encoded.page);
+      offset += size;
+    }
+  }
+
+  const rowGroups: ThriftValue[] =
+    records.length > 0
+      ? [
+          {
+            type: 'struct',
+            value: {
+              1: { type: 'list', elementType: 'struct', value: chunks },
+              2: { type: 'i64', value: offset - PARQUET_MAGIC.byteLength },
+              3: { type: 'i64', value: records.length },
+            },
+          },
+        ]
+      : [];
+
+  const arrowSchema = encodeMessage(MessageHeader.Schema, encodeSchema(columns.map(arrowField)));
+  const footer = encodeThriftStruct({
+    1: { type: 'i32', value: 2 },
+    2: {
+      type: 'list',
+      elementType: 'struct',
+      value: [
+        {
+          type: 'struct',
+          value: {
+            4: { type: 'binary', value: 'schema' },
+            5: { type: 'i32', value: columns.length },
+          },
+        },
+        ...columns.flatMap(schemaElements),
+      ],
+    },
+    3: { type: 'i64', value: records.length },
+    4: { type: 'list', elementType: 'struct', value: rowGroups },
+    5: {
+      type: 'list',
+      elementType: 'struct',
+      value: [
+        {
+          type: 'struct',
+          value: {
+            1: { type: 'binary', value: 'ARROW:schema' },
+            2: { type: 'binary', value: toBase64(arrowSchema) },
+          },
+        },
+      ],
+    },
+    6: { type: 'binary', value: 'LocalMode' },
+  });
+
+  const footerLength = new Uint8Array(4);
+  new DataView(footerLength.buffer).setUint32(0, footer.byteLength, true);
+  parts.push(footer, footerLength, PARQUET_MAGIC);
+  return concat(parts);
+}
@@ -0,0 +1,52 @@
+/**
+ * Streaming Serializer Helper
+ *
+ * Turns batches of records into a stream of text, one chunk per batch.
+ *
+ * @packageDocumentation
+ */
+
+import type { ImportRecord, ImportRecordBatches } from '../types.js';
+
+/**
+ * Serialize batches of records into a text stream.
+ *
+ * Batches are read as the stream is pulled, so only one batch is held at a
+ * time. Batches that produce no text are skipped.
+ *
+ * @param batches - Batches of records
+ * @param serializeBatch - Text of one batch; `first` is true until a batch has produced text
+ * @returns Stream with one chunk per non-empty batch
+ */
+export function streamBatches(
+  batches: ImportRecordBatches,
+  serializeBatch: (records: ImportRecord[], first: boolean) => string
+): ReadableStream<string> {
+  const iterator =
+    Symbol.asyncIterator in batches
+      ? batches[Symbol.asyncIterator]()
+      : (batches as Iterable<ImportRecord[]>)[Symbol.iterator]();
+  let first = true;
+
+  return new ReadableStream<string>({
+    async pull(controller) {
+      // Keep reading until a batch produces text, or the stream would stall
+      for (;;) {
+        const next = await iterator.next();
+        if (next.done) {
+          controller.close();
+          return;
+        }
+        const text = serializeBatch(next.value, first);
+        if (text) {
+          first = false;
+          controller.enqueue(text);
+          return;
+        }
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
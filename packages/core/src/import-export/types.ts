@@ -2,7 +2,7 @@
  * Import/Export Types
  *
  * Type definitions for vector data import/export operations.
- * Supports Pinecone, ChromaDB, CSV, and JSONL formats.
+ * Supports Pinecone, ChromaDB, CSV, JSONL, Parquet, and Arrow formats.
  *
  * @packageDocumentation
  */
@@ -16,7 +16,19 @@ import type { EmbeddingModel } from '../embeddings/types.js';
 /**
  * Supported external vector database formats.
  */
-export type ExternalFormat = 'pinecone' | 'chroma' | 'csv' | 'jsonl';
+export type ExternalFormat = 'pinecone' | 'chroma' | 'csv' | 'jsonl' | 'parquet' | 'arrow';
+
+/**
+ * Raw content of external vector data: text for Pinecone, ChromaDB, CSV and
+ * JSONL, bytes for Parquet and Arrow. Text formats also accept bytes, which
+ * are decoded as UTF-8.
+ *
+ * @example
+ * ```ts
+ * const content: ExternalContent = await file.arrayBuffer();
+ * ```
+ */
+export type ExternalContent = string | ArrayBuffer | Uint8Array;
 
 /**
  * Common intermediate representation for imported vector records.
@@ -45,6 +57,12 @@ export interface ImportRecord {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Records in batches, for the streaming export serializers. Any iterable
+ * works, e.g. an async generator paging through `db.find()`.
+ */
+export type ImportRecordBatches = AsyncIterable<ImportRecord[]> | Iterable<ImportRecord[]>;
+
 /**
  * Result of parsing external format data.
  *
@@ -95,8 +113,8 @@ export interface ImportFromOptions {
     readonly dimensions: number;
     addMany(docs: Array<{ id: string; vector: Float32Array; metadata?: Record<string, unknown> }>): Promise<void>;
   };
-  /** Raw content string to parse */
-  content: string;
+  /** Raw content to parse (bytes for Parquet and Arrow) */
+  content: ExternalContent;
   /** Source format (auto-detected if omitted) */
   format?: ExternalFormat;
   /** Embedding model for re-embedding text-only records */
@@ -145,6 +163,11 @@ export interface ExportToCSVOptions {
   includeVectors?: boolean;
   /** Whether to include the text column (default: true) */
   includeText?: boolean;
+  /**
+   * Metadata columns, in order. Default: every metadata key, sorted; in a
+   * stream, the keys of the first batch.
+   */
+  metadataKeys?: string[];
 }
 
 /**
@@ -159,6 +182,30 @@ export interface ExportToJSONLOptions {
   vectorFieldName?: string;
 }
 
+/**
+ * Options for Parquet export serialization.
+ */
+export interface ExportToParquetOptions {
+  /** Whether to include the vector column (default: true) */
+  includeVectors?: boolean;
+  /** Whether to include the text column (default: true) */
+  includeText?: boolean;
+  /** Name of the vector column (default: 'vector') */
+  vectorFieldName?: string;
+}
+
+/**
+ * Options for Arrow IPC export serialization.
+ */
+export interface ExportToArrowOptions {
+  /** Whether to include the vector column (default: true) */
+  includeVectors?: boolean;
+  /** Whether to include the text column (default: true) */
+  includeText?: boolean;
+  /** Name of the vector column (default: 'vector') */
+  vectorFieldName?: string;
+}
+
 // ============================================================================
 // Convert Options
 // ============================================================================
@@ -175,6 +222,10 @@ export interface ConvertOptions {
   csvOptions?: ExportToCSVOptions;
   /** Options passed to JSONL serializer when `to` is 'jsonl' */
   jsonlOptions?: ExportToJSONLOptions;
+  /** Options passed to Parquet serializer when `to` is 'parquet' */
+  parquetOptions?: ExportToParquetOptions;
+  /** Options passed to Arrow serializer when `to` is 'arrow' */
+  arrowOptions?: ExportToArrowOptions;
 }
 
 // ============================================================================
@@ -16,19 +16,58 @@ export { VectorDBWorkerProxy, createVectorDBWithWorker } from './worker/proxy.js
 
 export type {
   VectorDB,
+  VectorDBTransaction,
+  TransactionOptions,
+  VectorDBSnapshotView,
+  SnapshotInfo,
+  DocumentChange,
+  DocumentChangeType,
+  ChangesOptions,
+  ChangesResult,
+  WatchOptions,
   VectorDBConfig,
   Document,
+  MultiVectorDocument,
+  NamedVectorDocument,
+  DocumentInput,
+  NamedVectorSpaces,
+  NamedVectorSpaceConfig,
   SearchOptions,
+  FusedSearchOptions,
+  FusedSearchResult,
+  SparseVector,
+  SparseSearchOptions,
+  KeywordSearchOptions,
+  KeywordIndexConfig,
   SearchResult,
+  MultiVectorSearchMode,
+  MultiVectorSearchOptions,
+  MultiVectorSearchResult,
   FilterQuery,
   TypedFilterQuery,
   FilterValueOperators,
+  FilterOperators,
+  FilterLogicalOperators,
   AddManyOptions,
   ExportOptions,
+  ExportStreamOptions,
   ImportOptions,
   RecalibrateOptions,
+  CountOptions,
+  FindOptions,
+  FindResult,
+  FindDocument,
+  FindSort,
+  SortDirection,
   DBStats,
   HNSWOptions,
+  HNSWSearchOptions,
+  HNSWSearchFilter,
+  HNSWGroupSearchOptions,
+  HNSWGroupResult,
+  VectorIndexType,
+  VectorIndex,
+  IVFOptions,
   Collection,
   StoredDocument,
   StoredVector,
@@ -47,6 +86,7 @@ export type {
   QuantizationConfig,
   ScalarQuantizationConfig,
   PQQuantizationConfig,
+  BinaryQuantizationConfig,
   ScalarCalibrationData,
   PQCodebook,
 } from './quantization/index.js';
@@ -61,6 +101,9 @@ export {
   trainPQ,
   pqQuantize,
   pqDequantize,
+  binaryQuantize,
+  binaryDequantize,
+  binaryCodeLength,
 } from './quantization/index.js';
 
 // ═══════════════════════════════════════════════════════════════
@@ -160,6 +203,36 @@ export type {
   MultimodalEmbeddingModelFactory,
 } from './multimodal/index.js';
 
+// ═══════════════════════════════════════════════════════════════
+// SPARSE EMBEDDINGS DOMAIN (SPLADE, inverted index)
+// ═══════════════════════════════════════════════════════════════
+
+export {
+  embedSparse,
+  embedManySparse,
+  setGlobalSparseEmbeddingProvider,
+  SparseIndex,
+  validateSparseVector,
+  MAX_SPARSE_INDEX,
+} from './sparse/index.js';
+
+export type {
+  // Sparse model interface
+  SparseEmbeddingModel,
+  DoEmbedSparseOptions,
+  DoEmbedSparseResult,
+  // embedSparse() function types
+  EmbedSparseOptions,
+  EmbedSparseResult,
+  // embedManySparse() function types
+  EmbedManySparseOptions,
+  EmbedManySparseResult,
+  // Factory types
+  SparseEmbeddingModelFactory,
+  // Index types
+  SparseIndexResult,
+} from './sparse/index.js';
+
 // ═══════════════════════════════════════════════════════════════
 // CLASSIFICATION DOMAIN (Sentiment, Emotion, Intent, Topic)
 // ═══════════════════════════════════════════════════════════════
@@ -484,6 +557,10 @@ export {
   // Content utilities
   normalizeContent,
   getTextContent,
+  // Tool calling
+  withToolCalling,
+  createToolCallId,
+  createToolCallDeltaParser,
 } from './generation/index.js';
 
 export type {
@@ -497,6 +574,12 @@ export type {
   GenerationResponse,
   FinishReason,
   ChatMessage,
+  // Tool calling types
+  LanguageModelTool,
+  ToolChoice,
+  ToolCall,
+  ToolCallDelta,
+  ToolCallDeltaParser,
   // Multimodal content types
   ContentPart,
   TextPart,
@@ -511,6 +594,7 @@ export type {
   // Structured output types
   ObjectSchema,
   ObjectOutputMode,
+  ResponseFormat,
   GenerateObjectOptions,
   GenerateObjectResult,
   StreamObjectOptions,
@@ -855,6 +939,8 @@ export type {
   ModelDownloadProgress,
   ModelDownloadRequest,
   PrefetchOptions,
+  ModelCacheStore,
+  ModelMetadataRecord,
 } from './model-cache/types.js';
 
 // ═══════════════════════════════════════════════════════════════
@@ -862,14 +948,26 @@ export type {
 // ═══════════════════════════════════════════════════════════════
 
 export { HNSWIndex } from './hnsw/index.js';
+export { GraphLog, graphCollectionId } from './hnsw/stored-graph.js';
+export { encodeGraph, decodeGraph } from './hnsw/graph-format.js';
+export type { GraphNodeRecord, GraphRecord, DecodedGraphNode, DecodedGraph } from './hnsw/graph-format.js';
 export {
   cosineSimilarity,
   cosineDistance,
   euclideanDistance,
   dotProduct,
+  hammingDistance,
   normalize,
 } from './hnsw/distance.js';
 
+// ═══════════════════════════════════════════════════════════════
+// FLAT & IVF INDEXES
+// ═══════════════════════════════════════════════════════════════
+
+export { FlatIndex, IVFIndex } from './ivf/index.js';
+
+export type { IVFStore, StoredIVFState } from './ivf/index.js';
+
 // ═══════════════════════════════════════════════════════════════
 // GPU-ACCELERATED VECTOR DISTANCE
 // ═══════════════════════════════════════════════════════════════
@@ -894,7 +992,33 @@ export { IndexedDBStorage } from './storage/indexeddb.js';
 export { MemoryStorage } from './storage/memory.js';
 export { createStorage } from './storage/index.js';
 export type { Storage } from './storage/index.js';
-export type { StorageAdapter } from './storage/types.js';
+export type { StorageAdapter, DocumentQueryResult } from './storage/types.js';
+
+// Secondary metadata indexes (for storage adapter authors)
+export {
+  extractIndexEntries,
+  encodeIndexValue,
+  indexEntryKey,
+  toIndexKeyRanges,
+  toIndexScanRanges,
+  toIndexScanEntry,
+  matchesIndexQuery,
+  compareIndexKeys,
+  isKeyInRange,
+} from './storage/metadata-index.js';
+export type {
+  IndexableValue,
+  MetadataIndexEntry,
+  MetadataIndexQuery,
+  MetadataIndexScanOptions,
+  MetadataIndexScanEntry,
+  EncodedIndexValue,
+  IndexKeyRange,
+} from './storage/metadata-index.js';
+
+// Collection records (for storage adapter authors)
+export { serializeCollection, deserializeCollection } from './storage/collection-record.js';
+export type { CollectionRecord, PQCodebookRecord } from './storage/schema.js';
 
 // Storage Compression
 export {
@@ -906,6 +1030,7 @@ export type {
   CompressedVectorBlock,
   CompressionConfig,
   CompressionStats,
+  CompressionStatsOptions,
 } from './storage/compression.js';
 
 // WAL and Migrations
@@ -930,6 +1055,33 @@ export {
   createLockManager, // Export alias
   Broadcaster,
   createBroadcaster,
+  ChangeLog,
+  changesCollectionId,
+  SyncReplica,
+  createSyncReplica,
+  syncCollectionId,
+  compareClocks,
+  createMessagePortConnection,
+  createDataChannelConnection,
+  createConnectionTransport,
+  createHttpTransport,
+  type ConflictResolution,
+  type SyncVersion,
+  type SyncDocument,
+  type SyncChange,
+  type SyncRequest,
+  type SyncResponse,
+  type SyncTransport,
+  type SyncConflict,
+  type SyncReplicaOptions,
+  type ReplicaSyncOptions,
+  type SyncResult,
+  type SyncConnection,
+  type SyncEnvelope,
+  type MessagePortLike,
+  type DataChannelLike,
+  type ConnectionTransportOptions,
+  type HttpTransportOptions,
   type LockMode,
   type LockOptions,
   type BroadcastMessageType,
@@ -1256,18 +1408,26 @@ export {
   detectFormat,
   exportToCSV,
   exportToJSONL,
+  exportToParquet,
+  exportToArrow,
+  exportToCSVStream,
+  exportToJSONLStream,
   convertFormat,
 } from './import-export/index.js';
 
 export type {
   ImportRecord,
+  ImportRecordBatches,
   ParseResult,
   ExternalFormat,
+  ExternalContent,
   ImportFromOptions,
   ImportProgress,
   ImportStats,
   ExportToCSVOptions,
   ExportToJSONLOptions,
+  ExportToParquetOptions,
+  ExportToArrowOptions,
   ConvertOptions,
   CSVParseOptions,
 } from './import-export/index.js';
@@ -1370,6 +1530,7 @@ export {
   runAgent,
   createToolRegistry,
   createAgentMemory,
+  createAgentCheckpointStore,
 } from './agents/index.js';
 
 export type {
@@ -1383,8 +1544,24 @@ export type {
   AgentRunOptions,
   RunAgentOptions,
   AgentStep,
+  AgentStepToolCall,
   AgentResult,
   AgentFinishReason,
+  // Stream event types
+  AgentStreamEvent,
+  AgentTextDeltaEvent,
+  AgentToolCallStartEvent,
+  AgentToolArgsDeltaEvent,
+  AgentToolResultEvent,
+  AgentStepFinishEvent,
+  AgentFinishEvent,
+  // Approval & checkpoint types
+  PendingToolCall,
+  BatchedToolCall,
+  AgentCheckpoint,
+  AgentResumeOptions,
+  AgentCheckpointStore,
+  AgentCheckpointStoreConfig,
   // Memory types
   AgentMemory,
   AgentMemoryConfig,
@@ -1422,6 +1599,7 @@ export {
   createMockDocumentQAModel,
   // Mock multimodal model
   createMockMultimodalEmbeddingModel,
+  createMockSparseEmbeddingModel,
   // Mock models (Audio Classification & Depth Estimation)
   createMockAudioClassificationModel,
   createMockDepthEstimationModel,
@@ -1480,6 +1658,7 @@ export type {
   MockDocumentQAModel,
   // Mock multimodal types
   MockMultimodalEmbeddingModelOptions,
+  MockSparseEmbeddingModelOptions,
   // Audio Classification & Depth Estimation mock types
   MockAudioClassificationModelOptions,
   MockAudioClassificationModel,
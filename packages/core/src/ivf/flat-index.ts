@@ -0,0 +1,106 @@
+/**
+ * Flat (exact) vector index.
+ *
+ * Keeps the vectors in memory without any graph and compares a query with
+ * every accepted vector. Search is exact and adding or deleting a vector is
+ * O(1); there is no index to save, so opening a database only loads the
+ * vectors.
+ *
+ * @packageDocumentation
+ */
+
+import type { HNSWSearchOptions, VectorIndex } from '../types.js';
+import { getDistanceFunction, distanceToScore, type DistanceFunction } from '../hnsw/distance.js';
+import { MaxHeap } from '../hnsw/index.js';
+
+/**
+ * In-memory index that scans every vector.
+ *
+ * @example
+ * ```ts
+ * const index = new FlatIndex(384, 'cosine');
+ * index.add('doc1', embedding);
+ *
+ * const results = index.search(queryVector, 10);
+ * ```
+ */
+export class FlatIndex implements VectorIndex {
+  private vectors = new Map<string, Float32Array>();
+  private distanceFn: (a: Float32Array, b: Float32Array) => number;
+
+  constructor(
+    private dimensions: number,
+    private distanceType: DistanceFunction = 'cosine'
+  ) {
+    this.distanceFn = getDistanceFunction(distanceType);
+  }
+
+  /** Number of indexed vectors */
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  /**
+   * Add or replace a vector.
+   */
+  add(id: string, vector: Float32Array): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector dimension mismatch: expected ${this.dimensions}, got ${vector.length}`);
+    }
+    this.vectors.set(id, vector);
+  }
+
+  /**
+   * Remove a vector. Returns whether it was indexed.
+   */
+  delete(id: string): boolean {
+    return this.vectors.delete(id);
+  }
+
+  /**
+   * Check whether a vector is indexed.
+   */
+  has(id: string): boolean {
+    return this.vectors.has(id);
+  }
+
+  /**
+   * Get an indexed vector.
+   */
+  getVector(id: string): Float32Array | undefined {
+    return this.vectors.get(id);
+  }
+
+  /**
+   * Find the k nearest vectors accepted by `options.filter`, best first.
+   */
+  search(query: Float32Array, k: number, options?: HNSWSearchOptions): Array<{ id: string; score: number }> {
+    if (query.length !== this.dimensions) {
+      throw new Error(`Query dimension mismatch: expected ${this.dimensions}, got ${query.length}`);
+    }
+
+    const filter = options?.filter;
+    const results = new MaxHeap();
+
+    for (const [id, vector] of this.vectors) {
+      if (filter && !(typeof filter === 'function' ? filter(id) : filter.has(id))) continue;
+
+      const distance = this.distanceFn(query, vector);
+      if (results.size < k || distance < results.peek()!.distance) {
+        results.push({ id, distance });
+        if (results.size > k) {
+          results.pop();
+        }
+      }
+    }
+
+    return results.toArray().map((c) => ({ id: c.id, score: distanceToScore(c.distance, this.distanceType) }));
+  }
+
+  /**
+   * Remove every vector.
+   */
+  clear(): void {
+    this.vectors.clear();
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Vector Index Alternatives
+ *
+ * Flat (exact) and IVF-PQ indexes for the primary vector space, selected
+ * with the `index` option of `createVectorDB()`.
+ *
+ * @packageDocumentation
+ */
+
+export { FlatIndex } from './flat-index.js';
+export { IVFIndex } from './ivf-index.js';
+
+export type { IVFStore } from './ivf-index.js';
+export type { StoredIVFState } from './stored-partitions.js';
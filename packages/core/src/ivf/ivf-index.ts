@@ -0,0 +1,411 @@
+/**
+ * IVF-PQ (inverted file with product quantization) vector index.
+ *
+ * Vectors are grouped into partitions around k-means centroids. Each
+ * partition is stored through the storage adapter, holding the PQ codes of
+ * its vectors' residuals from the centroid. A query ranks the centroids and
+ * scans only the closest `probes` partitions, loading them from storage on
+ * demand and keeping the most recently used ones in memory. Memory use and
+ * open time depend on the number of partitions, not on the number of vectors.
+ *
+ * Partitions are trained once `trainingSize` vectors have been added; until
+ * then vectors wait in a staging collection and are searched exactly.
+ *
+ * @packageDocumentation
+ */
+
+import type { HNSWSearchOptions, IVFOptions, VectorIndex } from '../types.js';
+import type { Storage } from '../storage/index.js';
+import type { StorageAdapter } from '../storage/types.js';
+import type { PQCodebook } from '../quantization/types.js';
+import {
+  getDistanceFunction,
+  distanceToScore,
+  euclideanDistance,
+  type DistanceFunction,
+} from '../hnsw/distance.js';
+import { MaxHeap } from '../hnsw/index.js';
+import { kMeansCluster } from '../quantization/kmeans.js';
+import { trainPQ, pqQuantize, pqDequantize } from '../quantization/pq.js';
+import { InvalidOptionsError } from '../errors/index.js';
+import {
+  ivfEntryId,
+  docIdOfIVFEntry,
+  ivfPartitionCollectionId,
+  ivfStagingCollectionId,
+  clearIVFEntries,
+  type StoredIVFState,
+} from './stored-partitions.js';
+
+/** An entry as held by a partition: a PQ code, or the full vector without PQ. */
+type PartitionEntry = Float32Array | Uint8Array;
+
+/**
+ * Where an IVF index keeps its partitions and trained state.
+ */
+export interface IVFStore {
+  /** Storage the partition entries are written to */
+  storage: Storage | StorageAdapter;
+
+  /** Collection the indexed vectors belong to */
+  collectionId: string;
+
+  /** Persist the trained state, e.g. with the collection record */
+  saveState(state: StoredIVFState): Promise<void>;
+}
+
+/**
+ * Largest divisor of `dimensions` giving subvectors of at least 8 dimensions.
+ */
+function defaultSubvectors(dimensions: number): number {
+  for (let m = Math.floor(dimensions / 8); m > 1; m--) {
+    if (dimensions % m === 0) return m;
+  }
+  return 1;
+}
+
+/**
+ * Disk-backed index that searches only the partitions closest to the query.
+ *
+ * @example
+ * ```ts
+ * const index = new IVFIndex(384, { partitions: 256, probes: 8 }, 'cosine', {
+ *   storage,
+ *   collectionId: 'docs',
+ *   saveState: async (state) => { ... },
+ * });
+ * await index.open(savedState);
+ *
+ * await index.add('doc1', embedding);
+ * const results = await index.search(queryVector, 10);
+ * ```
+ */
+export class IVFIndex implements VectorIndex {
+  private partitions: number;
+  private probes: number;
+  private trainingSize: number;
+  private pq: { subvectors: number; centroids: number } | null;
+  private cachedPartitions: number;
+  private maxIterations: number;
+  private distanceFn: (a: Float32Array, b: Float32Array) => number;
+  /** Distance used to pick partitions; dot product favours long centroids, so it uses L2 */
+  private centroidDistanceFn: (a: Float32Array, b: Float32Array) => number;
+
+  private centroids: Float32Array[] = [];
+  private codebook: PQCodebook | undefined;
+  /** Vectors waiting for the partitions to be trained */
+  private staged = new Map<string, Float32Array>();
+  /** Loaded partitions (document ID → entry), least recently used first */
+  private cache = new Map<number, Map<string, PartitionEntry>>();
+  /** Partition loads in flight; a write discards their results */
+  private loading = new Map<number, Promise<Map<string, PartitionEntry>>>();
+
+  constructor(
+    private dimensions: number,
+    options: IVFOptions,
+    private distanceType: DistanceFunction,
+    private store: IVFStore
+  ) {
+    this.partitions = options.partitions ?? 256;
+    this.probes = options.probes ?? 8;
+    this.trainingSize = Math.max(options.trainingSize ?? this.partitions * 16, this.partitions);
+    this.cachedPartitions = options.cachedPartitions ?? 32;
+    this.maxIterations = options.maxIterations ?? 20;
+
+    if (!Number.isInteger(this.partitions) || this.partitions < 1) {
+      throw new InvalidOptionsError('ivfOptions.partitions', options.partitions, 'a positive integer');
+    }
+    if (!Number.isInteger(this.probes) || this.probes < 1) {
+      throw new InvalidOptionsError('ivfOptions.probes', options.probes, 'a positive integer');
+    }
+
+    const pq = options.pq ?? true;
+    this.pq = pq
+      ? {
+          subvectors: (typeof pq === 'object' ? pq.subvectors : undefined) ?? defaultSubvectors(dimensions),
+          centroids: (typeof pq === 'object' ? pq.centroids : undefined) ?? 256,
+        }
+      : null;
+
+    this.distanceFn = getDistanceFunction(distanceType);
+    this.centroidDistanceFn = distanceType === 'dot' ? euclideanDistance : this.distanceFn;
+  }
+
+  /** Whether the partitions have been trained */
+  get trained(): boolean {
+    return this.centroids.length > 0;
+  }
+
+  /**
+   * Settings that decide how vectors are partitioned and encoded.
+   */
+  get fingerprint(): string {
+    return JSON.stringify({ partitions: this.partitions, pq: this.pq, distance: this.distanceType });
+  }
+
+  /**
+   * Get the trained state to persist.
+   */
+  getState(): StoredIVFState {
+    return {
+      fingerprint: this.fingerprint,
+      centroids: this.centroids,
+      ...(this.codebook ? { codebook: this.codebook } : {}),
+    };
+  }
+
+  /**
+   * Restore a persisted state and the staged vectors.
+   *
+   * @returns `false` when the state was built with other settings (or is
+   * missing): its entries are dropped and every vector must be added again.
+   */
+  async open(state: StoredIVFState | undefined): Promise<boolean> {
+    if (state && state.fingerprint === this.fingerprint) {
+      this.centroids = state.centroids;
+      this.codebook = state.codebook;
+      const staged = await this.store.storage.getAllVectors(ivfStagingCollectionId(this.store.collectionId));
+      for (const [entryId, vector] of staged) {
+        this.staged.set(docIdOfIVFEntry(entryId), vector as Float32Array);
+      }
+      return true;
+    }
+
+    await clearIVFEntries(this.store.storage, this.store.collectionId, state?.centroids.length ?? 0);
+    await this.store.saveState(this.getState());
+    return false;
+  }
+
+  /**
+   * Add or replace a vector. Trains the partitions once enough vectors are staged.
+   */
+  async add(id: string, vector: Float32Array): Promise<void> {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector dimension mismatch: expected ${this.dimensions}, got ${vector.length}`);
+    }
+
+    if (!this.trained) {
+      await this.store.storage.addVector({
+        id: ivfEntryId(id),
+        collectionId: ivfStagingCollectionId(this.store.collectionId),
+        vector,
+      });
+      this.forget(id);
+      this.staged.set(id, vector);
+      if (this.staged.size >= this.trainingSize) {
+        await this.train();
+      }
+      return;
+    }
+
+    const partition = this.nearestPartition(vector);
+    const entry = this.encode(vector, partition);
+    await this.store.storage.addVector({
+      id: ivfEntryId(id),
+      collectionId: ivfPartitionCollectionId(this.store.collectionId, partition),
+      vector: entry,
+    });
+    this.forget(id);
+    this.cache.get(partition)?.set(id, entry);
+  }
+
+  /**
+   * Remove a vector. Resolves to whether it was held in memory.
+   */
+  async delete(id: string): Promise<boolean> {
+    await this.store.storage.deleteVector(ivfEntryId(id));
+    return this.forget(id);
+  }
+
+  /**
+   * Get a staged vector. Partitioned vectors are only held as codes in storage.
+   */
+  getVector(id: string): Float32Array | undefined {
+    return this.staged.get(id);
+  }
+
+  /**
+   * Find the k nearest vectors accepted by `options.filter`, best first.
+   *
+   * Scans the staged vectors and the `probes` partitions with the closest
+   * centroids, then further partitions while fewer than `k` matches were found.
+   */
+  async search(
+    query: Float32Array,
+    k: number,
+    options?: HNSWSearchOptions
+  ): Promise<Array<{ id: string; score: number }>> {
+    if (query.length !== this.dimensions) {
+      throw new Error(`Query dimension mismatch: expected ${this.dimensions}, got ${query.length}`);
+    }
+
+    const filter = options?.filter;
+    const accept = (id: string): boolean =>
+      !filter || (typeof filter === 'function' ? filter(id) : filter.has(id));
+    const results = new MaxHeap();
+    const consider = (id: string, vector: Float32Array): void => {
+      const distance = this.distanceFn(query, vector);
+      if (results.size < k || distance < results.peek()!.distance) {
+        results.push({ id, distance });
+        if (results.size > k) {
+          results.pop();
+        }
+      }
+    };
+
+    for (const [id, vector] of this.staged) {
+      if (accept(id)) consider(id, vector);
+    }
+
+    const order = this.centroids
+      .map((centroid, partition) => ({ partition, distance: this.centroidDistanceFn(query, centroid) }))
+      .sort((a, b) => a.distance - b.distance);
+
+    for (let i = 0; i < order.length; i++) {
+      if (i >= this.probes && results.size >= k) break;
+
+      const { partition } = order[i];
+      for (const [id, entry] of await this.loadPartition(partition)) {
+        if (accept(id)) consider(id, this.decode(entry, partition));
+      }
+    }
+
+    return results.toArray().map((c) => ({ id: c.id, score: distanceToScore(c.distance, this.distanceType) }));
+  }
+
+  /**
+   * Remove every vector and forget the trained partitions.
+   */
+  async clear(): Promise<void> {
+    await clearIVFEntries(this.store.storage, this.store.collectionId, this.centroids.length);
+    this.centroids = [];
+    this.codebook = undefined;
+    this.staged.clear();
+    this.cache.clear();
+    this.loading.clear();
+    await this.store.saveState(this.getState());
+  }
+
+  /**
+   * Train the centroids (and PQ codebook) on the staged vectors and move
+   * them into their partitions.
+   */
+  private async train(): Promise<void> {
+    const ids = [...this.staged.keys()];
+    const data = [...this.staged.values()];
+
+    const { centroids, assignments } = kMeansCluster(data, this.partitions, {
+      maxIterations: this.maxIterations,
+    });
+    this.centroids = centroids;
+
+    if (this.pq) {
+      const residuals = data.map((vector, i) => this.residual(vector, assignments[i]));
+      this.codebook = trainPQ(residuals, {
+        subvectors: this.pq.subvectors,
+        centroids: this.pq.centroids,
+        maxIterations: this.maxIterations,
+        calibrationSamples: 0,
+      });
+    }
+
+    for (let i = 0; i < ids.length; i++) {
+      await this.store.storage.addVector({
+        id: ivfEntryId(ids[i]),
+        collectionId: ivfPartitionCollectionId(this.store.collectionId, assignments[i]),
+        vector: this.encode(data[i], assignments[i]),
+      });
+    }
+    await this.store.storage.clearCollection(ivfStagingCollectionId(this.store.collectionId));
+
+    this.staged.clear();
+    this.cache.clear();
+    this.loading.clear();
+    await this.store.saveState(this.getState());
+  }
+
+  /**
+   * Load a partition's entries, from the cache when possible.
+   */
+  private loadPartition(partition: number): Promise<Map<string, PartitionEntry>> | Map<string, PartitionEntry> {
+    const cached = this.cache.get(partition);
+    if (cached) {
+      // Mark as most recently used
+      this.cache.delete(partition);
+      this.cache.set(partition, cached);
+      return cached;
+    }
+
+    const inFlight = this.loading.get(partition);
+    if (inFlight) return inFlight;
+
+    const load = this.store.storage
+      .getAllVectors(ivfPartitionCollectionId(this.store.collectionId, partition))
+      .then((stored) => {
+        const entries = new Map<string, PartitionEntry>();
+        for (const [entryId, entry] of stored) {
+          entries.set(docIdOfIVFEntry(entryId), entry);
+        }
+        if (this.loading.get(partition) === load) {
+          this.loading.delete(partition);
+          this.cache.set(partition, entries);
+          while (this.cache.size > this.cachedPartitions) {
+            this.cache.delete(this.cache.keys().next().value!);
+          }
+        }
+        return entries;
+      });
+    this.loading.set(partition, load);
+    return load;
+  }
+
+  /**
+   * Drop a vector from memory after its stored entry changed. Returns whether it was held.
+   */
+  private forget(id: string): boolean {
+    let held = this.staged.delete(id);
+    for (const entries of this.cache.values()) {
+      if (entries.delete(id)) held = true;
+    }
+    // Loads in flight may have read the old entry
+    this.loading.clear();
+    return held;
+  }
+
+  private nearestPartition(vector: Float32Array): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let p = 0; p < this.centroids.length; p++) {
+      const distance = this.centroidDistanceFn(vector, this.centroids[p]);
+      if (distance < bestDistance) {
+        best = p;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+
+  private residual(vector: Float32Array, partition: number): Float32Array {
+    const centroid = this.centroids[partition];
+    const residual = new Float32Array(this.dimensions);
+    for (let d = 0; d < this.dimensions; d++) {
+      residual[d] = vector[d] - centroid[d];
+    }
+    return residual;
+  }
+
+  private encode(vector: Float32Array, partition: number): PartitionEntry {
+    return this.codebook ? pqQuantize(this.residual(vector, partition), this.codebook) : vector;
+  }
+
+  private decode(entry: PartitionEntry, partition: number): Float32Array {
+    if (!this.codebook) return entry as Float32Array;
+
+    const vector = pqDequantize(entry as Uint8Array, this.codebook);
+    const centroid = this.centroids[partition];
+    for (let d = 0; d < this.dimensions; d++) {
+      vector[d] += centroid[d];
+    }
+    return vector;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Helpers for storing IVF partitions.
+ *
+ * Each partition is a companion collection ID holding one ordinary vector
+ * record per document, with an ID derived from the document ID. A record
+ * holds the document's PQ code (or its full vector when PQ is disabled), so
+ * a partition is read with a single `getAllVectors()` call and every storage
+ * adapter can keep it without changes. Vectors added before the partitions
+ * are trained wait in a separate staging collection.
+ */
+
+import type { PQCodebook } from '../quantization/types.js';
+import type { StorageAdapter } from '../storage/types.js';
+
+/** Separates the document ID from the suffix in stored IVF entry IDs. */
+const SEPARATOR = '\u001f';
+
+/**
+ * Trained state of an IVF index, stored with the collection.
+ */
+export interface StoredIVFState {
+  /** Settings the partitions were built with; entries are rebuilt when they change */
+  fingerprint: string;
+
+  /** Coarse centroids, one per partition (empty until trained) */
+  centroids: Float32Array[];
+
+  /** Codebook of the vectors' residuals from their centroid (when PQ is enabled) */
+  codebook?: PQCodebook;
+}
+
+/**
+ * Build the stored vector ID of a document's IVF entry.
+ */
+export function ivfEntryId(docId: string): string {
+  return `${docId}${SEPARATOR}ivf`;
+}
+
+/**
+ * Recover the document ID from a stored IVF entry ID.
+ */
+export function docIdOfIVFEntry(id: string): string {
+  const at = id.lastIndexOf(`${SEPARATOR}ivf`);
+  return at === -1 ? id : id.slice(0, at);
+}
+
+/**
+ * Collection ID under which the entries of one partition are stored.
+ */
+export function ivfPartitionCollectionId(collectionId: string, partition: number): string {
+  return `${collectionId}${SEPARATOR}ivf:${partition}`;
+}
+
+/**
+ * Collection ID under which vectors wait until the partitions are trained.
+ */
+export function ivfStagingCollectionId(collectionId: string): string {
+  return `${collectionId}${SEPARATOR}ivf:staging`;
+}
+
+/**
+ * Delete the stored entries of the staging collection and `partitions` partitions.
+ */
+export async function clearIVFEntries(
+  storage: Pick<StorageAdapter, 'clearCollection'>,
+  collectionId: string,
+  partitions: number
+): Promise<void> {
+  await storage.clearCollection(ivfStagingCollectionId(collectionId));
+  for (let p = 0; p < partitions; p++) {
+    await storage.clearCollection(ivfPartitionCollectionId(collectionId, p));
+  }
+}
@@ -8,13 +8,33 @@
 
 import type {
   VectorDB,
+  VectorDBTransaction,
+  TransactionOptions,
+  VectorDBSnapshotView,
+  SnapshotInfo,
+  DocumentChange,
+  ChangesOptions,
+  ChangesResult,
+  WatchOptions,
   Document,
+  DocumentInput,
   SearchOptions,
   SearchResult,
+  FusedSearchOptions,
+  FusedSearchResult,
+  SparseVector,
+  SparseSearchOptions,
+  KeywordSearchOptions,
+  MultiVectorSearchOptions,
+  MultiVectorSearchResult,
   TypedFilterQuery,
   AddManyOptions,
   ExportOptions,
+  ExportStreamOptions,
   ImportOptions,
+  CountOptions,
+  FindOptions,
+  FindResult,
   DBStats,
 } from '../types.js';
 import type { VectorDBMiddleware } from './types.js';
@@ -193,11 +213,11 @@ export function wrapVectorDB<TMetadata extends Record<string, unknown> = Record<
   // Create wrapped DB object
   const wrapped: VectorDB<TMetadata> = {
     // Wrap add with middleware
-    async add(document: Document<TMetadata>): Promise<void> {
+    async add(document: DocumentInput<TMetadata>): Promise<void> {
       try {
         let doc = document;
         if (middleware.beforeAdd) {
-          doc = await middleware.beforeAdd(doc as Document) as Document<TMetadata>;
+          doc = await middleware.beforeAdd(doc as Document) as typeof document;
         }
         await db.add(doc);
         if (middleware.afterAdd) {
@@ -209,13 +229,13 @@ export function wrapVectorDB<TMetadata extends Record<string, unknown> = Record<
     },
 
     // Wrap addMany with middleware
-    async addMany(documents: Document<TMetadata>[], addOptions?: AddManyOptions): Promise<void> {
+    async addMany(documents: DocumentInput<TMetadata>[], addOptions?: AddManyOptions): Promise<void> {
       try {
         let docs = documents;
         if (middleware.beforeAdd) {
           docs = [];
           for (const d of documents) {
-            docs.push(await middleware.beforeAdd(d as Document) as Document<TMetadata>);
+            docs.push(await middleware.beforeAdd(d as Document) as typeof d);
           }
         }
         await db.addMany(docs, addOptions);
@@ -296,6 +316,106 @@ export function wrapVectorDB<TMetadata extends Record<string, unknown> = Record<
       return db.deleteWhere(filter);
     },
 
+    // Wrap transaction so its writes and reads pass through the middleware
+    async transaction<T>(
+      callback: (tx: VectorDBTransaction<TMetadata>) => Promise<T>,
+      transactionOptions?: TransactionOptions
+    ): Promise<T> {
+      try {
+        // After-hooks run once the transaction has committed
+        const committed: Array<() => Promise<void> | void> = [];
+        const result = await db.transaction((tx) =>
+          callback({
+            async add(document) {
+              let doc = document;
+              if (middleware.beforeAdd) {
+                doc = await middleware.beforeAdd(doc as Document) as typeof document;
+              }
+              await tx.add(doc);
+              if (middleware.afterAdd) {
+                committed.push(() => middleware.afterAdd!(doc as Document));
+              }
+            },
+            update: (id, updates) => tx.update(id, updates),
+            async delete(id) {
+              if (middleware.beforeDelete && !(await middleware.beforeDelete(id))) return;
+              await tx.delete(id);
+              if (middleware.afterDelete) {
+                committed.push(() => middleware.afterDelete!(id));
+              }
+            },
+            async get(id) {
+              const result = await tx.get(id);
+              if (middleware.afterGet && result) {
+                const processed = await middleware.afterGet(result as Document);
+                return (processed as (Document<TMetadata> & { metadata?: TMetadata })) ?? null;
+              }
+              return result;
+            },
+          }),
+          transactionOptions
+        );
+        for (const hook of committed) {
+          await hook();
+        }
+        return result;
+      } catch (error) {
+        return handleError(error as Error, 'transaction');
+      }
+    },
+
+    // Wrap snapshots (pass-through)
+    async snapshot(label: string): Promise<SnapshotInfo> {
+      return db.snapshot(label);
+    },
+
+    async listSnapshots(): Promise<SnapshotInfo[]> {
+      return db.listSnapshots();
+    },
+
+    async restoreSnapshot(label: string): Promise<void> {
+      return db.restoreSnapshot(label);
+    },
+
+    async deleteSnapshot(label: string): Promise<void> {
+      return db.deleteSnapshot(label);
+    },
+
+    at(snapshot: string | SnapshotInfo): VectorDBSnapshotView<TMetadata> {
+      return db.at(snapshot);
+    },
+
+    async changes(changesOptions?: ChangesOptions): Promise<ChangesResult> {
+      return db.changes(changesOptions);
+    },
+
+    watch(watchOptions?: WatchOptions): AsyncIterableIterator<DocumentChange> {
+      return db.watch(watchOptions);
+    },
+
+    // Wrap count (pass-through)
+    async count(countOptions?: CountOptions<TMetadata>): Promise<number> {
+      return db.count(countOptions);
+    },
+
+    // Wrap find so afterGet can transform returned documents (e.g. decryption)
+    async find(findOptions?: FindOptions<TMetadata>): Promise<FindResult<TMetadata>> {
+      try {
+        const result = await db.find(findOptions);
+        if (!middleware.afterGet) {
+          return result;
+        }
+        const documents: FindResult<TMetadata>['documents'] = [];
+        for (const doc of result.documents) {
+          const processed = await middleware.afterGet(doc as Document);
+          documents.push({ ...doc, metadata: processed?.metadata as TMetadata | undefined });
+        }
+        return { ...result, documents };
+      } catch (error) {
+        return handleError(error as Error, 'find');
+      }
+    },
+
     // Wrap search with middleware
     async search(query: Float32Array, searchOptions?: SearchOptions<TMetadata>): Promise<SearchResult<TMetadata>[]> {
       try {
@@ -320,6 +440,78 @@ export function wrapVectorDB<TMetadata extends Record<string, unknown> = Record<
       }
     },
 
+    // Wrap fused search so afterSearch sees the fused results
+    async searchFused(
+      queries: Record<string, Float32Array>,
+      searchOptions?: FusedSearchOptions<TMetadata>
+    ): Promise<FusedSearchResult<TMetadata>[]> {
+      try {
+        let results = await db.searchFused(queries, searchOptions);
+
+        if (middleware.afterSearch) {
+          results = await middleware.afterSearch(results as SearchResult[]) as FusedSearchResult<TMetadata>[];
+        }
+
+        return results;
+      } catch (error) {
+        return handleError(error as Error, 'searchFused');
+      }
+    },
+
+    // Wrap sparse search so afterSearch sees the sparse results
+    async searchSparse(
+      query: SparseVector,
+      searchOptions?: SparseSearchOptions<TMetadata>
+    ): Promise<SearchResult<TMetadata>[]> {
+      try {
+        let results = await db.searchSparse(query, searchOptions);
+
+        if (middleware.afterSearch) {
+          results = await middleware.afterSearch(results as SearchResult[]) as SearchResult<TMetadata>[];
+        }
+
+        return results;
+      } catch (error) {
+        return handleError(error as Error, 'searchSparse');
+      }
+    },
+
+    // Wrap keyword search so afterSearch sees the BM25 results
+    async searchKeyword(
+      query: string,
+      searchOptions?: KeywordSearchOptions<TMetadata>
+    ): Promise<SearchResult<TMetadata>[]> {
+      try {
+        let results = await db.searchKeyword(query, searchOptions);
+
+        if (middleware.afterSearch) {
+          results = await middleware.afterSearch(results as SearchResult[]) as SearchResult<TMetadata>[];
+        }
+
+        return results;
+      } catch (error) {
+        return handleError(error as Error, 'searchKeyword');
+      }
+    },
+
+    // Wrap multi-vector search so afterSearch sees grouped results
+    async searchMultiVector(
+      query: Float32Array | Float32Array[],
+      searchOptions?: MultiVectorSearchOptions<TMetadata>
+    ): Promise<MultiVectorSearchResult<TMetadata>[]> {
+      try {
+        let results = await db.searchMultiVector(query, searchOptions);
+
+        if (middleware.afterSearch) {
+          results = await middleware.afterSearch(results as SearchResult[]) as MultiVectorSearchResult<TMetadata>[];
+        }
+
+        return results;
+      } catch (error) {
+        return handleError(error as Error, 'searchMultiVector');
+      }
+    },
+
     // Wrap collection (pass-through)
     collection(name: string): VectorDB<TMetadata> {
       return db.collection(name);
@@ -361,6 +553,16 @@ export function wrapVectorDB<TMetadata extends Record<string, unknown> = Record<
       return db.import(data, importOptions);
     },
 
+    // Wrap exportStream (pass-through)
+    exportStream(exportOptions?: ExportStreamOptions): ReadableStream<Uint8Array> {
+      return db.exportStream(exportOptions);
+    },
+
+    // Wrap importStream (pass-through)
+    async importStream(stream: ReadableStream<Uint8Array>, importOptions?: ImportOptions): Promise<void> {
+      return db.importStream(stream, importOptions);
+    },
+
     // Pass-through for recalibrate
     async recalibrate(recalibrateOptions?: Parameters<VectorDB['recalibrate']>[0]): Promise<void> {
       return db.recalibrate(recalibrateOptions);
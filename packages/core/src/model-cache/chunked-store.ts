@@ -10,7 +10,7 @@
  * @packageDocumentation
  */
 
-import type { ModelMetadataRecord } from './types.js';
+import type { ModelCacheStore, ModelMetadataRecord } from './types.js';
 
 // ============================================================================
 // Constants
@@ -46,7 +46,7 @@ function chunkKey(modelId: string, chunkIndex: number): string {
  * - One {@link ModelMetadataRecord} in the `metadata` store (keyed by `modelId`)
  * - N ArrayBuffer entries in the `chunks` store (keyed by `"modelId::chunkIndex"`)
  */
-export class ChunkedModelStore {
+export class ChunkedModelStore implements ModelCacheStore {
   private dbName: string;
   private db: IDBDatabase | null = null;
 
@@ -10,8 +10,7 @@
 import { globalEventBus } from '../events/index.js';
 import { isOnline, waitForOnline } from '../utils/network.js';
 import { NetworkError, OfflineError } from '../errors/index.js';
-import { ChunkedModelStore } from './chunked-store.js';
-import type { ModelDownloadProgress, ModelLoaderConfig } from './types.js';
+import type { ModelCacheStore, ModelDownloadProgress, ModelLoaderConfig } from './types.js';
 
 // ============================================================================
 // Types
@@ -40,17 +39,17 @@ interface ActiveDownload {
  * Manages downloading model files with chunking, resume, and retry.
  */
 export class DownloadManager {
-  private store: ChunkedModelStore;
+  private store: ModelCacheStore;
   private chunkSize: number;
   private maxRetries: number;
   private retryDelayMs: number;
   private activeDownloads: Map<string, ActiveDownload> = new Map();
 
   /**
-   * @param store - Chunked store for persisting downloaded data
+   * @param store - Store for persisting downloaded data
    * @param config - Loader configuration
    */
-  constructor(store: ChunkedModelStore, config: Required<Pick<ModelLoaderConfig, 'chunkSize' | 'maxRetries' | 'retryDelayMs'>>) {
+  constructor(store: ModelCacheStore, config: Required<Pick<ModelLoaderConfig, 'chunkSize' | 'maxRetries' | 'retryDelayMs'>>) {
     this.store = store;
     this.chunkSize = config.chunkSize;
     this.maxRetries = config.maxRetries;
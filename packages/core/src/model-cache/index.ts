@@ -57,6 +57,7 @@ export type {
   PrefetchOptions,
   CacheEntry,
   ModelMetadataRecord,
+  ModelCacheStore,
 } from './types.js';
 
 // ============================================================================
@@ -114,8 +115,8 @@ function parseSize(size: string | number): number {
  * Create a new {@link ModelLoader} instance.
  *
  * The loader downloads ML model files, splits them into chunks, and stores
- * them in IndexedDB. An LRU eviction strategy keeps total cache size within
- * the configured limit.
+ * them in IndexedDB (or the configured `store`). An LRU eviction strategy
+ * keeps total cache size within the configured limit.
  *
  * @param config - Optional configuration overrides
  * @returns A fully initialised ModelLoader
@@ -143,7 +144,7 @@ export function createModelLoader(config: ModelLoaderConfig = {}): ModelLoader {
   const onProgress = config.onProgress;
 
   // Create internals
-  const store = new ChunkedModelStore(cacheName);
+  const store = config.store ?? new ChunkedModelStore(cacheName);
   const downloadManager = new DownloadManager(store, { chunkSize, maxRetries, retryDelayMs });
   const lruTracker = new LRUTracker();
   const lockManager = new LockManager(cacheName);
@@ -152,7 +153,7 @@ export function createModelLoader(config: ModelLoaderConfig = {}): ModelLoader {
   let storeReady: Promise<boolean> | null = null;
 
   /**
-   * Ensure the IndexedDB store is open. Lazy — only opens on first call.
+   * Ensure the store is open. Lazy — only opens on first call.
    */
   const ensureOpen = (): Promise<boolean> => {
     if (!storeReady) {
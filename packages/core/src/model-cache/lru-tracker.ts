@@ -2,14 +2,13 @@
  * LRU Tracker
  *
  * Stateless LRU eviction logic for the model cache. Reads metadata from the
- * {@link ChunkedModelStore} to decide which models to evict when the cache
+ * model cache store to decide which models to evict when the cache
  * exceeds its size budget.
  *
  * @packageDocumentation
  */
 
-import type { ModelMetadataRecord } from './types.js';
-import { ChunkedModelStore } from './chunked-store.js';
+import type { ModelCacheStore, ModelMetadataRecord } from './types.js';
 
 // ============================================================================
 // Types
@@ -126,12 +125,12 @@ export class LRUTracker {
    * Perform eviction by deleting the given candidates from the store.
    *
    * @param candidates - Models to delete, as returned by {@link getEvictionCandidates}
-   * @param store - The chunked store to delete from
+   * @param store - The store to delete from
    * @returns Total number of bytes freed
    */
   async performEviction(
     candidates: EvictionCandidate[],
-    store: ChunkedModelStore,
+    store: ModelCacheStore,
   ): Promise<number> {
     let bytesFreed = 0;
 
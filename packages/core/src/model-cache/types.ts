@@ -38,6 +38,12 @@ export interface ModelLoaderConfig {
 
   /** Progress callback invoked during model downloads. */
   onProgress?: (modelId: string, progress: ModelDownloadProgress) => void;
+
+  /**
+   * Backend that stores the cached models, such as `OPFSModelStore` from
+   * `@localmode/opfs`. Default: chunks in the `cacheName` IndexedDB database.
+   */
+  store?: ModelCacheStore;
 }
 
 // ============================================================================
@@ -203,6 +209,79 @@ export interface ModelLoader {
   destroy(): Promise<void>;
 }
 
+// ============================================================================
+// Storage Backend
+// ============================================================================
+
+/**
+ * Storage backend of the model cache.
+ *
+ * Stores the metadata record and the downloaded chunks of each model. Chunks
+ * are written in index order, so a backend can append them to one file.
+ * Backends that cannot be used in the current environment return `false` from
+ * `open()`, and the loader then runs without caching.
+ */
+export interface ModelCacheStore {
+  /**
+   * Open the backend.
+   *
+   * @returns `true` if the backend can be used, `false` otherwise
+   */
+  open(): Promise<boolean>;
+
+  /** Close the backend. */
+  close(): void;
+
+  /**
+   * Write one chunk of a model.
+   *
+   * @param modelId - Model identifier
+   * @param chunkIndex - Zero-based chunk index
+   * @param data - Raw chunk data
+   */
+  writeChunk(modelId: string, chunkIndex: number, data: ArrayBuffer): Promise<void>;
+
+  /**
+   * Get the number of chunks stored for a model, counted from the first.
+   *
+   * @param modelId - Model identifier
+   */
+  getChunkCount(modelId: string): Promise<number>;
+
+  /**
+   * Get the whole model file, updating its `lastAccessed` time.
+   *
+   * @param modelId - Model identifier
+   * @returns The model file, or `null` if it is not fully cached
+   */
+  getBlob(modelId: string): Promise<Blob | null>;
+
+  /**
+   * Write or replace the metadata record of a model.
+   *
+   * @param record - Metadata to persist
+   */
+  writeMetadata(record: ModelMetadataRecord): Promise<void>;
+
+  /**
+   * Read the metadata record of a model.
+   *
+   * @param modelId - Model identifier
+   * @returns Metadata record, or `null` if not found
+   */
+  readMetadata(modelId: string): Promise<ModelMetadataRecord | null>;
+
+  /** Get the metadata records of all cached models. */
+  getAllMetadata(): Promise<ModelMetadataRecord[]>;
+
+  /**
+   * Delete a model's metadata and chunks.
+   *
+   * @param modelId - Model identifier
+   */
+  deleteModel(modelId: string): Promise<void>;
+}
+
 // ============================================================================
 // Internal Metadata
 // ============================================================================
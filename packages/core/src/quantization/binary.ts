@@ -0,0 +1,77 @@
+/**
+ * @file binary.ts
+ * @description Binary quantization for vector compression.
+ *
+ * Keeps only the sign of each Float32 dimension, packed eight dimensions per
+ * byte. Achieves 32x storage reduction; vectors are compared by Hamming
+ * distance (the number of differing bits), which is counted with a popcount
+ * table instead of floating-point math.
+ *
+ * All math is pure TypeScript — no WASM, no external dependencies.
+ */
+
+/**
+ * Number of bytes needed to store a binary code of the given dimensions.
+ *
+ * @param dimensions - Number of Float32 dimensions.
+ * @returns `ceil(dimensions / 8)`.
+ */
+export function binaryCodeLength(dimensions: number): number {
+  return Math.ceil(dimensions / 8);
+}
+
+/**
+ * Quantize a Float32Array vector to packed sign bits.
+ *
+ * Dimension `d` is stored in bit `d % 8` of byte `floor(d / 8)`: the bit is
+ * set when the value is positive. Unused bits of the last byte stay zero, so
+ * they never contribute to a Hamming distance.
+ *
+ * @param vector - The Float32Array vector to quantize.
+ * @returns Uint8Array of `ceil(vector.length / 8)` bytes.
+ *
+ * @example
+ * ```typescript
+ * const code = binaryQuantize(new Float32Array([0.3, -0.1, 0.0, 0.8]));
+ * // code = Uint8Array([0b1001])
+ * ```
+ */
+export function binaryQuantize(vector: Float32Array): Uint8Array {
+  const code = new Uint8Array(binaryCodeLength(vector.length));
+
+  for (let d = 0; d < vector.length; d++) {
+    if (vector[d] > 0) {
+      code[d >> 3] |= 1 << (d & 7);
+    }
+  }
+
+  return code;
+}
+
+/**
+ * Expand packed sign bits back to a Float32Array.
+ *
+ * Each dimension becomes `+1/sqrt(dimensions)` or `-1/sqrt(dimensions)`, so
+ * the result is a unit vector pointing in the direction the bits encode.
+ * Quantizing the result again gives back the same bits.
+ *
+ * @param code - Packed sign bits from {@link binaryQuantize}.
+ * @param dimensions - Number of dimensions encoded in the code.
+ * @returns Float32Array of length `dimensions`.
+ *
+ * @example
+ * ```typescript
+ * const restored = binaryDequantize(Uint8Array.from([0b1001]), 4);
+ * // restored = Float32Array([0.5, -0.5, -0.5, 0.5])
+ * ```
+ */
+export function binaryDequantize(code: Uint8Array, dimensions: number): Float32Array {
+  const result = new Float32Array(dimensions);
+  const magnitude = 1 / Math.sqrt(dimensions);
+
+  for (let d = 0; d < dimensions; d++) {
+    result[d] = code[d >> 3] & (1 << (d & 7)) ? magnitude : -magnitude;
+  }
+
+  return result;
+}
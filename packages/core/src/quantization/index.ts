@@ -2,12 +2,14 @@
  * @file index.ts
  * @description Vector quantization module.
  *
- * Provides two quantization strategies for reducing vector storage:
+ * Provides three quantization strategies for reducing vector storage:
  * - **Scalar (SQ8)**: 4x compression, >95% recall. Phase 1 storage-only.
  * - **Product (PQ)**: 8-32x compression, 85-92% recall. Phase 1 storage-only.
+ * - **Binary**: 32x compression, with optional Float32 rescoring.
  *
- * Both strategies quantize vectors in storage while the HNSW index keeps
- * Float32Array in memory for maximum search accuracy.
+ * Scalar and PQ quantize vectors in storage while the HNSW index keeps
+ * Float32Array in memory for maximum search accuracy. Binary quantization
+ * also shrinks the index, which searches the sign bits by Hamming distance.
  */
 
 // Types
@@ -16,6 +18,7 @@ export type {
   QuantizationConfig,
   ScalarQuantizationConfig,
   PQQuantizationConfig,
+  BinaryQuantizationConfig,
   PQCodebook,
 } from './types.js';
 
@@ -29,3 +32,6 @@ export type { KMeansOptions, KMeansResult } from './kmeans.js';
 // Product quantization (PQ)
 export { trainPQ, pqQuantize, pqDequantize } from './pq.js';
 export type { PQTrainOptions } from './pq.js';
+
+// Binary quantization
+export { binaryQuantize, binaryDequantize, binaryCodeLength } from './binary.js';
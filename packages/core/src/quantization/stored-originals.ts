@@ -0,0 +1,33 @@
+/**
+ * Helpers for storing the full-precision vectors used to rescore binary
+ * quantized search results.
+ *
+ * Each document's Float32 vector is stored as an ordinary vector record under
+ * a companion collection ID, with an ID derived from the document ID, so the
+ * binary codes stay the only vectors the index loads on open.
+ */
+
+/** Separates the document ID from the suffix in stored original vector IDs. */
+const SEPARATOR = '\u001f';
+
+/**
+ * Build the stored vector ID of a document's full-precision vector.
+ */
+export function originalVectorId(docId: string): string {
+  return `${docId}${SEPARATOR}float32`;
+}
+
+/**
+ * Recover the document ID from a stored original vector ID.
+ */
+export function docIdOfOriginalVector(id: string): string {
+  const at = id.lastIndexOf(`${SEPARATOR}float32`);
+  return at === -1 ? id : id.slice(0, at);
+}
+
+/**
+ * Collection ID under which a collection's full-precision vectors are stored.
+ */
+export function originalVectorCollectionId(collectionId: string): string {
+  return `${collectionId}${SEPARATOR}float32`;
+}
@@ -2,10 +2,12 @@
  * @file types.ts
  * @description Type definitions for vector quantization.
  *
- * Supports two quantization strategies:
+ * Supports three quantization strategies:
  * - **Scalar (SQ8)**: Maps Float32 to Uint8 per dimension. 4x compression, >95% recall@10.
  * - **Product (PQ)**: Divides vector into subvectors, encodes each as a centroid index.
  *   8-32x compression, 85-92% recall@10.
+ * - **Binary**: Keeps one sign bit per dimension, searched by Hamming distance.
+ *   32x compression; recall depends on the model, and improves with rescoring.
  */
 
 // ─── Scalar Quantization Types ──────────────────────────────────────
@@ -139,12 +141,52 @@ export interface PQQuantizationConfig {
   maxIterations?: number;
 }
 
+/**
+ * Configuration for binary quantization.
+ *
+ * Stores one sign bit per dimension and searches with Hamming distance, in
+ * storage and in the in-memory index. Achieves 32x compression and needs no
+ * calibration. Works best with high-dimensional embeddings centered on zero.
+ *
+ * With `rescore`, the Float32 vectors are also kept and the best Hamming
+ * matches of each search are re-ranked with them using the index's distance
+ * function, recovering most of the recall. The index stays 32x smaller, but
+ * storage holds both forms.
+ *
+ * @example
+ * ```typescript
+ * const db = await createVectorDB({
+ *   name: 'large-db',
+ *   dimensions: 1024,
+ *   quantization: { type: 'binary', rescore: true },
+ * });
+ * ```
+ */
+export interface BinaryQuantizationConfig {
+  /** Quantization type: binary (1 bit per dimension). */
+  type: 'binary';
+
+  /**
+   * Re-rank the best Hamming matches with the full-precision vectors.
+   * Default: false.
+   */
+  rescore?: boolean;
+
+  /**
+   * Number of Hamming candidates rescored per requested result
+   * (`k * oversample` candidates). Only used with `rescore`.
+   * Default: 4.
+   */
+  oversample?: number;
+}
+
 /**
  * Configuration for vector quantization.
  *
  * A discriminated union on the `type` field:
  * - `'scalar'` — SQ8, 4x compression, >95% recall
  * - `'pq'` — Product quantization, 8-32x compression, 85-92% recall
+ * - `'binary'` — Sign bits with Hamming search, 32x compression
  *
  * @example
  * ```typescript
@@ -161,4 +203,7 @@ export interface PQQuantizationConfig {
  * });
  * ```
  */
-export type QuantizationConfig = ScalarQuantizationConfig | PQQuantizationConfig;
+export type QuantizationConfig =
+  | ScalarQuantizationConfig
+  | PQQuantizationConfig
+  | BinaryQuantizationConfig;
@@ -1,13 +1,54 @@
 /**
  * Metadata filtering logic.
+ *
+ * Filters are MongoDB-style queries evaluated against document metadata:
+ *
+ * - Field conditions: `{ category: 'notes' }`, `{ year: { $gte: 2020, $lt: 2024 } }`
+ * - Dotted paths into nested metadata: `{ 'author.name': 'Ada' }`
+ * - Logical combinators: `$and`, `$or`, `$not`
+ *
+ * All conditions at the same level are combined with AND, and every operator
+ * on a field must hold for the field to match.
  */
 
 import type { TypedFilterQuery } from '../types.js';
+import { FilterError } from '../errors/index.js';
+
+/** Logical operators allowed at the top level of a filter. */
+const LOGICAL_OPERATORS = new Set(['$and', '$or', '$not']);
+
+/** Operators allowed inside a field condition. */
+const FIELD_OPERATORS = new Set([
+  '$eq',
+  '$ne',
+  '$in',
+  '$nin',
+  '$gt',
+  '$gte',
+  '$lt',
+  '$lte',
+  '$exists',
+  '$contains',
+  '$all',
+  '$size',
+  '$startsWith',
+  '$regex',
+  '$not',
+]);
 
 /**
  * Check if a document's metadata matches a filter query.
  *
  * @typeParam TMetadata - Shape of the metadata object.
+ * @throws {FilterError} If the filter uses an unknown operator or an invalid operand.
+ *
+ * @example
+ * ```ts
+ * matchesFilter(doc.metadata, {
+ *   $or: [{ category: 'tech' }, { 'author.name': { $startsWith: 'A' } }],
+ *   year: { $gte: 2020, $lt: 2024 },
+ * });
+ * ```
  */
 export function matchesFilter<TMetadata extends Record<string, unknown> = Record<string, unknown>>(
   metadata: Record<string, unknown> | undefined,
@@ -21,10 +62,24 @@ export function matchesFilter<TMetadata extends Record<string, unknown> = Record
     return false;
   }
 
-  for (const [key, condition] of Object.entries(filter)) {
-    const value = metadata[key];
+  return matchesQuery(metadata, filter as Record<string, unknown>);
+}
+
+/**
+ * Evaluate a (possibly nested) filter object against metadata.
+ */
+function matchesQuery(metadata: Record<string, unknown>, query: Record<string, unknown>): boolean {
+  for (const [key, condition] of Object.entries(query)) {
+    if (condition === undefined) continue;
+
+    if (key.startsWith('$')) {
+      if (!matchesLogical(metadata, key, condition)) {
+        return false;
+      }
+      continue;
+    }
 
-    if (!matchesCondition(value, condition)) {
+    if (!matchesCondition(getValueAtPath(metadata, key), condition)) {
       return false;
     }
   }
@@ -33,7 +88,38 @@ export function matchesFilter<TMetadata extends Record<string, unknown> = Record
 }
 
 /**
- * Check if a value matches a single condition.
+ * Evaluate a top-level logical operator (`$and`, `$or`, `$not`).
+ */
+function matchesLogical(metadata: Record<string, unknown>, operator: string, operand: unknown): boolean {
+  if (!LOGICAL_OPERATORS.has(operator)) {
+    throw new FilterError(`Unknown filter operator: ${operator}`, {
+      operator,
+      hint: 'Top-level operators are $and, $or and $not. Field operators go inside a field condition.',
+    });
+  }
+
+  if (operator === '$not') {
+    if (!isPlainObject(operand)) {
+      throw new FilterError('$not expects a filter object', { operator });
+    }
+    return !matchesQuery(metadata, operand);
+  }
+
+  if (!Array.isArray(operand)) {
+    throw new FilterError(`${operator} expects an array of filters`, { operator });
+  }
+
+  const clauses = operand as Record<string, unknown>[];
+  if (operator === '$and') {
+    return clauses.every((clause) => matchesQuery(metadata, clause));
+  }
+
+  // $or with no clauses matches nothing, like MongoDB
+  return clauses.some((clause) => matchesQuery(metadata, clause));
+}
+
+/**
+ * Check if a value matches a single field condition.
  */
 function matchesCondition(value: unknown, condition: unknown): boolean {
   // Null condition check
@@ -41,60 +127,203 @@ function matchesCondition(value: unknown, condition: unknown): boolean {
     return value === null;
   }
 
-  // Operator objects
-  if (typeof condition === 'object' && condition !== null) {
-    const ops = condition as Record<string, unknown>;
+  // RegExp shorthand: { title: /report/i }
+  if (condition instanceof RegExp) {
+    return typeof value === 'string' && condition.test(value);
+  }
 
-    // $in: value must be in the array
-    if ('$in' in ops) {
-      const inArray = ops.$in as unknown[];
-      return inArray.includes(value);
+  if (isOperatorObject(condition)) {
+    for (const [operator, operand] of Object.entries(condition)) {
+      if (operand === undefined) continue;
+      if (!matchesOperator(value, operator, operand)) {
+        return false;
+      }
     }
+    return true;
+  }
 
-    // $nin: value must not be in the array
-    if ('$nin' in ops) {
-      const ninArray = ops.$nin as unknown[];
-      return !ninArray.includes(value);
-    }
+  // Nested objects and arrays without operators are compared structurally
+  if (typeof condition === 'object') {
+    return JSON.stringify(value) === JSON.stringify(condition);
+  }
 
-    // $gt: value must be greater than
-    if ('$gt' in ops) {
-      return typeof value === 'number' && value > (ops.$gt as number);
-    }
+  // Exact match for primitives
+  return value === condition;
+}
+
+/**
+ * Evaluate one field operator.
+ */
+function matchesOperator(value: unknown, operator: string, operand: unknown): boolean {
+  switch (operator) {
+    case '$eq':
+      return isEqual(value, operand);
+
+    case '$ne':
+      return !isEqual(value, operand);
 
-    // $gte: value must be greater than or equal
-    if ('$gte' in ops) {
-      return typeof value === 'number' && value >= (ops.$gte as number);
+    case '$in': {
+      const list = expectArray(operator, operand);
+      // An array field matches when any of its elements is in the list
+      if (Array.isArray(value)) {
+        return value.some((item) => list.some((candidate) => isEqual(item, candidate)));
+      }
+      return list.some((candidate) => isEqual(value, candidate));
     }
 
-    // $lt: value must be less than
-    if ('$lt' in ops) {
-      return typeof value === 'number' && value < (ops.$lt as number);
+    case '$nin': {
+      const list = expectArray(operator, operand);
+      if (Array.isArray(value)) {
+        return !value.some((item) => list.some((candidate) => isEqual(item, candidate)));
+      }
+      return !list.some((candidate) => isEqual(value, candidate));
     }
 
-    // $lte: value must be less than or equal
-    if ('$lte' in ops) {
-      return typeof value === 'number' && value <= (ops.$lte as number);
+    case '$gt':
+      return compare(value, operand, operator) > 0;
+
+    case '$gte':
+      return compare(value, operand, operator) >= 0;
+
+    case '$lt':
+      return compare(value, operand, operator) < 0;
+
+    case '$lte':
+      return compare(value, operand, operator) <= 0;
+
+    case '$exists': {
+      const exists = value !== undefined;
+      return operand ? exists : !exists;
     }
 
-    // $ne: value must not equal
-    if ('$ne' in ops) {
-      return value !== ops.$ne;
+    case '$contains':
+      // Array membership, or substring match for strings
+      if (Array.isArray(value)) {
+        return value.some((item) => isEqual(item, operand));
+      }
+      if (typeof value === 'string' && typeof operand === 'string') {
+        return value.includes(operand);
+      }
+      return false;
+
+    case '$all': {
+      const required = expectArray(operator, operand);
+      if (!Array.isArray(value)) return false;
+      return required.every((needle) => value.some((item) => isEqual(item, needle)));
     }
 
-    // $exists: field must exist (or not)
-    if ('$exists' in ops) {
-      const shouldExist = ops.$exists as boolean;
-      const exists = value !== undefined;
-      return shouldExist ? exists : !exists;
+    case '$size':
+      if (typeof operand !== 'number') {
+        throw new FilterError('$size expects a number', { operator });
+      }
+      return Array.isArray(value) && value.length === operand;
+
+    case '$startsWith':
+      if (typeof operand !== 'string') {
+        throw new FilterError('$startsWith expects a string', { operator });
+      }
+      return typeof value === 'string' && value.startsWith(operand);
+
+    case '$regex':
+      return typeof value === 'string' && toRegExp(operand).test(value);
+
+    case '$not':
+      return !matchesCondition(value, operand);
+
+    default:
+      throw new FilterError(`Unknown filter operator: ${operator}`, {
+        operator,
+        hint: `Supported field operators: ${[...FIELD_OPERATORS].join(', ')}`,
+      });
+  }
+}
+
+/**
+ * Resolve a dotted path (e.g. `'author.name'`) against metadata.
+ * A literal key containing dots takes precedence over path traversal.
+ */
+export function getValueAtPath(metadata: Record<string, unknown>, path: string): unknown {
+  if (path in metadata || !path.includes('.')) {
+    return metadata[path];
+  }
+
+  let current: unknown = metadata;
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
     }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
 
-    // Unknown operator or nested object - treat as exact match
-    return JSON.stringify(value) === JSON.stringify(condition);
+/**
+ * Compare two values for range operators. Numbers compare numerically and
+ * strings lexicographically; any other combination never matches.
+ *
+ * @returns Negative, zero or positive like `Array.prototype.sort`, or `NaN` if not comparable.
+ */
+function compare(value: unknown, operand: unknown, operator: string): number {
+  if (typeof operand !== 'number' && typeof operand !== 'string') {
+    throw new FilterError(`${operator} expects a number or string`, { operator });
+  }
+  if (typeof value !== typeof operand) {
+    return NaN;
+  }
+  if (typeof value === 'number') {
+    return value - (operand as number);
   }
+  const a = value as string;
+  const b = operand as string;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
 
-  // Exact match for primitives
-  return value === condition;
+/**
+ * Equality used by operators: strict for primitives, structural for objects and arrays.
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function expectArray(operator: string, operand: unknown): unknown[] {
+  if (!Array.isArray(operand)) {
+    throw new FilterError(`${operator} expects an array`, { operator });
+  }
+  return operand;
+}
+
+function toRegExp(operand: unknown): RegExp {
+  if (operand instanceof RegExp) {
+    return operand;
+  }
+  if (typeof operand !== 'string') {
+    throw new FilterError('$regex expects a string or RegExp', { operator: '$regex' });
+  }
+  try {
+    return new RegExp(operand);
+  } catch (err) {
+    throw new FilterError(`Invalid $regex pattern: ${operand}`, {
+      operator: '$regex',
+      hint: err instanceof Error ? err.message : undefined,
+    });
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * An operator object is a plain object whose keys all start with `$`.
+ */
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  if (!isPlainObject(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => key.startsWith('$'));
 }
 
 /**
@@ -111,3 +340,15 @@ export function applyFilter<T extends { metadata?: Record<string, unknown> }>(
   return items.filter((item) => matchesFilter(item.metadata, filter));
 }
 
+/**
+ * Key that identifies a filter, for caching what it matches. Equal filters
+ * give equal keys; RegExp and Date operands are keyed by their value.
+ */
+export function filterKey(filter: TypedFilterQuery): string {
+  return JSON.stringify(filter, function (this: Record<string, unknown>, key: string, value: unknown) {
+    const operand = this[key];
+    if (operand instanceof RegExp) return { $regexp: [operand.source, operand.flags] };
+    if (operand instanceof Date) return { $date: operand.getTime() };
+    return value;
+  });
+}
@@ -0,0 +1,307 @@
+/**
+ * Sorting and cursor pagination for metadata queries (`db.find()`).
+ *
+ * Pages are keyset-paginated: the cursor records the sort values and ID of
+ * the last document on a page, and the next page starts strictly after that
+ * position. Documents added or removed between pages therefore never cause
+ * duplicates or gaps the way offsets would.
+ */
+
+import type { StoredDocument, FindSort, SortDirection } from '../types.js';
+import type {
+  IndexableValue,
+  MetadataIndexQuery,
+  MetadataIndexScanOptions,
+  MetadataIndexScanEntry,
+} from '../storage/metadata-index.js';
+import { getValueAtPath } from './filter.js';
+import { matchesIndexQuery } from '../storage/metadata-index.js';
+import { ValidationError } from '../errors/index.js';
+
+/** Document fields that sort keys fall back to when metadata lacks them. */
+const DOCUMENT_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+/**
+ * A resolved sort key.
+ */
+export interface SortKey {
+  field: string;
+  direction: SortDirection;
+}
+
+/**
+ * Position of the last document on a page.
+ */
+export interface CursorPosition {
+  values: unknown[];
+  id: string;
+}
+
+/**
+ * Normalize a sort specification into an ordered list of keys.
+ *
+ * @throws {ValidationError} If a direction is not `'asc'` or `'desc'`.
+ */
+export function toSortKeys(sort: FindSort | undefined): SortKey[] {
+  if (!sort) return [];
+
+  const keys: SortKey[] = [];
+  for (const [field, direction] of Object.entries(sort as Record<string, unknown>)) {
+    if (direction === undefined) continue;
+    if (direction !== 'asc' && direction !== 'desc') {
+      throw new ValidationError(
+        `Invalid sort direction for "${field}": ${String(direction)}`,
+        "Use 'asc' or 'desc'."
+      );
+    }
+    keys.push({ field, direction });
+  }
+  return keys;
+}
+
+/**
+ * Resolve a sort field against a document. Metadata paths win; `id`,
+ * `createdAt` and `updatedAt` fall back to the document's own fields.
+ */
+export function getSortValue(doc: StoredDocument, field: string): unknown {
+  const value = doc.metadata ? getValueAtPath(doc.metadata, field) : undefined;
+  if (value === undefined && DOCUMENT_FIELDS.has(field)) {
+    return doc[field as 'id' | 'createdAt' | 'updatedAt'];
+  }
+  return value;
+}
+
+/**
+ * Compare two documents by sort keys, breaking ties by ID.
+ */
+export function compareDocuments(a: StoredDocument, b: StoredDocument, keys: SortKey[]): number {
+  return comparePositions(
+    { values: keys.map((k) => getSortValue(a, k.field)), id: a.id },
+    { values: keys.map((k) => getSortValue(b, k.field)), id: b.id },
+    keys
+  );
+}
+
+/**
+ * Sort documents in place.
+ */
+export function sortDocuments(docs: StoredDocument[], keys: SortKey[]): StoredDocument[] {
+  return docs.sort((a, b) => compareDocuments(a, b, keys));
+}
+
+/**
+ * Check whether a document sorts strictly after a cursor position.
+ */
+export function isAfterCursor(doc: StoredDocument, position: CursorPosition, keys: SortKey[]): boolean {
+  const current = { values: keys.map((k) => getSortValue(doc, k.field)), id: doc.id };
+  return comparePositions(current, position, keys) > 0;
+}
+
+function comparePositions(a: CursorPosition, b: CursorPosition, keys: SortKey[]): number {
+  for (let i = 0; i < keys.length; i++) {
+    const order = compareValues(a.values[i], b.values[i]);
+    if (order !== 0) {
+      return keys[i].direction === 'desc' ? -order : order;
+    }
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Total order over metadata values: missing < null < numbers < strings < booleans < other.
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const rankA = typeRank(a);
+  const rankB = typeRank(b);
+  if (rankA !== rankB) return rankA - rankB;
+
+  switch (rankA) {
+    case 2:
+      return (a as number) - (b as number);
+    case 3:
+    case 5: {
+      const x = rankA === 3 ? (a as string) : JSON.stringify(a);
+      const y = rankA === 3 ? (b as string) : JSON.stringify(b);
+      return x < y ? -1 : x > y ? 1 : 0;
+    }
+    case 4:
+      return Number(a) - Number(b);
+    default:
+      return 0;
+  }
+}
+
+function typeRank(value: unknown): number {
+  if (value === undefined) return 0;
+  if (value === null) return 1;
+  if (typeof value === 'number') return Number.isNaN(value) ? 0 : 2;
+  if (typeof value === 'string') return 3;
+  if (typeof value === 'boolean') return 4;
+  return 5;
+}
+
+// ============================================
+// Index Order
+// ============================================
+
+/**
+ * Index lookups for each type of indexed value, in the order documents are
+ * sorted by: null, numbers, strings, booleans.
+ */
+export const SORT_SEGMENTS: ReadonlyArray<Omit<MetadataIndexQuery, 'field'>> = [
+  { values: [null] },
+  { range: { lower: -Infinity } },
+  { range: { lower: '' } },
+  { values: [false, true] },
+];
+
+/** Index entries read per scan while paging in index order. */
+const SCAN_BATCH_SIZE = 100;
+
+/**
+ * Scans the index entries of a collection, see `StorageAdapter.scanIndex()`.
+ */
+export type IndexScanner = (
+  query: MetadataIndexQuery,
+  options?: MetadataIndexScanOptions
+) => Promise<MetadataIndexScanEntry[]>;
+
+/**
+ * Position of a value among {@link SORT_SEGMENTS} in a sort direction, or -1
+ * if the value is not indexed.
+ */
+export function sortSegmentOf(value: unknown, direction: SortDirection): number {
+  const segment = SORT_SEGMENTS.findIndex((s) => matchesIndexQuery(value as IndexableValue, { field: '', ...s }));
+  return segment === -1 || direction === 'asc' ? segment : SORT_SEGMENTS.length - 1 - segment;
+}
+
+/**
+ * Read the IDs of the index entries of one field in sort order, starting
+ * after a cursor position whose value is indexed. Like
+ * {@link compareDocuments}, equal values are ordered by ascending ID in both
+ * directions.
+ */
+export async function* scanInSortOrder(
+  scan: IndexScanner,
+  field: string,
+  direction: SortDirection,
+  start?: { value: IndexableValue; id: string }
+): AsyncGenerator<string> {
+  const segments = direction === 'asc' ? SORT_SEGMENTS : [...SORT_SEGMENTS].reverse();
+  const first = start ? sortSegmentOf(start.value, direction) : 0;
+  for (let i = first; i < segments.length; i++) {
+    const query = { field, ...segments[i] };
+    yield* direction === 'asc'
+      ? scanForwards(scan, query, i === first ? start : undefined)
+      : scanBackwards(scan, query, i === first ? start : undefined);
+  }
+}
+
+async function* scanForwards(
+  scan: IndexScanner,
+  query: MetadataIndexQuery,
+  after?: MetadataIndexScanOptions['after']
+): AsyncGenerator<string> {
+  for (;;) {
+    const entries = await scan(query, { after, limit: SCAN_BATCH_SIZE });
+    for (const entry of entries) yield entry.id;
+    if (entries.length < SCAN_BATCH_SIZE) return;
+    after = entries[entries.length - 1];
+  }
+}
+
+/**
+ * Values from highest to lowest, each value's entries read forwards.
+ */
+async function* scanBackwards(
+  scan: IndexScanner,
+  query: MetadataIndexQuery,
+  start?: { value: IndexableValue; id: string }
+): AsyncGenerator<string> {
+  let current: { value: IndexableValue; id?: string } | undefined = start;
+  if (!current) {
+    const [highest] = await scan(query, { direction: 'desc', limit: 1 });
+    if (!highest) return;
+    current = { value: highest.value };
+  }
+
+  for (;;) {
+    const { value, id } = current;
+    yield* scanForwards(scan, { field: query.field, values: [value] }, id === undefined ? undefined : { value, id });
+
+    const [next] = await scan(query, { direction: 'desc', after: { value }, limit: 1 });
+    if (!next) return;
+    current = { value: next.value };
+  }
+}
+
+// ============================================
+// Cursor Encoding
+// ============================================
+
+/**
+ * Encode the position of a document as an opaque cursor string.
+ * Missing values are encoded explicitly since JSON turns `undefined` into `null`.
+ */
+export function encodeCursor(doc: StoredDocument, keys: SortKey[]): string {
+  const payload = {
+    s: keys.map((k) => `${k.field}:${k.direction}`),
+    v: keys.map((k) => {
+      const value = getSortValue(doc, k.field);
+      return value === undefined ? { m: 1 } : { v: value };
+    }),
+    id: doc.id,
+  };
+  return toBase64(JSON.stringify(payload));
+}
+
+/**
+ * Decode a cursor produced by {@link encodeCursor}.
+ *
+ * @throws {ValidationError} If the cursor is malformed or was created with a different sort.
+ */
+export function decodeCursor(cursor: string, keys: SortKey[]): CursorPosition {
+  let payload: { s?: unknown; v?: unknown; id?: unknown };
+  try {
+    payload = JSON.parse(fromBase64(cursor));
+  } catch {
+    throw new ValidationError('Invalid find() cursor', 'Pass the nextCursor value returned by a previous find() call.');
+  }
+
+  const signature = keys.map((k) => `${k.field}:${k.direction}`);
+  if (
+    !Array.isArray(payload.s) ||
+    !Array.isArray(payload.v) ||
+    typeof payload.id !== 'string' ||
+    payload.s.length !== signature.length ||
+    payload.s.some((s, i) => s !== signature[i])
+  ) {
+    throw new ValidationError(
+      'find() cursor does not match the current sort',
+      'Reuse the same sort options for every page, or start again without a cursor.'
+    );
+  }
+
+  return {
+    values: (payload.v as Array<{ m?: 1; v?: unknown }>).map((entry) => (entry.m ? undefined : entry.v)),
+    id: payload.id,
+  };
+}
+
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): string {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,259 @@
+/**
+ * Filter query planner.
+ *
+ * Turns the parts of a filter that touch indexed metadata fields into
+ * secondary index lookups. The resulting plan produces a candidate ID set;
+ * when the whole filter was covered the candidates are the exact answer,
+ * otherwise the remaining conditions are evaluated on the candidates only.
+ *
+ * Planned conditions:
+ * - Equality on primitives: `{ category: 'tech' }`, `{ category: { $eq: 'tech' } }`
+ * - `$in` with primitive values (matches scalar fields and array elements)
+ * - Ranges: `$gt`, `$gte`, `$lt`, `$lte` on numbers or strings
+ * - `$and`, and `$or` when every branch is plannable
+ */
+
+import type { TypedFilterQuery } from '../types.js';
+import {
+  isIndexableValue,
+  type IndexableValue,
+  type MetadataIndexQuery,
+} from '../storage/metadata-index.js';
+
+/**
+ * A node in a filter plan.
+ */
+export type FilterPlan =
+  | { type: 'lookup'; query: MetadataIndexQuery }
+  | { type: 'and'; plans: FilterPlan[] }
+  | { type: 'or'; plans: FilterPlan[] };
+
+/**
+ * Result of planning a filter.
+ */
+export interface PlannedFilter {
+  /** Index plan, or `null` if no part of the filter can use an index. */
+  plan: FilterPlan | null;
+  /** `true` when the plan alone answers the filter with no residual conditions. */
+  exact: boolean;
+}
+
+const RANGE_OPERATORS = new Set(['$gt', '$gte', '$lt', '$lte']);
+
+/**
+ * Plan a filter against a set of indexed fields.
+ *
+ * @example
+ * ```ts
+ * planFilter({ category: 'tech', year: { $gte: 2020 } }, new Set(['category']));
+ * // { plan: { type: 'lookup', query: { field: 'category', values: ['tech'] } }, exact: false }
+ * ```
+ */
+export function planFilter(
+  filter: TypedFilterQuery | undefined,
+  indexedFields: ReadonlySet<string>
+): PlannedFilter {
+  if (!filter || indexedFields.size === 0) {
+    return { plan: null, exact: false };
+  }
+  return planQuery(filter as Record<string, unknown>, indexedFields);
+}
+
+/**
+ * Plan a filter object. All entries are ANDed.
+ */
+function planQuery(query: Record<string, unknown>, indexedFields: ReadonlySet<string>): PlannedFilter {
+  const plans: FilterPlan[] = [];
+  let exact = true;
+
+  for (const [key, condition] of Object.entries(query)) {
+    if (condition === undefined) continue;
+
+    let planned: PlannedFilter;
+    if (key === '$and' && Array.isArray(condition)) {
+      planned = combine('and', condition as Record<string, unknown>[], indexedFields);
+    } else if (key === '$or' && Array.isArray(condition)) {
+      planned = combine('or', condition as Record<string, unknown>[], indexedFields);
+    } else if (!key.startsWith('$') && indexedFields.has(key)) {
+      planned = planCondition(key, condition);
+    } else {
+      planned = { plan: null, exact: false };
+    }
+
+    if (planned.plan) plans.push(planned.plan);
+    exact = exact && planned.exact;
+  }
+
+  if (plans.length === 0) {
+    return { plan: null, exact: false };
+  }
+  return { plan: plans.length === 1 ? plans[0] : { type: 'and', plans }, exact };
+}
+
+/**
+ * Plan `$and` / `$or` clauses. An `$or` is only usable if every branch has a plan,
+ * since an unplanned branch could match any document.
+ */
+function combine(
+  type: 'and' | 'or',
+  clauses: Record<string, unknown>[],
+  indexedFields: ReadonlySet<string>
+): PlannedFilter {
+  const plans: FilterPlan[] = [];
+  let exact = true;
+
+  for (const clause of clauses) {
+    const planned = planQuery(clause, indexedFields);
+    if (!planned.plan) {
+      if (type === 'or') return { plan: null, exact: false };
+      exact = false;
+      continue;
+    }
+    plans.push(planned.plan);
+    exact = exact && planned.exact;
+  }
+
+  if (type === 'or' && clauses.length === 0) {
+    // $or with no clauses matches nothing
+    return { plan: { type: 'or', plans: [] }, exact: true };
+  }
+  if (plans.length === 0) {
+    return { plan: null, exact: false };
+  }
+  return { plan: plans.length === 1 ? plans[0] : { type, plans }, exact };
+}
+
+/**
+ * Plan a condition on a single indexed field.
+ */
+function planCondition(field: string, condition: unknown): PlannedFilter {
+  if (isIndexableValue(condition)) {
+    return { plan: { type: 'lookup', query: { field, values: [condition] } }, exact: true };
+  }
+
+  if (!isOperatorObject(condition)) {
+    return { plan: null, exact: false };
+  }
+
+  const plans: FilterPlan[] = [];
+  const ranges = new Map<'number' | 'string', NonNullable<MetadataIndexQuery['range']>>();
+  let exact = true;
+
+  for (const [operator, operand] of Object.entries(condition)) {
+    if (operand === undefined) continue;
+
+    if (operator === '$eq' && isIndexableValue(operand)) {
+      plans.push({ type: 'lookup', query: { field, values: [operand] } });
+    } else if (
+      operator === '$in' &&
+      Array.isArray(operand) &&
+      operand.every((value) => isIndexableValue(value))
+    ) {
+      // Scalar fields match directly; array fields match on any element
+      const values = operand as IndexableValue[];
+      plans.push({
+        type: 'or',
+        plans: [
+          { type: 'lookup', query: { field, values } },
+          { type: 'lookup', query: { field: `${field}[]`, values } },
+        ],
+      });
+    } else if (
+      RANGE_OPERATORS.has(operator) &&
+      (typeof operand === 'string' || (typeof operand === 'number' && !Number.isNaN(operand)))
+    ) {
+      const kind = typeof operand as 'number' | 'string';
+      const range = ranges.get(kind) ?? {};
+      if (operator === '$gt' || operator === '$gte') {
+        range.lower = tighterLower(range, operand, operator === '$gt');
+      } else {
+        range.upper = tighterUpper(range, operand, operator === '$lt');
+      }
+      ranges.set(kind, range);
+    } else {
+      exact = false;
+    }
+  }
+
+  for (const range of ranges.values()) {
+    plans.push({ type: 'lookup', query: { field, range } });
+  }
+
+  if (plans.length === 0) {
+    return { plan: null, exact: false };
+  }
+  return { plan: plans.length === 1 ? plans[0] : { type: 'and', plans }, exact };
+}
+
+function tighterLower(
+  range: NonNullable<MetadataIndexQuery['range']>,
+  value: number | string,
+  open: boolean
+): number | string {
+  if (range.lower === undefined || value > range.lower || (value === range.lower && open)) {
+    range.lowerOpen = open;
+    return value;
+  }
+  return range.lower;
+}
+
+function tighterUpper(
+  range: NonNullable<MetadataIndexQuery['range']>,
+  value: number | string,
+  open: boolean
+): number | string {
+  if (range.upper === undefined || value < range.upper || (value === range.upper && open)) {
+    range.upperOpen = open;
+    return value;
+  }
+  return range.upper;
+}
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  if (value instanceof RegExp) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => key.startsWith('$'));
+}
+
+/**
+ * Execute a plan using an index lookup function.
+ *
+ * @param plan - Plan produced by {@link planFilter}.
+ * @param lookup - Resolves a single index query to matching document IDs.
+ */
+export async function executePlan(
+  plan: FilterPlan,
+  lookup: (query: MetadataIndexQuery) => Promise<string[]>
+): Promise<Set<string>> {
+  if (plan.type === 'lookup') {
+    return new Set(await lookup(plan.query));
+  }
+
+  if (plan.type === 'or') {
+    const union = new Set<string>();
+    for (const child of plan.plans) {
+      for (const id of await executePlan(child, lookup)) {
+        union.add(id);
+      }
+    }
+    return union;
+  }
+
+  let result: Set<string> | null = null;
+  for (const child of plan.plans) {
+    const ids = await executePlan(child, lookup);
+    if (result === null) {
+      result = ids;
+    } else {
+      const next = new Set<string>();
+      for (const id of result) {
+        if (ids.has(id)) next.add(id);
+      }
+      result = next;
+    }
+    // Short-circuit: nothing left to intersect
+    if (result.size === 0) break;
+  }
+  return result ?? new Set();
+}
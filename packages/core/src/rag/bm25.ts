@@ -146,12 +146,23 @@ export class BM25 implements BM25Index {
    * @param text - Document text content
    */
   add(id: string, text: string): void {
+    this.addTokens(id, this.tokenize(text), text);
+  }
+
+  /**
+   * Add a document from tokens produced earlier, e.g. loaded from storage,
+   * without tokenizing its text again.
+   *
+   * @param id - Document ID
+   * @param tokens - Document tokens, as produced by this index's tokenizer
+   * @param text - Original text (optional, returned with search results)
+   */
+  addTokens(id: string, tokens: string[], text?: string): void {
     // Remove if exists (for updates)
     if (this.documents.has(id)) {
       this.remove(id);
     }
 
-    const tokens = this.tokenize(text);
     const termFreqs = new Map<string, number>();
 
     // Calculate term frequencies
@@ -194,30 +205,70 @@ export class BM25 implements BM25Index {
    *
    * @param query - Search query text
    * @param k - Number of results to return (default: 10)
+   * @param options - Optional allow-list of document IDs to score, and an
+   *   overlay: another index whose documents replace the `exclude`d ones of
+   *   this index, scored together with the rest as one corpus
    * @returns Sorted array of results with scores
    */
-  search(query: string, k = 10): BM25Result[] {
+  search(
+    query: string,
+    k = 10,
+    options?: {
+      filter?: ReadonlySet<string>;
+      overlay?: { exclude: ReadonlySet<string>; index: BM25 };
+    }
+  ): BM25Result[] {
     const queryTokens = this.tokenize(query);
+    const overlay = options?.overlay;
+
+    // Corpus statistics, adjusted for the overlay's documents
+    let N = this.documents.size;
+    let avgDocLength = this.avgDocLength;
+    let documents: Iterable<BM25Document> = this.documents.values();
+    const removedFreqs = new Map<string, number>();
+    if (overlay) {
+      let totalDocLength = this.totalDocLength + overlay.index.totalDocLength;
+      for (const id of overlay.exclude) {
+        const doc = this.documents.get(id);
+        if (!doc) continue;
+        N--;
+        totalDocLength -= doc.length;
+        for (const term of doc.termFreqs.keys()) {
+          removedFreqs.set(term, (removedFreqs.get(term) || 0) + 1);
+        }
+      }
+      N += overlay.index.documents.size;
+      avgDocLength = N > 0 ? totalDocLength / N : 0;
+      documents = [
+        ...[...this.documents.values()].filter((doc) => !overlay.exclude.has(doc.id)),
+        ...overlay.index.documents.values(),
+      ];
+    }
+    const docFreq = (term: string): number =>
+      (this.docFreqs.get(term) || 0) -
+      (removedFreqs.get(term) || 0) +
+      (overlay?.index.docFreqs.get(term) || 0);
 
-    if (queryTokens.length === 0 || this.documents.size === 0) {
+    if (queryTokens.length === 0 || N === 0) {
       return [];
     }
 
     const scores: Array<{ id: string; score: number; text?: string }> = [];
-    const N = this.documents.size;
 
-    for (const doc of this.documents.values()) {
+    for (const doc of documents) {
+      if (options?.filter && !options.filter.has(doc.id)) continue;
+
       let score = 0;
 
       for (const term of queryTokens) {
         const tf = doc.termFreqs.get(term) || 0;
         if (tf === 0) continue;
 
-        const df = this.docFreqs.get(term) || 0;
+        const df = docFreq(term);
         const idf = Math.log((N - df + 0.5) / (df + 0.5) + 1);
 
         const numerator = tf * (this.k1 + 1);
-        const denominator = tf + this.k1 * (1 - this.b + this.b * (doc.length / this.avgDocLength));
+        const denominator = tf + this.k1 * (1 - this.b + this.b * (doc.length / avgDocLength));
 
         score += idf * (numerator / denominator);
       }
@@ -344,6 +395,16 @@ export class BM25 implements BM25Index {
     return this.documents.has(id);
   }
 
+  /**
+   * Get the tokens of an indexed document.
+   *
+   * @param id - Document ID
+   * @returns The document's tokens, or undefined if it is not indexed
+   */
+  getTokens(id: string): string[] | undefined {
+    return this.documents.get(id)?.tokens;
+  }
+
   /**
    * Get document count.
    *
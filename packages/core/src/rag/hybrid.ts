@@ -8,10 +8,15 @@
  * The results are combined using Reciprocal Rank Fusion (RRF)
  * or weighted score combination.
  *
+ * BM25 runs on the database's keyword index, which is persisted next to the
+ * HNSW index and kept up to date by the database itself, so keyword search
+ * works right after a page load. Documents added with a sparse vector
+ * (e.g. from a SPLADE model) can be searched with a sparse query instead.
+ *
  * @packageDocumentation
  */
 
-import type { VectorDB, SearchResult } from '../types.js';
+import type { VectorDB, SearchResult, SparseVector } from '../types.js';
 import type { HybridSearchOptions, HybridSearchResult, BM25Options } from './types.js';
 import { DEFAULT_HYBRID_OPTIONS } from './types.js';
 import { BM25 } from './bm25.js';
@@ -32,21 +37,35 @@ import { BM25 } from './bm25.js';
  * // Hybrid search
  * const results = await hybrid.search(queryEmbedding, 'brown fox', { k: 10 });
  * ```
+ *
+ * @example With sparse vectors
+ * ```typescript
+ * await hybrid.add('doc3', 'Reset your password', embedding3, undefined, sparse3);
+ *
+ * // Fuses dense scores with sparse dot-product scores
+ * const results = await hybrid.search(queryEmbedding, querySparse, { k: 10 });
+ * ```
  */
 export class HybridSearch {
   private db: VectorDB;
   private bm25: BM25;
+  /** Whether BM25 runs on the local in-memory index instead of the database's */
+  private useLocalBM25: boolean;
   private textStore: Map<string, string> = new Map();
 
   /**
    * Create a new hybrid search instance.
    *
    * @param db - Vector database instance
-   * @param bm25Options - BM25 configuration options
+   * @param bm25Options - BM25 configuration options. When given, keyword search
+   *   uses a local in-memory index that is not persisted; configure
+   *   `keywordIndex` on `createVectorDB()` instead to keep custom settings
+   *   across page loads.
    */
   constructor(db: VectorDB, bm25Options: BM25Options = {}) {
     this.db = db;
     this.bm25 = new BM25(bm25Options);
+    this.useLocalBM25 = Object.keys(bm25Options).length > 0;
   }
 
   /**
@@ -56,18 +75,23 @@ export class HybridSearch {
    * @param text - Document text content
    * @param vector - Document embedding vector
    * @param metadata - Optional metadata
+   * @param sparseVector - Optional sparse vector; when given, the document is
+   *   matched by sparse queries instead of being tokenized into BM25
    */
   async add(
     id: string,
     text: string,
     vector: Float32Array,
-    metadata?: Record<string, unknown>
+    metadata?: Record<string, unknown>,
+    sparseVector?: SparseVector
   ): Promise<void> {
     // Add to vector DB
-    await this.db.add({ id, vector, metadata: { ...metadata, _text: text } });
+    await this.db.add({ id, vector, sparseVector, metadata: { ...metadata, _text: text } });
 
-    // Add to BM25 index
-    this.bm25.add(id, text);
+    // Add to the local BM25 index (the database indexes `_text` itself)
+    if (this.useLocalBM25 && !sparseVector) {
+      this.bm25.add(id, text);
+    }
     this.textStore.set(id, text);
   }
 
@@ -82,6 +106,7 @@ export class HybridSearch {
       text: string;
       vector: Float32Array;
       metadata?: Record<string, unknown>;
+      sparseVector?: SparseVector;
     }>
   ): Promise<void> {
     // Add to vector DB
@@ -89,13 +114,16 @@ export class HybridSearch {
       documents.map((doc) => ({
         id: doc.id,
         vector: doc.vector,
+        sparseVector: doc.sparseVector,
         metadata: { ...doc.metadata, _text: doc.text },
       }))
     );
 
-    // Add to BM25 index
+    // Add to the local BM25 index (the database indexes `_text` itself)
     for (const doc of documents) {
-      this.bm25.add(doc.id, doc.text);
+      if (this.useLocalBM25 && !doc.sparseVector) {
+        this.bm25.add(doc.id, doc.text);
+      }
       this.textStore.set(doc.id, doc.text);
     }
   }
@@ -104,13 +132,13 @@ export class HybridSearch {
    * Perform hybrid search combining vector and keyword search.
    *
    * @param queryVector - Query embedding vector
-   * @param queryText - Query text for keyword search
+   * @param query - Query text for BM25, or a sparse query vector for the sparse index
    * @param options - Search configuration
    * @returns Combined and ranked results
    */
   async search(
     queryVector: Float32Array,
-    queryText: string,
+    query: string | SparseVector,
     options: HybridSearchOptions = {}
   ): Promise<HybridSearchResult[]> {
     const {
@@ -125,13 +153,17 @@ export class HybridSearch {
     } = options;
 
     // Perform both searches in parallel
-    const [vectorResults, bm25Results] = await Promise.all([
+    const [vectorResults, keywordResults] = await Promise.all([
       this.db.search(queryVector, { k: fetchK, filter, includeVectors }),
-      Promise.resolve(this.bm25.search(queryText, fetchK)),
+      typeof query !== 'string'
+        ? this.db.searchSparse(query, { k: fetchK, filter })
+        : this.useLocalBM25
+          ? Promise.resolve(this.bm25.search(query, fetchK))
+          : this.db.searchKeyword(query, { k: fetchK, filter }),
     ]);
 
     // Combine results using score fusion
-    const combined = fuseResults(vectorResults, bm25Results, {
+    const combined = fuseResults(vectorResults, keywordResults, {
       vectorWeight,
       keywordWeight,
       normalizeScores,
@@ -140,10 +172,10 @@ export class HybridSearch {
     // Apply threshold and limit
     const filtered = combined.filter((r) => r.score >= threshold).slice(0, k);
 
-    // Add text content to results
+    // Add text content to results (stored as `_text` for documents added in earlier sessions)
     return filtered.map((result) => ({
       ...result,
-      text: this.textStore.get(result.id),
+      text: this.textStore.get(result.id) ?? (result.metadata?._text as string | undefined),
     }));
   }
 
@@ -168,7 +200,8 @@ export class HybridSearch {
   }
 
   /**
-   * Get the underlying BM25 index for advanced operations.
+   * Get the local BM25 index for advanced operations. It only holds documents
+   * when the instance was created with BM25 options.
    */
   getBM25Index(): BM25 {
     return this.bm25;
@@ -182,17 +215,20 @@ export class HybridSearch {
   }
 
   /**
-   * Export the BM25 index state for persistence.
+   * Export the local BM25 index state for persistence. The database's keyword
+   * index is persisted automatically and included in `db.export()`.
    */
   exportBM25State(): ReturnType<BM25['toJSON']> {
     return this.bm25.toJSON();
   }
 
   /**
-   * Import BM25 index state.
+   * Import local BM25 index state. Keyword search uses the local index from
+   * then on.
    */
   importBM25State(state: ReturnType<BM25['toJSON']>): void {
     this.bm25.fromJSON(state);
+    this.useLocalBM25 = true;
 
     // Rebuild text store from BM25 documents
     for (const doc of state.documents) {
@@ -208,7 +244,7 @@ export class HybridSearch {
  */
 function fuseResults(
   vectorResults: SearchResult[],
-  bm25Results: Array<{ id: string; score: number }>,
+  bm25Results: Array<{ id: string; score: number; metadata?: Record<string, unknown> }>,
   options: {
     vectorWeight: number;
     keywordWeight: number;
@@ -233,6 +269,9 @@ function fuseResults(
   // Collect keyword scores
   for (const result of bm25Results) {
     keywordScores.set(result.id, result.score);
+    if (!metadataMap.has(result.id)) {
+      metadataMap.set(result.id, result.metadata);
+    }
   }
 
   // Get all unique IDs
@@ -295,6 +334,9 @@ function normalizeScoreMap(scores: Map<string, number>): Map<string, number> {
  * RRF combines rankings rather than scores, which can be more robust
  * when the score distributions differ significantly.
  *
+ * Pass an array of rankings instead to fuse any number of result lists,
+ * e.g. searches over several named vector spaces.
+ *
  * @param vectorResults - Results from vector search
  * @param bm25Results - Results from BM25 search
  * @param k - Constant for RRF (default: 60)
@@ -308,13 +350,31 @@ function normalizeScoreMap(scores: Map<string, number>): Map<string, number> {
  * const bm25Results = bm25.search(queryText, 20);
  *
  * const fused = reciprocalRankFusion(vectorResults, bm25Results);
+ *
+ * // Any number of rankings
+ * const multimodal = reciprocalRankFusion([textResults, imageResults]);
  * ```
  */
 export function reciprocalRankFusion(
   vectorResults: SearchResult[],
   bm25Results: Array<{ id: string; score: number }>,
+  k?: number
+): HybridSearchResult[];
+export function reciprocalRankFusion<TMetadata extends Record<string, unknown> = Record<string, unknown>>(
+  rankings: SearchResult<TMetadata>[][],
+  k?: number
+): SearchResult<TMetadata>[];
+export function reciprocalRankFusion(
+  first: SearchResult[] | SearchResult[][],
+  second?: Array<{ id: string; score: number }> | number,
   k = 60
-): HybridSearchResult[] {
+): HybridSearchResult[] | SearchResult[] {
+  if (!Array.isArray(second)) {
+    return fuseRankings(first as SearchResult[][], second ?? 60);
+  }
+
+  const vectorResults = first as SearchResult[];
+  const bm25Results = second;
   const rrfScores = new Map<string, number>();
   const metadataMap = new Map<string, Record<string, unknown> | undefined>();
   const vectorScoreMap = new Map<string, number>();
@@ -349,6 +409,28 @@ export function reciprocalRankFusion(
   return results.sort((a, b) => b.score - a.score);
 }
 
+/**
+ * Fuse any number of rankings with RRF. Metadata comes from the first ranking
+ * that contains a document.
+ */
+function fuseRankings(rankings: SearchResult[][], k: number): SearchResult[] {
+  const fused = new Map<string, SearchResult>();
+
+  for (const ranking of rankings) {
+    for (let i = 0; i < ranking.length; i++) {
+      const result = ranking[i];
+      const existing = fused.get(result.id);
+      if (existing) {
+        existing.score += 1 / (k + i + 1);
+      } else {
+        fused.set(result.id, { id: result.id, score: 1 / (k + i + 1), metadata: result.metadata });
+      }
+    }
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
 /**
  * Create a hybrid search instance from a vector database.
  *
@@ -0,0 +1,78 @@
+/**
+ * Helpers for storing the BM25 keyword index.
+ *
+ * Each indexed document's tokens are stored as an ordinary document record
+ * under a companion collection ID, with an ID derived from the document ID,
+ * so every write touches one record and every storage adapter can keep them
+ * without changes. Document frequencies and lengths are summed from these
+ * records on open instead of tokenizing the corpus again.
+ */
+
+import type { BM25Options } from './types.js';
+import { DEFAULT_BM25_OPTIONS } from './types.js';
+
+/** Separates the document ID from the suffix in stored keyword entry IDs. */
+const SEPARATOR = '\u001f';
+
+/**
+ * Settings that decide which tokens a document produces. Stored with the
+ * collection so stale entries are rebuilt when they change.
+ */
+export interface KeywordIndexFingerprint {
+  /** Metadata field holding the indexed text */
+  field: string;
+
+  /** Description of the tokenizer settings */
+  tokenizer: string;
+}
+
+/**
+ * Build the stored record ID of a document's keyword entry.
+ */
+export function keywordEntryId(docId: string): string {
+  return `${docId}${SEPARATOR}bm25`;
+}
+
+/**
+ * Recover the document ID from a stored keyword entry ID.
+ */
+export function docIdOfKeywordEntry(id: string): string {
+  const at = id.lastIndexOf(`${SEPARATOR}bm25`);
+  return at === -1 ? id : id.slice(0, at);
+}
+
+/**
+ * Collection ID under which a collection's keyword entries are stored.
+ */
+export function keywordCollectionId(collectionId: string): string {
+  return `${collectionId}${SEPARATOR}bm25`;
+}
+
+/**
+ * Describe the settings that affect tokenization. A custom `tokenize`
+ * function cannot be compared, so changing one is not detected.
+ */
+export function keywordIndexFingerprint(field: string, options: BM25Options): KeywordIndexFingerprint {
+  if (options.tokenize) {
+    return { field, tokenizer: 'custom' };
+  }
+
+  return {
+    field,
+    tokenizer: JSON.stringify({
+      stemming: options.stemming ?? DEFAULT_BM25_OPTIONS.stemming,
+      minTokenLength: options.minTokenLength ?? DEFAULT_BM25_OPTIONS.minTokenLength,
+      stopWords: options.stopWords ? [...options.stopWords].sort() : 'english',
+    }),
+  };
+}
+
+/**
+ * Whether two fingerprints describe the same tokens.
+ */
+export function sameKeywordIndex(
+  a: KeywordIndexFingerprint | undefined,
+  b: KeywordIndexFingerprint | undefined
+): boolean {
+  return !!a && !!b && a.field === b.field && a.tokenizer === b.tokenizer;
+}
@@ -319,8 +319,8 @@ export interface BM25Index {
   /** Add multiple documents */
   addMany(documents: Array<{ id: string; text: string }>): void;
 
-  /** Search the index */
-  search(query: string, k?: number): BM25Result[];
+  /** Search the index, optionally restricted to an allow-list of IDs */
+  search(query: string, k?: number, options?: { filter?: ReadonlySet<string> }): BM25Result[];
 
   /** Remove a document from the index */
   remove(id: string): void;
@@ -398,7 +398,7 @@ export interface HybridSearchResult extends VectorSearchResult {
   /** Vector similarity score (before weighting) */
   vectorScore?: number;
 
-  /** BM25/keyword score (before weighting) */
+  /** BM25/keyword or sparse score (before weighting) */
   keywordScore?: number;
 
   /** Text content (if stored) */
@@ -0,0 +1,139 @@
+/**
+ * Helpers for storing the document versions that snapshots are read from.
+ *
+ * Taking a snapshot copies nothing. Instead, the first write to a document
+ * after the newest snapshot copies the document's current state into a
+ * companion collection, tagged with that snapshot's sequence number
+ * (copy-on-write). A document's state at snapshot `S` is its version with
+ * the smallest sequence number `>= S`, or its live state when it has no such
+ * version. A version of `null` records that the document did not exist.
+ *
+ * Versions are ordinary document records holding the document in the same
+ * shape as `db.export()`, so every storage adapter can keep them without
+ * changes and a snapshot can be loaded with `db.import()`.
+ */
+
+import type { Document, StoredDocument } from '../types.js';
+
+/** Separates the document ID from the suffix in stored version IDs. */
+const SEPARATOR = '\u001f';
+
+/**
+ * A document as stored in a version, in the shape of `db.export()`.
+ */
+export interface SnapshotDocument {
+  id: string;
+  metadata?: Record<string, unknown>;
+  vector: number[];
+  vectors?: number[][];
+  namedVectors?: Record<string, number[]>;
+  sparseVector?: { indices: number[]; values: number[] };
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Metadata of a stored version record.
+ */
+export interface SnapshotVersion {
+  docId: string;
+  /** Sequence number of the snapshot the version belongs to */
+  sequence: number;
+  /** The document, or `null` if it did not exist */
+  document: SnapshotDocument | null;
+}
+
+/**
+ * Collection ID under which the versions of a collection's documents are stored.
+ */
+export function snapshotCollectionId(collectionId: string): string {
+  return `${collectionId}${SEPARATOR}snapshots`;
+}
+
+/**
+ * Build the stored ID of a document's version for a snapshot.
+ */
+export function snapshotVersionId(docId: string, sequence: number): string {
+  return `${docId}${SEPARATOR}snapshot:${sequence}`;
+}
+
+/**
+ * Convert a document read with `db.get()` to its stored form.
+ */
+export function serializeSnapshotDocument(doc: Document, stored: StoredDocument): SnapshotDocument {
+  const serialized: SnapshotDocument = {
+    id: doc.id,
+    metadata: stored.metadata,
+    vector: Array.from(doc.vector),
+    createdAt: stored.createdAt,
+    updatedAt: stored.updatedAt,
+  };
+  if (doc.vectors) {
+    serialized.vectors = doc.vectors.map((v) => Array.from(v));
+  }
+  if (doc.namedVectors) {
+    serialized.namedVectors = Object.fromEntries(
+      Object.entries(doc.namedVectors).map(([name, v]) => [name, Array.from(v)])
+    );
+  }
+  if (doc.sparseVector) {
+    serialized.sparseVector = {
+      indices: Array.from(doc.sparseVector.indices),
+      values: Array.from(doc.sparseVector.values),
+    };
+  }
+  return serialized;
+}
+
+/**
+ * Convert a stored document back to a document that can be written.
+ */
+export function deserializeSnapshotDocument(doc: SnapshotDocument): Document {
+  const deserialized: Document = {
+    id: doc.id,
+    vector: new Float32Array(doc.vector),
+    metadata: doc.metadata,
+  };
+  if (doc.vectors) {
+    deserialized.vectors = doc.vectors.map((v) => new Float32Array(v));
+  }
+  if (doc.namedVectors) {
+    deserialized.namedVectors = Object.fromEntries(
+      Object.entries(doc.namedVectors).map(([name, v]) => [name, new Float32Array(v)])
+    );
+  }
+  if (doc.sparseVector) {
+    deserialized.sparseVector = {
+      indices: new Uint32Array(doc.sparseVector.indices),
+      values: new Float32Array(doc.sparseVector.values),
+    };
+  }
+  return deserialized;
+}
+
+/**
+ * Pick the state of every document changed since a snapshot: the version
+ * with the smallest sequence number at or after it.
+ *
+ * @returns Documents by ID (`null` for documents that did not exist).
+ */
+export function versionsAt(
+  records: StoredDocument[],
+  sequence: number
+): Map<string, SnapshotDocument | null> {
+  const picked = new Map<string, SnapshotVersion>();
+  for (const record of records) {
+    const version = record.metadata as unknown as SnapshotVersion;
+    if (version.sequence < sequence) continue;
+    const current = picked.get(version.docId);
+    if (!current || version.sequence < current.sequence) {
+      picked.set(version.docId, version);
+    }
+  }
+
+  const documents = new Map<string, SnapshotDocument | null>();
+  for (const [docId, version] of picked) {
+    documents.set(docId, version.document);
+  }
+  return documents;
+}
@@ -0,0 +1,207 @@
+/**
+ * Sparse Embedding Functions
+ *
+ * Core embedSparse() and embedManySparse() functions.
+ * These accept SparseEmbeddingModel interface - implementations come
+ * from provider packages (e.g., @localmode/transformers SPLADE).
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  SparseEmbeddingModel,
+  SparseEmbeddingModelFactory,
+  DoEmbedSparseResult,
+  EmbedSparseOptions,
+  EmbedSparseResult,
+  EmbedManySparseOptions,
+  EmbedManySparseResult,
+} from './types.js';
+import type { SparseVector } from '../types.js';
+
+// Global provider for string model ID resolution
+let globalSparseEmbeddingProvider: SparseEmbeddingModelFactory | null = null;
+
+/**
+ * Set the global sparse embedding provider for string model ID resolution.
+ *
+ * @param provider - Factory function to create sparse embedding models from string IDs
+ *
+ * @example
+ * ```ts
+ * import { setGlobalSparseEmbeddingProvider } from '@localmode/core';
+ * import { transformers } from '@localmode/transformers';
+ *
+ * setGlobalSparseEmbeddingProvider((modelId) => transformers.sparseEmbedding(modelId));
+ * ```
+ */
+export function setGlobalSparseEmbeddingProvider(provider: SparseEmbeddingModelFactory | null): void {
+  globalSparseEmbeddingProvider = provider;
+}
+
+/**
+ * Resolve a model from string ID or return the model object.
+ */
+function resolveModel(modelOrId: SparseEmbeddingModel | string): SparseEmbeddingModel {
+  if (typeof modelOrId !== 'string') {
+    return modelOrId;
+  }
+
+  if (!globalSparseEmbeddingProvider) {
+    throw new Error(
+      'No global sparse embedding provider configured. ' +
+        'Either pass a SparseEmbeddingModel object or call setGlobalSparseEmbeddingProvider() first.'
+    );
+  }
+
+  return globalSparseEmbeddingProvider(modelOrId);
+}
+
+/**
+ * Embed a single value into a sparse vector.
+ *
+ * @param options - Sparse embedding options
+ * @returns Promise with the sparse vector, usage, and response information
+ *
+ * @example
+ * ```ts
+ * import { embedSparse } from '@localmode/core';
+ * import { transformers } from '@localmode/transformers';
+ *
+ * const { embedding } = await embedSparse({
+ *   model: transformers.sparseEmbedding('Xenova/splade-cocondenser-ensembledistil'),
+ *   value: 'How do I reset my password?',
+ * });
+ *
+ * const results = await db.searchSparse(embedding, { k: 10 });
+ * ```
+ *
+ * @throws {Error} If embedding fails after all retries
+ * @throws {Error} If aborted via AbortSignal
+ *
+ * @see {@link embedManySparse} for batch embedding
+ */
+export async function embedSparse(options: EmbedSparseOptions): Promise<EmbedSparseResult> {
+  const { model: modelOrId, value, abortSignal, maxRetries = 2, headers, providerOptions } = options;
+
+  // Resolve string model ID to model object
+  const model = resolveModel(modelOrId);
+
+  // Check for cancellation before starting
+  abortSignal?.throwIfAborted();
+
+  const result = await embedSparseWithRetry(model, [value], {
+    abortSignal,
+    maxRetries,
+    headers,
+    providerOptions,
+  });
+
+  return {
+    embedding: result.embeddings[0],
+    usage: result.usage,
+    response: result.response,
+  };
+}
+
+/**
+ * Embed multiple values into sparse vectors.
+ *
+ * Batches requests if the model has a maxEmbeddingsPerCall limit.
+ *
+ * @param options - Batch sparse embedding options
+ * @returns Promise with sparse vectors, usage, and response information
+ *
+ * @example
+ * ```ts
+ * import { embedManySparse } from '@localmode/core';
+ *
+ * const { embeddings } = await embedManySparse({
+ *   model: transformers.sparseEmbedding('Xenova/splade-cocondenser-ensembledistil'),
+ *   values: chunks.map((c) => c.text),
+ * });
+ * ```
+ *
+ * @see {@link embedSparse} for single value embedding
+ */
+export async function embedManySparse(options: EmbedManySparseOptions): Promise<EmbedManySparseResult> {
+  const { model: modelOrId, values, abortSignal, maxRetries = 2, headers, providerOptions } = options;
+
+  // Resolve string model ID to model object
+  const model = resolveModel(modelOrId);
+
+  // Check for cancellation before starting
+  abortSignal?.throwIfAborted();
+
+  const batchSize = model.maxEmbeddingsPerCall ?? values.length;
+  const embeddings: SparseVector[] = [];
+  let totalTokens = 0;
+  let lastResponse = { modelId: model.modelId, timestamp: new Date() };
+
+  for (let i = 0; i < values.length; i += batchSize) {
+    // Check for cancellation before each batch
+    abortSignal?.throwIfAborted();
+
+    const result = await embedSparseWithRetry(model, values.slice(i, i + batchSize), {
+      abortSignal,
+      maxRetries,
+      headers,
+      providerOptions,
+    });
+
+    embeddings.push(...result.embeddings);
+    totalTokens += result.usage.tokens;
+    lastResponse = result.response;
+  }
+
+  return {
+    embeddings,
+    usage: { tokens: totalTokens },
+    response: lastResponse,
+  };
+}
+
+/**
+ * Helper function to embed values with retry logic.
+ */
+async function embedSparseWithRetry(
+  model: SparseEmbeddingModel,
+  values: string[],
+  options: {
+    abortSignal?: AbortSignal;
+    maxRetries: number;
+    headers?: Record<string, string>;
+    providerOptions?: Record<string, Record<string, unknown>>;
+  }
+): Promise<DoEmbedSparseResult> {
+  const { abortSignal, maxRetries, headers, providerOptions } = options;
+
+  let lastError: Error | undefined;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    abortSignal?.throwIfAborted();
+
+    try {
+      return await model.doEmbedSparse({
+        values,
+        abortSignal,
+        headers,
+        providerOptions,
+      });
+    } catch (error) {
+      lastError = error as Error;
+
+      if (abortSignal?.aborted) {
+        throw new Error('Sparse embedding was cancelled', { cause: lastError });
+      }
+
+      if (attempt === maxRetries) {
+        break;
+      }
+    }
+  }
+
+  throw new Error(`Sparse embedding failed after ${maxRetries + 1} attempts`, {
+    cause: lastError,
+  });
+}
@@ -0,0 +1,27 @@
+/**
+ * Sparse Embeddings Domain
+ *
+ * Sparse vectors (e.g. SPLADE), their inverted index and embedding functions.
+ *
+ * @packageDocumentation
+ */
+
+// ═══════════════════════════════════════════════════════════════
+// FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+export {
+  embedSparse,
+  embedManySparse,
+  setGlobalSparseEmbeddingProvider,
+} from './embed-sparse.js';
+
+export { SparseIndex, validateSparseVector, MAX_SPARSE_INDEX } from './sparse-index.js';
+
+// ═══════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type { SparseIndexResult } from './sparse-index.js';
+
+export * from './types.js';
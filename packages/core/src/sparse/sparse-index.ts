@@ -0,0 +1,166 @@
+/**
+ * Inverted index over sparse vectors.
+ *
+ * Each dimension (e.g. a vocabulary term of a SPLADE model) keeps a posting
+ * list of the documents with a non-zero weight in it. A query only visits the
+ * posting lists of its own dimensions and accumulates dot-product scores.
+ *
+ * @packageDocumentation
+ */
+
+import type { SparseVector } from '../types.js';
+import { ValidationError } from '../errors/index.js';
+
+/**
+ * Largest supported dimension index (exclusive). Sparse vectors are stored as
+ * Float32 values, which represent integers exactly up to 2^24.
+ */
+export const MAX_SPARSE_INDEX = 2 ** 24;
+
+/**
+ * A document matched by a sparse search.
+ */
+export interface SparseIndexResult {
+  id: string;
+  /** Dot product of the query and document vectors */
+  score: number;
+}
+
+/**
+ * Check that a value is a well-formed sparse vector.
+ *
+ * @param vector - The value to check
+ * @param label - What the vector belongs to, used in error messages
+ * @throws {ValidationError} If the arrays have the wrong type or length, or an index is out of range.
+ */
+export function validateSparseVector(vector: SparseVector, label = 'Sparse vector'): void {
+  if (!(vector?.indices instanceof Uint32Array) || !(vector.values instanceof Float32Array)) {
+    throw new ValidationError(
+      `${label} must have Uint32Array indices and Float32Array values`,
+      'Pass { indices: new Uint32Array([...]), values: new Float32Array([...]) }.'
+    );
+  }
+  if (vector.indices.length !== vector.values.length) {
+    throw new ValidationError(
+      `${label} has ${vector.indices.length} indices but ${vector.values.length} values`,
+      'Each index needs exactly one value.'
+    );
+  }
+  for (const index of vector.indices) {
+    if (index >= MAX_SPARSE_INDEX) {
+      throw new ValidationError(
+        `${label} has index ${index}, the maximum is ${MAX_SPARSE_INDEX - 1}`,
+        'Sparse dimensions are vocabulary or feature IDs; hash larger feature spaces down first.'
+      );
+    }
+  }
+}
+
+/**
+ * In-memory inverted index for sparse vector search.
+ *
+ * @example
+ * ```ts
+ * const index = new SparseIndex();
+ * index.add('doc1', { indices: new Uint32Array([3, 17]), values: new Float32Array([0.8, 1.2]) });
+ *
+ * const results = index.search(queryVector, 10);
+ * ```
+ */
+export class SparseIndex {
+  /** Dimension → (document ID → weight) */
+  private postings = new Map<number, Map<string, number>>();
+  private vectors = new Map<string, SparseVector>();
+
+  /** Number of indexed documents */
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  /**
+   * Add or replace the vector of a document.
+   */
+  add(id: string, vector: SparseVector): void {
+    this.delete(id);
+    this.vectors.set(id, vector);
+
+    for (let i = 0; i < vector.indices.length; i++) {
+      const dimension = vector.indices[i];
+      let posting = this.postings.get(dimension);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(dimension, posting);
+      }
+      posting.set(id, (posting.get(id) ?? 0) + vector.values[i]);
+    }
+  }
+
+  /**
+   * Remove a document from the index.
+   *
+   * @returns Whether the document was indexed.
+   */
+  delete(id: string): boolean {
+    const vector = this.vectors.get(id);
+    if (!vector) return false;
+
+    for (const dimension of vector.indices) {
+      const posting = this.postings.get(dimension);
+      if (!posting) continue;
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(dimension);
+      }
+    }
+    this.vectors.delete(id);
+    return true;
+  }
+
+  /** Whether a document is indexed */
+  has(id: string): boolean {
+    return this.vectors.has(id);
+  }
+
+  /** The indexed vector of a document */
+  get(id: string): SparseVector | undefined {
+    return this.vectors.get(id);
+  }
+
+  /** Remove all documents */
+  clear(): void {
+    this.postings.clear();
+    this.vectors.clear();
+  }
+
+  /**
+   * Find the documents with the highest dot product with the query.
+   * Documents sharing no dimension with the query are never returned.
+   *
+   * @param query - Query vector
+   * @param k - Maximum number of results
+   * @param options - `filter` restricts results to an allow-list of IDs
+   */
+  search(
+    query: SparseVector,
+    k: number,
+    options?: { filter?: ReadonlySet<string> }
+  ): SparseIndexResult[] {
+    const filter = options?.filter;
+    const scores = new Map<string, number>();
+
+    for (let i = 0; i < query.indices.length; i++) {
+      const posting = this.postings.get(query.indices[i]);
+      if (!posting) continue;
+
+      const weight = query.values[i];
+      for (const [id, value] of posting) {
+        if (filter && !filter.has(id)) continue;
+        scores.set(id, (scores.get(id) ?? 0) + weight * value);
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Helpers for storing sparse vectors.
+ *
+ * A document's sparse vector is stored as an ordinary vector record under a
+ * companion collection ID, with an ID derived from the document ID. The
+ * record holds the indices followed by the values, both as Float32, so every
+ * storage adapter can keep it without changes.
+ */
+
+import type { SparseVector } from '../types.js';
+
+/** Separates the document ID from the suffix in stored sparse vector IDs. */
+const SEPARATOR = '\u001f';
+
+/**
+ * Build the stored vector ID of a document's sparse vector.
+ */
+export function sparseVectorId(docId: string): string {
+  return `${docId}${SEPARATOR}sparse`;
+}
+
+/**
+ * Recover the document ID from a stored sparse vector ID.
+ */
+export function docIdOfSparseVector(id: string): string {
+  const at = id.lastIndexOf(`${SEPARATOR}sparse`);
+  return at === -1 ? id : id.slice(0, at);
+}
+
+/**
+ * Collection ID under which a collection's sparse vectors are stored.
+ */
+export function sparseCollectionId(collectionId: string): string {
+  return `${collectionId}${SEPARATOR}sparse`;
+}
+
+/**
+ * Pack a sparse vector into a single Float32Array for storage.
+ */
+export function encodeSparseVector(vector: SparseVector): Float32Array {
+  const n = vector.indices.length;
+  const packed = new Float32Array(n * 2);
+  packed.set(vector.indices);
+  packed.set(vector.values, n);
+  return packed;
+}
+
+/**
+ * Unpack a sparse vector written by {@link encodeSparseVector}.
+ */
+export function decodeSparseVector(packed: ArrayLike<number>): SparseVector {
+  const n = packed.length / 2;
+  const indices = new Uint32Array(n);
+  const values = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    indices[i] = packed[i];
+    values[i] = packed[n + i];
+  }
+  return { indices, values };
+}
@@ -0,0 +1,206 @@
+/**
+ * Sparse Embeddings Domain Types
+ *
+ * Interfaces for models that produce sparse vectors, such as SPLADE. A sparse
+ * vector has one dimension per vocabulary term and only a few non-zero
+ * weights, so it behaves like a learned keyword index: exact term matches
+ * count, and the model adds weight to related terms that never appear in the
+ * text.
+ *
+ * @packageDocumentation
+ */
+
+import type { SparseVector } from '../types.js';
+import type { EmbeddingUsage, EmbeddingResponse } from '../embeddings/types.js';
+
+// Re-export SparseVector so consumers can import it from the sparse domain
+export type { SparseVector } from '../types.js';
+
+// ═══════════════════════════════════════════════════════════════
+// SPARSE EMBEDDING MODEL INTERFACE
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Interface for sparse embedding models (e.g., SPLADE).
+ * Implement this to create custom sparse embedding providers.
+ *
+ * @example Usage with SPLADE
+ * ```ts
+ * import { embedSparse } from '@localmode/core';
+ * import { transformers } from '@localmode/transformers';
+ *
+ * const model = transformers.sparseEmbedding('Xenova/splade-cocondenser-ensembledistil');
+ *
+ * const { embedding } = await embedSparse({ model, value: 'How do I reset my password?' });
+ * await db.add({ id: 'faq-1', vector: denseVector, sparseVector: embedding });
+ * ```
+ *
+ * @see {@link embedSparse} - Embed a single value
+ * @see {@link embedManySparse} - Embed multiple values
+ */
+export interface SparseEmbeddingModel {
+  /** Unique identifier for this model (e.g., 'transformers:Xenova/splade-cocondenser-ensembledistil') */
+  readonly modelId: string;
+
+  /** Provider name (e.g., 'transformers', 'custom') */
+  readonly provider: string;
+
+  /** Size of the sparse space, usually the vocabulary size */
+  readonly dimensions: number;
+
+  /** Maximum values per doEmbedSparse call (undefined = no limit) */
+  readonly maxEmbeddingsPerCall: number | undefined;
+
+  /** Whether parallel doEmbedSparse calls are supported */
+  readonly supportsParallelCalls: boolean;
+
+  /**
+   * Generate sparse embeddings for the given values.
+   *
+   * @param options - Embedding options
+   * @returns Promise with sparse embeddings, usage, and response info
+   */
+  doEmbedSparse(options: DoEmbedSparseOptions): Promise<DoEmbedSparseResult>;
+}
+
+/**
+ * Options passed to SparseEmbeddingModel.doEmbedSparse()
+ */
+export interface DoEmbedSparseOptions {
+  /** Values to embed */
+  values: string[];
+
+  /** AbortSignal for cancellation */
+  abortSignal?: AbortSignal;
+
+  /** Custom headers to include in requests */
+  headers?: Record<string, string>;
+
+  /** Provider-specific options */
+  providerOptions?: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Result from SparseEmbeddingModel.doEmbedSparse()
+ */
+export interface DoEmbedSparseResult {
+  /** Generated sparse embeddings (one per input value) */
+  embeddings: SparseVector[];
+
+  /** Token usage information */
+  usage: EmbeddingUsage;
+
+  /** Response metadata */
+  response: EmbeddingResponse;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// EMBED SPARSE FUNCTION OPTIONS & RESULTS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Options for the embedSparse() function.
+ *
+ * @example
+ * ```ts
+ * const { embedding } = await embedSparse({
+ *   model: transformers.sparseEmbedding('Xenova/splade-cocondenser-ensembledistil'),
+ *   value: 'Hello world',
+ *   maxRetries: 3,
+ * });
+ * ```
+ */
+export interface EmbedSparseOptions {
+  /** The sparse embedding model to use (model object or string model ID) */
+  model: SparseEmbeddingModel | string;
+
+  /** The value to embed */
+  value: string;
+
+  /** AbortSignal for cancellation */
+  abortSignal?: AbortSignal;
+
+  /** Maximum retry attempts (default: 2) */
+  maxRetries?: number;
+
+  /** Custom headers to include in requests */
+  headers?: Record<string, string>;
+
+  /** Provider-specific options */
+  providerOptions?: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Result from the embedSparse() function.
+ */
+export interface EmbedSparseResult {
+  /** The generated sparse vector */
+  embedding: SparseVector;
+
+  /** Token usage information */
+  usage: EmbeddingUsage;
+
+  /** Response metadata */
+  response: EmbeddingResponse;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// EMBED MANY SPARSE FUNCTION OPTIONS & RESULTS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Options for the embedManySparse() function.
+ *
+ * @example
+ * ```ts
+ * const { embeddings } = await embedManySparse({
+ *   model: transformers.sparseEmbedding('Xenova/splade-cocondenser-ensembledistil'),
+ *   values: ['Hello', 'World'],
+ * });
+ * ```
+ */
+export interface EmbedManySparseOptions {
+  /** The sparse embedding model to use (model object or string model ID) */
+  model: SparseEmbeddingModel | string;
+
+  /** The values to embed */
+  values: string[];
+
+  /** AbortSignal for cancellation */
+  abortSignal?: AbortSignal;
+
+  /** Maximum retry attempts per batch (default: 2) */
+  maxRetries?: number;
+
+  /** Custom headers to include in requests */
+  headers?: Record<string, string>;
+
+  /** Provider-specific options */
+  providerOptions?: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Result from the embedManySparse() function.
+ */
+export interface EmbedManySparseResult {
+  /** The generated sparse vectors (one per input value) */
+  embeddings: SparseVector[];
+
+  /** Token usage information (combined for all embeddings) */
+  usage: EmbeddingUsage;
+
+  /** Response metadata */
+  response: EmbeddingResponse;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// FACTORY TYPES
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Factory function type for creating sparse embedding models.
+ */
+export type SparseEmbeddingModelFactory = (
+  modelId: string,
+  settings?: Record<string, unknown>
+) => SparseEmbeddingModel;
@@ -0,0 +1,192 @@
+/**
+ * Collection records.
+ *
+ * Storage adapters keep collections as plain records: typed arrays become
+ * number arrays so a record survives IndexedDB, localforage drivers and
+ * JSON alike. Adapters should store every field of the record, so settings
+ * that VectorDB keeps on the collection are still there after a reopen.
+ */
+
+import type { Collection } from '../types.js';
+import type { ScalarCalibrationData, PQCodebook } from '../quantization/types.js';
+import type { CollectionRecord, PQCodebookRecord } from './schema.js';
+
+/**
+ * Serialize calibration data (Float32Array -> number[]).
+ */
+function toCalibrationRecord(calibration: ScalarCalibrationData): { min: number[]; max: number[] } {
+  return { min: Array.from(calibration.min), max: Array.from(calibration.max) };
+}
+
+/**
+ * Deserialize calibration data (number[] -> Float32Array).
+ */
+function fromCalibrationRecord(record: { min: number[]; max: number[] }): ScalarCalibrationData {
+  return { min: new Float32Array(record.min), max: new Float32Array(record.max) };
+}
+
+/**
+ * Serialize a PQ codebook: Float32Array[][] -> number[][][].
+ */
+function toCodebookRecord({ subvectors, centroids, subvectorDim, codebook }: PQCodebook): PQCodebookRecord {
+  const data: number[][][] = new Array(subvectors);
+  for (let p = 0; p < subvectors; p++) {
+    data[p] = new Array(centroids);
+    for (let c = 0; c < centroids; c++) {
+      data[p][c] = Array.from(codebook[p][c]);
+    }
+  }
+  return { subvectors, centroids, subvectorDim, data };
+}
+
+/**
+ * Deserialize a PQ codebook: number[][][] -> Float32Array[][].
+ */
+function fromCodebookRecord({ subvectors, centroids, subvectorDim, data }: PQCodebookRecord): PQCodebook {
+  const codebook: Float32Array[][] = new Array(subvectors);
+  for (let p = 0; p < subvectors; p++) {
+    codebook[p] = new Array(centroids);
+    for (let c = 0; c < centroids; c++) {
+      codebook[p][c] = new Float32Array(data[p][c]);
+    }
+  }
+  return { subvectors, centroids, subvectorDim, codebook };
+}
+
+/**
+ * Convert a collection to the record storage adapters persist.
+ *
+ * @param collection - Collection to store
+ * @returns A record without typed arrays
+ */
+export function serializeCollection(collection: Collection): CollectionRecord {
+  const record: CollectionRecord = {
+    id: collection.id,
+    name: collection.name,
+    dimensions: collection.dimensions,
+    createdAt: collection.createdAt,
+  };
+
+  if (collection.calibration) {
+    record.calibration = toCalibrationRecord(collection.calibration);
+  }
+
+  if (collection.modelFingerprint) {
+    record.modelFingerprint = { ...collection.modelFingerprint };
+  }
+
+  if (collection.pqCodebook) {
+    record.pqCodebook = toCodebookRecord(collection.pqCodebook);
+  }
+
+  if (collection.binaryQuantization) {
+    record.binaryQuantization = true;
+  }
+
+  if (collection.compressionCalibration) {
+    record.compressionCalibration = toCalibrationRecord(collection.compressionCalibration);
+  }
+
+  if (collection.deltaCalibration) {
+    record.deltaCalibration = toCalibrationRecord(collection.deltaCalibration);
+  }
+
+  if (collection.compression) {
+    record.compression = { ...collection.compression };
+  }
+
+  if (collection.indexedFields) {
+    record.indexedFields = [...collection.indexedFields];
+  }
+
+  if (collection.keywordIndex) {
+    record.keywordIndex = { ...collection.keywordIndex };
+  }
+
+  if (collection.indexType) {
+    record.indexType = collection.indexType;
+  }
+
+  if (collection.snapshots) {
+    record.snapshots = collection.snapshots.map((snapshot) => ({ ...snapshot }));
+  }
+
+  if (collection.ivf) {
+    const { fingerprint, centroids, codebook } = collection.ivf;
+    record.ivf = { fingerprint, centroids: centroids.map((centroid) => Array.from(centroid)) };
+    if (codebook) {
+      record.ivf.codebook = toCodebookRecord(codebook);
+    }
+  }
+
+  return record;
+}
+
+/**
+ * Convert a stored record back to a collection.
+ *
+ * @param record - Record written by {@link serializeCollection}
+ * @returns The collection, with typed arrays restored
+ */
+export function deserializeCollection(record: CollectionRecord): Collection {
+  const collection: Collection = {
+    id: record.id,
+    name: record.name,
+    dimensions: record.dimensions,
+    createdAt: record.createdAt,
+  };
+
+  if (record.calibration) {
+    collection.calibration = fromCalibrationRecord(record.calibration);
+  }
+
+  if (record.modelFingerprint) {
+    collection.modelFingerprint = { ...record.modelFingerprint };
+  }
+
+  if (record.pqCodebook) {
+    collection.pqCodebook = fromCodebookRecord(record.pqCodebook);
+  }
+
+  if (record.binaryQuantization) {
+    collection.binaryQuantization = true;
+  }
+
+  if (record.compressionCalibration) {
+    collection.compressionCalibration = fromCalibrationRecord(record.compressionCalibration);
+  }
+
+  if (record.deltaCalibration) {
+    collection.deltaCalibration = fromCalibrationRecord(record.deltaCalibration);
+  }
+
+  if (record.compression) {
+    collection.compression = { ...record.compression };
+  }
+
+  if (record.indexedFields) {
+    collection.indexedFields = [...record.indexedFields];
+  }
+
+  if (record.keywordIndex) {
+    collection.keywordIndex = { ...record.keywordIndex };
+  }
+
+  if (record.indexType) {
+    collection.indexType = record.indexType;
+  }
+
+  if (record.snapshots) {
+    collection.snapshots = record.snapshots.map((snapshot) => ({ ...snapshot }));
+  }
+
+  if (record.ivf) {
+    const { fingerprint, centroids, codebook } = record.ivf;
+    collection.ivf = { fingerprint, centroids: centroids.map((centroid) => new Float32Array(centroid)) };
+    if (codebook) {
+      collection.ivf.codebook = fromCodebookRecord(codebook);
+    }
+  }
+
+  return collection;
+}
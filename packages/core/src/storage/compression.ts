@@ -16,7 +16,8 @@
  */
 
 import { calibrate, scalarQuantize, scalarDequantize } from '../quantization/scalar.js';
-import type { ScalarCalibrationData } from '../quantization/types.js';
+import { binaryCodeLength } from '../quantization/binary.js';
+import type { ScalarCalibrationData, QuantizationConfig } from '../quantization/types.js';
 import type { VectorDB, Collection } from '../types.js';
 import type { StorageAdapter } from './types.js';
 import type { IndexedDBStorage } from './indexeddb.js';
@@ -83,8 +84,8 @@ export interface CompressionStats {
   /** Whether compression is active on the collection */
   enabled: boolean;
 
-  /** Compression mode */
-  type: 'sq8' | 'delta-sq8' | 'none';
+  /** Compression mode ('binary' when binary quantization is enabled) */
+  type: 'sq8' | 'delta-sq8' | 'binary' | 'none';
 
   /** Number of stored vectors */
   vectorCount: number;
@@ -100,6 +101,32 @@ export interface CompressionStats {
 
   /** Vector dimensions */
   dimensions: number;
+
+  /**
+   * Estimated recall@k of search against exact search over the
+   * full-precision vectors. Only reported for binary quantization with
+   * `rescore` enabled, since the full-precision vectors are needed to
+   * measure it.
+   */
+  recall?: number;
+}
+
+/**
+ * Options for {@link getCompressionStats}.
+ */
+export interface CompressionStatsOptions {
+  /**
+   * Number of stored documents used as queries when estimating recall.
+   * Each one is compared against every stored vector.
+   * @default 20
+   */
+  recallSamples?: number;
+
+  /**
+   * Number of results whose overlap with the exact results is measured.
+   * @default 10
+   */
+  recallK?: number;
 }
 
 // ─── Compression Functions ──────────────────────────────────────────
@@ -312,9 +339,12 @@ function decompressDeltaSQ8(
  * Get storage compression statistics for a VectorDB collection.
  *
  * Returns information about disk usage savings from storage compression,
- * including original vs compressed size and compression ratio.
+ * including original vs compressed size and compression ratio. With binary
+ * quantization, reports the 1-bit-per-dimension codes instead, and with
+ * rescoring also estimates the recall of search.
  *
  * @param db - The VectorDB instance to get statistics for.
+ * @param options - Recall estimation settings.
  * @returns Compression statistics for the collection.
  *
  * @example
@@ -336,14 +366,19 @@ function decompressDeltaSQ8(
  *
  * @see {@link CompressionStats} for the returned statistics shape
  */
-export async function getCompressionStats(db: VectorDB): Promise<CompressionStats> {
+export async function getCompressionStats(
+  db: VectorDB,
+  options?: CompressionStatsOptions,
+): Promise<CompressionStats> {
   // Access the internal VectorDB implementation
   const dbImpl = db as unknown as {
     getCollectionName: () => string;
     getCollectionId: () => string;
     getStorage: () => IndexedDBStorage | MemoryStorage | StorageAdapter;
+    estimateRecall: (samples: number, k: number) => Promise<number | undefined>;
     dimensions: number;
     compressionConfig?: CompressionConfig;
+    quantizationConfig?: QuantizationConfig;
   };
 
   const storage = dbImpl.getStorage() as {
@@ -360,11 +395,34 @@ export async function getCompressionStats(db: VectorDB): Promise<CompressionStat
     ? await storage.countDocuments(collectionId)
     : 0;
 
+  const originalSizeBytes = vectorCount * dimensions * 4;
+
+  // Binary quantization stores 1 bit per dimension
+  if (dbImpl.quantizationConfig?.type === 'binary') {
+    const compressedSizeBytes = vectorCount * binaryCodeLength(dimensions);
+    const recall = await dbImpl.estimateRecall(
+      options?.recallSamples ?? 20,
+      options?.recallK ?? 10,
+    );
+
+    return {
+      enabled: true,
+      type: 'binary',
+      vectorCount,
+      originalSizeBytes,
+      compressedSizeBytes,
+      ratio: compressedSizeBytes > 0
+        ? originalSizeBytes / compressedSizeBytes
+        : 1.0,
+      dimensions,
+      ...(recall !== undefined && { recall }),
+    };
+  }
+
   // Determine compression type from config or collection metadata
   const compressionType = dbImpl.compressionConfig?.type ?? 'none';
   const enabled = compressionType !== 'none';
 
-  const originalSizeBytes = vectorCount * dimensions * 4;
   // SQ8 and delta-SQ8 both store 1 byte per dimension
   const compressedSizeBytes = enabled
     ? vectorCount * dimensions * 1
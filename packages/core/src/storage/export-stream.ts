@@ -0,0 +1,348 @@
+/**
+ * Export Stream Format
+ *
+ * Chunked format written by `VectorDB.exportStream()` and read by
+ * `importStream()`, so collections larger than memory move in batches. The
+ * stream is a sequence of frames, each a line of JSON; a `batch` line is
+ * followed by a binary payload of `bytes` bytes:
+ *
+ * ```
+ * {"type":"header","format":"localmode-vectordb","version":1,"documents":2}
+ * {"type":"collection","name":"default","dimensions":3,"documents":2}
+ * {"type":"batch","documents":[{"id":"a","vector":3},{"id":"b","vector":3}],"bytes":24}
+ * <24 bytes: float32 values, little-endian>
+ * {"type":"end","documents":2}
+ * ```
+ *
+ * In a batch line, each vector is replaced by its length, and the values
+ * follow the line in document order: `vector`, each of `vectors`, then each
+ * of `namedVectors` in key order. Sparse vectors stay in the JSON.
+ *
+ * @packageDocumentation
+ */
+
+import { ParseError } from '../errors/index.js';
+import type { KeywordIndexFingerprint } from '../rag/stored-keywords.js';
+
+/** Value of `format` in the header frame. */
+const FORMAT = 'localmode-vectordb';
+
+/** Version of the format written by this module. */
+const VERSION = 1;
+
+/** Line feed, which ends every JSON line. */
+const NEWLINE = 0x0a;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * A document in an export, with its vectors as `TVector`: arrays of numbers
+ * in `export()`, `Float32Array`s in a stream.
+ */
+export interface ExportedDocument<TVector = number[]> {
+  id: string;
+  metadata?: Record<string, unknown>;
+  vector?: TVector;
+  vectors?: TVector[];
+  namedVectors?: Record<string, TVector>;
+  sparseVector?: { indices: number[]; values: number[] };
+  keywordTokens?: string[];
+}
+
+/**
+ * A collection in an export.
+ */
+export interface ExportedCollection {
+  name: string;
+  dimensions: number;
+  keywordIndex?: KeywordIndexFingerprint;
+}
+
+/**
+ * A decoded frame of an export stream.
+ */
+export type ExportStreamFrame =
+  | { type: 'header'; documents: number }
+  | { type: 'collection'; collection: ExportedCollection; documents: number }
+  | { type: 'batch'; documents: ExportedDocument<Float32Array>[] }
+  | { type: 'end'; documents: number };
+
+/**
+ * A document in a batch line, with each vector replaced by its length.
+ */
+interface BatchEntry extends Omit<ExportedDocument, 'vector' | 'vectors' | 'namedVectors'> {
+  vector?: number;
+  vectors?: number[];
+  namedVectors?: Record<string, number>;
+}
+
+/**
+ * Encode a line of JSON.
+ */
+function encodeLine(value: unknown): Uint8Array {
+  return encoder.encode(`${JSON.stringify(value)}\n`);
+}
+
+/**
+ * Encode one frame of an export stream.
+ *
+ * @example
+ * ```typescript
+ * controller.enqueue(encodeExportFrame({ type: 'header', documents: 100 }));
+ * ```
+ */
+export function encodeExportFrame(frame: ExportStreamFrame): Uint8Array {
+  switch (frame.type) {
+    case 'header':
+      return encodeLine({ type: 'header', format: FORMAT, version: VERSION, documents: frame.documents });
+    case 'collection':
+      return encodeLine({ type: 'collection', ...frame.collection, documents: frame.documents });
+    case 'end':
+      return encodeLine(frame);
+    case 'batch':
+      return encodeBatch(frame.documents);
+  }
+}
+
+/**
+ * Encode a batch line followed by the values of its vectors.
+ */
+function encodeBatch(documents: ExportedDocument<Float32Array>[]): Uint8Array {
+  const vectors: Float32Array[] = [];
+  const entries = documents.map((doc) => {
+    const { vector, vectors: subVectors, namedVectors, ...rest } = doc;
+    const entry: BatchEntry = rest;
+    if (vector) {
+      entry.vector = vector.length;
+      vectors.push(vector);
+    }
+    if (subVectors) {
+      entry.vectors = subVectors.map((v) => v.length);
+      vectors.push(...subVectors);
+    }
+    if (namedVectors) {
+      entry.namedVectors = {};
+      for (const [name, v] of Object.entries(namedVectors)) {
+        entry.namedVectors[name] = v.length;
+        vectors.push(v);
+      }
+    }
+    return entry;
+  });
+
+  let bytes = 0;
+  for (const v of vectors) bytes += v.byteLength;
+  const line = encodeLine({ type: 'batch', documents: entries, bytes });
+
+  const frame = new Uint8Array(line.byteLength + bytes);
+  frame.set(line);
+  let offset = line.byteLength;
+  for (const v of vectors) {
+    frame.set(new Uint8Array(v.buffer, v.byteOffset, v.byteLength), offset);
+    offset += v.byteLength;
+  }
+  return frame;
+}
+
+/**
+ * Decode the entries of a batch line and the values that follow it.
+ */
+function decodeBatch(entries: BatchEntry[], payload: Uint8Array): ExportedDocument<Float32Array>[] {
+  const values =
+    payload.byteOffset % 4 === 0
+      ? new Float32Array(payload.buffer, payload.byteOffset, payload.byteLength / 4)
+      : new Float32Array(payload.slice().buffer);
+  let offset = 0;
+  const take = (length: number): Float32Array => {
+    if (!Number.isInteger(length) || length < 0 || offset + length > values.length) {
+      throw new ParseError('Export stream batch is shorter than its vectors.', {
+        hint: 'The stream is corrupted or was cut short.',
+      });
+    }
+    offset += length;
+    return values.subarray(offset - length, offset);
+  };
+
+  return entries.map((entry) => {
+    const { vector, vectors, namedVectors, ...rest } = entry;
+    const doc: ExportedDocument<Float32Array> = rest;
+    if (vector !== undefined) doc.vector = take(vector);
+    if (vectors) doc.vectors = vectors.map(take);
+    if (namedVectors) {
+      doc.namedVectors = {};
+      for (const [name, length] of Object.entries(namedVectors)) {
+        doc.namedVectors[name] = take(length);
+      }
+    }
+    return doc;
+  });
+}
+
+/**
+ * Bytes received from a stream and not yet consumed.
+ */
+class ByteQueue {
+  private chunks: Uint8Array[] = [];
+  /** Bytes of the first chunk already consumed. */
+  private head = 0;
+  length = 0;
+
+  push(chunk: Uint8Array): void {
+    if (chunk.byteLength === 0) return;
+    this.chunks.push(chunk);
+    this.length += chunk.byteLength;
+  }
+
+  /**
+   * Number of bytes up to and including the first line feed, or -1 if there is none.
+   */
+  lineLength(): number {
+    let seen = 0;
+    for (let i = 0; i < this.chunks.length; i++) {
+      const start = i === 0 ? this.head : 0;
+      const at = this.chunks[i].indexOf(NEWLINE, start);
+      if (at !== -1) return seen + at - start + 1;
+      seen += this.chunks[i].byteLength - start;
+    }
+    return -1;
+  }
+
+  /**
+   * Remove and return the first `length` bytes.
+   */
+  take(length: number): Uint8Array {
+    const first = this.chunks[0];
+    if (first && first.byteLength - this.head >= length) {
+      // Within the first chunk: no copy
+      const bytes = first.subarray(this.head, this.head + length);
+      this.consume(length);
+      return bytes;
+    }
+
+    const bytes = new Uint8Array(length);
+    let filled = 0;
+    while (filled < length) {
+      const chunk = this.chunks[0];
+      const count = Math.min(chunk.byteLength - this.head, length - filled);
+      bytes.set(chunk.subarray(this.head, this.head + count), filled);
+      filled += count;
+      this.consume(count);
+    }
+    return bytes;
+  }
+
+  private consume(length: number): void {
+    this.length -= length;
+    this.head += length;
+    while (this.chunks.length > 0 && this.head >= this.chunks[0].byteLength) {
+      this.head -= this.chunks[0].byteLength;
+      this.chunks.shift();
+    }
+  }
+}
+
+/**
+ * Parse a JSON line of an export stream.
+ */
+function parseLine(bytes: Uint8Array): Record<string, unknown> {
+  try {
+    const value: unknown = JSON.parse(decoder.decode(bytes));
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return value as Record<string, unknown>;
+    }
+  } catch (error) {
+    throw new ParseError('Export stream contains a line that is not valid JSON.', {
+      hint: 'Pass a stream written by exportStream().',
+      cause: error as Error,
+    });
+  }
+  throw new ParseError('Export stream contains a line that is not a frame.', {
+    hint: 'Pass a stream written by exportStream().',
+  });
+}
+
+/**
+ * Read the frames of an export stream as they arrive.
+ *
+ * @param stream - Bytes written by `exportStream()`
+ * @throws {ParseError} If the stream is not an export stream, uses a newer
+ * version of the format, or ends before its `end` frame
+ *
+ * @example
+ * ```typescript
+ * for await (const frame of readExportStream(stream)) {
+ *   if (frame.type === 'batch') console.log(frame.documents.length);
+ * }
+ * ```
+ */
+export async function* readExportStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<ExportStreamFrame> {
+  const reader = stream.getReader();
+  const queue = new ByteQueue();
+  let done = false;
+  let started = false;
+
+  /** Read until the queue holds `length` bytes, or the stream ends. */
+  const fill = async (length: () => number): Promise<boolean> => {
+    while (length() === -1 || queue.length < length()) {
+      if (done) return false;
+      const result = await reader.read();
+      if (result.done) done = true;
+      else queue.push(result.value);
+    }
+    return true;
+  };
+
+  try {
+    while (await fill(() => queue.lineLength())) {
+      const line = parseLine(queue.take(queue.lineLength()));
+
+      if (!started) {
+        if (line.type !== 'header' || line.format !== FORMAT) {
+          throw new ParseError('Stream is not a VectorDB export stream.', {
+            hint: 'Pass a stream written by exportStream(). Use import() for export() files.',
+          });
+        }
+        if (typeof line.version !== 'number' || line.version > VERSION) {
+          throw new ParseError(`Export stream version ${String(line.version)} is not supported.`, {
+            hint: 'Update @localmode/core to read streams from newer versions.',
+          });
+        }
+        started = true;
+        yield { type: 'header', documents: Number(line.documents) || 0 };
+        continue;
+      }
+
+      const bytes = typeof line.bytes === 'number' ? line.bytes : 0;
+      if (!(await fill(() => bytes))) break;
+      const payload = queue.take(bytes);
+
+      switch (line.type) {
+        case 'collection': {
+          const { type: _type, documents, ...collection } = line;
+          yield {
+            type: 'collection',
+            collection: collection as unknown as ExportedCollection,
+            documents: Number(documents) || 0,
+          };
+          break;
+        }
+        case 'batch':
+          yield { type: 'batch', documents: decodeBatch(line.documents as BatchEntry[], payload) };
+          break;
+        case 'end':
+          yield { type: 'end', documents: Number(line.documents) || 0 };
+          return;
+        default:
+          // Frames of later minor versions are skipped
+          break;
+      }
+    }
+
+    throw new ParseError(started ? 'Export stream ended early.' : 'Export stream is empty.', {
+      hint: 'The stream was cut short; export it again.',
+    });
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -6,6 +6,25 @@ export { IndexedDBStorage } from './indexeddb.js';
 export { MemoryStorage } from './memory.js';
 export { type StorageAdapter } from './types.js';
 export * from './schema.js';
+export {
+  extractIndexEntries,
+  encodeIndexValue,
+  indexEntryKey,
+  toIndexKeyRanges,
+  toIndexScanRanges,
+  toIndexScanEntry,
+  matchesIndexQuery,
+  compareIndexKeys,
+  isKeyInRange,
+  type IndexableValue,
+  type MetadataIndexEntry,
+  type MetadataIndexQuery,
+  type MetadataIndexScanOptions,
+  type MetadataIndexScanEntry,
+  type EncodedIndexValue,
+  type IndexKeyRange,
+} from './metadata-index.js';
+export { serializeCollection, deserializeCollection } from './collection-record.js';
 export {
   WAL,
   WAL_STORE_NAME,
@@ -32,6 +51,7 @@ export {
   type CompressedVectorBlock,
   type CompressionConfig,
   type CompressionStats,
+  type CompressionStatsOptions,
 } from './compression.js';
 
 import { IndexedDBStorage } from './indexeddb.js';
@@ -9,8 +9,20 @@ import {
   type VectorRecord,
   type IndexRecord,
   type CollectionRecord,
+  type MetadataIndexRecord,
 } from './schema.js';
+import {
+  indexEntryKey,
+  toIndexKeyRanges,
+  toIndexScanRanges,
+  toIndexScanEntry,
+  type MetadataIndexEntry,
+  type MetadataIndexQuery,
+  type MetadataIndexScanOptions,
+  type MetadataIndexScanEntry,
+} from './metadata-index.js';
 import { runMigrations, getCurrentVersion } from './migrations.js';
+import { serializeCollection, deserializeCollection } from './collection-record.js';
 import { WAL, WAL_STORE_NAME, createReplayExecutor } from './wal.js';
 
 export class IndexedDBStorage {
@@ -191,6 +203,45 @@ export class IndexedDBStorage {
     });
   }
 
+  async getDocumentPage(collectionId: string, after: string | null, limit: number): Promise<StoredDocument[]> {
+    const db = this.ensureOpen();
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAMES.DOCUMENTS, 'readonly');
+      const index = tx.objectStore(STORE_NAMES.DOCUMENTS).index('collectionId');
+      const request = index.openCursor(IDBKeyRange.only(collectionId));
+      const docs: StoredDocument[] = [];
+      let positioned = after === null;
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        // Entries of one key are in primary key order, so jump to `after`
+        if (!positioned) {
+          positioned = true;
+          if (cursor.primaryKey < after!) {
+            cursor.continuePrimaryKey(collectionId, after!);
+            return;
+          }
+        }
+        if (cursor.primaryKey !== after) {
+          const r = cursor.value as DocumentRecord;
+          docs.push({
+            id: r.id,
+            collectionId: r.collectionId,
+            metadata: r.metadata,
+            createdAt: r.createdAt,
+            updatedAt: r.updatedAt,
+          });
+        }
+        if (docs.length < limit) cursor.continue();
+      };
+
+      tx.onerror = () => reject(tx.error);
+      tx.oncomplete = () => resolve(docs);
+    });
+  }
+
   async countDocuments(collectionId: string): Promise<number> {
     const db = this.ensureOpen();
 
@@ -340,120 +391,9 @@ export class IndexedDBStorage {
   // Collection Operations
   // ============================================
 
-  /**
-   * Convert a CollectionRecord to a Collection, deserializing calibration data.
-   */
-  private collectionFromRecord(record: CollectionRecord): Collection {
-    const collection: Collection = {
-      id: record.id,
-      name: record.name,
-      dimensions: record.dimensions,
-      createdAt: record.createdAt,
-    };
-
-    if (record.calibration) {
-      collection.calibration = {
-        min: new Float32Array(record.calibration.min),
-        max: new Float32Array(record.calibration.max),
-      };
-    }
-
-    if (record.modelFingerprint) {
-      collection.modelFingerprint = { ...record.modelFingerprint };
-    }
-
-    // Deserialize compression calibration
-    if (record.compressionCalibration) {
-      collection.compressionCalibration = {
-        min: new Float32Array(record.compressionCalibration.min),
-        max: new Float32Array(record.compressionCalibration.max),
-      };
-    }
-
-    // Deserialize delta calibration
-    if (record.deltaCalibration) {
-      collection.deltaCalibration = {
-        min: new Float32Array(record.deltaCalibration.min),
-        max: new Float32Array(record.deltaCalibration.max),
-      };
-    }
-
-    // Deserialize compression config
-    if (record.compression) {
-      collection.compression = { ...record.compression };
-    }
-
-    // Deserialize PQ codebook: number[][][] -> Float32Array[][]
-    if (record.pqCodebook) {
-      const { subvectors, centroids, subvectorDim, data } = record.pqCodebook;
-      const codebook: Float32Array[][] = new Array(subvectors);
-      for (let p = 0; p < subvectors; p++) {
-        codebook[p] = new Array(centroids);
-        for (let c = 0; c < centroids; c++) {
-          codebook[p][c] = new Float32Array(data[p][c]);
-        }
-      }
-      collection.pqCodebook = { subvectors, centroids, subvectorDim, codebook };
-    }
-
-    return collection;
-  }
-
   async createCollection(collection: Collection): Promise<void> {
     const db = this.ensureOpen();
-    const record: CollectionRecord = {
-      id: collection.id,
-      name: collection.name,
-      dimensions: collection.dimensions,
-      createdAt: collection.createdAt,
-    };
-
-    // Serialize calibration data if present
-    if (collection.calibration) {
-      record.calibration = {
-        min: Array.from(collection.calibration.min),
-        max: Array.from(collection.calibration.max),
-      };
-    }
-
-    // Serialize model fingerprint if present
-    if (collection.modelFingerprint) {
-      record.modelFingerprint = { ...collection.modelFingerprint };
-    }
-
-    // Serialize PQ codebook: Float32Array[][] -> number[][][]
-    if (collection.pqCodebook) {
-      const { subvectors, centroids, subvectorDim, codebook } = collection.pqCodebook;
-      const data: number[][][] = new Array(subvectors);
-      for (let p = 0; p < subvectors; p++) {
-        data[p] = new Array(centroids);
-        for (let c = 0; c < centroids; c++) {
-          data[p][c] = Array.from(codebook[p][c]);
-        }
-      }
-      record.pqCodebook = { subvectors, centroids, subvectorDim, data };
-    }
-
-    // Serialize compression calibration if present
-    if (collection.compressionCalibration) {
-      record.compressionCalibration = {
-        min: Array.from(collection.compressionCalibration.min),
-        max: Array.from(collection.compressionCalibration.max),
-      };
-    }
-
-    // Serialize delta calibration if present
-    if (collection.deltaCalibration) {
-      record.deltaCalibration = {
-        min: Array.from(collection.deltaCalibration.min),
-        max: Array.from(collection.deltaCalibration.max),
-      };
-    }
-
-    // Serialize compression config if present
-    if (collection.compression) {
-      record.compression = { ...collection.compression };
-    }
+    const record = serializeCollection(collection);
 
     return new Promise((resolve, reject) => {
       const tx = db.transaction(STORE_NAMES.COLLECTIONS, 'readwrite');
@@ -480,7 +420,7 @@ export class IndexedDBStorage {
           resolve(null);
           return;
         }
-        resolve(this.collectionFromRecord(record));
+        resolve(deserializeCollection(record));
       };
     });
   }
@@ -501,7 +441,7 @@ export class IndexedDBStorage {
           resolve(null);
           return;
         }
-        resolve(this.collectionFromRecord(record));
+        resolve(deserializeCollection(record));
       };
     });
   }
@@ -517,66 +457,14 @@ export class IndexedDBStorage {
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
         const records = request.result as CollectionRecord[];
-        resolve(records.map((r) => this.collectionFromRecord(r)));
+        resolve(records.map(deserializeCollection));
       };
     });
   }
 
   async updateCollection(collection: Collection): Promise<void> {
     const db = this.ensureOpen();
-    const record: CollectionRecord = {
-      id: collection.id,
-      name: collection.name,
-      dimensions: collection.dimensions,
-      createdAt: collection.createdAt,
-    };
-
-    // Serialize calibration data (Float32Array -> number[]) for IndexedDB storage
-    if (collection.calibration) {
-      record.calibration = {
-        min: Array.from(collection.calibration.min),
-        max: Array.from(collection.calibration.max),
-      };
-    }
-
-    // Serialize model fingerprint if present
-    if (collection.modelFingerprint) {
-      record.modelFingerprint = { ...collection.modelFingerprint };
-    }
-
-    // Serialize PQ codebook: Float32Array[][] -> number[][][]
-    if (collection.pqCodebook) {
-      const { subvectors, centroids, subvectorDim, codebook } = collection.pqCodebook;
-      const data: number[][][] = new Array(subvectors);
-      for (let p = 0; p < subvectors; p++) {
-        data[p] = new Array(centroids);
-        for (let c = 0; c < centroids; c++) {
-          data[p][c] = Array.from(codebook[p][c]);
-        }
-      }
-      record.pqCodebook = { subvectors, centroids, subvectorDim, data };
-    }
-
-    // Serialize compression calibration if present
-    if (collection.compressionCalibration) {
-      record.compressionCalibration = {
-        min: Array.from(collection.compressionCalibration.min),
-        max: Array.from(collection.compressionCalibration.max),
-      };
-    }
-
-    // Serialize delta calibration if present
-    if (collection.deltaCalibration) {
-      record.deltaCalibration = {
-        min: Array.from(collection.deltaCalibration.min),
-        max: Array.from(collection.deltaCalibration.max),
-      };
-    }
-
-    // Serialize compression config if present
-    if (collection.compression) {
-      record.compression = { ...collection.compression };
-    }
+    const record = serializeCollection(collection);
 
     return new Promise((resolve, reject) => {
       const tx = db.transaction(STORE_NAMES.COLLECTIONS, 'readwrite');
@@ -601,6 +489,126 @@ export class IndexedDBStorage {
     });
   }
 
+  // ============================================
+  // Metadata Index Operations
+  // ============================================
+
+  async putIndexEntries(
+    collectionId: string,
+    docId: string,
+    entries: MetadataIndexEntry[]
+  ): Promise<void> {
+    const db = this.ensureOpen();
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAMES.METADATA_INDEX, 'readwrite');
+      const store = tx.objectStore(STORE_NAMES.METADATA_INDEX);
+
+      // Remove stale entries first, then write the new ones in the same transaction
+      const request = store.index('id').getAllKeys(docId);
+      request.onsuccess = () => {
+        for (const key of request.result) {
+          store.delete(key);
+        }
+        for (const entry of entries) {
+          const record: MetadataIndexRecord = {
+            key: indexEntryKey(collectionId, docId, entry),
+            id: docId,
+            collectionId,
+          };
+          store.put(record);
+        }
+      };
+
+      tx.onerror = () => reject(tx.error);
+      tx.oncomplete = () => resolve();
+    });
+  }
+
+  async deleteIndexEntries(docId: string): Promise<void> {
+    const db = this.ensureOpen();
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAMES.METADATA_INDEX, 'readwrite');
+      const store = tx.objectStore(STORE_NAMES.METADATA_INDEX);
+      const request = store.index('id').getAllKeys(docId);
+
+      request.onsuccess = () => {
+        for (const key of request.result) {
+          store.delete(key);
+        }
+      };
+
+      tx.onerror = () => reject(tx.error);
+      tx.oncomplete = () => resolve();
+    });
+  }
+
+  async queryIndex(collectionId: string, query: MetadataIndexQuery): Promise<string[]> {
+    const db = this.ensureOpen();
+    const ranges = toIndexKeyRanges(collectionId, query);
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAMES.METADATA_INDEX, 'readonly');
+      const store = tx.objectStore(STORE_NAMES.METADATA_INDEX);
+      const ids = new Set<string>();
+
+      for (const range of ranges) {
+        // Only keys are needed: the document ID is the last key component
+        const request = store.getAllKeys(
+          IDBKeyRange.bound(range.lower, range.upper, range.lowerOpen, range.upperOpen)
+        );
+        request.onsuccess = () => {
+          for (const key of request.result as IDBValidKey[][]) {
+            ids.add(key[3] as string);
+          }
+        };
+      }
+
+      tx.onerror = () => reject(tx.error);
+      tx.oncomplete = () => resolve([...ids]);
+    });
+  }
+
+  async scanIndex(
+    collectionId: string,
+    query: MetadataIndexQuery,
+    options: MetadataIndexScanOptions = {}
+  ): Promise<MetadataIndexScanEntry[]> {
+    const db = this.ensureOpen();
+    const ranges = toIndexScanRanges(collectionId, query, options);
+    const limit = options.limit ?? Infinity;
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAMES.METADATA_INDEX, 'readonly');
+      const store = tx.objectStore(STORE_NAMES.METADATA_INDEX);
+      const entries: MetadataIndexScanEntry[] = [];
+
+      // Ranges are read one after another, each with a cursor in scan order
+      const scan = (i: number): void => {
+        if (i >= ranges.length || entries.length >= limit) return;
+        const range = ranges[i];
+        const request = store.openKeyCursor(
+          IDBKeyRange.bound(range.lower, range.upper, range.lowerOpen, range.upperOpen),
+          options.direction === 'desc' ? 'prev' : 'next'
+        );
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            scan(i + 1);
+            return;
+          }
+          entries.push(toIndexScanEntry(cursor.primaryKey as IDBValidKey[]));
+          if (entries.length < limit) cursor.continue();
+        };
+      };
+      scan(0);
+
+      tx.onerror = () => reject(tx.error);
+      tx.oncomplete = () => resolve(entries);
+    });
+  }
+
   // ============================================
   // Utility Operations
   // ============================================
@@ -613,6 +621,7 @@ export class IndexedDBStorage {
       STORE_NAMES.VECTORS,
       STORE_NAMES.INDEXES,
       STORE_NAMES.COLLECTIONS,
+      STORE_NAMES.METADATA_INDEX,
     ];
 
     return new Promise((resolve, reject) => {
@@ -634,16 +643,35 @@ export class IndexedDBStorage {
     const docs = await this.getAllDocuments(collectionId);
     const ids = docs.map((d) => d.id);
 
-    // Delete documents and vectors
-    const tx = db.transaction([STORE_NAMES.DOCUMENTS, STORE_NAMES.VECTORS], 'readwrite');
+    // Delete documents, vectors and metadata index entries
+    const tx = db.transaction(
+      [STORE_NAMES.DOCUMENTS, STORE_NAMES.VECTORS, STORE_NAMES.METADATA_INDEX],
+      'readwrite'
+    );
     const docStore = tx.objectStore(STORE_NAMES.DOCUMENTS);
     const vecStore = tx.objectStore(STORE_NAMES.VECTORS);
+    const metaIndexStore = tx.objectStore(STORE_NAMES.METADATA_INDEX);
 
     for (const id of ids) {
       docStore.delete(id);
-      vecStore.delete(id);
     }
 
+    // Vectors are removed by collection so records without a document
+    // (e.g. multi-vector sub-vectors) are cleared too
+    const vectorKeys = vecStore.index('collectionId').getAllKeys(collectionId);
+    vectorKeys.onsuccess = () => {
+      for (const key of vectorKeys.result) {
+        vecStore.delete(key);
+      }
+    };
+
+    const entryKeys = metaIndexStore.index('collectionId').getAllKeys(collectionId);
+    entryKeys.onsuccess = () => {
+      for (const key of entryKeys.result) {
+        metaIndexStore.delete(key);
+      }
+    };
+
     await new Promise<void>((resolve, reject) => {
       tx.onerror = () => reject(tx.error);
       tx.oncomplete = () => resolve();
@@ -3,6 +3,18 @@
  */
 
 import type { StoredDocument, StoredVector, Collection, SerializedHNSWIndex } from '../types.js';
+import {
+  matchesIndexQuery,
+  indexEntryKey,
+  compareIndexKeys,
+  isKeyInRange,
+  toIndexScanRanges,
+  toIndexScanEntry,
+  type MetadataIndexEntry,
+  type MetadataIndexQuery,
+  type MetadataIndexScanOptions,
+  type MetadataIndexScanEntry,
+} from './metadata-index.js';
 
 export class MemoryStorage {
   private documents: Map<string, StoredDocument> = new Map();
@@ -10,6 +22,8 @@ export class MemoryStorage {
   private indexes: Map<string, SerializedHNSWIndex> = new Map();
   private collections: Map<string, Collection> = new Map();
   private meta: Map<string, unknown> = new Map();
+  private indexEntries: Map<string, { collectionId: string; entries: MetadataIndexEntry[] }> =
+    new Map();
 
   async open(): Promise<void> {
     // No-op for memory storage
@@ -46,6 +60,17 @@ export class MemoryStorage {
     return docs;
   }
 
+  async getDocumentPage(collectionId: string, after: string | null, limit: number): Promise<StoredDocument[]> {
+    const docs: StoredDocument[] = [];
+    for (const doc of this.documents.values()) {
+      if (doc.collectionId === collectionId && (after === null || doc.id > after)) {
+        docs.push(doc);
+      }
+    }
+    docs.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    return docs.slice(0, limit).map((doc) => ({ ...doc }));
+  }
+
   async countDocuments(collectionId: string): Promise<number> {
     let count = 0;
     for (const doc of this.documents.values()) {
@@ -150,6 +175,63 @@ export class MemoryStorage {
     this.collections.delete(id);
   }
 
+  // ============================================
+  // Metadata Index Operations
+  // ============================================
+
+  async putIndexEntries(
+    collectionId: string,
+    docId: string,
+    entries: MetadataIndexEntry[]
+  ): Promise<void> {
+    if (entries.length === 0) {
+      this.indexEntries.delete(docId);
+      return;
+    }
+    this.indexEntries.set(docId, { collectionId, entries: entries.map((e) => ({ ...e })) });
+  }
+
+  async deleteIndexEntries(docId: string): Promise<void> {
+    this.indexEntries.delete(docId);
+  }
+
+  async queryIndex(collectionId: string, query: MetadataIndexQuery): Promise<string[]> {
+    const ids: string[] = [];
+    for (const [docId, record] of this.indexEntries) {
+      if (record.collectionId !== collectionId) continue;
+      const hit = record.entries.some(
+        (entry) => entry.field === query.field && matchesIndexQuery(entry.value, query)
+      );
+      if (hit) {
+        ids.push(docId);
+      }
+    }
+    return ids;
+  }
+
+  async scanIndex(
+    collectionId: string,
+    query: MetadataIndexQuery,
+    options: MetadataIndexScanOptions = {}
+  ): Promise<MetadataIndexScanEntry[]> {
+    const ranges = toIndexScanRanges(collectionId, query, options);
+    const keys: IDBValidKey[][] = [];
+    for (const [docId, record] of this.indexEntries) {
+      if (record.collectionId !== collectionId) continue;
+      for (const entry of record.entries) {
+        if (entry.field !== query.field) continue;
+        const key = indexEntryKey(collectionId, docId, entry);
+        if (ranges.some((range) => isKeyInRange(key, range))) {
+          keys.push(key);
+        }
+      }
+    }
+
+    keys.sort(compareIndexKeys);
+    if (options.direction === 'desc') keys.reverse();
+    return keys.slice(0, options.limit).map(toIndexScanEntry);
+  }
+
   // ============================================
   // Utility Operations
   // ============================================
@@ -159,6 +241,7 @@ export class MemoryStorage {
     this.vectors.clear();
     this.indexes.clear();
     this.collections.clear();
+    this.indexEntries.clear();
   }
 
   async clearCollection(collectionId: string): Promise<void> {
@@ -178,6 +261,13 @@ export class MemoryStorage {
 
     // Delete index
     this.indexes.delete(collectionId);
+
+    // Delete metadata index entries
+    for (const [id, record] of this.indexEntries) {
+      if (record.collectionId === collectionId) {
+        this.indexEntries.delete(id);
+      }
+    }
   }
 
   async estimateSize(): Promise<number> {
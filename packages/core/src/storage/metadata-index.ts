@@ -0,0 +1,314 @@
+/**
+ * Secondary metadata indexes.
+ *
+ * Collections created with `indexes: ['category', 'createdAt']` keep one
+ * index entry per document and indexed field. Storage adapters persist the
+ * entries under an ordered key so equality, `$in` and range filters can be
+ * answered with a key-range lookup instead of scanning every document.
+ *
+ * Entry keys have the shape `[collectionId, field, [type, value], docId]`.
+ * The type tag keeps numbers, strings, booleans and `null` apart, so a
+ * filter on `1` never matches `true` and ranges never cross types.
+ */
+
+import { getValueAtPath } from '../query/filter.js';
+
+/**
+ * Metadata values that can be stored in a secondary index.
+ */
+export type IndexableValue = string | number | boolean | null;
+
+/**
+ * A single index entry extracted from a document's metadata.
+ */
+export interface MetadataIndexEntry {
+  /** Indexed field. Array elements are indexed under `${field}[]`. */
+  field: string;
+  /** Field value (or array element). */
+  value: IndexableValue;
+}
+
+/**
+ * A lookup against one indexed field.
+ * Either `values` (equality / `$in`) or `range` is set.
+ */
+export interface MetadataIndexQuery {
+  field: string;
+  /** Match any of these values exactly. */
+  values?: IndexableValue[];
+  /** Match values within a range. Bounds must be the same type. */
+  range?: {
+    lower?: number | string;
+    lowerOpen?: boolean;
+    upper?: number | string;
+    upperOpen?: boolean;
+  };
+}
+
+/**
+ * Options for a scan of index entries in key order.
+ */
+export interface MetadataIndexScanOptions {
+  /** Scan from the lowest key (`'asc'`, the default) or from the highest. */
+  direction?: 'asc' | 'desc';
+  /**
+   * Start strictly after this position in the scan direction. Without `id`,
+   * every entry with the value is skipped.
+   */
+  after?: { value: IndexableValue; id?: string };
+  /** Maximum number of entries to return. */
+  limit?: number;
+}
+
+/**
+ * An index entry returned by a scan.
+ */
+export interface MetadataIndexScanEntry {
+  /** Document the entry belongs to. */
+  id: string;
+  /** Indexed value. */
+  value: IndexableValue;
+}
+
+/**
+ * Encoded index value: a type tag followed by an IndexedDB-compatible key.
+ */
+export type EncodedIndexValue = [type: 'n' | 's' | 'b' | 'z', value: number | string];
+
+/**
+ * Key bounds for one contiguous scan of an index store.
+ */
+export interface IndexKeyRange {
+  lower: IDBValidKey[];
+  upper: IDBValidKey[];
+  lowerOpen: boolean;
+  upperOpen: boolean;
+}
+
+/**
+ * Check whether a value can be stored in a secondary index.
+ */
+export function isIndexableValue(value: unknown): value is IndexableValue {
+  return (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && !Number.isNaN(value))
+  );
+}
+
+/**
+ * Encode a metadata value into an ordered, type-tagged key.
+ */
+export function encodeIndexValue(value: IndexableValue): EncodedIndexValue {
+  if (value === null) return ['z', 0];
+  if (typeof value === 'boolean') return ['b', value ? 1 : 0];
+  if (typeof value === 'number') return ['n', value];
+  return ['s', value];
+}
+
+/**
+ * Decode a value encoded by {@link encodeIndexValue}.
+ */
+export function decodeIndexValue([type, value]: EncodedIndexValue): IndexableValue {
+  if (type === 'z') return null;
+  if (type === 'b') return value === 1;
+  return value;
+}
+
+/**
+ * Build the storage key for an index entry.
+ */
+export function indexEntryKey(
+  collectionId: string,
+  docId: string,
+  entry: MetadataIndexEntry
+): IDBValidKey[] {
+  return [collectionId, entry.field, encodeIndexValue(entry.value), docId];
+}
+
+/**
+ * Extract index entries for the indexed fields of a document.
+ *
+ * Scalars produce one entry. Arrays produce one `${field}[]` entry per
+ * indexable element, which lets `$in` match array fields element-wise while
+ * plain equality still only matches scalar values.
+ *
+ * @example
+ * ```ts
+ * extractIndexEntries({ category: 'tech', tags: ['a', 'b'] }, ['category', 'tags']);
+ * // [{ field: 'category', value: 'tech' }, { field: 'tags[]', value: 'a' }, { field: 'tags[]', value: 'b' }]
+ * ```
+ */
+export function extractIndexEntries(
+  metadata: Record<string, unknown> | undefined,
+  fields: readonly string[]
+): MetadataIndexEntry[] {
+  if (!metadata || fields.length === 0) return [];
+
+  const entries: MetadataIndexEntry[] = [];
+  for (const field of fields) {
+    const value = getValueAtPath(metadata, field);
+
+    if (Array.isArray(value)) {
+      const seen = new Set<unknown>();
+      for (const item of value) {
+        if (isIndexableValue(item) && !seen.has(item)) {
+          seen.add(item);
+          entries.push({ field: `${field}[]`, value: item });
+        }
+      }
+    } else if (isIndexableValue(value)) {
+      entries.push({ field, value });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Translate an index query into key ranges over `[collectionId, field, [type, value], docId]`.
+ *
+ * Equality queries produce one range per value; range queries produce a
+ * single range. Shorter arrays sort before longer ones with the same prefix
+ * and arrays sort after every string, which gives us open-ended bounds.
+ */
+export function toIndexKeyRanges(collectionId: string, query: MetadataIndexQuery): IndexKeyRange[] {
+  const prefix = [collectionId, query.field];
+
+  if (query.values) {
+    return query.values.map((value) => {
+      const encoded = encodeIndexValue(value);
+      return {
+        lower: [...prefix, encoded],
+        upper: [...prefix, encoded, []],
+        lowerOpen: false,
+        upperOpen: false,
+      };
+    });
+  }
+
+  const range = query.range ?? {};
+  const type = typeof (range.lower ?? range.upper) === 'string' ? 's' : 'n';
+
+  return [
+    {
+      lower:
+        range.lower === undefined
+          ? [...prefix, [type]]
+          : range.lowerOpen
+            ? [...prefix, [type, range.lower], []]
+            : [...prefix, [type, range.lower]],
+      upper:
+        range.upper === undefined
+          ? [...prefix, [type, []]]
+          : range.upperOpen
+            ? [...prefix, [type, range.upper]]
+            : [...prefix, [type, range.upper], []],
+      lowerOpen: range.lower !== undefined && range.lowerOpen === true,
+      upperOpen: range.upper !== undefined && range.upperOpen === true,
+    },
+  ];
+}
+
+/**
+ * Evaluate an index query against a single entry value.
+ * Used by adapters that keep entries in memory instead of an ordered store.
+ */
+export function matchesIndexQuery(value: IndexableValue, query: MetadataIndexQuery): boolean {
+  if (query.values) {
+    return query.values.some((candidate) => candidate === value);
+  }
+
+  const range = query.range ?? {};
+  const bound = range.lower ?? range.upper;
+  if (bound === undefined || typeof value !== typeof bound) return false;
+
+  const v = value as number | string;
+  if (range.lower !== undefined) {
+    if (range.lowerOpen ? v <= range.lower : v < range.lower) return false;
+  }
+  if (range.upper !== undefined) {
+    if (range.upperOpen ? v >= range.upper : v > range.upper) return false;
+  }
+  return true;
+}
+
+/**
+ * Compare two index keys in IndexedDB order: numbers before strings before
+ * arrays, and arrays element by element.
+ * Used by adapters that keep entries in memory instead of an ordered store.
+ */
+export function compareIndexKeys(a: IDBValidKey, b: IDBValidKey): number {
+  const rankA = keyRank(a);
+  const rankB = keyRank(b);
+  if (rankA !== rankB) return rankA - rankB;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const order = compareIndexKeys(a[i], b[i]);
+      if (order !== 0) return order;
+    }
+    return a.length - b.length;
+  }
+  const x = a as number | string;
+  const y = b as number | string;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function keyRank(key: IDBValidKey): number {
+  if (typeof key === 'number') return 0;
+  if (typeof key === 'string') return 1;
+  return 2;
+}
+
+/**
+ * Check whether a key lies within a key range.
+ */
+export function isKeyInRange(key: IDBValidKey, range: IndexKeyRange): boolean {
+  const lower = compareIndexKeys(key, range.lower);
+  const upper = compareIndexKeys(key, range.upper);
+  return (range.lowerOpen ? lower > 0 : lower >= 0) && (range.upperOpen ? upper < 0 : upper <= 0);
+}
+
+/**
+ * Translate an index query into the key ranges of a scan, in scan order.
+ *
+ * The ranges are those of {@link toIndexKeyRanges}, sorted in the scan
+ * direction and narrowed to start after `options.after`. Adapters with an
+ * ordered store read each range with a cursor in the scan direction.
+ */
+export function toIndexScanRanges(
+  collectionId: string,
+  query: MetadataIndexQuery,
+  options: MetadataIndexScanOptions = {}
+): IndexKeyRange[] {
+  const desc = options.direction === 'desc';
+  const ranges = toIndexKeyRanges(collectionId, query).sort((x, y) => compareIndexKeys(x.lower, y.lower));
+  if (desc) ranges.reverse();
+
+  const after = options.after;
+  if (!after) return ranges;
+
+  // Without an ID the position lies past every entry with the value
+  const prefix = [collectionId, query.field, encodeIndexValue(after.value)];
+  const start = after.id !== undefined ? [...prefix, after.id] : desc ? prefix : [...prefix, []];
+
+  const narrowed: IndexKeyRange[] = [];
+  for (const range of ranges) {
+    if (desc) {
+      if (compareIndexKeys(start, range.lower) <= 0) continue;
+      narrowed.push(compareIndexKeys(start, range.upper) <= 0 ? { ...range, upper: start, upperOpen: true } : range);
+    } else {
+      if (compareIndexKeys(start, range.upper) >= 0) continue;
+      narrowed.push(compareIndexKeys(start, range.lower) >= 0 ? { ...range, lower: start, lowerOpen: true } : range);
+    }
+  }
+  return narrowed;
+}
+
+/**
+ * Convert an entry key (see {@link indexEntryKey}) to a scan entry.
+ */
+export function toIndexScanEntry(key: IDBValidKey[]): MetadataIndexScanEntry {
+  return { id: key[3] as string, value: decodeIndexValue(key[2] as EncodedIndexValue) };
+}
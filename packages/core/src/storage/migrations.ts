@@ -125,6 +125,20 @@ export const MIGRATIONS: Migration[] = [
       // as uncompressed (backward compatible).
     },
   },
+  {
+    version: 8,
+    description: 'Add metadata index store for secondary indexes on metadata fields',
+    migrate: (db: IDBDatabase) => {
+      // Entries are keyed by [collectionId, field, [type, value], id] so that
+      // equality and range filters become key-range scans. The `id` index
+      // supports removing a document's entries; `collectionId` supports clearing.
+      if (!db.objectStoreNames.contains(STORE_NAMES.METADATA_INDEX)) {
+        const store = db.createObjectStore(STORE_NAMES.METADATA_INDEX, { keyPath: 'key' });
+        store.createIndex('id', 'id', { unique: false });
+        store.createIndex('collectionId', 'collectionId', { unique: false });
+      }
+    },
+  },
 ];
 
 /**
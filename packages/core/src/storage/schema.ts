@@ -4,7 +4,7 @@
 
 // Note: This version is managed by the migrations system.
 // See migrations.ts for the actual version and upgrade logic.
-export const DB_VERSION = 7;
+export const DB_VERSION = 8;
 
 export const STORE_NAMES = {
   DOCUMENTS: 'documents',
@@ -12,6 +12,7 @@ export const STORE_NAMES = {
   INDEXES: 'indexes',
   COLLECTIONS: 'collections',
   META: 'meta',
+  METADATA_INDEX: 'metadataIndex',
 } as const;
 
 /**
@@ -48,6 +49,13 @@ export function createSchema(db: IDBDatabase): void {
   if (!db.objectStoreNames.contains(STORE_NAMES.META)) {
     db.createObjectStore(STORE_NAMES.META, { keyPath: 'key' });
   }
+
+  // Metadata index store: secondary index entries for indexed metadata fields
+  if (!db.objectStoreNames.contains(STORE_NAMES.METADATA_INDEX)) {
+    const metaIndexStore = db.createObjectStore(STORE_NAMES.METADATA_INDEX, { keyPath: 'key' });
+    metaIndexStore.createIndex('id', 'id', { unique: false });
+    metaIndexStore.createIndex('collectionId', 'collectionId', { unique: false });
+  }
 }
 
 /**
@@ -80,6 +88,16 @@ export interface IndexRecord {
   updatedAt: number;
 }
 
+/**
+ * Product quantization codebook as stored in a collection record.
+ */
+export interface PQCodebookRecord {
+  subvectors: number;
+  centroids: number;
+  subvectorDim: number;
+  data: number[][][];
+}
+
 /**
  * Collection record as stored in IndexedDB.
  */
@@ -100,12 +118,9 @@ export interface CollectionRecord {
     dimensions: number;
   };
   /** Serialized product quantization codebook (optional, set when PQ is enabled) */
-  pqCodebook?: {
-    subvectors: number;
-    centroids: number;
-    subvectorDim: number;
-    data: number[][][];
-  };
+  pqCodebook?: PQCodebookRecord;
+  /** Vectors are stored as packed sign bits (set when binary quantization is enabled) */
+  binaryQuantization?: boolean;
   /** Storage compression mode (optional, set when compression is enabled) */
   compression?: {
     type: 'sq8' | 'delta-sq8' | 'none';
@@ -120,6 +135,38 @@ export interface CollectionRecord {
     min: number[];
     max: number[];
   };
+  /** Metadata fields with secondary indexes */
+  indexedFields?: string[];
+  /** Index type of the primary vector space (absent for HNSW) */
+  indexType?: 'hnsw' | 'ivf' | 'flat';
+  /** Serialized trained partitions of the IVF index */
+  ivf?: {
+    fingerprint: string;
+    centroids: number[][];
+    codebook?: PQCodebookRecord;
+  };
+  /** Field and tokenizer settings the stored keyword index was built with */
+  keywordIndex?: {
+    field: string;
+    tokenizer: string;
+  };
+  /** Point-in-time snapshots of the collection, oldest first */
+  snapshots?: {
+    label: string;
+    sequence: number;
+    createdAt: number;
+    documentCount: number;
+  }[];
+}
+
+/**
+ * Secondary metadata index entry as stored in IndexedDB.
+ * `key` is `[collectionId, field, [type, value], id]`, see `indexEntryKey()`.
+ */
+export interface MetadataIndexRecord {
+  key: IDBValidKey[];
+  id: string;
+  collectionId: string;
 }
 
 /**
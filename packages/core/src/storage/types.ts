@@ -7,7 +7,13 @@
  * this interface to provide alternative storage backends for VectorDB.
  */
 
-import type { StoredDocument, StoredVector, Collection, SerializedHNSWIndex } from '../types.js';
+import type { StoredDocument, StoredVector, Collection, SerializedHNSWIndex, TypedFilterQuery } from '../types.js';
+import type {
+  MetadataIndexEntry,
+  MetadataIndexQuery,
+  MetadataIndexScanOptions,
+  MetadataIndexScanEntry,
+} from './metadata-index.js';
 
 /**
  * Storage adapter interface for VectorDB backends.
@@ -61,6 +67,14 @@ export interface StorageAdapter {
   /** Count documents in a collection. */
   countDocuments(collectionId: string): Promise<number>;
 
+  /**
+   * Get up to `limit` documents of a collection in ID order, starting after
+   * the document `after` (from the first document when `null`). Exports read
+   * large collections page by page with it; adapters without it are read
+   * whole with `getAllDocuments()`.
+   */
+  getDocumentPage?(collectionId: string, after: string | null, limit: number): Promise<StoredDocument[]>;
+
   // ============================================
   // Vector Operations
   // ============================================
@@ -112,6 +126,44 @@ export interface StorageAdapter {
   /** Delete a collection by ID. */
   deleteCollection(id: string): Promise<void>;
 
+  // ============================================
+  // Metadata Index Operations (optional)
+  // ============================================
+
+  /**
+   * Replace the secondary index entries for a document.
+   * Adapters without these methods fall back to scanning documents for filters.
+   */
+  putIndexEntries?(collectionId: string, docId: string, entries: MetadataIndexEntry[]): Promise<void>;
+
+  /** Delete all secondary index entries for a document. */
+  deleteIndexEntries?(docId: string): Promise<void>;
+
+  /** Return the IDs of documents in a collection whose index entries match the query. */
+  queryIndex?(collectionId: string, query: MetadataIndexQuery): Promise<string[]>;
+
+  /**
+   * Return the index entries of a collection that match the query, in key
+   * order: by value, then by document ID. `find()` uses it to page through a
+   * sort on an indexed field without sorting every document.
+   */
+  scanIndex?(
+    collectionId: string,
+    query: MetadataIndexQuery,
+    options?: MetadataIndexScanOptions
+  ): Promise<MetadataIndexScanEntry[]>;
+
+  // ============================================
+  // Filter Operations (optional)
+  // ============================================
+
+  /**
+   * Evaluate a metadata filter in the storage backend, e.g. as a SQL query.
+   * Return `null` for filters the backend cannot evaluate; VectorDB then uses
+   * the secondary indexes or scans the collection.
+   */
+  queryDocuments?(collectionId: string, filter: TypedFilterQuery): Promise<DocumentQueryResult | null>;
+
   // ============================================
   // Utility Operations
   // ============================================
@@ -119,9 +171,30 @@ export interface StorageAdapter {
   /** Clear all data across all stores. */
   clear(): Promise<void>;
 
-  /** Clear all data for a specific collection (documents, vectors, index). */
+  /** Clear all data for a specific collection (documents, vectors, index, metadata index entries). */
   clearCollection(collectionId: string): Promise<void>;
 
   /** Estimate total storage size in bytes. */
   estimateSize(): Promise<number>;
+
+  /**
+   * Persist writes the adapter buffers. Optional: VectorDB calls it once at
+   * the end of each write operation, so adapters for which every write is
+   * costly can apply a whole `addMany()` together.
+   */
+  flush?(): Promise<void>;
+}
+
+/**
+ * Documents matched by {@link StorageAdapter.queryDocuments}.
+ */
+export interface DocumentQueryResult {
+  /** IDs of the matching documents. */
+  ids: string[];
+
+  /**
+   * Whether `ids` are exactly the matches. When `false`, they are candidates
+   * (a superset of the matches) and VectorDB checks each against the filter.
+   */
+  exact: boolean;
 }
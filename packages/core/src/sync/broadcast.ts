@@ -8,9 +8,11 @@
  */
 export type BroadcastMessageType =
   | 'document_added'
+  | 'documents_added'
   | 'document_updated'
   | 'document_deleted'
   | 'documents_deleted'
+  | 'transaction_committed'
   | 'collection_cleared'
   | 'database_cleared'
   | 'index_updated'
@@ -170,6 +172,13 @@ export class Broadcaster {
     this.send('document_added', { collectionId, documentId });
   }
 
+  /**
+   * Notify other tabs that multiple documents were added.
+   */
+  notifyDocumentsAdded(collectionId: string, documentIds: string[]): void {
+    this.send('documents_added', { collectionId, documentIds });
+  }
+
   /**
    * Notify other tabs that a document was updated.
    */
@@ -191,6 +200,13 @@ export class Broadcaster {
     this.send('documents_deleted', { collectionId, documentIds });
   }
 
+  /**
+   * Notify other tabs that a transaction changed several documents.
+   */
+  notifyTransactionCommitted(collectionId: string, documentIds: string[]): void {
+    this.send('transaction_committed', { collectionId, documentIds });
+  }
+
   /**
    * Notify other tabs that a collection was cleared.
    */
@@ -0,0 +1,346 @@
+/**
+ * Persistent, sequenced log of the changes to a collection's documents.
+ *
+ * Every write to a document gives it the next sequence number of its
+ * collection and replaces its entry in the log, so the log holds the latest
+ * change of each document (deletes included) and grows with the number of
+ * documents, not the number of writes. Reading the entries after a sequence
+ * number returns every document changed since then.
+ *
+ * Entries are ordinary document records under a companion collection ID. The
+ * newest sequence number is stored in a record of its own and re-read before
+ * each flush. Flushes of a collection run one at a time, within this context
+ * and across tabs, so sequence numbers are unique and keep increasing.
+ *
+ * When the storage has a metadata index, each entry's sequence number is
+ * indexed, so reads scan the entries after a sequence number in order
+ * instead of loading the whole log.
+ */
+
+import type { DocumentChange, DocumentChangeType, ChangesResult, StoredDocument } from '../types.js';
+import type { Storage } from '../storage/index.js';
+import type { StorageAdapter } from '../storage/types.js';
+import type { LockManager } from './locks.js';
+
+/** Separates the collection ID from the suffix in stored change IDs. */
+const SEPARATOR = '\u001f';
+
+/** Index field holding the sequence number of each entry. */
+const SEQUENCE_FIELD = 'sequence';
+
+/**
+ * Listeners for flushed changes, by storage and collection ID, so instances
+ * that share a storage (such as those returned by `db.collection()`) see each
+ * other's writes.
+ */
+const listeners = new WeakMap<object, Map<string, Set<() => void>>>();
+
+/**
+ * Tail of the flushes of each collection, by storage and collection ID, so
+ * flushes from every instance that shares a storage run one at a time.
+ */
+const flushQueues = new WeakMap<object, Map<string, Promise<void>>>();
+
+/**
+ * Collection ID under which the change log of a collection is stored.
+ */
+export function changesCollectionId(collectionId: string): string {
+  return `${collectionId}${SEPARATOR}changes`;
+}
+
+/**
+ * Stored ID of the log entry of a document.
+ */
+function changeEntryId(collectionId: string, docId: string): string {
+  return `${collectionId}${SEPARATOR}change:${docId}`;
+}
+
+/**
+ * Stored ID of the record holding the newest sequence number.
+ */
+function headId(collectionId: string): string {
+  return `${collectionId}${SEPARATOR}changes:head`;
+}
+
+/**
+ * Combine two changes to a document made in the same operation.
+ */
+function combine(previous: DocumentChangeType, next: DocumentChangeType): DocumentChangeType {
+  // The document did not exist before the operation
+  if (previous === 'add' && next === 'update') return 'add';
+  // The document existed before the operation
+  if (previous === 'delete' && next === 'add') return 'update';
+  return next;
+}
+
+/**
+ * The change log of one collection.
+ *
+ * @example
+ * ```ts
+ * const log = new ChangeLog(storage, 'docs');
+ * log.record('doc1', 'add');
+ * await log.flush(); // assigns sequence numbers and persists the entries
+ *
+ * const { changes, lastSequence } = await log.read(0);
+ * ```
+ */
+export class ChangeLog {
+  /** Changes recorded since the last flush, by document ID */
+  private pending = new Map<string, { type: DocumentChangeType; timestamp: number }>();
+  /** Newest sequence number seen, kept when the storage is cleared */
+  private sequence = 0;
+  /** Number of times changes were recorded or discarded */
+  private recorded = 0;
+  /** Whether entries are read through the storage's index, once checked */
+  private indexed: Promise<boolean> | null = null;
+
+  /**
+   * @param storage - Storage the log is kept in
+   * @param collectionId - Collection whose changes are logged
+   * @param lockManager - Lock manager that serializes flushes across tabs
+   */
+  constructor(
+    private storage: Storage | StorageAdapter,
+    private collectionId: string,
+    private lockManager: LockManager | null = null
+  ) {}
+
+  /**
+   * Record a change to a document, to be persisted by the next `flush()`.
+   */
+  record(id: string, type: DocumentChangeType): void {
+    this.recorded++;
+    const previous = this.pending.get(id);
+    this.pending.set(id, {
+      type: previous ? combine(previous.type, type) : type,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Drop the changes recorded since the last flush.
+   */
+  discard(): void {
+    this.recorded++;
+    this.pending.clear();
+  }
+
+  /**
+   * Value that changes whenever documents of the collection may have been
+   * written since it was last read: by this context, including changes not
+   * flushed yet, or by anyone sharing the storage.
+   */
+  async version(): Promise<string> {
+    return `${this.recorded}:${await this.head()}`;
+  }
+
+  /**
+   * Read the newest sequence number of the collection (0 before any change).
+   */
+  async head(): Promise<number> {
+    const stored = await this.storage.getDocument(headId(this.collectionId));
+    this.sequence = Math.max(this.sequence, (stored?.metadata?.sequence as number | undefined) ?? 0);
+    return this.sequence;
+  }
+
+  /**
+   * Persist the recorded changes with the next sequence numbers and notify
+   * watchers of the collection.
+   *
+   * Changes recorded while the flush waits for an earlier one go to the next
+   * flush. If writing fails, the changes are kept for the next flush.
+   *
+   * @param origin - Origin to record on the changes
+   */
+  async flush(origin?: string): Promise<void> {
+    if (this.pending.size === 0) return;
+
+    const entries = this.pending;
+    this.pending = new Map();
+
+    const write = (): Promise<void> => this.write(entries, origin);
+    try {
+      await this.exclusive(() =>
+        this.lockManager
+          ? this.lockManager.withWriteLock(changesCollectionId(this.collectionId), write)
+          : write()
+      );
+    } catch (error) {
+      for (const [id, next] of this.pending) {
+        const previous = entries.get(id);
+        entries.set(id, previous ? { type: combine(previous.type, next.type), timestamp: next.timestamp } : next);
+      }
+      this.pending = entries;
+      throw error;
+    }
+
+    for (const listener of listeners.get(this.storage)?.get(this.collectionId) ?? []) {
+      listener();
+    }
+  }
+
+  /**
+   * Read the changes after a sequence number, oldest first.
+   *
+   * @param since - Sequence number to read after (0 for every document's latest change)
+   * @param limit - Maximum number of changes to return
+   */
+  async read(since: number, limit = Infinity): Promise<ChangesResult> {
+    const entries = (await this.isIndexed())
+      ? await this.scan(since, limit)
+      : (await this.storage.getAllDocuments(changesCollectionId(this.collectionId)))
+          .filter((record: StoredDocument) => record.id !== headId(this.collectionId))
+          .map((record: StoredDocument) => record.metadata as unknown as DocumentChange)
+          .filter((change) => change.sequence > since)
+          .sort((a, b) => a.sequence - b.sequence);
+
+    const changes = entries.slice(0, limit);
+    const hasMore = entries.length > changes.length;
+    return {
+      changes,
+      lastSequence: hasMore ? changes[changes.length - 1].sequence : Math.max(since, await this.head()),
+      hasMore,
+    };
+  }
+
+  /**
+   * Call a listener whenever changes to the collection are flushed in this
+   * context.
+   *
+   * @returns Function that removes the listener.
+   */
+  subscribe(listener: () => void): () => void {
+    let byCollection = listeners.get(this.storage);
+    if (!byCollection) {
+      byCollection = new Map();
+      listeners.set(this.storage, byCollection);
+    }
+    let set = byCollection.get(this.collectionId);
+    if (!set) {
+      set = new Set();
+      byCollection.set(this.collectionId, set);
+    }
+    set.add(listener);
+
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  /**
+   * Write changes after the newest stored sequence number and store the new
+   * newest one.
+   */
+  private async write(
+    entries: Map<string, { type: DocumentChangeType; timestamp: number }>,
+    origin: string | undefined
+  ): Promise<void> {
+    const collectionId = changesCollectionId(this.collectionId);
+    const indexed = await this.isIndexed();
+    let sequence = await this.head();
+
+    // The head goes first: a write that stops part way leaves unused
+    // sequence numbers rather than numbers a later write gives out again
+    const now = Date.now();
+    await this.storage.addDocument({
+      id: headId(this.collectionId),
+      collectionId,
+      metadata: { sequence: sequence + entries.size },
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    for (const [id, { type, timestamp }] of entries) {
+      const change: DocumentChange = { sequence: ++sequence, type, id, timestamp };
+      if (origin !== undefined) change.origin = origin;
+      const entryId = changeEntryId(this.collectionId, id);
+      await this.storage.addDocument({
+        id: entryId,
+        collectionId,
+        metadata: change as unknown as Record<string, unknown>,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+      if (indexed) {
+        await this.storage.putIndexEntries!(collectionId, entryId, [
+          { field: SEQUENCE_FIELD, value: change.sequence },
+        ]);
+      }
+    }
+    this.sequence = sequence;
+
+    // The change log is written last in every write operation
+    await (this.storage as StorageAdapter).flush?.();
+  }
+
+  /**
+   * Read the entries after a sequence number, oldest first, through the
+   * storage's index. Returns one entry past the limit when there are more.
+   */
+  private async scan(since: number, limit: number): Promise<DocumentChange[]> {
+    const scanned = await this.storage.scanIndex!(
+      changesCollectionId(this.collectionId),
+      { field: SEQUENCE_FIELD, range: { lower: since, lowerOpen: true } },
+      Number.isFinite(limit) ? { limit: limit + 1 } : {}
+    );
+
+    const entries: DocumentChange[] = [];
+    for (const { id } of scanned) {
+      const record = await this.storage.getDocument(id);
+      if (record) entries.push(record.metadata as unknown as DocumentChange);
+    }
+    return entries;
+  }
+
+  /**
+   * Whether the storage can index the entries' sequence numbers. Checked on
+   * first use, when entries written without an index are indexed.
+   */
+  private isIndexed(): Promise<boolean> {
+    this.indexed ??= this.indexEntries().catch((error: unknown) => {
+      this.indexed = null;
+      throw error;
+    });
+    return this.indexed;
+  }
+
+  /**
+   * Index the sequence numbers of entries that are not indexed yet, such as
+   * those written before the log kept an index.
+   */
+  private async indexEntries(): Promise<boolean> {
+    const storage = this.storage as StorageAdapter;
+    if (!storage.putIndexEntries || !storage.scanIndex) return false;
+
+    const collectionId = changesCollectionId(this.collectionId);
+    const head = headId(this.collectionId);
+    const indexed = await storage.scanIndex(collectionId, {
+      field: SEQUENCE_FIELD,
+      range: { lower: 0, lowerOpen: true },
+    });
+    const stored = (await storage.countDocuments(collectionId)) - ((await storage.getDocument(head)) ? 1 : 0);
+    if (indexed.length >= stored) return true;
+
+    for (const record of await storage.getAllDocuments(collectionId)) {
+      if (record.id === head) continue;
+      const change = record.metadata as unknown as DocumentChange;
+      await storage.putIndexEntries(collectionId, record.id, [{ field: SEQUENCE_FIELD, value: change.sequence }]);
+    }
+    return true;
+  }
+
+  /**
+   * Run a flush after the earlier flushes of the collection in this context.
+   */
+  private exclusive(operation: () => Promise<void>): Promise<void> {
+    let byCollection = flushQueues.get(this.storage);
+    if (!byCollection) {
+      byCollection = new Map();
+      flushQueues.set(this.storage, byCollection);
+    }
+    const run = (byCollection.get(this.collectionId) ?? Promise.resolve()).then(operation, operation);
+    byCollection.set(this.collectionId, run.catch(() => undefined));
+    return run;
+  }
+}
@@ -13,3 +13,33 @@ export {
   type BroadcastMessage,
   type BroadcastListener,
 } from './broadcast.js';
+export { ChangeLog, changesCollectionId } from './change-log.js';
+export {
+  SyncReplica,
+  createSyncReplica,
+  syncCollectionId,
+  compareClocks,
+  type ConflictResolution,
+  type SyncVersion,
+  type SyncDocument,
+  type SyncChange,
+  type SyncRequest,
+  type SyncResponse,
+  type SyncTransport,
+  type SyncConflict,
+  type SyncReplicaOptions,
+  type ReplicaSyncOptions,
+  type SyncResult,
+  type SyncConnection,
+  type SyncEnvelope,
+} from './replication.js';
+export {
+  createMessagePortConnection,
+  createDataChannelConnection,
+  createConnectionTransport,
+  createHttpTransport,
+  type MessagePortLike,
+  type DataChannelLike,
+  type ConnectionTransportOptions,
+  type HttpTransportOptions,
+} from './transports.js';
@@ -0,0 +1,710 @@
+/**
+ * Sync between VectorDB replicas on different devices, without a server.
+ *
+ * Each replica gives every document a version: a version vector counting the
+ * edits each replica made to it, plus the time and replica of the latest
+ * edit. Local edits are found in the collection's change log (`db.changes()`)
+ * and versioned before anything is sent or received, so documents written
+ * while no replica was open are synced too.
+ *
+ * A sync pulls the peer's changes since the last pull and pushes the local
+ * changes since the last push, in pages, over any {@link SyncTransport}. Both
+ * directions are requests made by the syncing replica, so the peer only has
+ * to answer them: over a message port, a WebRTC data channel or HTTP.
+ * Incoming changes are applied in a transaction with the origin
+ * `sync:<peer replica ID>`, and are not sent back to that peer.
+ */
+
+import type { VectorDB, StoredDocument } from '../types.js';
+import type { EmbeddingModel } from '../embeddings/types.js';
+import type { Storage } from '../storage/index.js';
+import type { StorageAdapter } from '../storage/types.js';
+import { embedMany } from '../embeddings/embed.js';
+import { defaultTextExtractor } from '../embeddings/reindex.js';
+import {
+  serializeSnapshotDocument,
+  deserializeSnapshotDocument,
+  type SnapshotDocument,
+} from '../snapshots/stored-versions.js';
+import { SyncError } from '../errors/index.js';
+import { ChangeLog } from './change-log.js';
+
+/** Separates the collection ID from the suffix in stored sync record IDs. */
+const SEPARATOR = '\u001f';
+
+/**
+ * How concurrent edits of a document are resolved.
+ *
+ * - `'lww'`: the edit made last wins (ties broken by replica ID).
+ * - `'version-vector'`: an edit that was made with knowledge of the other
+ *   wins; truly concurrent edits are conflicts, resolved by `onConflict` or
+ *   else by the last-writer rule.
+ */
+export type ConflictResolution = 'lww' | 'version-vector';
+
+/**
+ * Version of a document on a replica.
+ */
+export interface SyncVersion {
+  /** Number of edits of the document made by each replica */
+  clock: Record<string, number>;
+  /** When the latest edit was made (ms since epoch) */
+  timestamp: number;
+  /** Replica that made the latest edit */
+  replicaId: string;
+}
+
+/**
+ * A document as sent between replicas, in the shape of `db.export()`. The
+ * vectors are left out when the receiver embeds documents itself.
+ */
+export type SyncDocument = Omit<SnapshotDocument, 'vector'> & { vector?: number[] };
+
+/**
+ * The latest change of a document, as sent between replicas.
+ */
+export interface SyncChange {
+  id: string;
+  deleted: boolean;
+  version: SyncVersion;
+  /** The document (absent for deletes) */
+  document?: SyncDocument;
+}
+
+/**
+ * Request sent by a syncing replica to its peer.
+ */
+export type SyncRequest =
+  | { type: 'hello'; replicaId: string; conflictResolution: ConflictResolution }
+  | { type: 'pull'; replicaId: string; since: number; limit: number; vectors: boolean }
+  | { type: 'push'; replicaId: string; changes: SyncChange[] };
+
+/**
+ * Response of a replica to a {@link SyncRequest}.
+ */
+export type SyncResponse =
+  | { type: 'hello'; replicaId: string; conflictResolution: ConflictResolution; vectors: boolean }
+  | { type: 'changes'; changes: SyncChange[]; lastSequence: number; hasMore: boolean }
+  | { type: 'pushed'; applied: number; conflicts: number; skipped: number }
+  | { type: 'error'; message: string };
+
+/**
+ * Carries requests to a peer replica and returns its responses.
+ */
+export interface SyncTransport {
+  request(request: SyncRequest): Promise<SyncResponse>;
+}
+
+/**
+ * Two versions of a document edited concurrently on two replicas.
+ */
+export interface SyncConflict {
+  id: string;
+  local: SyncVersion;
+  remote: SyncVersion;
+}
+
+/**
+ * Options for {@link createSyncReplica}.
+ */
+export interface SyncReplicaOptions {
+  /**
+   * ID of this replica. Generated and stored on first use when omitted.
+   */
+  replicaId?: string;
+
+  /** How concurrent edits are resolved; every replica must use the same (default: 'lww') */
+  conflictResolution?: ConflictResolution;
+
+  /**
+   * Pick the version that wins a conflict under `'version-vector'`
+   * resolution. Must give the same answer on every replica, with `local` and
+   * `remote` swapped. Defaults to the last-writer rule.
+   */
+  onConflict?: (conflict: SyncConflict) => 'local' | 'remote';
+
+  /**
+   * Embedding model of this replica. When set, peers send documents without
+   * their vectors and the main vector is embedded here from the metadata
+   * text. Multi-vector, named and sparse vectors are not synced then.
+   */
+  model?: EmbeddingModel;
+
+  /**
+   * Custom text extractor for documents embedded with `model`.
+   * Return `null` to skip a document.
+   */
+  textExtractor?: (metadata: Record<string, unknown>) => string | null;
+
+  /**
+   * Metadata field holding the text embedded with `model` (default: '_text').
+   * Falls back to: 'text', 'content', 'body', '__text', 'pageContent'.
+   */
+  textField?: string;
+
+  /** Number of changes sent per request (default: 100) */
+  batchSize?: number;
+}
+
+/**
+ * Options for {@link SyncReplica.sync}.
+ */
+export interface ReplicaSyncOptions {
+  /** AbortSignal to stop between pages */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Result of {@link SyncReplica.sync}.
+ */
+export interface SyncResult {
+  /** Changes received and applied here */
+  pulled: number;
+  /** Changes sent and applied by the peer */
+  pushed: number;
+  /** Concurrent edits resolved on either side (`'version-vector'` only) */
+  conflicts: number;
+  /** Documents received without vectors and without text to embed */
+  skipped: number;
+}
+
+/**
+ * Stored version of a document.
+ */
+interface VersionRecord extends SyncVersion {
+  deleted: boolean;
+  /** Peer the version was received from, which it is not sent back to */
+  from?: string;
+}
+
+/**
+ * Stored state of a replica.
+ */
+interface ReplicaState {
+  replicaId: string;
+  /** Sequence number of the change log up to which local edits are versioned */
+  versioned: number;
+  /** Sequence numbers synced with each peer: of its log (pulled) and of ours (pushed) */
+  peers: Record<string, { pulled: number; pushed: number }>;
+}
+
+/**
+ * Collection ID under which the sync state of a collection is stored.
+ */
+export function syncCollectionId(collectionId: string): string {
+  return `${collectionId}${SEPARATOR}sync`;
+}
+
+/**
+ * Compare two version vectors.
+ */
+export function compareClocks(
+  a: Record<string, number>,
+  b: Record<string, number>
+): 'before' | 'after' | 'equal' | 'concurrent' {
+  let less = false;
+  let greater = false;
+  for (const replica of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const x = a[replica] ?? 0;
+    const y = b[replica] ?? 0;
+    if (x < y) less = true;
+    if (x > y) greater = true;
+  }
+  if (less && greater) return 'concurrent';
+  if (less) return 'before';
+  if (greater) return 'after';
+  return 'equal';
+}
+
+/**
+ * Order two versions by the last-writer rule.
+ *
+ * @returns A positive number when `a` was written last.
+ */
+function compareWrites(a: SyncVersion, b: SyncVersion): number {
+  return a.timestamp - b.timestamp || (a.replicaId > b.replicaId ? 1 : a.replicaId < b.replicaId ? -1 : 0);
+}
+
+/**
+ * Component-wise maximum of two version vectors.
+ */
+function mergeClocks(a: Record<string, number>, b: Record<string, number>): Record<string, number> {
+  const merged = { ...a };
+  for (const [replica, count] of Object.entries(b)) {
+    merged[replica] = Math.max(merged[replica] ?? 0, count);
+  }
+  return merged;
+}
+
+/**
+ * One VectorDB collection taking part in sync.
+ *
+ * @example
+ * ```ts
+ * const replica = await createSyncReplica(db);
+ *
+ * // On the device that answers
+ * replica.listen(createMessagePortConnection(port));
+ *
+ * // On the device that syncs
+ * const result = await replica.sync(createConnectionTransport(createMessagePortConnection(port)));
+ * ```
+ */
+export class SyncReplica {
+  private storage: Storage | StorageAdapter;
+  private collectionId: string;
+  private conflictResolution: ConflictResolution;
+  private batchSize: number;
+  private state: ReplicaState | null = null;
+  /** Runs operations one at a time */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private db: VectorDB,
+    private options: SyncReplicaOptions = {}
+  ) {
+    // Access the internal VectorDB implementation to store sync state
+    const dbImpl = db as unknown as {
+      getStorage: () => Storage | StorageAdapter;
+      getCollectionId: () => string;
+    };
+    this.storage = dbImpl.getStorage();
+    this.collectionId = dbImpl.getCollectionId();
+    this.conflictResolution = options.conflictResolution ?? 'lww';
+    this.batchSize = options.batchSize ?? 100;
+  }
+
+  /**
+   * ID of this replica.
+   */
+  get replicaId(): string {
+    return this.requireState().replicaId;
+  }
+
+  /**
+   * Load or create the stored state. Documents written before the change log
+   * existed are given entries in it, so they are synced too.
+   */
+  async open(): Promise<void> {
+    const stored = await this.storage.getDocument(this.stateId());
+    if (stored) {
+      this.state = stored.metadata as unknown as ReplicaState;
+      return;
+    }
+
+    this.state = {
+      replicaId: this.options.replicaId ?? crypto.randomUUID(),
+      versioned: 0,
+      peers: {},
+    };
+    await this.db.transaction(async () => {
+      const logged = new Set((await this.db.changes()).changes.map((change) => change.id));
+      const log = new ChangeLog(this.storage, this.collectionId);
+      for (const doc of await this.storage.getAllDocuments(this.collectionId)) {
+        if (!logged.has(doc.id)) log.record(doc.id, 'add');
+      }
+      await log.flush();
+    });
+    await this.saveState();
+  }
+
+  /**
+   * Sync with a peer: pull its changes, then push the local ones.
+   *
+   * @throws {SyncError} If the peer fails a request or resolves conflicts differently.
+   */
+  async sync(transport: SyncTransport, options?: ReplicaSyncOptions): Promise<SyncResult> {
+    const abortSignal = options?.abortSignal;
+    abortSignal?.throwIfAborted();
+
+    const state = this.requireState();
+    const hello = expectResponse(
+      await transport.request({
+        type: 'hello',
+        replicaId: state.replicaId,
+        conflictResolution: this.conflictResolution,
+      }),
+      'hello'
+    );
+    if (hello.conflictResolution !== this.conflictResolution) {
+      throw new SyncError(
+        `Peer resolves conflicts with "${hello.conflictResolution}", this replica with "${this.conflictResolution}"`,
+        { hint: 'Create every replica with the same conflictResolution option.' }
+      );
+    }
+    const peer = hello.replicaId;
+    state.peers[peer] ??= { pulled: 0, pushed: 0 };
+
+    const result: SyncResult = { pulled: 0, pushed: 0, conflicts: 0, skipped: 0 };
+
+    let hasMore = true;
+    while (hasMore) {
+      abortSignal?.throwIfAborted();
+      const page = expectResponse(
+        await transport.request({
+          type: 'pull',
+          replicaId: state.replicaId,
+          since: state.peers[peer].pulled,
+          limit: this.batchSize,
+          vectors: !this.options.model,
+        }),
+        'changes'
+      );
+      const applied = await this.exclusive(() => this.apply(page.changes, peer));
+      result.pulled += applied.applied;
+      result.conflicts += applied.conflicts;
+      result.skipped += applied.skipped;
+
+      state.peers[peer].pulled = page.lastSequence;
+      await this.saveState();
+      hasMore = page.hasMore;
+    }
+
+    hasMore = true;
+    while (hasMore) {
+      abortSignal?.throwIfAborted();
+      const page = await this.exclusive(() =>
+        this.outgoing(state.peers[peer].pushed, peer, hello.vectors)
+      );
+      if (page.changes.length > 0) {
+        const pushed = expectResponse(
+          await transport.request({ type: 'push', replicaId: state.replicaId, changes: page.changes }),
+          'pushed'
+        );
+        result.pushed += pushed.applied;
+        result.conflicts += pushed.conflicts;
+      }
+
+      state.peers[peer].pushed = page.lastSequence;
+      await this.saveState();
+      hasMore = page.hasMore;
+    }
+
+    return result;
+  }
+
+  /**
+   * Answer a request from a syncing peer. Errors are returned as `error`
+   * responses.
+   */
+  async handle(request: SyncRequest): Promise<SyncResponse> {
+    try {
+      switch (request.type) {
+        case 'hello':
+          return {
+            type: 'hello',
+            replicaId: this.requireState().replicaId,
+            conflictResolution: this.conflictResolution,
+            vectors: !this.options.model,
+          };
+        case 'pull': {
+          const page = await this.exclusive(() =>
+            this.outgoing(request.since, request.replicaId, request.vectors, request.limit)
+          );
+          return { type: 'changes', ...page };
+        }
+        case 'push':
+          return { type: 'pushed', ...(await this.exclusive(() => this.apply(request.changes, request.replicaId))) };
+        default:
+          throw new SyncError(`Unknown sync request: ${(request as { type: string }).type}`);
+      }
+    } catch (error) {
+      return { type: 'error', message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Answer the requests that arrive on a connection.
+   *
+   * @returns Function that stops listening.
+   */
+  listen(connection: SyncConnection): () => void {
+    return connection.onMessage((message) => {
+      const envelope = message as SyncEnvelope;
+      if (envelope?.sync !== 'request') return;
+      void this.handle(envelope.request).then((response) =>
+        connection.send({ sync: 'response', id: envelope.id, response } satisfies SyncEnvelope)
+      );
+    });
+  }
+
+  /**
+   * Give a version to every local edit made since the last call.
+   */
+  private async versionLocalEdits(): Promise<void> {
+    const state = this.requireState();
+    let hasMore = true;
+    while (hasMore) {
+      const page = await this.db.changes({ since: state.versioned, limit: this.batchSize });
+      for (const change of page.changes) {
+        // Changes applied by sync were versioned when they were applied
+        if (change.origin !== undefined) continue;
+
+        const current = await this.readVersion(change.id);
+        const clock = { ...current?.clock };
+        clock[state.replicaId] = (clock[state.replicaId] ?? 0) + 1;
+        await this.writeVersion(change.id, {
+          clock,
+          timestamp: change.timestamp,
+          replicaId: state.replicaId,
+          deleted: change.type === 'delete',
+        });
+      }
+      state.versioned = page.lastSequence;
+      hasMore = page.hasMore;
+    }
+    await this.saveState();
+  }
+
+  /**
+   * Read the changes after a sequence number of the local change log, as they
+   * are sent to a peer.
+   */
+  private async outgoing(
+    since: number,
+    peer: string,
+    vectors: boolean,
+    limit = this.batchSize
+  ): Promise<{ changes: SyncChange[]; lastSequence: number; hasMore: boolean }> {
+    // The write lock keeps documents and their versions consistent while they are read
+    return this.db.transaction(async () => {
+      await this.versionLocalEdits();
+
+      const page = await this.db.changes({ since, limit });
+      const changes: SyncChange[] = [];
+      for (const change of page.changes) {
+        const record = await this.readVersion(change.id);
+        if (!record || record.from === peer) continue;
+
+        const { deleted, from: _from, ...version } = record;
+        if (deleted) {
+          changes.push({ id: change.id, deleted: true, version });
+          continue;
+        }
+
+        const doc = await this.db.get(change.id);
+        const stored = await this.storage.getDocument(change.id);
+        if (!doc || !stored) continue;
+        const document: SyncDocument = serializeSnapshotDocument(doc, stored);
+        if (!vectors) {
+          delete document.vector;
+          delete document.vectors;
+          delete document.namedVectors;
+          delete document.sparseVector;
+        }
+        changes.push({ id: change.id, deleted: false, version, document });
+      }
+      return { changes, lastSequence: page.lastSequence, hasMore: page.hasMore };
+    });
+  }
+
+  /**
+   * Apply the changes received from a peer whose versions win over the local ones.
+   */
+  private async apply(
+    changes: SyncChange[],
+    peer: string
+  ): Promise<{ applied: number; conflicts: number; skipped: number }> {
+    const outcome = { applied: 0, conflicts: 0, skipped: 0 };
+    const embedded = await this.embedMissingVectors(changes);
+    const versions = new Map<string, VersionRecord>();
+
+    await this.db.transaction(
+      async (tx) => {
+        // Local edits need versions before they are compared with the peer's
+        await this.versionLocalEdits();
+
+        for (const change of changes) {
+          const local = await this.readVersion(change.id);
+          const remote = change.version;
+          let winner: 'local' | 'remote' = 'remote';
+
+          if (local && this.conflictResolution === 'lww') {
+            winner = compareWrites(remote, local) > 0 ? 'remote' : 'local';
+          } else if (local) {
+            const order = compareClocks(remote.clock, local.clock);
+            if (order === 'concurrent') {
+              outcome.conflicts++;
+              winner =
+                this.options.onConflict?.({ id: change.id, local, remote }) ??
+                (compareWrites(remote, local) > 0 ? 'remote' : 'local');
+              if (winner === 'local') {
+                // The local version now supersedes both
+                versions.set(change.id, { ...local, clock: mergeClocks(local.clock, remote.clock) });
+              }
+            } else if (order !== 'after') {
+              winner = 'local';
+            }
+          }
+          if (winner === 'local') continue;
+
+          if (change.deleted) {
+            await tx.delete(change.id);
+          } else {
+            const doc = change.document!;
+            const document = deserializeSnapshotDocument({ ...doc, vector: doc.vector ?? [] });
+            if (!doc.vector) {
+              const vector = embedded.get(change.id);
+              if (!vector) {
+                outcome.skipped++;
+                continue;
+              }
+              document.vector = vector;
+            }
+            await tx.add(document);
+            // Keep the timestamps the document had
+            await this.storage.addDocument({
+              id: change.id,
+              collectionId: this.collectionId,
+              metadata: doc.metadata,
+              createdAt: doc.createdAt,
+              updatedAt: doc.updatedAt,
+            });
+          }
+          versions.set(change.id, { ...remote, deleted: change.deleted, from: peer });
+          outcome.applied++;
+        }
+      },
+      { origin: `sync:${peer}` }
+    );
+
+    for (const [id, version] of versions) {
+      await this.writeVersion(id, version);
+    }
+    return outcome;
+  }
+
+  /**
+   * Embed the main vector of the received documents that were sent without
+   * vectors.
+   *
+   * @returns Vectors by document ID (documents without text are left out).
+   */
+  private async embedMissingVectors(changes: SyncChange[]): Promise<Map<string, Float32Array>> {
+    const missing = changes.filter((change) => change.document && !change.document.vector);
+    if (missing.length === 0) return new Map();
+
+    const { model, textExtractor, textField } = this.options;
+    if (!model) {
+      throw new SyncError('Received documents without vectors', {
+        hint: 'Pass a model to createSyncReplica() to embed documents sent without vectors.',
+      });
+    }
+
+    const ids: string[] = [];
+    const texts: string[] = [];
+    for (const change of missing) {
+      const metadata = change.document!.metadata ?? {};
+      const text = textExtractor ? textExtractor(metadata) : defaultTextExtractor(metadata, textField);
+      if (text) {
+        ids.push(change.id);
+        texts.push(text);
+      }
+    }
+    if (texts.length === 0) return new Map();
+
+    const { embeddings } = await embedMany({ model, values: texts });
+    return new Map(ids.map((id, i) => [id, embeddings[i]]));
+  }
+
+  private requireState(): ReplicaState {
+    if (!this.state) {
+      throw new SyncError('Sync replica is not open', { hint: 'Create replicas with createSyncReplica().' });
+    }
+    return this.state;
+  }
+
+  private stateId(): string {
+    return `${syncCollectionId(this.collectionId)}:state`;
+  }
+
+  private versionId(docId: string): string {
+    return `${syncCollectionId(this.collectionId)}:doc:${docId}`;
+  }
+
+  private async saveState(): Promise<void> {
+    const now = Date.now();
+    await this.storage.addDocument({
+      id: this.stateId(),
+      collectionId: syncCollectionId(this.collectionId),
+      metadata: this.requireState() as unknown as Record<string, unknown>,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  private async readVersion(docId: string): Promise<VersionRecord | null> {
+    const stored: StoredDocument | null = await this.storage.getDocument(this.versionId(docId));
+    return (stored?.metadata as unknown as VersionRecord | undefined) ?? null;
+  }
+
+  private async writeVersion(docId: string, version: VersionRecord): Promise<void> {
+    const now = Date.now();
+    await this.storage.addDocument({
+      id: this.versionId(docId),
+      collectionId: syncCollectionId(this.collectionId),
+      metadata: version as unknown as Record<string, unknown>,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(operation, operation);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * Check the type of a response, throwing the peer's error.
+ */
+function expectResponse<T extends SyncResponse['type']>(
+  response: SyncResponse,
+  type: T
+): Extract<SyncResponse, { type: T }> {
+  if (response.type === 'error') {
+    throw new SyncError(`Peer failed the sync request: ${response.message}`);
+  }
+  if (response.type !== type) {
+    throw new SyncError(`Expected a "${type}" response from the peer, got "${response.type}"`);
+  }
+  return response as Extract<SyncResponse, { type: T }>;
+}
+
+/**
+ * A two-way message channel to a peer, such as a `MessagePort` or a WebRTC
+ * data channel (see `createMessagePortConnection()`).
+ */
+export interface SyncConnection {
+  send(message: unknown): void;
+  /** Listen for messages; returns a function that stops listening */
+  onMessage(listener: (message: unknown) => void): () => void;
+}
+
+/**
+ * Messages exchanged over a {@link SyncConnection}.
+ */
+export type SyncEnvelope =
+  | { sync: 'request'; id: number; request: SyncRequest }
+  | { sync: 'response'; id: number; response: SyncResponse };
+
+/**
+ * Create a sync replica of a VectorDB collection.
+ *
+ * @param db - VectorDB instance (must be initialized; not a worker proxy)
+ * @param options - Replica options
+ *
+ * @example
+ * ```ts
+ * import { createSyncReplica, createHttpTransport } from '@localmode/core';
+ *
+ * const replica = await createSyncReplica(db, { conflictResolution: 'version-vector' });
+ * const { pulled, pushed } = await replica.sync(createHttpTransport('http://laptop.local:8080/sync'));
+ * ```
+ */
+export async function createSyncReplica(db: VectorDB, options?: SyncReplicaOptions): Promise<SyncReplica> {
+  const replica = new SyncReplica(db, options);
+  await replica.open();
+  return replica;
+}
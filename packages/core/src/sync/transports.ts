@@ -0,0 +1,160 @@
+/**
+ * Transports that carry sync requests between replicas.
+ *
+ * A {@link SyncConnection} is a two-way message channel; the replica that
+ * answers listens on it with `replica.listen()`, and the syncing replica sends
+ * requests over it with {@link createConnectionTransport}. HTTP needs no
+ * connection: the server passes request bodies to `replica.handle()`.
+ */
+
+import type { SyncConnection, SyncEnvelope, SyncRequest, SyncResponse, SyncTransport } from './replication.js';
+import { SyncError } from '../errors/index.js';
+
+/**
+ * The parts of a `MessagePort`, `Worker`, `BroadcastChannel` or `window`
+ * used by {@link createMessagePortConnection}.
+ */
+export interface MessagePortLike {
+  postMessage(message: unknown): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  start?(): void;
+}
+
+/**
+ * The parts of a WebRTC `RTCDataChannel` used by
+ * {@link createDataChannelConnection}.
+ */
+export interface DataChannelLike {
+  send(data: string): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+}
+
+/**
+ * Options for {@link createConnectionTransport}.
+ */
+export interface ConnectionTransportOptions {
+  /** Time to wait for each response in milliseconds (default: 30000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for {@link createHttpTransport}.
+ */
+export interface HttpTransportOptions {
+  /** Headers sent with every request, such as an authorization token */
+  headers?: Record<string, string>;
+  /** Fetch implementation (default: the global `fetch`) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Connect over a `MessagePort` (or anything with `postMessage`). Messages are
+ * sent as structured clones.
+ *
+ * @example
+ * ```ts
+ * const { port1, port2 } = new MessageChannel();
+ * replicaA.listen(createMessagePortConnection(port1));
+ * await replicaB.sync(createConnectionTransport(createMessagePortConnection(port2)));
+ * ```
+ */
+export function createMessagePortConnection(port: MessagePortLike): SyncConnection {
+  return {
+    send: (message) => port.postMessage(message),
+    onMessage(listener) {
+      const handler = (event: MessageEvent): void => listener(event.data);
+      port.addEventListener('message', handler);
+      port.start?.();
+      return () => port.removeEventListener('message', handler);
+    },
+  };
+}
+
+/**
+ * Connect over a WebRTC data channel. Messages are sent as JSON.
+ */
+export function createDataChannelConnection(channel: DataChannelLike): SyncConnection {
+  return {
+    send: (message) => channel.send(JSON.stringify(message)),
+    onMessage(listener) {
+      const handler = (event: MessageEvent): void => {
+        if (typeof event.data === 'string') listener(JSON.parse(event.data));
+      };
+      channel.addEventListener('message', handler);
+      return () => channel.removeEventListener('message', handler);
+    },
+  };
+}
+
+/**
+ * Send sync requests over a connection on which the peer replica listens.
+ */
+export function createConnectionTransport(
+  connection: SyncConnection,
+  options?: ConnectionTransportOptions
+): SyncTransport {
+  const timeoutMs = options?.timeoutMs ?? 30000;
+  const pending = new Map<number, (response: SyncResponse) => void>();
+  let nextId = 0;
+  let unsubscribe: (() => void) | null = null;
+
+  return {
+    request(request: SyncRequest): Promise<SyncResponse> {
+      unsubscribe ??= connection.onMessage((message) => {
+        const envelope = message as SyncEnvelope;
+        if (envelope?.sync === 'response') pending.get(envelope.id)?.(envelope.response);
+      });
+
+      const id = nextId++;
+      return new Promise<SyncResponse>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          pending.delete(id);
+          reject(
+            new SyncError(`Sync peer did not answer a "${request.type}" request within ${timeoutMs}ms`, {
+              hint: 'Check that the peer called replica.listen() on the other end of the connection.',
+            })
+          );
+        }, timeoutMs);
+        pending.set(id, (response) => {
+          clearTimeout(timer);
+          pending.delete(id);
+          resolve(response);
+        });
+        connection.send({ sync: 'request', id, request } satisfies SyncEnvelope);
+      });
+    },
+  };
+}
+
+/**
+ * Send sync requests as JSON `POST`s to a server that answers them with
+ * `replica.handle()`.
+ *
+ * @example
+ * ```ts
+ * // Server (any framework)
+ * app.post('/sync', async (req, res) => res.json(await replica.handle(req.body)));
+ *
+ * // Client
+ * await replica.sync(createHttpTransport('http://192.168.1.20:8080/sync'));
+ * ```
+ */
+export function createHttpTransport(url: string, options?: HttpTransportOptions): SyncTransport {
+  const fetchFn = options?.fetch ?? fetch;
+
+  return {
+    async request(request: SyncRequest): Promise<SyncResponse> {
+      const response = await fetchFn(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...options?.headers },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        throw new SyncError(`Sync request to ${url} failed with status ${response.status}`);
+      }
+      return (await response.json()) as SyncResponse;
+    },
+  };
+}
@@ -18,6 +18,8 @@ import type {
   Landmark,
 } from '../vision/types.js';
 import type { LanguageDetectionModel } from '../translation/types.js';
+import type { DoGenerateOptions, DoGenerateResult, DoStreamOptions, StreamChunk } from '../generation/types.js';
+import { matchesFilter } from '../query/filter.js';
 
 // ============================================================================
 // Seeded Random
@@ -684,7 +686,7 @@ export interface SimpleMockVectorDB {
   delete(id: string): Promise<void>;
   deleteMany(ids: string[]): Promise<void>;
   search(queryVector: Float32Array, options?: SearchOptions): Promise<SearchResult[]>;
-  count(): Promise<number>;
+  count(options?: { filter?: SearchOptions['filter'] }): Promise<number>;
   clear(): Promise<void>;
   close(): Promise<void>;
 }
@@ -761,7 +763,7 @@ export function createMockVectorDB(options: MockVectorDBOptions = {}): SimpleMoc
 
       for (const doc of documents.values()) {
         // Apply filter if provided
-        if (options.filter && !matchesFilter(doc, options.filter)) {
+        if (options.filter && !matchesFilter(doc.metadata, options.filter)) {
           continue;
         }
 
@@ -783,8 +785,15 @@ export function createMockVectorDB(options: MockVectorDBOptions = {}): SimpleMoc
       return results.slice(0, k);
     },
 
-    async count(): Promise<number> {
-      return documents.size;
+    async count(countOptions: { filter?: SearchOptions['filter'] } = {}): Promise<number> {
+      if (!countOptions.filter) {
+        return documents.size;
+      }
+      let count = 0;
+      for (const doc of documents.values()) {
+        if (matchesFilter(doc.metadata, countOptions.filter)) count++;
+      }
+      return count;
     },
 
     async clear(): Promise<void> {
@@ -818,55 +827,6 @@ function cosineSimilarity(a: Float32Array, b: Float32Array): number {
   return dotProduct / magnitude;
 }
 
-/**
- * Check if document matches filter.
- */
-function matchesFilter(doc: Document, filter: Record<string, unknown>): boolean {
-  for (const [key, value] of Object.entries(filter)) {
-    const docValue = doc.metadata?.[key];
-
-    if (typeof value === 'object' && value !== null) {
-      // Handle operators
-      for (const [op, opValue] of Object.entries(value)) {
-        switch (op) {
-          case '$eq':
-            if (docValue !== opValue) return false;
-            break;
-          case '$ne':
-            if (docValue === opValue) return false;
-            break;
-          case '$gt':
-            if (!((docValue as number) > (opValue as number))) return false;
-            break;
-          case '$gte':
-            if (!((docValue as number) >= (opValue as number))) return false;
-            break;
-          case '$lt':
-            if (!((docValue as number) < (opValue as number))) return false;
-            break;
-          case '$lte':
-            if (!((docValue as number) <= (opValue as number))) return false;
-            break;
-          case '$in':
-            if (!Array.isArray(opValue) || !opValue.includes(docValue)) return false;
-            break;
-          case '$nin':
-            if (!Array.isArray(opValue) || opValue.includes(docValue)) return false;
-            break;
-          default:
-            // Unknown operator, skip
-            break;
-        }
-      }
-    } else {
-      // Direct equality
-      if (docValue !== value) return false;
-    }
-  }
-
-  return true;
-}
-
 // ============================================================================
 // Mock Image Caption Model// ============================================================================
 
@@ -2392,6 +2352,123 @@ export function createMockMultimodalEmbeddingModel(
   };
 }
 
+// ============================================================================
+// Mock Sparse Embedding Model
+// ============================================================================
+
+/**
+ * Options for creating a mock sparse embedding model.
+ */
+export interface MockSparseEmbeddingModelOptions {
+  /** Size of the sparse space (default: 30522, the BERT vocabulary size) */
+  dimensions?: number;
+
+  /** Delay in milliseconds before returning (default: 0) */
+  delay?: number;
+
+  /** Number of times to fail before succeeding (default: 0) */
+  failCount?: number;
+
+  /** Error to throw when failing */
+  failError?: Error;
+
+  /** Model ID (default: 'mock:sparse-embedding') */
+  modelId?: string;
+}
+
+/**
+ * Create a mock sparse embedding model for testing.
+ *
+ * Each lowercase word is hashed to a dimension and weighted by
+ * `log(1 + count)`, so texts sharing words get positive dot products.
+ *
+ * @param options - Configuration options
+ * @returns Mock SparseEmbeddingModel instance
+ *
+ * @example
+ * ```typescript
+ * import { createMockSparseEmbeddingModel, embedSparse } from '@localmode/core';
+ *
+ * const model = createMockSparseEmbeddingModel();
+ * const { embedding } = await embedSparse({ model, value: 'reset password' });
+ * expect(embedding.indices.length).toBe(2);
+ * ```
+ */
+export function createMockSparseEmbeddingModel(options: MockSparseEmbeddingModelOptions = {}) {
+  const {
+    dimensions = 30522,
+    delay = 0,
+    failCount = 0,
+    failError = new Error('Mock sparse embedding failed'),
+    modelId = 'mock:sparse-embedding',
+  } = options;
+
+  let failures = 0;
+  let callCount = 0;
+
+  return {
+    modelId,
+    provider: 'mock',
+    dimensions,
+    maxEmbeddingsPerCall: 100 as number | undefined,
+    supportsParallelCalls: true,
+
+    async doEmbedSparse(embedOptions: {
+      values: string[];
+      abortSignal?: AbortSignal;
+      headers?: Record<string, string>;
+      providerOptions?: Record<string, Record<string, unknown>>;
+    }) {
+      callCount++;
+
+      embedOptions.abortSignal?.throwIfAborted?.();
+
+      if (delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        embedOptions.abortSignal?.throwIfAborted?.();
+      }
+
+      if (failures < failCount) {
+        failures++;
+        throw failError;
+      }
+
+      const embeddings = embedOptions.values.map((value) => {
+        const counts = new Map<number, number>();
+        for (const word of value.toLowerCase().match(/\w+/g) ?? []) {
+          const index = hashString(word) % dimensions;
+          counts.set(index, (counts.get(index) ?? 0) + 1);
+        }
+        const indices = Array.from(counts.keys()).sort((a, b) => a - b);
+        return {
+          indices: new Uint32Array(indices),
+          values: new Float32Array(indices.map((i) => Math.log1p(counts.get(i)!))),
+        };
+      });
+
+      return {
+        embeddings,
+        usage: {
+          tokens: embedOptions.values.reduce((sum, v) => sum + v.split(/\s+/).length, 0),
+        },
+        response: {
+          id: `mock-sparse-${callCount}`,
+          modelId,
+          timestamp: new Date(),
+        },
+      };
+    },
+
+    get callCount() {
+      return callCount;
+    },
+    resetCallCount() {
+      callCount = 0;
+      failures = 0;
+    },
+  };
+}
+
 // ============================================================================
 // Mock Import/Export Data Helpers
 // ============================================================================
@@ -2539,12 +2616,18 @@ export interface MockAgentLanguageModelOptions {
   /** Sequence of JSON responses the model should return (as raw text) */
   actionSequence: Array<
     | { type: 'tool_call'; tool: string; args: Record<string, unknown> }
+    | { type: 'tool_calls'; calls: Array<{ tool: string; args: Record<string, unknown> }> }
     | { type: 'finish'; result: string }
   >;
   /** Context length in tokens (default: 4096) */
   contextLength?: number;
   /** Delay per step in milliseconds (default: 0) */
   delay?: number;
+  /**
+   * Act as a model with native tool calling: tool calls are returned in
+   * `toolCalls` and finish actions as plain text (default: false)
+   */
+  nativeTools?: boolean;
 }
 
 /**
@@ -2552,6 +2635,13 @@ export interface MockAgentLanguageModelOptions {
  * of agent actions (tool calls and finish). Useful for testing the
  * agent ReAct loop without a real LLM.
  *
+ * With `nativeTools`, the model reports `supportsTools` and records the
+ * options of each call in `calls`.
+ *
+ * `doStream` replies in the tool-calling format used by `agent.stream()`:
+ * finish results stream word by word. Native tool calls arrive on the final
+ * chunk; without `nativeTools`, the JSON tool call streams in small pieces.
+ *
  * @param options - Configuration with action sequence
  * @returns A LanguageModel that returns JSON action strings
  *
@@ -2570,16 +2660,31 @@ export interface MockAgentLanguageModelOptions {
 export function createMockLanguageModelForAgent(
   options: MockAgentLanguageModelOptions
 ) {
-  const { actionSequence, contextLength = 4096, delay = 0 } = options;
+  const { actionSequence, contextLength = 4096, delay = 0, nativeTools = false } = options;
   const queue = [...actionSequence];
+  const calls: DoGenerateOptions[] = [];
   let callCount = 0;
 
+  /** The tool calls of an action, empty for finish actions */
+  const actionToolCalls = (action: (typeof actionSequence)[number] | undefined) =>
+    action?.type === 'tool_call' ? [action] : action?.type === 'tool_calls' ? action.calls : [];
+
+  /** Native tool calls; later calls of a step get an index suffix */
+  const nativeToolCalls = (action: (typeof actionSequence)[number] | undefined) =>
+    actionToolCalls(action).map((call, i) => ({
+      toolCallId: i === 0 ? `call_${callCount}` : `call_${callCount}_${i}`,
+      toolName: call.tool,
+      args: call.args,
+    }));
+
   return {
     modelId: 'mock:agent-llm',
     provider: 'mock',
     contextLength,
+    supportsTools: nativeTools,
 
-    async doGenerate({ abortSignal }: { prompt: string; abortSignal?: AbortSignal }) {
+    async doGenerate(generateOptions: DoGenerateOptions): Promise<DoGenerateResult> {
+      const { abortSignal } = generateOptions;
       abortSignal?.throwIfAborted?.();
 
       if (delay > 0) {
@@ -2588,7 +2693,17 @@ export function createMockLanguageModelForAgent(
       }
 
       callCount++;
+      calls.push(generateOptions);
       const action = queue.shift();
+
+      if (nativeTools) {
+        const usage = { inputTokens: 10, outputTokens: 10, totalTokens: 20, durationMs: 1 };
+        if (action && action.type !== 'finish') {
+          return { text: '', finishReason: 'tool_calls', usage, toolCalls: nativeToolCalls(action) };
+        }
+        return { text: action?.result ?? 'No more actions in sequence.', finishReason: 'stop', usage };
+      }
+
       if (!action) {
         // Default to finish if sequence exhausted
         const text = JSON.stringify({ type: 'finish', result: 'No more actions in sequence.' });
@@ -2607,9 +2722,49 @@ export function createMockLanguageModelForAgent(
       };
     },
 
+    async *doStream(streamOptions: DoStreamOptions): AsyncIterable<StreamChunk> {
+      const { abortSignal } = streamOptions;
+      abortSignal?.throwIfAborted?.();
+
+      if (delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        abortSignal?.throwIfAborted?.();
+      }
+
+      callCount++;
+      calls.push(streamOptions);
+      const action = queue.shift();
+      const usage = { inputTokens: 10, outputTokens: 10, totalTokens: 20, durationMs: 1 };
+
+      if (action && action.type !== 'finish') {
+        if (nativeTools) {
+          yield { text: '', done: true, finishReason: 'tool_calls', usage, toolCalls: nativeToolCalls(action) };
+        } else {
+          const toolCalls = actionToolCalls(action).map((call) => ({ name: call.tool, arguments: call.args }));
+          const json = JSON.stringify({ tool_calls: toolCalls });
+          for (let i = 0; i < json.length; i += 8) {
+            yield { text: json.slice(i, i + 8), done: false };
+          }
+          yield { text: '', done: true, finishReason: 'stop', usage };
+        }
+        return;
+      }
+
+      const text = action?.result ?? 'No more actions in sequence.';
+      for (const word of text.split(/(?<= )/)) {
+        abortSignal?.throwIfAborted?.();
+        yield { text: word, done: false };
+      }
+      yield { text: '', done: true, finishReason: 'stop', usage };
+    },
+
     get callCount() {
       return callCount;
     },
+
+    get calls() {
+      return calls;
+    },
   };
 }
 
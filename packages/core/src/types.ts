@@ -1,6 +1,7 @@
 import type { QuantizationConfig, ScalarCalibrationData, PQCodebook } from './quantization/types.js';
 import type { ModelFingerprint } from './embeddings/types.js';
 import type { HNSWGPUOptions } from './hnsw/gpu/types.js';
+import type { BM25Options } from './rag/types.js';
 
 /**
  * Encryption configuration options.
@@ -35,8 +36,28 @@ export interface VectorDBConfig<TMetadata extends Record<string, unknown> = Reco
   /** Database name (used for IndexedDB store name) */
   name: string;
 
-  /** Number of dimensions for vectors */
-  dimensions: number;
+  /**
+   * Number of dimensions for vectors, or named vector spaces with their own
+   * dimensions, e.g. `{ text: 384, image: 512 }`.
+   *
+   * Each named space has its own HNSW index and distance function. The first
+   * space is primary: its vector is the document's `vector` and is required,
+   * other spaces are optional per document. Quantization and compression apply
+   * to the primary space only.
+   *
+   * @example
+   * ```ts
+   * const db = await createVectorDB({
+   *   name: 'catalog',
+   *   dimensions: { text: 384, image: { dimensions: 512, indexOptions: { distanceFunction: 'dot' } } },
+   * });
+   *
+   * await db.add({ id: 'sku-1', namedVectors: { text: textEmbedding, image: imageEmbedding } });
+   * await db.search(imageQuery, { using: 'image', k: 10 });
+   * await db.searchFused({ text: textQuery, image: imageQuery }, { k: 10 });
+   * ```
+   */
+  dimensions: number | NamedVectorSpaces;
 
   /**
    * Storage backend.
@@ -46,9 +67,34 @@ export interface VectorDBConfig<TMetadata extends Record<string, unknown> = Reco
    */
   storage?: 'indexeddb' | 'memory' | import('./storage/types.js').StorageAdapter;
 
+  /**
+   * Index used for the primary vector space (default: `'hnsw'`).
+   *
+   * HNSW keeps every vector and graph connection in memory and saves the
+   * whole graph. `'ivf'` groups vectors into k-means partitions stored through
+   * the storage adapter and loads only the partitions a query probes, so
+   * memory and open time stay small for very large collections. `'flat'`
+   * scans every vector exactly and keeps no graph. Named vector spaces and
+   * multi-vector documents always use HNSW.
+   *
+   * @example
+   * ```ts
+   * const db = await createVectorDB({
+   *   name: 'archive',
+   *   dimensions: 384,
+   *   index: 'ivf',
+   *   ivfOptions: { partitions: 512, probes: 16 },
+   * });
+   * ```
+   */
+  index?: VectorIndexType;
+
   /** HNSW index configuration options */
   indexOptions?: HNSWOptions;
 
+  /** IVF index configuration options (used when `index` is `'ivf'`) */
+  ivfOptions?: IVFOptions;
+
   /** Encryption configuration */
   encryption?: EncryptionOptions;
 
@@ -103,6 +149,53 @@ export interface VectorDBConfig<TMetadata extends Record<string, unknown> = Reco
    */
   model?: import('./embeddings/types.js').EmbeddingModel;
 
+  /**
+   * Metadata fields to keep secondary indexes on. Dotted paths are supported.
+   *
+   * Filters on indexed fields (equality, `$in`, and `$gt`/`$gte`/`$lt`/`$lte`
+   * ranges) are answered from the index instead of scanning every document,
+   * which speeds up filtered `search()`, `count()` and `deleteWhere()`.
+   * Storage adapters without index support fall back to scanning.
+   *
+   * When omitted, the fields persisted with the collection are used. Changing
+   * the list rebuilds the index entries on the next open.
+   *
+   * @example
+   * ```ts
+   * const db = await createVectorDB({
+   *   name: 'docs',
+   *   dimensions: 384,
+   *   indexes: ['category', 'createdAt'],
+   * });
+   *
+   * await db.count({ filter: { category: 'tech', createdAt: { $gte: lastWeek } } });
+   * ```
+   */
+  indexes?: string[];
+
+  /**
+   * BM25 keyword index over a text metadata field (default: enabled on `_text`,
+   * the field `HybridSearch` writes).
+   *
+   * Each document's tokens are persisted through the storage adapter and kept
+   * up to date on `add()`, `update()` and `delete()`, so `searchKeyword()` works
+   * right after opening without re-tokenizing the corpus. Changing the field
+   * or tokenizer settings rebuilds the index on the next open. Pass `false`
+   * to disable it.
+   *
+   * @example
+   * ```ts
+   * const db = await createVectorDB({
+   *   name: 'docs',
+   *   dimensions: 384,
+   *   keywordIndex: { field: 'body', stemming: true },
+   * });
+   *
+   * const results = await db.searchKeyword('reset password', { k: 10 });
+   * ```
+   */
+  keywordIndex?: boolean | KeywordIndexConfig;
+
   /**
    * Enable WebGPU-accelerated vector distance computation.
    * When true, the underlying HNSW index uses GPU compute shaders for
@@ -125,6 +218,31 @@ export interface VectorDBConfig<TMetadata extends Record<string, unknown> = Reco
   enableGPU?: boolean;
 }
 
+/**
+ * Configuration of the BM25 keyword index.
+ */
+export interface KeywordIndexConfig extends BM25Options {
+  /** Metadata field holding the text to index (default: `'_text'`) */
+  field?: string;
+}
+
+/**
+ * Configuration of a named vector space.
+ */
+export interface NamedVectorSpaceConfig {
+  /** Number of dimensions for vectors in this space */
+  dimensions: number;
+
+  /** HNSW options for this space, e.g. its distance function (default: the database's `indexOptions`) */
+  indexOptions?: HNSWOptions;
+}
+
+/**
+ * Named vector spaces keyed by name: dimensions or a full space configuration.
+ * The first space is the primary one.
+ */
+export type NamedVectorSpaces = Record<string, number | NamedVectorSpaceConfig>;
+
 /**
  * HNSW algorithm configuration options.
  */
@@ -138,8 +256,11 @@ export interface HNSWOptions {
   /** Size of dynamic candidate list during search (default: 50) */
   efSearch?: number;
 
-  /** Distance metric to use (default: 'cosine') */
-  distanceFunction?: 'cosine' | 'euclidean' | 'dot';
+  /**
+   * Distance metric to use (default: 'cosine'). `'hamming'` keeps only the
+   * sign bits of each vector and compares them bit by bit.
+   */
+  distanceFunction?: 'cosine' | 'euclidean' | 'dot' | 'hamming';
 
   /**
    * GPU acceleration options for search operations.
@@ -150,6 +271,114 @@ export interface HNSWOptions {
   gpu?: HNSWGPUOptions;
 }
 
+/**
+ * Filter applied while traversing the HNSW graph: either a predicate or an allow-list of IDs.
+ */
+export type HNSWSearchFilter = ((id: string) => boolean) | ReadonlySet<string>;
+
+/**
+ * Per-query options for `HNSWIndex.search()`.
+ */
+export interface HNSWSearchOptions {
+  /**
+   * Only return nodes accepted by this filter. Rejected nodes are still traversed
+   * so the search can route through them, but never appear in the results.
+   */
+  filter?: HNSWSearchFilter;
+
+  /**
+   * Fraction of the index (0-1) that the filter must accept for graph traversal to be used.
+   * More selective filters scan the accepted vectors directly instead (default: 0.05).
+   */
+  bruteForceThreshold?: number;
+}
+
+/**
+ * Options for `HNSWIndex.searchGroups()`.
+ */
+export interface HNSWGroupSearchOptions extends HNSWSearchOptions {
+  /** Map a vector ID to the ID of the group it belongs to. */
+  groupOf: (id: string) => string;
+}
+
+/**
+ * A group returned by `HNSWIndex.searchGroups()`.
+ */
+export interface HNSWGroupResult {
+  /** Group ID */
+  group: string;
+  /** ID of the best-matching vector in the group */
+  id: string;
+  /** Score of the best-matching vector */
+  score: number;
+}
+
+/**
+ * Index used for the primary vector space.
+ * - `'hnsw'` — HNSW graph held in memory and saved as a whole (default)
+ * - `'ivf'` — k-means partitions kept in storage; search loads only the probed ones
+ * - `'flat'` — exact scan over the vectors held in memory
+ */
+export type VectorIndexType = 'hnsw' | 'ivf' | 'flat';
+
+/**
+ * Index over the vectors of one vector space, as used by the database.
+ * Implemented by `HNSWIndex`, `FlatIndex` and `IVFIndex`.
+ */
+export interface VectorIndex {
+  /** Add or replace a vector. */
+  add(id: string, vector: Float32Array): void | Promise<void>;
+
+  /** Remove a vector. Resolves to whether it was indexed, when known. */
+  delete(id: string): boolean | Promise<boolean>;
+
+  /** Find the k nearest vectors, best first. */
+  search(
+    query: Float32Array,
+    k: number,
+    options?: HNSWSearchOptions
+  ): Array<{ id: string; score: number }> | Promise<Array<{ id: string; score: number }>>;
+
+  /** Get a vector held in memory, or `undefined` when the index does not hold it. */
+  getVector(id: string): Float32Array | undefined;
+
+  /** Release GPU resources, if any. */
+  destroyGPU?(): void;
+}
+
+/**
+ * IVF (inverted file) index configuration options.
+ */
+export interface IVFOptions {
+  /** Number of k-means partitions (default: 256) */
+  partitions?: number;
+
+  /**
+   * Number of partitions searched per query (default: 8). Further partitions
+   * are searched while fewer than `k` matches have been found.
+   */
+  probes?: number;
+
+  /**
+   * Number of vectors collected before the partitions are trained
+   * (default: 16 per partition). Until then every vector is searched exactly.
+   */
+  trainingSize?: number;
+
+  /**
+   * Product-quantize each vector's residual from its partition centroid
+   * (default: enabled, with about 8 dimensions per subvector). Pass `false`
+   * to keep full Float32 vectors in the partitions.
+   */
+  pq?: boolean | { subvectors?: number; centroids?: number };
+
+  /** Number of loaded partitions kept in memory (default: 32) */
+  cachedPartitions?: number;
+
+  /** Maximum number of k-means iterations when training (default: 20) */
+  maxIterations?: number;
+}
+
 /**
  * A document to be stored in the vector database.
  *
@@ -162,10 +391,100 @@ export interface Document<TMetadata extends Record<string, unknown> = Record<str
   /** Vector embedding (must match configured dimensions) */
   vector: Float32Array;
 
+  /**
+   * Additional vectors owned by the document, e.g. one per chunk, token or image patch.
+   * Used by `searchMultiVector()`; `search()` only sees `vector`.
+   */
+  vectors?: Float32Array[];
+
+  /**
+   * Vectors in the collection's named spaces, e.g. `{ text, image }`.
+   * Only valid when the database was created with named `dimensions`.
+   */
+  namedVectors?: Record<string, Float32Array>;
+
+  /** Sparse vector (e.g. from a SPLADE model), searched with `searchSparse()` */
+  sparseVector?: SparseVector;
+
   /** Optional metadata associated with the document */
   metadata?: TMetadata;
 }
 
+/**
+ * A sparse vector: the non-zero dimensions and their weights.
+ *
+ * For learned sparse models such as SPLADE the dimensions are vocabulary
+ * token IDs. Indices must be below 2^24.
+ *
+ * @example
+ * ```ts
+ * const sparse: SparseVector = {
+ *   indices: new Uint32Array([2054, 7592, 11562]),
+ *   values: new Float32Array([0.41, 1.27, 0.88]),
+ * };
+ * ```
+ */
+export interface SparseVector {
+  /** Dimension indices of the non-zero weights */
+  indices: Uint32Array;
+
+  /** Weights, one per index */
+  values: Float32Array;
+}
+
+/**
+ * A document that owns several vectors (chunks, tokens or image patches).
+ *
+ * When `vector` is omitted, the mean of `vectors` is stored as the document's
+ * main vector so it still takes part in regular `search()`.
+ *
+ * @typeParam TMetadata - Shape of the metadata object.
+ *
+ * @example
+ * ```ts
+ * await db.add({
+ *   id: 'report',
+ *   vectors: chunkEmbeddings,
+ *   metadata: { title: 'Quarterly report' },
+ * });
+ *
+ * const results = await db.searchMultiVector(queryEmbedding, { mode: 'max', k: 5 });
+ * ```
+ */
+export interface MultiVectorDocument<TMetadata extends Record<string, unknown> = Record<string, unknown>>
+  extends Omit<Document<TMetadata>, 'vector' | 'vectors'> {
+  /** Main vector (default: mean of `vectors`) */
+  vector?: Float32Array;
+
+  /** Vectors owned by the document (each must match configured dimensions) */
+  vectors: Float32Array[];
+}
+
+/**
+ * A document with vectors in named spaces. The primary space's vector may be
+ * given either as `vector` or in `namedVectors`.
+ *
+ * @typeParam TMetadata - Shape of the metadata object.
+ */
+export interface NamedVectorDocument<TMetadata extends Record<string, unknown> = Record<string, unknown>>
+  extends Omit<Document<TMetadata>, 'vector' | 'namedVectors'> {
+  /** Vector in the primary space (default: `namedVectors[primary]`) */
+  vector?: Float32Array;
+
+  /** Vectors keyed by space name */
+  namedVectors: Record<string, Float32Array>;
+}
+
+/**
+ * Any document shape accepted by `add()` and `addMany()`.
+ *
+ * @typeParam TMetadata - Shape of the metadata object.
+ */
+export type DocumentInput<TMetadata extends Record<string, unknown> = Record<string, unknown>> =
+  | Document<TMetadata>
+  | MultiVectorDocument<TMetadata>
+  | NamedVectorDocument<TMetadata>;
+
 /**
  * Options for search operations.
  *
@@ -183,8 +502,53 @@ export interface SearchOptions<TMetadata extends Record<string, unknown> = Recor
 
   /** Whether to include vectors in results (default: false) */
   includeVectors?: boolean;
+
+  /** Named vector space to search (default: the primary space) */
+  using?: string;
+}
+
+/**
+ * Options for `searchFused()`.
+ *
+ * @typeParam TMetadata - Shape of the metadata object for type-safe filters.
+ */
+export interface FusedSearchOptions<TMetadata extends Record<string, unknown> = Record<string, unknown>>
+  extends Omit<SearchOptions<TMetadata>, 'using' | 'includeVectors'> {
+  /** Results retrieved from each space before fusion (default: `k * 2`) */
+  candidates?: number;
+
+  /** Reciprocal Rank Fusion constant (default: 60) */
+  rrfK?: number;
+}
+
+/**
+ * A result of `searchFused()`. `score` is the fused RRF score.
+ *
+ * @typeParam TMetadata - Shape of the metadata object.
+ */
+export interface FusedSearchResult<TMetadata extends Record<string, unknown> = Record<string, unknown>>
+  extends Omit<SearchResult<TMetadata>, 'vector'> {
+  /** Similarity score in each space that returned the document */
+  scores: Record<string, number>;
 }
 
+/**
+ * Options for `searchSparse()`.
+ *
+ * @typeParam TMetadata - Shape of the metadata object for type-safe filters.
+ */
+export type SparseSearchOptions<TMetadata extends Record<string, unknown> = Record<string, unknown>> =
+  Omit<SearchOptions<TMetadata>, 'using' | 'includeVectors'>;
+
+/**
+ * Options for `searchKeyword()`. The score is the BM25 score, so `threshold`
+ * is not bounded to [0, 1].
+ *
+ * @typeParam TMetadata - Shape of the metadata object for type-safe filters.
+ */
+export type KeywordSearchOptions<TMetadata extends Record<string, unknown> = Record<string, unknown>> =
+  Omit<SearchOptions<TMetadata>, 'using' | 'includeVectors'>;
+
 /**
  * A single search result.
  *
@@ -205,29 +569,130 @@ export interface SearchResult<TMetadata extends Record<string, unknown> = Record
 }
 
 /**
- * Filter value operators for a given value type.
+ * How multi-vector documents are scored against a query.
+ *
+ * - `'max'`: best-matching vector of the document (best chunk)
+ * - `'mean'`: average similarity over all of the document's vectors
+ * - `'maxsim'`: late interaction; for each query vector take the best-matching
+ *   document vector and sum over query vectors (ColBERT-style)
  */
-export type FilterValueOperators<T> =
-  | T
-  | { $in: T[] }
-  | { $nin: T[] }
-  | { $ne: T }
-  | { $exists: boolean }
-  | (T extends number ? { $gt: number } | { $gte: number } | { $lt: number } | { $lte: number } : never);
+export type MultiVectorSearchMode = 'max' | 'mean' | 'maxsim';
+
+/**
+ * Options for `searchMultiVector()`.
+ *
+ * @typeParam TMetadata - Shape of the metadata object for type-safe filters.
+ */
+export interface MultiVectorSearchOptions<TMetadata extends Record<string, unknown> = Record<string, unknown>>
+  extends Omit<SearchOptions<TMetadata>, 'includeVectors'> {
+  /** Scoring mode (default: `'maxsim'` for several query vectors, otherwise `'max'`) */
+  mode?: MultiVectorSearchMode;
+
+  /**
+   * Documents retrieved from the index per query vector before exact rescoring
+   * (default: `k * 4`). Higher values improve recall for `'mean'` and `'maxsim'`.
+   */
+  candidates?: number;
+}
+
+/**
+ * A multi-vector search result, grouped to the parent document.
+ *
+ * @typeParam TMetadata - Shape of the metadata object.
+ */
+export interface MultiVectorSearchResult<TMetadata extends Record<string, unknown> = Record<string, unknown>>
+  extends Omit<SearchResult<TMetadata>, 'vector'> {
+  /** Index (into the document's `vectors`) of the best-matching vector, for `'max'` mode */
+  matchedVector?: number;
+}
+
+/** Operand type of range operators (`$gt`, `$gte`, `$lt`, `$lte`) for a value type. */
+type FilterRangeOperand<T> = T extends number ? number : T extends string ? string : never;
+
+/** Element type of array-valued metadata fields. */
+type FilterArrayElement<T> = T extends readonly (infer E)[] ? E : never;
+
+/**
+ * Operators that can be applied to a single metadata field.
+ * Several operators on one field are combined with AND,
+ * e.g. `{ year: { $gte: 2020, $lt: 2024 } }`.
+ */
+export interface FilterOperators<T> {
+  /** Equal to (structural equality for objects and arrays) */
+  $eq?: T;
+  /** Not equal to */
+  $ne?: T;
+  /** Value is one of the given values (for array fields: any element is) */
+  $in?: (T | FilterArrayElement<T>)[];
+  /** Value is none of the given values (for array fields: no element is) */
+  $nin?: (T | FilterArrayElement<T>)[];
+  /** Greater than (numbers, or strings compared lexicographically) */
+  $gt?: FilterRangeOperand<T>;
+  /** Greater than or equal */
+  $gte?: FilterRangeOperand<T>;
+  /** Less than */
+  $lt?: FilterRangeOperand<T>;
+  /** Less than or equal */
+  $lte?: FilterRangeOperand<T>;
+  /** Field is present (`true`) or absent (`false`) */
+  $exists?: boolean;
+  /** Array field contains the element, or string field contains the substring */
+  $contains?: T extends string ? string : FilterArrayElement<T>;
+  /** Array field contains all of the given elements */
+  $all?: FilterArrayElement<T>[];
+  /** Array field has exactly this many elements */
+  $size?: T extends readonly unknown[] ? number : never;
+  /** String field starts with the prefix */
+  $startsWith?: T extends string ? string : never;
+  /** String field matches the regular expression */
+  $regex?: T extends string ? string | RegExp : never;
+  /** Negate a field condition, e.g. `{ year: { $not: { $gte: 2020 } } }` */
+  $not?: FilterValueOperators<T>;
+}
+
+/**
+ * Filter value operators for a given value type: either an exact value or an operator object.
+ */
+export type FilterValueOperators<T> = T | FilterOperators<T>;
+
+/**
+ * Logical combinators for filter queries.
+ *
+ * @typeParam TMetadata - Shape of the metadata object.
+ */
+export interface FilterLogicalOperators<TMetadata extends Record<string, unknown> = Record<string, unknown>> {
+  /** All of the filters must match */
+  $and?: TypedFilterQuery<TMetadata>[];
+  /** At least one of the filters must match */
+  $or?: TypedFilterQuery<TMetadata>[];
+  /** The filter must not match */
+  $not?: TypedFilterQuery<TMetadata>;
+}
 
 /**
  * Type-safe filter query for typed VectorDB metadata.
  * When TMetadata is a specific type, filter keys are constrained to `keyof TMetadata`
  * and operators are typed according to the value type at each key.
+ * Dotted paths (e.g. `'author.name'`) address nested metadata and are not type-checked.
  *
  * @typeParam TMetadata - Shape of the metadata object.
+ *
+ * @example
+ * ```ts
+ * const filter: TypedFilterQuery<{ year: number; tags: string[]; author: { name: string } }> = {
+ *   year: { $gte: 2020, $lt: 2024 },
+ *   $or: [{ tags: { $contains: 'ai' } }, { 'author.name': { $startsWith: 'A' } }],
+ * };
+ * ```
  */
 export type TypedFilterQuery<TMetadata extends Record<string, unknown> = Record<string, unknown>> =
-  { [K in keyof TMetadata]?: FilterValueOperators<TMetadata[K]> };
+  { [K in keyof TMetadata]?: FilterValueOperators<TMetadata[K]> } &
+  { [path: `${string}.${string}`]: unknown } &
+  FilterLogicalOperators<TMetadata>;
 
 /**
  * Filter query for metadata filtering (untyped).
- * Supports exact match, $in (any of), $gt, $gte, $lt, $lte operators.
+ * Supports exact match, comparison, array and string operators, dotted paths and `$and`/`$or`/`$not`.
  *
  * @deprecated Prefer `TypedFilterQuery<TMetadata>` for type-safe filters. This alias is kept for backward compatibility.
  */
@@ -244,6 +709,80 @@ export interface AddManyOptions {
   batchSize?: number;
 }
 
+/**
+ * Sort direction for `find()`.
+ */
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Sort specification for `find()`. Keys are applied in insertion order and
+ * ties are broken by document ID.
+ *
+ * Keys are metadata fields or dotted paths. `id`, `createdAt` and `updatedAt`
+ * fall back to the document's own ID and timestamps when the metadata has no
+ * such field.
+ */
+export type FindSort<TMetadata extends Record<string, unknown> = Record<string, unknown>> = {
+  [K in (keyof TMetadata & string) | 'id' | 'createdAt' | 'updatedAt']?: SortDirection;
+} & { [path: `${string}.${string}`]: SortDirection | undefined };
+
+/**
+ * Options for metadata-only queries with `find()`.
+ */
+export interface FindOptions<TMetadata extends Record<string, unknown> = Record<string, unknown>> {
+  /** Only return documents matching this filter (same semantics as `search()`) */
+  filter?: TypedFilterQuery<TMetadata>;
+
+  /**
+   * Sort order (default: by document ID).
+   *
+   * A single field listed in `indexes` is read in index order when every document has a scalar
+   * value for it; other sorts load and sort every match on each page (O(N log N) per page).
+   */
+  sort?: FindSort<TMetadata>;
+
+  /** Maximum number of documents per page (default: 50) */
+  limit?: number;
+
+  /** Number of documents to skip, applied after `cursor` */
+  offset?: number;
+
+  /** Opaque cursor from a previous page's `nextCursor` */
+  cursor?: string;
+
+  /** Whether to include vectors in the results (default: false) */
+  includeVectors?: boolean;
+}
+
+/**
+ * A document returned by `find()`.
+ */
+export interface FindDocument<TMetadata extends Record<string, unknown> = Record<string, unknown>> {
+  id: string;
+  metadata?: TMetadata;
+  createdAt: number;
+  updatedAt: number;
+  /** Only present if `includeVectors` was set */
+  vector?: Float32Array;
+}
+
+/**
+ * A page of results from `find()`.
+ */
+export interface FindResult<TMetadata extends Record<string, unknown> = Record<string, unknown>> {
+  documents: FindDocument<TMetadata>[];
+  /** Cursor for the next page, or `null` if this was the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Options for counting documents.
+ */
+export interface CountOptions<TMetadata extends Record<string, unknown> = Record<string, unknown>> {
+  /** Only count documents matching this filter */
+  filter?: TypedFilterQuery<TMetadata>;
+}
+
 /**
  * Options for recalibrating quantization.
  */
@@ -280,6 +819,20 @@ export interface ExportOptions {
   includeVectors?: boolean;
 }
 
+/**
+ * Options for streaming export operations.
+ */
+export interface ExportStreamOptions {
+  /** Collections to export (default: all) */
+  collections?: string[];
+
+  /** Whether to include vectors (default: true) */
+  includeVectors?: boolean;
+
+  /** Documents per batch (default: 500) */
+  batchSize?: number;
+}
+
 /**
  * Database statistics.
  */
@@ -332,12 +885,132 @@ export interface Collection {
   modelFingerprint?: ModelFingerprint;
   /** Product quantization codebook (set when PQ is enabled) */
   pqCodebook?: PQCodebook;
+  /** Vectors are stored as packed sign bits (set when binary quantization is enabled) */
+  binaryQuantization?: boolean;
   /** Storage compression mode (set when compression is enabled) */
   compression?: { type: 'sq8' | 'delta-sq8' | 'none' };
   /** Calibration data for storage compression (separate from quantization calibration) */
   compressionCalibration?: ScalarCalibrationData;
   /** Delta calibration for delta-sq8 compression mode */
   deltaCalibration?: ScalarCalibrationData;
+  /** Metadata fields with secondary indexes (set when `indexes` is configured) */
+  indexedFields?: string[];
+  /** Field and tokenizer settings the stored keyword index was built with */
+  keywordIndex?: import('./rag/stored-keywords.js').KeywordIndexFingerprint;
+  /** Index type of the primary vector space (absent for HNSW) */
+  indexType?: VectorIndexType;
+  /** Trained partitions of the IVF index */
+  ivf?: import('./ivf/stored-partitions.js').StoredIVFState;
+  /** Point-in-time snapshots of the collection, oldest first */
+  snapshots?: SnapshotInfo[];
+}
+
+/**
+ * A point-in-time snapshot of a collection, taken with `db.snapshot()`.
+ */
+export interface SnapshotInfo {
+  /** Label the snapshot was taken with */
+  label: string;
+  /** Position of the snapshot in the collection's history (increasing) */
+  sequence: number;
+  /** When the snapshot was taken (ms since epoch) */
+  createdAt: number;
+  /** Number of documents in the collection when the snapshot was taken */
+  documentCount: number;
+}
+
+/**
+ * Read-only view of a collection as it was when a snapshot was taken,
+ * returned by `db.at()`.
+ */
+export type VectorDBSnapshotView<TMetadata extends Record<string, unknown> = Record<string, unknown>> = Pick<
+  VectorDB<TMetadata>,
+  'search' | 'searchFused' | 'searchSparse' | 'searchKeyword' | 'searchMultiVector' | 'get' | 'count' | 'find' | 'close'
+>;
+
+/**
+ * Kind of write recorded in a collection's change log.
+ */
+export type DocumentChangeType = 'add' | 'update' | 'delete';
+
+/**
+ * The latest change to a document, read with `db.changes()` or `db.watch()`.
+ */
+export interface DocumentChange {
+  /** Position of the change in the collection's change log (increasing) */
+  sequence: number;
+  /** Whether the document was added, updated or deleted */
+  type: DocumentChangeType;
+  /** ID of the changed document */
+  id: string;
+  /** When the change was made (ms since epoch) */
+  timestamp: number;
+  /** Origin of the transaction that made the change, if it was given one */
+  origin?: string;
+}
+
+/**
+ * Options for reading a collection's change log with `db.changes()`.
+ */
+export interface ChangesOptions {
+  /** Only return changes after this sequence number (default: 0, every document's latest change) */
+  since?: number;
+  /** Maximum number of changes to return (default: all) */
+  limit?: number;
+}
+
+/**
+ * Result of `db.changes()`.
+ */
+export interface ChangesResult {
+  /** Latest change of each document changed since `since`, oldest first */
+  changes: DocumentChange[];
+  /** Sequence number to pass as `since` to read the next changes */
+  lastSequence: number;
+  /** Whether `limit` left changes out */
+  hasMore: boolean;
+}
+
+/**
+ * Options for `db.watch()`.
+ */
+export interface WatchOptions {
+  /** Start after this sequence number (default: the newest, so only later changes are yielded) */
+  since?: number;
+  /** AbortSignal that ends the iteration */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Options for `db.transaction()`.
+ */
+export interface TransactionOptions {
+  /**
+   * Label recorded on the transaction's entries in the change log, so readers
+   * of `db.changes()` can tell which writes it made (for example, those
+   * applied by sync).
+   */
+  origin?: string;
+}
+
+/**
+ * Operations available inside `db.transaction()`.
+ *
+ * Writes are applied as they are made, so `get()` sees the transaction's own
+ * writes. They are undone if the transaction callback throws.
+ */
+export interface VectorDBTransaction<TMetadata extends Record<string, unknown> = Record<string, unknown>> {
+  /** Add or replace a document */
+  add(doc: DocumentInput<TMetadata>): Promise<void>;
+
+  /** Update a document's vector or metadata */
+  update(id: string, updates: Partial<Omit<Document<TMetadata>, 'id'>>): Promise<void>;
+
+  /** Delete a document by ID */
+  delete(id: string): Promise<void>;
+
+  /** Get a document by ID */
+  get(id: string): Promise<(Document<TMetadata> & { metadata?: TMetadata }) | null>;
 }
 
 /**
@@ -347,14 +1020,38 @@ export interface Collection {
  */
 export interface VectorDB<TMetadata extends Record<string, unknown> = Record<string, unknown>> {
   /** Add a single document */
-  add(doc: Document<TMetadata>): Promise<void>;
+  add(doc: DocumentInput<TMetadata>): Promise<void>;
 
   /** Add multiple documents with optional progress tracking */
-  addMany(docs: Document<TMetadata>[], options?: AddManyOptions): Promise<void>;
+  addMany(docs: DocumentInput<TMetadata>[], options?: AddManyOptions): Promise<void>;
 
   /** Search for similar vectors */
   search(vector: Float32Array, options?: SearchOptions<TMetadata>): Promise<SearchResult<TMetadata>[]>;
 
+  /** Search several named vector spaces and fuse the rankings with Reciprocal Rank Fusion */
+  searchFused(
+    queries: Record<string, Float32Array>,
+    options?: FusedSearchOptions<TMetadata>
+  ): Promise<FusedSearchResult<TMetadata>[]>;
+
+  /** Search the documents' sparse vectors by dot product using an inverted index */
+  searchSparse(
+    query: SparseVector,
+    options?: SparseSearchOptions<TMetadata>
+  ): Promise<SearchResult<TMetadata>[]>;
+
+  /** Search the keyword index with BM25 scoring */
+  searchKeyword(
+    query: string,
+    options?: KeywordSearchOptions<TMetadata>
+  ): Promise<SearchResult<TMetadata>[]>;
+
+  /** Search multi-vector documents with one query vector or a set of query vectors */
+  searchMultiVector(
+    query: Float32Array | Float32Array[],
+    options?: MultiVectorSearchOptions<TMetadata>
+  ): Promise<MultiVectorSearchResult<TMetadata>[]>;
+
   /** Get a document by ID */
   get(id: string): Promise<(Document<TMetadata> & { metadata?: TMetadata }) | null>;
 
@@ -370,6 +1067,44 @@ export interface VectorDB<TMetadata extends Record<string, unknown> = Record<str
   /** Delete documents matching a filter */
   deleteWhere(filter: TypedFilterQuery<TMetadata>): Promise<number>;
 
+  /**
+   * Apply a group of writes together: if the callback throws, or one of its
+   * writes fails, every document it touched is restored. The rollback is made
+   * from copies kept in memory, not from a write-ahead log, so it covers
+   * thrown errors only: writes made before a crash or a closed tab are kept.
+   */
+  transaction<T>(
+    callback: (tx: VectorDBTransaction<TMetadata>) => Promise<T>,
+    options?: TransactionOptions
+  ): Promise<T>;
+
+  /** Take a point-in-time snapshot of this collection */
+  snapshot(label: string): Promise<SnapshotInfo>;
+
+  /** List the snapshots of this collection, oldest first */
+  listSnapshots(): Promise<SnapshotInfo[]>;
+
+  /** Roll this collection back to a snapshot */
+  restoreSnapshot(label: string): Promise<void>;
+
+  /** Delete a snapshot and the document versions only it needs */
+  deleteSnapshot(label: string): Promise<void>;
+
+  /** Read this collection as it was at a snapshot */
+  at(snapshot: string | SnapshotInfo): VectorDBSnapshotView<TMetadata>;
+
+  /** Read the documents added, updated or deleted since a sequence number of the change log */
+  changes(options?: ChangesOptions): Promise<ChangesResult>;
+
+  /** Iterate over changes to this collection as they are made */
+  watch(options?: WatchOptions): AsyncIterableIterator<DocumentChange>;
+
+  /** Count documents in this collection, optionally matching a filter */
+  count(options?: CountOptions<TMetadata>): Promise<number>;
+
+  /** Query documents by metadata with sorting and cursor pagination */
+  find(options?: FindOptions<TMetadata>): Promise<FindResult<TMetadata>>;
+
   /** Get a namespaced collection */
   collection(name: string): VectorDB<TMetadata>;
 
@@ -388,6 +1123,12 @@ export interface VectorDB<TMetadata extends Record<string, unknown> = Record<str
   /** Import database data */
   import(data: Blob, options?: ImportOptions): Promise<void>;
 
+  /** Export database data as a stream of batches, for collections too large to hold in memory */
+  exportStream(options?: ExportStreamOptions): ReadableStream<Uint8Array>;
+
+  /** Import a stream written by `exportStream()`, one batch at a time */
+  importStream(stream: ReadableStream<Uint8Array>, options?: ImportOptions): Promise<void>;
+
   /** Recalibrate quantization from current vectors and re-quantize all stored vectors */
   recalibrate(options?: RecalibrateOptions): Promise<void>;
 
@@ -406,11 +1147,23 @@ export type WorkerMessageType =
   | 'add'
   | 'addMany'
   | 'search'
+  | 'searchMultiVector'
+  | 'searchFused'
+  | 'searchSparse'
+  | 'searchKeyword'
   | 'get'
   | 'update'
   | 'delete'
   | 'deleteMany'
   | 'deleteWhere'
+  | 'transaction'
+  | 'snapshot'
+  | 'listSnapshots'
+  | 'restoreSnapshot'
+  | 'deleteSnapshot'
+  | 'changes'
+  | 'count'
+  | 'find'
   | 'stats'
   | 'clear'
   | 'close'
@@ -3,7 +3,7 @@
  * All heavy computation runs here to keep the main thread responsive.
  */
 
-import type { WorkerRequest, WorkerResponse, VectorDBConfig, Document, SearchOptions, AddManyOptions, TypedFilterQuery, ExportOptions, ImportOptions } from '../types.js';
+import type { WorkerRequest, SparseVector, WorkerResponse, VectorDBConfig, Document, DocumentInput, SearchOptions, FusedSearchOptions, SparseSearchOptions, KeywordSearchOptions, MultiVectorSearchOptions, AddManyOptions, TypedFilterQuery, CountOptions, FindOptions, ExportOptions, ImportOptions, ChangesOptions, TransactionOptions } from '../types.js';
 import { VectorDBImpl } from '../db.js';
 
 let db: VectorDBImpl | null = null;
@@ -67,6 +67,38 @@ self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
         break;
       }
       
+      case 'searchFused': {
+        ensureDb();
+        const targetDb = collectionId ? (db!.collection(collectionId) as VectorDBImpl) : db!;
+        const { queries, options } = payload as { queries: Record<string, number[]>; options?: FusedSearchOptions };
+        result = await targetDb.searchFused(deserializeNamedVectors(queries)!, options);
+        break;
+      }
+      
+      case 'searchSparse': {
+        ensureDb();
+        const targetDb = collectionId ? (db!.collection(collectionId) as VectorDBImpl) : db!;
+        const { query, options } = payload as { query: SerializedSparseVector; options?: SparseSearchOptions };
+        result = await targetDb.searchSparse(deserializeSparseVector(query)!, options);
+        break;
+      }
+      
+      case 'searchKeyword': {
+        ensureDb();
+        const targetDb = collectionId ? (db!.collection(collectionId) as VectorDBImpl) : db!;
+        const { query, options } = payload as { query: string; options?: KeywordSearchOptions };
+        result = await targetDb.searchKeyword(query, options);
+        break;
+      }
+      
+      case 'searchMultiVector': {
+        ensureDb();
+        const targetDb = collectionId ? (db!.collection(collectionId) as VectorDBImpl) : db!;
+        const { query, options } = payload as { query: number[][]; options?: MultiVectorSearchOptions };
+        result = await targetDb.searchMultiVector(query.map((v) => new Float32Array(v)), options);
+        break;
+      }
+      
       case 'get': {
         ensureDb();
         const targetDb = collectionId ? (db!.collection(collectionId) as VectorDBImpl) : db!;
@@ -80,13 +112,7 @@ self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
         ensureDb();
         const targetDb = collectionId ? (db!.collection(collectionId) as VectorDBImpl) : db!;
         const { docId, updates } = payload as { docId: string; updates: Partial<SerializedDocument> };
-        const deserializedUpdates: Partial<Document> = {
-          metadata: updates.metadata,
-        };
-        if (updates.vector) {
-          deserializedUpdates.vector = new Float32Array(updates.vector);
-        }
-        await targetDb.update(docId, deserializedUpdates);
+        await targetDb.update(docId, deserializeUpdates(updates));
         result = true;
         break;
       }
@@ -117,6 +143,79 @@ self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
         break;
       }
       
+      case 'transaction': {
+        ensureDb();
+        const targetDb = collectionId ? (db!.collection(collectionId) as VectorDBImpl) : db!;
+        const { operations, options } = payload as {
+          operations: SerializedTransactionOperation[];
+          options?: TransactionOptions;
+        };
+        await targetDb.transaction(async (tx) => {
+          for (const op of operations) {
+            if (op.type === 'add') {
+              await tx.add(deserializeDocument(op.doc));
+            } else if (op.type === 'update') {
+              await tx.update(op.docId, deserializeUpdates(op.updates));
+            } else {
+              await tx.delete(op.docId);
+            }
+          }
+        }, options);
+        result = true;
+        break;
+      }
+      
+      case 'snapshot': {
+        ensureDb();
+        const targetDb = collectionId ? (db!.collection(collectionId) as VectorDBImpl) : db!;
+        result = await targetDb.snapshot(payload as string);
+        break;
+      }
+      
+      case 'listSnapshots': {
+        ensureDb();
+        const targetDb = collectionId ? (db!.collection(collectionId) as VectorDBImpl) : db!;
+        result = await targetDb.listSnapshots();
+        break;
+      }
+      
+      case 'restoreSnapshot': {
+        ensureDb();
+        const targetDb = collectionId ? (db!.collection(collectionId) as VectorDBImpl) : db!;
+        await targetDb.restoreSnapshot(payload as string);
+        result = true;
+        break;
+      }
+      
+      case 'deleteSnapshot': {
+        ensureDb();
+        const targetDb = collectionId ? (db!.collection(collectionId) as VectorDBImpl) : db!;
+        await targetDb.deleteSnapshot(payload as string);
+        result = true;
+        break;
+      }
+      
+      case 'changes': {
+        ensureDb();
+        const targetDb = collectionId ? (db!.collection(collectionId) as VectorDBImpl) : db!;
+        result = await targetDb.changes(payload as ChangesOptions | undefined);
+        break;
+      }
+      
+      case 'count': {
+        ensureDb();
+        const targetDb = collectionId ? (db!.collection(collectionId) as VectorDBImpl) : db!;
+        result = await targetDb.count(payload as CountOptions | undefined);
+        break;
+      }
+      
+      case 'find': {
+        ensureDb();
+        const targetDb = collectionId ? (db!.collection(collectionId) as VectorDBImpl) : db!;
+        result = await targetDb.find(payload as FindOptions | undefined);
+        break;
+      }
+      
       case 'stats': {
         ensureDb();
         result = await db!.stats();
@@ -192,22 +291,78 @@ function ensureDb(): void {
 
 interface SerializedDocument {
   id: string;
-  vector: number[];
+  vector?: number[];
+  vectors?: number[][];
+  namedVectors?: Record<string, number[]>;
+  sparseVector?: SerializedSparseVector;
   metadata?: Record<string, unknown>;
 }
 
-function deserializeDocument(doc: SerializedDocument): Document {
+interface SerializedSparseVector {
+  indices: number[];
+  values: number[];
+}
+
+type SerializedTransactionOperation =
+  | { type: 'add'; doc: SerializedDocument }
+  | { type: 'update'; docId: string; updates: Partial<SerializedDocument> }
+  | { type: 'delete'; docId: string };
+
+function deserializeDocument(doc: SerializedDocument): DocumentInput {
   return {
     id: doc.id,
-    vector: new Float32Array(doc.vector),
+    vector: doc.vector ? new Float32Array(doc.vector) : undefined,
+    vectors: doc.vectors?.map((v) => new Float32Array(v)),
+    namedVectors: deserializeNamedVectors(doc.namedVectors),
+    sparseVector: deserializeSparseVector(doc.sparseVector),
     metadata: doc.metadata,
+  } as DocumentInput;
+}
+
+function deserializeUpdates(updates: Partial<SerializedDocument>): Partial<Document> {
+  const deserialized: Partial<Document> = {
+    metadata: updates.metadata,
   };
+  if (updates.vector) {
+    deserialized.vector = new Float32Array(updates.vector);
+  }
+  if (updates.vectors) {
+    deserialized.vectors = updates.vectors.map((v) => new Float32Array(v));
+  }
+  if (updates.namedVectors) {
+    deserialized.namedVectors = deserializeNamedVectors(updates.namedVectors);
+  }
+  if (updates.sparseVector) {
+    deserialized.sparseVector = deserializeSparseVector(updates.sparseVector);
+  }
+  return deserialized;
+}
+
+function deserializeSparseVector(vector: SerializedSparseVector | undefined): SparseVector | undefined {
+  return vector
+    ? { indices: new Uint32Array(vector.indices), values: new Float32Array(vector.values) }
+    : undefined;
+}
+
+function deserializeNamedVectors(
+  namedVectors: Record<string, number[]> | undefined
+): Record<string, Float32Array> | undefined {
+  return namedVectors
+    ? Object.fromEntries(Object.entries(namedVectors).map(([name, v]) => [name, new Float32Array(v)]))
+    : undefined;
 }
 
 function serializeDocument(doc: Document & { metadata?: Record<string, unknown> }): SerializedDocument {
   return {
     id: doc.id,
     vector: Array.from(doc.vector),
+    vectors: doc.vectors?.map((v) => Array.from(v)),
+    namedVectors: doc.namedVectors
+      ? Object.fromEntries(Object.entries(doc.namedVectors).map(([name, v]) => [name, Array.from(v)]))
+      : undefined,
+    sparseVector: doc.sparseVector
+      ? { indices: Array.from(doc.sparseVector.indices), values: Array.from(doc.sparseVector.values) }
+      : undefined,
     metadata: doc.metadata,
   };
 }
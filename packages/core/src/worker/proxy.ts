@@ -7,10 +7,30 @@ import type {
   VectorDB,
   VectorDBConfig,
   Document,
+  DocumentInput,
+  VectorDBTransaction,
+  TransactionOptions,
+  VectorDBSnapshotView,
+  SnapshotInfo,
+  DocumentChange,
+  ChangesOptions,
+  ChangesResult,
+  WatchOptions,
   SearchOptions,
   SearchResult,
+  FusedSearchOptions,
+  FusedSearchResult,
+  SparseVector,
+  SparseSearchOptions,
+  KeywordSearchOptions,
+  MultiVectorSearchOptions,
+  MultiVectorSearchResult,
   AddManyOptions,
+  CountOptions,
+  FindOptions,
+  FindResult,
   ExportOptions,
+  ExportStreamOptions,
   ImportOptions,
   RecalibrateOptions,
   DBStats,
@@ -111,23 +131,15 @@ export class VectorDBWorkerProxy implements VectorDB {
     await this.send('init', config);
   }
 
-  async add(doc: Document): Promise<void> {
-    await this.send('add', {
-      id: doc.id,
-      vector: Array.from(doc.vector),
-      metadata: doc.metadata,
-    });
+  async add(doc: DocumentInput): Promise<void> {
+    await this.send('add', serializeInput(doc));
   }
 
-  async addMany(docs: Document[], options?: AddManyOptions): Promise<void> {
+  async addMany(docs: DocumentInput[], options?: AddManyOptions): Promise<void> {
     await this.send(
       'addMany',
       {
-        documents: docs.map((doc) => ({
-          id: doc.id,
-          vector: Array.from(doc.vector),
-          metadata: doc.metadata,
-        })),
+        documents: docs.map(serializeInput),
         options: options ? { batchSize: options.batchSize } : undefined,
       },
       options?.onProgress
@@ -141,30 +153,74 @@ export class VectorDBWorkerProxy implements VectorDB {
     });
   }
 
+  async searchFused(
+    queries: Record<string, Float32Array>,
+    options?: FusedSearchOptions
+  ): Promise<FusedSearchResult[]> {
+    return this.send('searchFused', {
+      queries: Object.fromEntries(Object.entries(queries).map(([name, v]) => [name, Array.from(v)])),
+      options,
+    });
+  }
+
+  async searchSparse(query: SparseVector, options?: SparseSearchOptions): Promise<SearchResult[]> {
+    return this.send('searchSparse', {
+      query: serializeSparseVector(query),
+      options,
+    });
+  }
+
+  async searchKeyword(query: string, options?: KeywordSearchOptions): Promise<SearchResult[]> {
+    return this.send('searchKeyword', { query, options });
+  }
+
+  async searchMultiVector(
+    query: Float32Array | Float32Array[],
+    options?: MultiVectorSearchOptions
+  ): Promise<MultiVectorSearchResult[]> {
+    const queries = Array.isArray(query) ? query : [query];
+    return this.send('searchMultiVector', {
+      query: queries.map((v) => Array.from(v)),
+      options,
+    });
+  }
+
   async get(id: string): Promise<(Document & { metadata?: Record<string, unknown> }) | null> {
     const result = await this.send<{
       id: string;
       vector: number[];
+      vectors?: number[][];
+      namedVectors?: Record<string, number[]>;
+      sparseVector?: { indices: number[]; values: number[] };
       metadata?: Record<string, unknown>;
     } | null>('get', id);
 
     if (!result) return null;
 
-    return {
+    const doc: Document = {
       id: result.id,
       vector: new Float32Array(result.vector),
       metadata: result.metadata,
     };
+    if (result.vectors) {
+      doc.vectors = result.vectors.map((v) => new Float32Array(v));
+    }
+    if (result.namedVectors) {
+      doc.namedVectors = Object.fromEntries(
+        Object.entries(result.namedVectors).map(([name, v]) => [name, new Float32Array(v)])
+      );
+    }
+    if (result.sparseVector) {
+      doc.sparseVector = {
+        indices: new Uint32Array(result.sparseVector.indices),
+        values: new Float32Array(result.sparseVector.values),
+      };
+    }
+    return doc;
   }
 
   async update(id: string, updates: Partial<Omit<Document, 'id'>>): Promise<void> {
-    await this.send('update', {
-      docId: id,
-      updates: {
-        vector: updates.vector ? Array.from(updates.vector) : undefined,
-        metadata: updates.metadata,
-      },
-    });
+    await this.send('update', { docId: id, updates: serializeUpdates(updates) });
   }
 
   async delete(id: string): Promise<void> {
@@ -179,6 +235,71 @@ export class VectorDBWorkerProxy implements VectorDB {
     return this.send('deleteWhere', filter);
   }
 
+  /**
+   * Run a transaction in the worker.
+   * Note: Writes are sent to the worker together once the callback resolves,
+   * so `tx.get()` does not see the transaction's own writes.
+   */
+  async transaction<T>(
+    callback: (tx: VectorDBTransaction) => Promise<T>,
+    options?: TransactionOptions
+  ): Promise<T> {
+    const operations: unknown[] = [];
+    const result = await callback({
+      add: async (doc) => void operations.push({ type: 'add', doc: serializeInput(doc) }),
+      update: async (id, updates) =>
+        void operations.push({ type: 'update', docId: id, updates: serializeUpdates(updates) }),
+      delete: async (id) => void operations.push({ type: 'delete', docId: id }),
+      get: (id) => this.get(id),
+    });
+    await this.send('transaction', { operations, options });
+    return result;
+  }
+
+  async snapshot(label: string): Promise<SnapshotInfo> {
+    return this.send('snapshot', label);
+  }
+
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    return this.send('listSnapshots', null);
+  }
+
+  async restoreSnapshot(label: string): Promise<void> {
+    await this.send('restoreSnapshot', label);
+  }
+
+  async deleteSnapshot(label: string): Promise<void> {
+    await this.send('deleteSnapshot', label);
+  }
+
+  /**
+   * Read a snapshot.
+   * Note: Snapshot views are not available in worker mode.
+   */
+  at(_snapshot: string | SnapshotInfo): VectorDBSnapshotView {
+    throw new Error('at() is not supported in worker mode. Use the main thread VectorDB instead.');
+  }
+
+  async changes(options?: ChangesOptions): Promise<ChangesResult> {
+    return this.send('changes', options);
+  }
+
+  /**
+   * Watch for changes.
+   * Note: Live iteration is not available in worker mode; poll changes() instead.
+   */
+  watch(_options?: WatchOptions): AsyncIterableIterator<DocumentChange> {
+    throw new Error('watch() is not supported in worker mode. Poll changes() instead.');
+  }
+
+  async count(options?: CountOptions): Promise<number> {
+    return this.send('count', options);
+  }
+
+  async find(options?: FindOptions): Promise<FindResult> {
+    return this.send('find', options);
+  }
+
   collection(name: string): VectorDB {
     // Return a new proxy for the collection
     return new VectorDBWorkerProxy(this.worker, name);
@@ -211,6 +332,22 @@ export class VectorDBWorkerProxy implements VectorDB {
     });
   }
 
+  /**
+   * Export as a stream.
+   * Note: Streams are not passed to the worker; use export() instead.
+   */
+  exportStream(_options?: ExportStreamOptions): ReadableStream<Uint8Array> {
+    throw new Error('exportStream() is not supported in worker mode. Use export() instead.');
+  }
+
+  /**
+   * Import a stream.
+   * Note: Streams are not passed to the worker; use import() instead.
+   */
+  async importStream(_stream: ReadableStream<Uint8Array>, _options?: ImportOptions): Promise<void> {
+    throw new Error('importStream() is not supported in worker mode. Use import() instead.');
+  }
+
   /**
    * Recalibrate quantization.
    * Note: Recalibration is handled by the worker.
@@ -250,3 +387,44 @@ export async function createVectorDBWithWorker(
   await proxy.initialize(config);
   return proxy;
 }
+
+/**
+ * Convert a document's typed arrays into plain arrays for postMessage.
+ */
+function serializeInput(doc: DocumentInput) {
+  return {
+    id: doc.id,
+    vector: doc.vector ? Array.from(doc.vector) : undefined,
+    vectors: doc.vectors?.map((v) => Array.from(v)),
+    namedVectors: serializeNamedVectors(doc.namedVectors),
+    sparseVector: serializeSparseVector(doc.sparseVector),
+    metadata: doc.metadata,
+  };
+}
+
+/**
+ * Convert a document update's typed arrays into plain arrays for postMessage.
+ */
+function serializeUpdates(updates: Partial<Omit<Document, 'id'>>) {
+  return {
+    vector: updates.vector ? Array.from(updates.vector) : undefined,
+    vectors: updates.vectors?.map((v) => Array.from(v)),
+    namedVectors: serializeNamedVectors(updates.namedVectors),
+    sparseVector: serializeSparseVector(updates.sparseVector),
+    metadata: updates.metadata,
+  };
+}
+
+function serializeNamedVectors(
+  namedVectors: Record<string, Float32Array> | undefined
+): Record<string, number[]> | undefined {
+  return namedVectors
+    ? Object.fromEntries(Object.entries(namedVectors).map(([name, v]) => [name, Array.from(v)]))
+    : undefined;
+}
+
+function serializeSparseVector(
+  vector: SparseVector | undefined
+): { indices: number[]; values: number[] } | undefined {
+  return vector ? { indices: Array.from(vector.indices), values: Array.from(vector.values) } : undefined;
+}
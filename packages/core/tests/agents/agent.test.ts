@@ -5,8 +5,10 @@
 import { describe, it, expect } from 'vitest';
 import { createAgent, runAgent } from '../../src/agents/agent.js';
 import { AgentError } from '../../src/errors/index.js';
+import { createAgentCheckpointStore } from '../../src/agents/checkpoints.js';
+import { MemoryStorage } from '../../src/storage/memory.js';
 import { createMockLanguageModelForAgent, createMockTool } from '../../src/testing/index.js';
-import type { AgentStep } from '../../src/agents/types.js';
+import type { AgentStep, AgentStreamEvent } from '../../src/agents/types.js';
 
 function createBasicSetup() {
   const searchTool = createMockTool('search', 'Found: relevant information');
@@ -141,6 +143,337 @@ describe('createAgent()', () => {
   });
 });
 
+describe('agent.stream()', () => {
+  async function collect(events: AsyncIterable<AgentStreamEvent>): Promise<AgentStreamEvent[]> {
+    const collected: AgentStreamEvent[] = [];
+    for await (const event of events) collected.push(event);
+    return collected;
+  }
+
+  it('yields tool call, tool result, step and finish events in order', async () => {
+    const { searchTool } = createBasicSetup();
+    const model = createMockLanguageModelForAgent({
+      actionSequence: [
+        { type: 'tool_call', tool: 'search', args: { query: 'answer' } },
+        { type: 'finish', result: 'The answer is 42.' },
+      ],
+      nativeTools: true,
+    });
+
+    const agent = createAgent({ model, tools: [searchTool] });
+    const events = await collect(agent.stream({ prompt: 'What is the answer?' }));
+
+    expect(events.map((e) => e.type)).toEqual([
+      'tool-call-start',
+      'tool-args-delta',
+      'tool-result',
+      'step-finish',
+      'text-delta',
+      'text-delta',
+      'text-delta',
+      'text-delta',
+      'step-finish',
+      'finish',
+    ]);
+    expect(events[0]).toEqual({ type: 'tool-call-start', stepIndex: 0, toolCallId: 'call_1', toolName: 'search' });
+    expect(events[1]).toEqual({
+      type: 'tool-args-delta',
+      stepIndex: 0,
+      toolCallId: 'call_1',
+      argsTextDelta: '{"query":"answer"}',
+    });
+    expect(events[2]).toMatchObject({ type: 'tool-result', toolName: 'search', observation: 'Found: relevant information' });
+
+    const text = events
+      .filter((e): e is Extract<AgentStreamEvent, { type: 'text-delta' }> => e.type === 'text-delta')
+      .map((e) => e.text)
+      .join('');
+    expect(text).toBe('The answer is 42.');
+
+    const finish = events[events.length - 1];
+    expect(finish.type === 'finish' && finish.result.result).toBe('The answer is 42.');
+    expect(finish.type === 'finish' && finish.result.steps).toHaveLength(2);
+  });
+
+  it('streams through streamText() with the tools', async () => {
+    const { searchTool } = createBasicSetup();
+    const model = createMockLanguageModelForAgent({
+      actionSequence: [{ type: 'finish', result: 'Done.' }],
+      nativeTools: true,
+    });
+
+    const agent = createAgent({ model, tools: [searchTool] });
+    await collect(agent.stream({ prompt: 'Test' }));
+
+    expect(model.calls).toHaveLength(1);
+    expect(model.calls[0].tools?.map((t) => t.name)).toEqual(['search']);
+  });
+
+  it('emulates tool calls for models without native support', async () => {
+    const { searchTool } = createBasicSetup();
+    const model = createMockLanguageModelForAgent({
+      actionSequence: [
+        { type: 'tool_call', tool: 'search', args: {} },
+        { type: 'finish', result: 'Done.' },
+      ],
+    });
+
+    const agent = createAgent({ model, tools: [searchTool] });
+    const events = await collect(agent.stream({ prompt: 'Test' }));
+
+    expect(searchTool.callCount).toBe(1);
+    expect(events.filter((e) => e.type === 'text-delta').map((e) => e.type === 'text-delta' && e.text)).toEqual(['Done.']);
+    expect(events[events.length - 1]).toMatchObject({ type: 'finish', result: { finishReason: 'finish' } });
+  });
+
+  it('streams tool calls as the model generates them', async () => {
+    const { searchTool } = createBasicSetup();
+    const model = createMockLanguageModelForAgent({
+      actionSequence: [
+        { type: 'tool_call', tool: 'search', args: { query: 'the answer to everything' } },
+        { type: 'finish', result: 'Done.' },
+      ],
+    });
+
+    const agent = createAgent({ model, tools: [searchTool] });
+    const events = await collect(agent.stream({ prompt: 'Test' }));
+
+    const untilResult = events.slice(0, events.findIndex((e) => e.type === 'tool-result'));
+    expect(untilResult[0]).toMatchObject({ type: 'tool-call-start', stepIndex: 0, toolName: 'search' });
+    expect(untilResult.filter((e) => e.type === 'tool-call-start')).toHaveLength(1);
+
+    const deltas = untilResult.filter(
+      (e): e is Extract<AgentStreamEvent, { type: 'tool-args-delta' }> => e.type === 'tool-args-delta'
+    );
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(JSON.parse(deltas.map((e) => e.argsTextDelta).join(''))).toEqual({ query: 'the answer to everything' });
+    expect(new Set(deltas.map((e) => e.toolCallId))).toEqual(
+      new Set([untilResult[0].type === 'tool-call-start' && untilResult[0].toolCallId])
+    );
+  });
+
+  it('falls back to generateText() for models without doStream', async () => {
+    const { searchTool } = createBasicSetup();
+    const { doStream: _doStream, ...model } = createMockLanguageModelForAgent({
+      actionSequence: [{ type: 'finish', result: 'Done.' }],
+      nativeTools: true,
+    });
+
+    const agent = createAgent({ model, tools: [searchTool] });
+    const events = await collect(agent.stream({ prompt: 'Test' }));
+
+    expect(events.map((e) => e.type)).toEqual(['text-delta', 'step-finish', 'finish']);
+  });
+
+  it('calls onStep as steps finish', async () => {
+    const { searchTool } = createBasicSetup();
+    const model = createMockLanguageModelForAgent({
+      actionSequence: [
+        { type: 'tool_call', tool: 'search', args: {} },
+        { type: 'finish', result: 'Done.' },
+      ],
+      nativeTools: true,
+    });
+
+    const steps: AgentStep[] = [];
+    const agent = createAgent({ model, tools: [searchTool] });
+    await collect(agent.stream({ prompt: 'Test', onStep: (step) => steps.push(step) }));
+
+    expect(steps.map((s) => s.type)).toEqual(['tool_call', 'finish']);
+  });
+
+  it('throws when the abort signal fires mid-run', async () => {
+    const { searchTool } = createBasicSetup();
+    const model = createMockLanguageModelForAgent({
+      actionSequence: [
+        { type: 'tool_call', tool: 'search', args: {} },
+        { type: 'finish', result: 'Done.' },
+      ],
+      nativeTools: true,
+    });
+
+    const controller = new AbortController();
+    const agent = createAgent({ model, tools: [searchTool] });
+    const seen: string[] = [];
+
+    await expect(
+      (async () => {
+        for await (const event of agent.stream({ prompt: 'Test', abortSignal: controller.signal })) {
+          seen.push(event.type);
+          if (event.type === 'step-finish') controller.abort();
+        }
+      })()
+    ).rejects.toThrow();
+
+    expect(seen).not.toContain('finish');
+    expect(model.callCount).toBe(1);
+  });
+});
+
+describe('tool approval', () => {
+  function createApprovalSetup(needsApproval: boolean | ((args: any) => boolean) = true) {
+    const searchTool = createMockTool('search', 'Found: stale records');
+    const deleteTool = Object.assign(createMockTool('delete', 'Deleted.'), { needsApproval });
+    const model = createMockLanguageModelForAgent({
+      actionSequence: [
+        { type: 'tool_call', tool: 'search', args: {} },
+        { type: 'tool_call', tool: 'delete', args: { table: 'logs' } },
+        { type: 'finish', result: 'Cleaned up.' },
+      ],
+      nativeTools: true,
+    });
+    return { searchTool, deleteTool, model };
+  }
+
+  it('pauses with a checkpoint before running a tool that needs approval', async () => {
+    const { searchTool, deleteTool, model } = createApprovalSetup();
+    const agent = createAgent({ model, tools: [searchTool, deleteTool] });
+
+    const result = await agent.run({ prompt: 'Delete the stale records' });
+
+    expect(result.finishReason).toBe('awaiting_approval');
+    expect(result.steps).toHaveLength(1);
+    expect(deleteTool.callCount).toBe(0);
+    expect(result.checkpoint?.prompt).toBe('Delete the stale records');
+    expect(result.checkpoint?.pendingToolCall).toMatchObject({
+      stepIndex: 1,
+      toolName: 'delete',
+      args: { table: 'logs' },
+      toolCallId: 'call_2',
+    });
+  });
+
+  it('runs tools whose predicate declines approval', async () => {
+    const { searchTool, deleteTool, model } = createApprovalSetup(({ table }) => table === 'users');
+    const agent = createAgent({ model, tools: [searchTool, deleteTool] });
+
+    const result = await agent.run({ prompt: 'Delete the stale records' });
+
+    expect(result.finishReason).toBe('finish');
+    expect(deleteTool.callCount).toBe(1);
+  });
+
+  it('resumes an approved call and continues the run', async () => {
+    const { searchTool, deleteTool, model } = createApprovalSetup();
+    const agent = createAgent({ model, tools: [searchTool, deleteTool] });
+    const paused = await agent.run({ prompt: 'Delete the stale records' });
+
+    const steps: AgentStep[] = [];
+    const result = await agent.resume(paused.checkpoint!, { approved: true, onStep: (step) => steps.push(step) });
+
+    expect(result.finishReason).toBe('finish');
+    expect(result.result).toBe('Cleaned up.');
+    expect(result.steps.map((s) => s.index)).toEqual([0, 1, 2]);
+    expect(result.steps[1]).toMatchObject({ toolName: 'delete', observation: 'Deleted.' });
+    expect(result.totalUsage.totalTokens).toBe(60);
+    expect(steps).toHaveLength(2);
+    expect(deleteTool.calls[0].args).toEqual({ table: 'logs' });
+  });
+
+  it('runs an approved call with edited arguments', async () => {
+    const { searchTool, deleteTool, model } = createApprovalSetup();
+    const agent = createAgent({ model, tools: [searchTool, deleteTool] });
+    const paused = await agent.run({ prompt: 'Delete the stale records' });
+
+    const result = await agent.resume(paused.checkpoint!, { approved: true, editedArgs: { table: 'old_logs' } });
+
+    expect(deleteTool.calls[0].args).toEqual({ table: 'old_logs' });
+    expect(result.steps[1].toolArgs).toEqual({ table: 'old_logs' });
+  });
+
+  it('reports a rejected call to the model without running it', async () => {
+    const { searchTool, deleteTool, model } = createApprovalSetup();
+    const agent = createAgent({ model, tools: [searchTool, deleteTool] });
+    const paused = await agent.run({ prompt: 'Delete the stale records' });
+
+    const result = await agent.resume(paused.checkpoint!, { approved: false, reason: 'Keep the logs' });
+
+    expect(deleteTool.callCount).toBe(0);
+    expect(result.steps[1].observation).toBe('Tool call rejected by the user. Reason: Keep the logs');
+    const toolMessage = model.calls[2].messages?.find((m) => m.role === 'tool' && m.toolName === 'delete');
+    expect(toolMessage?.content).toBe('Tool call rejected by the user. Reason: Keep the logs');
+  });
+
+  it('resumes from a checkpoint that went through JSON', async () => {
+    const { searchTool, deleteTool, model } = createApprovalSetup();
+    const agent = createAgent({ model, tools: [searchTool, deleteTool] });
+    const paused = await agent.run({ prompt: 'Delete the stale records' });
+
+    const checkpoint = JSON.parse(JSON.stringify(paused.checkpoint));
+    const result = await agent.resume(checkpoint, { approved: true });
+
+    expect(result.finishReason).toBe('finish');
+    expect(deleteTool.callCount).toBe(1);
+  });
+
+  it('saves paused runs to the checkpoint store and removes them on resume', async () => {
+    const { searchTool, deleteTool, model } = createApprovalSetup();
+    const checkpointStore = await createAgentCheckpointStore({ storage: new MemoryStorage() });
+    const agent = createAgent({ model, tools: [searchTool, deleteTool], checkpointStore });
+
+    const paused = await agent.run({ prompt: 'Delete the stale records' });
+    const [stored] = await checkpointStore.list();
+    expect(stored.id).toBe(paused.checkpoint!.id);
+
+    await agent.resume(stored, { approved: true });
+    expect(await checkpointStore.list()).toEqual([]);
+  });
+
+  it('ends a stream with the checkpoint', async () => {
+    const { searchTool, deleteTool, model } = createApprovalSetup();
+    const agent = createAgent({ model, tools: [searchTool, deleteTool] });
+
+    const types: string[] = [];
+    let finish: AgentStreamEvent | undefined;
+    for await (const event of agent.stream({ prompt: 'Delete the stale records' })) {
+      types.push(event.type);
+      if (event.type === 'finish') finish = event;
+    }
+
+    expect(types.slice(-3)).toEqual(['tool-call-start', 'tool-args-delta', 'finish']);
+    expect(finish?.type === 'finish' && finish.result.finishReason).toBe('awaiting_approval');
+    expect(deleteTool.callCount).toBe(0);
+  });
+
+  it('asks about each call of a batched step before running it', async () => {
+    const searchTool = createMockTool('search', 'Found: stale records');
+    const deleteTool = Object.assign(createMockTool('delete', 'Deleted.'), { needsApproval: true });
+    const model = createMockLanguageModelForAgent({
+      actionSequence: [
+        {
+          type: 'tool_calls',
+          calls: [
+            { tool: 'delete', args: { table: 'logs' } },
+            { tool: 'search', args: {} },
+            { tool: 'delete', args: { table: 'users' } },
+          ],
+        },
+        { type: 'finish', result: 'Cleaned up.' },
+      ],
+      nativeTools: true,
+    });
+    const agent = createAgent({ model, tools: [searchTool, deleteTool], maxParallelTools: 3 });
+
+    const first = await agent.run({ prompt: 'Delete the stale records' });
+    expect(first.checkpoint?.pendingToolCall).toMatchObject({ toolName: 'delete', args: { table: 'logs' }, batchIndex: 0 });
+
+    const second = await agent.resume(first.checkpoint!, { approved: true });
+    expect(second.finishReason).toBe('awaiting_approval');
+    expect(second.checkpoint?.pendingToolCall).toMatchObject({ args: { table: 'users' }, batchIndex: 2 });
+    expect(deleteTool.callCount).toBe(0);
+    expect(searchTool.callCount).toBe(0);
+
+    const result = await agent.resume(second.checkpoint!, { approved: false });
+    expect(result.finishReason).toBe('finish');
+    expect(deleteTool.calls.map((call) => call.args)).toEqual([{ table: 'logs' }]);
+    expect(result.steps[0].toolCalls?.map((call) => call.observation)).toEqual([
+      'Deleted.',
+      'Found: stale records',
+      'Tool call rejected by the user.',
+    ]);
+  });
+});
+
 describe('runAgent()', () => {
   it('runs a one-shot agent', async () => {
     const { searchTool } = createBasicSetup();
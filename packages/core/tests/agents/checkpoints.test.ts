@@ -0,0 +1,76 @@
+/**
+ * @file checkpoints.test.ts
+ * @description Unit tests for createAgentCheckpointStore()
+ */
+import { describe, it, expect } from 'vitest';
+import { createAgentCheckpointStore } from '../../src/agents/checkpoints.js';
+import { MemoryStorage } from '../../src/storage/memory.js';
+import type { AgentCheckpoint } from '../../src/agents/types.js';
+
+function createCheckpoint(id: string, createdAt: number): AgentCheckpoint {
+  return {
+    id,
+    prompt: 'Delete the stale records',
+    steps: [],
+    pendingToolCall: { stepIndex: 0, toolName: 'delete', args: { table: 'logs' }, durationMs: 5 },
+    totalUsage: { inputTokens: 10, outputTokens: 10, totalTokens: 20, durationMs: 1 },
+    elapsedMs: 5,
+    lastToolCall: 'delete:{"table":"logs"}',
+    consecutiveDuplicates: 0,
+    createdAt,
+  };
+}
+
+describe('createAgentCheckpointStore()', () => {
+  it('saves and loads a checkpoint', async () => {
+    const store = await createAgentCheckpointStore({ storage: new MemoryStorage() });
+    const checkpoint = createCheckpoint('ckpt_1', 1000);
+
+    await store.save(checkpoint);
+
+    expect(await store.load('ckpt_1')).toEqual(checkpoint);
+    expect(await store.load('missing')).toBeNull();
+  });
+
+  it('lists checkpoints oldest first', async () => {
+    const store = await createAgentCheckpointStore({ storage: new MemoryStorage() });
+    await store.save(createCheckpoint('ckpt_b', 2000));
+    await store.save(createCheckpoint('ckpt_a', 1000));
+
+    const ids = (await store.list()).map((c) => c.id);
+    expect(ids).toEqual(['ckpt_a', 'ckpt_b']);
+  });
+
+  it('deletes a checkpoint', async () => {
+    const store = await createAgentCheckpointStore({ storage: new MemoryStorage() });
+    await store.save(createCheckpoint('ckpt_1', 1000));
+
+    await store.delete('ckpt_1');
+
+    expect(await store.load('ckpt_1')).toBeNull();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('keeps stores with different names apart on shared storage', async () => {
+    const storage = new MemoryStorage();
+    const first = await createAgentCheckpointStore({ name: 'first', storage });
+    const second = await createAgentCheckpointStore({ name: 'second', storage });
+
+    await first.save(createCheckpoint('ckpt_1', 1000));
+
+    expect(await first.list()).toHaveLength(1);
+    expect(await second.list()).toEqual([]);
+    expect(await second.load('ckpt_1')).toBeNull();
+  });
+
+  it('does not close injected storage', async () => {
+    const storage = new MemoryStorage();
+    const store = await createAgentCheckpointStore({ storage });
+    await store.save(createCheckpoint('ckpt_1', 1000));
+
+    await store.close();
+
+    const reopened = await createAgentCheckpointStore({ storage });
+    expect(await reopened.load('ckpt_1')).not.toBeNull();
+  });
+});
@@ -243,6 +243,251 @@ describe('executeReActLoop()', () => {
   });
 });
 
+describe('executeReActLoop() with native tool calling', () => {
+  function createNativeSetup(
+    actionSequence: Array<
+      | { type: 'tool_call'; tool: string; args: Record<string, unknown> }
+      | { type: 'finish'; result: string }
+    >,
+  ) {
+    const searchTool = createMockTool('search', 'Found: quantum computing article');
+    const model = createMockLanguageModelForAgent({ actionSequence, nativeTools: true });
+    const toolRegistry = createToolRegistry([searchTool]);
+    return { model, toolRegistry, searchTool };
+  }
+
+  it('passes the tools to the model and finishes with its text reply', async () => {
+    const { model, toolRegistry } = createNativeSetup([
+      { type: 'tool_call', tool: 'search', args: { query: 'quantum' } },
+      { type: 'finish', result: 'Quantum computing uses qubits.' },
+    ]);
+
+    const result = await executeReActLoop({
+      model,
+      toolRegistry,
+      prompt: 'Explain quantum computing',
+      maxSteps: 10,
+      maxRetries: 0,
+      temperature: 0,
+    });
+
+    expect(result.finishReason).toBe('finish');
+    expect(result.result).toBe('Quantum computing uses qubits.');
+    expect(result.steps[0]).toMatchObject({ type: 'tool_call', toolName: 'search', toolCallId: 'call_1' });
+    expect(model.calls[0].tools?.map((t) => t.name)).toEqual(['search']);
+    expect(model.calls[0].systemPrompt).not.toContain('"type": "tool_call"');
+  });
+
+  it('sends previous steps as tool call and tool result messages', async () => {
+    const { model, toolRegistry } = createNativeSetup([
+      { type: 'tool_call', tool: 'search', args: { query: 'quantum' } },
+      { type: 'finish', result: 'Done.' },
+    ]);
+
+    await executeReActLoop({
+      model,
+      toolRegistry,
+      prompt: 'Explain quantum computing',
+      maxSteps: 10,
+      maxRetries: 0,
+      temperature: 0,
+    });
+
+    const messages = model.calls[1].messages!;
+    expect(messages[0]).toMatchObject({ role: 'user' });
+    expect(messages[0].content).toContain('Task: Explain quantum computing');
+    expect(messages[1]).toEqual({
+      role: 'assistant',
+      content: '',
+      toolCalls: [{ toolCallId: 'call_1', toolName: 'search', args: { query: 'quantum' } }],
+    });
+    expect(messages[2]).toEqual({
+      role: 'tool',
+      content: 'Found: quantum computing article',
+      toolCallId: 'call_1',
+      toolName: 'search',
+    });
+  });
+
+  it('detects consecutive identical tool calls', async () => {
+    const { model, toolRegistry } = createNativeSetup([
+      { type: 'tool_call', tool: 'search', args: { query: 'same' } },
+      { type: 'tool_call', tool: 'search', args: { query: 'same' } },
+      { type: 'tool_call', tool: 'search', args: { query: 'same' } },
+    ]);
+
+    const result = await executeReActLoop({
+      model,
+      toolRegistry,
+      prompt: 'Search',
+      maxSteps: 10,
+      maxRetries: 0,
+      temperature: 0,
+    });
+
+    expect(result.finishReason).toBe('loop_detected');
+    expect(model.calls[2].messages!.at(-1)?.content).toContain('identical arguments');
+  });
+});
+
+describe('executeReActLoop() with parallel tool calls', () => {
+  /** A search tool that answers after a per-query delay and tracks concurrency */
+  function createSlowSearchTool(delays: Record<string, number>) {
+    const state = { active: 0, maxActive: 0, started: [] as string[] };
+    const tool = {
+      ...createMockTool('search'),
+      execute: async (params: unknown) => {
+        const { query } = params as { query: string };
+        state.started.push(query);
+        state.active++;
+        state.maxActive = Math.max(state.maxActive, state.active);
+        await new Promise((resolve) => setTimeout(resolve, delays[query] ?? 0));
+        state.active--;
+        return `Found: ${query}`;
+      },
+    };
+    return { tool, state };
+  }
+
+  const threeSearches = {
+    type: 'tool_calls' as const,
+    calls: [
+      { tool: 'search', args: { query: 'a' } },
+      { tool: 'search', args: { query: 'b' } },
+      { tool: 'search', args: { query: 'c' } },
+    ],
+  };
+
+  it('runs the calls of a step concurrently, bounded by maxParallelTools', async () => {
+    const { tool, state } = createSlowSearchTool({ a: 30, b: 10, c: 0 });
+    const model = createMockLanguageModelForAgent({
+      actionSequence: [threeSearches, { type: 'finish', result: 'Done.' }],
+    });
+
+    const result = await executeReActLoop({
+      model,
+      toolRegistry: createToolRegistry([tool]),
+      prompt: 'Search three things',
+      maxSteps: 10,
+      maxRetries: 3,
+      temperature: 0,
+      maxParallelTools: 2,
+    });
+
+    expect(result.finishReason).toBe('finish');
+    expect(state.maxActive).toBe(2);
+    expect(result.steps).toHaveLength(2);
+    expect(result.steps[0]).toMatchObject({
+      type: 'tool_call',
+      toolName: 'search',
+      toolArgs: { query: 'a' },
+      observation: 'Found: a',
+    });
+    // Observations are merged back in call order, not completion order
+    expect(result.steps[0].toolCalls?.map((call) => call.observation)).toEqual([
+      'Found: a',
+      'Found: b',
+      'Found: c',
+    ]);
+  });
+
+  it('runs the calls one at a time by default', async () => {
+    const { tool, state } = createSlowSearchTool({ a: 5, b: 5, c: 5 });
+    const model = createMockLanguageModelForAgent({
+      actionSequence: [threeSearches, { type: 'finish', result: 'Done.' }],
+    });
+
+    const result = await executeReActLoop({
+      model,
+      toolRegistry: createToolRegistry([tool]),
+      prompt: 'Search three things',
+      maxSteps: 10,
+      maxRetries: 3,
+      temperature: 0,
+    });
+
+    expect(state.maxActive).toBe(1);
+    expect(state.started).toEqual(['a', 'b', 'c']);
+    expect(result.steps[0].toolCalls).toHaveLength(3);
+  });
+
+  it('does not start the remaining calls after abort', async () => {
+    const controller = new AbortController();
+    const { tool, state } = createSlowSearchTool({ a: 20, b: 20, c: 20 });
+    const model = createMockLanguageModelForAgent({
+      actionSequence: [threeSearches, { type: 'finish', result: 'Done.' }],
+    });
+    setTimeout(() => controller.abort(), 5);
+
+    await expect(
+      executeReActLoop({
+        model,
+        toolRegistry: createToolRegistry([tool]),
+        prompt: 'Search three things',
+        maxSteps: 10,
+        maxRetries: 3,
+        temperature: 0,
+        maxParallelTools: 2,
+        abortSignal: controller.signal,
+      })
+    ).rejects.toThrow();
+    expect(state.started).toEqual(['a', 'b']);
+  });
+
+  it('detects repeated batches in any order', async () => {
+    const { tool } = createSlowSearchTool({});
+    const model = createMockLanguageModelForAgent({
+      actionSequence: [
+        threeSearches,
+        { ...threeSearches, calls: [...threeSearches.calls].reverse() },
+        threeSearches,
+      ],
+    });
+
+    const result = await executeReActLoop({
+      model,
+      toolRegistry: createToolRegistry([tool]),
+      prompt: 'Search',
+      maxSteps: 10,
+      maxRetries: 3,
+      temperature: 0,
+      maxParallelTools: 3,
+    });
+
+    expect(result.finishReason).toBe('loop_detected');
+    expect(result.steps).toHaveLength(3);
+    expect(result.steps[2].toolCalls?.every((call) => call.observation.startsWith('Loop detected'))).toBe(true);
+  });
+
+  it('sends a batched step as one assistant message and a tool message per call', async () => {
+    const { tool } = createSlowSearchTool({});
+    const model = createMockLanguageModelForAgent({
+      actionSequence: [threeSearches, { type: 'finish', result: 'Done.' }],
+      nativeTools: true,
+    });
+
+    const result = await executeReActLoop({
+      model,
+      toolRegistry: createToolRegistry([tool]),
+      prompt: 'Search three things',
+      maxSteps: 10,
+      maxRetries: 0,
+      temperature: 0,
+      maxParallelTools: 3,
+    });
+
+    expect(result.steps[0].toolCalls?.map((call) => call.toolCallId)).toEqual(['call_1', 'call_1_1', 'call_1_2']);
+    const messages = model.calls[1].messages!;
+    expect(messages[1].toolCalls).toHaveLength(3);
+    expect(messages.slice(2)).toEqual([
+      { role: 'tool', content: 'Found: a', toolCallId: 'call_1', toolName: 'search' },
+      { role: 'tool', content: 'Found: b', toolCallId: 'call_1_1', toolName: 'search' },
+      { role: 'tool', content: 'Found: c', toolCallId: 'call_1_2', toolName: 'search' },
+    ]);
+    expect(model.calls[0].systemPrompt).toContain('up to 3 independent tools');
+  });
+});
+
 describe('buildAgentPrompt()', () => {
   it('includes tool descriptions in the prompt', () => {
     const toolRegistry = createToolRegistry([
@@ -262,6 +507,12 @@ describe('buildAgentPrompt()', () => {
     const prompt = buildAgentPrompt(toolRegistry, 'You are a helpful assistant.');
     expect(prompt).toContain('You are a helpful assistant.');
   });
+
+  it('offers the tool_calls action only when several tools may run at once', () => {
+    const toolRegistry = createToolRegistry([createMockTool('search', 'result')]);
+    expect(buildAgentPrompt(toolRegistry)).not.toContain('"tool_calls"');
+    expect(buildAgentPrompt(toolRegistry, undefined, 3)).toContain('"type": "tool_calls"');
+  });
 });
 
 describe('truncateHistory()', () => {
@@ -293,4 +544,26 @@ describe('truncateHistory()', () => {
     const history = truncateHistory(steps, 1000, 200); // Very small context
     expect(history).toContain('earlier steps truncated');
   });
+
+  it('formats every call of a batched step', () => {
+    const steps: AgentStep[] = [
+      {
+        index: 0,
+        type: 'tool_call',
+        toolName: 'search',
+        toolArgs: { query: 'a' },
+        observation: 'Found a',
+        toolCalls: [
+          { toolName: 'search', toolArgs: { query: 'a' }, observation: 'Found a' },
+          { toolName: 'search', toolArgs: { query: 'b' }, observation: 'Found b' },
+        ],
+        durationMs: 100,
+      },
+    ];
+
+    const history = truncateHistory(steps, 4096, 200);
+    expect(history).toContain('Step 0: Called 2 tools at once');
+    expect(history).toContain('[1] Called tool "search" with {"query":"a"}\nObservation: Found a');
+    expect(history).toContain('[2] Called tool "search" with {"query":"b"}\nObservation: Found b');
+  });
 });
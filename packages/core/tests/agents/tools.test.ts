@@ -144,6 +144,34 @@ describe('createToolRegistry()', () => {
     });
   });
 
+  describe('needsApproval()', () => {
+    const context = { abortSignal: new AbortController().signal, stepIndex: 0 };
+
+    it('returns false for tools without needsApproval', async () => {
+      const registry = createToolRegistry([createSearchTool()]);
+      expect(await registry.needsApproval('search', { query: 'quantum' }, context)).toBe(false);
+    });
+
+    it('returns a boolean needsApproval as is', async () => {
+      const registry = createToolRegistry([{ ...createSearchTool(), needsApproval: true }]);
+      expect(await registry.needsApproval('search', { query: 'quantum' }, context)).toBe(true);
+    });
+
+    it('calls a predicate with the validated arguments', async () => {
+      const registry = createToolRegistry([
+        { ...createSearchTool(), needsApproval: async ({ query }: { query: string }) => query === 'secret' },
+      ]);
+      expect(await registry.needsApproval('search', { query: 'secret' }, context)).toBe(true);
+      expect(await registry.needsApproval('search', { query: 'public' }, context)).toBe(false);
+    });
+
+    it('returns false for invalid arguments and unknown tools', async () => {
+      const registry = createToolRegistry([{ ...createSearchTool(), needsApproval: () => true }]);
+      expect(await registry.needsApproval('search', { query: 123 }, context)).toBe(false);
+      expect(await registry.needsApproval('nonexistent', {}, context)).toBe(false);
+    });
+  });
+
   describe('createMockTool()', () => {
     it('creates a working mock tool', async () => {
       const mock = createMockTool('test', 'mock result');
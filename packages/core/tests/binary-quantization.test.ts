@@ -0,0 +1,212 @@
+/**
+ * @fileoverview Tests for binary quantization, Hamming distance and float32 rescoring.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  createVectorDB,
+  binaryQuantize,
+  binaryDequantize,
+  binaryCodeLength,
+  hammingDistance,
+  getCompressionStats,
+  HNSWIndex,
+  MemoryStorage,
+} from '../src/index.js';
+import type { VectorDB } from '../src/index.js';
+import { originalVectorCollectionId } from '../src/quantization/stored-originals.js';
+
+/** Create a deterministic pseudo-random vector in [-1, 1] */
+function createTestVector(dimensions: number, seed: number): Float32Array {
+  const vec = new Float32Array(dimensions);
+  let s = seed;
+  for (let i = 0; i < dimensions; i++) {
+    s = (s * 1103515245 + 12345) & 0x7fffffff;
+    vec[i] = (s / 0x7fffffff) * 2 - 1;
+  }
+  return vec;
+}
+
+describe('binaryQuantize() / binaryDequantize()', () => {
+  it('packs sign bits eight dimensions per byte', () => {
+    const code = binaryQuantize(new Float32Array([0.3, -0.1, 0, 0.8, -1, 1, 1, -1, 0.5, -0.5]));
+    expect(code).toBeInstanceOf(Uint8Array);
+    expect(Array.from(code)).toEqual([0b01101001, 0b01]);
+    expect(binaryCodeLength(10)).toBe(2);
+    expect(binaryCodeLength(1024)).toBe(128);
+  });
+
+  it('expands bits to a unit vector with the same signs', () => {
+    const restored = binaryDequantize(Uint8Array.from([0b1001]), 4);
+    expect(Array.from(restored)).toEqual([0.5, -0.5, -0.5, 0.5]);
+
+    const vector = createTestVector(100, 7);
+    const code = binaryQuantize(vector);
+    expect(binaryQuantize(binaryDequantize(code, 100))).toEqual(code);
+  });
+});
+
+describe('hammingDistance()', () => {
+  it('counts differing bits with popcount', () => {
+    expect(hammingDistance(Uint8Array.from([0b1111, 0]), Uint8Array.from([0b1010, 0xff]))).toBe(10);
+    expect(hammingDistance(Uint8Array.from([7]), Uint8Array.from([7]))).toBe(0);
+    expect(() => hammingDistance(new Uint8Array(1), new Uint8Array(2))).toThrow();
+  });
+});
+
+describe('HNSWIndex with hamming distance', () => {
+  it('finds the vectors with the most matching signs', () => {
+    const index = new HNSWIndex(16, { distanceFunction: 'hamming' });
+    for (let i = 0; i < 50; i++) {
+      index.add(`v${i}`, createTestVector(16, i + 1));
+    }
+
+    const query = createTestVector(16, 10);
+    const [top] = index.search(query, 1);
+    expect(top).toEqual({ id: 'v9', score: 1 });
+
+    // Vectors are held as sign bits and read back as unit vectors
+    expect(binaryQuantize(index.getVector('v9')!)).toEqual(binaryQuantize(query));
+  });
+
+  it('re-encodes Float32 vectors on deserialize', () => {
+    const index = new HNSWIndex(8, { distanceFunction: 'hamming' });
+    const vectors = new Map<string, Float32Array>();
+    for (let i = 0; i < 10; i++) {
+      const vector = createTestVector(8, i + 1);
+      vectors.set(`v${i}`, vector);
+      index.add(`v${i}`, vector);
+    }
+
+    const restored = HNSWIndex.deserialize(index.serialize(), vectors, { distanceFunction: 'hamming' });
+    expect(restored.search(createTestVector(8, 4), 3)).toEqual(index.search(createTestVector(8, 4), 3));
+  });
+});
+
+describe('VectorDB with binary quantization', () => {
+  const dimensions = 64;
+  let db: VectorDB;
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('stores sign bits and searches them by Hamming distance', async () => {
+    const storage = new MemoryStorage();
+    db = await createVectorDB({ name: 'binary', dimensions, storage, quantization: { type: 'binary' } });
+    for (let i = 0; i < 30; i++) {
+      await db.add({ id: `doc${i}`, vector: createTestVector(dimensions, i + 1) });
+    }
+
+    const stored = await storage.getVector('doc3');
+    expect(stored).toBeInstanceOf(Uint8Array);
+    expect(stored!.length).toBe(dimensions / 8);
+
+    const [top] = await db.search(createTestVector(dimensions, 4), { k: 1 });
+    expect(top).toMatchObject({ id: 'doc3', score: 1 });
+
+    const doc = await db.get('doc3');
+    expect(binaryQuantize(doc!.vector)).toEqual(binaryQuantize(createTestVector(dimensions, 4)));
+
+    expect(await storage.getAllVectors(originalVectorCollectionId('default'))).toEqual(new Map());
+  });
+
+  it('rescores the best candidates with full-precision vectors', async () => {
+    const storage = new MemoryStorage();
+    db = await createVectorDB({
+      name: 'binary-rescore',
+      dimensions,
+      storage,
+      quantization: { type: 'binary', rescore: true, oversample: 3 },
+    });
+    await db.addMany(
+      Array.from({ length: 30 }, (_, i) => ({ id: `doc${i}`, vector: createTestVector(dimensions, i + 1) }))
+    );
+
+    const query = createTestVector(dimensions, 8);
+    const results = await db.search(query, { k: 3, includeVectors: true });
+    expect(results[0].id).toBe('doc7');
+    expect(results[0].score).toBeCloseTo(1, 5);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(Array.from(results[0].vector!)).toEqual(Array.from(query));
+    expect(Array.from((await db.get('doc7'))!.vector)).toEqual(Array.from(query));
+
+    await db.delete('doc7');
+    expect((await storage.getAllVectors(originalVectorCollectionId('default'))).size).toBe(29);
+
+    await db.clear();
+    expect((await storage.getAllVectors(originalVectorCollectionId('default'))).size).toBe(0);
+  });
+
+  it('exports full-precision vectors and imports them as binary codes', async () => {
+    db = await createVectorDB({
+      name: 'binary-export',
+      dimensions,
+      storage: 'memory',
+      quantization: { type: 'binary', rescore: true },
+    });
+    const vector = createTestVector(dimensions, 42);
+    await db.add({ id: 'doc', vector });
+
+    const data = JSON.parse(await (await db.export()).text());
+    expect(data.collections[0].documents[0].vector).toEqual(Array.from(vector));
+
+    const copyStorage = new MemoryStorage();
+    const copy = await createVectorDB({
+      name: 'binary-copy',
+      dimensions,
+      storage: copyStorage,
+      quantization: { type: 'binary' },
+    });
+    await copy.import(await db.export());
+    expect(await copyStorage.getVector('doc')).toEqual(binaryQuantize(vector));
+    expect((await copy.search(vector, { k: 1 }))[0].id).toBe('doc');
+    await copy.close();
+  });
+
+  it('reloads binary codes on reopen', async () => {
+    const storage = new MemoryStorage();
+    const first = await createVectorDB({ name: 'binary-persist', dimensions, storage, quantization: { type: 'binary' } });
+    for (let i = 0; i < 10; i++) {
+      await first.add({ id: `doc${i}`, vector: createTestVector(dimensions, i + 1) });
+    }
+    await first.close();
+
+    db = await createVectorDB({ name: 'binary-persist', dimensions, storage, quantization: { type: 'binary' } });
+    const [top] = await db.search(createTestVector(dimensions, 6), { k: 1 });
+    expect(top).toMatchObject({ id: 'doc5', score: 1 });
+  });
+
+  it('reports a 32x ratio and the recall of rescored search', async () => {
+    db = await createVectorDB({
+      name: 'binary-stats',
+      dimensions,
+      storage: 'memory',
+      quantization: { type: 'binary', rescore: true },
+    });
+    await db.addMany(
+      Array.from({ length: 40 }, (_, i) => ({ id: `doc${i}`, vector: createTestVector(dimensions, i + 1) }))
+    );
+
+    const stats = await getCompressionStats(db, { recallSamples: 10, recallK: 5 });
+    expect(stats).toMatchObject({
+      enabled: true,
+      type: 'binary',
+      vectorCount: 40,
+      originalSizeBytes: 40 * dimensions * 4,
+      compressedSizeBytes: 40 * dimensions / 8,
+      ratio: 32,
+    });
+    expect(stats.recall).toBeGreaterThan(0.5);
+    expect(stats.recall).toBeLessThanOrEqual(1);
+
+    const plain = await createVectorDB({
+      name: 'binary-stats-plain',
+      dimensions,
+      storage: 'memory',
+      quantization: { type: 'binary' },
+    });
+    expect((await getCompressionStats(plain)).recall).toBeUndefined();
+    await plain.close();
+  });
+});
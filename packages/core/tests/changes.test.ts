@@ -0,0 +1,273 @@
+/**
+ * @fileoverview Tests for the VectorDB change log: db.changes() and db.watch().
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createVectorDB, MemoryStorage, InvalidOptionsError, changesCollectionId } from '../src/index.js';
+import type { VectorDB, DocumentChange } from '../src/index.js';
+import type { LockManager } from '../src/sync/locks.js';
+import type { Broadcaster } from '../src/sync/broadcast.js';
+
+/** Create a deterministic pseudo-random vector in [-1, 1] */
+function createTestVector(dimensions: number, seed: number): Float32Array {
+  const vec = new Float32Array(dimensions);
+  let s = seed;
+  for (let i = 0; i < dimensions; i++) {
+    s = (s * 1103515245 + 12345) & 0x7fffffff;
+    vec[i] = (s / 0x7fffffff) * 2 - 1;
+  }
+  return vec;
+}
+
+/** Change types and IDs, without sequence numbers and timestamps */
+function summarize(changes: DocumentChange[]): string[] {
+  return changes.map((c) => `${c.type}:${c.id}`);
+}
+
+describe('VectorDB change log', () => {
+  const dimensions = 8;
+  let storage: MemoryStorage;
+  let db: VectorDB<{ title: string }>;
+
+  afterEach(async () => {
+    await db?.close();
+  });
+
+  async function open() {
+    db = await createVectorDB<{ title: string }>({ name: 'changes', dimensions, storage });
+  }
+
+  async function createSeededDB() {
+    storage = new MemoryStorage();
+    await open();
+    await db.addMany(
+      Array.from({ length: 3 }, (_, i) => ({
+        id: `doc${i}`,
+        vector: createTestVector(dimensions, i + 1),
+        metadata: { title: `Doc ${i}` },
+      }))
+    );
+  }
+
+  it('returns the latest change of each document since a sequence number', async () => {
+    await createSeededDB();
+    const seeded = await db.changes();
+    expect(summarize(seeded.changes)).toEqual(['add:doc0', 'add:doc1', 'add:doc2']);
+    expect(seeded.changes.map((c) => c.sequence)).toEqual([1, 2, 3]);
+    expect(seeded.lastSequence).toBe(3);
+
+    await db.update('doc1', { metadata: { title: 'Renamed' } });
+    await db.add({ id: 'doc2', vector: createTestVector(dimensions, 9) });
+    await db.delete('doc0');
+    await db.delete('missing');
+
+    const { changes, lastSequence, hasMore } = await db.changes({ since: seeded.lastSequence });
+    expect(summarize(changes)).toEqual(['update:doc1', 'update:doc2', 'delete:doc0']);
+    expect(lastSequence).toBe(6);
+    expect(hasMore).toBe(false);
+
+    // Only the latest change of a document is kept
+    expect(summarize((await db.changes()).changes)).toEqual(['update:doc1', 'update:doc2', 'delete:doc0']);
+    expect((await db.changes({ since: 6 })).changes).toEqual([]);
+  });
+
+  it('pages with limit', async () => {
+    await createSeededDB();
+
+    const first = await db.changes({ limit: 2 });
+    expect(summarize(first.changes)).toEqual(['add:doc0', 'add:doc1']);
+    expect(first).toMatchObject({ lastSequence: 2, hasMore: true });
+
+    const second = await db.changes({ since: first.lastSequence, limit: 2 });
+    expect(summarize(second.changes)).toEqual(['add:doc2']);
+    expect(second).toMatchObject({ lastSequence: 3, hasMore: false });
+
+    await expect(db.changes({ since: -1 })).rejects.toThrow(InvalidOptionsError);
+    await expect(db.changes({ limit: 0 })).rejects.toThrow(InvalidOptionsError);
+  });
+
+  it('keeps increasing sequence numbers across sessions', async () => {
+    await createSeededDB();
+    await db.close();
+
+    await open();
+    await db.update('doc2', { metadata: { title: 'Later' } });
+    expect((await db.changes({ since: 3 })).changes).toMatchObject([{ sequence: 4, type: 'update', id: 'doc2' }]);
+  });
+
+  it('reads changes through the index instead of loading the log', async () => {
+    await createSeededDB();
+    await db.changes();
+    const getAllDocuments = vi.spyOn(storage, 'getAllDocuments');
+
+    await db.update('doc1', { metadata: { title: 'Renamed' } });
+    const { changes, lastSequence } = await db.changes({ since: 3 });
+    expect(summarize(changes)).toEqual(['update:doc1']);
+    expect(lastSequence).toBe(4);
+    expect(getAllDocuments.mock.calls.filter(([id]) => id.includes('\u001fchanges'))).toEqual([]);
+  });
+
+  it('indexes entries written without an index on first read', async () => {
+    await createSeededDB();
+    await db.close();
+    const [collection] = await storage.getAllCollections();
+    const changesId = changesCollectionId(collection.id);
+    for (const record of await storage.getAllDocuments(changesId)) {
+      await storage.putIndexEntries(changesId, record.id, []);
+    }
+
+    await open();
+    expect(summarize((await db.changes({ since: 1 })).changes)).toEqual(['add:doc1', 'add:doc2']);
+  });
+
+  it('does not give out sequence numbers again after a write stops part way', async () => {
+    await createSeededDB();
+    const addDocument = vi.spyOn(storage, 'addDocument');
+    // Fail on the first entry, after the head record is written
+    addDocument.mockImplementation(async (doc) => {
+      if (doc.id.includes('\u001fchange:')) throw new Error('Write failed');
+      return MemoryStorage.prototype.addDocument.call(storage, doc);
+    });
+    await expect(db.update('doc1', { metadata: { title: 'Lost' } })).rejects.toThrow('Write failed');
+    addDocument.mockRestore();
+
+    await db.close();
+    await open();
+    await db.update('doc2', { metadata: { title: 'Later' } });
+    const { changes } = await db.changes({ since: 3 });
+    expect(changes.every((change) => change.sequence > 4)).toBe(true);
+  });
+
+  it('gives concurrent writes unique, increasing sequence numbers', async () => {
+    // Writes that yield to other operations, as IndexedDB's do
+    class SlowStorage extends MemoryStorage {
+      async addDocument(doc: Parameters<MemoryStorage['addDocument']>[0]): Promise<void> {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return super.addDocument(doc);
+      }
+    }
+    storage = new SlowStorage();
+    await open();
+    const other = await createVectorDB<{ title: string }>({ name: 'changes', dimensions, storage });
+    await db.addMany([0, 1, 2].map((i) => ({ id: `doc${i}`, vector: createTestVector(dimensions, i + 1) })));
+
+    await Promise.all([
+      db.addMany([0, 1, 2].map((i) => ({ id: `bulk${i}`, vector: createTestVector(dimensions, 20 + i) }))),
+      db.add({ id: 'single', vector: createTestVector(dimensions, 30) }),
+      db.update('doc1', { metadata: { title: 'Renamed' } }),
+      db.deleteMany(['doc0']),
+      other.add({ id: 'elsewhere', vector: createTestVector(dimensions, 31) }),
+      other.delete('doc2'),
+    ]);
+    await other.close();
+
+    const { changes, lastSequence } = await db.changes({ since: 3 });
+    const sequences = changes.map((c) => c.sequence);
+    expect(changes).toHaveLength(8);
+    expect(new Set(sequences).size).toBe(sequences.length);
+    expect(sequences.every((sequence) => sequence > 3)).toBe(true);
+    expect(lastSequence).toBe(Math.max(...sequences));
+
+    await db.add({ id: 'last', vector: createTestVector(dimensions, 32) });
+    expect((await db.changes({ since: lastSequence })).changes).toMatchObject([
+      { sequence: lastSequence + 1, id: 'last' },
+    ]);
+  });
+
+  it('takes the write lock and notifies other tabs for bulk writes', async () => {
+    await createSeededDB();
+    const lock = vi.spyOn(db.getLockManager() as LockManager, 'withWriteLock');
+    const broadcaster = db.getBroadcaster() as Broadcaster;
+    const added = vi.spyOn(broadcaster, 'notifyDocumentsAdded');
+    const deleted = vi.spyOn(broadcaster, 'notifyDocumentsDeleted');
+
+    await db.addMany([{ id: 'doc3', vector: createTestVector(dimensions, 4) }]);
+    await db.deleteMany(['doc0']);
+    await db.deleteWhere({ title: 'Doc 1' });
+
+    expect(lock.mock.calls.filter(([resource]) => resource === 'default')).toHaveLength(3);
+    expect(added).toHaveBeenCalledWith('default', ['doc3']);
+    expect(deleted.mock.calls).toEqual([
+      ['default', ['doc0']],
+      ['default', ['doc1']],
+    ]);
+  });
+
+  it('records committed transactions only', async () => {
+    await createSeededDB();
+
+    await db
+      .transaction(async (tx) => {
+        await tx.delete('doc0');
+        throw new Error('abort');
+      })
+      .catch(() => undefined);
+    expect((await db.changes({ since: 3 })).changes).toEqual([]);
+
+    await db.transaction(async (tx) => {
+      await tx.add({ id: 'new', vector: createTestVector(dimensions, 10) });
+      await tx.update('new', { metadata: { title: 'New' } });
+      await tx.delete('doc0');
+      await tx.add({ id: 'doc0', vector: createTestVector(dimensions, 11) });
+    });
+    expect(summarize((await db.changes({ since: 3 })).changes)).toEqual(['add:new', 'update:doc0']);
+  });
+
+  it('records deletes when a collection is cleared or replaced', async () => {
+    await createSeededDB();
+    await db.clear();
+    expect(summarize((await db.changes({ since: 3 })).changes)).toEqual(['delete:doc0', 'delete:doc1', 'delete:doc2']);
+
+    await db.add({ id: 'doc1', vector: createTestVector(dimensions, 2) });
+    const exported = await db.export();
+    await db.add({ id: 'doc5', vector: createTestVector(dimensions, 6) });
+    await db.import(exported, { mode: 'replace' });
+
+    const { changes } = await db.changes({ since: 7 });
+    expect(summarize(changes)).toEqual(['update:doc1', 'delete:doc5']);
+    expect(changes[0].sequence).toBeGreaterThan(8);
+  });
+
+  it('keeps a log per collection', async () => {
+    await createSeededDB();
+    const notes = db.collection('notes');
+    await notes.add({ id: 'n1', vector: createTestVector(dimensions, 1) });
+
+    expect(summarize((await notes.changes()).changes)).toEqual(['add:n1']);
+    expect((await notes.changes()).changes[0].sequence).toBe(1);
+    expect((await db.changes()).changes).toHaveLength(3);
+  });
+
+  it('watches changes as they are made until aborted', async () => {
+    await createSeededDB();
+    const controller = new AbortController();
+    const seen: string[] = [];
+
+    // Start after the seeded documents
+    const watching = (async () => {
+      for await (const change of db.watch({ abortSignal: controller.signal })) {
+        seen.push(`${change.type}:${change.id}`);
+        if (seen.length === 3) controller.abort();
+      }
+    })();
+
+    // Let the watcher read the head before writing
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await db.add({ id: 'a', vector: createTestVector(dimensions, 20) });
+    await db.update('a', { metadata: { title: 'A' } });
+    // Writes through another instance of the collection are seen too
+    await db.collection('default').delete('doc1');
+
+    await watching;
+    expect(seen).toEqual(['add:a', 'update:a', 'delete:doc1']);
+  });
+
+  it('replays changes from a sequence number', async () => {
+    await createSeededDB();
+    const iterator = db.collection('default').watch({ since: 1 });
+
+    expect((await iterator.next()).value).toMatchObject({ sequence: 2, id: 'doc1' });
+    expect((await iterator.next()).value).toMatchObject({ sequence: 3, id: 'doc2' });
+    expect(await iterator.return!()).toEqual({ done: true, value: undefined });
+  });
+});
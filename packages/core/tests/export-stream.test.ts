@@ -0,0 +1,237 @@
+/**
+ * @fileoverview Tests for VectorDB.exportStream() and importStream()
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createVectorDB, InvalidOptionsError, MemoryStorage, ParseError } from '../src/index.js';
+import type { VectorDB } from '../src/index.js';
+import { encodeExportFrame, readExportStream } from '../src/storage/export-stream.js';
+
+function vector(i: number): Float32Array {
+  return new Float32Array([Math.cos(i), Math.sin(i), 0.5]);
+}
+
+async function readBytes(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  const bytes = new Uint8Array(chunks.reduce((n, c) => n + c.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/** A stream of `bytes` in chunks of `size` bytes. */
+function chunked(bytes: Uint8Array, size: number): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.byteLength) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + size));
+      offset += size;
+    },
+  });
+}
+
+describe('VectorDB.exportStream()', () => {
+  let db: VectorDB;
+
+  beforeEach(async () => {
+    db = await createVectorDB({ name: 'stream-source', dimensions: 3, storage: 'memory' });
+    await db.addMany(
+      Array.from({ length: 25 }, (_, i) => ({
+        id: `doc-${i}`,
+        vector: vector(i),
+        metadata: { i, tag: i % 2 === 0 ? 'even' : 'odd' },
+      }))
+    );
+    await db.collection('notes').add({ id: 'note', vector: vector(100), metadata: { i: 100 } });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('writes a header, collections, batches and an end frame', async () => {
+    const frames = [];
+    for await (const frame of readExportStream(db.exportStream({ batchSize: 10 }))) {
+      frames.push(frame);
+    }
+
+    expect(frames[0]).toEqual({ type: 'header', documents: 26 });
+    expect(frames.at(-1)).toEqual({ type: 'end', documents: 26 });
+    const collections = frames.filter((f) => f.type === 'collection');
+    expect(collections.map((f) => f.documents).sort()).toEqual([1, 25]);
+    const batches = frames.filter((f) => f.type === 'batch');
+    expect(batches.map((f) => f.documents.length)).toEqual(expect.arrayContaining([10, 10, 5, 1]));
+  });
+
+  it('round-trips documents and vectors through importStream()', async () => {
+    const copy = await createVectorDB({ name: 'stream-copy', dimensions: 3, storage: 'memory' });
+    await copy.importStream(db.exportStream({ batchSize: 7 }));
+
+    expect(await copy.count()).toBe(25);
+    const doc = await copy.get('doc-4');
+    expect(doc?.metadata).toEqual({ i: 4, tag: 'even' });
+    expect(Array.from(doc!.vector)).toEqual(Array.from(vector(4)));
+    const [top] = await copy.search(vector(12), { k: 1 });
+    expect(top.id).toBe('doc-12');
+    expect(await copy.collection('notes').count()).toBe(1);
+
+    await copy.close();
+  });
+
+  it('matches the documents of export()', async () => {
+    const copy = await createVectorDB({ name: 'stream-copy', dimensions: 3, storage: 'memory' });
+    await copy.importStream(db.exportStream());
+    // The stream is in ID order, export() in storage order
+    const byId = (data: { collections: Array<{ documents: Array<{ id: string }> }> }) =>
+      data.collections.map((c) => ({ ...c, documents: [...c.documents].sort((a, b) => a.id.localeCompare(b.id)) }));
+    const original = JSON.parse(await (await db.export()).text());
+    const imported = JSON.parse(await (await copy.export()).text());
+
+    expect(byId(imported)).toEqual(byId(original));
+    await copy.close();
+  });
+
+  it('exports only the selected collections', async () => {
+    const copy = await createVectorDB({ name: 'stream-copy', dimensions: 3, storage: 'memory' });
+    await copy.importStream(db.exportStream({ collections: ['notes'] }));
+
+    expect(await copy.count()).toBe(0);
+    expect(await copy.collection('notes').count()).toBe(1);
+    await copy.close();
+  });
+
+  it('reads a stream split into small chunks', async () => {
+    const bytes = await readBytes(db.exportStream({ batchSize: 4 }));
+    const copy = await createVectorDB({ name: 'stream-copy', dimensions: 3, storage: 'memory' });
+    await copy.importStream(chunked(bytes, 5));
+
+    expect(await copy.count()).toBe(25);
+    expect(Array.from((await copy.get('doc-20'))!.vector)).toEqual(Array.from(vector(20)));
+    await copy.close();
+  });
+
+  it('reports progress against the header count', async () => {
+    const copy = await createVectorDB({ name: 'stream-copy', dimensions: 3, storage: 'memory' });
+    const progress: Array<[number, number]> = [];
+    await copy.importStream(db.exportStream({ batchSize: 10 }), {
+      onProgress: (completed, total) => progress.push([completed, total]),
+    });
+
+    expect(progress.at(-1)).toEqual([26, 26]);
+    expect(progress.every(([, total]) => total === 26)).toBe(true);
+    await copy.close();
+  });
+
+  it('replaces existing documents in replace mode', async () => {
+    const copy = await createVectorDB({ name: 'stream-copy', dimensions: 3, storage: 'memory' });
+    await copy.add({ id: 'stale', vector: vector(50) });
+    await copy.importStream(db.exportStream(), { mode: 'replace' });
+
+    expect(await copy.get('stale')).toBeNull();
+    expect(await copy.count()).toBe(25);
+    await copy.close();
+  });
+
+  it('exports without vectors', async () => {
+    const frames = [];
+    for await (const frame of readExportStream(db.exportStream({ includeVectors: false }))) {
+      frames.push(frame);
+    }
+    const batch = frames.find((f) => f.type === 'batch');
+    expect(batch?.type === 'batch' && batch.documents[0].vector).toBeFalsy();
+  });
+
+  it('yields a batch before reading every document and vector', async () => {
+    const getAllDocuments = vi.spyOn(MemoryStorage.prototype, 'getAllDocuments');
+    const getAllVectors = vi.spyOn(MemoryStorage.prototype, 'getAllVectors');
+    const getVector = vi.spyOn(MemoryStorage.prototype, 'getVector');
+
+    const frames = readExportStream(db.exportStream({ collections: ['default'], batchSize: 5 }));
+    let first;
+    for await (const frame of frames) {
+      if (frame.type === 'batch') {
+        first = frame;
+        break;
+      }
+    }
+
+    expect(first?.documents).toHaveLength(5);
+    expect(getAllDocuments).not.toHaveBeenCalled();
+    expect(getAllVectors).not.toHaveBeenCalled();
+    const primaryReads = new Set(getVector.mock.calls.map(([id]) => id).filter((id) => /^doc-\d+$/.test(id)));
+    expect(primaryReads.size).toBeGreaterThanOrEqual(5);
+    expect(primaryReads.size).toBeLessThan(25);
+    vi.restoreAllMocks();
+  });
+
+  it('rejects an invalid batch size', () => {
+    expect(() => db.exportStream({ batchSize: 0 })).toThrow(InvalidOptionsError);
+  });
+
+  it('rejects a stream that was cut short', async () => {
+    const bytes = await readBytes(db.exportStream({ batchSize: 10 }));
+    const copy = await createVectorDB({ name: 'stream-copy', dimensions: 3, storage: 'memory' });
+    await expect(copy.importStream(chunked(bytes.slice(0, bytes.byteLength - 40), 64))).rejects.toThrow(
+      ParseError
+    );
+    await copy.close();
+  });
+
+  it('rejects a stream that is not an export stream', async () => {
+    const copy = await createVectorDB({ name: 'stream-copy', dimensions: 3, storage: 'memory' });
+    const json = new TextEncoder().encode(await (await db.export()).text());
+    await expect(copy.importStream(chunked(json, 1024))).rejects.toThrow(ParseError);
+    await copy.close();
+  });
+});
+
+describe('export stream frames', () => {
+  it('round-trips multi, named and sparse vectors', async () => {
+    const frame = encodeExportFrame({
+      type: 'batch',
+      documents: [
+        {
+          id: 'a',
+          vector: new Float32Array([1, 2]),
+          vectors: [new Float32Array([3]), new Float32Array([4, 5])],
+          namedVectors: { image: new Float32Array([6, 7, 8]) },
+          sparseVector: { indices: [1], values: [0.5] },
+        },
+      ],
+    });
+    const header = encodeExportFrame({ type: 'header', documents: 1 });
+    const end = encodeExportFrame({ type: 'end', documents: 1 });
+    const bytes = new Uint8Array([...header, ...frame, ...end]);
+
+    const frames = [];
+    for await (const f of readExportStream(chunked(bytes, 3))) frames.push(f);
+    const batch = frames[1];
+    expect(batch.type).toBe('batch');
+    if (batch.type !== 'batch') return;
+    const [doc] = batch.documents;
+    expect(Array.from(doc.vector!)).toEqual([1, 2]);
+    expect(doc.vectors!.map((v) => Array.from(v))).toEqual([[3], [4, 5]]);
+    expect(Array.from(doc.namedVectors!.image)).toEqual([6, 7, 8]);
+    expect(doc.sparseVector).toEqual({ indices: [1], values: [0.5] });
+  });
+
+  it('rejects a newer format version', async () => {
+    const line = new TextEncoder().encode(
+      '{"type":"header","format":"localmode-vectordb","version":99,"documents":0}\n'
+    );
+    const read = async () => {
+      for await (const _ of readExportStream(chunked(line, 16))) {
+        // drain
+      }
+    };
+    await expect(read()).rejects.toThrow(/version 99/);
+  });
+});
@@ -1,5 +1,8 @@
-import { describe, it, expect } from 'vitest';
-import { matchesFilter, applyFilter } from '../src/query/filter.js';
+import { describe, it, expect, vi } from 'vitest';
+import { matchesFilter, applyFilter, filterKey } from '../src/query/filter.js';
+import { createVectorDB } from '../src/db.js';
+import { MemoryStorage } from '../src/storage/memory.js';
+import { FilterError } from '../src/errors/index.js';
 
 describe('matchesFilter', () => {
   describe('exact match', () => {
@@ -90,6 +93,135 @@ describe('matchesFilter', () => {
     });
   });
 
+  describe('multiple operators on one field', () => {
+    it('should require every operator to match', () => {
+      const filter = { year: { $gte: 2020, $lt: 2024 } };
+      expect(matchesFilter({ year: 2019 }, filter)).toBe(false);
+      expect(matchesFilter({ year: 2020 }, filter)).toBe(true);
+      expect(matchesFilter({ year: 2023 }, filter)).toBe(true);
+      expect(matchesFilter({ year: 2024 }, filter)).toBe(false);
+    });
+
+    it('should compare strings lexicographically', () => {
+      const filter = { date: { $gte: '2024-01-01', $lt: '2024-02-01' } };
+      expect(matchesFilter({ date: '2024-01-15' }, filter)).toBe(true);
+      expect(matchesFilter({ date: '2024-02-03' }, filter)).toBe(false);
+      expect(matchesFilter({ date: 20240115 }, filter)).toBe(false);
+    });
+  });
+
+  describe('logical operators', () => {
+    const metadata = { category: 'tech', year: 2022, draft: false };
+
+    it('$and should match when all clauses match', () => {
+      expect(matchesFilter(metadata, { $and: [{ category: 'tech' }, { year: { $gt: 2020 } }] })).toBe(true);
+      expect(matchesFilter(metadata, { $and: [{ category: 'tech' }, { year: { $gt: 2022 } }] })).toBe(false);
+    });
+
+    it('$or should match when any clause matches', () => {
+      expect(matchesFilter(metadata, { $or: [{ category: 'science' }, { draft: false }] })).toBe(true);
+      expect(matchesFilter(metadata, { $or: [{ category: 'science' }, { draft: true }] })).toBe(false);
+      expect(matchesFilter(metadata, { $or: [] })).toBe(false);
+    });
+
+    it('$not should negate a filter', () => {
+      expect(matchesFilter(metadata, { $not: { category: 'tech' } })).toBe(false);
+      expect(matchesFilter(metadata, { $not: { category: 'science' } })).toBe(true);
+    });
+
+    it('should combine logical operators with field conditions', () => {
+      const filter = {
+        year: { $gte: 2020 },
+        $or: [{ category: 'tech' }, { category: 'science' }],
+        $not: { draft: true },
+      };
+      expect(matchesFilter(metadata, filter)).toBe(true);
+      expect(matchesFilter({ ...metadata, draft: true }, filter)).toBe(false);
+    });
+
+    it('should negate a field condition with $not', () => {
+      expect(matchesFilter({ year: 2019 }, { year: { $not: { $gte: 2020 } } })).toBe(true);
+      expect(matchesFilter({ year: 2021 }, { year: { $not: { $gte: 2020 } } })).toBe(false);
+    });
+  });
+
+  describe('dotted paths', () => {
+    const metadata = { author: { name: 'Ada', address: { city: 'London' } }, tags: ['a'] };
+
+    it('should resolve nested fields', () => {
+      expect(matchesFilter(metadata, { 'author.name': 'Ada' })).toBe(true);
+      expect(matchesFilter(metadata, { 'author.address.city': { $in: ['London', 'Paris'] } })).toBe(true);
+      expect(matchesFilter(metadata, { 'author.address.city': 'Paris' })).toBe(false);
+    });
+
+    it('should treat missing intermediate objects as undefined', () => {
+      expect(matchesFilter(metadata, { 'editor.name': { $exists: false } })).toBe(true);
+      expect(matchesFilter(metadata, { 'author.name.first': { $exists: true } })).toBe(false);
+    });
+
+    it('should prefer literal keys containing dots', () => {
+      expect(matchesFilter({ 'file.ext': 'pdf' }, { 'file.ext': 'pdf' })).toBe(true);
+    });
+  });
+
+  describe('array operators', () => {
+    const metadata = { tags: ['ai', 'ml', 'web'] };
+
+    it('$contains should match array elements', () => {
+      expect(matchesFilter(metadata, { tags: { $contains: 'ml' } })).toBe(true);
+      expect(matchesFilter(metadata, { tags: { $contains: 'db' } })).toBe(false);
+    });
+
+    it('$contains should match substrings of strings', () => {
+      expect(matchesFilter({ text: 'machine learning' }, { text: { $contains: 'learn' } })).toBe(true);
+      expect(matchesFilter({ text: 'machine learning' }, { text: { $contains: 'vision' } })).toBe(false);
+    });
+
+    it('$all should require every element', () => {
+      expect(matchesFilter(metadata, { tags: { $all: ['ai', 'web'] } })).toBe(true);
+      expect(matchesFilter(metadata, { tags: { $all: ['ai', 'db'] } })).toBe(false);
+      expect(matchesFilter({ tags: 'ai' }, { tags: { $all: ['ai'] } })).toBe(false);
+    });
+
+    it('$size should match array length', () => {
+      expect(matchesFilter(metadata, { tags: { $size: 3 } })).toBe(true);
+      expect(matchesFilter(metadata, { tags: { $size: 2 } })).toBe(false);
+    });
+
+    it('$in and $nin should test each element of array fields', () => {
+      expect(matchesFilter(metadata, { tags: { $in: ['db', 'web'] } })).toBe(true);
+      expect(matchesFilter(metadata, { tags: { $nin: ['db', 'web'] } })).toBe(false);
+      expect(matchesFilter(metadata, { tags: { $nin: ['db'] } })).toBe(true);
+    });
+  });
+
+  describe('string operators', () => {
+    it('$startsWith should match prefixes', () => {
+      expect(matchesFilter({ name: 'doc-1' }, { name: { $startsWith: 'doc-' } })).toBe(true);
+      expect(matchesFilter({ name: 'img-1' }, { name: { $startsWith: 'doc-' } })).toBe(false);
+    });
+
+    it('$regex should accept strings and RegExp objects', () => {
+      expect(matchesFilter({ title: 'Q3 Report' }, { title: { $regex: '^Q\\d' } })).toBe(true);
+      expect(matchesFilter({ title: 'Q3 Report' }, { title: { $regex: /report/i } })).toBe(true);
+      expect(matchesFilter({ title: 'Summary' }, { title: { $regex: /report/i } })).toBe(false);
+      expect(matchesFilter({ title: 42 }, { title: { $regex: '42' } })).toBe(false);
+    });
+  });
+
+  describe('invalid filters', () => {
+    it('should throw FilterError for unknown operators', () => {
+      expect(() => matchesFilter({ a: 1 }, { a: { $near: 1 } })).toThrow(FilterError);
+      expect(() => matchesFilter({ a: 1 }, { $nor: [] } as never)).toThrow(FilterError);
+    });
+
+    it('should throw FilterError for invalid operands', () => {
+      expect(() => matchesFilter({ a: 'x' }, { a: { $regex: '(' } })).toThrow(FilterError);
+      expect(() => matchesFilter({ a: 1 }, { a: { $in: 1 } })).toThrow(FilterError);
+      expect(() => matchesFilter({ a: 1 }, { $or: { a: 1 } } as never)).toThrow(FilterError);
+    });
+  });
+
   describe('edge cases', () => {
     it('should return true for empty filter', () => {
       expect(matchesFilter({ any: 'value' }, {})).toBe(true);
@@ -137,3 +269,140 @@ describe('applyFilter', () => {
   });
 });
 
+
+describe('filterKey', () => {
+  it('gives equal filters equal keys', () => {
+    expect(filterKey({ year: { $gte: 2020 }, tags: { $in: ['a'] } })).toBe(
+      filterKey({ year: { $gte: 2020 }, tags: { $in: ['a'] } })
+    );
+  });
+
+  it('keys RegExp and Date operands by their value', () => {
+    expect(filterKey({ title: /a/ })).not.toBe(filterKey({ title: /b/ }));
+    expect(filterKey({ title: /a/i })).not.toBe(filterKey({ title: /a/ }));
+    expect(filterKey({ title: /a/ })).toBe(filterKey({ title: /a/ }));
+    expect(filterKey({ at: { $gt: new Date(1) } })).not.toBe(filterKey({ at: { $gt: new Date(2) } }));
+  });
+});
+
+describe('VectorDB filtering', () => {
+  async function createFilterDB() {
+    const db = await createVectorDB({ name: 'filter-test', dimensions: 3, storage: 'memory' });
+    await db.addMany([
+      { id: 'a', vector: new Float32Array([1, 0, 0]), metadata: { year: 2019, tags: ['ai'], author: { name: 'Ada' } } },
+      { id: 'b', vector: new Float32Array([0.9, 0.1, 0]), metadata: { year: 2021, tags: ['web'], author: { name: 'Alan' } } },
+      { id: 'c', vector: new Float32Array([0.8, 0.2, 0]), metadata: { year: 2023, tags: ['ai', 'web'], author: { name: 'Grace' } } },
+      { id: 'd', vector: new Float32Array([0, 1, 0]), metadata: { year: 2025, tags: [], author: { name: 'Linus' } } },
+    ]);
+    return db;
+  }
+
+  it('search applies range, array and nested conditions', async () => {
+    const db = await createFilterDB();
+    const results = await db.search(new Float32Array([1, 0, 0]), {
+      k: 10,
+      filter: {
+        year: { $gte: 2020, $lt: 2025 },
+        $or: [{ tags: { $contains: 'ai' } }, { 'author.name': { $startsWith: 'Al' } }],
+      },
+    });
+    expect(results.map((r) => r.id).sort()).toEqual(['b', 'c']);
+    await db.close();
+  });
+
+  it('deleteWhere removes documents matching a compound filter', async () => {
+    const db = await createFilterDB();
+    const deleted = await db.deleteWhere({ $not: { tags: { $size: 0 } }, year: { $lt: 2022 } });
+    expect(deleted).toBe(2);
+    expect(await db.get('a')).toBeNull();
+    expect(await db.get('b')).toBeNull();
+    expect(await db.get('c')).not.toBeNull();
+    await db.close();
+  });
+
+  it('search returns k matches for selective filters', async () => {
+    const db = await createVectorDB({ name: 'selective-filter-test', dimensions: 3, storage: 'memory' });
+    await db.addMany(
+      Array.from({ length: 300 }, (_, i) => ({
+        id: `doc-${i}`,
+        vector: new Float32Array([Math.cos(i / 50), Math.sin(i / 50), 0.5]),
+        metadata: { category: i % 60 === 0 ? 'rare' : 'common' },
+      }))
+    );
+
+    const results = await db.search(new Float32Array([1, 0, 0.5]), { k: 5, filter: { category: 'rare' } });
+
+    expect(results).toHaveLength(5);
+    expect(results.every((r) => r.metadata?.category === 'rare')).toBe(true);
+    await db.close();
+  });
+
+  it('search reads only the documents the graph visits for an unindexed filter', async () => {
+    const storage = new MemoryStorage();
+    const db = await createVectorDB<{ category: string }>({ name: 'lazy-filter-test', dimensions: 3, storage });
+    await db.addMany(
+      Array.from({ length: 1000 }, (_, i) => ({
+        id: `doc-${i}`,
+        vector: new Float32Array([Math.cos(i / 100), Math.sin(i / 100), 0.5]),
+        metadata: { category: i % 2 === 0 ? 'even' : 'odd' },
+      }))
+    );
+    const scan = vi.spyOn(storage, 'getAllDocuments');
+    const read = vi.spyOn(storage, 'getDocument');
+
+    const results = await db.search(new Float32Array([1, 0, 0.5]), { k: 5, filter: { category: 'odd' } });
+
+    expect(results).toHaveLength(5);
+    expect(results.every((r) => r.metadata?.category === 'odd')).toBe(true);
+    expect(scan).not.toHaveBeenCalled();
+    expect(read.mock.calls.length).toBeLessThan(500);
+    await db.close();
+  });
+
+  it('search returns the same matches as a scan when evaluating a filter lazily', async () => {
+    const db = await createVectorDB<{ n: number }>({ name: 'lazy-filter-exact-test', dimensions: 3, storage: 'memory' });
+    await db.addMany(
+      Array.from({ length: 400 }, (_, i) => ({
+        id: `doc-${i}`,
+        vector: new Float32Array([Math.cos(i / 7), Math.sin(i / 7), (i % 13) / 13]),
+        metadata: { n: i },
+      }))
+    );
+    const query = new Float32Array([0.2, 0.9, 0.4]);
+
+    const lazy = await db.search(query, { k: 10, filter: { n: { $gte: 200 } } });
+    const scanned = (await db.search(query, { k: 400 })).filter((r) => r.metadata!.n >= 200).slice(0, 10);
+
+    expect(lazy.map((r) => r.id)).toEqual(scanned.map((r) => r.id));
+    await db.close();
+  });
+
+  it('count reuses what an unindexed filter matched until a document is written', async () => {
+    const storage = new MemoryStorage();
+    const db = await createVectorDB<{ category: string }>({ name: 'filter-cache-test', dimensions: 3, storage });
+    const other = await createVectorDB<{ category: string }>({ name: 'filter-cache-test', dimensions: 3, storage });
+    await db.addMany([
+      { id: 'a', vector: new Float32Array([1, 0, 0]), metadata: { category: 'x' } },
+      { id: 'b', vector: new Float32Array([0, 1, 0]), metadata: { category: 'y' } },
+    ]);
+    const scan = vi.spyOn(storage, 'getAllDocuments');
+    const query = new Float32Array([1, 1, 0]);
+
+    expect(await db.count({ filter: { category: 'x' } })).toBe(1);
+    expect(await db.count({ filter: { category: 'x' } })).toBe(1);
+    expect((await db.search(query, { filter: { category: 'x' } })).map((r) => r.id)).toEqual(['a']);
+    expect(scan).toHaveBeenCalledTimes(1);
+
+    await db.update('b', { metadata: { category: 'x' } });
+    expect(await db.count({ filter: { category: 'x' } })).toBe(2);
+    expect((await db.search(query, { filter: { category: 'x' } })).map((r) => r.id).sort()).toEqual(['a', 'b']);
+
+    // Writes through another instance sharing the storage count too
+    await other.delete('a');
+    expect(await db.count({ filter: { category: 'x' } })).toBe(1);
+    expect(scan).toHaveBeenCalledTimes(3);
+
+    await other.close();
+    await db.close();
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Tests for metadata-only queries with db.find() and db.count()
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createVectorDB, ValidationError, wrapVectorDB, MemoryStorage, IndexedDBStorage } from '../src/index.js';
+import type { VectorDB, FindOptions } from '../src/index.js';
+
+interface NoteMeta extends Record<string, unknown> {
+  title: string;
+  category: 'work' | 'home';
+  priority?: number;
+  createdAt: number;
+}
+
+describe('VectorDB.find()', () => {
+  let db: VectorDB<NoteMeta>;
+
+  beforeEach(async () => {
+    db = await createVectorDB<NoteMeta>({ name: 'find-test', dimensions: 3, storage: 'memory' });
+    await db.addMany(
+      Array.from({ length: 25 }, (_, i) => ({
+        id: `note-${String(i).padStart(2, '0')}`,
+        vector: new Float32Array([i, 1, 0]),
+        metadata: {
+          title: `Note ${i}`,
+          category: i % 2 === 0 ? 'work' : 'home',
+          priority: i % 5 === 0 ? undefined : i % 3,
+          createdAt: 1_000 + i,
+        },
+      }))
+    );
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('returns documents ordered by ID by default', async () => {
+    const page = await db.find({ limit: 3 });
+    expect(page.documents.map((d) => d.id)).toEqual(['note-00', 'note-01', 'note-02']);
+    expect(page.documents[0].metadata?.title).toBe('Note 0');
+    expect(page.documents[0].vector).toBeUndefined();
+    expect(typeof page.documents[0].updatedAt).toBe('number');
+  });
+
+  it('applies filters with search() semantics', async () => {
+    const page = await db.find({ filter: { category: 'work', createdAt: { $gte: 1_020 } } });
+    expect(page.documents.map((d) => d.id)).toEqual(['note-20', 'note-22', 'note-24']);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('sorts descending and pages with a cursor', async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await db.find({
+        filter: { category: 'home' },
+        sort: { createdAt: 'desc' },
+        limit: 5,
+        cursor,
+      });
+      seen.push(...page.documents.map((d) => d.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toHaveLength(12);
+    expect(seen[0]).toBe('note-23');
+    expect(seen[11]).toBe('note-01');
+  });
+
+  it('keeps cursor positions stable when documents are added between pages', async () => {
+    const first = await db.find({ sort: { createdAt: 'asc' }, limit: 10 });
+    await db.add({
+      id: 'early',
+      vector: new Float32Array([0, 0, 1]),
+      metadata: { title: 'Early', category: 'work', createdAt: 1 },
+    });
+
+    const second = await db.find({ sort: { createdAt: 'asc' }, limit: 10, cursor: first.nextCursor! });
+    expect(second.documents[0].id).toBe('note-10');
+  });
+
+  it('sorts missing values first and breaks ties by ID', async () => {
+    const page = await db.find({ sort: { priority: 'asc' }, limit: 6 });
+    expect(page.documents.map((d) => d.id)).toEqual([
+      'note-00',
+      'note-05',
+      'note-10',
+      'note-15',
+      'note-20',
+      'note-03',
+    ]);
+  });
+
+  it('supports offset and includeVectors', async () => {
+    const page = await db.find({ offset: 23, includeVectors: true });
+    expect(page.documents.map((d) => d.id)).toEqual(['note-23', 'note-24']);
+    expect(Array.from(page.documents[0].vector!)).toEqual([23, 1, 0]);
+  });
+
+  it('rejects cursors from a different sort', async () => {
+    const page = await db.find({ sort: { createdAt: 'asc' }, limit: 2 });
+    await expect(
+      db.find({ sort: { createdAt: 'desc' }, cursor: page.nextCursor! })
+    ).rejects.toThrow(ValidationError);
+    await expect(db.find({ cursor: 'not a cursor' })).rejects.toThrow(ValidationError);
+  });
+
+  it('rejects invalid limits', async () => {
+    await expect(db.find({ limit: -1 })).rejects.toThrow(ValidationError);
+  });
+
+  it('counts with the same filter semantics', async () => {
+    expect(await db.count()).toBe(25);
+    expect(await db.count({ filter: { category: 'home', priority: { $exists: true } } })).toBe(10);
+  });
+
+  it('passes results through afterGet middleware', async () => {
+    const wrapped = wrapVectorDB({
+      db,
+      middleware: {
+        afterGet: (doc) => doc && { ...doc, metadata: { ...doc.metadata, seen: true } },
+      },
+    });
+
+    const page = await wrapped.find({ limit: 1 });
+    expect(page.documents[0].metadata).toMatchObject({ title: 'Note 0', seen: true });
+  });
+});
+
+describe.each([
+  ['memory', () => new MemoryStorage()],
+  ['IndexedDB', () => new IndexedDBStorage(`find-index-${Date.now()}-${Math.random()}`)],
+])('VectorDB.find() sorted on an indexed field (%s storage)', (_, createStorage) => {
+  type RankMeta = { rank: number | string | boolean | null; group: 'a' | 'b' };
+  let storage: MemoryStorage | IndexedDBStorage;
+  let db: VectorDB<RankMeta>;
+  let reference: VectorDB<RankMeta>;
+
+  // Ties, and every type of indexed value
+  const ranks: RankMeta['rank'][] = [3, 1, 'b', true, null, 2, 1, 'a', false, 3, 1.5, null, 'b', 0];
+
+  beforeEach(async () => {
+    storage = createStorage();
+    db = await createVectorDB<RankMeta>({ name: 'find-indexed', dimensions: 2, storage, indexes: ['rank', 'group'] });
+    reference = await createVectorDB<RankMeta>({ name: 'find-reference', dimensions: 2, storage: 'memory' });
+    const docs = ranks.map((rank, i) => ({
+      id: `doc-${String(i).padStart(2, '0')}`,
+      vector: new Float32Array([i, 1]),
+      metadata: { rank, group: i % 3 === 0 ? ('a' as const) : ('b' as const) },
+    }));
+    await db.addMany(docs);
+    await reference.addMany(docs);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    await reference.close();
+  });
+
+  /** Every page of a query, as lists of IDs */
+  async function pages(target: VectorDB<RankMeta>, options: FindOptions<RankMeta>): Promise<string[][]> {
+    const result: string[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await target.find({ ...options, cursor });
+      result.push(page.documents.map((d) => d.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return result;
+  }
+
+  it('pages in index order without loading every document', async () => {
+    const scan = vi.spyOn(storage, 'getAllDocuments');
+
+    for (const direction of ['asc', 'desc'] as const) {
+      for (const filter of [undefined, { group: 'a' as const }]) {
+        const options = { sort: { rank: direction }, filter, limit: 3 };
+        expect(await pages(db, options)).toEqual(await pages(reference, options));
+        const ids = async (target: VectorDB<RankMeta>) =>
+          (await target.find({ ...options, offset: 2 })).documents.map((d) => d.id);
+        expect(await ids(db)).toEqual(await ids(reference));
+      }
+    }
+    expect(scan).not.toHaveBeenCalled();
+
+    // The page and the document after it
+    const read = vi.spyOn(storage, 'getDocument');
+    await db.find({ sort: { rank: 'desc' }, filter: { group: 'a' }, limit: 1 });
+    expect(read.mock.calls.filter(([id]) => id.startsWith('doc-'))).toHaveLength(2);
+  });
+
+  it('sorts every document when some have no indexed value', async () => {
+    const missing = { id: 'missing', vector: new Float32Array([0, 0]), metadata: { group: 'a' } as RankMeta };
+    await db.add(missing);
+    await reference.add(missing);
+    const scan = vi.spyOn(storage, 'getAllDocuments');
+
+    const options = { sort: { rank: 'asc' as const }, limit: 4 };
+    expect(await pages(db, options)).toEqual(await pages(reference, options));
+    expect(scan).toHaveBeenCalled();
+  });
+});
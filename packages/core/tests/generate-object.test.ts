@@ -11,7 +11,13 @@ import {
   createMockLanguageModel,
   StructuredOutputError,
 } from '../src/index.js';
-import { extractJSON, parsePartialJSON, buildStructuredPrompt } from '../src/generation/schema.js';
+import {
+  extractJSON,
+  parsePartialJSON,
+  buildStructuredPrompt,
+  buildResponseFormat,
+} from '../src/generation/schema.js';
+import type { DoGenerateOptions, ResponseFormat } from '../src/index.js';
 
 // ═══════════════════════════════════════════════════════════════
 // MOCK ZOD SCHEMAS (duck-typed, no actual Zod import)
@@ -318,6 +324,24 @@ describe('buildStructuredPrompt()', () => {
   });
 });
 
+describe('buildResponseFormat()', () => {
+  const schema = jsonSchema(mockZodObject({ name: mockZodString() }));
+
+  it('uses the JSON schema', () => {
+    expect(buildResponseFormat(schema, 'json')).toEqual({ type: 'json', schema: schema.jsonSchema });
+  });
+
+  it('wraps element schemas in array mode', () => {
+    expect(buildResponseFormat(schema, 'array')).toEqual({
+      type: 'json',
+      schema: { type: 'array', items: schema.jsonSchema },
+    });
+
+    const arraySchema = jsonSchema(mockZodArray(mockZodString()));
+    expect(buildResponseFormat(arraySchema, 'array').schema).toEqual(arraySchema.jsonSchema);
+  });
+});
+
 // ═══════════════════════════════════════════════════════════════
 // generateObject()
 // ═══════════════════════════════════════════════════════════════
@@ -430,6 +454,84 @@ describe('generateObject()', () => {
     await generateObject({ model, schema: objectSchema, prompt: 'test' });
     expect(capturedTemp).toBe(0);
   });
+
+  describe('constrained decoding', () => {
+    function createModel(supportsStructuredOutput: boolean, reply = 'not json') {
+      const calls: DoGenerateOptions[] = [];
+      const model = {
+        modelId: 'test',
+        provider: 'test',
+        contextLength: 4096,
+        supportsStructuredOutput,
+        async doGenerate(opts: DoGenerateOptions) {
+          calls.push(opts);
+          return {
+            text: reply,
+            finishReason: 'stop' as const,
+            usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2, durationMs: 1 },
+          };
+        },
+      };
+      return { model, calls };
+    }
+
+    it('passes the schema as the response format', async () => {
+      const { model, calls } = createModel(true, '{"name": "A", "age": 1}');
+
+      await generateObject({ model, schema: objectSchema, prompt: 'test' });
+
+      expect(calls[0].responseFormat).toEqual({ type: 'json', schema: objectSchema.jsonSchema });
+    });
+
+    it('does not retry when the model constrains decoding', async () => {
+      const { model, calls } = createModel(true);
+
+      const error = await generateObject({ model, schema: objectSchema, prompt: 'test' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(StructuredOutputError);
+      expect(error.attempts).toBe(1);
+      expect(calls).toHaveLength(1);
+    });
+
+    it('retries when the model cannot enforce the whole schema', async () => {
+      const { model, calls } = createModel(true);
+      const formats: ResponseFormat[] = [];
+      const partial = {
+        ...model,
+        enforcesResponseFormat(format: ResponseFormat) {
+          formats.push(format);
+          return false;
+        },
+      };
+
+      await expect(generateObject({ model: partial, schema: objectSchema, prompt: 'test' })).rejects.toThrow(
+        StructuredOutputError
+      );
+
+      expect(formats).toEqual([{ type: 'json', schema: objectSchema.jsonSchema }]);
+      expect(calls).toHaveLength(3);
+    });
+
+    it('retries by default when the model does not constrain decoding', async () => {
+      const { model, calls } = createModel(false);
+
+      await expect(generateObject({ model, schema: objectSchema, prompt: 'test' })).rejects.toThrow(
+        StructuredOutputError
+      );
+
+      expect(calls).toHaveLength(3);
+    });
+
+    it('honors an explicit maxRetries', async () => {
+      const { model, calls } = createModel(true);
+
+      await expect(
+        generateObject({ model, schema: objectSchema, prompt: 'test', maxRetries: 2 })
+      ).rejects.toThrow(StructuredOutputError);
+
+      expect(calls).toHaveLength(2);
+    });
+  });
 });
 
 // ═══════════════════════════════════════════════════════════════
@@ -486,6 +588,32 @@ describe('streamObject()', () => {
     expect(callbacks.length).toBeGreaterThan(0);
   });
 
+  it('passes the schema as the response format', async () => {
+    let captured: DoGenerateOptions | undefined;
+    const model = {
+      modelId: 'test',
+      provider: 'test',
+      contextLength: 4096,
+      supportsStructuredOutput: true,
+      async doGenerate(): Promise<never> {
+        throw new Error('not used');
+      },
+      async *doStream(opts: DoGenerateOptions) {
+        captured = opts;
+        yield { text: '{"name": "A", "age": 1}', done: false };
+        yield { text: '', done: true, finishReason: 'stop' as const };
+      },
+    };
+
+    const result = await streamObject({ model, schema: objectSchema, prompt: 'Extract' });
+    for await (const _ of result.partialObjectStream) {
+      // consume stream
+    }
+
+    expect(captured?.responseFormat).toEqual({ type: 'json', schema: objectSchema.jsonSchema });
+    await expect(result.object).resolves.toEqual({ name: 'A', age: 1 });
+  });
+
   it('rejects object promise on validation failure', async () => {
     const model = createMockLanguageModel({
       responses: ['{"name": 123, "age": "not a number"}'],
@@ -11,6 +11,7 @@ import {
   COSINE_DISTANCE_SHADER,
   EUCLIDEAN_DISTANCE_SHADER,
   DOT_PRODUCT_DISTANCE_SHADER,
+  HAMMING_DISTANCE_SHADER,
   getShaderSource,
 } from '../src/hnsw/gpu/shaders.js';
 
@@ -86,6 +87,18 @@ describe('WGSL Shader Sources', () => {
     });
   });
 
+  describe('HAMMING_DISTANCE_SHADER', () => {
+    it('should contain expected WGSL keywords', () => {
+      expect(HAMMING_DISTANCE_SHADER).toContain('@compute');
+      expect(HAMMING_DISTANCE_SHADER).toContain('@workgroup_size(256)');
+    });
+
+    it('should count differing bits of packed u32 words', () => {
+      expect(HAMMING_DISTANCE_SHADER).toContain('array<u32>');
+      expect(HAMMING_DISTANCE_SHADER).toContain('countOneBits(query[i] ^ candidates[offset + i])');
+    });
+  });
+
   describe('getShaderSource()', () => {
     it('should return cosine shader for "cosine" metric', () => {
       const source = getShaderSource('cosine');
@@ -102,6 +115,11 @@ describe('WGSL Shader Sources', () => {
       expect(source).toBe(DOT_PRODUCT_DISTANCE_SHADER);
     });
 
+    it('should return hamming shader for "hamming" metric', () => {
+      const source = getShaderSource('hamming');
+      expect(source).toBe(HAMMING_DISTANCE_SHADER);
+    });
+
     it('should return non-empty strings for all metrics', () => {
       const metrics = ['cosine', 'euclidean', 'dot'] as const;
       for (const metric of metrics) {
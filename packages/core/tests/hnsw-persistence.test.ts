@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Tests for the binary HNSW graph format and its snapshot and delta log.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { HNSWIndex } from '../src/hnsw/index.js';
+import { encodeGraph, decodeGraph } from '../src/hnsw/graph-format.js';
+import { GraphLog, graphCollectionId } from '../src/hnsw/stored-graph.js';
+import { createVectorDB, MemoryStorage } from '../src/index.js';
+import type { VectorDB } from '../src/index.js';
+
+/** Create a deterministic pseudo-random vector in [-1, 1] */
+function createTestVector(dimensions: number, seed: number): Float32Array {
+  const vec = new Float32Array(dimensions);
+  let s = seed;
+  for (let i = 0; i < dimensions; i++) {
+    s = (s * 1103515245 + 12345) & 0x7fffffff;
+    vec[i] = (s / 0x7fffffff) * 2 - 1;
+  }
+  return vec;
+}
+
+/** Deterministic stand-in for Math.random(), so HNSW node levels are the same on every run */
+function seededRandom(seed: number): () => number {
+  let s = seed;
+  return () => {
+    s = (s * 1103515245 + 12345) & 0x7fffffff;
+    return s / 0x80000000;
+  };
+}
+
+/** Build an index of `count` vectors and the map of those vectors */
+function buildIndex(count: number, dimensions = 8) {
+  const index = new HNSWIndex(dimensions, { m: 4, efConstruction: 40 });
+  const vectors = new Map<string, Float32Array>();
+  for (let i = 0; i < count; i++) {
+    const vector = createTestVector(dimensions, i + 1);
+    vectors.set(`v${i}`, vector);
+    index.add(`v${i}`, vector);
+  }
+  return { index, vectors };
+}
+
+/** Stored record IDs of a graph, without the collection prefix */
+async function graphRecords(storage: MemoryStorage, indexId: string): Promise<string[]> {
+  const prefix = graphCollectionId(indexId);
+  return [...(await storage.getAllVectors(prefix)).keys()].map((id) => id.slice(prefix.length)).sort();
+}
+
+describe('graph format', () => {
+  it('round-trips nodes, connections and deletions', () => {
+    const encoded = encodeGraph({
+      dimensions: 8,
+      m: 4,
+      efConstruction: 40,
+      maxLevel: 1,
+      entryPointId: 'b',
+      nodes: [
+        { id: 'a', level: 0, connections: new Map([[0, new Set(['b'])]]) },
+        { id: 'b', level: 1, connections: new Map([[0, new Set(['a', 'é'])], [1, new Set<string>()]]) },
+      ],
+      deleted: ['c'],
+    });
+
+    const decoded = decodeGraph(encoded);
+    expect(decoded).toMatchObject({ dimensions: 8, m: 4, efConstruction: 40, maxLevel: 1, entryPointId: 'b' });
+    expect(decoded.deleted).toEqual(['c']);
+    expect(decoded.nodes.map((n) => [n.id, n.level])).toEqual([['a', 0], ['b', 1]]);
+    expect(decoded.nodes[1].connections()).toEqual(new Map([[0, new Set(['a', 'é'])], [1, new Set()]]));
+  });
+
+  it('decodes unaligned data and rejects other data', () => {
+    const encoded = encodeGraph({ dimensions: 4, m: 2, efConstruction: 10, maxLevel: 0, entryPointId: null, nodes: [], deleted: [] });
+    const unaligned = new Uint8Array(encoded.length + 1).subarray(1);
+    unaligned.set(encoded);
+
+    expect(decodeGraph(unaligned).entryPointId).toBeNull();
+    expect(() => decodeGraph(new Uint8Array(32))).toThrow(/Unsupported/);
+  });
+});
+
+describe('HNSWIndex binary serialization', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('restores a graph that returns the same results', () => {
+    const { index, vectors } = buildIndex(60);
+    const restored = HNSWIndex.deserializeBinary(index.serializeBinary(), [], vectors);
+
+    const query = createTestVector(8, 17);
+    expect(restored.search(query, 5)).toEqual(index.search(query, 5));
+    expect(restored.hasChanges).toBe(false);
+  });
+
+  it('writes only the changed nodes to a delta', () => {
+    // Node levels decide how many neighbors a new node links to
+    vi.spyOn(Math, 'random').mockImplementation(seededRandom(42));
+    const { index, vectors } = buildIndex(60);
+    const snapshot = index.serializeBinary();
+    expect(index.serializeDelta()).toBeNull();
+
+    const vector = createTestVector(8, 100);
+    vectors.set('new', vector);
+    index.add('new', vector);
+    index.delete('v3');
+    vectors.delete('v3');
+
+    const delta = index.serializeDelta()!;
+    const decoded = decodeGraph(delta);
+    expect(decoded.nodes.length).toBeLessThan(20);
+    expect(decoded.nodes.map((n) => n.id)).toContain('new');
+    expect(decoded.deleted).toEqual(['v3']);
+    expect(delta.byteLength).toBeLessThan(snapshot.byteLength / 2);
+
+    const restored = HNSWIndex.deserializeBinary(snapshot, [delta], vectors);
+    const query = createTestVector(8, 100);
+    expect(restored.size).toBe(60);
+    expect(restored.has('v3')).toBe(false);
+    expect(restored.search(query, 5)).toEqual(index.search(query, 5));
+  });
+
+  it('requires a snapshot before deltas', () => {
+    const { index } = buildIndex(5);
+    expect(index.needsSnapshot).toBe(true);
+    expect(() => index.serializeDelta()).toThrow(/snapshot/);
+
+    index.serializeBinary();
+    index.clear();
+    expect(index.needsSnapshot).toBe(true);
+  });
+});
+
+describe('GraphLog', () => {
+  it('appends deltas and compacts them into a new snapshot', async () => {
+    const storage = new MemoryStorage();
+    const { index, vectors } = buildIndex(40);
+    const log = new GraphLog(storage, 'docs');
+
+    await log.save(index);
+    expect(await graphRecords(storage, 'docs')).toEqual([':snapshot:1']);
+
+    index.add('a', createTestVector(8, 200));
+    vectors.set('a', createTestVector(8, 200));
+    await log.save(index);
+    await log.save(index);
+    expect(await graphRecords(storage, 'docs')).toEqual([':delta:1:0', ':snapshot:1']);
+
+    // Deltas are compacted once they outgrow half the snapshot
+    for (let i = 0; i < 40; i++) {
+      const vector = createTestVector(8, 300 + i);
+      vectors.set(`b${i}`, vector);
+      index.add(`b${i}`, vector);
+      await log.save(index);
+    }
+    const records = await graphRecords(storage, 'docs');
+    expect(records.filter((id) => id.startsWith(':snapshot:'))).toHaveLength(1);
+    expect(records).not.toContain(':snapshot:1');
+
+    const loaded = await new GraphLog(storage, 'docs').load(vectors);
+    const query = createTestVector(8, 320);
+    expect(loaded!.size).toBe(81);
+    expect(loaded!.search(query, 3)).toEqual(index.search(query, 3));
+  });
+
+  it('deletes records left over from an interrupted compaction', async () => {
+    const storage = new MemoryStorage();
+    const { index, vectors } = buildIndex(20);
+    const log = new GraphLog(storage, 'docs');
+    await log.save(index);
+
+    const collectionId = graphCollectionId('docs');
+    await storage.addVector({ id: `${collectionId}:delta:0:4`, collectionId, vector: new Float32Array(4) });
+
+    expect(await new GraphLog(storage, 'docs').load(vectors)).not.toBeNull();
+    expect(await graphRecords(storage, 'docs')).toEqual([':snapshot:1']);
+  });
+
+  it('loads a JSON index saved by an older version and replaces it', async () => {
+    const storage = new MemoryStorage();
+    const { index, vectors } = buildIndex(20);
+    await storage.saveIndex('docs', index.serialize());
+
+    const log = new GraphLog(storage, 'docs');
+    const loaded = await log.load(vectors);
+    expect(loaded!.size).toBe(20);
+
+    await log.save(loaded!);
+    expect(await storage.loadIndex('docs')).toBeNull();
+    expect(await graphRecords(storage, 'docs')).toEqual([':snapshot:1']);
+  });
+});
+
+describe('VectorDB graph persistence', () => {
+  const dimensions = 16;
+  let db: VectorDB;
+
+  afterEach(async () => {
+    await db?.close();
+  });
+
+  it('saves a small delta per write and reopens without rebuilding', async () => {
+    const storage = new MemoryStorage();
+    db = await createVectorDB({ name: 'graph', dimensions, storage });
+    await db.addMany(Array.from({ length: 100 }, (_, i) => ({ id: `doc${i}`, vector: createTestVector(dimensions, i + 1) })));
+
+    const collectionId = graphCollectionId('default');
+    const [snapshot] = (await storage.getAllVectors(collectionId)).values();
+
+    await db.add({ id: 'extra', vector: createTestVector(dimensions, 500) });
+    const records = await storage.getAllVectors(collectionId);
+    expect(records.size).toBe(2);
+    const delta = [...records].find(([id]) => id.includes(':delta:'))![1];
+    expect(delta.byteLength).toBeLessThan(snapshot.byteLength / 2);
+    await db.close();
+
+    db = await createVectorDB({ name: 'graph', dimensions, storage });
+    expect(await db.count()).toBe(101);
+    expect((await db.search(createTestVector(dimensions, 500), { k: 1 }))[0].id).toBe('extra');
+    expect((await db.search(createTestVector(dimensions, 42), { k: 1 }))[0].id).toBe('doc41');
+  });
+});
@@ -88,6 +88,56 @@ describe('HNSWIndex', () => {
     });
   });
 
+  describe('filtered search', () => {
+    // Deterministic vectors spread on the unit circle in the first two dimensions
+    const vectorAt = (i: number) =>
+      new Float32Array([Math.cos(i / 40), Math.sin(i / 40), 0.1 * (i % 3), 0.1]);
+
+    beforeEach(() => {
+      for (let i = 0; i < 200; i++) {
+        index.add(`v${i}`, vectorAt(i));
+      }
+    });
+
+    it('should return only accepted nodes for a predicate filter', () => {
+      const even = (id: string) => Number(id.slice(1)) % 2 === 0;
+      const results = index.search(vectorAt(51), 10, { filter: even });
+
+      expect(results).toHaveLength(10);
+      expect(results.every((r) => even(r.id))).toBe(true);
+    });
+
+    it('should return only accepted nodes for an allow-list filter', () => {
+      const allowed = new Set(Array.from({ length: 50 }, (_, i) => `v${i * 4}`));
+      const results = index.search(vectorAt(100), 8, { filter: allowed, bruteForceThreshold: 0 });
+
+      expect(results).toHaveLength(8);
+      expect(results.every((r) => allowed.has(r.id))).toBe(true);
+      expect(results[0].id).toBe('v100');
+    });
+
+    it('should return exactly k hits for very selective filters', () => {
+      const allowed = new Set(['v3', 'v97', 'v150', 'v199']);
+      const results = index.search(vectorAt(0), 3, { filter: allowed });
+
+      expect(results.map((r) => r.id)).toEqual(['v3', 'v199', 'v97']);
+    });
+
+    it('should return all matches when fewer than k exist', () => {
+      const results = index.search(vectorAt(0), 10, { filter: (id) => id === 'v42' });
+      expect(results.map((r) => r.id)).toEqual(['v42']);
+    });
+
+    it('should match brute-force results for moderately selective filters', () => {
+      const accept = (id: string) => Number(id.slice(1)) % 5 === 0;
+      const query = vectorAt(77);
+      const traversed = index.search(query, 5, { filter: accept, bruteForceThreshold: 0 });
+      const scanned = index.search(query, 5, { filter: accept, bruteForceThreshold: 1 });
+
+      expect(traversed.map((r) => r.id)).toEqual(scanned.map((r) => r.id));
+    });
+  });
+
   describe('delete', () => {
     it('should delete a vector', () => {
       index.add('v1', new Float32Array([1, 0, 0, 0]));
@@ -0,0 +1,306 @@
+/**
+ * @file import-export-columnar.test.ts
+ * @description Tests for the Parquet and Arrow IPC parsers and serializers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseParquet } from '../src/import-export/parsers/parquet.js';
+import { parseArrow } from '../src/import-export/parsers/arrow.js';
+import { exportToParquet, exportToArrow } from '../src/import-export/export-to.js';
+import { convertFormat } from '../src/import-export/convert.js';
+import { detectFormat } from '../src/import-export/detect.js';
+import { importFrom, parseExternalFormat } from '../src/import-export/import-from.js';
+import { ParseError, ValidationError } from '../src/errors/index.js';
+import type { ImportRecord } from '../src/import-export/types.js';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+// Table written by pyarrow 26:
+//   id: ['a', 'b', 'c']
+//   embedding: [[0.5, 1.5], null, [2.5, 3.5]]
+//   content: ['first', null, 'third']
+//   genre: dictionary-encoded ['news', 'blog', 'news']
+//   year: int32 [2021, null, 2023]
+
+/** pyarrow: Snappy, dictionary-encoded, `embedding: fixed_size_list<float>[2]` */
+const PYARROW_PARQUET =
+  'UEFSMRUEFR4VIkwVBhUAEgAADzgBAAAAYQEAAABiAQAAAGMVABUUFRgsFQYVEBUGFQYcNgAoAWMYAWEREQAAAAokAgAAAAYB' +
+  'AgMkABUEFSAVJEwVCBUAEgAAEDwAAAA/AADAPwAAIEAAAGBAFQAVIhUmLBUKFRAVBhUGHBgEAABgQBgEAAAAPxYCKAQAAGBA' +
+  'GAQAAAA/EREAAAARQAIAAAADEgMAAAADzwMCA+QAFQQVJBUoTBUEFQASAAASRAUAAABmaXJzdAUAAAB0aGlyZBUAFRIVFiwV' +
+  'BhUQFQYVBhw2AigFdGhpcmQYBWZpcnN0EREAAAAJIAIAAAADBQEDAhUEFSAVJEwVBBUAEgAAEDwEAAAAbmV3cwQAAABibG9n' +
+  'FQAVEhUWLBUGFRAVBhUGHDYAKARuZXdzGARibG9nEREAAAAJIAIAAAAGAQEDAhUEFRAVFEwVBBUAEgAACBzlBwAA5wcAABUA' +
+  'FRIVFiwVBhUQFQYVBhwYBOcHAAAYBOUHAAAWAigE5wcAABgE5QcAABERAAAACSACAAAAAwUBAwIVBBmMNQAYBnNjaGVtYRUK' +
+  'ABUMJQIYAmlkJQBMHAAAADUCGAllbWJlZGRpbmcVAhUGTDwAAAA1BBgEbGlzdBUCABUIJQIYB2VsZW1lbnQAFQwlAhgHY29u' +
+  'dGVudCUATBwAAAAVDCUCGAVnZW5yZSUATBwAAAAVAiUCGAR5ZWFyABYGGRwZXCYAHBUMGTUABhAZGAJpZBUCFgYWiAEWkAEm' +
+  'RiYIHDYAKAFjGAFhEREAGSwVBBUAFQIAFQAVEBUCADwWBhkGGSYABgAAACYAHBUIGTUABhAZOAllbWJlZGRpbmcEbGlzdAdl' +
+  'bGVtZW50FQIWCha8ARbEASbYASaYARwYBAAAYEAYBAAAAD8WAigEAABgQBgEAAAAPxERABksFQQVABUCABUAFRAVAgA8KSYG' +
+  'BBlGAgAACAAAACYAHBUMGTUABhAZGAdjb250ZW50FQIWBhacARakASagAybcAhw2AigFdGhpcmQYBWZpcnN0EREAGSwVBBUA' +
+  'FQIAFQAVEBUCADwWFBkGGSYCBAAAACYAHBUMGTUABhAZGAVnZW5yZRUCFgYWlAEWnAEmwAQmgAQcNgAoBG5ld3MYBGJsb2cR' +
+  'EQAZLBUEFQAVAgAVABUQFQIAPBYYGQYZJgAGAAAAJgAcFQIZNQAGEBkYBHllYXIVAhYGFpwBFqQBJswFJpwFHBgE5wcAABgE' +
+  '5QcAABYCKATnBwAAGATlBwAAEREAGSwVBBUAFQIAFQAVEBUCADwpBhkmAgQAAAAWkAYWBiYIFrgGACggcGFycXVldC1jcHAt' +
+  'YXJyb3cgdmVyc2lvbiAyNi4wLjAZXBwAABwAABwAABwAABwAAAB2AgAAUEFSMQ==';
+
+/** pyarrow: ZSTD-compressed `id` column */
+const PYARROW_PARQUET_ZSTD =
+  'UEFSMRUEFR4VMEwVBhUAEgAAKLUv/SAPeQAAAQAAAGEBAAAAYgEAAABjFQAVFBUmLBUGFRAVBhUGHDYAKAFjGAFhEREAAAAo' +
+  'tS/9IApRAAACAAAABgECAyQAFQQZLDUAGAZzY2hlbWEVAgAVDCUCGAJpZCUATBwAAAAWBhkcGRwmABwVDBk1AAYQGRgCaWQV' +
+  'DBYGFogBFqwBJlQmCBw2ACgBYxgBYRERABksFQQVABUCABUAFRAVAgA8FgYZBhkmAAYAAAAWiAEWBiYIFqwBACggcGFycXVl' +
+  'dC1jcHAtYXJyb3cgdmVyc2lvbiAyNi4wLjAZHBwAAACeAAAAUEFSMQ==';
+
+/** pyarrow: uncompressed Feather v2 (Arrow IPC file) of the same table */
+const PYARROW_FEATHER =
+  'QVJST1cxAAD/////mAEAABAAAAAAAAoADAAGAAUACAAKAAAAAAEEAAQAAAB4////BAAAAAUAAABEAQAAyAAAAJwAAABIAAAA' +
+  'BAAAAOD+//8AAAECEAAAABgAAAAEAAAAAAAAAAQAAAB5ZWFyAAAAAKz///8AAAABIAAAABAAGAAIAAYABwAMABAAFAAQAAAA' +
+  'AAABBRQAAABAAAAAIAAAAAQAAAAAAAAABQAAAGdlbnJlAAAACAAIAAAABAAIAAAADAAAAAgADAAIAAcACAAAAAAAAAEgAAAA' +
+  'PP///3D///8AAAEFEAAAABgAAAAEAAAAAAAAAAcAAABjb250ZW50AGT///+Y////AAABEBQAAAAkAAAABAAAAAEAAAAgAAAA' +
+  'CQAAAGVtYmVkZGluZwAGAAgABAAGAAAAAgAAAND///8AAAEDEAAAABwAAAAEAAAAAAAAAAQAAABpdGVtAAAGAAgABgAGAAAA' +
+  'AAABABAAFAAIAAYABwAMAAAAEAAQAAAAAAABBRAAAAAYAAAABAAAAAAAAAACAAAAaWQAAAQABAAEAAAAAAAAAP////+oAAAA' +
+  'FAAAAAAAAAAMABQABgAFAAgADAAMAAAAAAIEABQAAAAYAAAAAAAAAAgACgAAAAQACAAAABAAAAAAAAoAGAAMAAQACAAKAAAA' +
+  'TAAAABAAAAACAAAAAAAAAAAAAAADAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAADAAAAAAAAAAQAAAAAAAAAAgAAAAAAAAA' +
+  'AAAAAAEAAAACAAAAAAAAAAAAAAAAAAAAAAAAAAQAAAAIAAAAAAAAAG5ld3NibG9n/////4gBAAAUAAAAAAAAAAwAFgAGAAUA' +
+  'CAAMAAwAAAAAAwQAGAAAAJAAAAAAAAAAAAAKABgADAAEAAgACgAAAOwAAAAQAAAAAwAAAAAAAAAAAAAADQAAAAAAAAAAAAAA' +
+  'AAAAAAAAAAAAAAAAAAAAABAAAAAAAAAAEAAAAAAAAAADAAAAAAAAABgAAAAAAAAAAQAAAAAAAAAgAAAAAAAAAAEAAAAAAAAA' +
+  'KAAAAAAAAAAYAAAAAAAAAEAAAAAAAAAAAQAAAAAAAABIAAAAAAAAABAAAAAAAAAAWAAAAAAAAAAKAAAAAAAAAGgAAAAAAAAA' +
+  'AAAAAAAAAABoAAAAAAAAAAwAAAAAAAAAeAAAAAAAAAABAAAAAAAAAIAAAAAAAAAADAAAAAAAAAAAAAAABgAAAAMAAAAAAAAA' +
+  'AAAAAAAAAAADAAAAAAAAAAEAAAAAAAAABgAAAAAAAAACAAAAAAAAAAMAAAAAAAAAAQAAAAAAAAADAAAAAAAAAAAAAAAAAAAA' +
+  'AwAAAAAAAAABAAAAAAAAAAAAAAABAAAAAgAAAAMAAABhYmMAAAAAAAUAAAAAAAAAMwAAAAAAAAAAAAA/AADAPwAAAAAAAAAA' +
+  'AAAgQAAAYEAFAAAAAAAAAAAAAAAFAAAABQAAAAoAAABmaXJzdHRoaXJkAAAAAAAAAAAAAAEAAAAAAAAAAAAAAAUAAAAAAAAA' +
+  '5QcAAAAAAADnBwAAAAAAAP////8AAAAAEAAAAAwAFAAGAAgADAAQAAwAAAAAAAQASAAAACgAAAAEAAAAAQAAAHACAAAAAAAA' +
+  'kAEAAAAAAACQAAAAAAAAAAAAAAABAAAAqAEAAAAAAACwAAAAAAAAABgAAAAAAAAAeP///wQAAAAFAAAARAEAAMgAAACcAAAA' +
+  'SAAAAAQAAADg/v//AAABAhAAAAAYAAAABAAAAAAAAAAEAAAAeWVhcgAAAACs////AAAAASAAAAAQABgACAAGAAcADAAQABQA' +
+  'EAAAAAAAAQUUAAAAQAAAACAAAAAEAAAAAAAAAAUAAABnZW5yZQAAAAgACAAAAAQACAAAAAwAAAAIAAwACAAHAAgAAAAAAAAB' +
+  'IAAAADz///9w////AAABBRAAAAAYAAAABAAAAAAAAAAHAAAAY29udGVudABk////mP///wAAARAUAAAAJAAAAAQAAAABAAAA' +
+  'IAAAAAkAAABlbWJlZGRpbmcABgAIAAQABgAAAAIAAADQ////AAABAxAAAAAcAAAABAAAAAAAAAAEAAAAaXRlbQAABgAIAAYA' +
+  'BgAAAAAAAQAQABQACAAGAAcADAAAABAAEAAAAAAAAQUQAAAAGAAAAAQAAAAAAAAAAgAAAGlkAAAEAAQABAAAANgBAABBUlJP' +
+  'VzE=';
+
+/** pyarrow: Arrow IPC stream of the same table in two record batches */
+const PYARROW_STREAM =
+  '/////5gBAAAQAAAAAAAKAAwABgAFAAgACgAAAAABBAAEAAAAeP///wQAAAAFAAAARAEAAMgAAACcAAAASAAAAAQAAADg/v//' +
+  'AAABAhAAAAAYAAAABAAAAAAAAAAEAAAAeWVhcgAAAACs////AAAAASAAAAAQABgACAAGAAcADAAQABQAEAAAAAAAAQUUAAAA' +
+  'QAAAACAAAAAEAAAAAAAAAAUAAABnZW5yZQAAAAgACAAAAAQACAAAAAwAAAAIAAwACAAHAAgAAAAAAAABIAAAADz///9w////' +
+  'AAABBRAAAAAYAAAABAAAAAAAAAAHAAAAY29udGVudABk////mP///wAAARAUAAAAJAAAAAQAAAABAAAAIAAAAAkAAABlbWJl' +
+  'ZGRpbmcABgAIAAQABgAAAAIAAADQ////AAABAxAAAAAcAAAABAAAAAAAAAAEAAAAaXRlbQAABgAIAAYABgAAAAAAAQAQABQA' +
+  'CAAGAAcADAAAABAAEAAAAAAAAQUQAAAAGAAAAAQAAAAAAAAAAgAAAGlkAAAEAAQABAAAAAAAAAD/////qAAAABQAAAAAAAAA' +
+  'DAAUAAYABQAIAAwADAAAAAACBAAUAAAAGAAAAAAAAAAIAAoAAAAEAAgAAAAQAAAAAAAKABgADAAEAAgACgAAAEwAAAAQAAAA' +
+  'AgAAAAAAAAAAAAAAAwAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAwAAAAAAAAAEAAAAAAAAAAIAAAAAAAAAAAAAAABAAAA' +
+  'AgAAAAAAAAAAAAAAAAAAAAAAAAAEAAAACAAAAAAAAABuZXdzYmxvZ/////+IAQAAFAAAAAAAAAAMABYABgAFAAgADAAMAAAA' +
+  'AAMEABgAAACQAAAAAAAAAAAACgAYAAwABAAIAAoAAADsAAAAEAAAAAIAAAAAAAAAAAAAAA0AAAAAAAAAAAAAAAAAAAAAAAAA' +
+  'AAAAAAAAAAAMAAAAAAAAABAAAAAAAAAAAwAAAAAAAAAYAAAAAAAAAAEAAAAAAAAAIAAAAAAAAAABAAAAAAAAACgAAAAAAAAA' +
+  'GAAAAAAAAABAAAAAAAAAAAEAAAAAAAAASAAAAAAAAAAMAAAAAAAAAFgAAAAAAAAACgAAAAAAAABoAAAAAAAAAAAAAAAAAAAA' +
+  'aAAAAAAAAAAMAAAAAAAAAHgAAAAAAAAAAQAAAAAAAACAAAAAAAAAAAwAAAAAAAAAAAAAAAYAAAACAAAAAAAAAAAAAAAAAAAA' +
+  'AgAAAAAAAAABAAAAAAAAAAQAAAAAAAAAAgAAAAAAAAACAAAAAAAAAAEAAAAAAAAAAgAAAAAAAAAAAAAAAAAAAAIAAAAAAAAA' +
+  'AQAAAAAAAAAAAAAAAQAAAAIAAAAAAAAAYWJjAAAAAAAFAAAAAAAAADMAAAAAAAAAAAAAPwAAwD8AAAAAAAAAAAAAIEAAAGBA' +
+  'BQAAAAAAAAAAAAAABQAAAAUAAAAAAAAAZmlyc3R0aGlyZAAAAAAAAAAAAAABAAAAAAAAAAAAAAAFAAAAAAAAAOUHAAAAAAAA' +
+  '5wcAAAAAAAD/////iAEAABQAAAAAAAAADAAWAAYABQAIAAwADAAAAAADBAAYAAAAOAAAAAAAAAAAAAoAGAAMAAQACAAKAAAA' +
+  '7AAAABAAAAABAAAAAAAAAAAAAAANAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAACAAAAAAAAAAIAAAAAAAAAAEAAAAAAAAA' +
+  'EAAAAAAAAAAAAAAAAAAAABAAAAAAAAAAAAAAAAAAAAAQAAAAAAAAAAgAAAAAAAAAGAAAAAAAAAAAAAAAAAAAABgAAAAAAAAA' +
+  'CAAAAAAAAAAgAAAAAAAAAAUAAAAAAAAAKAAAAAAAAAAAAAAAAAAAACgAAAAAAAAABAAAAAAAAAAwAAAAAAAAAAAAAAAAAAAA' +
+  'MAAAAAAAAAAEAAAAAAAAAAAAAAAGAAAAAQAAAAAAAAAAAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAACAAAAAAAAAAAAAAAAAAAA' +
+  'AQAAAAAAAAAAAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAABAAAAAAAAAAAAAAAAAAAAAAAAAAEAAABjAAAAAAAAAAAAIEAAAGBA' +
+  'AAAAAAUAAAB0aGlyZAAAAAAAAAAAAAAA5wcAAAAAAAD/////AAAAAA==';
+
+function bytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+function createTestRecords(): ImportRecord[] {
+  return [
+    {
+      id: 'doc-1',
+      vector: new Float32Array([0.1, 0.2, 0.3]),
+      text: 'Hello world',
+      metadata: { category: 'greeting', score: 0.95, count: 3, active: true, tags: ['a', 'b'] },
+    },
+    {
+      id: 'doc-2',
+      vector: new Float32Array([0.4, 0.5, 0.6]),
+      metadata: { category: 'farewell', count: 7 },
+    },
+    {
+      id: 'doc-3',
+      text: 'No vector here',
+    },
+  ];
+}
+
+function expectPyarrowTable(records: ImportRecord[]) {
+  expect(records.map((r) => r.id)).toEqual(['a', 'b', 'c']);
+  expect(records[0].vector).toBeInstanceOf(Float32Array);
+  expect(Array.from(records[0].vector!)).toEqual([0.5, 1.5]);
+  expect(records[1].vector).toBeUndefined();
+  expect(Array.from(records[2].vector!)).toEqual([2.5, 3.5]);
+  expect(records[0].text).toBe('first');
+  expect(records[1].text).toBeUndefined();
+  expect(records[0].metadata).toEqual({ genre: 'news', year: 2021 });
+  expect(records[1].metadata).toEqual({ genre: 'blog' });
+}
+
+function db(dimensions: number) {
+  const documents: Array<{ id: string; vector: Float32Array; metadata?: Record<string, unknown> }> = [];
+  return {
+    dimensions,
+    documents,
+    async addMany(docs: typeof documents) {
+      documents.push(...docs);
+    },
+  };
+}
+
+// ============================================================================
+// Parquet
+// ============================================================================
+
+describe('exportToParquet() / parseParquet()', () => {
+  it('round-trips ids, vectors, text and metadata', () => {
+    const file = exportToParquet(createTestRecords());
+    const records = parseParquet(file);
+
+    expect(records).toHaveLength(3);
+    expect(records[0].id).toBe('doc-1');
+    expect(records[0].vector).toBeInstanceOf(Float32Array);
+    expect(records[0].vector![1]).toBeCloseTo(0.2);
+    expect(records[0].text).toBe('Hello world');
+    expect(records[0].metadata).toEqual({
+      active: true,
+      category: 'greeting',
+      count: 3,
+      score: 0.95,
+      tags: '["a","b"]',
+    });
+    expect(records[1].text).toBeUndefined();
+    expect(records[1].metadata).toEqual({ category: 'farewell', count: 7 });
+    expect(records[2].vector).toBeUndefined();
+    expect(records[2].text).toBe('No vector here');
+  });
+
+  it('writes the Parquet magic at both ends', () => {
+    const file = exportToParquet(createTestRecords());
+    const decoder = new TextDecoder();
+    expect(decoder.decode(file.subarray(0, 4))).toBe('PAR1');
+    expect(decoder.decode(file.subarray(-4))).toBe('PAR1');
+  });
+
+  it('omits vectors and text when disabled', () => {
+    const file = exportToParquet(createTestRecords(), { includeVectors: false, includeText: false });
+    const records = parseParquet(file);
+    expect(records[0].vector).toBeUndefined();
+    expect(records[0].text).toBeUndefined();
+  });
+
+  it('writes an empty file for no records', () => {
+    expect(parseParquet(exportToParquet([]))).toEqual([]);
+  });
+
+  it('throws ValidationError for vectors of different lengths', () => {
+    const records: ImportRecord[] = [
+      { id: 'a', vector: new Float32Array([1, 2]) },
+      { id: 'b', vector: new Float32Array([1, 2, 3]) },
+    ];
+    expect(() => exportToParquet(records)).toThrow(ValidationError);
+  });
+
+  it('parses a Snappy, dictionary-encoded file written by pyarrow', () => {
+    expectPyarrowTable(parseParquet(bytes(PYARROW_PARQUET)));
+  });
+
+  it('throws ParseError for unsupported codecs', () => {
+    expect(() => parseParquet(bytes(PYARROW_PARQUET_ZSTD))).toThrow(/ZSTD/);
+  });
+
+  it('throws ParseError for non-Parquet bytes', () => {
+    expect(() => parseParquet(new TextEncoder().encode('not parquet'))).toThrow(ParseError);
+  });
+});
+
+// ============================================================================
+// Arrow
+// ============================================================================
+
+describe('exportToArrow() / parseArrow()', () => {
+  it('round-trips ids, vectors, text and metadata', () => {
+    const records = parseArrow(exportToArrow(createTestRecords()));
+
+    expect(records).toHaveLength(3);
+    expect(records[0].vector).toBeInstanceOf(Float32Array);
+    expect(records[0].vector![2]).toBeCloseTo(0.3);
+    expect(records[0].metadata?.count).toBe(3);
+    expect(records[1].metadata).toEqual({ category: 'farewell', count: 7 });
+    expect(records[2].vector).toBeUndefined();
+  });
+
+  it('uses a custom vector column name', () => {
+    const file = exportToArrow(createTestRecords(), { vectorFieldName: 'embedding' });
+    const records = parseArrow(file);
+    expect(records[0].vector).toBeInstanceOf(Float32Array);
+    expect(records[0].metadata).not.toHaveProperty('embedding');
+  });
+
+  it('gives each vector its own buffer', () => {
+    const records = parseArrow(exportToArrow(createTestRecords()));
+    expect(records[0].vector!.buffer).not.toBe(records[1].vector!.buffer);
+    expect(records[0].vector!.byteLength).toBe(records[0].vector!.buffer.byteLength);
+  });
+
+  it('parses an uncompressed Feather file written by pyarrow', () => {
+    expectPyarrowTable(parseArrow(bytes(PYARROW_FEATHER)));
+  });
+
+  it('parses an IPC stream with several record batches', () => {
+    expectPyarrowTable(parseArrow(bytes(PYARROW_STREAM)));
+  });
+
+  it('throws ParseError for non-Arrow bytes', () => {
+    expect(() => parseArrow(new TextEncoder().encode('not arrow'))).toThrow(ParseError);
+  });
+});
+
+// ============================================================================
+// detectFormat / convertFormat / importFrom
+// ============================================================================
+
+describe('binary formats', () => {
+  it('detects Parquet and Arrow from bytes', () => {
+    expect(detectFormat(exportToParquet(createTestRecords()))).toBe('parquet');
+    expect(detectFormat(exportToArrow(createTestRecords()).buffer as ArrayBuffer)).toBe('arrow');
+    expect(detectFormat(bytes(PYARROW_STREAM))).toBe('arrow');
+  });
+
+  it('still detects text formats given as bytes', () => {
+    const content = new TextEncoder().encode('{"id":"a","vector":[1,2]}\n');
+    expect(detectFormat(content)).toBe('jsonl');
+  });
+
+  it('throws ParseError when binary content was read as text', () => {
+    const text = new TextDecoder().decode(exportToParquet(createTestRecords()));
+    expect(() => detectFormat(text)).toThrow(ParseError);
+    expect(() => parseExternalFormat(text, { format: 'arrow' })).toThrow(/must be binary/);
+  });
+
+  it('converts JSONL to Parquet and Parquet to CSV', () => {
+    const jsonl = '{"id":"a","vector":[1,2],"metadata":{"n":1}}\n{"id":"b","vector":[3,4]}';
+    const parquet = convertFormat(jsonl, { from: 'jsonl', to: 'parquet' });
+    expect(parquet).toBeInstanceOf(Uint8Array);
+
+    const csv = convertFormat(parquet, { to: 'csv' });
+    expect(csv.split('\n')[0]).toContain('id');
+    expect(csv).toContain('a');
+  });
+
+  it('converts Arrow to Parquet', () => {
+    const parquet = convertFormat(bytes(PYARROW_FEATHER), { to: 'parquet' });
+    expectPyarrowTable(parseParquet(parquet));
+  });
+
+  it('imports a Parquet file into a VectorDB', async () => {
+    const target = db(2);
+    const stats = await importFrom({ db: target, content: bytes(PYARROW_PARQUET) });
+
+    expect(stats.format).toBe('parquet');
+    expect(stats.imported).toBe(2);
+    expect(target.documents[0].id).toBe('a');
+    expect(target.documents[0].metadata).toMatchObject({ genre: 'news', text: 'first' });
+  });
+});
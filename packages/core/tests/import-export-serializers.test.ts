@@ -1,10 +1,16 @@
 /**
  * @file import-export-serializers.test.ts
- * @description Unit tests for exportToCSV, exportToJSONL, and convertFormat
+ * @description Unit tests for exportToCSV, exportToJSONL, their streaming variants, and convertFormat
  */
 
 import { describe, it, expect } from 'vitest';
-import { exportToCSV, exportToJSONL, convertFormat } from '../src/import-export/index.js';
+import {
+  exportToCSV,
+  exportToJSONL,
+  exportToCSVStream,
+  exportToJSONLStream,
+  convertFormat,
+} from '../src/import-export/index.js';
 import { parseCSVVectors } from '../src/import-export/parsers/csv.js';
 import { parseJSONL } from '../src/import-export/parsers/jsonl.js';
 import type { ImportRecord } from '../src/import-export/types.js';
@@ -30,6 +36,12 @@ function createTestRecords(): ImportRecord[] {
   ];
 }
 
+async function readText(stream: ReadableStream<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
 // ============================================================================
 // exportToCSV
 // ============================================================================
@@ -186,6 +198,74 @@ describe('exportToJSONL()', () => {
   });
 });
 
+// ============================================================================
+// Streaming variants
+// ============================================================================
+
+describe('exportToCSVStream()', () => {
+  it('matches exportToCSV() when batches share metadata keys', async () => {
+    const records: ImportRecord[] = [
+      { id: 'v1', text: 'a', vector: new Float32Array([1, 2]), metadata: { k: 1 } },
+      { id: 'v2', text: 'b', vector: new Float32Array([3, 4]), metadata: { k: 2 } },
+      { id: 'v3', text: 'c', vector: new Float32Array([5, 6]), metadata: { k: 3 } },
+    ];
+    const chunks = await readText(exportToCSVStream([records.slice(0, 2), [], records.slice(2)]));
+    expect(chunks).toHaveLength(2);
+    expect(chunks.join('')).toBe(exportToCSV(records));
+  });
+
+  it('takes the columns from the first batch', async () => {
+    const chunks = await readText(
+      exportToCSVStream([[{ id: 'v1', metadata: { a: 1 } }], [{ id: 'v2', metadata: { a: 2, b: 3 } }]])
+    );
+    expect(chunks.join('').split('\n')).toEqual(['id,a', 'v1,1', 'v2,2']);
+  });
+
+  it('uses metadataKeys as the metadata columns', async () => {
+    const records: ImportRecord[] = [{ id: 'v1', metadata: { a: 1, b: 2 } }];
+    expect(exportToCSV(records, { metadataKeys: ['b'] })).toBe('id,b\nv1,2');
+    const chunks = await readText(exportToCSVStream([records], { metadataKeys: ['b', 'c'] }));
+    expect(chunks.join('')).toBe('id,b,c\nv1,2,');
+  });
+
+  it('reads async batches', async () => {
+    async function* batches() {
+      yield createTestRecords();
+    }
+    const chunks = await readText(exportToCSVStream(batches()));
+    expect(chunks.join('')).toBe(exportToCSV(createTestRecords()));
+  });
+
+  it('produces an empty stream for no records', async () => {
+    expect(await readText(exportToCSVStream([[], []]))).toEqual([]);
+  });
+});
+
+describe('exportToJSONLStream()', () => {
+  it('matches exportToJSONL() across batches', async () => {
+    const records = createTestRecords();
+    const chunks = await readText(
+      exportToJSONLStream([[records[0]], [], [records[1]]], { includeText: false })
+    );
+    expect(chunks).toHaveLength(2);
+    expect(chunks.join('')).toBe(exportToJSONL(records, { includeText: false }));
+  });
+
+  it('reads batches only as the stream is pulled', async () => {
+    let read = 0;
+    function* batches() {
+      for (let i = 0; i < 10; i++) {
+        read++;
+        yield [{ id: `v${i}` }];
+      }
+    }
+    const reader = exportToJSONLStream(batches()).getReader();
+    await reader.read();
+    expect(read).toBeLessThan(10);
+    await reader.cancel();
+  });
+});
+
 // ============================================================================
 // convertFormat
 // ============================================================================
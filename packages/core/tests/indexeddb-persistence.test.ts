@@ -0,0 +1,120 @@
+/**
+ * @file indexeddb-persistence.test.ts
+ * @description Default IndexedDB storage: paging, and collection settings that survive a reopen
+ */
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createVectorDB, createTestVector, IndexedDBStorage } from '../src/index.js';
+
+let dbCounter = 0;
+
+/** A fresh database name per test */
+function uniqueName(prefix: string): string {
+  return `${prefix}-${++dbCounter}-${Date.now()}`;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('IndexedDBStorage.getDocumentPage()', () => {
+  it('pages through one collection in ID order', async () => {
+    const storage = new IndexedDBStorage(uniqueName('pages'));
+    await storage.open();
+    for (const id of ['c', 'a', 'd', 'b']) {
+      await storage.addDocument({ id, collectionId: 'default', createdAt: 0, updatedAt: 0 });
+    }
+    await storage.addDocument({ id: 'bb', collectionId: 'other', createdAt: 0, updatedAt: 0 });
+
+    expect((await storage.getDocumentPage('default', null, 3)).map((d) => d.id)).toEqual(['a', 'b', 'c']);
+    expect((await storage.getDocumentPage('default', 'b', 3)).map((d) => d.id)).toEqual(['c', 'd']);
+    expect((await storage.getDocumentPage('default', 'bb', 1)).map((d) => d.id)).toEqual(['c']);
+    expect(await storage.getDocumentPage('default', 'd', 3)).toEqual([]);
+    await storage.close();
+  });
+});
+
+describe('IndexedDB collection persistence', () => {
+  it('keeps the keyword index fingerprint, so reopening does not re-tokenize', async () => {
+    const name = uniqueName('keywords');
+    const first = await createVectorDB<{ _text: string }>({ name, dimensions: 3 });
+    await first.add({ id: 'doc', vector: new Float32Array([1, 0, 0]), metadata: { _text: 'persistent keyword' } });
+    await first.close();
+
+    const clearCollection = vi.spyOn(IndexedDBStorage.prototype, 'clearCollection');
+    const reopened = await createVectorDB({ name, dimensions: 3 });
+
+    expect(clearCollection).not.toHaveBeenCalled();
+    expect((await reopened.searchKeyword('keyword')).map((r) => r.id)).toEqual(['doc']);
+    await reopened.close();
+  });
+
+  it('keeps the binary quantization flag, so codes are read as codes without the option', async () => {
+    const name = uniqueName('binary');
+    const vectors = [
+      new Float32Array([1, -1, 1, -1, 1, -1, 1, -1]),
+      new Float32Array([-1, 1, -1, 1, -1, 1, -1, 1]),
+    ];
+    const first = await createVectorDB({ name, dimensions: 8, quantization: { type: 'binary' } });
+    await first.add({ id: 'a', vector: vectors[0] });
+    await first.add({ id: 'b', vector: vectors[1] });
+    await first.close();
+
+    const reopened = await createVectorDB({ name, dimensions: 8 });
+
+    const [top] = await reopened.search(vectors[1], { k: 1 });
+    expect(top.id).toBe('b');
+    expect(top.score).toBeCloseTo(1);
+    const data = JSON.parse(await (await reopened.export()).text());
+    const exported = data.collections[0].documents.find((d: { id: string }) => d.id === 'a');
+    expect(exported.vector.map(Math.sign)).toEqual(Array.from(vectors[0]));
+    await reopened.close();
+  });
+
+  it('keeps the trained IVF partitions, so reopening does not retrain', async () => {
+    const name = uniqueName('ivf');
+    const options = {
+      name,
+      dimensions: 16,
+      index: 'ivf' as const,
+      ivfOptions: { partitions: 4, probes: 4, trainingSize: 40, pq: { subvectors: 4, centroids: 16 } },
+    };
+    const first = await createVectorDB(options);
+    await first.addMany(Array.from({ length: 60 }, (_, i) => ({ id: `doc${i}`, vector: createTestVector(16, i + 1) })));
+    await first.close();
+
+    const storage = new IndexedDBStorage(name);
+    await storage.open();
+    const stored = await storage.getCollectionByName('default');
+    await storage.close();
+    expect(stored?.indexType).toBe('ivf');
+    expect(stored?.ivf?.centroids).toHaveLength(4);
+    expect(stored?.ivf?.centroids[0]).toBeInstanceOf(Float32Array);
+    expect(stored?.ivf?.codebook?.codebook[0][0]).toBeInstanceOf(Float32Array);
+
+    // Retraining would read every stored vector of the collection
+    const getAllVectors = vi.spyOn(IndexedDBStorage.prototype, 'getAllVectors');
+    const reopened = await createVectorDB(options);
+
+    expect(getAllVectors.mock.calls.map(([id]) => id)).not.toContain(stored?.id);
+    expect((await reopened.search(createTestVector(16, 21), { k: 1 }))[0].id).toBe('doc20');
+    await reopened.close();
+  });
+
+  it('keeps snapshots, so they can be listed and restored after a reopen', async () => {
+    const name = uniqueName('snapshots');
+    const first = await createVectorDB<{ title: string }>({ name, dimensions: 3 });
+    await first.add({ id: 'doc', vector: new Float32Array([1, 0, 0]), metadata: { title: 'original' } });
+    const taken = await first.snapshot('v1');
+    await first.update('doc', { metadata: { title: 'edited' } });
+    expect(await first.listSnapshots()).toEqual([taken]);
+    await first.close();
+
+    const reopened = await createVectorDB<{ title: string }>({ name, dimensions: 3 });
+
+    expect(await reopened.listSnapshots()).toEqual([taken]);
+    await reopened.restoreSnapshot('v1');
+    expect((await reopened.get('doc'))?.metadata).toEqual({ title: 'original' });
+    await reopened.close();
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * @fileoverview Tests for the flat and IVF-PQ indexes and the `index` option of VectorDB.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createVectorDB, FlatIndex, IVFIndex, MemoryStorage, InvalidOptionsError } from '../src/index.js';
+import type { VectorDB, StoredIVFState } from '../src/index.js';
+import { ivfPartitionCollectionId, ivfStagingCollectionId } from '../src/ivf/stored-partitions.js';
+import { graphCollectionId } from '../src/hnsw/stored-graph.js';
+
+/** Create a deterministic pseudo-random vector in [-1, 1] */
+function createTestVector(dimensions: number, seed: number): Float32Array {
+  const vec = new Float32Array(dimensions);
+  let s = seed;
+  for (let i = 0; i < dimensions; i++) {
+    s = (s * 1103515245 + 12345) & 0x7fffffff;
+    vec[i] = (s / 0x7fffffff) * 2 - 1;
+  }
+  return vec;
+}
+
+/** Count the stored entries of every partition */
+async function partitionSizes(storage: MemoryStorage, collectionId: string, partitions: number): Promise<number[]> {
+  const sizes: number[] = [];
+  for (let p = 0; p < partitions; p++) {
+    sizes.push((await storage.getAllVectors(ivfPartitionCollectionId(collectionId, p))).size);
+  }
+  return sizes;
+}
+
+describe('FlatIndex', () => {
+  it('returns the exact nearest vectors', () => {
+    const index = new FlatIndex(8);
+    for (let i = 0; i < 20; i++) {
+      index.add(`v${i}`, createTestVector(8, i + 1));
+    }
+
+    const results = index.search(createTestVector(8, 5), 3);
+    expect(results[0]).toEqual({ id: 'v4', score: expect.closeTo(1, 5) });
+    expect(results).toHaveLength(3);
+    expect(results[0].score).toBeGreaterThanOrEqual(results[1].score);
+
+    expect(index.search(createTestVector(8, 5), 2, { filter: new Set(['v1', 'v2']) }).map((r) => r.id).sort())
+      .toEqual(['v1', 'v2']);
+
+    expect(index.delete('v4')).toBe(true);
+    expect(index.search(createTestVector(8, 5), 1)[0].id).not.toBe('v4');
+    expect(index.size).toBe(19);
+  });
+});
+
+describe('IVFIndex', () => {
+  const dimensions = 16;
+
+  function createIndex(storage: MemoryStorage, options = {}) {
+    const states: StoredIVFState[] = [];
+    const index = new IVFIndex(
+      dimensions,
+      { partitions: 4, trainingSize: 40, ...options },
+      'cosine',
+      { storage, collectionId: 'docs', saveState: async (state) => void states.push(state) }
+    );
+    return { index, states };
+  }
+
+  it('searches staged vectors exactly until the partitions are trained', async () => {
+    const storage = new MemoryStorage();
+    const { index, states } = createIndex(storage);
+    await index.open(undefined);
+
+    for (let i = 0; i < 39; i++) {
+      await index.add(`v${i}`, createTestVector(dimensions, i + 1));
+    }
+    expect(index.trained).toBe(false);
+    expect((await storage.getAllVectors(ivfStagingCollectionId('docs'))).size).toBe(39);
+    expect((await index.search(createTestVector(dimensions, 8), 1))[0]).toEqual({
+      id: 'v7',
+      score: expect.closeTo(1, 5),
+    });
+
+    await index.add('v39', createTestVector(dimensions, 40));
+    expect(index.trained).toBe(true);
+    expect((await storage.getAllVectors(ivfStagingCollectionId('docs'))).size).toBe(0);
+
+    const sizes = await partitionSizes(storage, 'docs', 4);
+    expect(sizes.reduce((a, b) => a + b)).toBe(40);
+
+    // Entries hold PQ codes of the residuals (16 dimensions → 2 subvectors)
+    const [entry] = (await storage.getAllVectors(ivfPartitionCollectionId('docs', sizes.findIndex((n) => n > 0)))).values();
+    expect(entry).toBeInstanceOf(Uint8Array);
+    expect(entry.length).toBe(2);
+
+    const state = states[states.length - 1];
+    expect(state.centroids).toHaveLength(4);
+    expect(state.codebook?.subvectors).toBe(2);
+  });
+
+  it('finds vectors exactly without PQ when every partition is probed', async () => {
+    const storage = new MemoryStorage();
+    const { index } = createIndex(storage, { pq: false, probes: 4 });
+    await index.open(undefined);
+    for (let i = 0; i < 60; i++) {
+      await index.add(`v${i}`, createTestVector(dimensions, i + 1));
+    }
+
+    const results = await index.search(createTestVector(dimensions, 51), 5);
+    expect(results[0]).toEqual({ id: 'v50', score: expect.closeTo(1, 5) });
+    expect(results).toHaveLength(5);
+
+    await index.delete('v50');
+    expect((await index.search(createTestVector(dimensions, 51), 1))[0].id).not.toBe('v50');
+  });
+
+  it('approximates distances with PQ codes', async () => {
+    const storage = new MemoryStorage();
+    const { index } = createIndex(storage, { probes: 4, pq: { subvectors: 4, centroids: 16 } });
+    await index.open(undefined);
+    for (let i = 0; i < 80; i++) {
+      await index.add(`v${i}`, createTestVector(dimensions, i + 1));
+    }
+
+    const results = await index.search(createTestVector(dimensions, 31), 5);
+    expect(results.map((r) => r.id)).toContain('v30');
+  });
+
+  it('loads only the probed partitions and caches them', async () => {
+    const storage = new MemoryStorage();
+    const { index, states } = createIndex(storage, { probes: 1 });
+    await index.open(undefined);
+    for (let i = 0; i < 60; i++) {
+      await index.add(`v${i}`, createTestVector(dimensions, i + 1));
+    }
+
+    // A new session restores the trained state without reading any partition
+    const spy = vi.spyOn(storage, 'getAllVectors');
+    const { index: reopened } = createIndex(storage, { probes: 1 });
+    expect(await reopened.open(states[states.length - 1])).toBe(true);
+    expect(spy.mock.calls.map(([id]) => id)).toEqual([ivfStagingCollectionId('docs')]);
+
+    spy.mockClear();
+    await reopened.search(createTestVector(dimensions, 3), 1);
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(spy.mock.calls[0][0]).toMatch(/ivf:\d$/);
+
+    spy.mockClear();
+    await reopened.search(createTestVector(dimensions, 3), 1);
+    expect(spy).not.toHaveBeenCalled();
+
+    // More partitions are searched while fewer than k matches are found
+    const all = await reopened.search(createTestVector(dimensions, 3), 60);
+    expect(all).toHaveLength(60);
+  });
+
+  it('drops entries built with other settings', async () => {
+    const storage = new MemoryStorage();
+    const { index, states } = createIndex(storage);
+    await index.open(undefined);
+    for (let i = 0; i < 40; i++) {
+      await index.add(`v${i}`, createTestVector(dimensions, i + 1));
+    }
+
+    const { index: changed } = createIndex(storage, { partitions: 2 });
+    expect(await changed.open(states[states.length - 1])).toBe(false);
+    expect(await partitionSizes(storage, 'docs', 4)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('rejects invalid options', () => {
+    const storage = new MemoryStorage();
+    expect(() => createIndex(storage, { partitions: 0 })).toThrow(InvalidOptionsError);
+    expect(() => createIndex(storage, { probes: 1.5 })).toThrow(InvalidOptionsError);
+  });
+});
+
+describe('VectorDB index option', () => {
+  const dimensions = 16;
+  let db: VectorDB;
+
+  afterEach(async () => {
+    await db?.close();
+  });
+
+  it('keeps IVF partitions in storage and searches them', async () => {
+    const storage = new MemoryStorage();
+    db = await createVectorDB({
+      name: 'ivf',
+      dimensions,
+      storage,
+      index: 'ivf',
+      ivfOptions: { partitions: 4, probes: 4, trainingSize: 40, pq: false },
+    });
+    await db.addMany(
+      Array.from({ length: 60 }, (_, i) => ({
+        id: `doc${i}`,
+        vector: createTestVector(dimensions, i + 1),
+        metadata: { even: i % 2 === 0 },
+      }))
+    );
+
+    expect((await storage.getCollection('default'))?.indexType).toBe('ivf');
+    expect((await storage.getCollection('default'))?.ivf?.centroids).toHaveLength(4);
+    expect((await storage.getAllVectors(graphCollectionId('default'))).size).toBe(0);
+
+    const [top] = await db.search(createTestVector(dimensions, 12), { k: 1 });
+    expect(top).toMatchObject({ id: 'doc11', score: expect.closeTo(1, 5) });
+
+    const filtered = await db.search(createTestVector(dimensions, 12), { k: 3, filter: { even: true } });
+    expect(filtered.map((r) => r.id)).not.toContain('doc11');
+    expect(filtered).toHaveLength(3);
+
+    await db.delete('doc11');
+    expect((await partitionSizes(storage, 'default', 4)).reduce((a, b) => a + b)).toBe(59);
+    expect((await db.search(createTestVector(dimensions, 12), { k: 1 }))[0].id).not.toBe('doc11');
+    await db.close();
+
+    // Reopening reads neither the main vectors nor any partition
+    const spy = vi.spyOn(storage, 'getAllVectors');
+    db = await createVectorDB({
+      name: 'ivf',
+      dimensions,
+      storage,
+      index: 'ivf',
+      ivfOptions: { partitions: 4, probes: 4, trainingSize: 40, pq: false },
+    });
+    expect(spy.mock.calls.map(([id]) => id)).not.toContain('default');
+    expect(spy.mock.calls.map(([id]) => id).filter((id) => /ivf:\d$/.test(id))).toEqual([]);
+    expect((await db.search(createTestVector(dimensions, 21), { k: 1 }))[0].id).toBe('doc20');
+
+    await db.clear();
+    expect(await partitionSizes(storage, 'default', 4)).toEqual([0, 0, 0, 0]);
+    expect(await db.search(createTestVector(dimensions, 21), { k: 1 })).toEqual([]);
+  });
+
+  it('searches a flat index exactly without saving a graph', async () => {
+    const storage = new MemoryStorage();
+    db = await createVectorDB({ name: 'flat', dimensions, storage, index: 'flat' });
+    for (let i = 0; i < 30; i++) {
+      await db.add({ id: `doc${i}`, vector: createTestVector(dimensions, i + 1) });
+    }
+
+    expect((await db.search(createTestVector(dimensions, 9), { k: 1 }))[0].id).toBe('doc8');
+    expect((await storage.getAllVectors(graphCollectionId('default'))).size).toBe(0);
+  });
+
+  it('rebuilds from stored vectors when the index type changes', async () => {
+    const storage = new MemoryStorage();
+    const hnsw = await createVectorDB({ name: 'switch', dimensions, storage });
+    for (let i = 0; i < 50; i++) {
+      await hnsw.add({ id: `doc${i}`, vector: createTestVector(dimensions, i + 1) });
+    }
+    await hnsw.close();
+    expect((await storage.getAllVectors(graphCollectionId('default'))).size).toBeGreaterThan(0);
+
+    const ivf = await createVectorDB({
+      name: 'switch',
+      dimensions,
+      storage,
+      index: 'ivf',
+      ivfOptions: { partitions: 4, probes: 4, trainingSize: 40, pq: false },
+    });
+    expect((await storage.getAllVectors(graphCollectionId('default'))).size).toBe(0);
+    expect((await partitionSizes(storage, 'default', 4)).reduce((a, b) => a + b)).toBe(50);
+    expect((await ivf.search(createTestVector(dimensions, 33), { k: 1 }))[0].id).toBe('doc32');
+    await ivf.close();
+
+    db = await createVectorDB({ name: 'switch', dimensions, storage, index: 'flat' });
+    expect(await partitionSizes(storage, 'default', 4)).toEqual([0, 0, 0, 0]);
+    expect((await storage.getCollection('default'))?.ivf).toBeUndefined();
+    expect((await db.search(createTestVector(dimensions, 33), { k: 1 }))[0].id).toBe('doc32');
+  });
+
+  it('rejects an unknown index type', async () => {
+    await expect(
+      createVectorDB({ name: 'bad', dimensions, storage: 'memory', index: 'lsh' as 'flat' })
+    ).rejects.toThrow(InvalidOptionsError);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Tests for the persisted BM25 keyword index and searchKeyword()
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createVectorDB, createHybridSearch, MemoryStorage, ValidationError } from '../src/index.js';
+import type { VectorDB } from '../src/index.js';
+import { keywordCollectionId } from '../src/rag/stored-keywords.js';
+
+function dense(i: number): Float32Array {
+  return new Float32Array([Math.cos(i), Math.sin(i), 0.5]);
+}
+
+const docs = [
+  { id: 'password', text: 'How to reset your password', topic: 'account' },
+  { id: 'billing', text: 'Update billing details and invoices', topic: 'billing' },
+  { id: 'login', text: 'Login fails after a password change', topic: 'account' },
+];
+
+describe('VectorDB keyword index', () => {
+  let db: VectorDB<{ _text?: string; topic: string }>;
+
+  beforeEach(async () => {
+    db = await createVectorDB<{ _text?: string; topic: string }>({
+      name: 'keywords',
+      dimensions: 3,
+      storage: 'memory',
+    });
+    await db.addMany(
+      docs.map((d, i) => ({ id: d.id, vector: dense(i), metadata: { _text: d.text, topic: d.topic } }))
+    );
+    await db.add({ id: 'untexted', vector: dense(3), metadata: { topic: 'account' } });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('searches the _text field with BM25', async () => {
+    const results = await db.searchKeyword('reset password', { k: 5 });
+    expect(results.map((r) => r.id)).toEqual(['password', 'login']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(results[0].metadata?.topic).toBe('account');
+  });
+
+  it('applies filters, k and threshold', async () => {
+    const filtered = await db.searchKeyword('password', { filter: { topic: 'account' }, k: 1 });
+    expect(filtered).toHaveLength(1);
+
+    const none = await db.searchKeyword('password', { filter: { topic: 'billing' } });
+    expect(none).toEqual([]);
+
+    const [top] = await db.searchKeyword('reset password');
+    const strong = await db.searchKeyword('reset password', { threshold: top.score });
+    expect(strong.map((r) => r.id)).toEqual(['password']);
+  });
+
+  it('stays up to date on update, delete and clear', async () => {
+    await db.update('billing', { metadata: { _text: 'Password rules for billing admins', topic: 'billing' } });
+    expect((await db.searchKeyword('invoices')).map((r) => r.id)).toEqual([]);
+    expect((await db.searchKeyword('admins')).map((r) => r.id)).toEqual(['billing']);
+
+    await db.update('login', { metadata: { topic: 'account' } });
+    await db.delete('password');
+    expect((await db.searchKeyword('password')).map((r) => r.id)).toEqual(['billing']);
+
+    await db.clear();
+    expect(await db.searchKeyword('admins')).toEqual([]);
+  });
+
+  it('round-trips tokens through export and import', async () => {
+    const blob = await db.export();
+    const data = JSON.parse(await blob.text());
+    expect(data.collections[0].keywordIndex.field).toBe('_text');
+    expect(data.collections[0].documents[0].keywordTokens).toEqual(['reset', 'password']);
+
+    const copy = await createVectorDB({ name: 'keywords-copy', dimensions: 3, storage: 'memory' });
+    await copy.import(blob);
+    expect((await copy.searchKeyword('invoices')).map((r) => r.id)).toEqual(['billing']);
+
+    // Different tokenizer settings tokenize the text again
+    const stemmed = await createVectorDB({
+      name: 'keywords-stemmed',
+      dimensions: 3,
+      storage: 'memory',
+      keywordIndex: { stemming: true },
+    });
+    await stemmed.import(blob);
+    expect((await stemmed.searchKeyword('invoice')).map((r) => r.id)).toEqual(['billing']);
+
+    await copy.close();
+    await stemmed.close();
+  });
+});
+
+describe('keyword index persistence', () => {
+  it('loads stored tokens on reopen', async () => {
+    const storage = new MemoryStorage();
+    const first = await createVectorDB({ name: 'persist', dimensions: 3, storage });
+    await first.add({ id: 'doc', vector: dense(0), metadata: { _text: 'offline keyword search' } });
+    await first.close();
+
+    const reopened = await createVectorDB({ name: 'persist', dimensions: 3, storage });
+    const entries = await storage.getAllDocuments(keywordCollectionId('default'));
+    expect(entries.map((e) => e.metadata?.tokens)).toEqual([['offline', 'keyword', 'search']]);
+    expect((await reopened.searchKeyword('keyword')).map((r) => r.id)).toEqual(['doc']);
+  });
+
+  it('rebuilds entries when the field or tokenizer changes', async () => {
+    const storage = new MemoryStorage();
+    const first = await createVectorDB({ name: 'rebuild', dimensions: 3, storage });
+    await first.add({ id: 'doc', vector: dense(0), metadata: { _text: 'indexing', body: 'searching' } });
+    await first.close();
+
+    const byBody = await createVectorDB({
+      name: 'rebuild',
+      dimensions: 3,
+      storage,
+      keywordIndex: { field: 'body', stemming: true },
+    });
+    expect(await byBody.searchKeyword('indexing')).toEqual([]);
+    expect((await byBody.searchKeyword('search')).map((r) => r.id)).toEqual(['doc']);
+    await byBody.close();
+
+    const disabled = await createVectorDB({ name: 'rebuild', dimensions: 3, storage, keywordIndex: false });
+    expect(await storage.getAllDocuments(keywordCollectionId('default'))).toEqual([]);
+    await expect(disabled.searchKeyword('search')).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('HybridSearch with the persisted keyword index', () => {
+  it('searches keywords in a new session without re-adding documents', async () => {
+    const storage = new MemoryStorage();
+    const db = await createVectorDB({ name: 'hybrid', dimensions: 3, storage });
+    await createHybridSearch(db).addMany(docs.map((d, i) => ({ id: d.id, text: d.text, vector: dense(i) })));
+    await db.close();
+
+    const reopened = await createVectorDB({ name: 'hybrid', dimensions: 3, storage });
+    const hybrid = createHybridSearch(reopened);
+    const results = await hybrid.search(dense(1), 'password', { k: 3 });
+
+    const login = results.find((r) => r.id === 'login');
+    expect(login?.keywordScore).toBeGreaterThan(0);
+    expect(login?.text).toBe('Login fails after a password change');
+    expect(results.find((r) => r.id === 'billing')?.keywordScore).toBeUndefined();
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * @fileoverview Tests for secondary metadata indexes and the filter planner
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createVectorDB,
+  extractIndexEntries,
+  matchesIndexQuery,
+  toIndexKeyRanges,
+  matchesFilter,
+  MemoryStorage,
+} from '../src/index.js';
+import type { DocumentQueryResult, TypedFilterQuery } from '../src/index.js';
+import { planFilter } from '../src/query/planner.js';
+
+function vec(i: number): Float32Array {
+  return new Float32Array([Math.cos(i / 10), Math.sin(i / 10), 0.5]);
+}
+
+describe('extractIndexEntries', () => {
+  it('extracts scalars, dotted paths and array elements', () => {
+    const entries = extractIndexEntries(
+      { category: 'tech', author: { name: 'Ada' }, tags: ['a', 'b', 'a'], draft: false, year: 2024 },
+      ['category', 'author.name', 'tags', 'draft', 'year', 'missing']
+    );
+
+    expect(entries).toEqual([
+      { field: 'category', value: 'tech' },
+      { field: 'author.name', value: 'Ada' },
+      { field: 'tags[]', value: 'a' },
+      { field: 'tags[]', value: 'b' },
+      { field: 'draft', value: false },
+      { field: 'year', value: 2024 },
+    ]);
+  });
+
+  it('skips objects and NaN', () => {
+    expect(extractIndexEntries({ a: { b: 1 }, n: NaN }, ['a', 'n'])).toEqual([]);
+  });
+});
+
+describe('matchesIndexQuery', () => {
+  it('matches equality without coercing types', () => {
+    expect(matchesIndexQuery(1, { field: 'x', values: [1] })).toBe(true);
+    expect(matchesIndexQuery(true, { field: 'x', values: [1] })).toBe(false);
+  });
+
+  it('honours open and closed range bounds', () => {
+    const query = { field: 'x', range: { lower: 10, lowerOpen: true, upper: 20 } };
+    expect(matchesIndexQuery(10, query)).toBe(false);
+    expect(matchesIndexQuery(20, query)).toBe(true);
+    expect(matchesIndexQuery('15', query)).toBe(false);
+  });
+});
+
+describe('toIndexKeyRanges', () => {
+  it('produces one range per equality value', () => {
+    const ranges = toIndexKeyRanges('c', { field: 'category', values: ['a', 'b'] });
+    expect(ranges).toHaveLength(2);
+    expect(ranges[0].lower).toEqual(['c', 'category', ['s', 'a']]);
+    expect(ranges[0].upper).toEqual(['c', 'category', ['s', 'a'], []]);
+  });
+
+  it('leaves open-ended ranges bounded to the value type', () => {
+    const [range] = toIndexKeyRanges('c', { field: 'year', range: { lower: 2020 } });
+    expect(range.lower).toEqual(['c', 'year', ['n', 2020]]);
+    expect(range.upper).toEqual(['c', 'year', ['n', []]]);
+  });
+});
+
+describe('planFilter', () => {
+  const indexed = new Set(['category', 'year']);
+
+  it('plans equality, $in and ranges exactly', () => {
+    const { plan, exact } = planFilter(
+      { category: { $in: ['a', 'b'] }, year: { $gte: 2020, $lt: 2024 } },
+      indexed
+    );
+    expect(exact).toBe(true);
+    expect(plan?.type).toBe('and');
+  });
+
+  it('keeps unindexed conditions as a residual', () => {
+    const { plan, exact } = planFilter({ category: 'a', title: { $startsWith: 'x' } }, indexed);
+    expect(plan).toEqual({ type: 'lookup', query: { field: 'category', values: ['a'] } });
+    expect(exact).toBe(false);
+  });
+
+  it('does not plan $or with an unindexed branch', () => {
+    expect(planFilter({ $or: [{ category: 'a' }, { title: 'x' }] }, indexed).plan).toBeNull();
+  });
+
+  it('does not plan $not', () => {
+    expect(planFilter({ $not: { category: 'a' } }, indexed).plan).toBeNull();
+  });
+
+  it('keeps the tighter bound when ranges repeat', () => {
+    const { plan } = planFilter({ $and: [{ year: { $gt: 2000 } }, { year: { $gte: 2010 } }] }, indexed);
+    expect(plan?.type).toBe('and');
+    const single = planFilter({ year: { $gt: 2010, $gte: 2010 } }, indexed).plan;
+    expect(single).toEqual({
+      type: 'lookup',
+      query: { field: 'year', range: { lower: 2010, lowerOpen: true } },
+    });
+  });
+});
+
+describe('VectorDB with secondary indexes', () => {
+  async function createIndexedDB(storage = new MemoryStorage()) {
+    const db = await createVectorDB({
+      name: 'indexed',
+      dimensions: 3,
+      storage,
+      indexes: ['category', 'year', 'tags'],
+    });
+    await db.addMany(
+      Array.from({ length: 60 }, (_, i) => ({
+        id: `doc-${i}`,
+        vector: vec(i),
+        metadata: {
+          category: i % 3 === 0 ? 'tech' : 'news',
+          year: 2000 + (i % 30),
+          tags: i % 2 === 0 ? ['even'] : ['odd'],
+          title: `Doc ${i}`,
+        },
+      }))
+    );
+    return { db, storage };
+  }
+
+  it('counts with an exact plan without scanning documents', async () => {
+    const { db, storage } = await createIndexedDB();
+    const scan = vi.spyOn(storage, 'getAllDocuments');
+
+    expect(await db.count()).toBe(60);
+    expect(await db.count({ filter: { category: 'tech' } })).toBe(20);
+    expect(await db.count({ filter: { year: { $gte: 2020, $lt: 2025 } } })).toBe(10);
+    expect(await db.count({ filter: { tags: { $in: ['even'] } } })).toBe(30);
+    expect(
+      await db.count({ filter: { $or: [{ category: 'tech' }, { year: 2001 }] } })
+    ).toBe(22);
+    expect(scan).not.toHaveBeenCalled();
+
+    await db.close();
+  });
+
+  it('matches the unindexed result for residual filters', async () => {
+    const { db } = await createIndexedDB();
+    const filter = { category: 'tech', title: { $regex: '^Doc 1' } };
+
+    const plain = await createVectorDB({ name: 'plain', dimensions: 3, storage: 'memory' });
+    await plain.addMany(
+      Array.from({ length: 60 }, (_, i) => ({
+        id: `doc-${i}`,
+        vector: vec(i),
+        metadata: { category: i % 3 === 0 ? 'tech' : 'news', title: `Doc ${i}` },
+      }))
+    );
+
+    expect(await db.count({ filter })).toBe(await plain.count({ filter }));
+
+    await db.close();
+    await plain.close();
+  });
+
+  it('searches within the indexed candidates', async () => {
+    const { db } = await createIndexedDB();
+
+    const results = await db.search(vec(10), { k: 5, filter: { category: 'tech', year: { $lt: 2010 } } });
+    expect(results.length).toBeGreaterThan(0);
+    for (const r of results) {
+      expect(r.metadata?.category).toBe('tech');
+      expect(r.metadata?.year as number).toBeLessThan(2010);
+    }
+
+    await db.close();
+  });
+
+  it('keeps index entries in sync with updates and deletes', async () => {
+    const { db } = await createIndexedDB();
+
+    await db.update('doc-1', { metadata: { category: 'tech', year: 1999, tags: [] } });
+    expect(await db.count({ filter: { year: 1999 } })).toBe(1);
+    expect(await db.count({ filter: { category: 'tech' } })).toBe(21);
+
+    await db.delete('doc-0');
+    expect(await db.count({ filter: { category: 'tech' } })).toBe(20);
+
+    expect(await db.deleteWhere({ category: 'tech' })).toBe(20);
+    expect(await db.count({ filter: { category: 'tech' } })).toBe(0);
+    expect(await db.count()).toBe(39);
+
+    await db.close();
+  });
+
+  it('backfills entries when indexes are added to an existing collection', async () => {
+    const storage = new MemoryStorage();
+    const first = await createVectorDB({ name: 'backfill', dimensions: 3, storage });
+    await first.addMany([
+      { id: 'a', vector: vec(1), metadata: { category: 'tech' } },
+      { id: 'b', vector: vec(2), metadata: { category: 'news' } },
+    ]);
+
+    const reopened = await createVectorDB({
+      name: 'backfill',
+      dimensions: 3,
+      storage,
+      indexes: ['category'],
+    });
+    expect(await storage.queryIndex('default', { field: 'category', values: ['tech'] })).toEqual([
+      'a',
+    ]);
+    expect(await reopened.count({ filter: { category: 'news' } })).toBe(1);
+
+    const collection = await storage.getCollectionByName('default');
+    expect(collection?.indexedFields).toEqual(['category']);
+  });
+});
+
+describe('VectorDB with storage-side filtering', () => {
+  /** Storage that evaluates filters itself, except `$regex` */
+  class QueryingStorage extends MemoryStorage {
+    queries: TypedFilterQuery[] = [];
+    exact = true;
+
+    async queryDocuments(collectionId: string, filter: TypedFilterQuery): Promise<DocumentQueryResult | null> {
+      this.queries.push(filter);
+      if (JSON.stringify(filter).includes('$regex')) return null;
+      const docs = await this.getAllDocuments(collectionId);
+      // Inexact answers return every document as a candidate
+      const ids = docs.filter((doc) => !this.exact || matchesFilter(doc.metadata, filter)).map((doc) => doc.id);
+      return { ids, exact: this.exact };
+    }
+  }
+
+  async function createQueryingDB() {
+    const storage = new QueryingStorage();
+    const db = await createVectorDB({ name: 'querying', dimensions: 3, storage });
+    await db.addMany(
+      Array.from({ length: 20 }, (_, i) => ({
+        id: `doc-${i}`,
+        vector: vec(i),
+        metadata: { category: i % 2 === 0 ? 'even' : 'odd', title: `Doc ${i}` },
+      }))
+    );
+    return { db, storage };
+  }
+
+  it('answers filters from storage without scanning', async () => {
+    const { db, storage } = await createQueryingDB();
+    const scan = vi.spyOn(storage, 'getAllDocuments');
+
+    expect(await db.count({ filter: { category: 'even' } })).toBe(10);
+    expect(scan).toHaveBeenCalledTimes(1); // by queryDocuments itself
+    const results = await db.search(vec(3), { k: 3, filter: { category: 'odd' } });
+    expect(results.every((r) => r.metadata?.category === 'odd')).toBe(true);
+    expect(await db.deleteWhere({ category: 'odd' })).toBe(10);
+    expect(storage.queries).toHaveLength(3);
+
+    await db.close();
+  });
+
+  it('checks inexact candidates and falls back when storage declines', async () => {
+    const { db, storage } = await createQueryingDB();
+
+    storage.exact = false;
+    expect(await db.count({ filter: { category: 'even' } })).toBe(10);
+    expect(await db.count({ filter: { title: { $regex: '^Doc 1' } } })).toBe(11);
+
+    await db.close();
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Tests for multi-vector documents and searchMultiVector()
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createVectorDB, HNSWIndex, MemoryStorage, ValidationError } from '../src/index.js';
+import type { VectorDB } from '../src/index.js';
+import { subVectorId, parentIdOf, meanVector, scoreMultiVector } from '../src/hnsw/multi-vector.js';
+
+function unit(...values: number[]): Float32Array {
+  const v = new Float32Array(values);
+  const norm = Math.hypot(...values);
+  return v.map((x) => x / norm);
+}
+
+const X = unit(1, 0, 0);
+const Y = unit(0, 1, 0);
+const Z = unit(0, 0, 1);
+
+describe('multi-vector helpers', () => {
+  it('round-trips sub-vector IDs', () => {
+    expect(parentIdOf(subVectorId('doc:1', 3))).toBe('doc:1');
+  });
+
+  it('pools vectors by their mean', () => {
+    expect(Array.from(meanVector([new Float32Array([1, 3]), new Float32Array([3, 5])]))).toEqual([2, 4]);
+  });
+
+  it('scores max, mean and maxsim', () => {
+    const dot = (a: Float32Array, b: Float32Array) => a.reduce((s, x, i) => s + x * b[i], 0);
+    const docVectors = [X, Y];
+
+    expect(scoreMultiVector([Y], docVectors, 'max', dot)).toEqual({ score: 1, matchedVector: 1 });
+    expect(scoreMultiVector([Y], docVectors, 'mean', dot)).toEqual({ score: 0.5 });
+    expect(scoreMultiVector([X, Y, Z], docVectors, 'maxsim', dot)).toEqual({ score: 2 });
+  });
+});
+
+describe('HNSWIndex.searchGroups()', () => {
+  it('returns one result per group, ranked by the best member', async () => {
+    const index = new HNSWIndex(3);
+    for (let i = 0; i < 20; i++) {
+      index.add(`a-${i}`, unit(1, i / 100, 0));
+    }
+    index.add('b-0', unit(0.9, 0.3, 0));
+    index.add('c-0', unit(0, 0, 1));
+
+    const groups = await index.searchGroups(X, 3, { groupOf: (id) => id.split('-')[0] });
+    expect(groups.map((g) => g.group)).toEqual(['a', 'b', 'c']);
+    expect(groups[0].id).toBe('a-0');
+  });
+});
+
+describe('VectorDB multi-vector documents', () => {
+  let db: VectorDB;
+
+  beforeEach(async () => {
+    db = await createVectorDB({ name: 'multi-vector', dimensions: 3, storage: 'memory' });
+    await db.addMany([
+      // Mostly about X with one Z chunk
+      { id: 'report', vectors: [X, X, unit(1, 0.1, 0), Z], metadata: { kind: 'pdf' } },
+      // Entirely about Y
+      { id: 'memo', vectors: [Y, unit(0.1, 1, 0)], metadata: { kind: 'note' } },
+      // Half X, half Y
+      { id: 'mixed', vectors: [unit(1, 0.2, 0), unit(0.2, 1, 0)], metadata: { kind: 'note' } },
+      // Plain single-vector document
+      { id: 'single', vector: Z, metadata: { kind: 'note' } },
+    ]);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('groups best-chunk results to the parent document', async () => {
+    const results = await db.searchMultiVector(Z, { k: 3 });
+    expect(results[0]).toMatchObject({ id: 'report', matchedVector: 3 });
+    expect(results[0].score).toBeCloseTo(1);
+    expect(new Set(results.map((r) => r.id)).size).toBe(results.length);
+    expect(results.map((r) => r.id)).not.toContain('single');
+  });
+
+  it('averages similarity in mean mode', async () => {
+    const max = await db.searchMultiVector(Z, { k: 1, mode: 'max' });
+    const mean = await db.searchMultiVector(Z, { k: 1, mode: 'mean' });
+    expect(max[0].id).toBe('report');
+    expect(mean[0].id).toBe('report');
+    expect(mean[0].score).toBeLessThan(max[0].score);
+  });
+
+  it('scores several query vectors with MaxSim', async () => {
+    const results = await db.searchMultiVector([X, Y], { k: 3 });
+    expect(results[0].id).toBe('mixed');
+    expect(results[0].score).toBeGreaterThan(1.9);
+    expect(results[0].matchedVector).toBeUndefined();
+  });
+
+  it('applies metadata filters through the parent document', async () => {
+    const results = await db.searchMultiVector(X, { k: 3, filter: { kind: 'note' } });
+    expect(results.map((r) => r.id)).toEqual(['mixed', 'memo']);
+  });
+
+  it('stores a pooled main vector for regular search', async () => {
+    const doc = await db.get('memo');
+    expect(doc?.vectors).toHaveLength(2);
+    expect(doc?.vector[1]).toBeGreaterThan(0.9);
+
+    const [top] = await db.search(Y, { k: 1 });
+    expect(top.id).toBe('memo');
+  });
+
+  it('rejects several query vectors outside maxsim mode', async () => {
+    await expect(db.searchMultiVector([X, Y], { mode: 'max' })).rejects.toThrow(ValidationError);
+    await expect(db.searchMultiVector([])).rejects.toThrow(ValidationError);
+  });
+
+  it('removes owned vectors on delete and replaces them on update', async () => {
+    await db.delete('report');
+    expect((await db.searchMultiVector(Z, { k: 5 })).map((r) => r.id)).not.toContain('report');
+
+    await db.update('memo', { vectors: [Z] });
+    const [top] = await db.searchMultiVector(Z, { k: 1 });
+    expect(top.id).toBe('memo');
+    expect((await db.get('memo'))?.vectors).toHaveLength(1);
+  });
+
+  it('clears owned vectors with the collection', async () => {
+    await db.clear();
+    expect(await db.searchMultiVector(X)).toEqual([]);
+  });
+
+  it('round-trips owned vectors through export and import', async () => {
+    const blob = await db.export();
+    const copy = await createVectorDB({ name: 'multi-vector-copy', dimensions: 3, storage: 'memory' });
+    await copy.import(blob);
+
+    expect((await copy.get('report'))?.vectors).toHaveLength(4);
+    const [top] = await copy.searchMultiVector(Z, { k: 1 });
+    expect(top).toMatchObject({ id: 'report', matchedVector: 3 });
+
+    await copy.close();
+  });
+});
+
+describe('multi-vector persistence', () => {
+  it('reloads owned vectors and their index on reopen', async () => {
+    const storage = new MemoryStorage();
+    const first = await createVectorDB({ name: 'persist', dimensions: 3, storage });
+    await first.add({ id: 'doc', vectors: [X, Y] });
+    await first.close();
+
+    const reopened = await createVectorDB({ name: 'persist', dimensions: 3, storage });
+    const [top] = await reopened.searchMultiVector(Y, { k: 1 });
+    expect(top).toMatchObject({ id: 'doc', matchedVector: 1 });
+    expect(await reopened.count()).toBe(1);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Tests for named vector spaces and searchFused()
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  createVectorDB,
+  MemoryStorage,
+  ValidationError,
+  reciprocalRankFusion,
+} from '../src/index.js';
+import type { VectorDB } from '../src/index.js';
+
+function text(i: number): Float32Array {
+  return new Float32Array([Math.cos(i), Math.sin(i), 0.2]);
+}
+
+function image(i: number): Float32Array {
+  return new Float32Array([0.1, Math.sin(i * 2), Math.cos(i * 2), 0.3]);
+}
+
+interface Product extends Record<string, unknown> {
+  name: string;
+  inStock: boolean;
+}
+
+describe('VectorDB named vector spaces', () => {
+  let db: VectorDB<Product>;
+
+  beforeEach(async () => {
+    db = await createVectorDB<Product>({
+      name: 'catalog',
+      dimensions: { text: 3, image: { dimensions: 4, indexOptions: { distanceFunction: 'euclidean' } } },
+      storage: 'memory',
+    });
+    await db.addMany(
+      Array.from({ length: 12 }, (_, i) => ({
+        id: `sku-${i}`,
+        namedVectors: { text: text(i), image: image(i) },
+        metadata: { name: `Product ${i}`, inStock: i % 2 === 0 },
+      }))
+    );
+    // Text-only item
+    await db.add({ id: 'sku-text', vector: text(3.05), metadata: { name: 'Text only', inStock: true } });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('searches the primary space by default', async () => {
+    const [top] = await db.search(text(5), { k: 1 });
+    expect(top.id).toBe('sku-5');
+  });
+
+  it('selects a space with using', async () => {
+    const results = await db.search(image(7), { k: 3, using: 'image', includeVectors: true });
+    expect(results[0].id).toBe('sku-7');
+    expect(results[0].vector).toHaveLength(4);
+    expect(results.map((r) => r.id)).not.toContain('sku-text');
+  });
+
+  it('uses the space distance function', async () => {
+    const [top] = await db.search(image(7), { k: 1, using: 'image' });
+    // Euclidean scores are 1 / (1 + distance)
+    expect(top.score).toBeCloseTo(1);
+  });
+
+  it('applies filters in named spaces', async () => {
+    const results = await db.search(image(7), { k: 3, using: 'image', filter: { inStock: true } });
+    expect(results.every((r) => r.metadata?.inStock)).toBe(true);
+  });
+
+  it('validates spaces and dimensions', async () => {
+    await expect(db.search(image(1), { using: 'audio' })).rejects.toThrow(ValidationError);
+    await expect(db.search(text(1), { using: 'image' })).rejects.toThrow('dimension mismatch');
+    await expect(
+      db.add({ id: 'bad', namedVectors: { text: text(1), audio: image(1) } })
+    ).rejects.toThrow(ValidationError);
+    await expect(db.add({ id: 'no-primary', namedVectors: { image: image(1) } })).rejects.toThrow(
+      'Float32Array vector'
+    );
+  });
+
+  it('fuses several spaces with reciprocal rank fusion', async () => {
+    const results = await db.searchFused({ text: text(4), image: image(4) }, { k: 3 });
+    expect(results[0].id).toBe('sku-4');
+    expect(Object.keys(results[0].scores).sort()).toEqual(['image', 'text']);
+
+    const textOnly = await db.search(text(4), { k: 6 });
+    const imageOnly = await db.search(image(4), { k: 6, using: 'image' });
+    const expected = reciprocalRankFusion([textOnly, imageOnly]).slice(0, 3);
+    expect(results.map((r) => r.id)).toEqual(expected.map((r) => r.id));
+  });
+
+  it('returns named vectors from get() and keeps them in sync', async () => {
+    const doc = await db.get('sku-2');
+    expect(Object.keys(doc!.namedVectors!).sort()).toEqual(['image', 'text']);
+    expect(Array.from(doc!.namedVectors!.text)).toEqual(Array.from(doc!.vector));
+
+    await db.update('sku-text', { namedVectors: { image: image(100) } });
+    const [top] = await db.search(image(100), { k: 1, using: 'image' });
+    expect(top.id).toBe('sku-text');
+
+    await db.delete('sku-text');
+    const after = await db.search(image(100), { k: 1, using: 'image' });
+    expect(after[0].id).not.toBe('sku-text');
+  });
+
+  it('round-trips named vectors through export and import', async () => {
+    const blob = await db.export();
+    const copy = await createVectorDB<Product>({
+      name: 'catalog-copy',
+      dimensions: { text: 3, image: 4 },
+      storage: 'memory',
+    });
+    await copy.import(blob);
+
+    const [top] = await copy.search(image(9), { k: 1, using: 'image' });
+    expect(top.id).toBe('sku-9');
+
+    await copy.close();
+  });
+});
+
+describe('named vector persistence', () => {
+  it('reloads space indexes on reopen', async () => {
+    const storage = new MemoryStorage();
+    const config = { name: 'persist', dimensions: { text: 3, image: 4 }, storage };
+
+    const first = await createVectorDB(config);
+    await first.add({ id: 'a', namedVectors: { text: text(1), image: image(1) } });
+    await first.add({ id: 'b', namedVectors: { text: text(2), image: image(2) } });
+    await first.close();
+
+    const reopened = await createVectorDB(config);
+    const [top] = await reopened.search(image(2), { k: 1, using: 'image' });
+    expect(top.id).toBe('b');
+  });
+
+  it('rejects named vectors without named dimensions', async () => {
+    const plain = await createVectorDB({ name: 'plain', dimensions: 3, storage: 'memory' });
+    await expect(plain.add({ id: 'x', namedVectors: { text: text(1) } })).rejects.toThrow(
+      ValidationError
+    );
+    await expect(plain.search(text(1), { using: 'image' })).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('reciprocalRankFusion with several rankings', () => {
+  it('sums reciprocal ranks across lists', () => {
+    const fused = reciprocalRankFusion(
+      [
+        [
+          { id: 'a', score: 0.9 },
+          { id: 'b', score: 0.8 },
+        ],
+        [
+          { id: 'b', score: 0.7 },
+          { id: 'c', score: 0.6 },
+        ],
+      ],
+      1
+    );
+    expect(fused.map((r) => r.id)).toEqual(['b', 'a', 'c']);
+    expect(fused[0].score).toBeCloseTo(1 / 3 + 1 / 2);
+  });
+});
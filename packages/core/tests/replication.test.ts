@@ -0,0 +1,269 @@
+/**
+ * @fileoverview Tests for sync between VectorDB replicas.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { MessageChannel } from 'node:worker_threads';
+import {
+  createVectorDB,
+  MemoryStorage,
+  SyncError,
+  createSyncReplica,
+  compareClocks,
+  createMessagePortConnection,
+  createConnectionTransport,
+  createHttpTransport,
+} from '../src/index.js';
+import type { VectorDB, SyncReplica, SyncReplicaOptions, SyncTransport, MessagePortLike } from '../src/index.js';
+import { createMockEmbeddingModel } from '../src/testing/index.js';
+
+/** Create a deterministic pseudo-random vector in [-1, 1] */
+function createTestVector(dimensions: number, seed: number): Float32Array {
+  const vec = new Float32Array(dimensions);
+  let s = seed;
+  for (let i = 0; i < dimensions; i++) {
+    s = (s * 1103515245 + 12345) & 0x7fffffff;
+    vec[i] = (s / 0x7fffffff) * 2 - 1;
+  }
+  return vec;
+}
+
+/** Transport that calls the peer replica directly */
+function directTransport(peer: SyncReplica): SyncTransport {
+  return { request: (request) => peer.handle(request) };
+}
+
+/** IDs and titles of a database's documents, sorted by ID */
+async function contents(db: VectorDB<{ title: string }>): Promise<string[]> {
+  const { documents } = await db.find({ limit: 100 });
+  return documents.map((doc) => `${doc.id}:${doc.metadata?.title}`).sort();
+}
+
+describe('VectorDB sync', () => {
+  const dimensions = 8;
+  const dbs: VectorDB<{ title: string }>[] = [];
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await Promise.all(dbs.splice(0).map((db) => db.close()));
+  });
+
+  async function createReplica(name: string, options?: SyncReplicaOptions) {
+    const db = await createVectorDB<{ title: string }>({ name, dimensions, storage: new MemoryStorage() });
+    dbs.push(db);
+    const replica = await createSyncReplica(db, { replicaId: name, ...options });
+    return { db, replica };
+  }
+
+  function doc(id: string, title: string, seed: number) {
+    return { id, vector: createTestVector(dimensions, seed), metadata: { title } };
+  }
+
+  it('syncs adds, updates and deletes both ways', async () => {
+    const a = await createReplica('a');
+    const b = await createReplica('b');
+    await a.db.addMany([doc('1', 'One', 1), doc('2', 'Two', 2)]);
+    await b.db.add(doc('3', 'Three', 3));
+
+    expect(await a.replica.sync(directTransport(b.replica))).toEqual({
+      pulled: 1,
+      pushed: 2,
+      conflicts: 0,
+      skipped: 0,
+    });
+    expect(await contents(b.db)).toEqual(['1:One', '2:Two', '3:Three']);
+    expect(await contents(a.db)).toEqual(await contents(b.db));
+
+    // Vectors and timestamps are kept
+    expect(await b.db.get('1')).toMatchObject({ vector: createTestVector(dimensions, 1) });
+    const [stored] = await b.db.search(createTestVector(dimensions, 1), { k: 1 });
+    expect(stored.id).toBe('1');
+
+    await b.db.update('1', { metadata: { title: 'Uno' } });
+    await b.db.delete('2');
+    await a.db.add(doc('4', 'Four', 4));
+
+    expect(await a.replica.sync(directTransport(b.replica))).toMatchObject({ pulled: 2, pushed: 1 });
+    expect(await contents(a.db)).toEqual(['1:Uno', '3:Three', '4:Four']);
+    expect(await contents(b.db)).toEqual(['1:Uno', '3:Three', '4:Four']);
+
+    // Nothing is sent again, including the changes applied by sync
+    expect(await a.replica.sync(directTransport(b.replica))).toMatchObject({ pulled: 0, pushed: 0 });
+    expect(await b.replica.sync(directTransport(a.replica))).toMatchObject({ pulled: 0, pushed: 0 });
+  });
+
+  it('pages changes in batches', async () => {
+    const a = await createReplica('a', { batchSize: 2 });
+    const b = await createReplica('b', { batchSize: 2 });
+    await a.db.addMany(Array.from({ length: 5 }, (_, i) => doc(`a${i}`, `A${i}`, i + 1)));
+    await b.db.addMany(Array.from({ length: 3 }, (_, i) => doc(`b${i}`, `B${i}`, i + 10)));
+
+    expect(await a.replica.sync(directTransport(b.replica))).toMatchObject({ pulled: 3, pushed: 5 });
+    expect(await b.db.count()).toBe(8);
+    expect(await a.db.count()).toBe(8);
+  });
+
+  it('syncs documents written before the replica was created', async () => {
+    const db = await createVectorDB<{ title: string }>({ name: 'a', dimensions, storage: new MemoryStorage() });
+    dbs.push(db);
+    await db.add(doc('old', 'Old', 1));
+    const a = await createSyncReplica(db, { replicaId: 'a' });
+    const b = await createReplica('b');
+
+    await b.replica.sync(directTransport(a));
+    expect(await contents(b.db)).toEqual(['old:Old']);
+  });
+
+  it('resolves concurrent edits by the last writer with lww', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const a = await createReplica('a');
+    const b = await createReplica('b');
+    await a.db.addMany([doc('1', 'Original', 1), doc('2', 'Original', 2)]);
+    await a.replica.sync(directTransport(b.replica));
+
+    vi.setSystemTime(Date.now() + 1000);
+    await b.db.update('1', { metadata: { title: 'Edited on B' } });
+    await a.db.delete('2');
+    vi.setSystemTime(Date.now() + 1000);
+    await a.db.update('1', { metadata: { title: 'Edited on A' } });
+    await b.db.update('2', { metadata: { title: 'Edited on B' } });
+
+    expect(await b.replica.sync(directTransport(a.replica))).toMatchObject({ pulled: 1, pushed: 1, conflicts: 0 });
+    expect(await contents(a.db)).toEqual(['1:Edited on A', '2:Edited on B']);
+    expect(await contents(b.db)).toEqual(['1:Edited on A', '2:Edited on B']);
+  });
+
+  it('keeps edits made with knowledge of the other with version vectors', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const onConflict = vi.fn(() => 'remote' as const);
+    const a = await createReplica('a', { conflictResolution: 'version-vector', onConflict });
+    const b = await createReplica('b', { conflictResolution: 'version-vector', onConflict });
+    await a.db.add(doc('1', 'Original', 1));
+    await a.replica.sync(directTransport(b.replica));
+
+    // B edits after seeing A's version, with an older clock time: not a conflict
+    vi.setSystemTime(Date.now() - 60_000);
+    await b.db.update('1', { metadata: { title: 'Edited on B' } });
+    expect(await a.replica.sync(directTransport(b.replica))).toMatchObject({ pulled: 1, conflicts: 0 });
+    expect(await contents(a.db)).toEqual(['1:Edited on B']);
+    expect(onConflict).not.toHaveBeenCalled();
+  });
+
+  it('resolves truly concurrent edits with onConflict', async () => {
+    // B's edit wins, on either side
+    const onConflict: SyncReplicaOptions['onConflict'] = vi.fn(({ remote }) =>
+      remote.replicaId === 'b' ? 'remote' : 'local'
+    );
+    const a = await createReplica('a', { conflictResolution: 'version-vector', onConflict });
+    const b = await createReplica('b', { conflictResolution: 'version-vector', onConflict });
+    await a.db.add(doc('1', 'Original', 1));
+    await a.replica.sync(directTransport(b.replica));
+
+    await a.db.update('1', { metadata: { title: 'Edited on A' } });
+    await b.db.update('1', { metadata: { title: 'Edited on B' } });
+
+    const result = await a.replica.sync(directTransport(b.replica));
+    expect(result.conflicts).toBe(1);
+    expect(onConflict).toHaveBeenCalledWith(
+      expect.objectContaining({ id: '1', local: expect.objectContaining({ replicaId: 'a' }) })
+    );
+    expect(await contents(a.db)).toEqual(['1:Edited on B']);
+    expect(await contents(b.db)).toEqual(['1:Edited on B']);
+
+    // Converged: nothing left to exchange
+    expect(await b.replica.sync(directTransport(a.replica))).toMatchObject({ pulled: 0, pushed: 0, conflicts: 0 });
+  });
+
+  it('compares version vectors', () => {
+    expect(compareClocks({ a: 1 }, { a: 1 })).toBe('equal');
+    expect(compareClocks({ a: 1 }, { a: 2 })).toBe('before');
+    expect(compareClocks({ a: 2, b: 1 }, { a: 2 })).toBe('after');
+    expect(compareClocks({ a: 2 }, { b: 1 })).toBe('concurrent');
+  });
+
+  it('embeds documents sent without vectors on the receiver', async () => {
+    const model = createMockEmbeddingModel({ dimensions });
+    const a = await createReplica('a');
+    const b = await createReplica('b', { model, textField: 'title' });
+    await a.db.addMany([doc('1', 'Hello world', 1), doc('2', '', 2)]);
+
+    const result = await b.replica.sync(directTransport(a.replica));
+    expect(result).toMatchObject({ pulled: 1, skipped: 1 });
+
+    const synced = await b.db.get('1');
+    expect(synced?.metadata).toEqual({ title: 'Hello world' });
+    expect(synced?.vector).not.toEqual(createTestVector(dimensions, 1));
+
+    // The replica without a model still receives vectors
+    await b.db.add(doc('3', 'From B', 3));
+    await b.replica.sync(directTransport(a.replica));
+    expect((await a.db.get('3'))?.vector).toEqual(createTestVector(dimensions, 3));
+  });
+
+  it('rejects peers that resolve conflicts differently', async () => {
+    const a = await createReplica('a');
+    const b = await createReplica('b', { conflictResolution: 'version-vector' });
+    await expect(a.replica.sync(directTransport(b.replica))).rejects.toThrow(SyncError);
+  });
+
+  it('throws the errors a peer returns', async () => {
+    const a = await createReplica('a');
+    const b = await createReplica('b');
+    await b.db.add(doc('1', 'One', 1));
+
+    // A asks for documents without vectors but has no model to embed them
+    const transport: SyncTransport = {
+      request: (request) =>
+        b.replica.handle(request.type === 'hello' ? request : request.type === 'pull' ? { ...request, vectors: false } : request),
+    };
+    await expect(a.replica.sync(transport)).rejects.toThrow(/without vectors/);
+  });
+
+  it('syncs over a message port', async () => {
+    const a = await createReplica('a');
+    const b = await createReplica('b');
+    await a.db.add(doc('1', 'One', 1));
+
+    const { port1, port2 } = new MessageChannel();
+    const stop = b.replica.listen(createMessagePortConnection(port1 as unknown as MessagePortLike));
+    try {
+      const transport = createConnectionTransport(createMessagePortConnection(port2 as unknown as MessagePortLike));
+      expect(await a.replica.sync(transport)).toMatchObject({ pushed: 1 });
+      expect(await contents(b.db)).toEqual(['1:One']);
+    } finally {
+      stop();
+      port1.close();
+      port2.close();
+    }
+  });
+
+  it('times out when nobody answers on a connection', async () => {
+    const a = await createReplica('a');
+    const transport = createConnectionTransport({ send: () => undefined, onMessage: () => () => undefined }, { timeoutMs: 10 });
+    await expect(a.replica.sync(transport)).rejects.toThrow(SyncError);
+  });
+
+  it('syncs over HTTP', async () => {
+    const a = await createReplica('a');
+    const b = await createReplica('b');
+    await a.db.add(doc('1', 'One', 1));
+
+    const fetch = vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+      const response = await b.replica.handle(JSON.parse(init!.body as string));
+      return new Response(JSON.stringify(response), { status: 200 });
+    });
+    const transport = createHttpTransport('http://peer.local/sync', {
+      fetch: fetch as typeof globalThis.fetch,
+      headers: { Authorization: 'Bearer token' },
+    });
+
+    expect(await a.replica.sync(transport)).toMatchObject({ pushed: 1 });
+    expect(await contents(b.db)).toEqual(['1:One']);
+    expect(fetch.mock.calls[0][1]?.headers).toMatchObject({ Authorization: 'Bearer token' });
+
+    const failing = createHttpTransport('http://peer.local/sync', {
+      fetch: (async () => new Response('', { status: 500 })) as typeof globalThis.fetch,
+    });
+    await expect(a.replica.sync(failing)).rejects.toThrow(SyncError);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * @fileoverview Tests for collection snapshots and time-travel reads.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createVectorDB, MemoryStorage, ValidationError } from '../src/index.js';
+import type { VectorDB } from '../src/index.js';
+import { snapshotCollectionId } from '../src/snapshots/stored-versions.js';
+
+/** Create a deterministic pseudo-random vector in [-1, 1] */
+function createTestVector(dimensions: number, seed: number): Float32Array {
+  const vec = new Float32Array(dimensions);
+  let s = seed;
+  for (let i = 0; i < dimensions; i++) {
+    s = (s * 1103515245 + 12345) & 0x7fffffff;
+    vec[i] = (s / 0x7fffffff) * 2 - 1;
+  }
+  return vec;
+}
+
+describe('VectorDB snapshots', () => {
+  const dimensions = 8;
+  let storage: MemoryStorage;
+  let db: VectorDB<{ title: string }>;
+
+  afterEach(async () => {
+    await db?.close();
+  });
+
+  async function open() {
+    db = await createVectorDB<{ title: string }>({ name: 'snapshots', dimensions, storage });
+  }
+
+  async function createSeededDB() {
+    storage = new MemoryStorage();
+    await open();
+    for (let i = 0; i < 10; i++) {
+      await db.add({ id: `doc${i}`, vector: createTestVector(dimensions, i + 1), metadata: { title: `Doc ${i}` } });
+    }
+  }
+
+  /** Number of stored document versions */
+  async function versionCount(): Promise<number> {
+    return (await storage.getAllDocuments(snapshotCollectionId('default'))).length;
+  }
+
+  /** Ingest a "bad batch": one new, one changed and one deleted document */
+  async function writeBadBatch() {
+    await db.add({ id: 'bad', vector: createTestVector(dimensions, 100), metadata: { title: 'Bad' } });
+    await db.update('doc1', { vector: createTestVector(dimensions, 200), metadata: { title: 'Broken' } });
+    await db.delete('doc2');
+  }
+
+  it('takes snapshots without copying documents', async () => {
+    await createSeededDB();
+
+    const info = await db.snapshot('yesterday');
+    expect(info).toMatchObject({ label: 'yesterday', sequence: 1, documentCount: 10 });
+    expect(await db.listSnapshots()).toEqual([info]);
+    expect(await versionCount()).toBe(0);
+
+    // Only the written documents are copied, once each
+    await writeBadBatch();
+    await db.update('doc1', { metadata: { title: 'Broken again' } });
+    expect(await versionCount()).toBe(3);
+  });
+
+  it('reads the collection as it was at a snapshot', async () => {
+    await createSeededDB();
+    await db.snapshot('yesterday');
+    await writeBadBatch();
+
+    const past = db.at('yesterday');
+    expect(await past.count()).toBe(10);
+    expect(await past.get('bad')).toBeNull();
+    expect((await past.get('doc1'))?.metadata).toEqual({ title: 'Doc 1' });
+    expect((await past.get('doc2'))?.metadata).toEqual({ title: 'Doc 2' });
+    expect((await past.search(createTestVector(dimensions, 3), { k: 1 }))[0].id).toBe('doc2');
+    expect((await past.search(createTestVector(dimensions, 2), { k: 1 }))[0].id).toBe('doc1');
+    expect((await past.find({ filter: { title: 'Doc 5' } })).documents.map((d) => d.id)).toEqual(['doc5']);
+    await past.close();
+
+    // The live collection is untouched
+    expect(await db.count()).toBe(10);
+    expect((await db.get('doc1'))?.metadata).toEqual({ title: 'Broken' });
+  });
+
+  it('reads a snapshot without copying the live collection', async () => {
+    await createSeededDB();
+    await db.snapshot('yesterday');
+    await writeBadBatch();
+    const getAllDocuments = vi.spyOn(storage, 'getAllDocuments');
+    const getAllVectors = vi.spyOn(storage, 'getAllVectors');
+
+    const past = db.at('yesterday');
+    expect(await past.count()).toBe(10);
+    expect((await past.search(createTestVector(dimensions, 3), { k: 3 })).map((r) => r.id)).toContain('doc2');
+    expect(getAllVectors).not.toHaveBeenCalled();
+    expect(getAllDocuments.mock.calls.map(([collectionId]) => collectionId)).not.toContain('default');
+
+    // Writes made after the view was opened read as they were at the snapshot
+    await db.update('doc5', { metadata: { title: 'Later' } });
+    expect((await past.get('doc5'))?.metadata).toEqual({ title: 'Doc 5' });
+    expect(await past.count({ filter: { title: 'Doc 5' } })).toBe(1);
+    expect(await past.count({ filter: { title: 'Later' } })).toBe(0);
+    await past.close();
+  });
+
+  it('ranks and pages a snapshot as the collection was ranked and paged', async () => {
+    await createSeededDB();
+    const query = createTestVector(dimensions, 7);
+    const expected = {
+      search: await db.search(query, { k: 4 }),
+      pages: [await db.find({ sort: { title: 'desc' }, limit: 4 })],
+    };
+    expected.pages.push(await db.find({ sort: { title: 'desc' }, limit: 4, cursor: expected.pages[0].nextCursor! }));
+
+    await db.snapshot('yesterday');
+    await writeBadBatch();
+    await db.update('doc8', { metadata: { title: 'Doc 99' } });
+
+    const past = db.at('yesterday');
+    expect(await past.search(query, { k: 4 })).toEqual(expected.search);
+    const first = await past.find({ sort: { title: 'desc' }, limit: 4 });
+    expect(first).toEqual(expected.pages[0]);
+    expect(await past.find({ sort: { title: 'desc' }, limit: 4, cursor: first.nextCursor! })).toEqual(
+      expected.pages[1]
+    );
+    expect((await past.find({ sort: { title: 'desc' }, offset: 8 })).documents.map((d) => d.id)).toEqual([
+      'doc1',
+      'doc0',
+    ]);
+  });
+
+  it('scores keyword search at a snapshot with the corpus as it was', async () => {
+    const keywordDB = await createVectorDB<{ _text: string }>({
+      name: 'snapshot-keywords',
+      dimensions,
+      storage: new MemoryStorage(),
+    });
+    const texts = ['password reset help', 'billing and invoices', 'reset your home router', 'password rules'];
+    for (const [i, text] of texts.entries()) {
+      await keywordDB.add({ id: `t${i}`, vector: createTestVector(dimensions, i + 1), metadata: { _text: text } });
+    }
+    const expected = await keywordDB.searchKeyword('password reset');
+
+    await keywordDB.snapshot('before');
+    await keywordDB.update('t1', { metadata: { _text: 'password password password' } });
+    await keywordDB.delete('t2');
+    await keywordDB.add({ id: 't4', vector: createTestVector(dimensions, 9), metadata: { _text: 'reset reset' } });
+
+    expect(await keywordDB.at('before').searchKeyword('password reset')).toEqual(expected);
+    await keywordDB.close();
+  });
+
+  it('restores a snapshot, keeping later snapshots readable', async () => {
+    await createSeededDB();
+    const createdAt = (await storage.getDocument('doc1'))!.createdAt;
+    await db.snapshot('before');
+    await writeBadBatch();
+    await db.snapshot('after');
+    await db.update('doc3', { metadata: { title: 'Changed later' } });
+
+    await db.restoreSnapshot('before');
+
+    expect(await db.count()).toBe(10);
+    expect(await db.get('bad')).toBeNull();
+    expect((await db.get('doc1'))?.metadata).toEqual({ title: 'Doc 1' });
+    expect((await storage.getDocument('doc1'))!.createdAt).toBe(createdAt);
+    expect((await db.get('doc3'))?.metadata).toEqual({ title: 'Doc 3' });
+    expect((await db.search(createTestVector(dimensions, 2), { k: 1 }))[0].id).toBe('doc1');
+    expect((await db.search(createTestVector(dimensions, 100), { k: 10 })).map((r) => r.id)).not.toContain('bad');
+
+    const after = db.at('after');
+    expect(await after.get('bad')).not.toBeNull();
+    expect(await after.get('doc2')).toBeNull();
+    expect((await after.get('doc3'))?.metadata).toEqual({ title: 'Doc 3' });
+  });
+
+  it('reverts writes that hold the write lock when a restore starts', async () => {
+    // One exclusive lock per name, granted in request order
+    const held = new Map<string, Promise<unknown>>();
+    Object.defineProperty(navigator, 'locks', {
+      configurable: true,
+      value: {
+        request: (name: string, _options: unknown, callback: (lock: unknown) => Promise<unknown>) => {
+          const granted = (held.get(name) ?? Promise.resolve()).then(() => callback({ name }));
+          held.set(name, granted.catch(() => undefined));
+          return granted;
+        },
+      },
+    });
+
+    try {
+      await createSeededDB();
+      await db.snapshot('clean');
+
+      const write = db.add({ id: 'late', vector: createTestVector(dimensions, 300), metadata: { title: 'Late' } });
+      await db.restoreSnapshot('clean');
+      await write;
+
+      expect(await db.get('late')).toBeNull();
+      expect(await db.count()).toBe(10);
+    } finally {
+      delete (navigator as { locks?: unknown }).locks;
+    }
+  });
+
+  it('restores a cleared collection', async () => {
+    await createSeededDB();
+    await db.snapshot('full');
+    await db.clear();
+    expect(await db.count()).toBe(0);
+
+    await db.restoreSnapshot('full');
+    expect(await db.count()).toBe(10);
+    expect((await db.search(createTestVector(dimensions, 6), { k: 1 }))[0].id).toBe('doc5');
+  });
+
+  it('keeps snapshots across sessions', async () => {
+    await createSeededDB();
+    await db.snapshot('saved');
+    await db.close();
+
+    await open();
+    await db.update('doc4', { metadata: { title: 'Edited' } });
+    expect((await db.at('saved').get('doc4'))?.metadata).toEqual({ title: 'Doc 4' });
+  });
+
+  it('deletes snapshots, moving versions that older snapshots still need', async () => {
+    await createSeededDB();
+    await db.snapshot('first');
+    await db.snapshot('second');
+    await db.update('doc0', { metadata: { title: 'Edited' } });
+    expect(await versionCount()).toBe(1);
+
+    // "first" reads doc0 from the version taken for "second"
+    await db.deleteSnapshot('second');
+    expect((await db.listSnapshots()).map((s) => s.label)).toEqual(['first']);
+    expect((await db.at('first').get('doc0'))?.metadata).toEqual({ title: 'Doc 0' });
+
+    // Further writes are preserved for "first" without overwriting its version
+    await db.update('doc0', { metadata: { title: 'Edited twice' } });
+    expect((await db.at('first').get('doc0'))?.metadata).toEqual({ title: 'Doc 0' });
+
+    await db.deleteSnapshot('first');
+    expect(await versionCount()).toBe(0);
+    await db.update('doc0', { metadata: { title: 'Edited three times' } });
+    expect(await versionCount()).toBe(0);
+  });
+
+  it('rejects duplicate and unknown labels', async () => {
+    await createSeededDB();
+    await db.snapshot('once');
+
+    await expect(db.snapshot('once')).rejects.toThrow(ValidationError);
+    await expect(db.restoreSnapshot('missing')).rejects.toThrow(/Snapshot "missing" not found/);
+    await expect(db.at('missing').count()).rejects.toThrow(ValidationError);
+  });
+
+  it('works on named collections', async () => {
+    await createSeededDB();
+    const notes = db.collection('notes');
+    await notes.add({ id: 'n1', vector: createTestVector(dimensions, 1), metadata: { title: 'Note' } });
+    await notes.snapshot('v1');
+    await notes.delete('n1');
+
+    expect((await notes.at('v1').get('n1'))?.metadata).toEqual({ title: 'Note' });
+    expect(await db.listSnapshots()).toEqual([]);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Tests for sparse vectors, searchSparse() and sparse hybrid search
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  createVectorDB,
+  createHybridSearch,
+  createMockSparseEmbeddingModel,
+  embedSparse,
+  embedManySparse,
+  MemoryStorage,
+  SparseIndex,
+  ValidationError,
+} from '../src/index.js';
+import type { SparseVector, VectorDB } from '../src/index.js';
+import { encodeSparseVector, decodeSparseVector } from '../src/sparse/stored-vectors.js';
+
+function sparse(entries: Record<number, number>): SparseVector {
+  const indices = Object.keys(entries).map(Number);
+  return {
+    indices: new Uint32Array(indices),
+    values: new Float32Array(indices.map((i) => entries[i])),
+  };
+}
+
+function dense(i: number): Float32Array {
+  return new Float32Array([Math.cos(i), Math.sin(i), 0.5]);
+}
+
+describe('SparseIndex', () => {
+  it('ranks documents by dot product over shared dimensions', () => {
+    const index = new SparseIndex();
+    index.add('a', sparse({ 1: 1, 5: 2 }));
+    index.add('b', sparse({ 5: 0.5, 9: 3 }));
+    index.add('c', sparse({ 42: 1 }));
+
+    const results = index.search(sparse({ 5: 1, 9: 1 }), 10);
+    expect(results).toEqual([
+      { id: 'b', score: 3.5 },
+      { id: 'a', score: 2 },
+    ]);
+  });
+
+  it('replaces and deletes documents', () => {
+    const index = new SparseIndex();
+    index.add('a', sparse({ 1: 1 }));
+    index.add('a', sparse({ 2: 1 }));
+    expect(index.search(sparse({ 1: 1 }), 10)).toEqual([]);
+
+    expect(index.delete('a')).toBe(true);
+    expect(index.size).toBe(0);
+    expect(index.search(sparse({ 2: 1 }), 10)).toEqual([]);
+  });
+
+  it('restricts results to an allow-list', () => {
+    const index = new SparseIndex();
+    index.add('a', sparse({ 1: 2 }));
+    index.add('b', sparse({ 1: 1 }));
+    expect(index.search(sparse({ 1: 1 }), 10, { filter: new Set(['b']) }).map((r) => r.id)).toEqual(['b']);
+  });
+
+  it('round-trips the storage encoding', () => {
+    const vector = sparse({ 0: 0.25, 30521: 1.5, 16777215: -2 });
+    const decoded = decodeSparseVector(encodeSparseVector(vector));
+    expect(Array.from(decoded.indices)).toEqual(Array.from(vector.indices));
+    expect(Array.from(decoded.values)).toEqual(Array.from(vector.values));
+  });
+});
+
+describe('VectorDB sparse vectors', () => {
+  let db: VectorDB<{ topic: string }>;
+
+  beforeEach(async () => {
+    db = await createVectorDB<{ topic: string }>({ name: 'sparse', dimensions: 3, storage: 'memory' });
+    await db.addMany([
+      { id: 'password', vector: dense(0), sparseVector: sparse({ 10: 1.2, 11: 0.8 }), metadata: { topic: 'account' } },
+      { id: 'billing', vector: dense(1), sparseVector: sparse({ 20: 1.5, 11: 0.1 }), metadata: { topic: 'billing' } },
+      { id: 'login', vector: dense(2), sparseVector: sparse({ 10: 0.4, 30: 1 }), metadata: { topic: 'account' } },
+      { id: 'dense-only', vector: dense(3), metadata: { topic: 'account' } },
+    ]);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('searches sparse vectors with an inverted index', async () => {
+    const results = await db.searchSparse(sparse({ 10: 1, 11: 1 }), { k: 5 });
+    expect(results.map((r) => r.id)).toEqual(['password', 'login', 'billing']);
+    expect(results[0].score).toBeCloseTo(2);
+    expect(results[0].metadata).toEqual({ topic: 'account' });
+  });
+
+  it('applies filters, k and threshold', async () => {
+    const filtered = await db.searchSparse(sparse({ 11: 1 }), { filter: { topic: 'billing' } });
+    expect(filtered.map((r) => r.id)).toEqual(['billing']);
+
+    const top = await db.searchSparse(sparse({ 10: 1, 11: 1 }), { k: 1 });
+    expect(top.map((r) => r.id)).toEqual(['password']);
+
+    const strong = await db.searchSparse(sparse({ 10: 1, 11: 1 }), { threshold: 0.5 });
+    expect(strong.map((r) => r.id)).toEqual(['password']);
+  });
+
+  it('returns, updates and deletes sparse vectors with the document', async () => {
+    const doc = await db.get('billing');
+    expect(Array.from(doc!.sparseVector!.indices)).toEqual([11, 20]);
+
+    await db.update('dense-only', { sparseVector: sparse({ 99: 1 }) });
+    expect((await db.searchSparse(sparse({ 99: 1 })))[0].id).toBe('dense-only');
+
+    await db.delete('password');
+    expect((await db.searchSparse(sparse({ 10: 1 }))).map((r) => r.id)).toEqual(['login']);
+
+    await db.clear();
+    expect(await db.searchSparse(sparse({ 30: 1 }))).toEqual([]);
+  });
+
+  it('rejects malformed sparse vectors', async () => {
+    await expect(
+      db.add({ id: 'bad', vector: dense(0), sparseVector: { indices: new Uint32Array([1]), values: new Float32Array(2) } })
+    ).rejects.toThrow(ValidationError);
+    await expect(db.searchSparse({ indices: [1], values: [1] } as unknown as SparseVector)).rejects.toThrow(
+      ValidationError
+    );
+  });
+
+  it('round-trips sparse vectors through export and import', async () => {
+    const blob = await db.export();
+    const copy = await createVectorDB({ name: 'sparse-copy', dimensions: 3, storage: 'memory' });
+    await copy.import(blob);
+
+    const [top] = await copy.searchSparse(sparse({ 20: 1 }), { k: 1 });
+    expect(top.id).toBe('billing');
+
+    await copy.close();
+  });
+});
+
+describe('sparse vector persistence', () => {
+  it('rebuilds the inverted index on reopen', async () => {
+    const storage = new MemoryStorage();
+    const first = await createVectorDB({ name: 'persist', dimensions: 3, storage });
+    await first.add({ id: 'doc', vector: dense(0), sparseVector: sparse({ 7: 1, 30000: 0.5 }) });
+    await first.close();
+
+    const reopened = await createVectorDB({ name: 'persist', dimensions: 3, storage });
+    const [top] = await reopened.searchSparse(sparse({ 30000: 2 }));
+    expect(top).toMatchObject({ id: 'doc', score: 1 });
+  });
+});
+
+describe('embedSparse()', () => {
+  it('embeds one or many values with a SparseEmbeddingModel', async () => {
+    const model = createMockSparseEmbeddingModel({ failCount: 1 });
+
+    const { embedding } = await embedSparse({ model, value: 'reset my password' });
+    expect(embedding.indices).toBeInstanceOf(Uint32Array);
+    expect(embedding.values).toHaveLength(3);
+    expect(model.callCount).toBe(2);
+
+    const { embeddings } = await embedManySparse({ model, values: ['a b', 'c'] });
+    expect(embeddings.map((e) => e.indices.length)).toEqual([2, 1]);
+  });
+});
+
+describe('HybridSearch with sparse vectors', () => {
+  it('fuses dense and sparse scores without BM25', async () => {
+    const db = await createVectorDB({ name: 'hybrid-sparse', dimensions: 3, storage: 'memory' });
+    const hybrid = createHybridSearch(db);
+    const model = createMockSparseEmbeddingModel();
+
+    const texts = ['reset your password', 'update billing details', 'password manager tips'];
+    const { embeddings } = await embedManySparse({ model, values: texts });
+    await hybrid.addMany(
+      texts.map((text, i) => ({ id: `doc-${i}`, text, vector: dense(i), sparseVector: embeddings[i] }))
+    );
+    expect(hybrid.getBM25Index().size).toBe(0);
+
+    const { embedding: query } = await embedSparse({ model, value: 'password' });
+    const results = await hybrid.search(dense(2), query, { k: 3 });
+
+    expect(results[0].id).toBe('doc-2');
+    expect(results[0].keywordScore).toBeGreaterThan(0);
+    expect(results[0].text).toBe('password manager tips');
+    expect(results.find((r) => r.id === 'doc-1')?.keywordScore).toBeUndefined();
+
+    await db.close();
+  });
+});
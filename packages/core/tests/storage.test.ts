@@ -104,6 +104,19 @@ describe('MemoryStorage', () => {
     });
   });
 
+  describe('getDocumentPage()', () => {
+    it('pages through a collection in ID order', async () => {
+      for (const id of ['c', 'a', 'd', 'b']) {
+        await storage.addDocument({ id, collectionId: 'default', createdAt: 0, updatedAt: 0 });
+      }
+      await storage.addDocument({ id: 'bb', collectionId: 'other', createdAt: 0, updatedAt: 0 });
+
+      expect((await storage.getDocumentPage('default', null, 3)).map((d) => d.id)).toEqual(['a', 'b', 'c']);
+      expect((await storage.getDocumentPage('default', 'b', 3)).map((d) => d.id)).toEqual(['c', 'd']);
+      expect(await storage.getDocumentPage('default', 'd', 3)).toEqual([]);
+    });
+  });
+
   describe('clear()', () => {
     it('removes all data', async () => {
       const doc = { id: 'test', collectionId: 'default', metadata: {}, createdAt: Date.now(), updatedAt: Date.now() };
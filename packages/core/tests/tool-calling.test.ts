@@ -0,0 +1,330 @@
+/**
+ * Tool Calling Tests
+ *
+ * Tests for tools in generateText() and streamText(), and the prompt-based
+ * emulation in withToolCalling().
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateText, streamText, withToolCalling, createToolCallDeltaParser } from '../src/generation/index.js';
+import type {
+  DoGenerateOptions,
+  DoGenerateResult,
+  LanguageModel,
+  LanguageModelTool,
+  StreamChunk,
+  ToolCall,
+  ToolCallDelta,
+} from '../src/generation/index.js';
+
+const weatherTool: LanguageModelTool = {
+  name: 'get_weather',
+  description: 'Get the current weather for a city',
+  parameters: {
+    type: 'object',
+    properties: { city: { type: 'string' } },
+    required: ['city'],
+  },
+};
+
+const usage = { inputTokens: 10, outputTokens: 5, totalTokens: 15, durationMs: 1 };
+
+/**
+ * A model that replies with fixed text (streamed in small pieces) and
+ * records the options of each call.
+ */
+function createTextModel(reply: string) {
+  const calls: DoGenerateOptions[] = [];
+  const model: LanguageModel = {
+    modelId: 'mock:text',
+    provider: 'mock',
+    contextLength: 4096,
+
+    async doGenerate(options): Promise<DoGenerateResult> {
+      calls.push(options);
+      return { text: reply, finishReason: 'stop', usage };
+    },
+
+    async *doStream(options): AsyncIterable<StreamChunk> {
+      calls.push(options);
+      for (let i = 0; i < reply.length; i += 4) {
+        yield { text: reply.slice(i, i + 4), done: false };
+      }
+      yield { text: '', done: true, finishReason: 'stop', usage };
+    },
+  };
+  return { model, calls };
+}
+
+/**
+ * A model with native tool support that returns fixed tool calls.
+ */
+function createNativeModel(toolCalls: ToolCall[]) {
+  const calls: DoGenerateOptions[] = [];
+  const model: LanguageModel = {
+    modelId: 'mock:native',
+    provider: 'mock',
+    contextLength: 4096,
+    supportsTools: true,
+
+    async doGenerate(options): Promise<DoGenerateResult> {
+      calls.push(options);
+      return { text: '', finishReason: 'tool_calls', usage, toolCalls };
+    },
+
+    async *doStream(options): AsyncIterable<StreamChunk> {
+      calls.push(options);
+      yield { text: '', done: true, finishReason: 'tool_calls', usage, toolCalls };
+    },
+  };
+  return { model, calls };
+}
+
+describe('withToolCalling()', () => {
+  it('returns models with native tool support unchanged', () => {
+    const { model } = createNativeModel([]);
+    expect(withToolCalling(model)).toBe(model);
+  });
+
+  it('describes the tools in the system prompt', async () => {
+    const { model, calls } = createTextModel('Hello!');
+
+    await withToolCalling(model).doGenerate({
+      prompt: 'Weather in Paris?',
+      systemPrompt: 'Be brief.',
+      tools: [weatherTool],
+    });
+
+    expect(calls[0].systemPrompt).toMatch(/^Be brief\./);
+    expect(calls[0].systemPrompt).toContain('get_weather: Get the current weather for a city');
+    expect(calls[0].systemPrompt).toContain('"required":["city"]');
+    expect(calls[0].tools).toBeUndefined();
+  });
+
+  it('asks for a tool call when the tool choice requires one', async () => {
+    const { model, calls } = createTextModel('Hello!');
+    const wrapped = withToolCalling(model);
+
+    await wrapped.doGenerate({ prompt: 'Hi', tools: [weatherTool], toolChoice: 'required' });
+    await wrapped.doGenerate({
+      prompt: 'Hi',
+      tools: [weatherTool],
+      toolChoice: { type: 'tool', toolName: 'get_weather' },
+    });
+    await wrapped.doGenerate({ prompt: 'Hi', tools: [weatherTool], toolChoice: 'none' });
+
+    expect(calls[0].systemPrompt).toContain('You must call at least one tool.');
+    expect(calls[1].systemPrompt).toContain('You must call the tool "get_weather".');
+    expect(calls[2].systemPrompt).toBeUndefined();
+  });
+
+  it('parses a JSON tool call reply', async () => {
+    const { model } = createTextModel(
+      '{"tool_calls": [{"name": "get_weather", "arguments": {"city": "Paris"}}]}'
+    );
+
+    const result = await withToolCalling(model).doGenerate({ prompt: 'Hi', tools: [weatherTool] });
+
+    expect(result.text).toBe('');
+    expect(result.finishReason).toBe('tool_calls');
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.toolCalls![0]).toMatchObject({ toolName: 'get_weather', args: { city: 'Paris' } });
+    expect(result.toolCalls![0].toolCallId).toMatch(/^call_/);
+  });
+
+  it('accepts a single call object with string arguments in a code block', async () => {
+    const { model } = createTextModel(
+      '```json\n{"name": "get_weather", "arguments": "{\\"city\\": \\"Oslo\\"}"}\n```'
+    );
+
+    const result = await withToolCalling(model).doGenerate({ prompt: 'Hi', tools: [weatherTool] });
+
+    expect(result.toolCalls).toEqual([
+      expect.objectContaining({ toolName: 'get_weather', args: { city: 'Oslo' } }),
+    ]);
+  });
+
+  it('keeps text replies and JSON that is not a known tool call', async () => {
+    const { model: textModel } = createTextModel('It is sunny.');
+    const { model: jsonModel } = createTextModel('{"name": "unknown_tool", "arguments": {}}');
+
+    const text = await withToolCalling(textModel).doGenerate({ prompt: 'Hi', tools: [weatherTool] });
+    const json = await withToolCalling(jsonModel).doGenerate({ prompt: 'Hi', tools: [weatherTool] });
+
+    expect(text).toMatchObject({ text: 'It is sunny.', finishReason: 'stop' });
+    expect(text.toolCalls).toBeUndefined();
+    expect(json.text).toBe('{"name": "unknown_tool", "arguments": {}}');
+    expect(json.toolCalls).toBeUndefined();
+  });
+
+  it('renders tool calls and results in the conversation as text', async () => {
+    const { model, calls } = createTextModel('It is 18°C in Paris.');
+
+    await withToolCalling(model).doGenerate({
+      prompt: '',
+      tools: [weatherTool],
+      messages: [
+        { role: 'user', content: 'Weather in Paris?' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ toolCallId: 'call_1', toolName: 'get_weather', args: { city: 'Paris' } }],
+        },
+        { role: 'tool', content: '{"tempC":18}', toolCallId: 'call_1', toolName: 'get_weather' },
+      ],
+    });
+
+    const messages = calls[0].messages!;
+    expect(messages[1]).toEqual({
+      role: 'assistant',
+      content: '{"tool_calls":[{"name":"get_weather","arguments":{"city":"Paris"}}]}',
+    });
+    expect(messages[2]).toEqual({ role: 'user', content: 'Tool result (get_weather): {"tempC":18}' });
+  });
+
+  it('streams text replies once they cannot be a tool call', async () => {
+    const { model } = createTextModel('The weather is nice today.');
+
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of withToolCalling(model).doStream!({ prompt: 'Hi', tools: [weatherTool] })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.map((c) => c.text).join('')).toBe('The weather is nice today.');
+    expect(chunks.at(-1)).toMatchObject({ done: true, finishReason: 'stop' });
+  });
+
+  it('streams a tool call as deltas and returns it on the final chunk', async () => {
+    const { model } = createTextModel('{"name": "get_weather", "arguments": {"city": "Rome"}}');
+
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of withToolCalling(model).doStream!({ prompt: 'Hi', tools: [weatherTool] })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map((c) => c.text).join('')).toBe('');
+    const deltas = chunks.flatMap((c) => c.toolCallDeltas ?? []);
+    expect(deltas.length).toBeGreaterThan(2);
+    expect(deltas.map((d) => d.argsTextDelta).join('')).toBe('{"city": "Rome"}');
+
+    const final = chunks.at(-1)!;
+    expect(final).toMatchObject({ text: '', done: true, finishReason: 'tool_calls' });
+    expect(final.toolCalls![0]).toMatchObject({ toolName: 'get_weather', args: { city: 'Rome' } });
+    expect(new Set(deltas.map((d) => d.toolCallId))).toEqual(new Set([final.toolCalls![0].toolCallId]));
+  });
+});
+
+describe('createToolCallDeltaParser()', () => {
+  /** Push a reply one character at a time */
+  function parse(reply: string, toolNames?: string[]): ToolCallDelta[] {
+    const parser = createToolCallDeltaParser(toolNames);
+    return [...reply].flatMap((char) => parser.push(char));
+  }
+
+  /** The arguments text of each call, by tool name */
+  function argsByTool(deltas: ToolCallDelta[]): Record<string, string> {
+    const args: Record<string, string> = {};
+    for (const delta of deltas) args[delta.toolName] = (args[delta.toolName] ?? '') + delta.argsTextDelta;
+    return args;
+  }
+
+  it('starts a call once its name is complete and streams its arguments', () => {
+    const parser = createToolCallDeltaParser();
+    expect(parser.push('{"tool_calls": [{"name": "get_wea')).toEqual([]);
+
+    const [start] = parser.push('ther", "arguments": {"ci');
+    expect(start).toEqual({ toolCallId: parser.toolCallIds[0], toolName: 'get_weather', argsTextDelta: '{"ci' });
+    expect(parser.push('ty": "Ro')).toEqual([{ ...start, argsTextDelta: 'ty": "Ro' }]);
+    expect(parser.push('me"}}]}')).toEqual([{ ...start, argsTextDelta: 'me"}' }]);
+  });
+
+  it('reads several calls, nested values and escaped quotes', () => {
+    const deltas = parse(
+      '[{"name": "a", "arguments": {"q": "say \\"}\\"", "n": [1, {"name": "x"}]}}, {"arguments": {}, "tool": "b"}]'
+    );
+    expect(argsByTool(deltas)).toEqual({ a: '{"q": "say \\"}\\"", "n": [1, {"name": "x"}]}', b: '{}' });
+    expect(new Set(deltas.map((d) => d.toolCallId)).size).toBe(2);
+  });
+
+  it('skips think blocks, code fences and calls to unknown tools', () => {
+    const deltas = parse(
+      '<think>Maybe {"name": "a"}</think>```json\n[{"name": "unknown", "arguments": {}}, {"name": "a", "arguments": {"x": 1}}]\n```',
+      ['a']
+    );
+    expect(argsByTool(deltas)).toEqual({ a: '{"x": 1}' });
+  });
+
+  it('sends arguments given as a JSON string once the string is complete', () => {
+    const deltas = parse('{"name": "a", "arguments": "{\\"x\\": 1}"}');
+    expect(deltas.map((d) => d.argsTextDelta)).toEqual(['', '{"x": 1}']);
+  });
+});
+
+describe('generateText() with tools', () => {
+  it('passes tools to models with native support', async () => {
+    const toolCall: ToolCall = { toolCallId: 'call_1', toolName: 'get_weather', args: { city: 'Paris' } };
+    const { model, calls } = createNativeModel([toolCall]);
+
+    const result = await generateText({
+      model,
+      prompt: 'Weather in Paris?',
+      tools: [weatherTool],
+      toolChoice: 'required',
+    });
+
+    expect(calls[0].tools).toEqual([weatherTool]);
+    expect(calls[0].toolChoice).toBe('required');
+    expect(calls[0].systemPrompt).toBeUndefined();
+    expect(result.toolCalls).toEqual([toolCall]);
+    expect(result.finishReason).toBe('tool_calls');
+  });
+
+  it('emulates tool calling for other models', async () => {
+    const { model } = createTextModel('{"name": "get_weather", "arguments": {"city": "Paris"}}');
+
+    const result = await generateText({ model, prompt: 'Weather in Paris?', tools: [weatherTool] });
+
+    expect(result.text).toBe('');
+    expect(result.finishReason).toBe('tool_calls');
+    expect(result.toolCalls[0]).toMatchObject({ toolName: 'get_weather', args: { city: 'Paris' } });
+  });
+
+  it('returns no tool calls for text replies', async () => {
+    const { model } = createTextModel('Hello!');
+
+    const result = await generateText({ model, prompt: 'Hi', tools: [weatherTool] });
+
+    expect(result.text).toBe('Hello!');
+    expect(result.toolCalls).toEqual([]);
+  });
+});
+
+describe('streamText() with tools', () => {
+  it('resolves toolCalls after the stream', async () => {
+    const toolCall: ToolCall = { toolCallId: 'call_1', toolName: 'get_weather', args: { city: 'Paris' } };
+    const { model, calls } = createNativeModel([toolCall]);
+
+    const result = await streamText({ model, prompt: 'Weather in Paris?', tools: [weatherTool] });
+    for await (const _ of result.stream) {
+      // Consume stream
+    }
+
+    expect(calls[0].tools).toEqual([weatherTool]);
+    await expect(result.toolCalls).resolves.toEqual([toolCall]);
+  });
+
+  it('resolves no tool calls for text replies', async () => {
+    const { model } = createTextModel('Just text.');
+
+    const result = await streamText({ model, prompt: 'Hi', tools: [weatherTool] });
+    for await (const _ of result.stream) {
+      // Consume stream
+    }
+
+    await expect(result.text).resolves.toBe('Just text.');
+    await expect(result.toolCalls).resolves.toEqual([]);
+  });
+});
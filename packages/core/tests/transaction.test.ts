@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Tests for VectorDB transactions.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createVectorDB, MemoryStorage, wrapVectorDB } from '../src/index.js';
+import type { VectorDB } from '../src/index.js';
+import type { LockManager } from '../src/sync/locks.js';
+import type { Broadcaster } from '../src/sync/broadcast.js';
+
+/** Create a deterministic pseudo-random vector in [-1, 1] */
+function createTestVector(dimensions: number, seed: number): Float32Array {
+  const vec = new Float32Array(dimensions);
+  let s = seed;
+  for (let i = 0; i < dimensions; i++) {
+    s = (s * 1103515245 + 12345) & 0x7fffffff;
+    vec[i] = (s / 0x7fffffff) * 2 - 1;
+  }
+  return vec;
+}
+
+describe('VectorDB transactions', () => {
+  const dimensions = 8;
+  let db: VectorDB<{ title: string }>;
+
+  afterEach(async () => {
+    await db?.close();
+  });
+
+  async function createSeededDB(storage = new MemoryStorage()) {
+    db = await createVectorDB<{ title: string }>({ name: 'tx', dimensions, storage });
+    for (let i = 0; i < 5; i++) {
+      await db.add({ id: `doc${i}`, vector: createTestVector(dimensions, i + 1), metadata: { title: `Doc ${i}` } });
+    }
+    return storage;
+  }
+
+  it('commits every write and returns the callback result', async () => {
+    await createSeededDB();
+
+    const result = await db.transaction(async (tx) => {
+      await tx.add({ id: 'new', vector: createTestVector(dimensions, 100), metadata: { title: 'New' } });
+      await tx.update('doc1', { metadata: { title: 'Renamed' } });
+      await tx.delete('doc2');
+      expect((await tx.get('new'))?.metadata).toEqual({ title: 'New' });
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(await db.count()).toBe(5);
+    expect((await db.get('doc1'))?.metadata).toEqual({ title: 'Renamed' });
+    expect(await db.get('doc2')).toBeNull();
+    expect((await db.search(createTestVector(dimensions, 100), { k: 1 }))[0].id).toBe('new');
+  });
+
+  it('rolls back documents, vectors and the index when the callback throws', async () => {
+    const storage = await createSeededDB();
+    const before = await db.get('doc1');
+    const storedBefore = await storage.getDocument('doc1');
+
+    await expect(
+      db.transaction(async (tx) => {
+        await tx.add({ id: 'new', vector: createTestVector(dimensions, 100) });
+        await tx.update('doc1', { vector: createTestVector(dimensions, 200), metadata: { title: 'Changed' } });
+        await tx.delete('doc3');
+        throw new Error('abort');
+      })
+    ).rejects.toThrow('abort');
+
+    expect(await db.get('new')).toBeNull();
+    expect(await db.get('doc1')).toEqual(before);
+    expect(await storage.getDocument('doc1')).toEqual(storedBefore);
+    expect((await db.get('doc3'))?.metadata).toEqual({ title: 'Doc 3' });
+    expect(await db.count()).toBe(5);
+
+    const ids = (await db.search(createTestVector(dimensions, 100), { k: 10 })).map((r) => r.id);
+    expect(ids).not.toContain('new');
+    expect((await db.search(createTestVector(dimensions, 4), { k: 1 }))[0].id).toBe('doc3');
+    expect((await db.search(createTestVector(dimensions, 2), { k: 1 }))[0].id).toBe('doc1');
+
+    // The saved graph matches the rolled back state
+    await db.close();
+    db = await createVectorDB<{ title: string }>({ name: 'tx', dimensions, storage });
+    expect((await db.search(createTestVector(dimensions, 4), { k: 1 }))[0].id).toBe('doc3');
+    expect(await db.count()).toBe(5);
+  });
+
+  it('rolls back when a write fails, even if the callback catches the error', async () => {
+    await createSeededDB();
+
+    await expect(
+      db.transaction(async (tx) => {
+        await tx.delete('doc0');
+        await tx.update('missing', { metadata: { title: 'x' } }).catch(() => undefined);
+      })
+    ).rejects.toThrow('Document not found: missing');
+
+    expect(await db.get('doc0')).not.toBeNull();
+  });
+
+  it('rejects writes after the transaction has finished', async () => {
+    await createSeededDB();
+
+    let escaped!: Parameters<Parameters<VectorDB['transaction']>[0]>[0];
+    await db.transaction(async (tx) => {
+      escaped = tx;
+    });
+
+    await expect(escaped.delete('doc0')).rejects.toThrow(/already finished/);
+    expect(await db.get('doc0')).not.toBeNull();
+  });
+
+  it('takes one write lock and sends one broadcast', async () => {
+    await createSeededDB();
+    const lock = vi.spyOn(db.getLockManager() as LockManager, 'withWriteLock');
+    const broadcaster = db.getBroadcaster() as Broadcaster;
+    const committed = vi.spyOn(broadcaster, 'notifyTransactionCommitted');
+    const added = vi.spyOn(broadcaster, 'notifyDocumentAdded');
+
+    await db.transaction(async (tx) => {
+      await tx.add({ id: 'a', vector: createTestVector(dimensions, 10) });
+      await tx.add({ id: 'b', vector: createTestVector(dimensions, 11) });
+      await tx.delete('doc0');
+    });
+
+    // The change log takes a lock of its own to flush
+    expect(lock.mock.calls.filter(([resource]) => resource === 'default')).toHaveLength(1);
+    expect(committed).toHaveBeenCalledTimes(1);
+    expect(committed).toHaveBeenCalledWith('default', ['a', 'b', 'doc0']);
+    expect(added).not.toHaveBeenCalled();
+
+    // A failed transaction notifies no one
+    await db.transaction(async () => {
+      throw new Error('abort');
+    }).catch(() => undefined);
+    expect(committed).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs middleware hooks, with after-hooks once committed', async () => {
+    await createSeededDB();
+    const afterAdd = vi.fn();
+    const wrapped = wrapVectorDB({
+      db,
+      middleware: {
+        beforeAdd: (doc) => ({ ...doc, metadata: { title: String(doc.metadata?.title).toUpperCase() } }),
+        afterAdd,
+        beforeDelete: (id) => id !== 'doc0',
+      },
+    });
+
+    await wrapped.transaction(async (tx) => {
+      await tx.add({ id: 'new', vector: createTestVector(dimensions, 50), metadata: { title: 'new' } });
+      await tx.delete('doc0');
+      expect(afterAdd).not.toHaveBeenCalled();
+    });
+
+    expect(afterAdd).toHaveBeenCalledTimes(1);
+    expect((await db.get('new'))?.metadata).toEqual({ title: 'NEW' });
+    expect(await db.get('doc0')).not.toBeNull();
+  });
+});
@@ -69,6 +69,16 @@ describe('Typed VectorDB Metadata — Type Safety', () => {
     expect(numFilter.pageCount).toEqual({ $gt: 5 });
   });
 
+  it('TypedFilterQuery supports combinators, ranges and dotted paths', () => {
+    const filter: TypedFilterQuery<ArticleMetadata> = {
+      pageCount: { $gte: 5, $lt: 50 },
+      title: { $startsWith: 'Intro' },
+      $or: [{ category: 'docs' }, { category: { $in: ['api'] } }],
+      'author.name': 'Ada',
+    };
+    expect(filter.$or).toHaveLength(2);
+  });
+
   it('VectorDBConfig accepts generic type parameter', () => {
     const config: VectorDBConfig<ArticleMetadata> = {
       name: 'test',
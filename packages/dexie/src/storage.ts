@@ -13,7 +13,20 @@ import type {
   StoredDocument,
   StoredVector,
   Collection,
+  CollectionRecord,
   SerializedHNSWIndex,
+  MetadataIndexEntry,
+  MetadataIndexQuery,
+  MetadataIndexScanOptions,
+  MetadataIndexScanEntry,
+} from '@localmode/core';
+import {
+  indexEntryKey,
+  toIndexKeyRanges,
+  toIndexScanRanges,
+  toIndexScanEntry,
+  serializeCollection,
+  deserializeCollection,
 } from '@localmode/core';
 import type { DexieStorageOptions } from './types.js';
 
@@ -40,11 +53,10 @@ interface IndexRecord {
   updatedAt: number;
 }
 
-interface CollectionRecord {
+interface MetadataIndexRecord {
+  key: [string, string, [string, number | string], string];
   id: string;
-  name: string;
-  dimensions: number;
-  createdAt: number;
+  collectionId: string;
 }
 
 /**
@@ -55,6 +67,7 @@ class DexieDB extends Dexie {
   vectors!: Table<VectorRecord, string>;
   indexes!: Table<IndexRecord, string>;
   collections!: Table<CollectionRecord, string>;
+  metadataIndex!: Table<MetadataIndexRecord, MetadataIndexRecord['key']>;
 
   constructor(name: string) {
     super(name);
@@ -65,6 +78,11 @@ class DexieDB extends Dexie {
       indexes: 'collectionId',
       collections: 'id, &name',
     });
+
+    // v2: secondary metadata index entries keyed by [collectionId, field, [type, value], id]
+    this.version(2).stores({
+      metadataIndex: 'key, id, collectionId',
+    });
   }
 }
 
@@ -154,6 +172,23 @@ export class DexieStorage implements StorageAdapter {
     }));
   }
 
+  async getDocumentPage(collectionId: string, after: string | null, limit: number): Promise<StoredDocument[]> {
+    const ordered =
+      after === null ? this.db.documents.orderBy(':id') : this.db.documents.where(':id').above(after);
+    const records = await ordered
+      .filter((r) => r.collectionId === collectionId)
+      .limit(limit)
+      .toArray();
+
+    return records.map((r) => ({
+      id: r.id,
+      collectionId: r.collectionId,
+      metadata: r.metadata,
+      createdAt: r.createdAt,
+      updatedAt: r.updatedAt,
+    }));
+  }
+
   async countDocuments(collectionId: string): Promise<number> {
     return this.db.documents
       .where('collectionId')
@@ -233,61 +268,100 @@ export class DexieStorage implements StorageAdapter {
   // ============================================
 
   async createCollection(collection: Collection): Promise<void> {
-    await this.db.collections.put({
-      id: collection.id,
-      name: collection.name,
-      dimensions: collection.dimensions,
-      createdAt: collection.createdAt,
-    });
+    await this.db.collections.put(serializeCollection(collection));
   }
 
   async getCollection(id: string): Promise<Collection | null> {
     const record = await this.db.collections.get(id);
     if (!record) return null;
 
-    return {
-      id: record.id,
-      name: record.name,
-      dimensions: record.dimensions,
-      createdAt: record.createdAt,
-    };
+    return deserializeCollection(record);
   }
 
   async getCollectionByName(name: string): Promise<Collection | null> {
     const record = await this.db.collections.where('name').equals(name).first();
     if (!record) return null;
 
-    return {
-      id: record.id,
-      name: record.name,
-      dimensions: record.dimensions,
-      createdAt: record.createdAt,
-    };
+    return deserializeCollection(record);
   }
 
   async getAllCollections(): Promise<Collection[]> {
     const records = await this.db.collections.toArray();
-    return records.map((r) => ({
-      id: r.id,
-      name: r.name,
-      dimensions: r.dimensions,
-      createdAt: r.createdAt,
-    }));
+    return records.map(deserializeCollection);
   }
 
   async updateCollection(collection: Collection): Promise<void> {
-    await this.db.collections.put({
-      id: collection.id,
-      name: collection.name,
-      dimensions: collection.dimensions,
-      createdAt: collection.createdAt,
-    });
+    await this.db.collections.put(serializeCollection(collection));
   }
 
   async deleteCollection(id: string): Promise<void> {
     await this.db.collections.delete(id);
   }
 
+  // ============================================
+  // Metadata Index Operations
+  // ============================================
+
+  async putIndexEntries(
+    collectionId: string,
+    docId: string,
+    entries: MetadataIndexEntry[],
+  ): Promise<void> {
+    await this.db.transaction('rw', this.db.metadataIndex, async () => {
+      await this.db.metadataIndex.where('id').equals(docId).delete();
+      await this.db.metadataIndex.bulkPut(
+        entries.map((entry) => ({
+          key: indexEntryKey(collectionId, docId, entry) as MetadataIndexRecord['key'],
+          id: docId,
+          collectionId,
+        })),
+      );
+    });
+  }
+
+  async deleteIndexEntries(docId: string): Promise<void> {
+    await this.db.metadataIndex.where('id').equals(docId).delete();
+  }
+
+  async queryIndex(collectionId: string, query: MetadataIndexQuery): Promise<string[]> {
+    const ids = new Set<string>();
+
+    for (const range of toIndexKeyRanges(collectionId, query)) {
+      const keys = await this.db.metadataIndex
+        .where(':id')
+        .between(range.lower, range.upper, !range.lowerOpen, !range.upperOpen)
+        .primaryKeys();
+      for (const key of keys) {
+        ids.add(key[3]);
+      }
+    }
+
+    return [...ids];
+  }
+
+  async scanIndex(
+    collectionId: string,
+    query: MetadataIndexQuery,
+    options: MetadataIndexScanOptions = {}
+  ): Promise<MetadataIndexScanEntry[]> {
+    const entries: MetadataIndexScanEntry[] = [];
+    const limit = options.limit ?? Infinity;
+
+    for (const range of toIndexScanRanges(collectionId, query, options)) {
+      if (entries.length >= limit) break;
+      let collection = this.db.metadataIndex
+        .where(':id')
+        .between(range.lower, range.upper, !range.lowerOpen, !range.upperOpen);
+      if (options.direction === 'desc') collection = collection.reverse();
+      if (limit !== Infinity) collection = collection.limit(limit - entries.length);
+      for (const key of await collection.primaryKeys()) {
+        entries.push(toIndexScanEntry(key));
+      }
+    }
+
+    return entries;
+  }
+
   // ============================================
   // Utility Operations
   // ============================================
@@ -295,12 +369,19 @@ export class DexieStorage implements StorageAdapter {
   async clear(): Promise<void> {
     await this.db.transaction(
       'rw',
-      [this.db.documents, this.db.vectors, this.db.indexes, this.db.collections],
+      [
+        this.db.documents,
+        this.db.vectors,
+        this.db.indexes,
+        this.db.collections,
+        this.db.metadataIndex,
+      ],
       async () => {
         await this.db.documents.clear();
         await this.db.vectors.clear();
         await this.db.indexes.clear();
         await this.db.collections.clear();
+        await this.db.metadataIndex.clear();
       },
     );
   }
@@ -309,10 +390,15 @@ export class DexieStorage implements StorageAdapter {
     const docs = await this.getAllDocuments(collectionId);
     const ids = docs.map((d) => d.id);
 
-    await this.db.transaction('rw', [this.db.documents, this.db.vectors], async () => {
-      await this.db.documents.bulkDelete(ids);
-      await this.db.vectors.bulkDelete(ids);
-    });
+    await this.db.transaction(
+      'rw',
+      [this.db.documents, this.db.vectors, this.db.metadataIndex],
+      async () => {
+        await this.db.documents.bulkDelete(ids);
+        await this.db.vectors.where('collectionId').equals(collectionId).delete();
+        await this.db.metadataIndex.where('collectionId').equals(collectionId).delete();
+      },
+    );
 
     await this.deleteIndex(collectionId);
   }
@@ -247,6 +247,23 @@ describe('DexieStorage', () => {
       await storage.deleteCollection('c1');
       expect(await storage.getCollection('c1')).toBeNull();
     });
+
+    it('keeps the settings VectorDB stores on the collection', async () => {
+      const settings = {
+        ...col,
+        indexedFields: ['category'],
+        binaryQuantization: true,
+        keywordIndex: { field: '_text', tokenizer: 'default' },
+        indexType: 'ivf' as const,
+        ivf: { fingerprint: 'ivf-settings', centroids: [new Float32Array([1, 0]), new Float32Array([0, 1])] },
+        snapshots: [{ label: 'v1', sequence: 1, createdAt: 2, documentCount: 3 }],
+      };
+      await storage.createCollection(settings);
+      expect(await storage.getCollection('c1')).toEqual(settings);
+
+      await storage.updateCollection({ ...settings, indexedFields: ['category', 'year'] });
+      expect(await storage.getCollectionByName('docs')).toEqual({ ...settings, indexedFields: ['category', 'year'] });
+    });
   });
 
   describe('clear()', () => {
@@ -282,6 +299,87 @@ describe('DexieStorage', () => {
     });
   });
 
+  describe('getDocumentPage', () => {
+    it('pages through one collection in ID order', async () => {
+      for (const id of ['c', 'a', 'd', 'b']) {
+        await storage.addDocument({ id, collectionId: 'col1', createdAt: 0, updatedAt: 0 });
+      }
+      await storage.addDocument({ id: 'bb', collectionId: 'col2', createdAt: 0, updatedAt: 0 });
+
+      expect((await storage.getDocumentPage('col1', null, 3)).map((d) => d.id)).toEqual(['a', 'b', 'c']);
+      expect((await storage.getDocumentPage('col1', 'b', 3)).map((d) => d.id)).toEqual(['c', 'd']);
+      expect((await storage.getDocumentPage('col1', 'bb', 1)).map((d) => d.id)).toEqual(['c']);
+      expect(await storage.getDocumentPage('col1', 'd', 3)).toEqual([]);
+    });
+  });
+
+  describe('metadata index', () => {
+    beforeEach(async () => {
+      await storage.putIndexEntries('col1', 'a', [
+        { field: 'category', value: 'tech' },
+        { field: 'year', value: 2020 },
+      ]);
+      await storage.putIndexEntries('col1', 'b', [
+        { field: 'category', value: 'news' },
+        { field: 'year', value: 2022 },
+      ]);
+      await storage.putIndexEntries('col2', 'c', [{ field: 'category', value: 'tech' }]);
+    });
+
+    it('queries equality within a collection', async () => {
+      expect(await storage.queryIndex('col1', { field: 'category', values: ['tech'] })).toEqual(['a']);
+      expect(
+        (await storage.queryIndex('col1', { field: 'category', values: ['tech', 'news'] })).sort()
+      ).toEqual(['a', 'b']);
+    });
+
+    it('queries ranges with open and closed bounds', async () => {
+      expect(
+        (await storage.queryIndex('col1', { field: 'year', range: { lower: 2020 } })).sort()
+      ).toEqual(['a', 'b']);
+      expect(
+        await storage.queryIndex('col1', { field: 'year', range: { lower: 2020, lowerOpen: true } })
+      ).toEqual(['b']);
+      expect(
+        await storage.queryIndex('col1', { field: 'year', range: { upper: 2022, upperOpen: true } })
+      ).toEqual(['a']);
+    });
+
+    it('scans entries in value order, in either direction, after a position', async () => {
+      await storage.putIndexEntries('col1', 'c', [{ field: 'year', value: 2020 }]);
+      const year = { field: 'year', range: { lower: -Infinity } };
+
+      expect(await storage.scanIndex('col1', year)).toEqual([
+        { id: 'a', value: 2020 },
+        { id: 'c', value: 2020 },
+        { id: 'b', value: 2022 },
+      ]);
+      expect((await storage.scanIndex('col1', year, { direction: 'desc' })).map((e) => e.id)).toEqual([
+        'b',
+        'c',
+        'a',
+      ]);
+      expect(
+        (await storage.scanIndex('col1', year, { after: { value: 2020, id: 'a' }, limit: 1 })).map((e) => e.id)
+      ).toEqual(['c']);
+      expect((await storage.scanIndex('col1', year, { after: { value: 2020 } })).map((e) => e.id)).toEqual(['b']);
+    });
+
+    it('replaces and deletes entries for a document', async () => {
+      await storage.putIndexEntries('col1', 'a', [{ field: 'category', value: 'news' }]);
+      expect(await storage.queryIndex('col1', { field: 'category', values: ['tech'] })).toEqual([]);
+
+      await storage.deleteIndexEntries('b');
+      expect(await storage.queryIndex('col1', { field: 'category', values: ['news'] })).toEqual(['a']);
+    });
+
+    it('is cleared with its collection', async () => {
+      await storage.clearCollection('col1');
+      expect(await storage.queryIndex('col1', { field: 'category', values: ['news'] })).toEqual([]);
+      expect(await storage.queryIndex('col2', { field: 'category', values: ['tech'] })).toEqual(['c']);
+    });
+  });
+
   describe('estimateSize()', () => {
     it('returns a number', async () => {
       const size = await storage.estimateSize();
@@ -312,5 +410,93 @@ describe('DexieStorage', () => {
 
       await db.close();
     });
+
+    it('answers filtered counts from secondary indexes', async () => {
+      const { createVectorDB } = await import('@localmode/core');
+      const customStorage = new DexieStorage({ name: `indexed-${Date.now()}` });
+
+      const db = await createVectorDB({
+        name: 'indexed-test',
+        dimensions: 3,
+        storage: customStorage,
+        indexes: ['category'],
+      });
+
+      await db.addMany([
+        { id: 'a', vector: new Float32Array([1, 0, 0]), metadata: { category: 'tech' } },
+        { id: 'b', vector: new Float32Array([0, 1, 0]), metadata: { category: 'news' } },
+      ]);
+
+      expect(await db.count({ filter: { category: 'tech' } })).toBe(1);
+      expect(await db.deleteWhere({ category: { $in: ['news'] } })).toBe(1);
+      expect(await db.count()).toBe(1);
+
+      const collection = await customStorage.getCollectionByName('default');
+      expect(collection?.indexedFields).toEqual(['category']);
+
+      await db.close();
+    });
+
+    it('pages through find() results with a cursor', async () => {
+      const { createVectorDB } = await import('@localmode/core');
+      const customStorage = new DexieStorage({ name: `find-${Date.now()}` });
+
+      const db = await createVectorDB({
+        name: 'find-test',
+        dimensions: 3,
+        storage: customStorage,
+      });
+
+      await db.addMany(
+        [3, 1, 4, 2].map((rank) => ({
+          id: `doc${rank}`,
+          vector: new Float32Array([rank, 0, 0]),
+          metadata: { rank, kind: rank % 2 === 0 ? 'even' : 'odd' },
+        })),
+      );
+
+      const first = await db.find({ sort: { rank: 'desc' }, limit: 2 });
+      expect(first.documents.map((d) => d.id)).toEqual(['doc4', 'doc3']);
+
+      const second = await db.find({ sort: { rank: 'desc' }, limit: 2, cursor: first.nextCursor! });
+      expect(second.documents.map((d) => d.id)).toEqual(['doc2', 'doc1']);
+      expect(second.nextCursor).toBeNull();
+
+      expect(await db.count({ filter: { kind: 'even' } })).toBe(2);
+
+      await db.close();
+    });
+
+    it('persists and clears multi-vector documents', async () => {
+      const { createVectorDB } = await import('@localmode/core');
+      const customStorage = new DexieStorage({ name: `multi-vector-${Date.now()}` });
+
+      const db = await createVectorDB({
+        name: 'multi-vector-test',
+        dimensions: 3,
+        storage: customStorage,
+      });
+
+      await db.add({
+        id: 'doc1',
+        vectors: [new Float32Array([1, 0, 0]), new Float32Array([0, 1, 0])],
+      });
+      await db.close();
+
+      const reopened = await createVectorDB({
+        name: 'multi-vector-test',
+        dimensions: 3,
+        storage: customStorage,
+      });
+
+      const [top] = await reopened.searchMultiVector(new Float32Array([0, 1, 0]), { k: 1 });
+      expect(top).toMatchObject({ id: 'doc1', matchedVector: 1 });
+
+      await reopened.clear();
+      expect(await reopened.searchMultiVector(new Float32Array([0, 1, 0]))).toEqual([]);
+      expect((await customStorage.getAllVectors('default\u001fmulti-vector')).size).toBe(0);
+
+      await reopened.close();
+    });
   });
 });
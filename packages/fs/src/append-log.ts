@@ -0,0 +1,147 @@
+/**
+ * Append Log
+ *
+ * Base of the append-only files of the storage adapter. Every write appends
+ * to the file, and the latest entry of a key wins. Once superseded entries
+ * outweigh live ones, the file is rewritten with the live entries only,
+ * through a temporary file that replaces it in one rename.
+ *
+ * @packageDocumentation
+ */
+
+import { open, readFile, stat, truncate, type FileHandle } from 'node:fs/promises';
+import { isNotFound, removePath, replaceFile } from './files.js';
+
+/** Default amount of superseded bytes below which a file is not compacted. */
+const DEFAULT_MIN_COMPACT_BYTES = 1024 * 1024;
+
+/**
+ * An append-only file of keyed entries.
+ */
+export abstract class AppendLog {
+  /** Size of the file in bytes. */
+  size = 0;
+  /** Length in bytes of the live entry of each key. */
+  private lengths = new Map<string, number>();
+  /** Bytes of the live entries. */
+  private liveBytes = 0;
+  private handle: FileHandle | null = null;
+
+  constructor(
+    readonly path: string,
+    private minCompactBytes = DEFAULT_MIN_COMPACT_BYTES
+  ) {}
+
+  /** Number of live entries. */
+  get count(): number {
+    return this.lengths.size;
+  }
+
+  /**
+   * Read the size of the file from disk.
+   */
+  protected async stat(): Promise<void> {
+    try {
+      this.size = (await stat(this.path)).size;
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+      this.size = 0;
+    }
+  }
+
+  /**
+   * Read the whole file (empty if it does not exist).
+   */
+  protected async readAll(): Promise<Buffer> {
+    try {
+      return await readFile(this.path);
+    } catch (error) {
+      if (isNotFound(error)) return Buffer.alloc(0);
+      throw error;
+    }
+  }
+
+  /**
+   * Read `length` bytes starting at `offset`.
+   */
+  protected async readAt(offset: number, length: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await (await this.file()).read(buffer, 0, length, offset);
+    return bytesRead === length ? buffer : buffer.subarray(0, bytesRead);
+  }
+
+  /**
+   * Append bytes to the file.
+   */
+  protected async append(data: Uint8Array): Promise<void> {
+    await (await this.file()).write(data);
+    this.size += data.byteLength;
+  }
+
+  /**
+   * Drop what follows the last complete entry, e.g. an entry cut short by a crash.
+   */
+  protected async cut(length: number): Promise<void> {
+    if (length >= this.size) return;
+    await this.close();
+    await truncate(this.path, length);
+    this.size = length;
+  }
+
+  /**
+   * Replace the contents of the file with the live entries.
+   */
+  protected async rewrite(data: Uint8Array): Promise<void> {
+    await this.close();
+    await replaceFile(this.path, data);
+    this.size = data.byteLength;
+  }
+
+  /** Record the length of the live entry of a key. */
+  protected track(key: string, length: number): void {
+    this.forget(key);
+    this.lengths.set(key, length);
+    this.liveBytes += length;
+  }
+
+  /** Drop the live entry of a key from the accounting. */
+  protected forget(key: string): void {
+    const previous = this.lengths.get(key);
+    if (previous !== undefined) {
+      this.liveBytes -= previous;
+      this.lengths.delete(key);
+    }
+  }
+
+  /** Forget every entry. */
+  protected reset(): void {
+    this.lengths.clear();
+    this.liveBytes = 0;
+  }
+
+  /** Whether superseded entries outweigh live ones. */
+  protected get needsCompaction(): boolean {
+    const superseded = this.size - this.liveBytes;
+    return superseded > this.minCompactBytes && superseded > this.liveBytes;
+  }
+
+  /** Release the file. */
+  async close(): Promise<void> {
+    const handle = this.handle;
+    this.handle = null;
+    await handle?.close();
+  }
+
+  /** Release and remove the file. */
+  async destroy(): Promise<void> {
+    await this.close();
+    await removePath(this.path);
+    this.size = 0;
+    this.reset();
+  }
+
+  private async file(): Promise<FileHandle> {
+    this.handle ??= await open(this.path, 'a+');
+    return this.handle;
+  }
+}
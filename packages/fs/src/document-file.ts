@@ -0,0 +1,114 @@
+/**
+ * Document File
+ *
+ * Append-only JSONL file of the documents of one collection. Each write
+ * appends one line: the document record, or `{"id":…,"deleted":true}` to
+ * delete it.
+ *
+ * @packageDocumentation
+ */
+
+import type { StoredDocument } from '@localmode/core';
+import { AppendLog } from './append-log.js';
+
+/**
+ * A line of the file.
+ */
+type DocumentLine = StoredDocument | { id: string; deleted: true };
+
+/**
+ * Encode a line of the file.
+ */
+function encodeLine(line: DocumentLine): Buffer {
+  return Buffer.from(`${JSON.stringify(line)}\n`, 'utf8');
+}
+
+/**
+ * The `documents.jsonl` file of a collection, with its documents held in
+ * memory.
+ *
+ * @example
+ * ```typescript
+ * const file = await DocumentFile.open('/data/my-app/docs/documents.jsonl');
+ * await file.put({ id: 'doc-1', collectionId: 'docs', createdAt: 1, updatedAt: 1 });
+ * file.get('doc-1');
+ * ```
+ */
+export class DocumentFile extends AppendLog {
+  private documents = new Map<string, StoredDocument>();
+
+  /**
+   * Open the document file at a path and read its documents.
+   */
+  static async open(path: string, minCompactBytes?: number): Promise<DocumentFile> {
+    const file = new DocumentFile(path, minCompactBytes);
+    await file.load();
+    return file;
+  }
+
+  /** Get a document, or `undefined` if there is none with this ID. */
+  get(id: string): StoredDocument | undefined {
+    return this.documents.get(id);
+  }
+
+  /** The stored documents. */
+  values(): IterableIterator<StoredDocument> {
+    return this.documents.values();
+  }
+
+  /** Add or replace a document. */
+  async put(doc: StoredDocument): Promise<void> {
+    const line = encodeLine(doc);
+    await this.append(line);
+    this.documents.set(doc.id, doc);
+    this.track(doc.id, line.byteLength);
+    await this.compactIfNeeded();
+  }
+
+  /** Delete a document. */
+  async delete(id: string): Promise<void> {
+    if (!this.documents.has(id)) return;
+    await this.append(encodeLine({ id, deleted: true }));
+    this.documents.delete(id);
+    this.forget(id);
+    await this.compactIfNeeded();
+  }
+
+  /**
+   * Read the file, dropping a line cut short by a crash.
+   */
+  private async load(): Promise<void> {
+    const buffer = await this.readAll();
+    this.size = buffer.byteLength;
+
+    let offset = 0;
+    while (offset < buffer.byteLength) {
+      const end = buffer.indexOf(0x0a, offset);
+      if (end === -1) break;
+
+      let line: DocumentLine;
+      try {
+        line = JSON.parse(buffer.toString('utf8', offset, end)) as DocumentLine;
+      } catch {
+        break;
+      }
+      if ('deleted' in line) {
+        this.documents.delete(line.id);
+        this.forget(line.id);
+      } else {
+        this.documents.set(line.id, line);
+        this.track(line.id, end + 1 - offset);
+      }
+      offset = end + 1;
+    }
+    await this.cut(offset);
+  }
+
+  /**
+   * Rewrite the file with the live documents once superseded lines outweigh them.
+   */
+  private async compactIfNeeded(): Promise<void> {
+    if (!this.needsCompaction) return;
+    await this.rewrite(Buffer.concat([...this.documents.values()].map(encodeLine)));
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * File Helpers
+ *
+ * Small wrappers around `node:fs/promises` for the storage adapter.
+ *
+ * @packageDocumentation
+ */
+
+import { readFile, writeFile, rename, rm, stat, readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+
+/**
+ * Whether an error reports a missing file or directory.
+ */
+export function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Replace the contents of a file by writing a temporary file next to it and
+ * renaming it, so readers see either the old or the new contents.
+ */
+export async function replaceFile(path: string, data: Uint8Array | string): Promise<void> {
+  const temporary = `${path}.tmp`;
+  await writeFile(temporary, data);
+  await rename(temporary, path);
+}
+
+/**
+ * Read a JSON file, returning `null` if it does not exist.
+ */
+export async function readJSON<T>(path: string): Promise<T | null> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+  return text ? (JSON.parse(text) as T) : null;
+}
+
+/**
+ * Replace the contents of a JSON file.
+ */
+export async function writeJSON(path: string, value: unknown): Promise<void> {
+  await replaceFile(path, JSON.stringify(value));
+}
+
+/**
+ * Remove a file or directory, doing nothing if it does not exist.
+ */
+export async function removePath(path: string): Promise<void> {
+  await rm(path, { recursive: true, force: true });
+}
+
+/**
+ * Get the total size in bytes of the files in a directory (0 if it does not exist).
+ */
+export async function directorySize(path: string): Promise<number> {
+  let names: string[];
+  try {
+    names = await readdir(path);
+  } catch (error) {
+    if (isNotFound(error)) return 0;
+    throw error;
+  }
+  let size = 0;
+  for (const name of names) {
+    size += (await stat(join(path, name))).size;
+  }
+  return size;
+}
+
+/**
+ * Turn an ID into a string that is safe to use in a file name.
+ */
+export function encodeFileName(id: string): string {
+  return encodeURIComponent(id).replace(/\./g, '%2E');
+}
+
+/**
+ * Reverse {@link encodeFileName}.
+ */
+export function decodeFileName(name: string): string {
+  return decodeURIComponent(name);
+}
@@ -0,0 +1,29 @@
+/**
+ * @localmode/fs
+ *
+ * Node.js filesystem storage for @localmode — a VectorDB storage adapter
+ * that keeps each collection in a directory of JSONL documents, a binary
+ * vector file and the serialized index, for servers, jobs and CLI tools.
+ *
+ * @packageDocumentation
+ *
+ * @example
+ * ```typescript
+ * import { writeFile } from 'node:fs/promises';
+ * import { FSStorage } from '@localmode/fs';
+ * import { createVectorDB } from '@localmode/core';
+ *
+ * const db = await createVectorDB({
+ *   name: 'my-app',
+ *   dimensions: 384,
+ *   storage: new FSStorage({ path: './data/my-app' }),
+ * });
+ *
+ * // Ship the collection to browsers, which load it with db.import()
+ * const blob = await db.export();
+ * await writeFile('./public/my-app.json', Buffer.from(await blob.arrayBuffer()));
+ * ```
+ */
+
+export { FSStorage } from './storage.js';
+export type { FSStorageOptions } from './types.js';
@@ -0,0 +1,428 @@
+/**
+ * Filesystem Storage Implementation
+ *
+ * Storage adapter that keeps VectorDB data in a directory on disk, for
+ * Node.js servers, jobs and CLI tools. Implements the {@link StorageAdapter}
+ * interface from `@localmode/core`.
+ *
+ * Files in the database directory:
+ * - `collections.json` — collection records
+ * - `<collection>/documents.jsonl` — documents of one collection, one JSON record per line
+ * - `<collection>/vectors.bin` — float32 vectors of one collection, back to back
+ * - `<collection>/index.json` — serialized HNSW index of one collection
+ *
+ * @packageDocumentation
+ */
+
+import { mkdir, readdir, stat } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import type {
+  StorageAdapter,
+  StoredDocument,
+  StoredVector,
+  Collection,
+  CollectionRecord,
+  SerializedHNSWIndex,
+} from '@localmode/core';
+import { serializeCollection, deserializeCollection } from '@localmode/core';
+import { readJSON, writeJSON, removePath, directorySize, encodeFileName, decodeFileName, isNotFound } from './files.js';
+import { DocumentFile } from './document-file.js';
+import { VectorFile } from './vector-file.js';
+import type { FSStorageOptions } from './types.js';
+
+const COLLECTIONS_FILE = 'collections.json';
+const DOCUMENTS_FILE = 'documents.jsonl';
+const VECTORS_FILE = 'vectors.bin';
+const INDEX_FILE = 'index.json';
+
+/**
+ * The open files of one collection directory.
+ */
+interface CollectionFiles {
+  directory: string;
+  documents: DocumentFile;
+  vectors: VectorFile;
+}
+
+/**
+ * Filesystem storage adapter for VectorDB in Node.js.
+ *
+ * Each collection gets a directory with its documents as JSONL, its vectors
+ * as one binary file and its serialized index. Writes are appended to the
+ * files, which are rewritten once replaced records outweigh live ones.
+ * Documents are held in memory; a collection's vectors are read with one
+ * sequential read when the collection is first used.
+ *
+ * One `FSStorage` at a time should use a directory.
+ *
+ * @example
+ * ```typescript
+ * import { FSStorage } from '@localmode/fs';
+ * import { createVectorDB } from '@localmode/core';
+ *
+ * const db = await createVectorDB({
+ *   name: 'my-app',
+ *   dimensions: 384,
+ *   storage: new FSStorage({ path: './data/my-app' }),
+ * });
+ * ```
+ */
+export class FSStorage implements StorageAdapter {
+  private root: string | null = null;
+  /** Open files by collection ID */
+  private files = new Map<string, CollectionFiles>();
+  private collections = new Map<string, Collection>();
+  /** Collection ID of each document */
+  private documentCollections = new Map<string, string>();
+  /** Collection ID of each vector in the loaded vector files */
+  private vectorCollections = new Map<string, string>();
+  /** Runs operations one at a time */
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly options: FSStorageOptions;
+
+  constructor(options: FSStorageOptions) {
+    this.options = options;
+  }
+
+  // ============================================
+  // Lifecycle
+  // ============================================
+
+  async open(): Promise<void> {
+    if (this.root) return;
+
+    const root = resolve(this.options.path);
+    await mkdir(root, { recursive: true });
+
+    for (const entry of await readdir(root, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      const files = await this.openCollectionFiles(root, decodeFileName(entry.name));
+      for (const doc of files.documents.values()) {
+        this.documentCollections.set(doc.id, doc.collectionId);
+      }
+    }
+
+    const collections = (await readJSON<CollectionRecord[]>(join(root, COLLECTIONS_FILE))) ?? [];
+    for (const record of collections) {
+      this.collections.set(record.id, deserializeCollection(record));
+    }
+
+    this.root = root;
+  }
+
+  async close(): Promise<void> {
+    if (!this.root) return;
+
+    await this.exclusive(async () => {
+      for (const files of this.files.values()) {
+        await files.documents.close();
+        await files.vectors.close();
+      }
+    });
+    this.root = null;
+    this.files.clear();
+    this.collections.clear();
+    this.documentCollections.clear();
+    this.vectorCollections.clear();
+  }
+
+  /**
+   * Ensure the storage is open, throwing if not.
+   */
+  private ensureOpen(): string {
+    if (!this.root) {
+      throw new Error('Database not open. Call open() first.');
+    }
+    return this.root;
+  }
+
+  // ============================================
+  // Document Operations
+  // ============================================
+
+  async addDocument(doc: StoredDocument): Promise<void> {
+    this.ensureOpen();
+    const record: StoredDocument = {
+      id: doc.id,
+      collectionId: doc.collectionId,
+      metadata: doc.metadata,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    };
+    await this.exclusive(async () => {
+      // Document IDs are unique across collections
+      const previous = this.documentCollections.get(doc.id);
+      if (previous !== undefined && previous !== doc.collectionId) {
+        await this.files.get(previous)?.documents.delete(doc.id);
+      }
+
+      const files = await this.collectionFiles(doc.collectionId);
+      await files.documents.put(record);
+      this.documentCollections.set(doc.id, doc.collectionId);
+    });
+  }
+
+  async getDocument(id: string): Promise<StoredDocument | null> {
+    this.ensureOpen();
+    const collectionId = this.documentCollections.get(id);
+    const doc = collectionId === undefined ? undefined : this.files.get(collectionId)?.documents.get(id);
+    return doc ? { ...doc } : null;
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    this.ensureOpen();
+    await this.exclusive(async () => {
+      const collectionId = this.documentCollections.get(id);
+      if (collectionId === undefined) return;
+      await this.files.get(collectionId)?.documents.delete(id);
+      this.documentCollections.delete(id);
+    });
+  }
+
+  async getAllDocuments(collectionId: string): Promise<StoredDocument[]> {
+    this.ensureOpen();
+    const files = this.files.get(collectionId);
+    return files ? [...files.documents.values()].map((doc) => ({ ...doc })) : [];
+  }
+
+  async countDocuments(collectionId: string): Promise<number> {
+    this.ensureOpen();
+    return this.files.get(collectionId)?.documents.count ?? 0;
+  }
+
+  // ============================================
+  // Vector Operations
+  // ============================================
+
+  async addVector(vec: StoredVector): Promise<void> {
+    this.ensureOpen();
+    const vector = vec.vector instanceof Float32Array ? vec.vector : Float32Array.from(vec.vector);
+
+    await this.exclusive(async () => {
+      // Vector IDs are unique across collections
+      await this.loadVectorFiles();
+      const previous = this.vectorCollections.get(vec.id);
+      if (previous !== undefined && previous !== vec.collectionId) {
+        await this.files.get(previous)?.vectors.delete(vec.id);
+      }
+
+      const files = await this.collectionFiles(vec.collectionId);
+      await files.vectors.put(vec.id, vector);
+      this.vectorCollections.set(vec.id, vec.collectionId);
+    });
+  }
+
+  async getVector(id: string): Promise<Float32Array | null> {
+    this.ensureOpen();
+    return this.exclusive(async () => {
+      const file = await this.findVectorFile(id);
+      return file ? file.get(id) : null;
+    });
+  }
+
+  async deleteVector(id: string): Promise<void> {
+    this.ensureOpen();
+    await this.exclusive(async () => {
+      const file = await this.findVectorFile(id);
+      if (!file) return;
+      await file.delete(id);
+      this.vectorCollections.delete(id);
+    });
+  }
+
+  async getAllVectors(collectionId: string): Promise<Map<string, Float32Array>> {
+    this.ensureOpen();
+    return this.exclusive(async () => {
+      const files = this.files.get(collectionId);
+      if (!files) return new Map<string, Float32Array>();
+
+      // One read of the whole file; the vectors are views into it
+      const vectors = await files.vectors.load();
+      for (const id of vectors.keys()) {
+        this.vectorCollections.set(id, collectionId);
+      }
+      return vectors;
+    });
+  }
+
+  // ============================================
+  // Index Operations
+  // ============================================
+
+  async saveIndex(collectionId: string, index: SerializedHNSWIndex): Promise<void> {
+    this.ensureOpen();
+    await this.exclusive(async () => {
+      const files = await this.collectionFiles(collectionId);
+      await writeJSON(join(files.directory, INDEX_FILE), index);
+    });
+  }
+
+  async loadIndex(collectionId: string): Promise<SerializedHNSWIndex | null> {
+    const root = this.ensureOpen();
+    try {
+      return await readJSON<SerializedHNSWIndex>(join(root, encodeFileName(collectionId), INDEX_FILE));
+    } catch {
+      return null;
+    }
+  }
+
+  async deleteIndex(collectionId: string): Promise<void> {
+    const root = this.ensureOpen();
+    await this.exclusive(() => removePath(join(root, encodeFileName(collectionId), INDEX_FILE)));
+  }
+
+  // ============================================
+  // Collection Operations
+  // ============================================
+
+  async createCollection(collection: Collection): Promise<void> {
+    this.ensureOpen();
+    this.collections.set(collection.id, structuredClone(collection));
+    await this.exclusive(() => this.saveCollections());
+  }
+
+  async getCollection(id: string): Promise<Collection | null> {
+    this.ensureOpen();
+    const collection = this.collections.get(id);
+    return collection ? structuredClone(collection) : null;
+  }
+
+  async getCollectionByName(name: string): Promise<Collection | null> {
+    this.ensureOpen();
+    for (const collection of this.collections.values()) {
+      if (collection.name === name) return structuredClone(collection);
+    }
+    return null;
+  }
+
+  async getAllCollections(): Promise<Collection[]> {
+    this.ensureOpen();
+    return [...this.collections.values()].map((collection) => structuredClone(collection));
+  }
+
+  async updateCollection(collection: Collection): Promise<void> {
+    await this.createCollection(collection);
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    this.ensureOpen();
+    this.collections.delete(id);
+    await this.exclusive(() => this.saveCollections());
+  }
+
+  // ============================================
+  // Utility Operations
+  // ============================================
+
+  async clear(): Promise<void> {
+    const root = this.ensureOpen();
+    await this.exclusive(async () => {
+      for (const collectionId of [...this.files.keys()]) {
+        await this.removeCollectionFiles(collectionId);
+      }
+      this.collections.clear();
+      await removePath(join(root, COLLECTIONS_FILE));
+    });
+  }
+
+  async clearCollection(collectionId: string): Promise<void> {
+    this.ensureOpen();
+    await this.exclusive(() => this.removeCollectionFiles(collectionId));
+  }
+
+  async estimateSize(): Promise<number> {
+    const root = this.ensureOpen();
+    let size = 0;
+    for (const files of this.files.values()) {
+      size += await directorySize(files.directory);
+    }
+    try {
+      size += (await stat(join(root, COLLECTIONS_FILE))).size;
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+    return size;
+  }
+
+  // ============================================
+  // Private Helpers
+  // ============================================
+
+  /**
+   * Get the files of a collection, creating its directory if needed.
+   */
+  private async collectionFiles(collectionId: string): Promise<CollectionFiles> {
+    const files = this.files.get(collectionId);
+    if (files) return files;
+
+    const root = this.ensureOpen();
+    await mkdir(join(root, encodeFileName(collectionId)), { recursive: true });
+    return this.openCollectionFiles(root, collectionId);
+  }
+
+  /**
+   * Open the files in the directory of a collection.
+   */
+  private async openCollectionFiles(root: string, collectionId: string): Promise<CollectionFiles> {
+    const directory = join(root, encodeFileName(collectionId));
+    const files: CollectionFiles = {
+      directory,
+      documents: await DocumentFile.open(join(directory, DOCUMENTS_FILE)),
+      // Vectors are read when the collection is first used
+      vectors: await VectorFile.open(join(directory, VECTORS_FILE)),
+    };
+    this.files.set(collectionId, files);
+    return files;
+  }
+
+  /**
+   * Remove the directory of a collection and forget its records.
+   */
+  private async removeCollectionFiles(collectionId: string): Promise<void> {
+    const files = this.files.get(collectionId);
+    if (!files) return;
+
+    await files.documents.destroy();
+    await files.vectors.destroy();
+    await removePath(files.directory);
+    this.files.delete(collectionId);
+    for (const [id, owner] of this.documentCollections) {
+      if (owner === collectionId) this.documentCollections.delete(id);
+    }
+    for (const [id, owner] of this.vectorCollections) {
+      if (owner === collectionId) this.vectorCollections.delete(id);
+    }
+  }
+
+  /**
+   * Find the vector file holding a vector.
+   */
+  private async findVectorFile(id: string): Promise<VectorFile | null> {
+    if (!this.vectorCollections.has(id)) await this.loadVectorFiles();
+    const collectionId = this.vectorCollections.get(id);
+    return collectionId === undefined ? null : (this.files.get(collectionId)?.vectors ?? null);
+  }
+
+  /**
+   * Index the vector files that have not been read yet.
+   */
+  private async loadVectorFiles(): Promise<void> {
+    for (const [collectionId, files] of this.files) {
+      if (files.vectors.isLoaded) continue;
+      await files.vectors.load();
+      for (const id of files.vectors.keys()) {
+        this.vectorCollections.set(id, collectionId);
+      }
+    }
+  }
+
+  private async saveCollections(): Promise<void> {
+    await writeJSON(join(this.ensureOpen(), COLLECTIONS_FILE), [...this.collections.values()].map(serializeCollection));
+  }
+
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(operation, operation);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
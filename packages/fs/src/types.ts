@@ -0,0 +1,23 @@
+/**
+ * Filesystem Storage Types
+ *
+ * Configuration types for the Node.js filesystem storage adapter.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Configuration options for FSStorage.
+ *
+ * @example
+ * ```typescript
+ * const storage = new FSStorage({ path: './data/my-app' });
+ * ```
+ */
+export interface FSStorageOptions {
+  /**
+   * Directory holding the database files. Created if it does not exist.
+   * The directory belongs to the adapter: `clear()` removes what it wrote there.
+   */
+  path: string;
+}
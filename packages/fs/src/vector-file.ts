@@ -0,0 +1,214 @@
+/**
+ * Vector File
+ *
+ * Append-only binary file of the vectors of one collection. Each write
+ * appends one frame:
+ *
+ * ```
+ * u32 frame length | u32 key length | u32 body length | key | body
+ * ```
+ *
+ * Numbers are little-endian, and the key and body are padded to 4 bytes so a
+ * body of float32 values can be viewed in place in the buffer the file is read
+ * into. A body length of `0xffffffff` deletes the key.
+ *
+ * @packageDocumentation
+ */
+
+import { AppendLog } from './append-log.js';
+
+/** Size of a frame header in bytes. */
+const HEADER_BYTES = 12;
+
+/** Body length of a frame that deletes its key. */
+const DELETED = 0xffffffff;
+
+/**
+ * Location of a live vector in the file.
+ */
+interface VectorLocation {
+  /** Byte offset of the body. */
+  offset: number;
+  /** Length of the body in bytes. */
+  length: number;
+  /** Byte offset of the frame. */
+  frameOffset: number;
+  /** Length of the frame in bytes. */
+  frameLength: number;
+}
+
+/**
+ * Round a length up to a multiple of 4.
+ */
+function pad(length: number): number {
+  return (length + 3) & ~3;
+}
+
+/**
+ * Encode one frame.
+ *
+ * @param key - Vector ID
+ * @param body - Float32 bytes, or `null` to delete the key
+ */
+function encodeFrame(key: string, body: Uint8Array | null): Uint8Array {
+  const keyBytes = Buffer.from(key, 'utf8');
+  const length = HEADER_BYTES + pad(keyBytes.byteLength) + (body ? pad(body.byteLength) : 0);
+  const frame = new Uint8Array(length);
+  const view = new DataView(frame.buffer);
+  view.setUint32(0, length, true);
+  view.setUint32(4, keyBytes.byteLength, true);
+  view.setUint32(8, body ? body.byteLength : DELETED, true);
+  frame.set(keyBytes, HEADER_BYTES);
+  if (body) frame.set(body, HEADER_BYTES + pad(keyBytes.byteLength));
+  return frame;
+}
+
+/**
+ * View float32 bytes as a `Float32Array`, copying only if they are not aligned.
+ */
+function toFloat32(bytes: Uint8Array): Float32Array {
+  if (bytes.byteOffset % 4 === 0) {
+    return new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+  }
+  return new Float32Array(bytes.slice().buffer);
+}
+
+/**
+ * The `vectors.bin` file of a collection.
+ *
+ * @example
+ * ```typescript
+ * const file = await VectorFile.open('/data/my-app/docs/vectors.bin');
+ * await file.put('doc-1', new Float32Array([0.1, 0.2]));
+ * const vectors = await file.readAll();
+ * ```
+ */
+export class VectorFile extends AppendLog {
+  private index = new Map<string, VectorLocation>();
+  /** Whether the file has been read since it was opened. */
+  private loaded = false;
+
+  /**
+   * Open the vector file at a path. The file is read on first use.
+   */
+  static async open(path: string, minCompactBytes?: number): Promise<VectorFile> {
+    const file = new VectorFile(path, minCompactBytes);
+    await file.stat();
+    file.loaded = file.size === 0;
+    return file;
+  }
+
+  /** Whether the file has been read since it was opened. */
+  get isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  /** IDs of the stored vectors; call {@link load} first. */
+  keys(): IterableIterator<string> {
+    return this.index.keys();
+  }
+
+  /**
+   * Read the whole file and return every vector, as views over one buffer.
+   */
+  async load(): Promise<Map<string, Float32Array>> {
+    const buffer = await this.readAll();
+    this.size = buffer.byteLength;
+    this.index.clear();
+    this.reset();
+
+    const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    let offset = 0;
+    while (offset + HEADER_BYTES <= buffer.byteLength) {
+      const frameLength = view.getUint32(offset, true);
+      if (frameLength < HEADER_BYTES || offset + frameLength > buffer.byteLength) break;
+
+      const keyLength = view.getUint32(offset + 4, true);
+      const bodyLength = view.getUint32(offset + 8, true);
+      const key = buffer.toString('utf8', offset + HEADER_BYTES, offset + HEADER_BYTES + keyLength);
+      this.index.delete(key);
+      this.forget(key);
+      if (bodyLength !== DELETED) {
+        this.index.set(key, {
+          offset: offset + HEADER_BYTES + pad(keyLength),
+          length: bodyLength,
+          frameOffset: offset,
+          frameLength,
+        });
+        this.track(key, frameLength);
+      }
+      offset += frameLength;
+    }
+    await this.cut(offset);
+    this.loaded = true;
+
+    const vectors = new Map<string, Float32Array>();
+    for (const [key, location] of this.index) {
+      vectors.set(key, toFloat32(buffer.subarray(location.offset, location.offset + location.length)));
+    }
+    return vectors;
+  }
+
+  /** Read one vector, or `null` if there is none with this ID. */
+  async get(key: string): Promise<Float32Array | null> {
+    if (!this.loaded) await this.load();
+    const location = this.index.get(key);
+    if (!location) return null;
+    return toFloat32(await this.readAt(location.offset, location.length));
+  }
+
+  /** Whether a vector is stored under an ID; call {@link load} first. */
+  has(key: string): boolean {
+    return this.index.has(key);
+  }
+
+  /** Add or replace a vector. */
+  async put(key: string, vector: Float32Array): Promise<void> {
+    if (!this.loaded) await this.load();
+    const body = new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength);
+    const frame = encodeFrame(key, body);
+    const frameOffset = this.size;
+    await this.append(frame);
+    this.index.set(key, {
+      offset: frameOffset + frame.byteLength - pad(body.byteLength),
+      length: body.byteLength,
+      frameOffset,
+      frameLength: frame.byteLength,
+    });
+    this.track(key, frame.byteLength);
+    await this.compactIfNeeded();
+  }
+
+  /** Delete a vector. */
+  async delete(key: string): Promise<void> {
+    if (!this.loaded) await this.load();
+    if (!this.index.has(key)) return;
+    await this.append(encodeFrame(key, null));
+    this.index.delete(key);
+    this.forget(key);
+    await this.compactIfNeeded();
+  }
+
+  /**
+   * Rewrite the file with the live frames once superseded frames outweigh them.
+   */
+  private async compactIfNeeded(): Promise<void> {
+    if (!this.needsCompaction) return;
+
+    const buffer = await this.readAll();
+    let liveBytes = 0;
+    for (const location of this.index.values()) liveBytes += location.frameLength;
+    const copy = new Uint8Array(liveBytes);
+    const index = new Map<string, VectorLocation>();
+    let offset = 0;
+    for (const [key, location] of this.index) {
+      const { frameOffset, frameLength } = location;
+      copy.set(buffer.subarray(frameOffset, frameOffset + frameLength), offset);
+      index.set(key, { ...location, offset: offset + location.offset - frameOffset, frameOffset: offset });
+      offset += frameLength;
+    }
+
+    await this.rewrite(copy);
+    this.index = index;
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * @fileoverview Tests for FSStorage and the files behind it, in a temporary
+ * directory.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, appendFile, truncate, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createVectorDB } from '@localmode/core';
+import type { StorageAdapter, StoredDocument } from '@localmode/core';
+import { FSStorage } from '../src/index.js';
+import { DocumentFile } from '../src/document-file.js';
+import { VectorFile } from '../src/vector-file.js';
+import { removePath } from '../src/files.js';
+
+function doc(id: string, collectionId = 'default', metadata: Record<string, unknown> = {}): StoredDocument {
+  return { id, collectionId, metadata, createdAt: 1, updatedAt: 2 };
+}
+
+let path: string;
+
+beforeEach(async () => {
+  path = await mkdtemp(join(tmpdir(), 'localmode-fs-'));
+});
+
+afterEach(async () => {
+  await removePath(path);
+});
+
+describe('FSStorage', () => {
+  let storage: FSStorage;
+
+  async function reopen() {
+    await storage.close();
+    storage = new FSStorage({ path });
+    await storage.open();
+  }
+
+  beforeEach(async () => {
+    storage = new FSStorage({ path });
+    await storage.open();
+  });
+
+  afterEach(async () => {
+    await storage.close();
+  });
+
+  it('implements StorageAdapter', () => {
+    const _check: StorageAdapter = storage;
+    expect(_check).toBeDefined();
+  });
+
+  it('throws before open()', async () => {
+    const closed = new FSStorage({ path });
+    await expect(closed.getDocument('a')).rejects.toThrow('Database not open');
+  });
+
+  it('stores, replaces and deletes documents', async () => {
+    expect(await storage.getDocument('missing')).toBeNull();
+
+    await storage.addDocument(doc('a', 'default', { version: 1 }));
+    await storage.addDocument(doc('a', 'default', { version: 2 }));
+    await storage.addDocument(doc('b', 'other'));
+    expect(await storage.getDocument('a')).toEqual(doc('a', 'default', { version: 2 }));
+    expect(await storage.countDocuments('default')).toBe(1);
+    expect((await storage.getAllDocuments('other')).map((d) => d.id)).toEqual(['b']);
+
+    // IDs are unique across collections
+    await storage.addDocument(doc('b', 'default'));
+    expect(await storage.countDocuments('other')).toBe(0);
+
+    await storage.deleteDocument('a');
+    expect(await storage.getDocument('a')).toBeNull();
+  });
+
+  it('stores vectors per collection', async () => {
+    await storage.addVector({ id: 'a', collectionId: 'default', vector: new Float32Array([1, 2, 3]) });
+    await storage.addVector({ id: 'b', collectionId: 'default', vector: new Float32Array([4, 5, 6]) });
+    await storage.addVector({ id: 'c', collectionId: 'other', vector: new Float32Array([7]) });
+
+    expect(await storage.getVector('a')).toEqual(new Float32Array([1, 2, 3]));
+    expect(await storage.getVector('missing')).toBeNull();
+    expect(await storage.getAllVectors('default')).toEqual(
+      new Map([
+        ['a', new Float32Array([1, 2, 3])],
+        ['b', new Float32Array([4, 5, 6])],
+      ])
+    );
+
+    await storage.addVector({ id: 'c', collectionId: 'default', vector: new Float32Array([8]) });
+    expect((await storage.getAllVectors('other')).size).toBe(0);
+
+    await storage.deleteVector('b');
+    expect(await storage.getVector('b')).toBeNull();
+  });
+
+  it('stores indexes and collections', async () => {
+    const index = { version: 1, dimensions: 3, m: 16, efConstruction: 200, entryPointId: 'a', maxLevel: 0, nodes: [] };
+    await storage.saveIndex('default', index);
+    expect(await storage.loadIndex('default')).toEqual(index);
+    await storage.deleteIndex('default');
+    expect(await storage.loadIndex('default')).toBeNull();
+
+    const collection = { id: 'c1', name: 'docs', dimensions: 3, createdAt: 1 };
+    await storage.createCollection(collection);
+    await storage.updateCollection({ ...collection, indexedFields: ['tag'] });
+    expect(await storage.getCollection('c1')).toEqual({ ...collection, indexedFields: ['tag'] });
+    expect(await storage.getCollectionByName('docs')).toMatchObject({ id: 'c1' });
+    expect(await storage.getAllCollections()).toHaveLength(1);
+    await storage.deleteCollection('c1');
+    expect(await storage.getCollection('c1')).toBeNull();
+  });
+
+  it('keeps everything across sessions', async () => {
+    const ivf = { fingerprint: 'ivf-settings', centroids: [new Float32Array([1, 0]), new Float32Array([0, 1])] };
+    await storage.createCollection({ id: 'c1', name: 'docs', dimensions: 2, createdAt: 1, indexType: 'ivf', ivf });
+    await storage.addDocument(doc('a', 'c1', { title: 'A' }));
+    await storage.addVector({ id: 'a', collectionId: 'c1', vector: new Float32Array([0.5, -0.5]) });
+    await storage.addVector({ id: 'x', collectionId: 'c2', vector: new Float32Array([1, 2]) });
+    await storage.deleteDocument('gone');
+
+    await reopen();
+    expect(await storage.getDocument('a')).toEqual(doc('a', 'c1', { title: 'A' }));
+    const collection = await storage.getCollectionByName('docs');
+    expect(collection).toMatchObject({ id: 'c1', indexType: 'ivf', ivf: { fingerprint: 'ivf-settings' } });
+    expect(collection?.ivf?.centroids.map((centroid) => Array.from(centroid))).toEqual([
+      [1, 0],
+      [0, 1],
+    ]);
+    // Found in a collection whose vectors have not been read yet
+    expect(await storage.getVector('x')).toEqual(new Float32Array([1, 2]));
+    expect(await storage.getAllVectors('c1')).toEqual(new Map([['a', new Float32Array([0.5, -0.5])]]));
+  });
+
+  it('writes a directory per collection', async () => {
+    await storage.createCollection({ id: 'c1', name: 'docs', dimensions: 2, createdAt: 1 });
+    await storage.addDocument(doc('a', 'c1', { title: 'A' }));
+    await storage.addDocument(doc('b', 'c1'));
+    await storage.deleteDocument('b');
+    await storage.addVector({ id: 'a', collectionId: 'c1', vector: new Float32Array([0.5, -0.5]) });
+    await storage.addVector({ id: 'x', collectionId: 'a/b.c', vector: new Float32Array([1]) });
+
+    expect((await readdir(path)).sort()).toEqual(['a%2Fb%2Ec', 'c1', 'collections.json']);
+    expect((await readdir(join(path, 'c1'))).sort()).toEqual(['documents.jsonl', 'vectors.bin']);
+
+    const lines = (await readFile(join(path, 'c1', 'documents.jsonl'), 'utf8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      doc('a', 'c1', { title: 'A' }),
+      doc('b', 'c1'),
+      { id: 'b', deleted: true },
+    ]);
+    // 12-byte header, key padded to 4 bytes, two float32 values
+    expect((await stat(join(path, 'c1', 'vectors.bin'))).size).toBe(12 + 4 + 8);
+  });
+
+  it('clears a collection or everything', async () => {
+    await storage.addDocument(doc('a', 'c1'));
+    await storage.addDocument(doc('b', 'c2'));
+    await storage.addVector({ id: 'a', collectionId: 'c1', vector: new Float32Array([1]) });
+    await storage.addVector({ id: 'b', collectionId: 'c2', vector: new Float32Array([2]) });
+    await storage.createCollection({ id: 'c1', name: 'one', dimensions: 1, createdAt: 1 });
+
+    await storage.clearCollection('c1');
+    expect(await storage.getDocument('a')).toBeNull();
+    expect(await storage.getVector('a')).toBeNull();
+    expect(await storage.getVector('b')).toEqual(new Float32Array([2]));
+    expect(await storage.getCollection('c1')).not.toBeNull();
+
+    await storage.clear();
+    expect(await readdir(path)).toEqual([]);
+    await reopen();
+    expect(await storage.getDocument('b')).toBeNull();
+    expect(await storage.getVector('b')).toBeNull();
+    expect(await storage.getAllCollections()).toEqual([]);
+  });
+
+  it('estimates its size from its files', async () => {
+    await storage.addVector({ id: 'a', collectionId: 'c1', vector: new Float32Array(16) });
+    expect(await storage.estimateSize()).toBeGreaterThan(64);
+  });
+});
+
+describe('VectorDB on FSStorage', () => {
+  const dimensions = 4;
+  const items = [
+    { id: 'x', vector: new Float32Array([1, 0, 0, 0]), metadata: { axis: 'x' } },
+    { id: 'y', vector: new Float32Array([0, 1, 0, 0]), metadata: { axis: 'y' } },
+    { id: 'z', vector: new Float32Array([0, 0, 1, 0]), metadata: { axis: 'z' } },
+  ];
+  const query = new Float32Array([0, 0.9, 0.1, 0]);
+
+  it('reloads a collection from disk', async () => {
+    const db = await createVectorDB({ name: 'fs', dimensions, storage: new FSStorage({ path }) });
+    await db.addMany(items);
+    await db.delete('x');
+    await db.close();
+
+    const reopened = await createVectorDB({ name: 'fs', dimensions, storage: new FSStorage({ path }) });
+    expect(await reopened.count()).toBe(2);
+    const [nearest] = await reopened.search(query, { k: 1 });
+    expect(nearest).toMatchObject({ id: 'y', metadata: { axis: 'y' } });
+    await reopened.close();
+  });
+
+  it('round-trips through export() and import() with the other adapters', async () => {
+    const db = await createVectorDB({ name: 'fs', dimensions, storage: new FSStorage({ path }) });
+    await db.addMany(items);
+    const exported = await db.export();
+    await db.close();
+
+    // Built in Node, loaded by a browser adapter
+    const browser = await createVectorDB({ name: 'fs', dimensions, storage: 'memory' });
+    await browser.import(exported);
+    expect(await browser.count()).toBe(3);
+    expect((await browser.search(query, { k: 1 }))[0]).toMatchObject({ id: 'y', metadata: { axis: 'y' } });
+    await browser.add({ id: 'w', vector: new Float32Array([0, 0, 0, 1]), metadata: { axis: 'w' } });
+
+    // And back
+    const second = join(path, 'second');
+    const restored = await createVectorDB({ name: 'fs', dimensions, storage: new FSStorage({ path: second }) });
+    const shipped = await browser.export();
+    await restored.import(shipped);
+    await restored.close();
+    await browser.close();
+
+    const reopened = await createVectorDB({ name: 'fs', dimensions, storage: new FSStorage({ path: second }) });
+    expect(await reopened.count()).toBe(4);
+    expect((await reopened.search(new Float32Array([0, 0, 0, 1]), { k: 1 }))[0]).toMatchObject({ id: 'w' });
+    expect(JSON.parse(await (await reopened.export()).text())).toEqual(JSON.parse(await shipped.text()));
+    await reopened.close();
+  });
+});
+
+describe('DocumentFile', () => {
+  it('compacts superseded lines', async () => {
+    const filePath = join(path, 'documents.jsonl');
+    const file = await DocumentFile.open(filePath, 0);
+    await file.put(doc('a', 'c', { version: 1 }));
+    await file.put(doc('b'));
+    await file.put(doc('a', 'c', { version: 2 }));
+    await file.delete('b');
+    await file.close();
+
+    expect(await readFile(filePath, 'utf8')).toBe(`${JSON.stringify(doc('a', 'c', { version: 2 }))}\n`);
+    const reopened = await DocumentFile.open(filePath, 0);
+    expect([...reopened.values()]).toEqual([doc('a', 'c', { version: 2 })]);
+    await reopened.close();
+  });
+
+  it('drops a line cut short by a crash', async () => {
+    const filePath = join(path, 'documents.jsonl');
+    const file = await DocumentFile.open(filePath);
+    await file.put(doc('a'));
+    await file.close();
+    await appendFile(filePath, '{"id":"b","collec');
+
+    const reopened = await DocumentFile.open(filePath);
+    expect([...reopened.values()].map((d) => d.id)).toEqual(['a']);
+    await reopened.put(doc('c'));
+    await reopened.close();
+
+    const lines = (await readFile(filePath, 'utf8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).id)).toEqual(['a', 'c']);
+  });
+});
+
+describe('VectorFile', () => {
+  const vector = (value: number) => new Float32Array([value, value, value]);
+
+  it('compacts superseded frames', async () => {
+    const filePath = join(path, 'vectors.bin');
+    const file = await VectorFile.open(filePath, 0);
+    await file.put('a', vector(1));
+    await file.put('b', vector(2));
+    await file.put('a', vector(3));
+    await file.delete('b');
+
+    expect(file.size).toBe(12 + 4 + 12);
+    expect(await file.get('a')).toEqual(vector(3));
+    await file.close();
+
+    const reopened = await VectorFile.open(filePath, 0);
+    expect(await reopened.load()).toEqual(new Map([['a', vector(3)]]));
+    await reopened.close();
+  });
+
+  it('drops a frame cut short by a crash', async () => {
+    const filePath = join(path, 'vectors.bin');
+    const file = await VectorFile.open(filePath);
+    await file.put('a', vector(1));
+    await file.put('b', vector(2));
+    await file.close();
+    await truncate(filePath, file.size - 2);
+
+    const reopened = await VectorFile.open(filePath);
+    expect([...(await reopened.load()).keys()]).toEqual(['a']);
+    await reopened.put('c', vector(3));
+    expect(await reopened.load()).toEqual(
+      new Map([
+        ['a', vector(1)],
+        ['c', vector(3)],
+      ])
+    );
+    await reopened.close();
+  });
+});
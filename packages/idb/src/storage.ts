@@ -13,7 +13,20 @@ import type {
   StoredDocument,
   StoredVector,
   Collection,
+  CollectionRecord,
   SerializedHNSWIndex,
+  MetadataIndexEntry,
+  MetadataIndexQuery,
+  MetadataIndexScanOptions,
+  MetadataIndexScanEntry,
+} from '@localmode/core';
+import {
+  indexEntryKey,
+  toIndexKeyRanges,
+  toIndexScanRanges,
+  toIndexScanEntry,
+  serializeCollection,
+  deserializeCollection,
 } from '@localmode/core';
 import type { IDBStorageOptions } from './types.js';
 
@@ -40,11 +53,13 @@ interface IndexRecord {
   updatedAt: number;
 }
 
-interface CollectionRecord {
+/** `[collectionId, field, [type, value], docId]` */
+type MetadataIndexKey = [string, string, [string, number | string], string];
+
+interface MetadataIndexRecord {
+  key: MetadataIndexKey;
   id: string;
-  name: string;
-  dimensions: number;
-  createdAt: number;
+  collectionId: string;
 }
 
 /**
@@ -70,6 +85,11 @@ interface VectorDBSchema extends DBSchema {
     value: CollectionRecord;
     indexes: { name: string };
   };
+  metadataIndex: {
+    key: MetadataIndexKey;
+    value: MetadataIndexRecord;
+    indexes: { id: string; collectionId: string };
+  };
 }
 
 /**
@@ -107,22 +127,31 @@ export class IDBStorage implements StorageAdapter {
   async open(): Promise<void> {
     if (this.db) return;
 
-    this.db = await openDB<VectorDBSchema>(this.dbName, 1, {
-      upgrade(db) {
-        // Documents store
-        const docStore = db.createObjectStore('documents', { keyPath: 'id' });
-        docStore.createIndex('collectionId', 'collectionId');
-
-        // Vectors store
-        const vecStore = db.createObjectStore('vectors', { keyPath: 'id' });
-        vecStore.createIndex('collectionId', 'collectionId');
-
-        // Indexes store (keyed by collectionId)
-        db.createObjectStore('indexes', { keyPath: 'collectionId' });
-
-        // Collections store
-        const colStore = db.createObjectStore('collections', { keyPath: 'id' });
-        colStore.createIndex('name', 'name', { unique: true });
+    this.db = await openDB<VectorDBSchema>(this.dbName, 2, {
+      upgrade(db, oldVersion) {
+        if (oldVersion < 1) {
+          // Documents store
+          const docStore = db.createObjectStore('documents', { keyPath: 'id' });
+          docStore.createIndex('collectionId', 'collectionId');
+
+          // Vectors store
+          const vecStore = db.createObjectStore('vectors', { keyPath: 'id' });
+          vecStore.createIndex('collectionId', 'collectionId');
+
+          // Indexes store (keyed by collectionId)
+          db.createObjectStore('indexes', { keyPath: 'collectionId' });
+
+          // Collections store
+          const colStore = db.createObjectStore('collections', { keyPath: 'id' });
+          colStore.createIndex('name', 'name', { unique: true });
+        }
+
+        if (oldVersion < 2) {
+          // Secondary metadata index entries
+          const metaIndexStore = db.createObjectStore('metadataIndex', { keyPath: 'key' });
+          metaIndexStore.createIndex('id', 'id');
+          metaIndexStore.createIndex('collectionId', 'collectionId');
+        }
       },
     });
   }
@@ -191,6 +220,34 @@ export class IDBStorage implements StorageAdapter {
     }));
   }
 
+  async getDocumentPage(collectionId: string, after: string | null, limit: number): Promise<StoredDocument[]> {
+    const db = this.ensureOpen();
+    const index = db.transaction('documents').store.index('collectionId');
+    const docs: StoredDocument[] = [];
+
+    let cursor = await index.openCursor(collectionId);
+    // Entries of one key are in primary key order, so jump to `after`
+    if (cursor && after !== null && cursor.primaryKey < after) {
+      cursor = await cursor.continuePrimaryKey(collectionId, after);
+    }
+    if (cursor && cursor.primaryKey === after) {
+      cursor = await cursor.continue();
+    }
+    while (cursor && docs.length < limit) {
+      const r = cursor.value;
+      docs.push({
+        id: r.id,
+        collectionId: r.collectionId,
+        metadata: r.metadata,
+        createdAt: r.createdAt,
+        updatedAt: r.updatedAt,
+      });
+      cursor = await cursor.continue();
+    }
+
+    return docs;
+  }
+
   async countDocuments(collectionId: string): Promise<number> {
     const db = this.ensureOpen();
     return db.countFromIndex('documents', 'collectionId', collectionId);
@@ -274,12 +331,7 @@ export class IDBStorage implements StorageAdapter {
 
   async createCollection(collection: Collection): Promise<void> {
     const db = this.ensureOpen();
-    await db.put('collections', {
-      id: collection.id,
-      name: collection.name,
-      dimensions: collection.dimensions,
-      createdAt: collection.createdAt,
-    });
+    await db.put('collections', serializeCollection(collection));
   }
 
   async getCollection(id: string): Promise<Collection | null> {
@@ -287,12 +339,7 @@ export class IDBStorage implements StorageAdapter {
     const record = await db.get('collections', id);
     if (!record) return null;
 
-    return {
-      id: record.id,
-      name: record.name,
-      dimensions: record.dimensions,
-      createdAt: record.createdAt,
-    };
+    return deserializeCollection(record);
   }
 
   async getCollectionByName(name: string): Promise<Collection | null> {
@@ -300,33 +347,18 @@ export class IDBStorage implements StorageAdapter {
     const record = await db.getFromIndex('collections', 'name', name);
     if (!record) return null;
 
-    return {
-      id: record.id,
-      name: record.name,
-      dimensions: record.dimensions,
-      createdAt: record.createdAt,
-    };
+    return deserializeCollection(record);
   }
 
   async getAllCollections(): Promise<Collection[]> {
     const db = this.ensureOpen();
     const records = await db.getAll('collections');
-    return records.map((r) => ({
-      id: r.id,
-      name: r.name,
-      dimensions: r.dimensions,
-      createdAt: r.createdAt,
-    }));
+    return records.map(deserializeCollection);
   }
 
   async updateCollection(collection: Collection): Promise<void> {
     const db = this.ensureOpen();
-    await db.put('collections', {
-      id: collection.id,
-      name: collection.name,
-      dimensions: collection.dimensions,
-      createdAt: collection.createdAt,
-    });
+    await db.put('collections', serializeCollection(collection));
   }
 
   async deleteCollection(id: string): Promise<void> {
@@ -334,6 +366,82 @@ export class IDBStorage implements StorageAdapter {
     await db.delete('collections', id);
   }
 
+  // ============================================
+  // Metadata Index Operations
+  // ============================================
+
+  async putIndexEntries(
+    collectionId: string,
+    docId: string,
+    entries: MetadataIndexEntry[],
+  ): Promise<void> {
+    const db = this.ensureOpen();
+    const tx = db.transaction('metadataIndex', 'readwrite');
+    const store = tx.store;
+
+    // Remove stale entries, then write the new ones in the same transaction
+    const staleKeys = await store.index('id').getAllKeys(docId);
+    await Promise.all([
+      ...staleKeys.map((key) => store.delete(key)),
+      ...entries.map((entry) =>
+        store.put({
+          key: indexEntryKey(collectionId, docId, entry) as MetadataIndexKey,
+          id: docId,
+          collectionId,
+        }),
+      ),
+      tx.done,
+    ]);
+  }
+
+  async deleteIndexEntries(docId: string): Promise<void> {
+    const db = this.ensureOpen();
+    const tx = db.transaction('metadataIndex', 'readwrite');
+    const keys = await tx.store.index('id').getAllKeys(docId);
+    await Promise.all([...keys.map((key) => tx.store.delete(key)), tx.done]);
+  }
+
+  async queryIndex(collectionId: string, query: MetadataIndexQuery): Promise<string[]> {
+    const db = this.ensureOpen();
+    const ids = new Set<string>();
+
+    for (const range of toIndexKeyRanges(collectionId, query)) {
+      const keys = await db.getAllKeys(
+        'metadataIndex',
+        IDBKeyRange.bound(range.lower, range.upper, range.lowerOpen, range.upperOpen),
+      );
+      for (const key of keys) {
+        ids.add(key[3]);
+      }
+    }
+
+    return [...ids];
+  }
+
+  async scanIndex(
+    collectionId: string,
+    query: MetadataIndexQuery,
+    options: MetadataIndexScanOptions = {},
+  ): Promise<MetadataIndexScanEntry[]> {
+    const db = this.ensureOpen();
+    const store = db.transaction('metadataIndex').store;
+    const entries: MetadataIndexScanEntry[] = [];
+    const limit = options.limit ?? Infinity;
+
+    for (const range of toIndexScanRanges(collectionId, query, options)) {
+      let cursor = await store.openKeyCursor(
+        IDBKeyRange.bound(range.lower, range.upper, range.lowerOpen, range.upperOpen),
+        options.direction === 'desc' ? 'prev' : 'next',
+      );
+      while (cursor && entries.length < limit) {
+        entries.push(toIndexScanEntry(cursor.primaryKey));
+        cursor = await cursor.continue();
+      }
+    }
+
+    return entries;
+  }
+
   // ============================================
   // Utility Operations
   // ============================================
@@ -341,7 +449,7 @@ export class IDBStorage implements StorageAdapter {
   async clear(): Promise<void> {
     const db = this.ensureOpen();
     const tx = db.transaction(
-      ['documents', 'vectors', 'indexes', 'collections'],
+      ['documents', 'vectors', 'indexes', 'collections', 'metadataIndex'],
       'readwrite',
     );
 
@@ -350,6 +458,7 @@ export class IDBStorage implements StorageAdapter {
       tx.objectStore('vectors').clear(),
       tx.objectStore('indexes').clear(),
       tx.objectStore('collections').clear(),
+      tx.objectStore('metadataIndex').clear(),
       tx.done,
     ]);
   }
@@ -361,11 +470,15 @@ export class IDBStorage implements StorageAdapter {
     const docs = await this.getAllDocuments(collectionId);
     const ids = docs.map((d) => d.id);
 
-    // Delete documents and vectors in a transaction
-    const tx = db.transaction(['documents', 'vectors'], 'readwrite');
+    // Delete documents, vectors and metadata index entries in a transaction
+    const tx = db.transaction(['documents', 'vectors', 'metadataIndex'], 'readwrite');
+    const metaIndexStore = tx.objectStore('metadataIndex');
+    const entryKeys = await metaIndexStore.index('collectionId').getAllKeys(collectionId);
+    const vectorKeys = await tx.objectStore('vectors').index('collectionId').getAllKeys(collectionId);
     await Promise.all([
       ...ids.map((id) => tx.objectStore('documents').delete(id)),
-      ...ids.map((id) => tx.objectStore('vectors').delete(id)),
+      ...vectorKeys.map((key) => tx.objectStore('vectors').delete(key)),
+      ...entryKeys.map((key) => metaIndexStore.delete(key)),
       tx.done,
     ]);
 
@@ -7,7 +7,7 @@
 import { VectorStore } from '@langchain/core/vectorstores';
 import { Document } from '@langchain/core/documents';
 import type { EmbeddingsInterface } from '@langchain/core/embeddings';
-import type { VectorDB } from '@localmode/core';
+import type { TypedFilterQuery, VectorDB } from '@localmode/core';
 
 /**
  * LangChain VectorStore backed by a LocalMode VectorDB.
@@ -28,6 +28,12 @@ import type { VectorDB } from '@localmode/core';
  * ```
  */
 export class LocalModeVectorStore extends VectorStore {
+  /**
+   * Metadata filter accepted by search and delete methods. Uses the
+   * `@localmode/core` filter language: field operators, dotted paths and `$and`/`$or`/`$not`.
+   */
+  declare FilterType: TypedFilterQuery;
+
   private db: VectorDB;
 
   constructor(
@@ -81,18 +87,37 @@ export class LocalModeVectorStore extends VectorStore {
     return ids;
   }
 
+  /**
+   * Delete documents by ID and/or by metadata filter.
+   *
+   * @param params - `ids` to delete, and/or a `filter` selecting documents to delete
+   *
+   * @example
+   * ```ts
+   * await store.delete({ filter: { source: 'old.pdf' } });
+   * ```
+   */
+  async delete(params?: { ids?: string[]; filter?: TypedFilterQuery }): Promise<void> {
+    if (params?.ids && params.ids.length > 0) {
+      await this.db.deleteMany(params.ids);
+    }
+    if (params?.filter) {
+      await this.db.deleteWhere(params.filter);
+    }
+  }
+
   /**
    * Search for similar vectors with scores.
    *
    * @param query - Query vector as number[]
    * @param k - Number of results
-   * @param filter - Optional metadata filter
+   * @param filter - Optional metadata filter (e.g. `{ year: { $gte: 2020 }, $or: [...] }`)
    * @returns Array of [Document, score] tuples
    */
   async similaritySearchVectorWithScore(
     query: number[],
     k: number,
-    filter?: Record<string, unknown>
+    filter?: this['FilterType']
   ): Promise<[Document, number][]> {
     const results = await this.db.search(new Float32Array(query), {
       k,
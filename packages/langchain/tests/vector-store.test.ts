@@ -30,6 +30,7 @@ function createMockVectorDB() {
     get: vi.fn(),
     delete: vi.fn(),
     deleteMany: vi.fn(),
+    deleteWhere: vi.fn(async () => 0),
     update: vi.fn(),
     clear: vi.fn(),
     close: vi.fn(),
@@ -91,6 +92,26 @@ describe('LocalModeVectorStore', () => {
     expect(typeof score).toBe('number');
   });
 
+  it('similaritySearchVectorWithScore forwards filters to the VectorDB', async () => {
+    const db = createMockVectorDB();
+    const store = new LocalModeVectorStore(embeddings, { db: db as any });
+    const filter = { year: { $gte: 2020, $lt: 2024 }, $or: [{ source: 'a' }, { 'meta.lang': 'en' }] };
+
+    await store.similaritySearchVectorWithScore([0.1, 0.2, 0.3, 0.4], 3, filter);
+
+    expect(db.search).toHaveBeenCalledWith(expect.any(Float32Array), { k: 3, filter });
+  });
+
+  it('delete removes by ids and by filter', async () => {
+    const db = createMockVectorDB();
+    const store = new LocalModeVectorStore(embeddings, { db: db as any });
+
+    await store.delete({ ids: ['a', 'b'], filter: { source: { $startsWith: 'old' } } });
+
+    expect(db.deleteMany).toHaveBeenCalledWith(['a', 'b']);
+    expect(db.deleteWhere).toHaveBeenCalledWith({ source: { $startsWith: 'old' } });
+  });
+
   it('fromDocuments factory creates populated store', async () => {
     const db = createMockVectorDB();
     const store = await LocalModeVectorStore.fromDocuments(
@@ -14,8 +14,10 @@ import type {
   StoredDocument,
   StoredVector,
   Collection,
+  CollectionRecord,
   SerializedHNSWIndex,
 } from '@localmode/core';
+import { serializeCollection, deserializeCollection } from '@localmode/core';
 import type { LocalForageStorageOptions } from './types.js';
 
 /**
@@ -224,37 +226,22 @@ export class LocalForageStorage implements StorageAdapter {
   // ============================================
 
   async createCollection(collection: Collection): Promise<void> {
-    await this.cols.setItem<Collection>(collection.id, {
-      id: collection.id,
-      name: collection.name,
-      dimensions: collection.dimensions,
-      createdAt: collection.createdAt,
-    });
+    await this.cols.setItem<CollectionRecord>(collection.id, serializeCollection(collection));
   }
 
   async getCollection(id: string): Promise<Collection | null> {
-    const record = await this.cols.getItem<Collection>(id);
+    const record = await this.cols.getItem<CollectionRecord>(id);
     if (!record) return null;
 
-    return {
-      id: record.id,
-      name: record.name,
-      dimensions: record.dimensions,
-      createdAt: record.createdAt,
-    };
+    return deserializeCollection(record);
   }
 
   async getCollectionByName(name: string): Promise<Collection | null> {
     let found: Collection | null = null;
 
-    await this.cols.iterate<Collection, void>((value) => {
+    await this.cols.iterate<CollectionRecord, void>((value) => {
       if (value.name === name) {
-        found = {
-          id: value.id,
-          name: value.name,
-          dimensions: value.dimensions,
-          createdAt: value.createdAt,
-        };
+        found = deserializeCollection(value);
       }
     });
 
@@ -264,25 +251,15 @@ export class LocalForageStorage implements StorageAdapter {
   async getAllCollections(): Promise<Collection[]> {
     const collections: Collection[] = [];
 
-    await this.cols.iterate<Collection, void>((value) => {
-      collections.push({
-        id: value.id,
-        name: value.name,
-        dimensions: value.dimensions,
-        createdAt: value.createdAt,
-      });
+    await this.cols.iterate<CollectionRecord, void>((value) => {
+      collections.push(deserializeCollection(value));
     });
 
     return collections;
   }
 
   async updateCollection(collection: Collection): Promise<void> {
-    await this.cols.setItem<Collection>(collection.id, {
-      id: collection.id,
-      name: collection.name,
-      dimensions: collection.dimensions,
-      createdAt: collection.createdAt,
-    });
+    await this.createCollection(collection);
   }
 
   async deleteCollection(id: string): Promise<void> {
@@ -249,6 +249,23 @@ describe('LocalForageStorage', () => {
       await storage.deleteCollection('c1');
       expect(await storage.getCollection('c1')).toBeNull();
     });
+
+    it('keeps the settings VectorDB stores on the collection', async () => {
+      const settings = {
+        ...col,
+        indexedFields: ['category'],
+        binaryQuantization: true,
+        keywordIndex: { field: '_text', tokenizer: 'default' },
+        indexType: 'ivf' as const,
+        ivf: { fingerprint: 'ivf-settings', centroids: [new Float32Array([1, 0]), new Float32Array([0, 1])] },
+        snapshots: [{ label: 'v1', sequence: 1, createdAt: 2, documentCount: 3 }],
+      };
+      await storage.createCollection(settings);
+      expect(await storage.getCollection('c1')).toEqual(settings);
+
+      await storage.updateCollection({ ...settings, indexedFields: ['category', 'year'] });
+      expect(await storage.getCollectionByName('docs')).toEqual({ ...settings, indexedFields: ['category', 'year'] });
+    });
   });
 
   describe('clear()', () => {
@@ -314,5 +331,67 @@ describe('LocalForageStorage', () => {
 
       await db.close();
     });
+
+    it('pages through find() results with a cursor', async () => {
+      const { createVectorDB } = await import('@localmode/core');
+      const customStorage = new LocalForageStorage({ name: `find-${Date.now()}-${testCounter++}` });
+
+      const db = await createVectorDB({
+        name: 'find-test',
+        dimensions: 3,
+        storage: customStorage,
+      });
+
+      await db.addMany(
+        [3, 1, 4, 2].map((rank) => ({
+          id: `doc${rank}`,
+          vector: new Float32Array([rank, 0, 0]),
+          metadata: { rank, kind: rank % 2 === 0 ? 'even' : 'odd' },
+        })),
+      );
+
+      const first = await db.find({ sort: { rank: 'desc' }, limit: 2 });
+      expect(first.documents.map((d) => d.id)).toEqual(['doc4', 'doc3']);
+
+      const second = await db.find({ sort: { rank: 'desc' }, limit: 2, cursor: first.nextCursor! });
+      expect(second.documents.map((d) => d.id)).toEqual(['doc2', 'doc1']);
+      expect(second.nextCursor).toBeNull();
+
+      expect(await db.count({ filter: { kind: 'even' } })).toBe(2);
+
+      await db.close();
+    });
+
+    it('persists and clears multi-vector documents', async () => {
+      const { createVectorDB } = await import('@localmode/core');
+      const customStorage = new LocalForageStorage({ name: `multi-vector-${Date.now()}-${testCounter++}` });
+
+      const db = await createVectorDB({
+        name: 'multi-vector-test',
+        dimensions: 3,
+        storage: customStorage,
+      });
+
+      await db.add({
+        id: 'doc1',
+        vectors: [new Float32Array([1, 0, 0]), new Float32Array([0, 1, 0])],
+      });
+      await db.close();
+
+      const reopened = await createVectorDB({
+        name: 'multi-vector-test',
+        dimensions: 3,
+        storage: customStorage,
+      });
+
+      const [top] = await reopened.searchMultiVector(new Float32Array([0, 1, 0]), { k: 1 });
+      expect(top).toMatchObject({ id: 'doc1', matchedVector: 1 });
+
+      await reopened.clear();
+      expect(await reopened.searchMultiVector(new Float32Array([0, 1, 0]))).toEqual([]);
+      expect((await customStorage.getAllVectors('default\u001fmulti-vector')).size).toBe(0);
+
+      await reopened.close();
+    });
   });
 });
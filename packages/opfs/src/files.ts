@@ -0,0 +1,241 @@
+/**
+ * OPFS File Access
+ *
+ * Random access to files in the Origin Private File System. In a dedicated
+ * worker, files are opened with sync access handles, which read and write in
+ * place. Elsewhere, reads slice the file and writes go through a writable
+ * stream; browsers implement those streams by copying the file, so writes are
+ * buffered, served to reads from the buffer, and applied together by `flush()`.
+ *
+ * @packageDocumentation
+ */
+
+import { StorageError } from '@localmode/core';
+
+/**
+ * A file opened for random access.
+ */
+export interface BinaryFile {
+  /** Size of the file in bytes, including buffered writes. */
+  readonly size: number;
+
+  /** Whether writes are buffered until `flush()`, which then copies the file. */
+  readonly buffered: boolean;
+
+  /** Read `length` bytes starting at `offset`. */
+  read(offset: number, length: number): Promise<Uint8Array>;
+
+  /** Write bytes at `offset`, growing the file as needed. */
+  write(offset: number, data: Uint8Array): void;
+
+  /** Shrink or grow the file to `size` bytes. */
+  truncate(size: number): void;
+
+  /** Persist the writes made so far. */
+  flush(): Promise<void>;
+
+  /** Persist the writes made so far and release the file. */
+  close(): Promise<void>;
+}
+
+/**
+ * A file written through a sync access handle (dedicated workers only).
+ */
+class SyncAccessFile implements BinaryFile {
+  size: number;
+  readonly buffered = false;
+
+  constructor(private handle: FileSystemSyncAccessHandle) {
+    this.size = handle.getSize();
+  }
+
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    const data = new Uint8Array(length);
+    const read = this.handle.read(data, { at: offset });
+    return read === length ? data : data.subarray(0, read);
+  }
+
+  write(offset: number, data: Uint8Array): void {
+    this.handle.write(data as Uint8Array<ArrayBuffer>, { at: offset });
+    this.size = Math.max(this.size, offset + data.byteLength);
+  }
+
+  truncate(size: number): void {
+    this.handle.truncate(size);
+    this.size = size;
+  }
+
+  async flush(): Promise<void> {
+    this.handle.flush();
+  }
+
+  async close(): Promise<void> {
+    this.handle.flush();
+    this.handle.close();
+  }
+}
+
+/**
+ * A file written through writable streams, with writes buffered until `flush()`.
+ */
+class WritableStreamFile implements BinaryFile {
+  readonly buffered = true;
+  private pending: WriteParams[] = [];
+
+  constructor(
+    private handle: FileSystemFileHandle,
+    public size: number
+  ) {}
+
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    const end = Math.min(offset + length, this.size);
+    const data = new Uint8Array(Math.max(end - offset, 0));
+    const file = await this.handle.getFile();
+    data.set(new Uint8Array(await file.slice(offset, end).arrayBuffer()));
+
+    // Replay the buffered writes over the range, in order
+    for (const operation of this.pending) {
+      if (operation.type === 'truncate') {
+        data.fill(0, Math.max(operation.size! - offset, 0));
+      } else {
+        const bytes = operation.data as Uint8Array;
+        const from = Math.max(offset, operation.position!);
+        const to = Math.min(end, operation.position! + bytes.byteLength);
+        if (from < to) {
+          data.set(bytes.subarray(from - operation.position!, to - operation.position!), from - offset);
+        }
+      }
+    }
+    return data;
+  }
+
+  write(offset: number, data: Uint8Array): void {
+    this.pending.push({ type: 'write', position: offset, data: data as Uint8Array<ArrayBuffer> });
+    this.size = Math.max(this.size, offset + data.byteLength);
+  }
+
+  truncate(size: number): void {
+    this.pending.push({ type: 'truncate', size });
+    this.size = size;
+  }
+
+  async flush(): Promise<void> {
+    if (this.pending.length === 0) return;
+
+    const operations = this.pending;
+    this.pending = [];
+    const writable = await this.handle.createWritable({ keepExistingData: true });
+    for (const operation of operations) {
+      await writable.write(operation);
+    }
+    await writable.close();
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+  }
+}
+
+/**
+ * Open (creating if needed) a file for random access.
+ *
+ * @param directory - Directory containing the file
+ * @param name - File name
+ */
+export async function openFile(directory: FileSystemDirectoryHandle, name: string): Promise<BinaryFile> {
+  const handle = await directory.getFileHandle(name, { create: true });
+  // Sync access handles are only exposed in dedicated workers
+  if (typeof (handle as Partial<FileSystemFileHandle>).createSyncAccessHandle === 'function') {
+    return new SyncAccessFile(await handle.createSyncAccessHandle());
+  }
+  return new WritableStreamFile(handle, (await handle.getFile()).size);
+}
+
+/**
+ * Get the OPFS root directory.
+ *
+ * @throws {StorageError} If the browser does not support OPFS
+ */
+export async function getRootDirectory(): Promise<FileSystemDirectoryHandle> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.getDirectory) {
+    throw new StorageError('The Origin Private File System is not available', {
+      hint: 'Use IndexedDBStorage in this browser, or pass a directory handle in the options.',
+    });
+  }
+  return navigator.storage.getDirectory();
+}
+
+/**
+ * List the names of the files in a directory.
+ */
+export async function listFiles(directory: FileSystemDirectoryHandle): Promise<string[]> {
+  const names: string[] = [];
+  // `keys()` is missing from the DOM typings of some TypeScript versions
+  for await (const name of (directory as unknown as { keys(): AsyncIterable<string> }).keys()) {
+    names.push(name);
+  }
+  return names;
+}
+
+/**
+ * Remove a file or directory, doing nothing if it does not exist.
+ */
+export async function removeEntry(directory: FileSystemDirectoryHandle, name: string): Promise<void> {
+  try {
+    await directory.removeEntry(name, { recursive: true });
+  } catch (error) {
+    if ((error as DOMException)?.name !== 'NotFoundError') throw error;
+  }
+}
+
+/**
+ * Read a JSON file, returning `null` if it does not exist.
+ */
+export async function readJSON<T>(directory: FileSystemDirectoryHandle, name: string): Promise<T | null> {
+  let handle: FileSystemFileHandle;
+  try {
+    handle = await directory.getFileHandle(name);
+  } catch (error) {
+    if ((error as DOMException)?.name === 'NotFoundError') return null;
+    throw error;
+  }
+  const text = await (await handle.getFile()).text();
+  return text ? (JSON.parse(text) as T) : null;
+}
+
+/**
+ * Replace the contents of a JSON file.
+ */
+export async function writeJSON(directory: FileSystemDirectoryHandle, name: string, value: unknown): Promise<void> {
+  const data = new TextEncoder().encode(JSON.stringify(value));
+  const file = await openFile(directory, name);
+  file.write(0, data);
+  file.truncate(data.byteLength);
+  await file.close();
+}
+
+/**
+ * Get the size of a file in bytes (0 if it does not exist).
+ */
+export async function fileSize(directory: FileSystemDirectoryHandle, name: string): Promise<number> {
+  try {
+    return (await (await directory.getFileHandle(name)).getFile()).size;
+  } catch (error) {
+    if ((error as DOMException)?.name === 'NotFoundError') return 0;
+    throw error;
+  }
+}
+
+/**
+ * Turn an ID into a string that is safe to use in a file name.
+ */
+export function encodeFileName(id: string): string {
+  return encodeURIComponent(id).replace(/\./g, '%2E');
+}
+
+/**
+ * Reverse {@link encodeFileName}.
+ */
+export function decodeFileName(name: string): string {
+  return decodeURIComponent(name);
+}
@@ -0,0 +1,39 @@
+/**
+ * @localmode/opfs
+ *
+ * Origin Private File System storage for @localmode — a VectorDB storage
+ * adapter that keeps each collection's vectors in one binary file, and a
+ * model cache backend that keeps each model in one file.
+ *
+ * @packageDocumentation
+ *
+ * @example
+ * ```typescript
+ * // In a dedicated worker; on the main thread, use OPFSWorkerStorage
+ * import { OPFSStorage, OPFSModelStore } from '@localmode/opfs';
+ * import { createVectorDB, createModelLoader } from '@localmode/core';
+ *
+ * const storage = new OPFSStorage({ name: 'my-app' });
+ * const db = await createVectorDB({
+ *   name: 'my-app',
+ *   dimensions: 384,
+ *   storage,
+ * });
+ *
+ * const loader = createModelLoader({ store: new OPFSModelStore() });
+ * ```
+ */
+
+export { OPFSStorage } from './storage.js';
+export { OPFSWorkerStorage } from './worker/proxy.js';
+export { serveOPFSStorage } from './worker/storage.worker.js';
+export { OPFSModelStore } from './model-store.js';
+export type {
+  OPFSStorageOptions,
+  OPFSWorkerStorageOptions,
+  OPFSWorkerMethod,
+  OPFSWorkerRequest,
+  OPFSWorkerResponse,
+  OPFSWorkerScope,
+  OPFSModelStoreOptions,
+} from './types.js';
@@ -0,0 +1,206 @@
+/**
+ * OPFS Model Store
+ *
+ * Model cache backend that writes each downloaded model into one file in the
+ * Origin Private File System. Implements the {@link ModelCacheStore}
+ * interface from `@localmode/core`.
+ *
+ * @packageDocumentation
+ */
+
+import type { ModelCacheStore, ModelMetadataRecord } from '@localmode/core';
+import {
+  getRootDirectory,
+  listFiles,
+  removeEntry,
+  readJSON,
+  writeJSON,
+  openFile,
+  fileSize,
+  encodeFileName,
+} from './files.js';
+import type { OPFSModelStoreOptions } from './types.js';
+
+/** Default cache directory name, shared with the IndexedDB cache. */
+const DEFAULT_CACHE_NAME = 'localmode-model-cache';
+
+/**
+ * Metadata record as stored in JSON, with dates as ISO strings.
+ */
+type StoredMetadata = Omit<ModelMetadataRecord, 'lastAccessed' | 'createdAt'> & {
+  lastAccessed: string;
+  createdAt: string;
+};
+
+/**
+ * File name of a model's data.
+ */
+function dataFile(modelId: string): string {
+  return `${encodeFileName(modelId)}.bin`;
+}
+
+/**
+ * File name of a model's metadata.
+ */
+function metadataFile(modelId: string): string {
+  return `${encodeFileName(modelId)}.json`;
+}
+
+function toRecord(stored: StoredMetadata): ModelMetadataRecord {
+  return {
+    ...stored,
+    lastAccessed: new Date(stored.lastAccessed),
+    createdAt: new Date(stored.createdAt),
+  };
+}
+
+/**
+ * OPFS backend for the model cache.
+ *
+ * Chunks are written at their offset in a single file per model, so a cached
+ * model is returned as that file: one sequential read, with no chunks to
+ * reassemble. In a dedicated worker, chunks are written through sync access
+ * handles.
+ *
+ * Like the IndexedDB cache, `open()` returns `false` where OPFS is not
+ * available and the loader then runs without caching.
+ *
+ * @example
+ * ```typescript
+ * import { OPFSModelStore } from '@localmode/opfs';
+ * import { createModelLoader } from '@localmode/core';
+ *
+ * const loader = createModelLoader({ store: new OPFSModelStore() });
+ * await loader.prefetchOne('https://example.com/model.onnx');
+ * ```
+ */
+export class OPFSModelStore implements ModelCacheStore {
+  private directory: FileSystemDirectoryHandle | null = null;
+  private readonly name: string;
+
+  constructor(private readonly options: OPFSModelStoreOptions = {}) {
+    this.name = options.name ?? DEFAULT_CACHE_NAME;
+  }
+
+  // --------------------------------------------------------------------------
+  // Lifecycle
+  // --------------------------------------------------------------------------
+
+  async open(): Promise<boolean> {
+    if (this.directory) return true;
+
+    try {
+      const root = this.options.directory ?? (await getRootDirectory());
+      this.directory = await root.getDirectoryHandle(this.name, { create: true });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  close(): void {
+    this.directory = null;
+  }
+
+  // --------------------------------------------------------------------------
+  // Chunk Operations
+  // --------------------------------------------------------------------------
+
+  async writeChunk(modelId: string, chunkIndex: number, data: ArrayBuffer): Promise<void> {
+    const directory = this.directory;
+    if (!directory) return;
+
+    const meta = await this.readMetadata(modelId);
+    if (!meta) return;
+
+    const file = await openFile(directory, dataFile(modelId));
+    try {
+      file.write(chunkIndex * meta.chunkSize, new Uint8Array(data));
+    } finally {
+      await file.close();
+    }
+  }
+
+  async getChunkCount(modelId: string): Promise<number> {
+    const directory = this.directory;
+    if (!directory) return 0;
+
+    const meta = await this.readMetadata(modelId);
+    if (!meta) return 0;
+
+    const size = await fileSize(directory, dataFile(modelId));
+    // Chunks are written in order, and only the last one can be short
+    if (meta.totalBytes > 0 && size >= meta.totalBytes) return meta.chunkCount;
+    return Math.min(Math.floor(size / meta.chunkSize), meta.chunkCount);
+  }
+
+  async getBlob(modelId: string): Promise<Blob | null> {
+    const directory = this.directory;
+    if (!directory) return null;
+
+    const meta = await this.readMetadata(modelId);
+    if (!meta || meta.status !== 'complete') return null;
+
+    let file: File;
+    try {
+      file = await (await directory.getFileHandle(dataFile(modelId))).getFile();
+    } catch {
+      return null;
+    }
+    if (file.size !== meta.totalBytes) return null;
+
+    // Touch lastAccessed
+    meta.lastAccessed = new Date();
+    await this.writeMetadata(meta);
+
+    return file;
+  }
+
+  // --------------------------------------------------------------------------
+  // Metadata Operations
+  // --------------------------------------------------------------------------
+
+  async writeMetadata(record: ModelMetadataRecord): Promise<void> {
+    const directory = this.directory;
+    if (!directory) return;
+
+    await writeJSON(directory, metadataFile(record.modelId), {
+      ...record,
+      lastAccessed: record.lastAccessed.toISOString(),
+      createdAt: record.createdAt.toISOString(),
+    } satisfies StoredMetadata);
+  }
+
+  async readMetadata(modelId: string): Promise<ModelMetadataRecord | null> {
+    const directory = this.directory;
+    if (!directory) return null;
+
+    const stored = await readJSON<StoredMetadata>(directory, metadataFile(modelId));
+    return stored ? toRecord(stored) : null;
+  }
+
+  async getAllMetadata(): Promise<ModelMetadataRecord[]> {
+    const directory = this.directory;
+    if (!directory) return [];
+
+    const records: ModelMetadataRecord[] = [];
+    for (const name of await listFiles(directory)) {
+      if (!name.endsWith('.json')) continue;
+      const stored = await readJSON<StoredMetadata>(directory, name);
+      if (stored) records.push(toRecord(stored));
+    }
+    return records;
+  }
+
+  // --------------------------------------------------------------------------
+  // Delete Operations
+  // --------------------------------------------------------------------------
+
+  async deleteModel(modelId: string): Promise<void> {
+    const directory = this.directory;
+    if (!directory) return;
+
+    await removeEntry(directory, dataFile(modelId));
+    await removeEntry(directory, metadataFile(modelId));
+  }
+}
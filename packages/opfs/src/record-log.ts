@@ -0,0 +1,354 @@
+/**
+ * Record Log
+ *
+ * Append-only file of keyed records. Each write appends one frame:
+ *
+ * ```
+ * u32 frame length | u32 key length | u32 body length | key | body
+ * ```
+ *
+ * Numbers are little-endian, and the key and body are padded to 4 bytes so a
+ * body of float32 values can be viewed in place in the buffer the file is read
+ * into. A body length of `0xffffffff` deletes the key. The latest frame of a
+ * key wins, so reading the file once rebuilds the index of live records.
+ *
+ * When superseded frames outweigh live ones, the live frames are copied to the
+ * file of the next generation (`<base>.<generation>.log`). The copy ends with a
+ * marker frame; a newer file without one was interrupted and is discarded.
+ *
+ * @packageDocumentation
+ */
+
+import { openFile, removeEntry, type BinaryFile } from './files.js';
+
+/** Size of a frame header in bytes. */
+const HEADER_BYTES = 12;
+
+/** Body length of a frame that deletes its key. */
+const DELETED = 0xffffffff;
+
+/** Key length of the frame that ends a compacted copy. */
+const MARKER = 0xffffffff;
+
+/** Default amount of superseded frames below which the file is not compacted. */
+const DEFAULT_MIN_COMPACT_BYTES = 1024 * 1024;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Location of a live record's body in the file.
+ */
+export interface RecordLocation {
+  /** Byte offset of the body. */
+  offset: number;
+  /** Length of the body in bytes. */
+  length: number;
+  /** Byte offset of the frame. */
+  frameOffset: number;
+  /** Length of the frame in bytes. */
+  frameLength: number;
+}
+
+/**
+ * Round a length up to a multiple of 4.
+ */
+function pad(length: number): number {
+  return (length + 3) & ~3;
+}
+
+/**
+ * Encode one frame.
+ *
+ * @param key - Record key, or `null` for the marker frame
+ * @param body - Record body, or `null` to delete the key
+ */
+function encodeFrame(key: string | null, body: Uint8Array | null): Uint8Array {
+  const keyBytes = key === null ? new Uint8Array(0) : encoder.encode(key);
+  const length = HEADER_BYTES + pad(keyBytes.byteLength) + (body ? pad(body.byteLength) : 0);
+  const frame = new Uint8Array(length);
+  const view = new DataView(frame.buffer);
+  view.setUint32(0, length, true);
+  view.setUint32(4, key === null ? MARKER : keyBytes.byteLength, true);
+  view.setUint32(8, body ? body.byteLength : DELETED, true);
+  frame.set(keyBytes, HEADER_BYTES);
+  if (body) frame.set(body, HEADER_BYTES + pad(keyBytes.byteLength));
+  return frame;
+}
+
+/**
+ * File name of a generation of a log.
+ */
+function generationFile(base: string, generation: number): string {
+  return `${base}.${generation}.log`;
+}
+
+/**
+ * An append-only log of keyed records in one OPFS file.
+ *
+ * @example
+ * ```typescript
+ * const log = await RecordLog.open(directory, 'documents', await listFiles(directory));
+ * const buffer = await log.load();
+ * for (const [key, { offset, length }] of log.entries()) {
+ *   console.log(key, buffer.subarray(offset, offset + length));
+ * }
+ * log.put('doc-1', body);
+ * await log.flush();
+ * ```
+ */
+export class RecordLog {
+  private index = new Map<string, RecordLocation>();
+  /** Bytes of the frames of live records. */
+  private liveBytes = 0;
+  /** Whether the file has been read since it was opened. */
+  private loaded = false;
+
+  private constructor(
+    private directory: FileSystemDirectoryHandle,
+    private base: string,
+    private generation: number,
+    private file: BinaryFile,
+    private minCompactBytes: number
+  ) {}
+
+  /**
+   * Open the log stored under a base name, resolving a compaction that was
+   * interrupted.
+   *
+   * @param directory - Directory containing the log
+   * @param base - Base name of the log's files
+   * @param names - Names of the files in the directory
+   * @param minCompactBytes - Superseded bytes below which the log is not compacted
+   */
+  static async open(
+    directory: FileSystemDirectoryHandle,
+    base: string,
+    names: string[],
+    minCompactBytes = DEFAULT_MIN_COMPACT_BYTES
+  ): Promise<RecordLog> {
+    const generations = RecordLog.generations(base, names).sort((a, b) => b - a);
+    const newest = generations[0] ?? 0;
+    const log = new RecordLog(
+      directory,
+      base,
+      newest,
+      await openFile(directory, generationFile(base, newest)),
+      minCompactBytes
+    );
+    // A new log has nothing to read
+    log.loaded = log.file.size === 0;
+    if (generations.length > 1) {
+      // Keep the newest file only if its copy was completed
+      const complete = await log.scan();
+      const stale = complete ? generations.slice(1) : [newest];
+      if (!complete) {
+        await log.file.close();
+        log.generation = generations[1];
+        log.file = await openFile(directory, generationFile(base, generations[1]));
+        log.index.clear();
+        log.liveBytes = 0;
+        log.loaded = false;
+      }
+      for (const generation of stale) {
+        await removeEntry(directory, generationFile(base, generation));
+      }
+    }
+    return log;
+  }
+
+  /**
+   * Generations of the log found among file names.
+   */
+  static generations(base: string, names: string[]): number[] {
+    const prefix = `${base}.`;
+    return names
+      .filter((name) => name.startsWith(prefix) && name.endsWith('.log'))
+      .map((name) => Number(name.slice(prefix.length, -'.log'.length)))
+      .filter((generation) => Number.isInteger(generation) && generation >= 0);
+  }
+
+  /** Size of the file in bytes. */
+  get size(): number {
+    return this.file.size;
+  }
+
+  /** Whether writes are buffered until {@link flush}, which then copies the file. */
+  get buffered(): boolean {
+    return this.file.buffered;
+  }
+
+  /** Whether the file has been read since it was opened. */
+  get isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  /**
+   * Read the whole file in one read and rebuild the index.
+   *
+   * @returns The file contents; {@link entries} locate the live bodies in it.
+   */
+  async load(): Promise<Uint8Array> {
+    const buffer = await this.file.read(0, this.file.size);
+    this.parse(buffer);
+    return buffer;
+  }
+
+  /** Keys and body locations of the live records. */
+  entries(): IterableIterator<[string, RecordLocation]> {
+    return this.index.entries();
+  }
+
+  /** Keys of the live records. */
+  keys(): IterableIterator<string> {
+    return this.index.keys();
+  }
+
+  /** Whether a key has a live record. */
+  has(key: string): boolean {
+    return this.index.has(key);
+  }
+
+  /** Read the body of a record, or `null` if the key has none. */
+  async get(key: string): Promise<Uint8Array | null> {
+    const location = this.index.get(key);
+    if (!location) return null;
+    return this.file.read(location.offset, location.length);
+  }
+
+  /** Add or replace a record. */
+  put(key: string, body: Uint8Array): void {
+    const frame = encodeFrame(key, body);
+    const frameOffset = this.file.size;
+    this.file.write(frameOffset, frame);
+    this.forget(key);
+    this.index.set(key, {
+      offset: frameOffset + frame.byteLength - pad(body.byteLength),
+      length: body.byteLength,
+      frameOffset,
+      frameLength: frame.byteLength,
+    });
+    this.liveBytes += frame.byteLength;
+  }
+
+  /** Delete a record. */
+  delete(key: string): void {
+    if (!this.index.has(key)) return;
+    this.file.write(this.file.size, encodeFrame(key, null));
+    this.forget(key);
+  }
+
+  /**
+   * Persist the writes, compacting the log first when superseded frames
+   * outweigh live ones.
+   */
+  async flush(): Promise<void> {
+    const superseded = this.file.size - this.liveBytes;
+    if (this.loaded && superseded > this.minCompactBytes && superseded > this.liveBytes) {
+      await this.compact();
+    }
+    await this.file.flush();
+  }
+
+  /**
+   * Copy the live records to the file of the next generation and remove the
+   * current file.
+   */
+  async compact(): Promise<void> {
+    const buffer = await this.file.read(0, this.file.size);
+    const copy = new Uint8Array(this.liveBytes + HEADER_BYTES);
+    const index = new Map<string, RecordLocation>();
+    let offset = 0;
+    for (const [key, location] of this.index) {
+      const { frameOffset, frameLength } = location;
+      copy.set(buffer.subarray(frameOffset, frameOffset + frameLength), offset);
+      index.set(key, { ...location, offset: offset + location.offset - frameOffset, frameOffset: offset });
+      offset += frameLength;
+    }
+    copy.set(encodeFrame(null, null), offset);
+
+    const next = await openFile(this.directory, generationFile(this.base, this.generation + 1));
+    next.write(0, copy);
+    next.truncate(copy.byteLength);
+    await next.flush();
+
+    await this.file.close();
+    await removeEntry(this.directory, generationFile(this.base, this.generation));
+    this.file = next;
+    this.generation++;
+    this.index = index;
+  }
+
+  /** Persist the writes and release the file. */
+  async close(): Promise<void> {
+    await this.file.close();
+  }
+
+  /** Release and remove every file of the log. */
+  async destroy(): Promise<void> {
+    await this.file.close();
+    await removeEntry(this.directory, generationFile(this.base, this.generation));
+    this.index.clear();
+    this.liveBytes = 0;
+  }
+
+  /**
+   * Read the file and report whether it contains a marker frame.
+   */
+  private async scan(): Promise<boolean> {
+    return this.parse(await this.file.read(0, this.file.size));
+  }
+
+  /**
+   * Rebuild the index from the file contents, dropping a frame cut short by a
+   * crash.
+   *
+   * @returns Whether the contents contain a marker frame.
+   */
+  private parse(buffer: Uint8Array): boolean {
+    const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    this.index.clear();
+    this.liveBytes = 0;
+    let marked = false;
+    let offset = 0;
+
+    while (offset + HEADER_BYTES <= buffer.byteLength) {
+      const frameLength = view.getUint32(offset, true);
+      if (frameLength < HEADER_BYTES || offset + frameLength > buffer.byteLength) break;
+
+      const keyLength = view.getUint32(offset + 4, true);
+      const bodyLength = view.getUint32(offset + 8, true);
+      if (keyLength === MARKER) {
+        marked = true;
+      } else {
+        const key = decoder.decode(buffer.subarray(offset + HEADER_BYTES, offset + HEADER_BYTES + keyLength));
+        this.forget(key);
+        if (bodyLength !== DELETED) {
+          this.index.set(key, {
+            offset: offset + HEADER_BYTES + pad(keyLength),
+            length: bodyLength,
+            frameOffset: offset,
+            frameLength,
+          });
+          this.liveBytes += frameLength;
+        }
+      }
+      offset += frameLength;
+    }
+
+    if (offset < buffer.byteLength) this.file.truncate(offset);
+    this.loaded = true;
+    return marked;
+  }
+
+  /**
+   * Drop the live record of a key from the index.
+   */
+  private forget(key: string): void {
+    const previous = this.index.get(key);
+    if (previous) {
+      this.liveBytes -= previous.frameLength;
+      this.index.delete(key);
+    }
+  }
+}
@@ -0,0 +1,495 @@
+/**
+ * OPFS Storage Implementation
+ *
+ * Storage adapter that keeps VectorDB data in files in the Origin Private
+ * File System. Implements the {@link StorageAdapter} interface from
+ * `@localmode/core`.
+ *
+ * Files in the database directory:
+ * - `documents.<n>.log` — document records of every collection
+ * - `vectors-<collection>.<n>.log` — float32 vectors of one collection, back to back
+ * - `collections.json` — collection records
+ * - `index-<collection>.json` — serialized HNSW index of one collection
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  StorageAdapter,
+  StoredDocument,
+  StoredVector,
+  Collection,
+  CollectionRecord,
+  SerializedHNSWIndex,
+} from '@localmode/core';
+import { serializeCollection, deserializeCollection } from '@localmode/core';
+import {
+  getRootDirectory,
+  listFiles,
+  removeEntry,
+  readJSON,
+  writeJSON,
+  fileSize,
+  encodeFileName,
+  decodeFileName,
+} from './files.js';
+import { RecordLog } from './record-log.js';
+import type { OPFSStorageOptions } from './types.js';
+
+const DOCUMENTS_LOG = 'documents';
+const VECTORS_PREFIX = 'vectors-';
+const COLLECTIONS_FILE = 'collections.json';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * File name of the HNSW index of a collection.
+ */
+function indexFile(collectionId: string): string {
+  return `index-${encodeFileName(collectionId)}.json`;
+}
+
+/**
+ * Base name of the vector log of a collection.
+ */
+function vectorsLog(collectionId: string): string {
+  return `${VECTORS_PREFIX}${encodeFileName(collectionId)}`;
+}
+
+/**
+ * View a record body as float32 values without copying.
+ */
+function toFloat32(body: Uint8Array): Float32Array {
+  return new Float32Array(body.buffer, body.byteOffset, body.byteLength / 4);
+}
+
+/**
+ * OPFS storage adapter for VectorDB.
+ *
+ * Each collection's vectors live back to back in one binary file, so loading
+ * a collection is a single sequential read. Writes are appended to the files
+ * and the files are compacted once replaced records outweigh live ones.
+ *
+ * In a dedicated worker, files are opened with sync access handles, which
+ * read and write in place; {@link OPFSWorkerStorage} runs the adapter in one
+ * from the main thread. Without them the adapter falls back to writable
+ * streams, which browsers implement by copying the file, so writes are kept
+ * in memory until {@link flush} or {@link close}. VectorDB flushes once at the
+ * end of each write operation, so `addMany()` copies each file once.
+ *
+ * Sync access handles lock their files, so one `OPFSStorage` at a time can
+ * use a directory.
+ *
+ * @example
+ * ```typescript
+ * // In a dedicated worker
+ * import { OPFSStorage } from '@localmode/opfs';
+ * import { createVectorDB } from '@localmode/core';
+ *
+ * const storage = new OPFSStorage({ name: 'my-app' });
+ * const db = await createVectorDB({
+ *   name: 'my-app',
+ *   dimensions: 384,
+ *   storage,
+ * });
+ * ```
+ */
+export class OPFSStorage implements StorageAdapter {
+  private directory: FileSystemDirectoryHandle | null = null;
+  private documentLog: RecordLog | null = null;
+  private documents = new Map<string, StoredDocument>();
+  private collections = new Map<string, Collection>();
+  /** Vector logs by collection ID */
+  private vectorLogs = new Map<string, RecordLog>();
+  /** Collection ID of each vector in the loaded vector logs */
+  private vectorCollections = new Map<string, string>();
+  /** Logs with buffered writes that {@link flush} has yet to persist */
+  private unflushed = new Set<RecordLog>();
+  /** Runs operations one at a time */
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly options: OPFSStorageOptions;
+
+  constructor(options: OPFSStorageOptions) {
+    this.options = options;
+  }
+
+  // ============================================
+  // Lifecycle
+  // ============================================
+
+  async open(): Promise<void> {
+    if (this.directory) return;
+
+    const root = this.options.directory ?? (await getRootDirectory());
+    const directory = await root.getDirectoryHandle(this.options.name, { create: true });
+    const names = await listFiles(directory);
+
+    this.documentLog = await RecordLog.open(directory, DOCUMENTS_LOG, names);
+    const buffer = await this.documentLog.load();
+    for (const [id, { offset, length }] of this.documentLog.entries()) {
+      this.documents.set(id, JSON.parse(decoder.decode(buffer.subarray(offset, offset + length))));
+    }
+
+    const collections = (await readJSON<CollectionRecord[]>(directory, COLLECTIONS_FILE)) ?? [];
+    for (const record of collections) {
+      this.collections.set(record.id, deserializeCollection(record));
+    }
+
+    // Vector logs are read when their collection is first used
+    const collectionIds = new Set(
+      names
+        .filter((name) => name.startsWith(VECTORS_PREFIX) && name.endsWith('.log'))
+        .map((name) => decodeFileName(name.slice(VECTORS_PREFIX.length).replace(/\.\d+\.log$/, '')))
+    );
+    for (const collectionId of collectionIds) {
+      this.vectorLogs.set(collectionId, await RecordLog.open(directory, vectorsLog(collectionId), names));
+    }
+
+    this.directory = directory;
+  }
+
+  async close(): Promise<void> {
+    if (!this.directory) return;
+
+    await this.exclusive(async () => {
+      await this.documentLog?.close();
+      for (const log of this.vectorLogs.values()) {
+        await log.close();
+      }
+    });
+    this.directory = null;
+    this.documentLog = null;
+    this.unflushed.clear();
+    this.documents.clear();
+    this.collections.clear();
+    this.vectorLogs.clear();
+    this.vectorCollections.clear();
+  }
+
+  /**
+   * Ensure the storage is open, throwing if not.
+   */
+  private ensureOpen(): FileSystemDirectoryHandle {
+    if (!this.directory) {
+      throw new Error('Database not open. Call open() first.');
+    }
+    return this.directory;
+  }
+
+  // ============================================
+  // Document Operations
+  // ============================================
+
+  async addDocument(doc: StoredDocument): Promise<void> {
+    this.ensureOpen();
+    const record: StoredDocument = {
+      id: doc.id,
+      collectionId: doc.collectionId,
+      metadata: doc.metadata,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    };
+    await this.exclusive(async () => {
+      this.documentLog!.put(doc.id, encoder.encode(JSON.stringify(record)));
+      this.documents.set(doc.id, record);
+      await this.persist(this.documentLog!);
+    });
+  }
+
+  async getDocument(id: string): Promise<StoredDocument | null> {
+    this.ensureOpen();
+    const doc = this.documents.get(id);
+    return doc ? { ...doc } : null;
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    this.ensureOpen();
+    await this.exclusive(async () => {
+      this.documentLog!.delete(id);
+      this.documents.delete(id);
+      await this.persist(this.documentLog!);
+    });
+  }
+
+  async getAllDocuments(collectionId: string): Promise<StoredDocument[]> {
+    this.ensureOpen();
+    const docs: StoredDocument[] = [];
+    for (const doc of this.documents.values()) {
+      if (doc.collectionId === collectionId) docs.push({ ...doc });
+    }
+    return docs;
+  }
+
+  async countDocuments(collectionId: string): Promise<number> {
+    this.ensureOpen();
+    let count = 0;
+    for (const doc of this.documents.values()) {
+      if (doc.collectionId === collectionId) count++;
+    }
+    return count;
+  }
+
+  // ============================================
+  // Vector Operations
+  // ============================================
+
+  async addVector(vec: StoredVector): Promise<void> {
+    this.ensureOpen();
+    const vector = vec.vector instanceof Float32Array ? vec.vector : Float32Array.from(vec.vector);
+
+    await this.exclusive(async () => {
+      // Vector IDs are unique across collections
+      await this.loadVectorLogs();
+      const previous = this.vectorCollections.get(vec.id);
+      if (previous !== undefined && previous !== vec.collectionId) {
+        const log = this.vectorLogs.get(previous)!;
+        log.delete(vec.id);
+        await this.persist(log);
+      }
+
+      const log = await this.vectorLog(vec.collectionId);
+      log.put(vec.id, new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength));
+      this.vectorCollections.set(vec.id, vec.collectionId);
+      await this.persist(log);
+    });
+  }
+
+  async getVector(id: string): Promise<Float32Array | null> {
+    this.ensureOpen();
+    return this.exclusive(async () => {
+      const log = await this.findVectorLog(id);
+      const body = await log?.get(id);
+      return body ? toFloat32(body) : null;
+    });
+  }
+
+  async deleteVector(id: string): Promise<void> {
+    this.ensureOpen();
+    await this.exclusive(async () => {
+      const log = await this.findVectorLog(id);
+      if (!log) return;
+      log.delete(id);
+      this.vectorCollections.delete(id);
+      await this.persist(log);
+    });
+  }
+
+  async getAllVectors(collectionId: string): Promise<Map<string, Float32Array>> {
+    this.ensureOpen();
+    return this.exclusive(async () => {
+      const map = new Map<string, Float32Array>();
+      const log = this.vectorLogs.get(collectionId);
+      if (!log) return map;
+
+      // One read of the whole file; the vectors are views into it
+      const buffer = await log.load();
+      for (const [id, { offset, length }] of log.entries()) {
+        map.set(id, toFloat32(buffer.subarray(offset, offset + length)));
+        this.vectorCollections.set(id, collectionId);
+      }
+      return map;
+    });
+  }
+
+  // ============================================
+  // Index Operations
+  // ============================================
+
+  async saveIndex(collectionId: string, index: SerializedHNSWIndex): Promise<void> {
+    const directory = this.ensureOpen();
+    await this.exclusive(() => writeJSON(directory, indexFile(collectionId), index));
+  }
+
+  async loadIndex(collectionId: string): Promise<SerializedHNSWIndex | null> {
+    const directory = this.ensureOpen();
+    try {
+      return await readJSON<SerializedHNSWIndex>(directory, indexFile(collectionId));
+    } catch {
+      return null;
+    }
+  }
+
+  async deleteIndex(collectionId: string): Promise<void> {
+    const directory = this.ensureOpen();
+    await this.exclusive(() => removeEntry(directory, indexFile(collectionId)));
+  }
+
+  // ============================================
+  // Collection Operations
+  // ============================================
+
+  async createCollection(collection: Collection): Promise<void> {
+    this.ensureOpen();
+    this.collections.set(collection.id, structuredClone(collection));
+    await this.exclusive(() => this.saveCollections());
+  }
+
+  async getCollection(id: string): Promise<Collection | null> {
+    this.ensureOpen();
+    const collection = this.collections.get(id);
+    return collection ? structuredClone(collection) : null;
+  }
+
+  async getCollectionByName(name: string): Promise<Collection | null> {
+    this.ensureOpen();
+    for (const collection of this.collections.values()) {
+      if (collection.name === name) return structuredClone(collection);
+    }
+    return null;
+  }
+
+  async getAllCollections(): Promise<Collection[]> {
+    this.ensureOpen();
+    return [...this.collections.values()].map((collection) => structuredClone(collection));
+  }
+
+  async updateCollection(collection: Collection): Promise<void> {
+    await this.createCollection(collection);
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    this.ensureOpen();
+    this.collections.delete(id);
+    await this.exclusive(() => this.saveCollections());
+  }
+
+  // ============================================
+  // Utility Operations
+  // ============================================
+
+  async clear(): Promise<void> {
+    const directory = this.ensureOpen();
+    await this.exclusive(async () => {
+      for (const log of this.vectorLogs.values()) {
+        await log.destroy();
+        this.unflushed.delete(log);
+      }
+      this.vectorLogs.clear();
+      this.vectorCollections.clear();
+
+      for (const id of this.documents.keys()) {
+        this.documentLog!.delete(id);
+      }
+      this.documents.clear();
+      await this.persist(this.documentLog!);
+
+      for (const name of await listFiles(directory)) {
+        if (name === COLLECTIONS_FILE || name.startsWith('index-')) {
+          await removeEntry(directory, name);
+        }
+      }
+      this.collections.clear();
+    });
+  }
+
+  async clearCollection(collectionId: string): Promise<void> {
+    const directory = this.ensureOpen();
+    await this.exclusive(async () => {
+      for (const doc of [...this.documents.values()]) {
+        if (doc.collectionId !== collectionId) continue;
+        this.documentLog!.delete(doc.id);
+        this.documents.delete(doc.id);
+      }
+      await this.persist(this.documentLog!);
+
+      const log = this.vectorLogs.get(collectionId);
+      if (log) {
+        await log.destroy();
+        this.unflushed.delete(log);
+        this.vectorLogs.delete(collectionId);
+        for (const [id, owner] of this.vectorCollections) {
+          if (owner === collectionId) this.vectorCollections.delete(id);
+        }
+      }
+
+      await removeEntry(directory, indexFile(collectionId));
+    });
+  }
+
+  /**
+   * Persist the writes buffered without sync access handles. Writes through
+   * sync access handles are persisted as they are made.
+   */
+  async flush(): Promise<void> {
+    this.ensureOpen();
+    await this.exclusive(async () => {
+      for (const log of this.unflushed) {
+        await log.flush();
+      }
+      this.unflushed.clear();
+    });
+  }
+
+  async estimateSize(): Promise<number> {
+    const directory = this.ensureOpen();
+    let size = this.documentLog!.size;
+    for (const log of this.vectorLogs.values()) {
+      size += log.size;
+    }
+    for (const name of await listFiles(directory)) {
+      if (name.endsWith('.json')) size += await fileSize(directory, name);
+    }
+    return size;
+  }
+
+  // ============================================
+  // Private Helpers
+  // ============================================
+
+  /**
+   * Get the vector log of a collection, creating it if needed.
+   */
+  private async vectorLog(collectionId: string): Promise<RecordLog> {
+    let log = this.vectorLogs.get(collectionId);
+    if (!log) {
+      log = await RecordLog.open(this.ensureOpen(), vectorsLog(collectionId), []);
+      this.vectorLogs.set(collectionId, log);
+    }
+    return log;
+  }
+
+  /**
+   * Find the vector log holding a vector.
+   */
+  private async findVectorLog(id: string): Promise<RecordLog | null> {
+    if (!this.vectorCollections.has(id)) await this.loadVectorLogs();
+    const collectionId = this.vectorCollections.get(id);
+    return collectionId === undefined ? null : (this.vectorLogs.get(collectionId) ?? null);
+  }
+
+  /**
+   * Index the vector logs that have not been read yet.
+   */
+  private async loadVectorLogs(): Promise<void> {
+    for (const [collectionId, log] of this.vectorLogs) {
+      if (log.isLoaded) continue;
+      await log.load();
+      for (const id of log.keys()) {
+        this.vectorCollections.set(id, collectionId);
+      }
+    }
+  }
+
+  /**
+   * Persist a log's writes now, or at the next {@link flush} if its file
+   * buffers them.
+   */
+  private async persist(log: RecordLog): Promise<void> {
+    if (log.buffered) {
+      this.unflushed.add(log);
+    } else {
+      await log.flush();
+    }
+  }
+
+  private async saveCollections(): Promise<void> {
+    await writeJSON(this.ensureOpen(), COLLECTIONS_FILE, [...this.collections.values()].map(serializeCollection));
+  }
+
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(operation, operation);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * OPFS Storage Types
+ *
+ * Configuration types for the OPFS storage adapter and model cache store.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Configuration options for OPFSStorage.
+ *
+ * @example
+ * ```typescript
+ * const storage = new OPFSStorage({ name: 'my-app' });
+ * ```
+ */
+export interface OPFSStorageOptions {
+  /** Name of the directory holding the database files. */
+  name: string;
+
+  /**
+   * Directory to create the database directory in.
+   * Default: the OPFS root (`navigator.storage.getDirectory()`).
+   */
+  directory?: FileSystemDirectoryHandle;
+}
+
+/**
+ * Configuration options for OPFSModelStore.
+ *
+ * @example
+ * ```typescript
+ * const loader = createModelLoader({ store: new OPFSModelStore() });
+ * ```
+ */
+export interface OPFSModelStoreOptions {
+  /** Name of the directory holding the cached models. Default: `'localmode-model-cache'` */
+  name?: string;
+
+  /**
+   * Directory to create the cache directory in.
+   * Default: the OPFS root (`navigator.storage.getDirectory()`).
+   */
+  directory?: FileSystemDirectoryHandle;
+}
+
+/**
+ * Configuration options for OPFSWorkerStorage.
+ *
+ * @example
+ * ```typescript
+ * const storage = new OPFSWorkerStorage({
+ *   name: 'my-app',
+ *   worker: new Worker(new URL('@localmode/opfs/worker', import.meta.url), { type: 'module' }),
+ * });
+ * ```
+ */
+export interface OPFSWorkerStorageOptions extends OPFSStorageOptions {
+  /** Worker running the `@localmode/opfs/worker` entry, or calling `serveOPFSStorage()`. */
+  worker: Worker;
+}
+
+/**
+ * Methods of the storage adapter that OPFSWorkerStorage runs in its worker.
+ */
+export type OPFSWorkerMethod =
+  | 'open'
+  | 'close'
+  | 'flush'
+  | 'addDocument'
+  | 'getDocument'
+  | 'deleteDocument'
+  | 'getAllDocuments'
+  | 'countDocuments'
+  | 'addVector'
+  | 'getVector'
+  | 'deleteVector'
+  | 'getAllVectors'
+  | 'saveIndex'
+  | 'loadIndex'
+  | 'deleteIndex'
+  | 'createCollection'
+  | 'getCollection'
+  | 'getCollectionByName'
+  | 'getAllCollections'
+  | 'updateCollection'
+  | 'deleteCollection'
+  | 'clear'
+  | 'clearCollection'
+  | 'estimateSize';
+
+/**
+ * Message sent to the storage worker. `open` takes the {@link OPFSStorageOptions}.
+ */
+export interface OPFSWorkerRequest {
+  id: number;
+  method: OPFSWorkerMethod;
+  args: unknown[];
+}
+
+/**
+ * Message sent back by the storage worker.
+ */
+export interface OPFSWorkerResponse {
+  id: number;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * The parts of a worker's global scope the storage worker uses.
+ */
+export interface OPFSWorkerScope {
+  postMessage(message: OPFSWorkerResponse): void;
+  onmessage: ((event: MessageEvent<OPFSWorkerRequest>) => void) | null;
+}
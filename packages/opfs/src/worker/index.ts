@@ -0,0 +1,9 @@
+/**
+ * Worker entry point.
+ * Load this file as a module worker and pass it to `OPFSWorkerStorage`.
+ */
+
+import type { OPFSWorkerScope } from '../types.js';
+import { serveOPFSStorage } from './storage.worker.js';
+
+serveOPFSStorage(self as unknown as OPFSWorkerScope);
@@ -0,0 +1,211 @@
+/**
+ * OPFS Worker Storage
+ *
+ * Main thread proxy for an {@link OPFSStorage} running in a dedicated worker.
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  StorageAdapter,
+  StoredDocument,
+  StoredVector,
+  Collection,
+  SerializedHNSWIndex,
+} from '@localmode/core';
+import type {
+  OPFSStorageOptions,
+  OPFSWorkerStorageOptions,
+  OPFSWorkerMethod,
+  OPFSWorkerRequest,
+  OPFSWorkerResponse,
+} from '../types.js';
+
+/**
+ * OPFS storage adapter that runs in a dedicated worker.
+ *
+ * Sync access handles, which read and write files in place, are only
+ * available in dedicated workers. This adapter sends every storage call to
+ * an {@link OPFSStorage} in the worker, so a VectorDB on the main thread gets
+ * in-place writes. The worker runs the `@localmode/opfs/worker` entry, or a
+ * script of your own that calls `serveOPFSStorage()`.
+ *
+ * `close()` closes the storage but leaves the worker running; terminate it
+ * yourself when it is no longer needed.
+ *
+ * @example
+ * ```typescript
+ * import { OPFSWorkerStorage } from '@localmode/opfs';
+ * import { createVectorDB } from '@localmode/core';
+ *
+ * const storage = new OPFSWorkerStorage({
+ *   name: 'my-app',
+ *   worker: new Worker(new URL('@localmode/opfs/worker', import.meta.url), { type: 'module' }),
+ * });
+ * const db = await createVectorDB({
+ *   name: 'my-app',
+ *   dimensions: 384,
+ *   storage,
+ * });
+ * ```
+ */
+export class OPFSWorkerStorage implements StorageAdapter {
+  private worker: Worker;
+  private options: OPFSStorageOptions;
+  private messageId = 0;
+  private pendingRequests = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (error: Error) => void }
+  >();
+
+  constructor({ worker, ...options }: OPFSWorkerStorageOptions) {
+    this.worker = worker;
+    this.options = options;
+
+    this.worker.onmessage = (event: MessageEvent<OPFSWorkerResponse>) => {
+      const response = event.data;
+      const pending = this.pendingRequests.get(response.id);
+      if (!pending) return;
+
+      this.pendingRequests.delete(response.id);
+      if (response.success) {
+        pending.resolve(response.result);
+      } else {
+        pending.reject(new Error(response.error ?? 'Unknown error'));
+      }
+    };
+  }
+
+  /**
+   * Send a call to the worker and wait for its result.
+   */
+  private send<T>(method: OPFSWorkerMethod, ...args: unknown[]): Promise<T> {
+    const id = ++this.messageId;
+
+    return new Promise((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve: resolve as (value: unknown) => void, reject });
+      const request: OPFSWorkerRequest = { id, method, args };
+      this.worker.postMessage(request);
+    });
+  }
+
+  // ============================================
+  // Lifecycle
+  // ============================================
+
+  open(): Promise<void> {
+    return this.send('open', this.options);
+  }
+
+  close(): Promise<void> {
+    return this.send('close');
+  }
+
+  // ============================================
+  // Document Operations
+  // ============================================
+
+  addDocument(doc: StoredDocument): Promise<void> {
+    return this.send('addDocument', doc);
+  }
+
+  getDocument(id: string): Promise<StoredDocument | null> {
+    return this.send('getDocument', id);
+  }
+
+  deleteDocument(id: string): Promise<void> {
+    return this.send('deleteDocument', id);
+  }
+
+  getAllDocuments(collectionId: string): Promise<StoredDocument[]> {
+    return this.send('getAllDocuments', collectionId);
+  }
+
+  countDocuments(collectionId: string): Promise<number> {
+    return this.send('countDocuments', collectionId);
+  }
+
+  // ============================================
+  // Vector Operations
+  // ============================================
+
+  addVector(vec: StoredVector): Promise<void> {
+    return this.send('addVector', vec);
+  }
+
+  getVector(id: string): Promise<Float32Array | null> {
+    return this.send('getVector', id);
+  }
+
+  deleteVector(id: string): Promise<void> {
+    return this.send('deleteVector', id);
+  }
+
+  getAllVectors(collectionId: string): Promise<Map<string, Float32Array>> {
+    return this.send('getAllVectors', collectionId);
+  }
+
+  // ============================================
+  // Index Operations
+  // ============================================
+
+  saveIndex(collectionId: string, index: SerializedHNSWIndex): Promise<void> {
+    return this.send('saveIndex', collectionId, index);
+  }
+
+  loadIndex(collectionId: string): Promise<SerializedHNSWIndex | null> {
+    return this.send('loadIndex', collectionId);
+  }
+
+  deleteIndex(collectionId: string): Promise<void> {
+    return this.send('deleteIndex', collectionId);
+  }
+
+  // ============================================
+  // Collection Operations
+  // ============================================
+
+  createCollection(collection: Collection): Promise<void> {
+    return this.send('createCollection', collection);
+  }
+
+  getCollection(id: string): Promise<Collection | null> {
+    return this.send('getCollection', id);
+  }
+
+  getCollectionByName(name: string): Promise<Collection | null> {
+    return this.send('getCollectionByName', name);
+  }
+
+  getAllCollections(): Promise<Collection[]> {
+    return this.send('getAllCollections');
+  }
+
+  updateCollection(collection: Collection): Promise<void> {
+    return this.send('updateCollection', collection);
+  }
+
+  deleteCollection(id: string): Promise<void> {
+    return this.send('deleteCollection', id);
+  }
+
+  // ============================================
+  // Utility Operations
+  // ============================================
+
+  clear(): Promise<void> {
+    return this.send('clear');
+  }
+
+  clearCollection(collectionId: string): Promise<void> {
+    return this.send('clearCollection', collectionId);
+  }
+
+  flush(): Promise<void> {
+    return this.send('flush');
+  }
+
+  estimateSize(): Promise<number> {
+    return this.send('estimateSize');
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * OPFS Storage Worker
+ *
+ * Runs an {@link OPFSStorage} in a dedicated worker, where files are opened
+ * with sync access handles, for {@link OPFSWorkerStorage} on the main thread.
+ *
+ * @packageDocumentation
+ */
+
+import { OPFSStorage } from '../storage.js';
+import type { OPFSStorageOptions, OPFSWorkerScope } from '../types.js';
+
+/**
+ * Answer the storage requests sent to a worker by {@link OPFSWorkerStorage}.
+ *
+ * The `@localmode/opfs/worker` entry calls it on the worker's global scope;
+ * call it yourself to serve storage from a worker of your own.
+ *
+ * @param scope - Global scope of the worker
+ *
+ * @example
+ * ```typescript
+ * // my-worker.ts
+ * import { serveOPFSStorage } from '@localmode/opfs';
+ *
+ * serveOPFSStorage(self);
+ * ```
+ */
+export function serveOPFSStorage(scope: OPFSWorkerScope): void {
+  let storage: OPFSStorage | null = null;
+
+  scope.onmessage = async (event) => {
+    const { id, method, args } = event.data;
+
+    try {
+      let result: unknown;
+
+      if (method === 'open') {
+        storage = new OPFSStorage(args[0] as OPFSStorageOptions);
+        await storage.open();
+      } else {
+        if (!storage) {
+          throw new Error('Database not open. Call open() first.');
+        }
+        const call = storage[method] as (...args: unknown[]) => Promise<unknown>;
+        result = await call.apply(storage, args);
+      }
+
+      scope.postMessage({ id, success: true, result });
+    } catch (error) {
+      scope.postMessage({
+        id,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+}
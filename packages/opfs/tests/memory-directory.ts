@@ -0,0 +1,162 @@
+/**
+ * @fileoverview In-memory stand-in for OPFS directory handles, with sync
+ * access handles (as in a dedicated worker) or without (as on the main thread).
+ */
+
+interface MemoryFile {
+  kind: 'file';
+  name: string;
+  data: Uint8Array;
+  locked: boolean;
+}
+
+interface MemoryDirectory {
+  kind: 'directory';
+  name: string;
+  entries: Map<string, MemoryFile | MemoryDirectory>;
+}
+
+function domError(name: string): DOMException {
+  return new DOMException(name, name);
+}
+
+/** Copy of `data` resized to `size` bytes */
+function resize(data: Uint8Array, size: number): Uint8Array {
+  const resized = new Uint8Array(size);
+  resized.set(data.subarray(0, size));
+  return resized;
+}
+
+/** Copy of `data` with `bytes` written at `position` */
+function writeAt(data: Uint8Array, position: number, bytes: Uint8Array): Uint8Array {
+  const result = resize(data, Math.max(data.byteLength, position + bytes.byteLength));
+  result.set(bytes, position);
+  return result;
+}
+
+function toBytes(data: BufferSource | Blob | string): Uint8Array {
+  if (typeof data === 'string') return new TextEncoder().encode(data);
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  throw new Error('Blob writes are not supported by the memory directory');
+}
+
+interface MemoryDirectoryOptions {
+  syncAccess: boolean;
+  onWritable?: (name: string) => void;
+}
+
+function fileHandle(file: MemoryFile, { syncAccess, onWritable }: MemoryDirectoryOptions) {
+  const handle: Record<string, unknown> = {
+    kind: 'file',
+    name: file.name,
+    async getFile() {
+      return new File([file.data.slice()], file.name);
+    },
+    async createWritable(options?: { keepExistingData?: boolean }) {
+      if (file.locked) throw domError('NoModificationAllowedError');
+      onWritable?.(file.name);
+      let copy = options?.keepExistingData ? file.data.slice() : new Uint8Array(0);
+      return {
+        async write(operation: WriteParams) {
+          if (operation.type === 'write') {
+            copy = writeAt(copy, operation.position ?? copy.byteLength, toBytes(operation.data as BufferSource));
+          } else if (operation.type === 'truncate') {
+            copy = resize(copy, operation.size!);
+          }
+        },
+        async close() {
+          file.data = copy;
+        },
+      };
+    },
+  };
+
+  if (syncAccess) {
+    handle.createSyncAccessHandle = async () => {
+      if (file.locked) throw domError('NoModificationAllowedError');
+      file.locked = true;
+      return {
+        getSize: () => file.data.byteLength,
+        read(buffer: Uint8Array, { at }: { at: number }) {
+          const part = file.data.subarray(at, at + buffer.byteLength);
+          buffer.set(part);
+          return part.byteLength;
+        },
+        write(buffer: Uint8Array, { at }: { at: number }) {
+          file.data = writeAt(file.data, at, buffer);
+          return buffer.byteLength;
+        },
+        truncate(size: number) {
+          file.data = resize(file.data, size);
+        },
+        flush() {},
+        close() {
+          file.locked = false;
+        },
+      };
+    };
+  }
+
+  return handle;
+}
+
+function directoryHandle(directory: MemoryDirectory, settings: MemoryDirectoryOptions): FileSystemDirectoryHandle {
+  return {
+    kind: 'directory',
+    name: directory.name,
+    async getFileHandle(name: string, options?: { create?: boolean }) {
+      let entry = directory.entries.get(name);
+      if (!entry && options?.create) {
+        entry = { kind: 'file', name, data: new Uint8Array(0), locked: false };
+        directory.entries.set(name, entry);
+      }
+      if (entry?.kind !== 'file') throw domError(entry ? 'TypeMismatchError' : 'NotFoundError');
+      return fileHandle(entry, settings);
+    },
+    async getDirectoryHandle(name: string, options?: { create?: boolean }) {
+      let entry = directory.entries.get(name);
+      if (!entry && options?.create) {
+        entry = { kind: 'directory', name, entries: new Map() };
+        directory.entries.set(name, entry);
+      }
+      if (entry?.kind !== 'directory') throw domError(entry ? 'TypeMismatchError' : 'NotFoundError');
+      return directoryHandle(entry, settings);
+    },
+    async removeEntry(name: string) {
+      const entry = directory.entries.get(name);
+      if (!entry) throw domError('NotFoundError');
+      if (entry.kind === 'file' && entry.locked) throw domError('NoModificationAllowedError');
+      directory.entries.delete(name);
+    },
+    async *keys() {
+      yield* [...directory.entries.keys()];
+    },
+  } as unknown as FileSystemDirectoryHandle;
+}
+
+/**
+ * Create an empty in-memory directory.
+ *
+ * @param options.syncAccess - Give file handles `createSyncAccessHandle()`
+ * @param options.onWritable - Called with the file name whenever a writable stream copies a file
+ */
+export function createMemoryDirectory(
+  options: { syncAccess?: boolean; onWritable?: (name: string) => void } = {}
+): FileSystemDirectoryHandle {
+  return directoryHandle(
+    { kind: 'directory', name: '', entries: new Map() },
+    { syncAccess: options.syncAccess ?? false, onWritable: options.onWritable }
+  );
+}
+
+/**
+ * Names of the files in a directory, sorted.
+ */
+export async function fileNames(directory: FileSystemDirectoryHandle): Promise<string[]> {
+  const names: string[] = [];
+  for await (const name of (directory as unknown as { keys(): AsyncIterable<string> }).keys()) {
+    names.push(name);
+  }
+  return names.sort();
+}
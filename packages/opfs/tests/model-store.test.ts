@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Tests for OPFSModelStore
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createModelLoader } from '@localmode/core';
+import type { ModelMetadataRecord } from '@localmode/core';
+import { OPFSModelStore } from '../src/index.js';
+import { createMemoryDirectory, fileNames } from './memory-directory.js';
+
+function metadata(overrides: Partial<ModelMetadataRecord> = {}): ModelMetadataRecord {
+  return {
+    modelId: 'org/model.onnx',
+    url: 'https://example.com/org/model.onnx',
+    totalBytes: 10,
+    chunkCount: 3,
+    chunkSize: 4,
+    status: 'partial',
+    lastAccessed: new Date(1000),
+    createdAt: new Date(1000),
+    ...overrides,
+  };
+}
+
+describe('OPFSModelStore', () => {
+  let directory: FileSystemDirectoryHandle;
+  let store: OPFSModelStore;
+
+  beforeEach(async () => {
+    directory = createMemoryDirectory({ syncAccess: true });
+    store = new OPFSModelStore({ directory });
+    expect(await store.open()).toBe(true);
+  });
+
+  it('returns false from open() without OPFS', async () => {
+    expect(await new OPFSModelStore().open()).toBe(false);
+  });
+
+  it('writes chunks into one file per model', async () => {
+    await store.writeMetadata(metadata());
+    await store.writeChunk('org/model.onnx', 0, new Uint8Array([0, 1, 2, 3]).buffer);
+    await store.writeChunk('org/model.onnx', 1, new Uint8Array([4, 5, 6, 7]).buffer);
+    expect(await store.getChunkCount('org/model.onnx')).toBe(2);
+    expect(await store.getBlob('org/model.onnx')).toBeNull();
+
+    await store.writeChunk('org/model.onnx', 2, new Uint8Array([8, 9]).buffer);
+    await store.writeMetadata(metadata({ status: 'complete' }));
+    expect(await store.getChunkCount('org/model.onnx')).toBe(3);
+
+    const blob = await store.getBlob('org/model.onnx');
+    expect(new Uint8Array(await blob!.arrayBuffer())).toEqual(new Uint8Array([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]));
+    expect((await store.readMetadata('org/model.onnx'))!.lastAccessed.getTime()).toBeGreaterThan(1000);
+
+    const handle = await directory.getDirectoryHandle('localmode-model-cache');
+    expect(await fileNames(handle)).toEqual(['org%2Fmodel%2Eonnx.bin', 'org%2Fmodel%2Eonnx.json']);
+  });
+
+  it('lists and deletes models', async () => {
+    await store.writeMetadata(metadata());
+    await store.writeMetadata(metadata({ modelId: 'other', status: 'complete' }));
+    const all = await store.getAllMetadata();
+    expect(all.map((m) => m.modelId).sort()).toEqual(['org/model.onnx', 'other']);
+    expect(all[0].createdAt).toEqual(new Date(1000));
+
+    await store.deleteModel('org/model.onnx');
+    expect(await store.readMetadata('org/model.onnx')).toBeNull();
+    expect(await store.getAllMetadata()).toHaveLength(1);
+  });
+});
+
+describe('createModelLoader with OPFSModelStore', () => {
+  const model = new Uint8Array(Array.from({ length: 10 }, (_, i) => i));
+
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_url: string, init?: RequestInit) => {
+        if (init?.method === 'HEAD') {
+          return new Response(null, { headers: { 'content-length': '10', 'accept-ranges': 'bytes' } });
+        }
+        const range = (init?.headers as Record<string, string>).Range.match(/bytes=(\d+)-(\d+)/)!;
+        return new Response(model.slice(Number(range[1]), Number(range[2]) + 1), { status: 206 });
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('downloads and serves models from OPFS', async () => {
+    const directory = createMemoryDirectory({ syncAccess: true });
+    const loader = createModelLoader({ store: new OPFSModelStore({ directory }), chunkSize: 4 });
+
+    await loader.prefetchOne('https://example.com/org/model.onnx');
+    expect(await loader.isModelCached('org/model.onnx')).toBe(true);
+    const blob = await loader.getBlob('org/model.onnx');
+    expect(new Uint8Array(await blob!.arrayBuffer())).toEqual(model);
+    await loader.destroy();
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * @fileoverview Tests for OPFSStorage and the record log behind it, with and
+ * without sync access handles.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createVectorDB } from '@localmode/core';
+import type { StorageAdapter, StoredDocument } from '@localmode/core';
+import { OPFSStorage, OPFSWorkerStorage, serveOPFSStorage } from '../src/index.js';
+import type { OPFSWorkerScope } from '../src/index.js';
+import { RecordLog } from '../src/record-log.js';
+import { listFiles } from '../src/files.js';
+import { createMemoryDirectory, fileNames } from './memory-directory.js';
+
+function doc(id: string, collectionId = 'default', metadata: Record<string, unknown> = {}): StoredDocument {
+  return { id, collectionId, metadata, createdAt: 1, updatedAt: 2 };
+}
+
+describe.each([
+  { mode: 'sync access handles', syncAccess: true },
+  { mode: 'writable streams', syncAccess: false },
+])('OPFSStorage with $mode', ({ syncAccess }) => {
+  let directory: FileSystemDirectoryHandle;
+  let storage: OPFSStorage;
+
+  async function reopen() {
+    await storage.close();
+    storage = new OPFSStorage({ name: 'test', directory });
+    await storage.open();
+  }
+
+  beforeEach(async () => {
+    directory = createMemoryDirectory({ syncAccess });
+    storage = new OPFSStorage({ name: 'test', directory });
+    await storage.open();
+  });
+
+  afterEach(async () => {
+    await storage.close();
+  });
+
+  it('implements StorageAdapter', () => {
+    const _check: StorageAdapter = storage;
+    expect(_check).toBeDefined();
+  });
+
+  it('stores, replaces and deletes documents', async () => {
+    expect(await storage.getDocument('missing')).toBeNull();
+
+    await storage.addDocument(doc('a', 'default', { version: 1 }));
+    await storage.addDocument(doc('a', 'default', { version: 2 }));
+    await storage.addDocument(doc('b', 'other'));
+    expect(await storage.getDocument('a')).toEqual(doc('a', 'default', { version: 2 }));
+    expect(await storage.countDocuments('default')).toBe(1);
+    expect((await storage.getAllDocuments('other')).map((d) => d.id)).toEqual(['b']);
+
+    await storage.deleteDocument('a');
+    expect(await storage.getDocument('a')).toBeNull();
+  });
+
+  it('stores vectors per collection', async () => {
+    await storage.addVector({ id: 'a', collectionId: 'default', vector: new Float32Array([1, 2, 3]) });
+    await storage.addVector({ id: 'b', collectionId: 'default', vector: new Float32Array([4, 5, 6]) });
+    await storage.addVector({ id: 'c', collectionId: 'other', vector: new Float32Array([7]) });
+    await storage.addVector({ id: 'a', collectionId: 'default', vector: new Float32Array([1, 1, 1]) });
+
+    expect(await storage.getVector('a')).toEqual(new Float32Array([1, 1, 1]));
+    expect(await storage.getVector('missing')).toBeNull();
+    const vectors = await storage.getAllVectors('default');
+    expect([...vectors.keys()]).toEqual(['b', 'a']);
+    expect(vectors.get('b')).toEqual(new Float32Array([4, 5, 6]));
+    expect((await storage.getAllVectors('none')).size).toBe(0);
+
+    // IDs are unique across collections
+    await storage.addVector({ id: 'c', collectionId: 'default', vector: new Float32Array([8]) });
+    expect((await storage.getAllVectors('other')).size).toBe(0);
+
+    await storage.deleteVector('b');
+    expect(await storage.getVector('b')).toBeNull();
+  });
+
+  it('stores indexes and collections', async () => {
+    const index = { version: 1, dimensions: 3, m: 16, efConstruction: 200, entryPointId: 'a', maxLevel: 0, nodes: [] };
+    await storage.saveIndex('default', index);
+    expect(await storage.loadIndex('default')).toEqual(index);
+    await storage.deleteIndex('default');
+    expect(await storage.loadIndex('default')).toBeNull();
+
+    const collection = { id: 'c1', name: 'docs', dimensions: 3, createdAt: 1 };
+    await storage.createCollection(collection);
+    await storage.updateCollection({ ...collection, indexedFields: ['tag'] });
+    expect(await storage.getCollection('c1')).toEqual({ ...collection, indexedFields: ['tag'] });
+    expect(await storage.getCollectionByName('docs')).toMatchObject({ id: 'c1' });
+    expect(await storage.getAllCollections()).toHaveLength(1);
+    await storage.deleteCollection('c1');
+    expect(await storage.getCollection('c1')).toBeNull();
+  });
+
+  it('keeps everything across sessions', async () => {
+    const ivf = { fingerprint: 'ivf-settings', centroids: [new Float32Array([1, 0]), new Float32Array([0, 1])] };
+    await storage.createCollection({ id: 'c1', name: 'docs', dimensions: 2, createdAt: 1, indexType: 'ivf', ivf });
+    await storage.addDocument(doc('a', 'c1', { title: 'A' }));
+    await storage.addVector({ id: 'a', collectionId: 'c1', vector: new Float32Array([0.5, -0.5]) });
+    await storage.addVector({ id: 'x', collectionId: 'c2', vector: new Float32Array([1, 2]) });
+    await storage.deleteDocument('gone');
+
+    await reopen();
+    expect(await storage.getDocument('a')).toEqual(doc('a', 'c1', { title: 'A' }));
+    const collection = await storage.getCollectionByName('docs');
+    expect(collection).toMatchObject({ id: 'c1', indexType: 'ivf', ivf: { fingerprint: 'ivf-settings' } });
+    expect(collection?.ivf?.centroids.map((centroid) => Array.from(centroid))).toEqual([
+      [1, 0],
+      [0, 1],
+    ]);
+    // Found in a collection whose vectors have not been read yet
+    expect(await storage.getVector('x')).toEqual(new Float32Array([1, 2]));
+    expect(await storage.getAllVectors('c1')).toEqual(new Map([['a', new Float32Array([0.5, -0.5])]]));
+  });
+
+  it('clears a collection or everything', async () => {
+    await storage.addDocument(doc('a', 'c1'));
+    await storage.addDocument(doc('b', 'c2'));
+    await storage.addVector({ id: 'a', collectionId: 'c1', vector: new Float32Array([1]) });
+    await storage.addVector({ id: 'b', collectionId: 'c2', vector: new Float32Array([2]) });
+    await storage.createCollection({ id: 'c1', name: 'one', dimensions: 1, createdAt: 1 });
+
+    await storage.clearCollection('c1');
+    expect(await storage.getDocument('a')).toBeNull();
+    expect(await storage.getVector('a')).toBeNull();
+    expect(await storage.getVector('b')).toEqual(new Float32Array([2]));
+    expect(await storage.getCollection('c1')).not.toBeNull();
+
+    await storage.clear();
+    await reopen();
+    expect(await storage.getDocument('b')).toBeNull();
+    expect(await storage.getVector('b')).toBeNull();
+    expect(await storage.getAllCollections()).toEqual([]);
+  });
+
+  it('estimates its size from its files', async () => {
+    await storage.addVector({ id: 'a', collectionId: 'c1', vector: new Float32Array(16) });
+    expect(await storage.estimateSize()).toBeGreaterThan(64);
+  });
+
+  it('backs a VectorDB', async () => {
+    const dimensions = 4;
+    const db = await createVectorDB({ name: 'opfs', dimensions, storage });
+    await db.addMany([
+      { id: 'x', vector: new Float32Array([1, 0, 0, 0]), metadata: { axis: 'x' } },
+      { id: 'y', vector: new Float32Array([0, 1, 0, 0]), metadata: { axis: 'y' } },
+    ]);
+    await db.close();
+
+    await reopen();
+    const reopened = await createVectorDB({ name: 'opfs', dimensions, storage });
+    const [nearest] = await reopened.search(new Float32Array([0, 0.9, 0.1, 0]), { k: 1 });
+    expect(nearest).toMatchObject({ id: 'y', metadata: { axis: 'y' } });
+    await reopened.close();
+  });
+});
+
+describe('OPFSStorage with writable streams', () => {
+  let directory: FileSystemDirectoryHandle;
+  let copies: string[];
+
+  beforeEach(() => {
+    copies = [];
+    directory = createMemoryDirectory({ onWritable: (name) => copies.push(name) });
+  });
+
+  it('reads buffered writes without copying the files, and persists them on flush()', async () => {
+    const storage = new OPFSStorage({ name: 'test', directory });
+    await storage.open();
+    await storage.addDocument(doc('a'));
+    await storage.addVector({ id: 'a', collectionId: 'default', vector: new Float32Array([1, 2]) });
+    await storage.addVector({ id: 'b', collectionId: 'default', vector: new Float32Array([3, 4]) });
+    await storage.deleteVector('b');
+
+    expect(await storage.getVector('a')).toEqual(new Float32Array([1, 2]));
+    expect(await storage.getAllVectors('default')).toEqual(new Map([['a', new Float32Array([1, 2])]]));
+    expect(copies).toEqual([]);
+
+    await storage.flush();
+    expect(copies.sort()).toEqual(['documents.0.log', 'vectors-default.0.log']);
+
+    const other = new OPFSStorage({ name: 'test', directory });
+    await other.open();
+    expect(await other.getDocument('a')).toEqual(doc('a'));
+    expect(await other.getAllVectors('default')).toEqual(new Map([['a', new Float32Array([1, 2])]]));
+    await other.close();
+    await storage.close();
+  });
+
+  it('copies each file once per addMany()', async () => {
+    const storage = new OPFSStorage({ name: 'test', directory });
+    const db = await createVectorDB({ name: 'opfs', dimensions: 2, storage });
+    copies = [];
+
+    await db.addMany(
+      Array.from({ length: 50 }, (_, i) => ({ id: `doc-${i}`, vector: new Float32Array([Math.cos(i), Math.sin(i)]) }))
+    );
+
+    const logs = copies.filter((name) => name.endsWith('.log'));
+    expect(logs).toContain('documents.0.log');
+    expect(logs).toContain('vectors-default.0.log');
+    expect(new Set(logs).size).toBe(logs.length);
+    await db.close();
+  });
+});
+
+describe('OPFSWorkerStorage', () => {
+  /** A worker answered in this thread, without cloning messages */
+  function connect(): Worker {
+    const worker = { onmessage: null } as unknown as Worker;
+    const scope: OPFSWorkerScope = {
+      postMessage: (message) => setTimeout(() => worker.onmessage?.({ data: message } as MessageEvent)),
+      onmessage: null,
+    };
+    worker.postMessage = (message: unknown) => setTimeout(() => scope.onmessage?.({ data: message } as MessageEvent));
+    serveOPFSStorage(scope);
+    return worker;
+  }
+
+  it('backs a VectorDB with sync access handles in the worker', async () => {
+    const directory = createMemoryDirectory({ syncAccess: true });
+    const storage = new OPFSWorkerStorage({ name: 'test', directory, worker: connect() });
+    const db = await createVectorDB({ name: 'opfs', dimensions: 2, storage });
+    await db.addMany([
+      { id: 'x', vector: new Float32Array([1, 0]), metadata: { axis: 'x' } },
+      { id: 'y', vector: new Float32Array([0, 1]), metadata: { axis: 'y' } },
+    ]);
+    await db.close();
+
+    const reopened = await createVectorDB({
+      name: 'opfs',
+      dimensions: 2,
+      storage: new OPFSWorkerStorage({ name: 'test', directory, worker: connect() }),
+    });
+    const [nearest] = await reopened.search(new Float32Array([0.1, 0.9]), { k: 1 });
+    expect(nearest).toMatchObject({ id: 'y', metadata: { axis: 'y' } });
+    await reopened.close();
+  });
+
+  it('rejects with the error thrown in the worker', async () => {
+    const storage = new OPFSWorkerStorage({ name: 'test', directory: createMemoryDirectory(), worker: connect() });
+    await expect(storage.getDocument('a')).rejects.toThrow('Database not open');
+  });
+});
+
+describe('RecordLog', () => {
+  const body = (value: number) => new Uint8Array([value, value, value]);
+
+  it('compacts superseded records into the next generation', async () => {
+    const directory = createMemoryDirectory({ syncAccess: true });
+    const log = await RecordLog.open(directory, 'log', [], 0);
+    log.put('a', body(1));
+    log.put('b', body(2));
+    await log.flush();
+    log.put('a', body(3));
+    log.delete('b');
+    await log.flush();
+
+    expect(await fileNames(directory)).toEqual(['log.1.log']);
+    expect(await log.get('a')).toEqual(body(3));
+    await log.close();
+
+    const reopened = await RecordLog.open(directory, 'log', await listFiles(directory), 0);
+    await reopened.load();
+    expect([...reopened.keys()]).toEqual(['a']);
+    expect(await reopened.get('a')).toEqual(body(3));
+    await reopened.close();
+  });
+
+  it('compacts writes still buffered by a writable stream', async () => {
+    const directory = createMemoryDirectory();
+    const log = await RecordLog.open(directory, 'log', [], 0);
+    log.put('a', body(1));
+    log.put('b', body(2));
+    log.put('a', body(3));
+    log.delete('b');
+    expect(log.buffered).toBe(true);
+    expect(await log.get('a')).toEqual(body(3));
+    await log.flush();
+
+    expect(await fileNames(directory)).toEqual(['log.1.log']);
+    const reopened = await RecordLog.open(directory, 'log', await listFiles(directory), 0);
+    await reopened.load();
+    expect([...reopened.keys()]).toEqual(['a']);
+    expect(await reopened.get('a')).toEqual(body(3));
+    await reopened.close();
+  });
+
+  it('discards a compacted copy that was not completed', async () => {
+    const directory = createMemoryDirectory({ syncAccess: true });
+    const log = await RecordLog.open(directory, 'log', []);
+    log.put('a', body(1));
+    await log.close();
+
+    // Copy interrupted after its first frame: no marker frame
+    const interrupted = await RecordLog.open(directory, 'log', ['log.1.log']);
+    interrupted.put('a', body(9));
+    await interrupted.close();
+
+    const reopened = await RecordLog.open(directory, 'log', await listFiles(directory));
+    await reopened.load();
+    expect(await fileNames(directory)).toEqual(['log.0.log']);
+    expect(await reopened.get('a')).toEqual(body(1));
+    await reopened.close();
+  });
+
+  it('drops a frame cut short by a crash', async () => {
+    const directory = createMemoryDirectory({ syncAccess: true });
+    const log = await RecordLog.open(directory, 'log', []);
+    log.put('a', body(1));
+    log.put('b', body(2));
+    await log.close();
+
+    const handle = await directory.getFileHandle('log.0.log');
+    const writable = await handle.createWritable({ keepExistingData: true });
+    await writable.write({ type: 'truncate', size: (await handle.getFile()).size - 2 });
+    await writable.close();
+
+    const reopened = await RecordLog.open(directory, 'log', await listFiles(directory));
+    await reopened.load();
+    expect([...reopened.keys()]).toEqual(['a']);
+    reopened.put('c', body(3));
+    await reopened.flush();
+    await reopened.load();
+    expect([...reopened.keys()]).toEqual(['a', 'c']);
+    await reopened.close();
+  });
+});
@@ -1,6 +1,6 @@
 /**
  * @file use-agent.ts
- * @description React hook for running agents with step-by-step streaming, loading/error state, and cancellation
+ * @description React hook for running agents with a live transcript, step-by-step progress, loading/error state, and cancellation
  */
 
 import { useState, useRef, useCallback, useEffect } from 'react';
@@ -10,10 +10,51 @@ import type {
   AgentMemory,
   AgentStep,
   AgentResult,
+  AgentStreamEvent,
 } from '@localmode/core';
 
 const IS_SERVER = typeof window === 'undefined';
 
+/**
+ * Model text in the live transcript: reasoning before a tool call, or the final answer.
+ */
+export interface AgentTranscriptText {
+  type: 'text';
+
+  /** Step the text belongs to */
+  stepIndex: number;
+
+  /** Text so far */
+  text: string;
+}
+
+/**
+ * A tool call in the live transcript.
+ */
+export interface AgentTranscriptToolCall {
+  type: 'tool-call';
+
+  /** Step the call belongs to */
+  stepIndex: number;
+
+  /** ID of the tool call */
+  toolCallId: string;
+
+  /** Tool being called */
+  toolName: string;
+
+  /** JSON arguments so far */
+  argsText: string;
+
+  /** Tool result, once the tool has run */
+  observation?: string;
+}
+
+/**
+ * An entry in the live agent transcript.
+ */
+export type AgentTranscriptEntry = AgentTranscriptText | AgentTranscriptToolCall;
+
 /**
  * Options for configuring the useAgent hook.
  */
@@ -47,6 +88,9 @@ export interface UseAgentReturn {
   /** Array of completed steps, updated in real-time */
   steps: AgentStep[];
 
+  /** Live transcript of model text and tool calls, updated as tokens arrive */
+  transcript: AgentTranscriptEntry[];
+
   /** Final result when the agent completes */
   result: AgentResult | null;
 
@@ -62,15 +106,59 @@ export interface UseAgentReturn {
   /** Abort the current agent run */
   cancel: () => void;
 
-  /** Clear steps, result, and error state */
+  /** Clear steps, transcript, result, and error state */
   reset: () => void;
 }
 
 /**
- * React hook for running agents with step-by-step progress.
+ * Add a stream event to the transcript.
+ */
+function appendToTranscript(
+  transcript: AgentTranscriptEntry[],
+  event: AgentStreamEvent
+): AgentTranscriptEntry[] {
+  switch (event.type) {
+    case 'text-delta': {
+      const last = transcript[transcript.length - 1];
+      if (last?.type === 'text' && last.stepIndex === event.stepIndex) {
+        return [...transcript.slice(0, -1), { ...last, text: last.text + event.text }];
+      }
+      return [...transcript, { type: 'text', stepIndex: event.stepIndex, text: event.text }];
+    }
+    case 'tool-call-start':
+      return [
+        ...transcript,
+        {
+          type: 'tool-call',
+          stepIndex: event.stepIndex,
+          toolCallId: event.toolCallId,
+          toolName: event.toolName,
+          argsText: '',
+        },
+      ];
+    case 'tool-args-delta':
+      return transcript.map((entry) =>
+        entry.type === 'tool-call' && entry.toolCallId === event.toolCallId
+          ? { ...entry, argsText: entry.argsText + event.argsTextDelta }
+          : entry
+      );
+    case 'tool-result':
+      return transcript.map((entry) =>
+        entry.type === 'tool-call' && entry.toolCallId === event.toolCallId
+          ? { ...entry, observation: event.observation }
+          : entry
+      );
+    default:
+      return transcript;
+  }
+}
+
+/**
+ * React hook for running agents with a live transcript.
  *
- * Wraps `runAgent()` with React state management, providing real-time
- * step updates, loading/error state, and cancellation support.
+ * Wraps `agent.stream()` with React state management, providing a
+ * transcript updated as tokens arrive, completed steps, loading/error
+ * state, and cancellation support.
  *
  * @param options - Agent configuration
  * @returns Agent state and control functions
@@ -80,7 +168,7 @@ export interface UseAgentReturn {
  * import { useAgent } from '@localmode/react';
  *
  * function ResearchAgent() {
- *   const { steps, result, isRunning, run, cancel } = useAgent({
+ *   const { transcript, result, isRunning, run, cancel } = useAgent({
  *     model: webllm.languageModel('Qwen3-1.7B-q4f16_1-MLC'),
  *     tools: [searchTool, noteTool],
  *   });
@@ -89,7 +177,11 @@ export interface UseAgentReturn {
  *     <div>
  *       <button onClick={() => run('Research quantum computing')}>Start</button>
  *       {isRunning && <button onClick={cancel}>Stop</button>}
- *       {steps.map(step => <StepCard key={step.index} step={step} />)}
+ *       {transcript.map((entry, i) =>
+ *         entry.type === 'text'
+ *           ? <p key={i}>{entry.text}</p>
+ *           : <ToolCallCard key={i} name={entry.toolName} args={entry.argsText} result={entry.observation} />
+ *       )}
  *       {result && <p>{result.result}</p>}
  *     </div>
  *   );
@@ -98,6 +190,7 @@ export interface UseAgentReturn {
  */
 export function useAgent(options: UseAgentOptions): UseAgentReturn {
   const [steps, setSteps] = useState<AgentStep[]>([]);
+  const [transcript, setTranscript] = useState<AgentTranscriptEntry[]>([]);
   const [result, setResult] = useState<AgentResult | null>(null);
   const [isRunning, setIsRunning] = useState(false);
   const [error, setError] = useState<Error | null>(null);
@@ -126,13 +219,14 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
     abortControllerRef.current = controller;
 
     setSteps([]);
+    setTranscript([]);
     setResult(null);
     setError(null);
     setIsRunning(true);
 
     try {
       // Dynamic import to avoid SSR issues
-      const { runAgent } = await import('@localmode/core');
+      const { createAgent } = await import('@localmode/core');
 
       const {
         model,
@@ -144,25 +238,29 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
         memory,
       } = optionsRef.current;
 
-      const agentResult = await runAgent({
+      const agent = createAgent({
         model,
         tools,
-        prompt,
-        context,
         maxSteps,
         maxDurationMs,
         temperature,
         systemPrompt,
         memory,
-        abortSignal: controller.signal,
-        onStep: (step: AgentStep) => {
-          if (mountedRef.current && !controller.signal.aborted) {
-            setSteps((prev) => [...prev, step]);
-          }
-        },
       });
 
-      if (mountedRef.current && !controller.signal.aborted) {
+      let agentResult: AgentResult | null = null;
+      for await (const event of agent.stream({ prompt, context, abortSignal: controller.signal })) {
+        if (!mountedRef.current || controller.signal.aborted) break;
+
+        if (event.type === 'step-finish') {
+          setSteps((prev) => [...prev, event.step]);
+        } else if (event.type === 'finish') {
+          agentResult = event.result;
+        }
+        setTranscript((prev) => appendToTranscript(prev, event));
+      }
+
+      if (mountedRef.current && !controller.signal.aborted && agentResult) {
         setResult(agentResult);
         setIsRunning(false);
         return agentResult;
@@ -197,6 +295,7 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
   const reset = useCallback(() => {
     abortControllerRef.current?.abort();
     setSteps([]);
+    setTranscript([]);
     setResult(null);
     setError(null);
     setIsRunning(false);
@@ -206,6 +305,7 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
   if (IS_SERVER) {
     return {
       steps: [],
+      transcript: [],
       result: null,
       isRunning: false,
       error: null,
@@ -215,5 +315,5 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
     };
   }
 
-  return { steps, result, isRunning, error, run, cancel, reset };
+  return { steps, transcript, result, isRunning, error, run, cancel, reset };
 }
@@ -16,6 +16,7 @@ import type {
   ImportStats,
   ImportProgress,
   ExternalFormat,
+  ExternalContent,
   EmbeddingModel,
 } from '@localmode/core';
 import { toAppError } from '../core/app-error.js';
@@ -41,16 +42,16 @@ export interface UseImportExportOptions {
 
 /** Options for importData action */
 interface ImportDataOptions {
-  /** Raw content string to import */
-  content: string;
+  /** Raw content to import: text, or bytes for Parquet and Arrow */
+  content: ExternalContent;
   /** Source format (auto-detected if omitted) */
   format?: ExternalFormat;
 }
 
 /** Options for parsePreview action */
 interface ParsePreviewOptions {
-  /** Raw content string to parse */
-  content: string;
+  /** Raw content to parse: text, or bytes for Parquet and Arrow */
+  content: ExternalContent;
   /** Source format (auto-detected if omitted) */
   format?: ExternalFormat;
 }
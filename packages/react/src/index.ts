@@ -151,7 +151,13 @@ export type { UseReindexOptions, UseReindexReturn } from './hooks/use-reindex.js
 
 // Agent
 export { useAgent } from './hooks/use-agent.js';
-export type { UseAgentOptions, UseAgentReturn } from './hooks/use-agent.js';
+export type {
+  UseAgentOptions,
+  UseAgentReturn,
+  AgentTranscriptEntry,
+  AgentTranscriptText,
+  AgentTranscriptToolCall,
+} from './hooks/use-agent.js';
 
 // Import/Export
 export { useImportExport } from './hooks/use-import-export.js';
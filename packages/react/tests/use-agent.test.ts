@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { createMockLanguageModelForAgent, createMockTool } from '@localmode/core';
+import { useAgent } from '../src/hooks/use-agent.js';
+
+describe('useAgent', () => {
+  it('builds a live transcript of tool calls and text', async () => {
+    const model = createMockLanguageModelForAgent({
+      actionSequence: [
+        { type: 'tool_call', tool: 'search', args: { query: 'answer' } },
+        { type: 'finish', result: 'The answer is 42.' },
+      ],
+      nativeTools: true,
+    });
+    const searchTool = createMockTool('search', 'Found: 42');
+    const { result } = renderHook(() => useAgent({ model, tools: [searchTool] }));
+
+    await act(async () => {
+      await result.current.run('What is the answer?');
+    });
+
+    expect(result.current.transcript).toEqual([
+      {
+        type: 'tool-call',
+        stepIndex: 0,
+        toolCallId: 'call_1',
+        toolName: 'search',
+        argsText: '{"query":"answer"}',
+        observation: 'Found: 42',
+      },
+      { type: 'text', stepIndex: 1, text: 'The answer is 42.' },
+    ]);
+    expect(result.current.steps).toHaveLength(2);
+    expect(result.current.result?.result).toBe('The answer is 42.');
+    expect(result.current.isRunning).toBe(false);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('clears the transcript on reset', async () => {
+    const model = createMockLanguageModelForAgent({
+      actionSequence: [{ type: 'finish', result: 'Done.' }],
+      nativeTools: true,
+    });
+    const { result } = renderHook(() => useAgent({ model, tools: [createMockTool('search')] }));
+
+    await act(async () => {
+      await result.current.run('Test');
+    });
+    expect(result.current.transcript).toHaveLength(1);
+
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.transcript).toEqual([]);
+    expect(result.current.steps).toEqual([]);
+    expect(result.current.result).toBeNull();
+  });
+});
@@ -0,0 +1,428 @@
+/**
+ * Filter Translation
+ *
+ * Translates `TypedFilterQuery` filters into SQL `WHERE` clauses over a JSON
+ * metadata column, using SQLite's JSON functions. Translated filters match
+ * exactly the documents `matchesFilter()` from `@localmode/core` matches.
+ *
+ * Conditions SQL cannot express with the same semantics are not translated:
+ * `$regex` (JavaScript regular expressions), structural equality on objects
+ * and arrays, invalid operands, and paths through array indexes. Such a
+ * condition at the top level of the filter is left out, making the clause
+ * match a superset of the documents; anywhere else it leaves the whole filter
+ * untranslated.
+ *
+ * @packageDocumentation
+ */
+
+import type { TypedFilterQuery } from '@localmode/core';
+
+/**
+ * Value bound to a `?` placeholder.
+ */
+export type SQLParam = string | number;
+
+/**
+ * A filter translated to SQL.
+ */
+export interface SQLFilter {
+  /** Boolean SQL expression, for use in a `WHERE` clause. */
+  sql: string;
+
+  /** Values for the `?` placeholders in `sql`, in order. */
+  params: SQLParam[];
+
+  /**
+   * Whether `sql` matches exactly the documents the filter matches. When
+   * `false`, some top-level conditions were left out and the matches are a
+   * superset, to be checked with `matchesFilter()`.
+   */
+  exact: boolean;
+}
+
+/** A piece of SQL with its placeholder values. */
+interface Fragment {
+  sql: string;
+  params: SQLParam[];
+}
+
+/** The JSON type and SQL value of a metadata field or array element. */
+interface Subject {
+  type: Fragment;
+  value: Fragment;
+}
+
+const TRUE: Fragment = { sql: '1', params: [] };
+const FALSE: Fragment = { sql: '0', params: [] };
+
+/**
+ * Translate a filter into a SQL `WHERE` clause over a JSON metadata column.
+ *
+ * Every document the filter matches has non-null metadata, so the clause
+ * excludes rows where the column is `NULL`.
+ *
+ * @param filter - The filter to translate
+ * @param column - SQL expression of the JSON metadata column (default `'metadata'`)
+ * @returns The clause, or `null` if no part of the filter can be translated
+ *
+ * @example
+ * ```typescript
+ * const where = filterToSQL({ year: { $gte: 2020 }, tags: { $contains: 'ai' } });
+ * if (where) {
+ *   db.selectObjects(`SELECT id FROM docs WHERE ${where.sql}`, where.params);
+ * }
+ * ```
+ */
+export function filterToSQL(filter: TypedFilterQuery, column = 'metadata'): SQLFilter | null {
+  const conditions: Fragment[] = [{ sql: `${column} IS NOT NULL`, params: [] }];
+  let exact = true;
+
+  for (const conjunct of topLevelConjuncts(filter as Record<string, unknown>)) {
+    const condition = translateQuery(column, conjunct);
+    if (condition) {
+      conditions.push(condition);
+    } else {
+      exact = false;
+    }
+  }
+
+  if (!exact && conditions.length === 1) return null;
+  return { ...join(conditions, ' AND '), exact };
+}
+
+/**
+ * Split a filter into the conditions that must all hold, flattening `$and`.
+ */
+function topLevelConjuncts(query: Record<string, unknown>): Record<string, unknown>[] {
+  const conjuncts: Record<string, unknown>[] = [];
+  for (const [key, condition] of Object.entries(query)) {
+    if (condition === undefined) continue;
+    if (key === '$and' && Array.isArray(condition) && condition.every(isPlainObject)) {
+      for (const clause of condition) {
+        conjuncts.push(...topLevelConjuncts(clause));
+      }
+    } else {
+      conjuncts.push({ [key]: condition });
+    }
+  }
+  return conjuncts;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Translate a (possibly nested) filter object.
+ */
+function translateQuery(column: string, query: Record<string, unknown>): Fragment | null {
+  const conditions: Fragment[] = [];
+
+  for (const [key, condition] of Object.entries(query)) {
+    if (condition === undefined) continue;
+
+    const translated = key.startsWith('$')
+      ? translateLogical(column, key, condition)
+      : translateField(column, key, condition);
+    if (!translated) return null;
+    conditions.push(translated);
+  }
+
+  return conditions.length === 0 ? TRUE : join(conditions, ' AND ');
+}
+
+/**
+ * Translate `$and`, `$or` or `$not`.
+ */
+function translateLogical(column: string, operator: string, operand: unknown): Fragment | null {
+  if (operator === '$not') {
+    if (!isPlainObject(operand)) return null;
+    const inner = translateQuery(column, operand);
+    return inner && not(inner);
+  }
+
+  if ((operator !== '$and' && operator !== '$or') || !Array.isArray(operand)) return null;
+
+  const clauses: Fragment[] = [];
+  for (const clause of operand) {
+    const translated = isPlainObject(clause) ? translateQuery(column, clause) : null;
+    if (!translated) return null;
+    clauses.push(translated);
+  }
+
+  if (clauses.length === 0) {
+    // $or with no clauses matches nothing, as in matchesFilter()
+    return operator === '$and' ? TRUE : FALSE;
+  }
+  return join(clauses, operator === '$and' ? ' AND ' : ' OR ');
+}
+
+/**
+ * Translate the condition on one metadata field.
+ */
+function translateField(column: string, key: string, condition: unknown): Fragment | null {
+  const path = jsonPath(column, key);
+  if (!path) return null;
+
+  const field: Subject = {
+    type: { sql: `json_type(${column}, ${path.sql})`, params: path.params },
+    value: { sql: `json_extract(${column}, ${path.sql})`, params: path.params },
+  };
+  // Array elements of the field, for a correlated subquery
+  const elements = {
+    sql: `json_each(${column}, ${path.sql})`,
+    params: path.params,
+    length: { sql: `json_array_length(${column}, ${path.sql})`, params: path.params },
+  };
+
+  return translateCondition(field, elements, condition);
+}
+
+// ============================================================================
+// Field Conditions
+// ============================================================================
+
+/** Table-valued source of a field's array elements. */
+interface Elements extends Fragment {
+  length: Fragment;
+}
+
+/**
+ * Translate a field condition: a value, `null`, or an operator object.
+ */
+function translateCondition(field: Subject, elements: Elements, condition: unknown): Fragment | null {
+  if (condition === null || typeof condition !== 'object') {
+    return equals(field, condition);
+  }
+  // RegExp shorthand and structural equality
+  if (!isOperatorObject(condition)) return null;
+
+  const conditions: Fragment[] = [];
+  for (const [operator, operand] of Object.entries(condition)) {
+    if (operand === undefined) continue;
+    const translated = translateOperator(field, elements, operator, operand);
+    if (!translated) return null;
+    conditions.push(translated);
+  }
+  return conditions.length === 0 ? TRUE : join(conditions, ' AND ');
+}
+
+/**
+ * Translate one field operator.
+ */
+function translateOperator(
+  field: Subject,
+  elements: Elements,
+  operator: string,
+  operand: unknown
+): Fragment | null {
+  switch (operator) {
+    case '$eq':
+      return equals(field, operand);
+
+    case '$ne': {
+      const eq = equals(field, operand);
+      return eq && not(eq);
+    }
+
+    case '$in':
+    case '$nin': {
+      if (!Array.isArray(operand)) return null;
+      const inField = anyOf(operand.map((candidate) => equals(field, candidate)));
+      const inElement = anyOf(operand.map((candidate) => equals(ELEMENT, candidate)));
+      if (!inField || !inElement) return null;
+      // An array field matches when any of its elements is in the list
+      const matches = sql`(CASE WHEN ${field.type} IS 'array' THEN ${someElement(elements, inElement)} ELSE ${inField} END)`;
+      return operator === '$in' ? matches : not(matches);
+    }
+
+    case '$gt':
+    case '$gte':
+    case '$lt':
+    case '$lte': {
+      const comparison = { $gt: '>', $gte: '>=', $lt: '<', $lte: '<=' }[operator];
+      if (typeof operand === 'number') {
+        if (Number.isNaN(operand)) return FALSE;
+        return sql`(${isNumber(field)} AND ${field.value} ${raw(comparison)} ${param(operand)})`;
+      }
+      if (typeof operand === 'string') {
+        // SQLite compares by code point and JavaScript by UTF-16 code unit; the
+        // orders only differ between astral and U+E000–U+FFFF characters
+        return sql`(${field.type} IS 'text' AND ${field.value} ${raw(comparison)} ${param(operand)})`;
+      }
+      return null;
+    }
+
+    case '$exists':
+      return sql`${field.type} ${raw(operand ? 'IS NOT NULL' : 'IS NULL')}`;
+
+    case '$contains': {
+      // Array membership, or substring match for strings
+      const inElement = equals(ELEMENT, operand);
+      if (!inElement) return null;
+      if (typeof operand !== 'string') {
+        return sql`(${field.type} IS 'array' AND ${someElement(elements, inElement)})`;
+      }
+      return sql`(CASE ${field.type} WHEN 'array' THEN ${someElement(elements, inElement)} WHEN 'text' THEN instr(${field.value}, ${param(operand)}) > 0 ELSE 0 END)`;
+    }
+
+    case '$all': {
+      if (!Array.isArray(operand)) return null;
+      const required: Fragment[] = [sql`${field.type} IS 'array'`];
+      for (const needle of operand) {
+        const inElement = equals(ELEMENT, needle);
+        if (!inElement) return null;
+        required.push(someElement(elements, inElement));
+      }
+      return join(required, ' AND ');
+    }
+
+    case '$size':
+      if (typeof operand !== 'number') return null;
+      if (!Number.isFinite(operand)) return FALSE;
+      return sql`(${field.type} IS 'array' AND ${elements.length} = ${param(operand)})`;
+
+    case '$startsWith':
+      if (typeof operand !== 'string') return null;
+      return sql`(${field.type} IS 'text' AND substr(${field.value}, 1, length(${param(operand)})) = ${param(operand)})`;
+
+    case '$not': {
+      const inner = translateCondition(field, elements, operand);
+      return inner && not(inner);
+    }
+
+    default:
+      // $regex, and unknown operators for matchesFilter() to reject
+      return null;
+  }
+}
+
+/** An element in the `json_each` subquery of {@link someElement}. */
+const ELEMENT: Subject = {
+  type: { sql: 'element.type', params: [] },
+  value: { sql: 'element.value', params: [] },
+};
+
+/**
+ * Condition that some element of the field's array satisfies `condition`.
+ */
+function someElement(elements: Elements, condition: Fragment): Fragment {
+  return sql`EXISTS (SELECT 1 FROM ${elements} AS element WHERE ${condition})`;
+}
+
+/**
+ * Condition that the subject equals a primitive operand, without type
+ * coercion. Returns `null` for objects and arrays, which compare structurally.
+ */
+function equals(subject: Subject, operand: unknown): Fragment | null {
+  if (operand === null) return sql`${subject.type} IS 'null'`;
+
+  switch (typeof operand) {
+    case 'boolean':
+      return sql`${subject.type} IS ${raw(operand ? "'true'" : "'false'")}`;
+    case 'number':
+      if (!Number.isFinite(operand)) return FALSE;
+      return sql`(${isNumber(subject)} AND ${subject.value} = ${param(operand)})`;
+    case 'string':
+      return sql`(${subject.type} IS 'text' AND ${subject.value} = ${param(operand)})`;
+    default:
+      return null;
+  }
+}
+
+function isNumber(subject: Subject): Fragment {
+  return sql`IFNULL(${subject.type}, '') IN ('integer', 'real')`;
+}
+
+// ============================================================================
+// Paths
+// ============================================================================
+
+/**
+ * SQL expression for the JSON path of a metadata field. A literal key that
+ * contains dots takes precedence over path traversal, as in `getValueAtPath()`.
+ */
+function jsonPath(column: string, key: string): Fragment | null {
+  const literal = toJSONPath([key]);
+  if (literal === null) return null;
+  if (!key.includes('.')) return param(literal);
+
+  const segments = key.split('.');
+  // JavaScript traversal also reads array indexes and `length`, which JSON paths spell differently
+  if (segments.some((segment) => segment === '' || segment === 'length' || /^\d+$/.test(segment))) {
+    return null;
+  }
+  const traversal = toJSONPath(segments);
+  if (traversal === null) return null;
+
+  return sql`(CASE WHEN json_type(${raw(column)}, ${param(literal)}) IS NOT NULL THEN ${param(literal)} ELSE ${param(traversal)} END)`;
+}
+
+/**
+ * JSON path of nested object keys, e.g. `$."author"."name"`.
+ */
+function toJSONPath(keys: string[]): string | null {
+  // Quoted path labels cannot contain quotes or escapes
+  if (keys.some((key) => /["\\]/.test(key))) return null;
+  return `$${keys.map((key) => `."${key}"`).join('')}`;
+}
+
+// ============================================================================
+// Fragments
+// ============================================================================
+
+/**
+ * Build a fragment from a template whose interpolations are fragments.
+ */
+function sql(strings: TemplateStringsArray, ...parts: Fragment[]): Fragment {
+  let text = strings[0];
+  const params: SQLParam[] = [];
+  parts.forEach((part, i) => {
+    text += part.sql + strings[i + 1];
+    params.push(...part.params);
+  });
+  return { sql: text, params };
+}
+
+/** A placeholder bound to `value`. */
+function param(value: SQLParam): Fragment {
+  return { sql: '?', params: [value] };
+}
+
+/** Trusted SQL text, without placeholders. */
+function raw(text: string): Fragment {
+  return { sql: text, params: [] };
+}
+
+function not(fragment: Fragment): Fragment {
+  return sql`NOT (${fragment})`;
+}
+
+function join(fragments: Fragment[], separator: string): Fragment {
+  if (fragments.length === 1) return fragments[0];
+  return {
+    sql: fragments.map((fragment) => `(${fragment.sql})`).join(separator),
+    params: fragments.flatMap((fragment) => fragment.params),
+  };
+}
+
+/**
+ * OR of conditions, or `null` if any is `null`. Matches nothing when empty.
+ */
+function anyOf(conditions: Array<Fragment | null>): Fragment | null {
+  if (conditions.some((condition) => condition === null)) return null;
+  return conditions.length === 0 ? FALSE : join(conditions as Fragment[], ' OR ');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * An operator object is a plain object whose keys all start with `$`.
+ */
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  if (!isPlainObject(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => key.startsWith('$'));
+}
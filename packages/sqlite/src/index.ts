@@ -0,0 +1,29 @@
+/**
+ * @localmode/sqlite
+ *
+ * SQLite-WASM storage adapter for @localmode — documents, vectors and
+ * indexes in tables of your SQLite database, with metadata filters
+ * evaluated as SQL.
+ *
+ * @packageDocumentation
+ *
+ * @example
+ * ```typescript
+ * import sqlite3InitModule from '@sqlite.org/sqlite-wasm';
+ * import { SQLiteStorage } from '@localmode/sqlite';
+ * import { createVectorDB } from '@localmode/core';
+ *
+ * const sqlite3 = await sqlite3InitModule();
+ * const storage = new SQLiteStorage({ database: new sqlite3.oo1.OpfsDb('/app.sqlite3') });
+ * const db = await createVectorDB({
+ *   name: 'my-app',
+ *   dimensions: 384,
+ *   storage,
+ * });
+ * ```
+ */
+
+export { SQLiteStorage } from './storage.js';
+export { filterToSQL } from './filter.js';
+export type { SQLiteStorageOptions } from './types.js';
+export type { SQLFilter, SQLParam } from './filter.js';
@@ -0,0 +1,397 @@
+/**
+ * SQLite Storage Implementation
+ *
+ * Storage adapter that keeps documents, vectors and indexes in tables of a
+ * SQLite-WASM database. Implements the {@link StorageAdapter} interface from
+ * `@localmode/core`, including `queryDocuments()`, so metadata filters run
+ * as SQL queries.
+ *
+ * @packageDocumentation
+ */
+
+import type { Database, SqlValue } from '@sqlite.org/sqlite-wasm';
+import type {
+  StorageAdapter,
+  StoredDocument,
+  StoredVector,
+  Collection,
+  CollectionRecord,
+  SerializedHNSWIndex,
+  TypedFilterQuery,
+  DocumentQueryResult,
+} from '@localmode/core';
+import { InvalidOptionsError, serializeCollection, deserializeCollection } from '@localmode/core';
+import { filterToSQL } from './filter.js';
+import type { SQLiteStorageOptions } from './types.js';
+
+/** Default prefix of the table names. */
+const DEFAULT_TABLE_PREFIX = 'localmode_';
+
+/** A result row, by column name. */
+type Row = Record<string, SqlValue>;
+
+/**
+ * Names of the adapter's tables.
+ */
+interface Tables {
+  documents: string;
+  vectors: string;
+  indexes: string;
+  collections: string;
+}
+
+/**
+ * SQLite-WASM storage adapter for VectorDB.
+ *
+ * Stores documents with their metadata as JSON, vectors as `BLOB`s of
+ * float32 values, and serialized HNSW indexes and collections as JSON, in
+ * tables of a database you open with `@sqlite.org/sqlite-wasm`. Your app's
+ * own tables can live in the same database.
+ *
+ * Filters passed to `search()`, `count()`, `find()` and `deleteWhere()` are
+ * translated to SQL (see {@link filterToSQL}) and evaluated by SQLite.
+ *
+ * @example
+ * ```typescript
+ * import sqlite3InitModule from '@sqlite.org/sqlite-wasm';
+ * import { SQLiteStorage } from '@localmode/sqlite';
+ * import { createVectorDB } from '@localmode/core';
+ *
+ * const sqlite3 = await sqlite3InitModule();
+ * const storage = new SQLiteStorage({ database: new sqlite3.oo1.OpfsDb('/app.sqlite3') });
+ * const db = await createVectorDB({
+ *   name: 'my-app',
+ *   dimensions: 384,
+ *   storage,
+ * });
+ * ```
+ */
+export class SQLiteStorage implements StorageAdapter {
+  private db: Database | null = null;
+  private readonly database: Database;
+  private readonly tables: Tables;
+
+  constructor(options: SQLiteStorageOptions) {
+    const prefix = options.tablePrefix ?? DEFAULT_TABLE_PREFIX;
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(prefix)) {
+      throw new InvalidOptionsError('tablePrefix', prefix, 'letters, digits and underscores');
+    }
+
+    this.database = options.database;
+    this.tables = {
+      documents: `${prefix}documents`,
+      vectors: `${prefix}vectors`,
+      indexes: `${prefix}indexes`,
+      collections: `${prefix}collections`,
+    };
+  }
+
+  // ============================================
+  // Lifecycle
+  // ============================================
+
+  async open(): Promise<void> {
+    if (this.db) return;
+
+    const { documents, vectors, indexes, collections } = this.tables;
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS ${documents} (
+        id TEXT PRIMARY KEY,
+        collection_id TEXT NOT NULL,
+        metadata TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS ${documents}_collection ON ${documents} (collection_id);
+
+      CREATE TABLE IF NOT EXISTS ${vectors} (
+        id TEXT PRIMARY KEY,
+        collection_id TEXT NOT NULL,
+        vector BLOB NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS ${vectors}_collection ON ${vectors} (collection_id);
+
+      CREATE TABLE IF NOT EXISTS ${indexes} (
+        collection_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS ${collections} (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS ${collections}_name ON ${collections} (name);
+    `);
+    this.db = this.database;
+  }
+
+  /**
+   * Detach from the database. The database itself stays open; it belongs to
+   * the caller.
+   */
+  async close(): Promise<void> {
+    this.db = null;
+  }
+
+  /**
+   * Ensure database is open, throwing if not.
+   */
+  private ensureOpen(): Database {
+    if (!this.db) {
+      throw new Error('Database not open. Call open() first.');
+    }
+    return this.db;
+  }
+
+  // ============================================
+  // Document Operations
+  // ============================================
+
+  async addDocument(doc: StoredDocument): Promise<void> {
+    const db = this.ensureOpen();
+    db.exec({
+      sql: `INSERT INTO ${this.tables.documents} (id, collection_id, metadata, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT (id) DO UPDATE SET
+              collection_id = excluded.collection_id,
+              metadata = excluded.metadata,
+              created_at = excluded.created_at,
+              updated_at = excluded.updated_at`,
+      bind: [
+        doc.id,
+        doc.collectionId,
+        doc.metadata === undefined ? null : JSON.stringify(doc.metadata),
+        doc.createdAt,
+        doc.updatedAt,
+      ],
+    });
+  }
+
+  async getDocument(id: string): Promise<StoredDocument | null> {
+    const db = this.ensureOpen();
+    const [row] = db.selectObjects(`SELECT * FROM ${this.tables.documents} WHERE id = ?`, [id]);
+    return row ? toDocument(row) : null;
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    const db = this.ensureOpen();
+    db.exec({ sql: `DELETE FROM ${this.tables.documents} WHERE id = ?`, bind: [id] });
+  }
+
+  async getAllDocuments(collectionId: string): Promise<StoredDocument[]> {
+    const db = this.ensureOpen();
+    const rows = db.selectObjects(
+      `SELECT * FROM ${this.tables.documents} WHERE collection_id = ?`,
+      [collectionId]
+    );
+    return rows.map(toDocument);
+  }
+
+  async countDocuments(collectionId: string): Promise<number> {
+    const db = this.ensureOpen();
+    return Number(
+      db.selectValue(`SELECT COUNT(*) FROM ${this.tables.documents} WHERE collection_id = ?`, [
+        collectionId,
+      ])
+    );
+  }
+
+  // ============================================
+  // Vector Operations
+  // ============================================
+
+  async addVector(vec: StoredVector): Promise<void> {
+    const db = this.ensureOpen();
+    const vector = vec.vector instanceof Float32Array ? vec.vector : Float32Array.from(vec.vector);
+
+    db.exec({
+      sql: `INSERT INTO ${this.tables.vectors} (id, collection_id, vector) VALUES (?, ?, ?)
+            ON CONFLICT (id) DO UPDATE SET
+              collection_id = excluded.collection_id,
+              vector = excluded.vector`,
+      bind: [vec.id, vec.collectionId, new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength)],
+    });
+  }
+
+  async getVector(id: string): Promise<Float32Array | null> {
+    const db = this.ensureOpen();
+    const [row] = db.selectObjects(`SELECT vector FROM ${this.tables.vectors} WHERE id = ?`, [id]);
+    return row ? toVector(row.vector) : null;
+  }
+
+  async deleteVector(id: string): Promise<void> {
+    const db = this.ensureOpen();
+    db.exec({ sql: `DELETE FROM ${this.tables.vectors} WHERE id = ?`, bind: [id] });
+  }
+
+  async getAllVectors(collectionId: string): Promise<Map<string, Float32Array>> {
+    const db = this.ensureOpen();
+    const rows = db.selectObjects(
+      `SELECT id, vector FROM ${this.tables.vectors} WHERE collection_id = ?`,
+      [collectionId]
+    );
+
+    const map = new Map<string, Float32Array>();
+    for (const row of rows) {
+      map.set(row.id as string, toVector(row.vector));
+    }
+    return map;
+  }
+
+  // ============================================
+  // Index Operations
+  // ============================================
+
+  async saveIndex(collectionId: string, index: SerializedHNSWIndex): Promise<void> {
+    const db = this.ensureOpen();
+    db.exec({
+      sql: `INSERT OR REPLACE INTO ${this.tables.indexes} (collection_id, data, updated_at) VALUES (?, ?, ?)`,
+      bind: [collectionId, JSON.stringify(index), Date.now()],
+    });
+  }
+
+  async loadIndex(collectionId: string): Promise<SerializedHNSWIndex | null> {
+    const db = this.ensureOpen();
+    const data = db.selectValue(`SELECT data FROM ${this.tables.indexes} WHERE collection_id = ?`, [
+      collectionId,
+    ]);
+    if (typeof data !== 'string') return null;
+
+    try {
+      return JSON.parse(data) as SerializedHNSWIndex;
+    } catch {
+      return null;
+    }
+  }
+
+  async deleteIndex(collectionId: string): Promise<void> {
+    const db = this.ensureOpen();
+    db.exec({ sql: `DELETE FROM ${this.tables.indexes} WHERE collection_id = ?`, bind: [collectionId] });
+  }
+
+  // ============================================
+  // Collection Operations
+  // ============================================
+
+  async createCollection(collection: Collection): Promise<void> {
+    this.putCollection(collection);
+  }
+
+  async getCollection(id: string): Promise<Collection | null> {
+    const db = this.ensureOpen();
+    const data = db.selectValue(`SELECT data FROM ${this.tables.collections} WHERE id = ?`, [id]);
+    return typeof data === 'string' ? deserializeCollection(JSON.parse(data) as CollectionRecord) : null;
+  }
+
+  async getCollectionByName(name: string): Promise<Collection | null> {
+    const db = this.ensureOpen();
+    const data = db.selectValue(`SELECT data FROM ${this.tables.collections} WHERE name = ? LIMIT 1`, [
+      name,
+    ]);
+    return typeof data === 'string' ? deserializeCollection(JSON.parse(data) as CollectionRecord) : null;
+  }
+
+  async getAllCollections(): Promise<Collection[]> {
+    const db = this.ensureOpen();
+    const rows = db.selectObjects(`SELECT data FROM ${this.tables.collections}`);
+    return rows.map((row) => deserializeCollection(JSON.parse(row.data as string) as CollectionRecord));
+  }
+
+  async updateCollection(collection: Collection): Promise<void> {
+    this.putCollection(collection);
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    const db = this.ensureOpen();
+    db.exec({ sql: `DELETE FROM ${this.tables.collections} WHERE id = ?`, bind: [id] });
+  }
+
+  private putCollection(collection: Collection): void {
+    const db = this.ensureOpen();
+    db.exec({
+      sql: `INSERT OR REPLACE INTO ${this.tables.collections} (id, name, data) VALUES (?, ?, ?)`,
+      bind: [collection.id, collection.name, JSON.stringify(serializeCollection(collection))],
+    });
+  }
+
+  // ============================================
+  // Filter Operations
+  // ============================================
+
+  async queryDocuments(collectionId: string, filter: TypedFilterQuery): Promise<DocumentQueryResult | null> {
+    const db = this.ensureOpen();
+    const where = filterToSQL(filter);
+    if (!where) return null;
+
+    const rows = db.selectObjects(
+      `SELECT id FROM ${this.tables.documents} WHERE collection_id = ? AND ${where.sql}`,
+      [collectionId, ...where.params]
+    );
+    return { ids: rows.map((row) => row.id as string), exact: where.exact };
+  }
+
+  // ============================================
+  // Utility Operations
+  // ============================================
+
+  async clear(): Promise<void> {
+    const db = this.ensureOpen();
+    const { documents, vectors, indexes, collections } = this.tables;
+    db.savepoint(() => {
+      db.exec(`DELETE FROM ${documents}; DELETE FROM ${vectors}; DELETE FROM ${indexes}; DELETE FROM ${collections};`);
+    });
+  }
+
+  async clearCollection(collectionId: string): Promise<void> {
+    const db = this.ensureOpen();
+    const { documents, vectors, indexes } = this.tables;
+    db.savepoint(() => {
+      for (const table of [documents, vectors, indexes]) {
+        db.exec({ sql: `DELETE FROM ${table} WHERE collection_id = ?`, bind: [collectionId] });
+      }
+    });
+  }
+
+  /**
+   * Bytes of data in the adapter's tables (not the whole database file).
+   */
+  async estimateSize(): Promise<number> {
+    const db = this.ensureOpen();
+    const { documents, vectors, indexes, collections } = this.tables;
+    return Number(
+      db.selectValue(`
+        SELECT
+          (SELECT IFNULL(SUM(length(id) + IFNULL(length(metadata), 0) + 16), 0) FROM ${documents}) +
+          (SELECT IFNULL(SUM(length(id) + length(vector)), 0) FROM ${vectors}) +
+          (SELECT IFNULL(SUM(length(data)), 0) FROM ${indexes}) +
+          (SELECT IFNULL(SUM(length(data)), 0) FROM ${collections})
+      `)
+    );
+  }
+}
+
+function toDocument(row: Row): StoredDocument {
+  const doc: StoredDocument = {
+    id: row.id as string,
+    collectionId: row.collection_id as string,
+    createdAt: row.created_at as number,
+    updatedAt: row.updated_at as number,
+  };
+  if (typeof row.metadata === 'string') {
+    doc.metadata = JSON.parse(row.metadata) as Record<string, unknown>;
+  }
+  return doc;
+}
+
+/**
+ * Read a vector from its `BLOB`, copying the bytes if they are not 4-byte aligned.
+ */
+function toVector(blob: SqlValue): Float32Array {
+  const bytes = blob as Uint8Array;
+  if (bytes.byteOffset % 4 === 0) {
+    return new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+  }
+  return new Float32Array(bytes.slice().buffer);
+}
@@ -0,0 +1,33 @@
+/**
+ * SQLite Storage Types
+ *
+ * Configuration types for the SQLite-WASM storage adapter.
+ *
+ * @packageDocumentation
+ */
+
+import type { Database } from '@sqlite.org/sqlite-wasm';
+
+/**
+ * Configuration options for SQLiteStorage.
+ *
+ * @example
+ * ```typescript
+ * const sqlite3 = await sqlite3InitModule();
+ * const storage = new SQLiteStorage({ database: new sqlite3.oo1.OpfsDb('/app.sqlite3') });
+ * ```
+ */
+export interface SQLiteStorageOptions {
+  /**
+   * Open SQLite-WASM database, e.g. `sqlite3.oo1.DB` or `sqlite3.oo1.OpfsDb`.
+   * The adapter creates its tables in it and never closes it.
+   */
+  database: Database;
+
+  /**
+   * Prefix of the adapter's table names, so several stores (and your own
+   * tables) can share a database. Letters, digits and underscores only.
+   * @default 'localmode_'
+   */
+  tablePrefix?: string;
+}
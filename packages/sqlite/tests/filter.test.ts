@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Tests for filterToSQL, checked against matchesFilter from core
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import sqlite3InitModule, { type Database } from '@sqlite.org/sqlite-wasm';
+import { matchesFilter } from '@localmode/core';
+import type { TypedFilterQuery } from '@localmode/core';
+import { filterToSQL } from '../src/index.js';
+
+const corpus: Array<Record<string, unknown> | undefined> = [
+  { category: 'tech', year: 2020, score: 4.5, tags: ['ai', 'web'], draft: false, author: { name: 'Ada', age: 36 } },
+  { category: 'news', year: 2023, score: 3, tags: ['ai'], draft: true, author: { name: 'Alan' }, 'author.name': 'Literal' },
+  { category: 'tech', year: '2021', tags: [], note: null, nested: { list: [1, 2] } },
+  { category: 'Tech', year: 2024, score: -1, tags: ['web', 'ai', 3], title: 'A report on AI' },
+  { title: 'report', tags: 'ai', count: 0 },
+  {},
+  { year: 2022, mixed: [1, '1', true, null, { a: 1 }] },
+  { title: '😀 emoji', category: 'émoji' },
+  undefined,
+];
+
+let db: Database;
+
+beforeAll(async () => {
+  const sqlite3 = await sqlite3InitModule();
+  db = new sqlite3.oo1.DB(':memory:');
+  db.exec('CREATE TABLE docs (id INTEGER PRIMARY KEY, metadata TEXT)');
+  corpus.forEach((metadata, id) => {
+    db.exec({
+      sql: 'INSERT INTO docs VALUES (?, ?)',
+      bind: [id, metadata === undefined ? null : JSON.stringify(metadata)],
+    });
+  });
+});
+
+function queryIds(filter: TypedFilterQuery): { ids: number[]; exact: boolean } | null {
+  const where = filterToSQL(filter);
+  if (!where) return null;
+  const rows = db.selectObjects(`SELECT id FROM docs WHERE ${where.sql} ORDER BY id`, where.params);
+  return { ids: rows.map((row) => row.id as number), exact: where.exact };
+}
+
+function expectedIds(filter: TypedFilterQuery): number[] {
+  return corpus.flatMap((metadata, id) => (matchesFilter(metadata, filter) ? [id] : []));
+}
+
+describe('filterToSQL', () => {
+  it.each<TypedFilterQuery>([
+    { category: 'tech' },
+    { year: 2020 },
+    { year: '2021' },
+    { draft: false },
+    { draft: true },
+    { note: null },
+    { count: 0 },
+    { count: false },
+    { year: { $gte: 2021, $lt: 2024 } },
+    { year: { $gt: '2020' } },
+    { score: { $lte: 3 } },
+    { score: { $lt: Infinity } },
+    { category: { $gt: 'T' } },
+    { title: { $lt: '😀' } },
+    { category: { $ne: 'tech' } },
+    { category: { $eq: 'tech', $ne: 'news' } },
+    { year: { $gt: 2020, $eq: undefined } },
+    { category: { $in: ['tech', 'news'] } },
+    { category: { $in: [] } },
+    { category: { $nin: [] } },
+    { tags: { $in: ['web'] } },
+    { tags: { $in: [3, 'x'] } },
+    { tags: { $nin: ['ai'] } },
+    { mixed: { $in: ['1'] } },
+    { tags: { $contains: 'ai' } },
+    { title: { $contains: 'report' } },
+    { mixed: { $contains: true } },
+    { mixed: { $contains: null } },
+    { tags: { $all: ['ai', 'web'] } },
+    { tags: { $all: [] } },
+    { tags: { $size: 0 } },
+    { tags: { $size: 2 } },
+    { title: { $startsWith: 'A ' } },
+    { title: { $startsWith: '' } },
+    { score: { $exists: true } },
+    { score: { $exists: false } },
+    { note: { $exists: true } },
+    { 'author.name': 'Ada' },
+    { 'author.name': 'Literal' },
+    { 'author.age': { $gt: 30 } },
+    { 'nested.list': { $size: 2 } },
+    { $or: [{ category: 'news' }, { year: { $lt: 2021 } }] },
+    { $or: [] },
+    { $and: [] },
+    { $not: { category: 'tech' } },
+    { year: { $not: { $gte: 2022 } } },
+    { $and: [{ tags: { $contains: 'ai' } }, { $or: [{ draft: true }, { score: { $gt: 4 } }] }] },
+    { category: 'tech', year: { $exists: true } },
+  ])('matches what matchesFilter matches for %j', (filter) => {
+    expect(queryIds(filter)).toEqual({ ids: expectedIds(filter), exact: true });
+  });
+
+  it('leaves out top-level conditions it cannot translate', () => {
+    const filter: TypedFilterQuery = { category: 'tech', title: { $regex: 'report' } };
+    const result = queryIds(filter)!;
+
+    expect(result.exact).toBe(false);
+    expect(result.ids).toEqual(expectedIds({ category: 'tech' }));
+    expect(result.ids).toEqual(expect.arrayContaining(expectedIds(filter)));
+  });
+
+  it.each<TypedFilterQuery>([
+    { title: /report/ },
+    { title: { $regex: 'report' } },
+    { $or: [{ title: { $regex: 'x' } }, { year: 2020 }] },
+    { $not: { author: { name: 'Ada' } } },
+    { 'nested.list.0': 1 },
+    { 'tags.length': 2 },
+    { year: { $gt: {} as never } },
+    { year: { $unknown: 1 } as never },
+  ])('does not translate %j', (filter) => {
+    expect(filterToSQL(filter)).toBeNull();
+  });
+
+  it('binds every value as a parameter', () => {
+    const where = filterToSQL({ "title'); DROP TABLE docs; --": "x'" })!;
+    expect(where.sql).not.toContain("x'");
+    expect(where.params).toContain("x'");
+    expect(queryIds({ "title'); DROP TABLE docs; --": "x'" })!.ids).toEqual([]);
+  });
+});
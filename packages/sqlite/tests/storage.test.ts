@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Tests for SQLiteStorage on an in-memory SQLite-WASM database
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import sqlite3InitModule, { type Database, type Sqlite3Static } from '@sqlite.org/sqlite-wasm';
+import { createVectorDB, InvalidOptionsError } from '@localmode/core';
+import type { StorageAdapter, StoredDocument } from '@localmode/core';
+import { SQLiteStorage } from '../src/index.js';
+
+function doc(id: string, collectionId = 'default', metadata?: Record<string, unknown>): StoredDocument {
+  return { id, collectionId, metadata, createdAt: 1, updatedAt: 2 };
+}
+
+function vec(i: number): Float32Array {
+  return new Float32Array([Math.cos(i / 10), Math.sin(i / 10), 0.5]);
+}
+
+let sqlite3: Sqlite3Static;
+
+beforeAll(async () => {
+  sqlite3 = await sqlite3InitModule();
+});
+
+describe('SQLiteStorage', () => {
+  let database: Database;
+  let storage: SQLiteStorage;
+
+  beforeEach(async () => {
+    database = new sqlite3.oo1.DB(':memory:');
+    storage = new SQLiteStorage({ database });
+    await storage.open();
+  });
+
+  it('implements StorageAdapter', () => {
+    const _check: StorageAdapter = storage;
+    expect(_check).toBeDefined();
+  });
+
+  it('throws before open()', async () => {
+    const closed = new SQLiteStorage({ database });
+    await expect(closed.getDocument('a')).rejects.toThrow('Database not open');
+  });
+
+  it('rejects table prefixes that are not identifiers', () => {
+    expect(() => new SQLiteStorage({ database, tablePrefix: 'x; DROP' })).toThrow(InvalidOptionsError);
+  });
+
+  it('stores, replaces and deletes documents', async () => {
+    expect(await storage.getDocument('missing')).toBeNull();
+
+    await storage.addDocument(doc('a', 'default', { version: 1, tags: ['x'] }));
+    await storage.addDocument(doc('a', 'default', { version: 2 }));
+    await storage.addDocument(doc('b', 'other'));
+    expect(await storage.getDocument('a')).toEqual(doc('a', 'default', { version: 2 }));
+    expect(await storage.getDocument('b')).toEqual({ id: 'b', collectionId: 'other', createdAt: 1, updatedAt: 2 });
+    expect(await storage.countDocuments('default')).toBe(1);
+    expect((await storage.getAllDocuments('other')).map((d) => d.id)).toEqual(['b']);
+
+    await storage.deleteDocument('a');
+    expect(await storage.getDocument('a')).toBeNull();
+  });
+
+  it('stores vectors per collection', async () => {
+    await storage.addVector({ id: 'a', collectionId: 'default', vector: new Float32Array([1, 2, 3]) });
+    await storage.addVector({ id: 'b', collectionId: 'default', vector: new Float32Array([4, 5, 6]) });
+    await storage.addVector({ id: 'c', collectionId: 'other', vector: new Float32Array([7]) });
+
+    expect(await storage.getVector('a')).toEqual(new Float32Array([1, 2, 3]));
+    expect(await storage.getVector('missing')).toBeNull();
+    const vectors = await storage.getAllVectors('default');
+    expect(vectors).toEqual(
+      new Map([
+        ['a', new Float32Array([1, 2, 3])],
+        ['b', new Float32Array([4, 5, 6])],
+      ])
+    );
+
+    // IDs are unique across collections
+    await storage.addVector({ id: 'c', collectionId: 'default', vector: new Float32Array([8]) });
+    expect((await storage.getAllVectors('other')).size).toBe(0);
+
+    await storage.deleteVector('b');
+    expect(await storage.getVector('b')).toBeNull();
+  });
+
+  it('stores indexes and collections', async () => {
+    const index = { version: 1, dimensions: 3, m: 16, efConstruction: 200, entryPointId: 'a', maxLevel: 0, nodes: [] };
+    await storage.saveIndex('default', index);
+    expect(await storage.loadIndex('default')).toEqual(index);
+    await storage.deleteIndex('default');
+    expect(await storage.loadIndex('default')).toBeNull();
+
+    const collection = { id: 'c1', name: 'docs', dimensions: 3, createdAt: 1, indexType: 'flat' as const };
+    await storage.createCollection(collection);
+    await storage.updateCollection({ ...collection, indexedFields: ['tag'] });
+    expect(await storage.getCollection('c1')).toEqual({ ...collection, indexedFields: ['tag'] });
+    expect(await storage.getCollectionByName('docs')).toMatchObject({ id: 'c1' });
+    expect(await storage.getAllCollections()).toHaveLength(1);
+
+    const ivf = { fingerprint: 'ivf-settings', centroids: [new Float32Array([1, 0, 0])] };
+    await storage.updateCollection({ ...collection, indexType: 'ivf', ivf });
+    expect(await storage.getCollection('c1')).toEqual({ ...collection, indexType: 'ivf', ivf });
+    await storage.deleteCollection('c1');
+    expect(await storage.getCollection('c1')).toBeNull();
+  });
+
+  it('clears a collection or everything', async () => {
+    await storage.addDocument(doc('a', 'c1'));
+    await storage.addDocument(doc('b', 'c2'));
+    await storage.addVector({ id: 'a', collectionId: 'c1', vector: new Float32Array([1]) });
+    await storage.addVector({ id: 'b', collectionId: 'c2', vector: new Float32Array([2]) });
+    await storage.createCollection({ id: 'c1', name: 'one', dimensions: 1, createdAt: 1 });
+
+    await storage.clearCollection('c1');
+    expect(await storage.getDocument('a')).toBeNull();
+    expect(await storage.getVector('a')).toBeNull();
+    expect(await storage.getVector('b')).toEqual(new Float32Array([2]));
+    expect(await storage.getCollection('c1')).not.toBeNull();
+
+    await storage.clear();
+    expect(await storage.getDocument('b')).toBeNull();
+    expect(await storage.getAllCollections()).toEqual([]);
+    expect(await storage.estimateSize()).toBe(0);
+  });
+
+  it('shares the database with other tables and prefixes', async () => {
+    database.exec('CREATE TABLE notes (body TEXT); INSERT INTO notes VALUES (\'kept\')');
+    const other = new SQLiteStorage({ database, tablePrefix: 'other_' });
+    await other.open();
+
+    await storage.addDocument(doc('a'));
+    expect(await other.getDocument('a')).toBeNull();
+
+    await storage.clear();
+    await storage.close();
+    expect(database.selectValue('SELECT body FROM notes')).toBe('kept');
+
+    const reopened = new SQLiteStorage({ database });
+    await reopened.open();
+    await reopened.addDocument(doc('b'));
+    expect(await reopened.getDocument('b')).not.toBeNull();
+  });
+
+  it('evaluates filters in SQL', async () => {
+    await storage.addDocument(doc('a', 'c1', { year: 2020 }));
+    await storage.addDocument(doc('b', 'c1', { year: 2024 }));
+    await storage.addDocument(doc('c', 'c2', { year: 2024 }));
+
+    expect(await storage.queryDocuments('c1', { year: { $gt: 2021 } })).toEqual({ ids: ['b'], exact: true });
+    expect(await storage.queryDocuments('c1', { title: { $regex: 'x' } })).toBeNull();
+  });
+});
+
+describe('VectorDB on SQLiteStorage', () => {
+  async function createDB() {
+    const storage = new SQLiteStorage({ database: new sqlite3.oo1.DB(':memory:') });
+    const db = await createVectorDB({ name: 'sqlite', dimensions: 3, storage });
+    await db.addMany(
+      Array.from({ length: 30 }, (_, i) => ({
+        id: `doc-${i}`,
+        vector: vec(i),
+        metadata: { category: i % 3 === 0 ? 'tech' : 'news', year: 2000 + i, title: `Doc ${i}` },
+      }))
+    );
+    return { db, storage };
+  }
+
+  it('searches, counts and deletes with filters run by SQLite', async () => {
+    const { db, storage } = await createDB();
+    const scan = vi.spyOn(storage, 'getAllDocuments');
+
+    const results = await db.search(vec(12), { k: 3, filter: { category: 'tech', year: { $lt: 2015 } } });
+    expect(results.map((r) => r.id)).toEqual(['doc-12', 'doc-9', 'doc-6']);
+    expect(await db.count({ filter: { $or: [{ category: 'tech' }, { year: 2001 }] } })).toBe(11);
+    expect(await db.deleteWhere({ category: 'news' })).toBe(20);
+    expect(await db.count()).toBe(10);
+    expect(scan).not.toHaveBeenCalled();
+
+    await db.close();
+  });
+
+  it('checks filters it cannot translate in JavaScript', async () => {
+    const { db } = await createDB();
+
+    expect(await db.count({ filter: { category: 'tech', title: { $regex: '^Doc 1' } } })).toBe(3);
+    expect(await db.count({ filter: { title: /Doc 2\d/ } })).toBe(10);
+
+    await db.close();
+  });
+
+  it('reloads the collection from the database', async () => {
+    const database = new sqlite3.oo1.DB(':memory:');
+    const first = await createVectorDB({ name: 'reload', dimensions: 3, storage: new SQLiteStorage({ database }) });
+    await first.add({ id: 'x', vector: vec(1), metadata: { title: 'kept' } });
+    await first.close();
+
+    const second = await createVectorDB({ name: 'reload', dimensions: 3, storage: new SQLiteStorage({ database }) });
+    const [nearest] = await second.search(vec(1), { k: 1 });
+    expect(nearest).toMatchObject({ id: 'x', metadata: { title: 'kept' } });
+    await second.close();
+  });
+});
@@ -0,0 +1,13 @@
+import { defineConfig } from 'tsup';
+
+export default defineConfig({
+  entry: ['src/index.ts'],
+  format: ['esm', 'cjs'],
+  dts: true,
+  clean: true,
+  minify: true,
+  treeshake: true,
+  splitting: false,
+  sourcemap: true,
+  outDir: 'dist',
+});
@@ -64,6 +64,9 @@ export { TransformersDocumentQAModel, createDocumentQAModel } from './document-q
 // Multimodal Embeddings (CLIP/SigLIP)
 export { TransformersCLIPEmbeddingModel, createCLIPEmbeddingModel } from './clip-embedding.js';
 
+// Sparse Embeddings (SPLADE)
+export { TransformersSparseEmbeddingModel, createSparseEmbeddingModel } from './sparse-embedding.js';
+
 // Depth Estimation
 export { TransformersDepthEstimationModel, createDepthEstimationModel } from './depth-estimator.js';
 
@@ -0,0 +1,168 @@
+/**
+ * Transformers Sparse Embedding Model Implementation
+ *
+ * Implements SparseEmbeddingModel interface for SPLADE models using
+ * Transformers.js. SPLADE runs a masked language model and turns its
+ * per-token vocabulary logits into one weight per vocabulary term:
+ * `w_j = max_i log(1 + relu(logit_ij))` over the non-padding tokens `i`.
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  SparseEmbeddingModel,
+  SparseVector,
+  DoEmbedSparseOptions,
+  DoEmbedSparseResult,
+} from '@localmode/core';
+import type { ModelSettings, TransformersDevice, ModelLoadProgress } from '../types.js';
+
+/**
+ * SPLADE sparse embedding model using Transformers.js.
+ */
+export class TransformersSparseEmbeddingModel implements SparseEmbeddingModel {
+  readonly modelId: string;
+  readonly provider = 'transformers';
+  /** BERT vocabulary size - corrected after the model loads */
+  dimensions = 30522;
+  readonly maxEmbeddingsPerCall = 32;
+  readonly supportsParallelCalls = false;
+
+  private tokenizer: unknown | null = null;
+  private model: unknown | null = null;
+  private loadPromise: Promise<void> | null = null;
+
+  constructor(
+    private baseModelId: string,
+    private settings: {
+      device?: TransformersDevice;
+      quantized?: boolean;
+      onProgress?: (progress: ModelLoadProgress) => void;
+    } = {}
+  ) {
+    this.modelId = `transformers:${baseModelId}`;
+  }
+
+  /**
+   * Load the tokenizer and masked language model if not loaded.
+   */
+  private async loadModel(): Promise<void> {
+    if (this.tokenizer && this.model) {
+      return;
+    }
+
+    if (this.loadPromise) {
+      return this.loadPromise;
+    }
+
+    this.loadPromise = (async () => {
+      const { AutoTokenizer, AutoModelForMaskedLM, env } = await import('@huggingface/transformers');
+
+      // Suppress ONNX runtime warnings
+      env.backends.onnx.logLevel = 'error';
+
+      const [tokenizer, model] = await Promise.all([
+        AutoTokenizer.from_pretrained(this.baseModelId, {
+          progress_callback: this.settings.onProgress,
+        }),
+        AutoModelForMaskedLM.from_pretrained(this.baseModelId, {
+          device: this.settings.device ?? 'auto',
+          dtype: this.settings.quantized === true ? 'q8' : 'fp32',
+          progress_callback: this.settings.onProgress,
+        }),
+      ]);
+
+      this.tokenizer = tokenizer;
+      this.model = model;
+    })();
+
+    return this.loadPromise;
+  }
+
+  async doEmbedSparse(options: DoEmbedSparseOptions): Promise<DoEmbedSparseResult> {
+    const { values, abortSignal } = options;
+
+    abortSignal?.throwIfAborted();
+
+    await this.loadModel();
+
+    abortSignal?.throwIfAborted();
+
+    const tokenizer = this.tokenizer as {
+      (texts: string[], options: { padding: boolean; truncation: boolean }): {
+        input_ids: unknown;
+        attention_mask: { data: ArrayLike<number | bigint> };
+      };
+    };
+    const model = this.model as {
+      (inputs: unknown): Promise<{ logits: { data: ArrayLike<number>; dims: number[] } }>;
+    };
+
+    const embeddings: SparseVector[] = [];
+    let totalTokens = 0;
+
+    for (const value of values) {
+      abortSignal?.throwIfAborted();
+
+      const inputs = tokenizer([value], { padding: true, truncation: true });
+      const { logits } = await model(inputs);
+
+      const [, tokens, vocabSize] = logits.dims;
+      this.dimensions = vocabSize;
+      embeddings.push(spladePool(logits.data, inputs.attention_mask.data, tokens, vocabSize));
+      totalTokens += tokens;
+    }
+
+    return {
+      embeddings,
+      usage: { tokens: totalTokens },
+      response: {
+        modelId: this.modelId,
+        timestamp: new Date(),
+      },
+    };
+  }
+}
+
+/**
+ * Max-pool `log(1 + relu(logits))` over the attended tokens of one input and
+ * keep the non-zero vocabulary weights.
+ */
+export function spladePool(
+  logits: ArrayLike<number>,
+  attentionMask: ArrayLike<number | bigint>,
+  tokens: number,
+  vocabSize: number
+): SparseVector {
+  const weights = new Float32Array(vocabSize);
+  for (let t = 0; t < tokens; t++) {
+    if (Number(attentionMask[t]) === 0) continue;
+    const offset = t * vocabSize;
+    for (let j = 0; j < vocabSize; j++) {
+      const logit = logits[offset + j];
+      if (logit > 0) {
+        const weight = Math.log1p(logit);
+        if (weight > weights[j]) weights[j] = weight;
+      }
+    }
+  }
+
+  const indices: number[] = [];
+  for (let j = 0; j < vocabSize; j++) {
+    if (weights[j] > 0) indices.push(j);
+  }
+  return {
+    indices: new Uint32Array(indices),
+    values: new Float32Array(indices.map((j) => weights[j])),
+  };
+}
+
+/**
+ * Create a SPLADE sparse embedding model using Transformers.js
+ */
+export function createSparseEmbeddingModel(
+  modelId: string,
+  settings?: ModelSettings
+): TransformersSparseEmbeddingModel {
+  return new TransformersSparseEmbeddingModel(modelId, settings);
+}
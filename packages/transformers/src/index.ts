@@ -121,6 +121,7 @@ export {
   TransformersZeroShotImageModel,
   TransformersCaptionModel,
   TransformersCLIPEmbeddingModel,
+  TransformersSparseEmbeddingModel,
   TransformersLanguageModel,
   TransformersGenerativeOCRModel,
   isGenerativeOCRModel,
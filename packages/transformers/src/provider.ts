@@ -33,6 +33,8 @@ import {
   createDocumentQAModel,
   // Multimodal
   createCLIPEmbeddingModel,
+  // Sparse
+  createSparseEmbeddingModel,
   // Audio Classification & Depth Estimation
   createAudioClassificationModel,
   createZeroShotAudioClassificationModel,
@@ -239,6 +241,13 @@ export function createTransformers(settings?: TransformersProviderSettings): Tra
       });
     },
 
+    sparseEmbedding(modelId: string, modelSettings?: ModelSettings) {
+      return createSparseEmbeddingModel(modelId, {
+        ...defaultSettings,
+        ...modelSettings,
+      });
+    },
+
     // ═══════════════════════════════════════════════════════════════
     // AUDIO CLASSIFICATION & DEPTH ESTIMATION
     // ═══════════════════════════════════════════════════════════════
@@ -31,6 +31,8 @@ import type {
   DocumentQAModel,
   // Multimodal
   MultimodalEmbeddingModel,
+  // Sparse
+  SparseEmbeddingModel,
   // Audio Classification & Depth Estimation
   AudioClassificationModel,
   ZeroShotAudioClassificationModel,
@@ -468,6 +470,23 @@ export interface TransformersProvider {
    */
   multimodalEmbedding(modelId: string, settings?: ModelSettings): MultimodalEmbeddingModel;
 
+  /**
+   * Create a SPLADE sparse embedding model.
+   *
+   * Produces sparse vectors over the model's vocabulary for
+   * `db.searchSparse()` and sparse hybrid search.
+   *
+   * @example
+   * ```ts
+   * import { embedSparse } from '@localmode/core';
+   *
+   * const model = transformers.sparseEmbedding('Xenova/splade-cocondenser-ensembledistil');
+   * const { embedding } = await embedSparse({ model, value: 'reset password' });
+   * const results = await db.searchSparse(embedding, { k: 10 });
+   * ```
+   */
+  sparseEmbedding(modelId: string, settings?: ModelSettings): SparseEmbeddingModel;
+
   // ═══════════════════════════════════════════════════════════════
   // AUDIO CLASSIFICATION & DEPTH ESTIMATION
   // ═══════════════════════════════════════════════════════════════
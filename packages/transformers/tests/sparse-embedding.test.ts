@@ -0,0 +1,47 @@
+/**
+ * Transformers Sparse Embedding Model Tests
+ *
+ * Unit tests for the SPLADE TransformersSparseEmbeddingModel implementation
+ * without requiring actual model downloads.
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TransformersSparseEmbeddingModel, createTransformers } from '../src/index.js';
+import { spladePool } from '../src/implementations/sparse-embedding.js';
+
+describe('TransformersSparseEmbeddingModel', () => {
+  it('sets modelId and provider', () => {
+    const model = new TransformersSparseEmbeddingModel('Xenova/splade-cocondenser-ensembledistil');
+
+    expect(model.modelId).toBe('transformers:Xenova/splade-cocondenser-ensembledistil');
+    expect(model.provider).toBe('transformers');
+    expect(model.dimensions).toBe(30522);
+  });
+
+  it('is created by the provider', () => {
+    const model = createTransformers().sparseEmbedding('Xenova/splade-cocondenser-ensembledistil');
+
+    expect(model).toBeInstanceOf(TransformersSparseEmbeddingModel);
+    expect(typeof model.doEmbedSparse).toBe('function');
+  });
+});
+
+describe('spladePool', () => {
+  it('max-pools log(1 + relu(logits)) over attended tokens', () => {
+    // 3 tokens x 4 vocabulary terms; the last token is padding
+    const logits = [
+      [1, -2, 0, 3],
+      [2, 0.5, -1, 0],
+      [9, 9, 9, 9],
+    ].flat();
+
+    const { indices, values } = spladePool(logits, [1, 1, 0], 3, 4);
+
+    expect(Array.from(indices)).toEqual([0, 1, 3]);
+    expect(values[0]).toBeCloseTo(Math.log1p(2));
+    expect(values[1]).toBeCloseTo(Math.log1p(0.5));
+    expect(values[2]).toBeCloseTo(Math.log1p(3));
+  });
+});
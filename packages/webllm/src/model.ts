@@ -1,7 +1,8 @@
 /**
  * WebLLM Language Model Implementation
  *
- * Implements LanguageModel interface using WebLLM (@mlc-ai/web-llm)
+ * Implements LanguageModel interface using WebLLM (@mlc-ai/web-llm).
+ * `responseFormat` maps to WebLLM's JSON Schema `response_format`.
  *
  * @packageDocumentation
  */
@@ -14,7 +15,11 @@ import type {
   StreamChunk,
   FinishReason,
   ContentPart,
+  ChatMessage,
+  LanguageModelTool,
+  ToolCall,
 } from '@localmode/core';
+import { createToolCallDeltaParser, createToolCallId, getTextContent } from '@localmode/core';
 import type { WebLLMModelSettings, WebLLMLoadProgress } from './types.js';
 
 // Dynamic import type for WebLLM
@@ -25,6 +30,71 @@ const VISION_MODEL_IDS = new Set([
   'Phi-3.5-vision-instruct-q4f16_1-MLC',
 ]);
 
+/** Model IDs that support WebLLM function calling */
+const FUNCTION_CALLING_MODEL_IDS = new Set([
+  'Hermes-2-Pro-Llama-3-8B-q4f16_1-MLC',
+  'Hermes-2-Pro-Llama-3-8B-q4f32_1-MLC',
+  'Hermes-2-Pro-Mistral-7B-q4f16_1-MLC',
+  'Hermes-3-Llama-3.1-8B-q4f32_1-MLC',
+  'Hermes-3-Llama-3.1-8B-q4f16_1-MLC',
+]);
+
+/**
+ * JSON schema of the tool call array that WebLLM parses from the output.
+ * WebLLM applies it to Hermes-2-Pro models itself.
+ */
+const TOOL_CALLS_SCHEMA = JSON.stringify({
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: { name: { type: 'string' }, arguments: { type: 'object' } },
+    required: ['name', 'arguments'],
+  },
+});
+
+/**
+ * Function calling system prompt for Hermes-3 models, following the one
+ * WebLLM injects for Hermes-2-Pro.
+ */
+function buildToolsSystemPrompt(tools: LanguageModelTool[]): string {
+  return (
+    'You are a function calling AI model. You are provided with function signatures within <tools></tools> XML tags. ' +
+    'You may call one or more functions to assist with the user query. ' +
+    "Don't make assumptions about what values to plug into functions. " +
+    `Here are the available tools: <tools> ${JSON.stringify(tools.map(toEngineTool))} </tools>. ` +
+    'Reply with a JSON array of function calls, each {"name": <function-name>, "arguments": <args-object>}. ' +
+    'If no function call is needed, reply with [].'
+  );
+}
+
+/**
+ * Convert a tool to the OpenAI-style function tool WebLLM expects.
+ */
+function toEngineTool(tool: LanguageModelTool) {
+  return {
+    type: 'function' as const,
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  };
+}
+
+/**
+ * Convert WebLLM tool calls (arguments as JSON strings) to core tool calls.
+ * WebLLM numbers calls from 0 in each response, so they get new IDs, or the
+ * IDs given to them while streaming.
+ */
+function mapToolCalls(
+  toolCalls: Array<{ function?: { name?: string; arguments?: string } }> | undefined,
+  ids: readonly string[] = []
+): ToolCall[] {
+  return (toolCalls ?? [])
+    .filter((call) => call.function?.name)
+    .map((call, i) => ({
+      toolCallId: ids[i] ?? createToolCallId(),
+      toolName: call.function!.name!,
+      args: JSON.parse(call.function!.arguments || '{}') as Record<string, unknown>,
+    }));
+}
+
 /**
  * WebLLM Language Model implementation.
  *
@@ -35,6 +105,8 @@ export class WebLLMLanguageModel implements LanguageModel {
   readonly provider = 'webllm';
   readonly contextLength: number;
   readonly supportsVision: boolean;
+  readonly supportsTools: boolean;
+  readonly supportsStructuredOutput = true;
 
   private engine: MLCEngine | null = null;
   private loadPromise: Promise<MLCEngine> | null = null;
@@ -46,6 +118,7 @@ export class WebLLMLanguageModel implements LanguageModel {
     this.modelId = `webllm:${baseModelId}`;
     this.contextLength = settings.contextLength ?? 4096;
     this.supportsVision = VISION_MODEL_IDS.has(baseModelId);
+    this.supportsTools = FUNCTION_CALLING_MODEL_IDS.has(baseModelId);
   }
 
   /**
@@ -111,33 +184,111 @@ export class WebLLMLanguageModel implements LanguageModel {
    *
    * Handles both string content and ContentPart[] multimodal content.
    * For vision models, converts ImagePart to OpenAI-compatible image_url format.
+   * With tools, Hermes-2-Pro models get the system prompt in the first user
+   * message (WebLLM injects its own), and Hermes-3 models get the tools in
+   * the system prompt. Tool calls are replayed as the JSON array the model
+   * produced.
    * @internal
    */
   private async buildMessages(options: {
     prompt: string;
     systemPrompt?: string;
-    messages?: Array<{ role: string; content: string | ContentPart[] }>;
-  }): Promise<Array<{ role: string; content: unknown }>> {
-    const msgs: Array<{ role: string; content: unknown }> = [];
+    messages?: ChatMessage[];
+    tools?: LanguageModelTool[];
+  }): Promise<Array<{ role: string; [key: string]: unknown }>> {
+    const msgs: Array<{ role: string; [key: string]: unknown }> = [];
+
+    let systemPrompt = options.systemPrompt ?? this.settings.systemPrompt;
+    let userPrefix: string | undefined;
+    if (options.tools && this.baseModelId.startsWith('Hermes-2-Pro-')) {
+      userPrefix = systemPrompt;
+      systemPrompt = undefined;
+    } else if (options.tools) {
+      systemPrompt = [systemPrompt, buildToolsSystemPrompt(options.tools)].filter(Boolean).join('\n\n');
+    }
 
-    const systemPrompt = options.systemPrompt ?? this.settings.systemPrompt;
     if (systemPrompt) {
       msgs.push({ role: 'system', content: systemPrompt });
     }
 
+    const addUserMessage = async (content: string | ContentPart[]) => {
+      if (userPrefix) {
+        content = typeof content === 'string'
+          ? `${userPrefix}\n\n${content}`
+          : [{ type: 'text', text: userPrefix }, ...content];
+        userPrefix = undefined;
+      }
+      msgs.push({ role: 'user', content: await this.convertContentAsync(content) });
+    };
+
     if (options.messages && options.messages.length > 0) {
       for (const msg of options.messages) {
-        msgs.push({ role: msg.role, content: await this.convertContentAsync(msg.content) });
+        if (msg.role === 'user') {
+          await addUserMessage(msg.content);
+        } else if (msg.role === 'tool') {
+          msgs.push({ role: 'tool', content: getTextContent(msg.content), tool_call_id: msg.toolCallId ?? '' });
+        } else if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+          const calls = msg.toolCalls.map((call) => ({ name: call.toolName, arguments: call.args }));
+          msgs.push({ role: 'assistant', content: JSON.stringify(calls) });
+        } else {
+          msgs.push({ role: msg.role, content: await this.convertContentAsync(msg.content) });
+        }
       }
     }
 
     if (options.prompt) {
-      msgs.push({ role: 'user', content: options.prompt });
+      await addUserMessage(options.prompt);
     }
 
     return msgs;
   }
 
+  /**
+   * Tools to send for a request: none when `toolChoice` is 'none', only the
+   * named tool for a named choice.
+   * @internal
+   */
+  private activeTools(options: DoGenerateOptions): LanguageModelTool[] | undefined {
+    const { tools, toolChoice = 'auto' } = options;
+    if (!this.supportsTools || !tools || tools.length === 0 || toolChoice === 'none') {
+      return undefined;
+    }
+    if (typeof toolChoice === 'object') {
+      return tools.filter((tool) => tool.name === toolChoice.toolName);
+    }
+    return tools;
+  }
+
+  /**
+   * Function calling request parameters.
+   * @internal
+   */
+  private toolParams(tools: LanguageModelTool[] | undefined) {
+    if (!tools) return {};
+    return {
+      tools: tools.map(toEngineTool),
+      ...(this.baseModelId.startsWith('Hermes-2-Pro-')
+        ? {}
+        : { response_format: { type: 'json_object' as const, schema: TOOL_CALLS_SCHEMA } }),
+    };
+  }
+
+  /**
+   * JSON Schema `response_format` for `responseFormat`. Tool requests set
+   * their own response format.
+   * @internal
+   */
+  private responseFormatParams(options: DoGenerateOptions, tools: LanguageModelTool[] | undefined) {
+    const { responseFormat } = options;
+    if (tools || responseFormat?.type !== 'json') return {};
+    return {
+      response_format: {
+        type: 'json_object' as const,
+        ...(responseFormat.schema ? { schema: JSON.stringify(responseFormat.schema) } : {}),
+      },
+    };
+  }
+
   /**
    * Convert content to WebLLM format, preprocessing images for vision models.
    * @internal
@@ -226,6 +377,7 @@ export class WebLLMLanguageModel implements LanguageModel {
       temperature = this.settings.temperature ?? 0.7,
       topP = this.settings.topP ?? 0.95,
       stopSequences,
+      toolChoice = 'auto',
       abortSignal,
     } = options;
 
@@ -237,7 +389,8 @@ export class WebLLMLanguageModel implements LanguageModel {
 
     const startTime = Date.now();
 
-    const engineMessages = await this.buildMessages({ prompt, systemPrompt, messages });
+    const tools = this.activeTools(options);
+    const engineMessages = await this.buildMessages({ prompt, systemPrompt, messages, tools });
 
     // Generate completion
     const response = await engine.chat.completions.create({
@@ -246,20 +399,30 @@ export class WebLLMLanguageModel implements LanguageModel {
       temperature,
       top_p: topP,
       stop: stopSequences,
+      ...this.toolParams(tools),
+      ...this.responseFormatParams(options, tools),
     });
 
-    const text = response.choices[0]?.message?.content ?? '';
-    const finishReason = this.mapFinishReason(response.choices[0]?.finish_reason);
+    const choice = response.choices[0];
+    const toolCalls = tools ? mapToolCalls(choice?.message?.tool_calls) : [];
+
+    // WebLLM function calling always replies with a call array; when the
+    // model calls nothing, generate the answer without tools
+    if (tools && toolCalls.length === 0 && toolChoice === 'auto') {
+      abortSignal?.throwIfAborted();
+      return this.doGenerate({ ...options, tools: undefined });
+    }
 
     return {
-      text,
-      finishReason,
+      text: tools ? '' : (choice?.message?.content ?? ''),
+      finishReason: this.mapFinishReason(choice?.finish_reason),
       usage: {
         inputTokens: response.usage?.prompt_tokens ?? 0,
         outputTokens: response.usage?.completion_tokens ?? 0,
         totalTokens: response.usage?.total_tokens ?? 0,
         durationMs: Date.now() - startTime,
       },
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
     };
   }
 
@@ -274,6 +437,8 @@ export class WebLLMLanguageModel implements LanguageModel {
         return 'length';
       case 'content_filter':
         return 'content_filter';
+      case 'tool_calls':
+        return 'tool_calls';
       default:
         return 'stop';
     }
@@ -291,6 +456,7 @@ export class WebLLMLanguageModel implements LanguageModel {
       temperature = this.settings.temperature ?? 0.7,
       topP = this.settings.topP ?? 0.95,
       stopSequences,
+      toolChoice = 'auto',
       abortSignal,
     } = options;
 
@@ -302,7 +468,8 @@ export class WebLLMLanguageModel implements LanguageModel {
 
     const startTime = Date.now();
 
-    const engineMessages = await this.buildMessages({ prompt, systemPrompt, messages });
+    const tools = this.activeTools(options);
+    const engineMessages = await this.buildMessages({ prompt, systemPrompt, messages, tools });
 
     // Stream completion
     const stream = await engine.chat.completions.create({
@@ -312,19 +479,38 @@ export class WebLLMLanguageModel implements LanguageModel {
       top_p: topP,
       stop: stopSequences,
       stream: true,
+      ...this.toolParams(tools),
+      ...this.responseFormatParams(options, tools),
     });
 
     let totalOutputTokens = 0;
+    // With tools the content is the call array, streamed as tool call deltas
+    const parser = tools ? createToolCallDeltaParser() : null;
 
     for await (const chunk of stream) {
       abortSignal?.throwIfAborted();
 
-      const text = chunk.choices[0]?.delta?.content ?? '';
+      const content = chunk.choices[0]?.delta?.content ?? '';
+      const text = tools ? '' : content;
+      const toolCallDeltas = parser?.push(content) ?? [];
       totalOutputTokens++;
 
       const finishReasonRaw = chunk.choices[0]?.finish_reason;
       const done = finishReasonRaw !== null && finishReasonRaw !== undefined;
       const finishReason = done ? this.mapFinishReason(finishReasonRaw) : undefined;
+      // The complete calls arrive on the last chunk
+      const toolCalls = done && tools ? mapToolCalls(chunk.choices[0]?.delta?.tool_calls, parser?.toolCallIds) : [];
+
+      if (!done && tools) {
+        if (toolCallDeltas.length > 0) yield { text: '', done: false, toolCallDeltas };
+        continue;
+      }
+
+      // No tool call: stream the answer without tools
+      if (done && tools && toolCalls.length === 0 && toolChoice === 'auto') {
+        yield* this.doStream({ ...options, tools: undefined });
+        return;
+      }
 
       yield {
         text,
@@ -338,6 +524,8 @@ export class WebLLMLanguageModel implements LanguageModel {
               durationMs: Date.now() - startTime,
             }
           : undefined,
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        ...(toolCallDeltas.length > 0 ? { toolCallDeltas } : {}),
       };
     }
   }
@@ -0,0 +1,273 @@
+/**
+ * JSON Schema to GBNF
+ *
+ * Compiles a JSON Schema into a llama.cpp GBNF grammar, so sampling can
+ * only produce JSON that matches the schema.
+ *
+ * @packageDocumentation
+ */
+
+type JSONSchema = Record<string, unknown>;
+
+/** Optional whitespace, bounded so the model cannot loop on it */
+const SPACE_RULE = '| " " | "\\n" [ \\t]{0,20}';
+
+/** Rules for JSON primitives and generic values, added on demand */
+const PRIMITIVE_RULES: Record<string, { body: string; deps: string[] }> = {
+  char: { body: '[^"\\\\\\x7F\\x00-\\x1F] | [\\\\] (["\\\\bfnrt] | "u" [0-9a-fA-F]{4})', deps: [] },
+  string: { body: '"\\"" char* "\\"" space', deps: ['char'] },
+  number: {
+    body: '("-"? ([0-9] | [1-9] [0-9]{0,15})) ("." [0-9]+)? ([eE] [-+]? [0-9]{1,15})? space',
+    deps: [],
+  },
+  integer: { body: '("-"? ([0-9] | [1-9] [0-9]{0,15})) space', deps: [] },
+  boolean: { body: '("true" | "false") space', deps: [] },
+  null: { body: '"null" space', deps: [] },
+  value: {
+    body: 'object | array | string | number | boolean | null',
+    deps: ['object', 'array', 'string', 'number', 'boolean', 'null'],
+  },
+  object: {
+    body: '"{" space ( string ":" space value ("," space string ":" space value)* )? "}" space',
+    deps: ['string', 'value'],
+  },
+  array: { body: '"[" space ( value ("," space value)* )? "]" space', deps: ['value'] },
+};
+
+/**
+ * Keywords the grammar does not enforce. Output for schemas that use them
+ * can still fail validation.
+ */
+const UNENFORCED_KEYWORDS = [
+  'pattern',
+  'format',
+  'minLength',
+  'maxLength',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf',
+  'maxItems',
+  'uniqueItems',
+  'contains',
+  'prefixItems',
+  'minProperties',
+  'maxProperties',
+  'patternProperties',
+  'propertyNames',
+  'dependentRequired',
+  'dependentSchemas',
+  'allOf',
+  'not',
+  'if',
+  '$ref',
+  '$dynamicRef',
+];
+
+/**
+ * A GBNF grammar compiled from a JSON Schema.
+ */
+export interface GBNFGrammar {
+  /** GBNF grammar with a `root` rule */
+  grammar: string;
+
+  /**
+   * Whether the grammar enforces the whole schema. When `false`, sampled
+   * output is valid JSON of the schema's shape but may still fail validation.
+   */
+  exact: boolean;
+}
+
+/**
+ * A GBNF string literal for `text`.
+ */
+function literal(text: string): string {
+  return `"${text.replace(/[\\"]/g, (c) => `\\${c}`).replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t')}"`;
+}
+
+/**
+ * Grammar rules under construction.
+ */
+class GrammarBuilder {
+  private readonly rules = new Map<string, string>();
+  /** Whether every schema visited so far is enforced in full */
+  exact = true;
+
+  constructor() {
+    this.rules.set('space', SPACE_RULE);
+  }
+
+  /** Add a JSON primitive rule and the rules it depends on */
+  primitive(name: keyof typeof PRIMITIVE_RULES): string {
+    if (!this.rules.has(name)) {
+      const rule = PRIMITIVE_RULES[name];
+      this.rules.set(name, rule.body);
+      for (const dep of rule.deps) this.primitive(dep);
+    }
+    return name;
+  }
+
+  /** Add a rule, renaming it when the name is taken by a different rule */
+  add(name: string, body: string): string {
+    const base = name.replace(/[^a-zA-Z0-9-]+/g, '-') || 'rule';
+    let candidate = base;
+    for (let i = 1; this.rules.has(candidate) && this.rules.get(candidate) !== body; i++) {
+      candidate = `${base}${i}`;
+    }
+    this.rules.set(candidate, body);
+    return candidate;
+  }
+
+  /** Add the rule for a schema and return its name */
+  visit(schema: JSONSchema, name: string): string {
+    if ('const' in schema) {
+      return this.add(name, `${literal(JSON.stringify(schema.const))} space`);
+    }
+
+    if (Array.isArray(schema.enum)) {
+      const values = schema.enum.map((value) => literal(JSON.stringify(value)));
+      return this.add(name, `(${values.join(' | ')}) space`);
+    }
+
+    if (!this.enforces(schema)) this.exact = false;
+
+    const alternatives = (schema.anyOf ?? schema.oneOf) as JSONSchema[] | undefined;
+    if (Array.isArray(alternatives)) {
+      const rules = alternatives.map((alt, i) => this.visit(alt, `${name}-${i}`));
+      return this.add(name, rules.join(' | '));
+    }
+
+    if (Array.isArray(schema.type)) {
+      const rules = (schema.type as string[]).map((type) => this.visit({ ...schema, type }, `${name}-${type}`));
+      return this.add(name, rules.join(' | '));
+    }
+
+    switch (schema.type) {
+      case 'object':
+        return schema.properties ? this.visitObject(schema, name) : this.primitive('object');
+      case 'array':
+        return this.visitArray(schema, name);
+      case 'string':
+      case 'number':
+      case 'integer':
+      case 'boolean':
+      case 'null':
+        return this.primitive(schema.type);
+      default:
+        return schema.properties ? this.visitObject(schema, name) : this.primitive('value');
+    }
+  }
+
+  /** Whether the rule for a schema enforces all of its keywords */
+  private enforces(schema: JSONSchema): boolean {
+    if (UNENFORCED_KEYWORDS.some((keyword) => keyword in schema)) return false;
+    // Only an empty or single-element minimum is expressible
+    if (typeof schema.minItems === 'number' && schema.minItems > 1) return false;
+    // Tuple items fall back to any value
+    if (Array.isArray(schema.items)) return false;
+
+    const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+    if (schema.properties) {
+      // Required properties are generated from their listed schemas
+      return required.every((key) => key in (schema.properties as JSONSchema));
+    }
+    // Without listed properties, objects allow any members
+    return required.length === 0 && (schema.additionalProperties ?? true) === true;
+  }
+
+  /** Object with its listed properties, required ones first */
+  private visitObject(schema: JSONSchema, name: string): string {
+    const properties = schema.properties as Record<string, JSONSchema>;
+    const required = new Set(Array.isArray(schema.required) ? (schema.required as string[]) : []);
+    const keyValue = (key: string) =>
+      `${literal(JSON.stringify(key))} space ":" space ${this.visit(properties[key], `${name}-${key}`)}`;
+
+    const requiredKeys = Object.keys(properties).filter((key) => required.has(key));
+    const optionalKeys = Object.keys(properties).filter((key) => !required.has(key));
+    const requiredPart = requiredKeys.map(keyValue).join(' "," space ');
+    const optionalPairs = optionalKeys.map(keyValue);
+
+    let members: string;
+    if (requiredKeys.length > 0) {
+      members = requiredPart + optionalPairs.map((pair) => ` ( "," space ${pair} )?`).join('');
+    } else if (optionalPairs.length > 0) {
+      // Any subset of the optional properties, in order
+      const tails = optionalPairs.map((pair, i) =>
+        [pair, ...optionalPairs.slice(i + 1).map((next) => `( "," space ${next} )?`)].join(' ')
+      );
+      members = `( ${tails.map((tail) => `( ${tail} )`).join(' | ')} )?`;
+    } else {
+      members = '';
+    }
+
+    return this.add(name, `"{" space ${members} "}" space`.replace(/ {2,}/g, ' '));
+  }
+
+  /** Array of `items`, non-empty when `minItems` is positive */
+  private visitArray(schema: JSONSchema, name: string): string {
+    const items =
+      typeof schema.items === 'object' && schema.items !== null && !Array.isArray(schema.items)
+        ? this.visit(schema.items as JSONSchema, `${name}-item`)
+        : this.primitive('value');
+    const list = `${items} ( "," space ${items} )*`;
+    const minItems = typeof schema.minItems === 'number' ? schema.minItems : 0;
+    return this.add(name, `"[" space ${minItems > 0 ? list : `( ${list} )?`} "]" space`);
+  }
+
+  /** The grammar text */
+  build(): string {
+    return [...this.rules].map(([name, body]) => `${name} ::= ${body}`).join('\n');
+  }
+}
+
+/**
+ * Compile a JSON Schema into a GBNF grammar for llama.cpp sampling, and
+ * report whether the grammar enforces the whole schema.
+ *
+ * Supports objects (listed properties only, required properties first),
+ * arrays, strings, numbers, integers, booleans, null, `enum`, `const`,
+ * `anyOf`/`oneOf`, type arrays and `minItems` of 0 or 1. Other keywords
+ * (`pattern`, `format`, bounds, `$ref`) are not enforced and make the
+ * grammar inexact; unknown schemas allow any JSON value.
+ *
+ * @param schema - JSON Schema of the output
+ * @returns The grammar and whether it is exact
+ *
+ * @example
+ * ```ts
+ * import { compileGBNF } from '@localmode/wllama';
+ *
+ * const { grammar, exact } = compileGBNF({ type: 'string', format: 'email' });
+ * // exact === false: the output is a JSON string, not necessarily an email address
+ * ```
+ */
+export function compileGBNF(schema: JSONSchema): GBNFGrammar {
+  const builder = new GrammarBuilder();
+  const root = builder.visit(schema, 'root');
+  if (root !== 'root') builder.add('root', root);
+  return { grammar: builder.build(), exact: builder.exact };
+}
+
+/**
+ * Compile a JSON Schema into a GBNF grammar for llama.cpp sampling.
+ *
+ * See {@link compileGBNF} for the supported keywords.
+ *
+ * @param schema - JSON Schema of the output
+ * @returns GBNF grammar with a `root` rule
+ *
+ * @example
+ * ```ts
+ * import { jsonSchemaToGBNF } from '@localmode/wllama';
+ *
+ * const grammar = jsonSchemaToGBNF({
+ *   type: 'object',
+ *   properties: { name: { type: 'string' }, age: { type: 'integer' } },
+ *   required: ['name', 'age'],
+ * });
+ * ```
+ */
+export function jsonSchemaToGBNF(schema: JSONSchema): string {
+  return compileGBNF(schema).grammar;
+}
@@ -31,6 +31,10 @@ export {
 // GGUF metadata parser
 export { parseGGUFMetadata, mapQuantizationType } from './gguf.js';
 
+// JSON Schema to GBNF compiler
+export { compileGBNF, jsonSchemaToGBNF } from './grammar.js';
+export type { GBNFGrammar } from './grammar.js';
+
 // Browser compatibility checker
 export { checkGGUFBrowserCompat, checkGGUFBrowserCompatFromURL } from './compat.js';
 
@@ -3,8 +3,9 @@
  *
  * Implements LanguageModel interface using wllama v3 (llama.cpp compiled to WASM).
  * Uses the OAI-compatible API (createChatCompletion / createCompletion).
- * Supports WebGPU acceleration, multimodal vision input, tool calling,
- * and native Jinja chat templates.
+ * Supports WebGPU acceleration, multimodal vision input, tool calling
+ * through the chat template, native Jinja chat templates, and
+ * `responseFormat` compiled to a GBNF grammar.
  *
  * @packageDocumentation
  */
@@ -16,12 +17,18 @@ import type {
   DoStreamOptions,
   StreamChunk,
   FinishReason,
+  LanguageModelTool,
+  ToolCall,
+  ToolCallDelta,
+  ToolChoice,
+  ResponseFormat,
 } from '@localmode/core';
-import { ModelLoadError, GenerationError } from '@localmode/core';
+import { ModelLoadError, GenerationError, createToolCallId, getTextContent } from '@localmode/core';
 import type { WllamaModelSettings, WllamaLoadProgress } from './types.js';
 import { WLLAMA_MODELS } from './models.js';
 import { isCrossOriginIsolated, resolveModelUrl } from './utils.js';
 import { parseGGUFMetadata } from './gguf.js';
+import { compileGBNF, jsonSchemaToGBNF } from './grammar.js';
 
 type WllamaInstance = InstanceType<Awaited<typeof import('@wllama/wllama')>['Wllama']>;
 
@@ -80,6 +87,40 @@ function resolveGpuLayers(settings: WllamaModelSettings): number | undefined {
  * Web Worker when they transpile the @wllama/wllama package.
  * @internal
  */
+/**
+ * Convert tools and tool choice to the OAI-compatible request fields.
+ * @internal
+ */
+function toOAITools(tools: LanguageModelTool[] | undefined, toolChoice: ToolChoice | undefined) {
+  if (!tools) return {};
+  return {
+    tools: tools.map((tool) => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    })),
+    tool_choice: typeof toolChoice === 'object'
+      ? { type: 'function', function: { name: toolChoice.toolName } }
+      : (toolChoice ?? 'auto'),
+  };
+}
+
+/**
+ * Convert OAI tool calls (arguments as JSON strings) to core tool calls.
+ * @internal
+ */
+function fromOAIToolCalls(
+  toolCalls: Array<{ id?: string; function?: { name?: string; arguments?: string } }> | undefined
+): ToolCall[] {
+  return (toolCalls ?? []).flatMap((call) => {
+    if (!call.function?.name) return [];
+    let args: Record<string, unknown> = {};
+    try {
+      args = JSON.parse(call.function.arguments || '{}') as Record<string, unknown>;
+    } catch { /* keep empty args for malformed JSON */ }
+    return [{ toolCallId: call.id || createToolCallId(), toolName: call.function.name, args }];
+  });
+}
+
 async function importWllama(): Promise<{ Wllama: new (config: { default: string }) => WllamaInstance }> {
   const dynamicImport = new Function('u', 'return import(u)') as (url: string) => Promise<{ Wllama: new (config: { default: string }) => WllamaInstance }>;
   return dynamicImport(WLLAMA_CDN_ESM);
@@ -105,6 +146,8 @@ export class WllamaLanguageModel implements LanguageModel {
   readonly modelId: string;
   readonly provider = 'wllama';
   readonly supportsVision: boolean;
+  readonly supportsTools: boolean;
+  readonly supportsStructuredOutput = true;
   contextLength: number;
   readonly gpuAccelerated: boolean;
 
@@ -119,8 +162,9 @@ export class WllamaLanguageModel implements LanguageModel {
     this.modelId = `wllama:${baseModelId}`;
     this.contextLength = settings.contextLength ?? 4096;
 
-    const catalogEntry = (WLLAMA_MODELS as Record<string, { vision?: boolean; mmprojUrl?: string }>)[baseModelId];
+    const catalogEntry = (WLLAMA_MODELS as Record<string, { vision?: boolean; mmprojUrl?: string; supportsToolCalling?: boolean }>)[baseModelId];
     this.supportsVision = !!(settings.mmprojUrl || (catalogEntry?.vision && catalogEntry?.mmprojUrl));
+    this.supportsTools = settings.useJinja !== false && (settings.toolCalling ?? !!catalogEntry?.supportsToolCalling);
 
     const gpuLayers = resolveGpuLayers(settings);
     this.gpuAccelerated = gpuLayers !== undefined && gpuLayers !== 0;
@@ -270,6 +314,7 @@ export class WllamaLanguageModel implements LanguageModel {
   /** @internal */
   private mapFinishReason(reason: string | null): FinishReason {
     if (reason === 'length') return 'length';
+    if (reason === 'tool_calls') return 'tool_calls';
     return 'stop';
   }
 
@@ -286,6 +331,14 @@ export class WllamaLanguageModel implements LanguageModel {
     );
   }
 
+  /**
+   * Whether the GBNF grammar compiled from the format's schema enforces the
+   * whole schema.
+   */
+  enforcesResponseFormat(format: ResponseFormat): boolean {
+    return compileGBNF(format.schema ?? {}).exact;
+  }
+
   /**
    * Generate text from a prompt.
    */
@@ -298,6 +351,7 @@ export class WllamaLanguageModel implements LanguageModel {
       temperature = this.settings.temperature ?? 0.7,
       topP = this.settings.topP ?? 0.95,
       stopSequences,
+      toolChoice,
       abortSignal,
       providerOptions,
     } = options;
@@ -308,10 +362,13 @@ export class WllamaLanguageModel implements LanguageModel {
 
     const startTime = Date.now();
     const wllamaOpts = (providerOptions?.wllama ?? {}) as Record<string, unknown>;
+    const tools = this.activeTools(options);
     const sampling = this.buildSamplingParams(temperature, topP, wllamaOpts);
+    const grammar = this.responseGrammar(options, tools, wllamaOpts);
+    if (grammar) sampling.grammar = grammar;
 
     try {
-      const hasMessages = (messages && messages.length > 0) || !!systemPrompt;
+      const hasMessages = (messages && messages.length > 0) || !!systemPrompt || !!tools;
 
       if (hasMessages) {
         const oaiMessages = this.buildOAIMessages(messages, systemPrompt, prompt);
@@ -321,13 +378,17 @@ export class WllamaLanguageModel implements LanguageModel {
           messages: oaiMessages,
           max_tokens: maxTokens,
           ...(responseFormat ? { response_format: responseFormat } : {}),
+          ...toOAITools(tools, toolChoice),
           ...sampling,
         } as never);
 
         const choice = response.choices?.[0];
         const msg = choice?.message as unknown as Record<string, unknown> | undefined;
-        const text = (msg?.content as string) || (msg?.reasoning_content as string) || '';
-        const finishReason = this.mapFinishReason(choice?.finish_reason ?? null);
+        const toolCalls = fromOAIToolCalls(msg?.tool_calls as Parameters<typeof fromOAIToolCalls>[0]);
+        const text = (msg?.content as string) || (toolCalls.length > 0 ? '' : (msg?.reasoning_content as string)) || '';
+        const finishReason = toolCalls.length > 0
+          ? 'tool_calls'
+          : this.mapFinishReason(choice?.finish_reason ?? null);
         const usage = response.usage;
 
         return {
@@ -339,6 +400,7 @@ export class WllamaLanguageModel implements LanguageModel {
             totalTokens: usage?.total_tokens ?? 0,
             durationMs: Date.now() - startTime,
           },
+          ...(toolCalls.length > 0 ? { toolCalls } : {}),
         };
       } else {
         const response = await wllamaInstance.createCompletion({
@@ -369,6 +431,28 @@ export class WllamaLanguageModel implements LanguageModel {
     }
   }
 
+  /** @internal Tools to pass to the chat template, when supported and not disabled */
+  private activeTools(options: DoGenerateOptions): LanguageModelTool[] | undefined {
+    const { tools, toolChoice } = options;
+    if (!this.supportsTools || !tools || tools.length === 0 || toolChoice === 'none') return undefined;
+    return tools;
+  }
+
+  /**
+   * @internal GBNF grammar for `responseFormat`. Skipped when tools are active
+   * or a grammar or response format is set in provider options.
+   */
+  private responseGrammar(
+    options: DoGenerateOptions,
+    tools: LanguageModelTool[] | undefined,
+    wllamaOpts: Record<string, unknown>
+  ): string | undefined {
+    const { responseFormat } = options;
+    if (responseFormat?.type !== 'json' || tools) return undefined;
+    if (wllamaOpts.grammar != null || wllamaOpts.response_format != null) return undefined;
+    return jsonSchemaToGBNF(responseFormat.schema ?? {});
+  }
+
   /** @internal Build OAI-format messages from core messages/systemPrompt/prompt */
   private buildOAIMessages(
     messages: DoGenerateOptions['messages'],
@@ -377,12 +461,28 @@ export class WllamaLanguageModel implements LanguageModel {
   ) {
     type WllamaContentPart = { type: 'text'; text: string } | { type: 'image'; data: ArrayBuffer } | { type: 'audio'; data: ArrayBuffer };
     type WllamaContent = string | WllamaContentPart[];
-    const oaiMessages: Array<{ role: 'system' | 'user' | 'assistant'; content: WllamaContent }> = [];
+    type OAIToolCall = { id: string; type: 'function'; function: { name: string; arguments: string } };
+    const oaiMessages: Array<
+      | { role: 'system' | 'user' | 'assistant'; content: WllamaContent; tool_calls?: OAIToolCall[] }
+      | { role: 'tool'; content: string; tool_call_id: string }
+    > = [];
     const sysPrompt = systemPrompt ?? this.settings.systemPrompt;
     if (sysPrompt) oaiMessages.push({ role: 'system', content: sysPrompt });
     if (messages) {
       for (const m of messages) {
-        if (typeof m.content === 'string') {
+        if (m.role === 'tool') {
+          oaiMessages.push({ role: 'tool', content: getTextContent(m.content), tool_call_id: m.toolCallId ?? '' });
+        } else if (m.role === 'assistant' && m.toolCalls && m.toolCalls.length > 0) {
+          oaiMessages.push({
+            role: 'assistant',
+            content: getTextContent(m.content),
+            tool_calls: m.toolCalls.map((call) => ({
+              id: call.toolCallId,
+              type: 'function',
+              function: { name: call.toolName, arguments: JSON.stringify(call.args) },
+            })),
+          });
+        } else if (typeof m.content === 'string') {
           if (m.content) oaiMessages.push({ role: m.role as 'user' | 'assistant', content: m.content });
         } else if (Array.isArray(m.content)) {
           const hasMedia = m.content.some((p) => (p.type === 'image' && this.supportsVision) || p.type === 'audio');
@@ -430,6 +530,7 @@ export class WllamaLanguageModel implements LanguageModel {
       maxTokens = this.settings.maxTokens ?? 512,
       temperature = this.settings.temperature ?? 0.7,
       topP = this.settings.topP ?? 0.95,
+      toolChoice,
       abortSignal,
       providerOptions,
     } = options;
@@ -440,10 +541,13 @@ export class WllamaLanguageModel implements LanguageModel {
 
     const startTime = Date.now();
     const wllamaOpts = (providerOptions?.wllama ?? {}) as Record<string, unknown>;
-    const sampling = this.buildSamplingParams(temperature, topP, wllamaOpts);
     const responseFormat = wllamaOpts.response_format as Record<string, unknown> | undefined;
+    const tools = this.activeTools(options);
+    const sampling = this.buildSamplingParams(temperature, topP, wllamaOpts);
+    const grammar = this.responseGrammar(options, tools, wllamaOpts);
+    if (grammar) sampling.grammar = grammar;
 
-    const hasMessages = (messages && messages.length > 0) || !!systemPrompt;
+    const hasMessages = (messages && messages.length > 0) || !!systemPrompt || !!tools;
 
     if (!hasMessages) {
       const result = await this.doGenerate(options);
@@ -460,12 +564,15 @@ export class WllamaLanguageModel implements LanguageModel {
         max_tokens: maxTokens,
         stream: true,
         ...(responseFormat ? { response_format: responseFormat } : {}),
+        ...toOAITools(tools, toolChoice),
         ...sampling,
       } as never) as unknown as AsyncIterable<Record<string, unknown>>;
 
       let fullText = '';
       let lastFinishReason: FinishReason = 'stop';
       let lastUsage: Record<string, number> | undefined;
+      // Tool call deltas by index: the first carries id and name, the rest argument fragments
+      const toolCallDeltas: Array<{ id?: string; started?: boolean; function: { name?: string; arguments: string } }> = [];
 
       for await (const chunk of stream) {
         if (abortSignal?.aborted) break;
@@ -479,9 +586,36 @@ export class WllamaLanguageModel implements LanguageModel {
         const reasoningContent = (delta?.reasoning_content as string) || '';
         const tokenText = content || reasoningContent;
 
-        if (tokenText) {
-          fullText += tokenText;
-          yield { text: tokenText, done: false };
+        fullText += tokenText;
+
+        // Forward each call's arguments as they arrive, once its name is known
+        const chunkToolCalls: ToolCallDelta[] = [];
+        const deltaToolCalls = delta?.tool_calls as
+          | Array<{ index?: number; id?: string; function?: { name?: string; arguments?: string } }>
+          | undefined;
+        for (const call of deltaToolCalls ?? []) {
+          const entry = (toolCallDeltas[call.index ?? 0] ??= { function: { arguments: '' } });
+          if (call.id && !entry.started) entry.id = call.id;
+          if (call.function?.name) entry.function.name = call.function.name;
+          const fragment = call.function?.arguments ?? '';
+          entry.function.arguments += fragment;
+
+          if (!entry.function.name) continue;
+          if (!entry.started) {
+            entry.id ??= createToolCallId();
+            entry.started = true;
+            chunkToolCalls.push({ toolCallId: entry.id, toolName: entry.function.name, argsTextDelta: entry.function.arguments });
+          } else if (fragment) {
+            chunkToolCalls.push({ toolCallId: entry.id!, toolName: entry.function.name, argsTextDelta: fragment });
+          }
+        }
+
+        if (tokenText || chunkToolCalls.length > 0) {
+          yield {
+            text: tokenText,
+            done: false,
+            ...(chunkToolCalls.length > 0 ? { toolCallDeltas: chunkToolCalls } : {}),
+          };
         }
 
         if (choice.finish_reason) {
@@ -493,16 +627,19 @@ export class WllamaLanguageModel implements LanguageModel {
         }
       }
 
+      const toolCalls = fromOAIToolCalls(toolCallDeltas.filter(Boolean));
+
       yield {
         text: '',
         done: true,
-        finishReason: lastFinishReason,
+        finishReason: toolCalls.length > 0 ? 'tool_calls' : lastFinishReason,
         usage: {
           inputTokens: lastUsage?.prompt_tokens ?? Math.ceil(prompt.length / 4),
           outputTokens: lastUsage?.completion_tokens ?? Math.ceil(fullText.length / 4),
           totalTokens: lastUsage?.total_tokens ?? 0,
           durationMs: Date.now() - startTime,
         },
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
       };
     } catch (error) {
       this.handleGenerationError(error);
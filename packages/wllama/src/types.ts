@@ -114,6 +114,13 @@ export interface WllamaModelSettings {
    */
   useJinja?: boolean;
 
+  /**
+   * Pass `tools` to the model's chat template (requires `useJinja`).
+   * When false, tool calling is emulated with prompt instructions.
+   * @default the catalog entry's `supportsToolCalling`, otherwise false
+   */
+  toolCalling?: boolean;
+
   /**
    * Enable WebGPU acceleration for inference.
    * - `true`: enable GPU offload (falls back to WASM if WebGPU unavailable)
@@ -0,0 +1,191 @@
+/**
+ * @localmode/wllama Tests — JSON Schema to GBNF
+ *
+ * Tests for compiling JSON Schemas into GBNF grammars for constrained decoding.
+ *
+ * @packageDocumentation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileGBNF, jsonSchemaToGBNF } from '../src/grammar.js';
+
+/** Parse grammar text into a rule map */
+function parseRules(grammar: string): Map<string, string> {
+  const rules = new Map<string, string>();
+  for (const line of grammar.split('\n')) {
+    const [name, body] = line.split(' ::= ');
+    rules.set(name, body);
+  }
+  return rules;
+}
+
+/** Rule names referenced by a rule body (outside literals and character classes) */
+function references(body: string): string[] {
+  const stripped = body.replace(/"(?:[^"\\]|\\.)*"/g, '').replace(/\[(?:[^\]\\]|\\.)*\]/g, '');
+  return stripped.match(/[a-zA-Z][a-zA-Z0-9-]*/g) ?? [];
+}
+
+/** Assert that every referenced rule is defined */
+function expectClosed(grammar: string) {
+  const rules = parseRules(grammar);
+  for (const body of rules.values()) {
+    for (const ref of references(body)) {
+      expect(rules.has(ref), `rule "${ref}" is not defined`).toBe(true);
+    }
+  }
+}
+
+describe('jsonSchemaToGBNF()', () => {
+  it('compiles an object with required properties in order', () => {
+    const grammar = jsonSchemaToGBNF({
+      type: 'object',
+      properties: { name: { type: 'string' }, age: { type: 'integer' } },
+      required: ['name', 'age'],
+    });
+    const rules = parseRules(grammar);
+
+    expect(rules.get('root')).toBe(
+      '"{" space "\\"name\\"" space ":" space string "," space "\\"age\\"" space ":" space integer "}" space'
+    );
+    expect(rules.has('string')).toBe(true);
+    expect(rules.has('char')).toBe(true);
+    expect(rules.has('space')).toBe(true);
+    expectClosed(grammar);
+  });
+
+  it('makes optional properties optional after the required ones', () => {
+    const grammar = jsonSchemaToGBNF({
+      type: 'object',
+      properties: { note: { type: 'string' }, id: { type: 'number' } },
+      required: ['id'],
+    });
+
+    expect(parseRules(grammar).get('root')).toBe(
+      '"{" space "\\"id\\"" space ":" space number ( "," space "\\"note\\"" space ":" space string )? "}" space'
+    );
+  });
+
+  it('allows any subset of properties when none is required', () => {
+    const grammar = jsonSchemaToGBNF({
+      type: 'object',
+      properties: { a: { type: 'boolean' }, b: { type: 'boolean' } },
+    });
+    const root = parseRules(grammar).get('root')!;
+
+    expect(root).toMatch(/^"\{" space \( \( "\\"a\\"".*\) \| \( "\\"b\\"".*\) \)\? "\}" space$/);
+    expectClosed(grammar);
+  });
+
+  it('compiles enums and constants as literals', () => {
+    const grammar = jsonSchemaToGBNF({
+      type: 'object',
+      properties: {
+        mood: { type: 'string', enum: ['happy', 'sad'] },
+        version: { const: 2 },
+      },
+      required: ['mood', 'version'],
+    });
+    const rules = parseRules(grammar);
+
+    expect(rules.get('root-mood')).toBe('("\\"happy\\"" | "\\"sad\\"") space');
+    expect(rules.get('root-version')).toBe('"2" space');
+  });
+
+  it('compiles nullable and union types as alternatives', () => {
+    const grammar = jsonSchemaToGBNF({
+      type: 'object',
+      properties: {
+        a: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+        b: { type: ['number', 'null'] },
+      },
+      required: ['a', 'b'],
+    });
+    const rules = parseRules(grammar);
+
+    expect(rules.get('root-a')).toBe('string | null');
+    expect(rules.get('root-b')).toBe('number | null');
+    expectClosed(grammar);
+  });
+
+  it('compiles arrays of items, non-empty with minItems', () => {
+    const rules = parseRules(
+      jsonSchemaToGBNF({
+        type: 'object',
+        properties: {
+          tags: { type: 'array', items: { type: 'string' } },
+          ids: { type: 'array', items: { type: 'integer' }, minItems: 1 },
+        },
+        required: ['tags', 'ids'],
+      })
+    );
+
+    expect(rules.get('root-tags')).toBe('"[" space ( string ( "," space string )* )? "]" space');
+    expect(rules.get('root-ids')).toBe('"[" space integer ( "," space integer )* "]" space');
+  });
+
+  it('falls back to any JSON value for unknown schemas', () => {
+    const grammar = jsonSchemaToGBNF({});
+
+    expect(parseRules(grammar).get('root')).toBe('value');
+    expectClosed(grammar);
+  });
+
+  it('names rules for unusual property names and escapes keys', () => {
+    const grammar = jsonSchemaToGBNF({
+      type: 'object',
+      properties: { 'first name': { type: 'object', properties: { 'a"b': { type: 'string' } }, required: ['a"b'] } },
+      required: ['first name'],
+    });
+    const rules = parseRules(grammar);
+
+    expect(rules.get('root-first-name')).toContain('"\\"a\\\\\\"b\\""');
+    expectClosed(grammar);
+  });
+});
+
+describe('compileGBNF()', () => {
+  it('reports schemas it enforces in full as exact', () => {
+    const compiled = compileGBNF({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        status: { enum: ['open', 'closed'] },
+        tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        note: { type: ['string', 'null'] },
+      },
+      required: ['name', 'status'],
+    });
+
+    expect(compiled).toEqual({ grammar: expect.stringContaining('root ::='), exact: true });
+    expect(compileGBNF({}).exact).toBe(true);
+  });
+
+  it('reports schemas with unenforced keywords as inexact', () => {
+    const inexact = [
+      { type: 'string', pattern: '^[a-z]+$' },
+      { type: 'string', format: 'email' },
+      { type: 'string', maxLength: 10 },
+      { type: 'integer', minimum: 0 },
+      { type: 'array', items: { type: 'string' }, minItems: 2 },
+      { $ref: '#/$defs/item' },
+      { type: 'object', additionalProperties: false },
+      { type: 'object', properties: { a: { type: 'string' } }, required: ['b'] },
+    ];
+
+    for (const schema of inexact) {
+      expect(compileGBNF(schema).exact, JSON.stringify(schema)).toBe(false);
+    }
+  });
+
+  it('reports nested unenforced keywords', () => {
+    const compiled = compileGBNF({
+      type: 'object',
+      properties: { items: { type: 'array', items: { type: 'number', maximum: 5 } } },
+    });
+
+    expect(compiled.exact).toBe(false);
+    expect(compiled.grammar).toBe(
+      jsonSchemaToGBNF({ type: 'object', properties: { items: { type: 'array', items: { type: 'number' } } } })
+    );
+  });
+});
@@ -96,6 +96,7 @@ import { WllamaEmbeddingModel } from '../src/embedding.js';
 import { createWllama } from '../src/provider.js';
 import { isCrossOriginIsolated, resolveModelUrl } from '../src/utils.js';
 import { WLLAMA_MODELS } from '../src/models.js';
+import { jsonSchemaToGBNF } from '../src/grammar.js';
 
 // ═══════════════════════════════════════════════════════════════
 // TESTS
@@ -361,6 +362,151 @@ describe('@localmode/wllama', () => {
     });
   });
 
+  // ─────────────────────────────────────────────────────────────
+  // Tool calling
+  // ─────────────────────────────────────────────────────────────
+  describe('Tool calling', () => {
+    const weatherTool = {
+      name: 'get_weather',
+      description: 'Get the weather',
+      parameters: { type: 'object', properties: { city: { type: 'string' } } },
+    };
+
+    it('should report supportsTools from the catalog or settings', () => {
+      const catalogId = Object.keys(WLLAMA_MODELS).find((id) => {
+        const entry = WLLAMA_MODELS[id as keyof typeof WLLAMA_MODELS];
+        return 'supportsToolCalling' in entry && entry.supportsToolCalling;
+      })!;
+      expect(new WllamaLanguageModel(catalogId).supportsTools).toBe(true);
+      expect(new WllamaLanguageModel('test-model').supportsTools).toBe(false);
+      expect(new WllamaLanguageModel('test-model', { toolCalling: true }).supportsTools).toBe(true);
+      expect(new WllamaLanguageModel('test-model', { toolCalling: true, useJinja: false }).supportsTools).toBe(false);
+    });
+
+    it('should pass tools and tool_choice to createChatCompletion', async () => {
+      const model = new WllamaLanguageModel('test-model', { modelUrl: 'https://example.com/test.gguf', toolCalling: true });
+      await model.doGenerate({
+        prompt: 'Weather in Paris?',
+        tools: [weatherTool],
+        toolChoice: { type: 'tool', toolName: 'get_weather' },
+      });
+
+      const callArgs = mockState.createChatCompletion.mock.calls[0][0] as Record<string, unknown>;
+      expect(callArgs.tools).toEqual([{ type: 'function', function: weatherTool }]);
+      expect(callArgs.tool_choice).toEqual({ type: 'function', function: { name: 'get_weather' } });
+    });
+
+    it('should return tool calls from the response', async () => {
+      mockState.createChatCompletion.mockResolvedValue({
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: 'call_abc', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }],
+          },
+          finish_reason: 'tool_calls',
+        }],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      });
+
+      const model = new WllamaLanguageModel('test-model', { modelUrl: 'https://example.com/test.gguf', toolCalling: true });
+      const result = await model.doGenerate({ prompt: 'Weather in Paris?', tools: [weatherTool] });
+
+      expect(result.text).toBe('');
+      expect(result.finishReason).toBe('tool_calls');
+      expect(result.toolCalls).toEqual([{ toolCallId: 'call_abc', toolName: 'get_weather', args: { city: 'Paris' } }]);
+    });
+
+    it('should send tool calls and results as OAI messages', async () => {
+      const model = new WllamaLanguageModel('test-model', { modelUrl: 'https://example.com/test.gguf', toolCalling: true });
+      await model.doGenerate({
+        prompt: '',
+        tools: [weatherTool],
+        messages: [
+          { role: 'user', content: 'Weather in Paris?' },
+          { role: 'assistant', content: '', toolCalls: [{ toolCallId: 'call_abc', toolName: 'get_weather', args: { city: 'Paris' } }] },
+          { role: 'tool', content: '18°C', toolCallId: 'call_abc', toolName: 'get_weather' },
+        ],
+      });
+
+      const callArgs = mockState.createChatCompletion.mock.calls[0][0] as Record<string, unknown>;
+      const msgs = callArgs.messages as Array<Record<string, unknown>>;
+      expect(msgs[1]).toEqual({
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ id: 'call_abc', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }],
+      });
+      expect(msgs[2]).toEqual({ role: 'tool', content: '18°C', tool_call_id: 'call_abc' });
+    });
+
+    it('should accumulate streamed tool call deltas', async () => {
+      mockState.createChatCompletion.mockResolvedValue((async function* () {
+        yield { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_abc', function: { name: 'get_weather', arguments: '{"ci' } }] } }] };
+        yield { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: 'ty":"Paris"}' } }] } }] };
+        yield { choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] };
+      })());
+
+      const model = new WllamaLanguageModel('test-model', { modelUrl: 'https://example.com/test.gguf', toolCalling: true });
+      let finalChunk;
+      const deltas = [];
+      for await (const chunk of model.doStream({ prompt: 'Weather in Paris?', tools: [weatherTool] })) {
+        deltas.push(...(chunk.toolCallDeltas ?? []));
+        if (chunk.done) finalChunk = chunk;
+      }
+
+      expect(deltas).toEqual([
+        { toolCallId: 'call_abc', toolName: 'get_weather', argsTextDelta: '{"ci' },
+        { toolCallId: 'call_abc', toolName: 'get_weather', argsTextDelta: 'ty":"Paris"}' },
+      ]);
+      expect(finalChunk!.finishReason).toBe('tool_calls');
+      expect(finalChunk!.toolCalls).toEqual([{ toolCallId: 'call_abc', toolName: 'get_weather', args: { city: 'Paris' } }]);
+    });
+  });
+
+  describe('Structured output', () => {
+    const schema = { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] };
+
+    it('should report supportsStructuredOutput', () => {
+      expect(new WllamaLanguageModel('test-model').supportsStructuredOutput).toBe(true);
+    });
+
+    it('should report whether the grammar enforces the whole schema', () => {
+      const model = new WllamaLanguageModel('test-model');
+
+      expect(model.enforcesResponseFormat({ type: 'json', schema })).toBe(true);
+      expect(model.enforcesResponseFormat({ type: 'json', schema: { type: 'string', format: 'date' } })).toBe(false);
+    });
+
+    it('should compile responseFormat into a GBNF grammar', async () => {
+      const model = new WllamaLanguageModel('test-model', { modelUrl: 'https://example.com/test.gguf' });
+      await model.doGenerate({ prompt: 'Name?', responseFormat: { type: 'json', schema } });
+
+      const callArgs = mockState.createCompletion.mock.calls[0][0] as Record<string, unknown>;
+      expect(callArgs.grammar).toBe(jsonSchemaToGBNF(schema));
+    });
+
+    it('should pass the grammar to chat completions', async () => {
+      const model = new WllamaLanguageModel('test-model', { modelUrl: 'https://example.com/test.gguf' });
+      await model.doGenerate({ prompt: 'Name?', systemPrompt: 'Reply in JSON', responseFormat: { type: 'json' } });
+
+      const callArgs = mockState.createChatCompletion.mock.calls[0][0] as Record<string, unknown>;
+      expect(callArgs.grammar).toBe(jsonSchemaToGBNF({}));
+    });
+
+    it('should prefer a grammar from providerOptions', async () => {
+      const model = new WllamaLanguageModel('test-model', { modelUrl: 'https://example.com/test.gguf' });
+      await model.doGenerate({
+        prompt: 'Yes or no?',
+        responseFormat: { type: 'json', schema },
+        providerOptions: { wllama: { grammar: 'root ::= "yes" | "no"' } },
+      });
+
+      const callArgs = mockState.createCompletion.mock.calls[0][0] as Record<string, unknown>;
+      expect(callArgs.grammar).toBe('root ::= "yes" | "no"');
+    });
+  });
+
   // ─────────────────────────────────────────────────────────────
   // doStream() with AbortSignal
   // ─────────────────────────────────────────────────────────────